@@ -0,0 +1,145 @@
+#!/usr/bin/env node
+
+/**
+ * Local calendar feed server for development and testing.
+ *
+ * Serves the ICS feeds created under Settings > Calendar at
+ * `GET /feeds/<token>.ics`, so calendar apps can subscribe to them. The app
+ * publishes each feed with `PUT` whenever the data behind it changes and
+ * revokes it with `DELETE`; revoked feeds answer 410 so subscribers stop
+ * polling. Feeds are kept in memory only, and the app publishes them again
+ * when it next opens. It needs no dependencies.
+ *
+ *   npm run feeds:server            # http://localhost:3002/feeds/<token>.ics
+ *   PORT=4002 npm run feeds:server
+ */
+
+import { createServer } from "http";
+
+const PORT = Number(process.env.PORT) || 3002;
+const FEED_PATH_PATTERN = /^\/feeds\/([a-f0-9]{32})\.ics$/;
+const MAX_FEED_SIZE = 5 * 1024 * 1024;
+
+const CORS_HEADERS = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Methods": "GET, HEAD, PUT, DELETE, OPTIONS",
+  "Access-Control-Allow-Headers": "Content-Type",
+};
+
+const feeds = new Map();
+const revoked = new Set();
+
+function sendText(response, status, body) {
+  response.writeHead(status, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/plain; charset=utf-8",
+  });
+  response.end(`${body}\n`);
+}
+
+function readBody(request) {
+  return new Promise((resolve, reject) => {
+    const chunks = [];
+    let size = 0;
+
+    request.on("data", (chunk) => {
+      size += chunk.length;
+      if (size > MAX_FEED_SIZE) {
+        reject(new Error("Feed too large"));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+    request.on("error", reject);
+  });
+}
+
+async function handlePublish(request, response, token) {
+  if (revoked.has(token)) {
+    sendText(response, 410, "Feed has been revoked");
+    return;
+  }
+
+  let body;
+  try {
+    body = await readBody(request);
+  } catch {
+    sendText(response, 413, "Feed too large");
+    return;
+  }
+
+  if (!body.startsWith("BEGIN:VCALENDAR")) {
+    sendText(response, 400, "Expected an iCalendar document");
+    return;
+  }
+
+  const created = !feeds.has(token);
+  feeds.set(token, body);
+  response.writeHead(created ? 201 : 204, CORS_HEADERS);
+  response.end();
+}
+
+function handleRevoke(response, token) {
+  feeds.delete(token);
+  revoked.add(token);
+  response.writeHead(204, CORS_HEADERS);
+  response.end();
+}
+
+function handleGet(request, response, token) {
+  if (revoked.has(token)) {
+    sendText(response, 410, "Feed has been revoked");
+    return;
+  }
+
+  const body = feeds.get(token);
+  if (body === undefined) {
+    sendText(response, 404, "Feed not found");
+    return;
+  }
+
+  response.writeHead(200, {
+    ...CORS_HEADERS,
+    "Content-Type": "text/calendar; charset=utf-8",
+    "Cache-Control": "private, max-age=900",
+    "Content-Disposition": `inline; filename="${token}.ics"`,
+  });
+  response.end(request.method === "HEAD" ? undefined : body);
+}
+
+const server = createServer((request, response) => {
+  const path = new URL(request.url, "http://localhost").pathname;
+  const match = path.match(FEED_PATH_PATTERN);
+
+  if (!match) {
+    sendText(response, 404, "Feed not found");
+    return;
+  }
+
+  const token = match[1];
+
+  switch (request.method) {
+    case "OPTIONS":
+      response.writeHead(204, CORS_HEADERS);
+      response.end();
+      break;
+    case "GET":
+    case "HEAD":
+      handleGet(request, response, token);
+      break;
+    case "PUT":
+      handlePublish(request, response, token);
+      break;
+    case "DELETE":
+      handleRevoke(response, token);
+      break;
+    default:
+      sendText(response, 405, "Method not allowed");
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Feed server listening on http://localhost:${PORT}/feeds/`);
+});
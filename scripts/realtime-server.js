@@ -0,0 +1,213 @@
+#!/usr/bin/env node
+
+/**
+ * Local realtime server for development and testing.
+ *
+ * Relays every message a client sends to all other connected clients and
+ * announces `presence_left` when a client disconnects. It keeps no other
+ * state. Implements just enough of the WebSocket protocol (RFC 6455) for
+ * text messages, so it needs no dependencies.
+ *
+ *   npm run realtime:server            # ws://localhost:3001/realtime
+ *   PORT=4001 npm run realtime:server
+ */
+
+import { createHash, randomBytes } from "crypto";
+import { createServer } from "http";
+
+const PORT = Number(process.env.PORT) || 3001;
+const PATH = "/realtime";
+const PROTOCOL_VERSION = 1;
+const INCOMPATIBLE_CLOSE_CODE = 4000;
+const MAX_MESSAGE_SIZE = 1024 * 1024;
+const WEBSOCKET_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+
+const clients = new Set();
+
+function encodeFrame(opcode, payload) {
+  const length = payload.length;
+  let header;
+
+  if (length < 126) {
+    header = Buffer.from([0x80 | opcode, length]);
+  } else if (length < 65536) {
+    header = Buffer.alloc(4);
+    header[0] = 0x80 | opcode;
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header = Buffer.alloc(10);
+    header[0] = 0x80 | opcode;
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+
+  return Buffer.concat([header, payload]);
+}
+
+/**
+ * Read complete frames from the front of `buffer`. Returns the frames and
+ * the bytes left over for the next chunk.
+ */
+function decodeFrames(buffer) {
+  const frames = [];
+  let offset = 0;
+
+  while (buffer.length - offset >= 2) {
+    const first = buffer[offset];
+    const second = buffer[offset + 1];
+    let length = second & 0x7f;
+    let position = offset + 2;
+
+    if (length === 126) {
+      if (buffer.length < position + 2) break;
+      length = buffer.readUInt16BE(position);
+      position += 2;
+    } else if (length === 127) {
+      if (buffer.length < position + 8) break;
+      length = Number(buffer.readBigUInt64BE(position));
+      position += 8;
+    }
+
+    const masked = (second & 0x80) !== 0;
+    const mask = masked ? buffer.subarray(position, position + 4) : null;
+    if (masked) position += 4;
+    if (buffer.length < position + length) break;
+
+    const payload = Buffer.from(buffer.subarray(position, position + length));
+    if (mask) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+    }
+
+    frames.push({ fin: (first & 0x80) !== 0, opcode: first & 0x0f, payload });
+    offset = position + length;
+  }
+
+  return { frames, rest: buffer.subarray(offset) };
+}
+
+function send(client, message) {
+  if (!client.socket.destroyed) {
+    client.socket.write(encodeFrame(0x1, Buffer.from(message)));
+  }
+}
+
+function close(client, code, reason) {
+  if (client.closing) return;
+  client.closing = true;
+
+  const payload = Buffer.alloc(2 + Buffer.byteLength(reason));
+  payload.writeUInt16BE(code, 0);
+  payload.write(reason, 2);
+  client.socket.end(encodeFrame(0x8, payload));
+}
+
+function broadcast(sender, message) {
+  clients.forEach((client) => {
+    if (client !== sender && !client.closing) send(client, message);
+  });
+}
+
+function handleMessage(client, message) {
+  let event;
+  try {
+    event = JSON.parse(message);
+  } catch {
+    return;
+  }
+
+  if (event.version !== PROTOCOL_VERSION) {
+    console.warn(`Rejecting protocol version ${event.version}`);
+    close(client, INCOMPATIBLE_CLOSE_CODE, "Unsupported protocol version");
+    return;
+  }
+
+  client.clientId = client.clientId || event.clientId;
+  client.userId = client.userId || event.userId;
+  broadcast(client, message);
+}
+
+function handleDisconnect(client) {
+  if (!clients.delete(client)) return;
+
+  console.log(`Client disconnected (${clients.size} connected)`);
+  if (!client.clientId) return;
+
+  broadcast(
+    client,
+    JSON.stringify({
+      version: PROTOCOL_VERSION,
+      id: `event_${Date.now()}_${randomBytes(3).toString("hex")}`,
+      type: "presence_left",
+      timestamp: new Date().toISOString(),
+      data: {},
+      userId: client.userId,
+      clientId: client.clientId,
+    }),
+  );
+}
+
+function handleUpgrade(request, socket) {
+  const { pathname } = new URL(request.url, `http://${request.headers.host}`);
+  const key = request.headers["sec-websocket-key"];
+
+  if (pathname !== PATH || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+
+  const accept = createHash("sha1")
+    .update(key + WEBSOCKET_GUID)
+    .digest("base64");
+  socket.write(
+    [
+      "HTTP/1.1 101 Switching Protocols",
+      "Upgrade: websocket",
+      "Connection: Upgrade",
+      `Sec-WebSocket-Accept: ${accept}`,
+      "",
+      "",
+    ].join("\r\n"),
+  );
+
+  const client = { socket, closing: false, clientId: null, userId: null };
+  let buffered = Buffer.alloc(0);
+  let fragments = [];
+  clients.add(client);
+  console.log(`Client connected (${clients.size} connected)`);
+
+  socket.on("data", (chunk) => {
+    const { frames, rest } = decodeFrames(Buffer.concat([buffered, chunk]));
+    buffered = rest;
+    if (buffered.length > MAX_MESSAGE_SIZE) {
+      close(client, 1009, "Message too big");
+      return;
+    }
+
+    frames.forEach(({ fin, opcode, payload }) => {
+      if (opcode === 0x8) {
+        close(client, 1000, "");
+      } else if (opcode === 0x9) {
+        socket.write(encodeFrame(0xa, payload));
+      } else if (opcode === 0x1 || opcode === 0x0) {
+        fragments.push(payload);
+        if (fin) {
+          handleMessage(client, Buffer.concat(fragments).toString("utf8"));
+          fragments = [];
+        }
+      }
+    });
+  });
+  socket.on("close", () => handleDisconnect(client));
+  socket.on("error", () => handleDisconnect(client));
+}
+
+const server = createServer((request, response) => {
+  response.writeHead(426, { "Content-Type": "text/plain" });
+  response.end("Connect with a WebSocket client\n");
+});
+
+server.on("upgrade", handleUpgrade);
+server.listen(PORT, () => {
+  console.log(`Realtime server listening on ws://localhost:${PORT}${PATH}`);
+});
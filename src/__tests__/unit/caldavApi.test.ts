@@ -0,0 +1,368 @@
+import "fake-indexeddb/auto";
+import {
+  CalDAVApi,
+  CalDAVError,
+  CalDAVPreconditionError,
+} from "../../api/caldavApi";
+import { CalendarSyncService } from "../../services/calendarSyncService";
+import { useCalendarStore } from "../../store/useCalendarStore";
+
+const BASE = "https://dav.example.com";
+const CALENDAR = "/dav/calendars/alice/work/";
+
+const ics = (uid: string, summary: string) =>
+  [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "BEGIN:VEVENT",
+    `UID:${uid}`,
+    `SUMMARY:${summary}`,
+    "DTSTART;VALUE=DATE:20240301",
+    "DTEND;VALUE=DATE:20240302",
+    "END:VEVENT",
+    "END:VCALENDAR",
+  ].join("\r\n");
+
+// XML parsing normalizes the CRLF line endings of calendar-data
+const lf = (text: string) => text.replace(/\r\n/g, "\n");
+
+const multistatus = (responses: string[], syncToken?: string) =>
+  `<?xml version="1.0"?><d:multistatus xmlns:d="DAV:" xmlns:c="urn:ietf:params:xml:ns:caldav">${responses.join("")}${
+    syncToken ? `<d:sync-token>${syncToken}</d:sync-token>` : ""
+  }</d:multistatus>`;
+
+const ok = (href: string, props: string) =>
+  `<d:response><d:href>${href}</d:href><d:propstat><d:prop>${props}</d:prop><d:status>HTTP/1.1 200 OK</d:status></d:propstat></d:response>`;
+
+/**
+ * Minimal in-memory CalDAV server with one calendar. Like some real
+ * servers, sync-collection answers without calendar-data.
+ */
+class CalDAVStandIn {
+  objects = new Map<string, { etag: string; data: string }>();
+  changes: { revision: number; href: string }[] = [];
+  revision = 0;
+  oldestToken = 0;
+
+  write(href: string, data: string) {
+    this.revision++;
+    this.objects.set(href, { etag: `"${this.revision}"`, data });
+    this.changes.push({ revision: this.revision, href });
+  }
+
+  remove(href: string) {
+    this.revision++;
+    this.objects.delete(href);
+    this.changes.push({ revision: this.revision, href });
+  }
+
+  fetch = async (input: string, init: RequestInit): Promise<Response> => {
+    const path = new URL(input).pathname;
+    const body = String(init.body || "");
+    const headers = init.headers as Record<string, string>;
+    const xml = (text: string) =>
+      new Response(text, {
+        status: 207,
+        headers: { "Content-Type": "application/xml" },
+      });
+
+    switch (init.method) {
+      case "PROPFIND":
+        if (path === "/dav/") {
+          return xml(
+            multistatus([
+              ok(
+                path,
+                "<d:current-user-principal><d:href>/dav/principals/alice/</d:href></d:current-user-principal>",
+              ),
+            ]),
+          );
+        }
+        if (path === "/dav/principals/alice/") {
+          return xml(
+            multistatus([
+              ok(
+                path,
+                "<c:calendar-home-set><d:href>/dav/calendars/alice/</d:href></c:calendar-home-set>",
+              ),
+            ]),
+          );
+        }
+        return xml(
+          multistatus([
+            ok(
+              "/dav/calendars/alice/",
+              "<d:resourcetype><d:collection/></d:resourcetype>",
+            ),
+            ok(
+              CALENDAR,
+              `<d:resourcetype><d:collection/><c:calendar/></d:resourcetype><d:displayname>Work</d:displayname><d:sync-token>${this.token()}</d:sync-token><c:supported-calendar-component-set><c:comp name="VEVENT"/></c:supported-calendar-component-set>`,
+            ),
+            ok(
+              "/dav/calendars/alice/todo/",
+              '<d:resourcetype><d:collection/><c:calendar/></d:resourcetype><d:displayname>Todo</d:displayname><c:supported-calendar-component-set><c:comp name="VTODO"/></c:supported-calendar-component-set>',
+            ),
+          ]),
+        );
+      case "REPORT": {
+        if (body.includes("calendar-multiget")) {
+          const hrefs = [...body.matchAll(/<d:href>([^<]+)<\/d:href>/g)].map(
+            (match) => match[1],
+          );
+          return xml(
+            multistatus(
+              hrefs
+                .filter((href) => this.objects.has(href))
+                .map((href) =>
+                  ok(
+                    href,
+                    `<d:getetag>${this.objects.get(href).etag}</d:getetag><c:calendar-data>${this.objects.get(href).data}</c:calendar-data>`,
+                  ),
+                ),
+            ),
+          );
+        }
+
+        const token = body.match(/<d:sync-token>([^<]*)<\/d:sync-token>/)[1];
+        const since = token ? Number(token.split("/").pop()) : 0;
+        if (token && since < this.oldestToken) {
+          return new Response("valid-sync-token", { status: 403 });
+        }
+        const hrefs = [
+          ...new Set(
+            this.changes
+              .filter((change) => change.revision > since)
+              .map((change) => change.href),
+          ),
+        ];
+        return xml(
+          multistatus(
+            hrefs
+              .filter((href) => token || this.objects.has(href))
+              .map((href) =>
+                this.objects.has(href)
+                  ? ok(
+                      href,
+                      `<d:getetag>${this.objects.get(href).etag}</d:getetag>`,
+                    )
+                  : `<d:response><d:href>${href}</d:href><d:status>HTTP/1.1 404 Not Found</d:status></d:response>`,
+              ),
+            this.token(),
+          ),
+        );
+      }
+      case "PUT":
+      case "DELETE": {
+        const existing = this.objects.get(path);
+        if (
+          (headers["If-None-Match"] === "*" && existing) ||
+          (headers["If-Match"] && headers["If-Match"] !== existing?.etag)
+        ) {
+          return new Response(null, { status: 412 });
+        }
+        if (init.method === "DELETE") {
+          this.remove(path);
+          return new Response(null, { status: 204 });
+        }
+        this.write(path, body);
+        return new Response(null, {
+          status: existing ? 204 : 201,
+          headers: { ETag: this.objects.get(path).etag },
+        });
+      }
+      default:
+        return new Response(null, { status: 405 });
+    }
+  };
+
+  private token() {
+    return `${BASE}/sync/${this.revision}`;
+  }
+}
+
+describe("CalDAV", () => {
+  let server: CalDAVStandIn;
+  let api: CalDAVApi;
+
+  beforeEach(() => {
+    server = new CalDAVStandIn();
+    server.write(`${CALENDAR}standup.ics`, ics("standup", "Standup"));
+    server.write(`${CALENDAR}review.ics`, ics("review", "Review"));
+    api = new CalDAVApi({
+      serverUrl: `${BASE}/dav/`,
+      username: "alice",
+      password: "secret",
+      fetch: server.fetch as typeof fetch,
+    });
+  });
+
+  it("discovers calendars through the principal and calendar home", async () => {
+    const calendars = await api.discoverCalendars();
+
+    expect(calendars.map((c) => [c.url, c.displayName, c.components])).toEqual([
+      [`${BASE}${CALENDAR}`, "Work", ["VEVENT"]],
+      [`${BASE}/dav/calendars/alice/todo/`, "Todo", ["VTODO"]],
+    ]);
+    expect(calendars[0].syncToken).toBe(`${BASE}/sync/2`);
+  });
+
+  it("syncs incrementally with sync tokens", async () => {
+    const initial = await api.syncCollection(CALENDAR);
+    expect(initial.fullSync).toBe(true);
+    expect(initial.changed.map((r) => r.data)).toEqual([
+      lf(ics("standup", "Standup")),
+      lf(ics("review", "Review")),
+    ]);
+
+    server.write(`${CALENDAR}standup.ics`, ics("standup", "Daily standup"));
+    server.remove(`${CALENDAR}review.ics`);
+
+    const next = await api.syncCollection(CALENDAR, initial.syncToken);
+    expect(next.fullSync).toBe(false);
+    expect(next.changed).toEqual([
+      {
+        href: `${BASE}${CALENDAR}standup.ics`,
+        etag: '"3"',
+        data: lf(ics("standup", "Daily standup")),
+      },
+    ]);
+    expect(next.deleted).toEqual([`${BASE}${CALENDAR}review.ics`]);
+  });
+
+  it("falls back to a full sync when the token has expired", async () => {
+    const { syncToken } = await api.syncCollection(CALENDAR);
+    server.oldestToken = 10;
+
+    const result = await api.syncCollection(CALENDAR, syncToken);
+
+    expect(result.fullSync).toBe(true);
+    expect(result.changed).toHaveLength(2);
+  });
+
+  it("guards writes with ETags", async () => {
+    const href = `${CALENDAR}standup.ics`;
+
+    await expect(
+      api.putEvent(href, ics("standup", "Mine")),
+    ).rejects.toBeInstanceOf(CalDAVPreconditionError);
+    await expect(
+      api.putEvent(href, ics("standup", "Stale"), '"0"'),
+    ).rejects.toBeInstanceOf(CalDAVPreconditionError);
+
+    const updated = await api.putEvent(href, ics("standup", "New"), '"1"');
+    expect(updated.etag).toBe('"3"');
+
+    await expect(api.deleteEvent(href, '"1"')).rejects.toBeInstanceOf(
+      CalDAVError,
+    );
+    await api.deleteEvent(href, updated.etag);
+    expect(server.objects.has(href)).toBe(false);
+  });
+
+  it("pushes tasks and syncs server changes through CalendarSyncService", async () => {
+    CalendarSyncService.configureCalDAV({
+      serverUrl: `${BASE}/dav/`,
+      fetch: server.fetch as typeof fetch,
+    });
+    const calendarId = `${BASE}${CALENDAR}`;
+
+    const calendars = await CalendarSyncService.getAvailableCalendars();
+    expect(calendars.map((c) => c.id)).toEqual([calendarId]);
+
+    const pushed = await CalendarSyncService.syncTasksWithCalendarEvents([
+      {
+        id: "task-1",
+        title: "Write report",
+        dueDate: new Date(2024, 2, 4),
+      } as any,
+    ]);
+    expect(pushed.errors).toEqual([]);
+    expect(pushed.createdEvents[0].taskId).toBe("task-1");
+
+    const first = await CalendarSyncService.syncCalendars([calendarId]);
+    expect(first.syncedEvents.map((e) => e.title).sort()).toEqual([
+      "Review",
+      "Standup",
+      "Write report",
+    ]);
+
+    server.remove(`${CALENDAR}review.ics`);
+    const second = await CalendarSyncService.syncCalendars([calendarId]);
+    expect(second.syncedEvents).toEqual([]);
+    expect(second.deletedEventIds).toEqual(["review"]);
+
+    CalendarSyncService.configureCalDAV(null);
+  });
+
+  it("keeps sync tokens and task links across restarts", async () => {
+    const config = {
+      serverUrl: `${BASE}/dav/`,
+      username: "restart",
+      fetch: server.fetch as typeof fetch,
+    };
+    const calendarId = `${BASE}${CALENDAR}`;
+    const task = {
+      id: "task-1",
+      title: "Write report",
+      dueDate: new Date(2024, 2, 4),
+    } as any;
+
+    CalendarSyncService.configureCalDAV(config);
+    await CalendarSyncService.syncTasksWithCalendarEvents([task]);
+    await CalendarSyncService.syncCalendars([calendarId]);
+
+    // Configuring the account again starts from the saved state
+    CalendarSyncService.configureCalDAV(config);
+    server.remove(`${CALENDAR}review.ics`);
+    const synced = await CalendarSyncService.syncCalendars([calendarId]);
+    expect(synced.syncedEvents).toEqual([]);
+    expect(synced.deletedEventIds).toEqual(["review"]);
+
+    const pushed = await CalendarSyncService.syncTasksWithCalendarEvents([
+      { ...task, title: "Write the report" },
+    ]);
+    expect(pushed.errors).toEqual([]);
+    expect(pushed.createdEvents).toEqual([]);
+    expect(pushed.updatedEvents.map((e) => e.title)).toEqual([
+      "Write the report",
+    ]);
+
+    CalendarSyncService.configureCalDAV(null);
+  });
+
+  it("sends UTF-8 credentials and never persists them", async () => {
+    const authorizations: string[] = [];
+    const account = {
+      serverUrl: `${BASE}/dav/`,
+      username: "jürgen",
+      password: "пароль✓",
+      fetch: (async (input: string, init: RequestInit) => {
+        authorizations.push(
+          (init.headers as Record<string, string>).Authorization,
+        );
+        return server.fetch(input, init);
+      }) as typeof fetch,
+    };
+
+    await useCalendarStore.getState().connectCalDAV(account);
+
+    const encoded = authorizations[0].replace("Basic ", "");
+    expect(
+      new TextDecoder().decode(
+        Uint8Array.from(atob(encoded), (char) => char.charCodeAt(0)),
+      ),
+    ).toBe("jürgen:пароль✓");
+    expect(useCalendarStore.getState().caldavConnected).toBe(true);
+
+    const stored = JSON.parse(
+      localStorage.getItem("todone-calendar-storage") as string,
+    );
+    expect(stored.state.caldavAccount).toEqual({
+      serverUrl: `${BASE}/dav/`,
+      username: "jürgen",
+    });
+    expect(JSON.stringify(stored)).not.toContain("пароль");
+
+    useCalendarStore.getState().disconnectCalDAV();
+  });
+});
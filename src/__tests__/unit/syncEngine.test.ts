@@ -0,0 +1,256 @@
+import "fake-indexeddb/auto";
+import Dexie from "dexie";
+import {
+  SyncEngine,
+  coalesceSyncItems,
+  getDueSyncItems,
+  getRetryDelay,
+  BASE_RETRY_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+  MAX_SYNC_ATTEMPTS,
+} from "../../database/sync";
+import { TodoneDatabase } from "../../database/db";
+import { SyncQueueItem } from "../../database/models";
+
+describe("SyncEngine queue helpers", () => {
+  const baseItem = (overrides: Partial<SyncQueueItem> = {}): SyncQueueItem => ({
+    id: 1,
+    operation: "create",
+    table: "tasks",
+    recordId: "task-1",
+    data: { title: "Draft" },
+    timestamp: new Date("2024-01-01T00:00:00Z"),
+    status: "pending",
+    attempts: 0,
+    ...overrides,
+  });
+
+  describe("coalesceSyncItems", () => {
+    it("folds a create and several updates into one create", () => {
+      let item: SyncQueueItem | null = baseItem();
+      item = coalesceSyncItems(item, "update", { title: "Renamed" });
+      item = coalesceSyncItems(item!, "update", { priority: "P1" });
+      item = coalesceSyncItems(item!, "update", { completed: true });
+
+      expect(item).toMatchObject({
+        id: 1,
+        operation: "create",
+        data: { title: "Renamed", priority: "P1", completed: true },
+      });
+    });
+
+    it("drops a create that is deleted before syncing", () => {
+      expect(coalesceSyncItems(baseItem(), "delete")).toBeNull();
+    });
+
+    it("turns a pending update into a delete", () => {
+      const result = coalesceSyncItems(
+        baseItem({ operation: "update" }),
+        "delete",
+      );
+      expect(result?.operation).toBe("delete");
+      expect(result?.data).toBeUndefined();
+    });
+
+    it("keeps the original queue position when coalescing", () => {
+      const existing = baseItem({ operation: "update" });
+      const result = coalesceSyncItems(existing, "update", { title: "x" });
+      expect(result?.timestamp).toBe(existing.timestamp);
+    });
+
+    it("overwrites the record when it is recreated after a delete", () => {
+      const result = coalesceSyncItems(
+        baseItem({ operation: "delete", data: undefined }),
+        "create",
+        { title: "Again" },
+      );
+      expect(result).toMatchObject({
+        operation: "update",
+        data: { title: "Again" },
+      });
+    });
+
+    it("gives a failed item a fresh set of attempts", () => {
+      const result = coalesceSyncItems(
+        baseItem({
+          status: "failed",
+          attempts: MAX_SYNC_ATTEMPTS,
+          nextAttemptAt: new Date("2024-01-01T00:05:00Z"),
+        }),
+        "update",
+        { title: "Edited" },
+      );
+      expect(result).toMatchObject({ status: "pending", attempts: 0 });
+      expect(result?.nextAttemptAt).toBeUndefined();
+    });
+  });
+
+  describe("getDueSyncItems", () => {
+    const now = new Date("2024-01-01T00:01:00Z").getTime();
+
+    it("holds back later items for a record until earlier ones are sent", () => {
+      const due = getDueSyncItems(
+        [
+          baseItem({
+            id: 2,
+            operation: "update",
+            timestamp: new Date("2024-01-01T00:00:30Z"),
+          }),
+          baseItem({
+            id: 1,
+            status: "failed",
+            attempts: 1,
+            nextAttemptAt: new Date("2024-01-01T00:02:00Z"),
+          }),
+          baseItem({ id: 3, recordId: "task-2" }),
+        ],
+        now,
+      );
+
+      expect(due.map((item) => item.id)).toEqual([3]);
+    });
+
+    it("sends a record's items oldest first once they are due", () => {
+      const due = getDueSyncItems(
+        [
+          baseItem({ id: 2, operation: "update" }),
+          baseItem({ id: 1, status: "failed", attempts: 1 }),
+        ],
+        now,
+      );
+
+      expect(due.map((item) => item.id)).toEqual([1, 2]);
+    });
+  });
+
+  describe("getRetryDelay", () => {
+    it("backs off exponentially and caps the delay", () => {
+      expect(getRetryDelay(0)).toBe(0);
+      expect(getRetryDelay(1)).toBe(BASE_RETRY_DELAY_MS);
+      expect(getRetryDelay(3)).toBe(BASE_RETRY_DELAY_MS * 4);
+      expect(getRetryDelay(50)).toBe(MAX_RETRY_DELAY_MS);
+    });
+  });
+});
+
+describe("SyncEngine queue persistence", () => {
+  let db: TodoneDatabase;
+
+  beforeEach(async () => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    vi.spyOn(console, "error").mockImplementation(() => {});
+    db = new TodoneDatabase();
+    await db.open();
+  });
+
+  afterEach(async () => {
+    await db.delete();
+    vi.restoreAllMocks();
+  });
+
+  /**
+   * A fresh engine on a fresh connection, as after a page reload
+   */
+  const reload = async (transport: (item: SyncQueueItem) => Promise<void>) => {
+    db.close();
+    db = new TodoneDatabase();
+    await db.open();
+    const engine = new SyncEngine(db, transport);
+    await engine.initialize();
+    return engine;
+  };
+
+  it("retries an exhausted item again after it absorbs a new edit", async () => {
+    await db.syncQueue.add({
+      operation: "create",
+      table: "tasks",
+      recordId: "task-1",
+      data: { title: "Draft" },
+      timestamp: new Date(),
+      status: "failed",
+      attempts: MAX_SYNC_ATTEMPTS,
+      lastError: "offline",
+    });
+    await new SyncEngine(db).addToSyncQueue("update", "tasks", "task-1", {
+      title: "Edited",
+    });
+
+    const sent: SyncQueueItem[] = [];
+    const engine = await reload(async (item) => {
+      sent.push(item);
+    });
+    await engine.processSyncQueue();
+
+    expect(sent).toHaveLength(1);
+    expect(sent[0]).toMatchObject({
+      operation: "create",
+      data: { title: "Edited" },
+    });
+    expect(await db.syncQueue.count()).toBe(0);
+  });
+
+  it("does not send an update before the record's failed create", async () => {
+    const engine = new SyncEngine(db, async (item) => {
+      // The user edits the task while its create is in flight
+      await engine.addToSyncQueue("update", "tasks", item.recordId, {
+        title: "Edited",
+      });
+      throw new Error("offline");
+    });
+    await engine.addToSyncQueue("create", "tasks", "task-1", {
+      title: "Draft",
+    });
+    await engine.processSyncQueue();
+
+    const sent: SyncQueueItem[] = [];
+    const reloaded = await reload(async (item) => {
+      sent.push(item);
+    });
+    await reloaded.processSyncQueue();
+    expect(sent).toEqual([]);
+
+    await reloaded.retryFailedOperations();
+    await reloaded.processSyncQueue();
+    expect(sent.map((item) => item.operation)).toEqual(["create", "update"]);
+    expect(sent[1].data).toEqual({ title: "Edited" });
+  });
+});
+
+describe("database upgrades", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    await Dexie.delete("TodoneDatabase");
+    vi.restoreAllMocks();
+  });
+
+  it("seeds the sync status when upgrading a v3 database", async () => {
+    const legacy = new Dexie("TodoneDatabase");
+    legacy.version(3).stores({
+      users: "++id,email,name",
+      projects: "++id,name,color,viewType,favorite,shared,parentProjectId",
+      sections: "++id,name,projectId,order",
+      tasks:
+        "++id,content,projectId,sectionId,priority,dueDate,completed,createdDate,parentTaskId,order",
+      labels: "++id,name,color,isPersonal",
+      filters: "++id,name,favorite",
+      comments: "++id,taskId,timestamp",
+      attachments: "++id,fileName,url,type",
+    });
+    await legacy.open();
+    legacy.close();
+
+    const db = new TodoneDatabase();
+    await db.open();
+
+    expect(await db.syncStatus.get("default")).toMatchObject({
+      lastSync: new Date(0),
+      isSyncing: false,
+      pendingOperations: 0,
+    });
+    db.close();
+  });
+});
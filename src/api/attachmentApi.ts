@@ -0,0 +1,92 @@
+import { API_BASE_URL } from "../config/app.config";
+
+/**
+ * Error raised for failed attachment requests
+ */
+export class AttachmentApiError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "AttachmentApiError";
+    this.status = status;
+  }
+}
+
+export interface UploadAttachmentRequest {
+  fileName: string;
+  taskId?: string;
+  commentId?: string;
+  /**
+   * Local ID, so a retried upload the server already received is not
+   * stored twice
+   */
+  clientId: string;
+}
+
+export interface UploadedAttachment {
+  id: string;
+  url: string;
+}
+
+/**
+ * Attachment API Service - Uploads and deletes attachment files
+ */
+export class AttachmentApi {
+  private baseUrl: string;
+
+  constructor() {
+    this.baseUrl = `${API_BASE_URL}/attachments`;
+  }
+
+  private async request<T>(url: string, init: RequestInit): Promise<T> {
+    const response = await fetch(url, {
+      ...init,
+      headers: {
+        ...init.headers,
+        Authorization: `Bearer ${localStorage.getItem("token")}`,
+      },
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      throw new AttachmentApiError(
+        errorData.message || `HTTP error! status: ${response.status}`,
+        response.status,
+      );
+    }
+
+    return response.status === 204 ? (undefined as T) : response.json();
+  }
+
+  /**
+   * Upload a file as multipart form data
+   */
+  async uploadAttachment(
+    file: Blob,
+    { fileName, taskId, commentId, clientId }: UploadAttachmentRequest,
+  ): Promise<UploadedAttachment> {
+    const body = new FormData();
+    body.append("file", file, fileName);
+    body.append("clientId", clientId);
+    if (taskId) body.append("taskId", taskId);
+    if (commentId) body.append("commentId", commentId);
+
+    return this.request<UploadedAttachment>(this.baseUrl, {
+      method: "POST",
+      body,
+    });
+  }
+
+  /**
+   * Delete an uploaded file
+   */
+  async deleteAttachment(remoteId: string): Promise<void> {
+    await this.request<void>(`${this.baseUrl}/${remoteId}`, {
+      method: "DELETE",
+    });
+  }
+}
+
+// Singleton instance
+export const attachmentApi = new AttachmentApi();
@@ -0,0 +1,471 @@
+import {
+  CalDAVCalendar,
+  CalDAVConfig,
+  CalDAVResource,
+  CalDAVSyncResult,
+} from "../types/calendarTypes";
+
+const DAV_NS = "DAV:";
+const CALDAV_NS = "urn:ietf:params:xml:ns:caldav";
+const CALENDARSERVER_NS = "http://calendarserver.org/ns/";
+const APPLE_NS = "http://apple.com/ns/ical/";
+
+const NAMESPACES = `xmlns:d="${DAV_NS}" xmlns:c="${CALDAV_NS}" xmlns:cs="${CALENDARSERVER_NS}" xmlns:a="${APPLE_NS}"`;
+
+/**
+ * Error raised for failed CalDAV requests
+ */
+export class CalDAVError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = "CalDAVError";
+    this.status = status;
+  }
+}
+
+/**
+ * Raised when an ETag precondition fails: the resource was changed or
+ * created by someone else since it was last read
+ */
+export class CalDAVPreconditionError extends CalDAVError {
+  constructor(message: string) {
+    super(message, 412);
+    this.name = "CalDAVPreconditionError";
+  }
+}
+
+interface MultistatusResponse {
+  href: string;
+  /**
+   * Response-level status, e.g. 404 for members removed since a sync token
+   */
+  status: number | null;
+  /**
+   * Properties returned with a 200 propstat, keyed by local name
+   */
+  props: Record<string, Element>;
+}
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const childElements = (parent: Element, ns: string, name: string): Element[] =>
+  Array.from(parent.children).filter(
+    (child) => child.namespaceURI === ns && child.localName === name,
+  );
+
+const childElement = (
+  parent: Element | undefined,
+  ns: string,
+  name: string,
+): Element | undefined =>
+  parent ? childElements(parent, ns, name)[0] : undefined;
+
+const parseStatus = (element: Element | undefined): number | null => {
+  const match = element?.textContent?.match(/\s(\d{3})\s/);
+  return match ? parseInt(match[1], 10) : null;
+};
+
+const text = (element: Element | undefined): string | undefined =>
+  element?.textContent?.trim() || undefined;
+
+/**
+ * Base64 of the UTF-8 bytes, so credentials outside Latin-1 can be sent
+ * with Basic auth
+ */
+const encodeBase64 = (value: string): string =>
+  btoa(String.fromCharCode(...new TextEncoder().encode(value)));
+
+/**
+ * CalDAV API Service - Talks to any CalDAV server (RFC 4791) for calendar
+ * discovery, event queries, sync-collection (RFC 6578) and ETag-guarded
+ * writes
+ */
+export class CalDAVApi {
+  private serverUrl: string;
+  private config: CalDAVConfig;
+  private fetchFn: typeof fetch;
+
+  constructor(config: CalDAVConfig) {
+    this.config = config;
+    this.serverUrl = config.serverUrl;
+    this.fetchFn = config.fetch || ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * Find the user's calendars: principal, then calendar home, then the
+   * calendar collections inside it
+   */
+  async discoverCalendars(): Promise<CalDAVCalendar[]> {
+    const principalUrl = await this.findPrincipal();
+    const homeUrl = await this.findCalendarHome(principalUrl);
+    return this.listCalendars(homeUrl);
+  }
+
+  /**
+   * PROPFIND for the current user's principal. Servers without
+   * current-user-principal are treated as if the server URL is the principal.
+   */
+  async findPrincipal(): Promise<string> {
+    const [response] = await this.propfind(
+      this.serverUrl,
+      "<d:current-user-principal/>",
+      0,
+    );
+    const href = text(
+      childElement(response?.props["current-user-principal"], DAV_NS, "href"),
+    );
+    return href ? this.resolve(href) : this.resolve(this.serverUrl);
+  }
+
+  /**
+   * PROPFIND for the principal's calendar-home-set
+   */
+  async findCalendarHome(principalUrl: string): Promise<string> {
+    const [response] = await this.propfind(
+      principalUrl,
+      "<c:calendar-home-set/>",
+      0,
+    );
+    const href = text(
+      childElement(response?.props["calendar-home-set"], DAV_NS, "href"),
+    );
+    return href ? this.resolve(href) : principalUrl;
+  }
+
+  /**
+   * PROPFIND the calendar home for calendar collections
+   */
+  async listCalendars(homeUrl: string): Promise<CalDAVCalendar[]> {
+    const responses = await this.propfind(
+      homeUrl,
+      [
+        "<d:resourcetype/>",
+        "<d:displayname/>",
+        "<d:sync-token/>",
+        "<cs:getctag/>",
+        "<a:calendar-color/>",
+        "<c:supported-calendar-component-set/>",
+      ].join(""),
+      1,
+    );
+
+    return responses
+      .filter((response) =>
+        childElement(response.props.resourcetype, CALDAV_NS, "calendar"),
+      )
+      .map((response) => {
+        const componentSet = response.props["supported-calendar-component-set"];
+        const components = componentSet
+          ? childElements(componentSet, CALDAV_NS, "comp")
+              .map((comp) => comp.getAttribute("name") || "")
+              .filter(Boolean)
+          : ["VEVENT", "VTODO"];
+
+        return {
+          url: this.resolve(response.href),
+          displayName:
+            text(response.props.displayname) ||
+            decodeURIComponent(
+              response.href.replace(/\/$/, "").split("/").pop() || "",
+            ),
+          color: text(response.props["calendar-color"]),
+          ctag: text(response.props.getctag),
+          syncToken: text(response.props["sync-token"]),
+          components,
+        };
+      });
+  }
+
+  /**
+   * REPORT calendar-query for the events of a calendar, optionally limited
+   * to a time range
+   */
+  async queryEvents(
+    calendarUrl: string,
+    range?: { start: Date; end: Date },
+  ): Promise<CalDAVResource[]> {
+    const timeRange = range
+      ? `<c:time-range start="${this.formatUtc(range.start)}" end="${this.formatUtc(range.end)}"/>`
+      : "";
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${NAMESPACES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">${timeRange}</c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+    const responses = await this.report(calendarUrl, body, 1);
+    return responses
+      .filter((response) => response.props.getetag)
+      .map((response) => this.toResource(response));
+  }
+
+  /**
+   * REPORT calendar-multiget for specific resources
+   */
+  async multiget(
+    calendarUrl: string,
+    hrefs: string[],
+  ): Promise<CalDAVResource[]> {
+    if (hrefs.length === 0) {
+      return [];
+    }
+
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget ${NAMESPACES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${hrefs.map((href) => `<d:href>${escapeXml(new URL(this.resolve(href)).pathname)}</d:href>`).join("\n  ")}
+</c:calendar-multiget>`;
+
+    const responses = await this.report(calendarUrl, body, 1);
+    return responses
+      .filter((response) => response.props.getetag)
+      .map((response) => this.toResource(response));
+  }
+
+  /**
+   * REPORT sync-collection: everything that changed since `syncToken`.
+   * Without a token, or when the server no longer accepts it, all
+   * resources are returned and `fullSync` is set.
+   */
+  async syncCollection(
+    calendarUrl: string,
+    syncToken?: string,
+  ): Promise<CalDAVSyncResult> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:sync-collection ${NAMESPACES}>
+  <d:sync-token>${syncToken ? escapeXml(syncToken) : ""}</d:sync-token>
+  <d:sync-level>1</d:sync-level>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+</d:sync-collection>`;
+
+    let document: Document;
+    try {
+      document = await this.send("REPORT", calendarUrl, body);
+    } catch (error) {
+      // An expired token fails the valid-sync-token precondition
+      if (
+        syncToken &&
+        error instanceof CalDAVError &&
+        [403, 409].includes(error.status)
+      ) {
+        return this.syncCollection(calendarUrl);
+      }
+      throw error;
+    }
+
+    const collectionPath = new URL(this.resolve(calendarUrl)).pathname;
+    const changed: CalDAVResource[] = [];
+    const deleted: string[] = [];
+
+    this.parseMultistatus(document).forEach((response) => {
+      const url = this.resolve(response.href);
+      if (new URL(url).pathname === collectionPath) {
+        return;
+      }
+      if (response.status === 404) {
+        deleted.push(url);
+      } else if (response.props.getetag) {
+        changed.push(this.toResource(response));
+      }
+    });
+
+    // Servers may leave out calendar-data; fetch those bodies separately
+    const missing = changed.filter((resource) => resource.data === undefined);
+    if (missing.length > 0) {
+      const fetched = await this.multiget(
+        calendarUrl,
+        missing.map((resource) => resource.href),
+      );
+      fetched.forEach((resource) => {
+        const index = changed.findIndex((r) => r.href === resource.href);
+        if (index !== -1) {
+          changed[index] = resource;
+        }
+      });
+    }
+
+    return {
+      syncToken:
+        text(childElement(document.documentElement, DAV_NS, "sync-token")) ||
+        "",
+      changed,
+      deleted,
+      fullSync: !syncToken,
+    };
+  }
+
+  /**
+   * PUT a calendar object. With an ETag the write only succeeds if the
+   * resource is unchanged on the server; without one it only succeeds if
+   * the resource does not exist yet. Either failure raises
+   * CalDAVPreconditionError.
+   */
+  async putEvent(
+    href: string,
+    icalData: string,
+    etag?: string,
+  ): Promise<CalDAVResource> {
+    const url = this.resolve(href);
+    const response = await this.request("PUT", url, {
+      body: icalData,
+      headers: {
+        "Content-Type": "text/calendar; charset=utf-8",
+        ...(etag ? { "If-Match": etag } : { "If-None-Match": "*" }),
+      },
+    });
+
+    return {
+      href: url,
+      etag: response.headers.get("ETag") || "",
+      data: icalData,
+    };
+  }
+
+  /**
+   * DELETE a calendar object, guarded by its ETag when given
+   */
+  async deleteEvent(href: string, etag?: string): Promise<void> {
+    await this.request("DELETE", this.resolve(href), {
+      headers: etag ? { "If-Match": etag } : {},
+    });
+  }
+
+  /**
+   * Resolve an href from a response against the server URL
+   */
+  resolve(href: string): string {
+    return new URL(href, this.serverUrl).toString();
+  }
+
+  private async propfind(
+    url: string,
+    props: string,
+    depth: 0 | 1,
+  ): Promise<MultistatusResponse[]> {
+    const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${NAMESPACES}><d:prop>${props}</d:prop></d:propfind>`;
+    return this.parseMultistatus(await this.send("PROPFIND", url, body, depth));
+  }
+
+  private async report(
+    url: string,
+    body: string,
+    depth: 0 | 1,
+  ): Promise<MultistatusResponse[]> {
+    return this.parseMultistatus(await this.send("REPORT", url, body, depth));
+  }
+
+  /**
+   * Send an XML request and parse the multistatus response
+   */
+  private async send(
+    method: string,
+    url: string,
+    body: string,
+    depth?: 0 | 1,
+  ): Promise<Document> {
+    const response = await this.request(method, this.resolve(url), {
+      body,
+      headers: {
+        "Content-Type": "application/xml; charset=utf-8",
+        ...(depth !== undefined ? { Depth: String(depth) } : {}),
+      },
+    });
+
+    const document = new DOMParser().parseFromString(
+      await response.text(),
+      "application/xml",
+    );
+    if (document.getElementsByTagName("parsererror").length > 0) {
+      throw new CalDAVError(`${method} ${url} returned invalid XML`, 0);
+    }
+    return document;
+  }
+
+  private async request(
+    method: string,
+    url: string,
+    init: { body?: string; headers?: Record<string, string> },
+  ): Promise<Response> {
+    const response = await this.fetchFn(url, {
+      method,
+      body: init.body,
+      headers: { ...this.getAuthHeaders(), ...init.headers },
+    });
+
+    if (!response.ok) {
+      const message = `${method} ${url} failed with status ${response.status}`;
+      if (response.status === 412) {
+        throw new CalDAVPreconditionError(message);
+      }
+      throw new CalDAVError(message, response.status);
+    }
+
+    return response;
+  }
+
+  private parseMultistatus(document: Document): MultistatusResponse[] {
+    return childElements(document.documentElement, DAV_NS, "response").map(
+      (response) => {
+        const props: Record<string, Element> = {};
+
+        childElements(response, DAV_NS, "propstat").forEach((propstat) => {
+          const status = parseStatus(childElement(propstat, DAV_NS, "status"));
+          const prop = childElement(propstat, DAV_NS, "prop");
+          if (prop && (status === null || (status >= 200 && status < 300))) {
+            Array.from(prop.children).forEach((element) => {
+              props[element.localName] = element;
+            });
+          }
+        });
+
+        return {
+          href: text(childElement(response, DAV_NS, "href")) || "",
+          status: parseStatus(childElement(response, DAV_NS, "status")),
+          props,
+        };
+      },
+    );
+  }
+
+  private toResource(response: MultistatusResponse): CalDAVResource {
+    const data = response.props["calendar-data"]?.textContent;
+    return {
+      href: this.resolve(response.href),
+      etag: text(response.props.getetag) || "",
+      data: data || undefined,
+    };
+  }
+
+  private formatUtc(date: Date): string {
+    return date
+      .toISOString()
+      .replace(/[-:]/g, "")
+      .replace(/\.\d{3}/, "");
+  }
+
+  private getAuthHeaders(): Record<string, string> {
+    if (this.config.token) {
+      return { Authorization: `Bearer ${this.config.token}` };
+    }
+    if (this.config.username) {
+      return {
+        Authorization: `Basic ${encodeBase64(
+          `${this.config.username}:${this.config.password || ""}`,
+        )}`,
+      };
+    }
+    return {};
+  }
+}
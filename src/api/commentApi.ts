@@ -35,6 +35,9 @@ export class CommentApi {
       taskId: responseData.taskId,
       user: responseData.user,
       content: responseData.content,
+      parentCommentId: responseData.parentCommentId ?? null,
+      mentions: responseData.mentions || [],
+      reactions: responseData.reactions || {},
       attachments: responseData.attachments || [],
       timestamp: new Date(responseData.timestamp),
     };
@@ -259,16 +262,21 @@ export class CommentApi {
   }
 
   /**
-   * Like a comment
+   * Add the current user's reaction to a comment
    */
-  async likeComment(commentId: string): Promise<ApiResponse<Comment>> {
+  async addReaction(
+    commentId: string,
+    emoji: string,
+  ): Promise<ApiResponse<Comment>> {
     try {
       const response = await this.handleApiRequest<Response>(async () => {
-        return await fetch(`${this.baseUrl}/${commentId}/like`, {
+        return await fetch(`${this.baseUrl}/${commentId}/reactions`, {
           method: "POST",
           headers: {
+            "Content-Type": "application/json",
             Authorization: `Bearer ${localStorage.getItem("token")}`,
           },
+          body: JSON.stringify({ emoji }),
         });
       });
 
@@ -284,24 +292,30 @@ export class CommentApi {
       return {
         success: false,
         message:
-          error instanceof Error ? error.message : "Failed to like comment",
+          error instanceof Error ? error.message : "Failed to add reaction",
         data: null,
       };
     }
   }
 
   /**
-   * Unlike a comment
+   * Remove the current user's reaction from a comment
    */
-  async unlikeComment(commentId: string): Promise<ApiResponse<Comment>> {
+  async removeReaction(
+    commentId: string,
+    emoji: string,
+  ): Promise<ApiResponse<Comment>> {
     try {
       const response = await this.handleApiRequest<Response>(async () => {
-        return await fetch(`${this.baseUrl}/${commentId}/like`, {
-          method: "DELETE",
-          headers: {
-            Authorization: `Bearer ${localStorage.getItem("token")}`,
+        return await fetch(
+          `${this.baseUrl}/${commentId}/reactions/${encodeURIComponent(emoji)}`,
+          {
+            method: "DELETE",
+            headers: {
+              Authorization: `Bearer ${localStorage.getItem("token")}`,
+            },
           },
-        });
+        );
       });
 
       if (response.success && response.data) {
@@ -316,7 +330,7 @@ export class CommentApi {
       return {
         success: false,
         message:
-          error instanceof Error ? error.message : "Failed to unlike comment",
+          error instanceof Error ? error.message : "Failed to remove reaction",
         data: null,
       };
     }
@@ -1,5 +1,5 @@
 // @ts-nocheck
-import { Project } from "../types/project";
+import { CreateSectionDto, Project, Section } from "../types/project";
 import { ApiResponse } from "../types/api";
 import { API_BASE_URL } from "../config/app.config";
 
@@ -278,6 +278,92 @@ export class ProjectApi {
       };
     }
   }
+
+  /**
+   * Get the sections of a project in order
+   */
+  async getSections(projectId: string): Promise<ApiResponse<Section[]>> {
+    try {
+      const response = await this.handleApiRequest<Response>(async () => {
+        return await fetch(`${this.baseUrl}/${projectId}/sections`, {
+          method: "GET",
+          headers: {
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+        });
+      });
+
+      if (response.success && response.data) {
+        return {
+          ...response,
+          data: response.data
+            .map((section: any) => this.transformSectionResponse(section))
+            .sort((a: Section, b: Section) => a.order - b.order),
+        };
+      }
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to fetch sections",
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Create several sections of a project in one request
+   */
+  async createSections(
+    projectId: string,
+    sections: CreateSectionDto[],
+  ): Promise<ApiResponse<Section[]>> {
+    try {
+      const response = await this.handleApiRequest<Response>(async () => {
+        return await fetch(`${this.baseUrl}/${projectId}/sections/batch`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify({ sections }),
+        });
+      });
+
+      if (response.success && response.data) {
+        return {
+          ...response,
+          data: response.data.map((section: any) =>
+            this.transformSectionResponse(section),
+          ),
+        };
+      }
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to create sections",
+        data: null,
+      };
+    }
+  }
+
+  /**
+   * Transform API response to Section object
+   */
+  private transformSectionResponse(responseData: any): Section {
+    return {
+      ...responseData,
+      order: responseData.order || 0,
+      taskIds: responseData.taskIds || [],
+      createdAt: new Date(responseData.createdAt),
+      updatedAt: new Date(responseData.updatedAt),
+    };
+  }
 }
 
 // Singleton instance
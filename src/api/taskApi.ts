@@ -135,6 +135,46 @@ export class TaskApi {
     }
   }
 
+  /**
+   * Create several tasks in one request. The server stores all of them or
+   * none; client-side ids are kept so tasks can reference each other.
+   */
+  async createTasks(tasksData: Task[]): Promise<ApiResponse<Task[]>> {
+    try {
+      const response = await this.handleApiRequest<Response>(async () => {
+        return await fetch(`${this.baseUrl}/batch`, {
+          method: "POST",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify({
+            tasks: tasksData.map((taskData) => ({
+              id: taskData.id,
+              ...this.transformRequest(taskData),
+            })),
+          }),
+        });
+      });
+
+      if (response.success && response.data) {
+        return {
+          ...response,
+          data: response.data.map((task) => this.transformResponse(task)),
+        };
+      }
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to create tasks",
+        data: null,
+      };
+    }
+  }
+
   /**
    * Get a single task by ID
    */
@@ -241,6 +281,48 @@ export class TaskApi {
     }
   }
 
+  /**
+   * Update several tasks in one request, each with its own changes. The
+   * server applies all of them or none.
+   */
+  async updateTasks(
+    updates: Record<string, Partial<Task>>,
+  ): Promise<ApiResponse<Task[]>> {
+    try {
+      const response = await this.handleApiRequest<Response>(async () => {
+        return await fetch(`${this.baseUrl}/batch`, {
+          method: "PATCH",
+          headers: {
+            "Content-Type": "application/json",
+            Authorization: `Bearer ${localStorage.getItem("token")}`,
+          },
+          body: JSON.stringify({
+            updates: Object.entries(updates).map(([id, taskData]) => ({
+              id,
+              ...this.transformRequest(taskData),
+            })),
+          }),
+        });
+      });
+
+      if (response.success && response.data) {
+        return {
+          ...response,
+          data: response.data.map((task) => this.transformResponse(task)),
+        };
+      }
+
+      return response;
+    } catch (error) {
+      return {
+        success: false,
+        message:
+          error instanceof Error ? error.message : "Failed to update tasks",
+        data: null,
+      };
+    }
+  }
+
   /**
    * Delete a task
    */
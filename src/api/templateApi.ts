@@ -12,7 +12,14 @@ import {
   TemplateCategory,
   CreateTemplateCategoryDto,
   UpdateTemplateCategoryDto,
+  TemplateApplicationResult,
 } from "../types/template";
+import {
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+  renderTemplate,
+  validateTemplateVariables,
+} from "../utils/templateUtils";
 
 /**
  * Mock database for templates (in-memory storage)
@@ -341,7 +348,8 @@ export const templateApi = {
   async applyTemplate(
     templateId: string,
     variables?: Record<string, string>,
-  ): Promise<ApiResponse<string>> {
+    options: Parameters<typeof renderTemplate>[2] = {},
+  ): Promise<ApiResponse<TemplateApplicationResult>> {
     try {
       const template = mockTemplates.find((t) => t.id === templateId);
 
@@ -352,15 +360,33 @@ export const templateApi = {
         };
       }
 
-      // Simple variable replacement logic
-      let result = template.content;
-      if (variables) {
-        for (const [key, value] of Object.entries(variables)) {
-          const placeholder = `{{${key}}}`;
-          result = result.replace(new RegExp(placeholder, "g"), value);
-        }
+      const definitions = getTemplateVariableDefinitions(template);
+      const values = {
+        ...getDefaultTemplateValues(definitions, options.now),
+        ...(variables || {}),
+      };
+      const errors = validateTemplateVariables(definitions, values);
+
+      if (Object.keys(errors).length > 0) {
+        return {
+          success: true,
+          data: {
+            success: false,
+            templateId,
+            result: template.content,
+            variables: values,
+            errors,
+            error: "Some template variables are missing or invalid",
+          },
+          message: "Template variables are invalid",
+        };
       }
 
+      const { result, generated } = renderTemplate(template.content, values, {
+        ...options,
+        definitions,
+      });
+
       // Increment usage count
       const templateIndex = mockTemplates.findIndex((t) => t.id === templateId);
       if (templateIndex !== -1) {
@@ -372,7 +398,13 @@ export const templateApi = {
 
       return {
         success: true,
-        data: result,
+        data: {
+          success: true,
+          templateId,
+          result,
+          variables: values,
+          generated,
+        },
         message: "Template applied successfully",
       };
     } catch (error) {
@@ -401,14 +433,12 @@ export const templateApi = {
         };
       }
 
-      // Simple variable replacement logic for preview
-      let result = template.content;
-      if (variables) {
-        for (const [key, value] of Object.entries(variables)) {
-          const placeholder = `{{${key}}}`;
-          result = result.replace(new RegExp(placeholder, "g"), value);
-        }
-      }
+      const definitions = getTemplateVariableDefinitions(template);
+      const { result } = renderTemplate(
+        template.content,
+        { ...getDefaultTemplateValues(definitions), ...(variables || {}) },
+        { definitions },
+      );
 
       return {
         success: true,
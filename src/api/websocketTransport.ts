@@ -0,0 +1,46 @@
+import { REALTIME_URL } from "../config/app.config";
+import {
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+} from "../types/realtime";
+
+/**
+ * Realtime transport over a WebSocket. Browsers cannot set headers on
+ * WebSocket requests, so the auth token goes in the query string.
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  private url: string;
+  private socket: WebSocket | null = null;
+
+  constructor(url: string = REALTIME_URL) {
+    this.url = url;
+  }
+
+  connect({ onOpen, onMessage, onClose }: RealtimeTransportHandlers): void {
+    const token = localStorage.getItem("token");
+    const url = token
+      ? `${this.url}?token=${encodeURIComponent(token)}`
+      : this.url;
+    const socket = new WebSocket(url);
+    this.socket = socket;
+
+    socket.onopen = () => onOpen();
+    socket.onmessage = (event) => {
+      if (typeof event.data === "string") onMessage(event.data);
+    };
+    socket.onclose = (event) => {
+      if (this.socket === socket) this.socket = null;
+      onClose(event.code, event.reason);
+    };
+  }
+
+  send(message: string): void {
+    if (this.socket?.readyState === WebSocket.OPEN) {
+      this.socket.send(message);
+    }
+  }
+
+  close(): void {
+    this.socket?.close(1000, "Client closed");
+  }
+}
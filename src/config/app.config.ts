@@ -3,3 +3,5 @@ export const API_BASE_URL = "http://localhost:3000/api";
 export const APP_NAME = "Todone";
 export const APP_VERSION = "0.0.0";
 export const DEBUG_MODE = true; // Set to true for development
+export const REALTIME_URL = "ws://localhost:3001/realtime";
+export const FEED_SERVER_URL = "http://localhost:3002";
@@ -1,4 +1,4 @@
-import Dexie, { Table } from "dexie";
+import Dexie, { Table, Transaction } from "dexie";
 import {
   User,
   Project,
@@ -8,9 +8,19 @@ import {
   Filter,
   Comment,
   Attachment,
+  AttachmentBlob,
+  SyncQueueItem,
+  SyncStatus,
+  CalDAVSyncRecord,
 } from "./models";
 import { migrations } from "./migrations";
 
+/**
+ * Dexie upgrade callback that runs the migration for a schema version
+ */
+const upgradeTo = (version: number) => (tx: Transaction) =>
+  migrations.find((migration) => migration.version === version)?.up(tx);
+
 export class TodoneDatabase extends Dexie {
   users!: Table<User>;
   projects!: Table<Project>;
@@ -20,6 +30,10 @@ export class TodoneDatabase extends Dexie {
   filters!: Table<Filter>;
   comments!: Table<Comment>;
   attachments!: Table<Attachment>;
+  attachmentBlobs!: Table<AttachmentBlob>;
+  syncQueue!: Table<SyncQueueItem>;
+  syncStatus!: Table<SyncStatus>;
+  caldavSync!: Table<CalDAVSyncRecord>;
 
   constructor() {
     super("TodoneDatabase");
@@ -34,10 +48,21 @@ export class TodoneDatabase extends Dexie {
       comments: "++id,taskId,timestamp",
       attachments: "++id,fileName,url,type",
     });
-
-    // Apply migrations
-    this.on("ready", () => {
-      this.applyMigrations();
+    this.version(4)
+      .stores({
+        syncQueue: "++id,[table+recordId],status,nextAttemptAt,timestamp",
+        syncStatus: "id",
+      })
+      .upgrade(upgradeTo(4));
+    this.version(5)
+      .stores({
+        attachments:
+          "++id,fileName,url,type,taskId,commentId,uploadStatus,createdAt",
+        attachmentBlobs: "attachmentId",
+      })
+      .upgrade(upgradeTo(5));
+    this.version(6).stores({
+      caldavSync: "account",
     });
 
     this.on("versionchange", (event) => {
@@ -49,26 +74,6 @@ export class TodoneDatabase extends Dexie {
     });
   }
 
-  private async applyMigrations(): Promise<void> {
-    try {
-      const currentVersion = await this.getDatabaseVersion();
-      console.log("Current database version:", currentVersion);
-
-      for (const migration of migrations) {
-        if (migration.version > currentVersion) {
-          console.log(`Applying migration version ${migration.version}`);
-          await migration.up(this);
-        }
-      }
-    } catch (error) {
-      console.error("Error applying migrations:", error);
-    }
-  }
-
-  private async getDatabaseVersion(): Promise<number> {
-    return this.vernum;
-  }
-
   async initialize(): Promise<void> {
     try {
       await this.open();
@@ -81,7 +86,7 @@ export class TodoneDatabase extends Dexie {
 
   async close(): Promise<void> {
     try {
-      await this.close();
+      super.close();
       console.log("Database closed successfully");
     } catch (error) {
       console.error("Error closing database:", error);
@@ -94,7 +99,7 @@ export class TodoneDatabase extends Dexie {
     mode: "readwrite" | "readonly",
     callback: () => Promise<T>,
   ): Promise<T> {
-    return this.transaction(
+    return super.transaction(
       mode,
       [
         this.users,
@@ -105,6 +110,10 @@ export class TodoneDatabase extends Dexie {
         this.filters,
         this.comments,
         this.attachments,
+        this.attachmentBlobs,
+        this.syncQueue,
+        this.syncStatus,
+        this.caldavSync,
       ],
       callback,
     );
@@ -1,9 +1,13 @@
+import { Transaction } from "dexie";
 import { TodoneDatabase } from "./db";
 
 interface Migration {
   version: number;
-  up: () => Promise<void>;
-  down?: () => Promise<void>;
+  /**
+   * Runs in Dexie's upgrade transaction when an older database is opened
+   */
+  up: (tx?: Transaction) => Promise<void>;
+  down?: (db?: TodoneDatabase) => Promise<void>;
 }
 
 export const migrations: Migration[] = [
@@ -43,6 +47,44 @@ export const migrations: Migration[] = [
       // This would use db.tasks.toArray() in a real implementation
     },
   },
+  {
+    version: 4,
+    up: async (tx) => {
+      console.log("Running migration v4: Add persistent sync queue");
+      // The syncQueue and syncStatus tables are created by the v4 schema in
+      // db.ts; seed the status row so the sync engine has a record to update
+      const syncStatus = tx?.table("syncStatus");
+      if (syncStatus && !(await syncStatus.get("default"))) {
+        await syncStatus.put({
+          id: "default",
+          lastSync: new Date(0),
+          isSyncing: false,
+          pendingOperations: 0,
+        });
+      }
+    },
+    down: async (db) => {
+      console.log("Reverting migration v4: Clear persistent sync queue");
+      if (db) {
+        await db.syncQueue.clear();
+        await db.syncStatus.clear();
+      }
+    },
+  },
+  {
+    version: 5,
+    up: async () => {
+      console.log("Running migration v5: Add attachment blob store");
+      // Existing attachments were never stored locally and already have a
+      // URL, so there is nothing to move into attachmentBlobs
+    },
+    down: async (db) => {
+      console.log("Reverting migration v5: Clear attachment blob store");
+      if (db) {
+        await db.attachmentBlobs.clear();
+      }
+    },
+  },
 ];
 
 // Migration strategy for future updates
@@ -81,27 +81,93 @@ export interface Comment {
   timestamp: Date;
 }
 
+export type AttachmentUploadStatus =
+  | "pending"
+  | "uploading"
+  | "uploaded"
+  | "failed";
+
 export interface Attachment {
   id?: number;
   fileName: string;
+  /**
+   * Server URL, empty until the upload lands
+   */
   url: string;
+  /**
+   * MIME type
+   */
   type: string;
+  size?: number;
+  taskId?: string;
+  commentId?: string;
+  createdAt?: Date;
+  uploadStatus?: AttachmentUploadStatus;
+  uploadAttempts?: number;
+  nextAttemptAt?: Date;
+  uploadError?: string;
+  /**
+   * ID the server gave the file
+   */
+  remoteId?: string;
+  /**
+   * Start of the file for text previews
+   */
+  previewText?: string;
+}
+
+/**
+ * File contents kept in IndexedDB until they are uploaded, and the image
+ * thumbnail, which is kept for good
+ */
+export interface AttachmentBlob {
+  attachmentId: number;
+  blob?: Blob;
+  thumbnail?: Blob;
 }
 
+export type SyncOperation = "create" | "update" | "delete";
+
 export interface SyncQueueItem {
   id?: number;
-  operation: "create" | "update" | "delete";
+  operation: SyncOperation;
   table: string;
-  recordId: number;
+  recordId: number | string;
   data?: any;
   timestamp: Date;
-  status: "pending" | "completed" | "failed";
+  status: "pending" | "processing" | "completed" | "failed";
   attempts: number;
+  nextAttemptAt?: Date;
+  lastError?: string;
 }
 
 export interface SyncStatus {
+  id?: string;
   lastSync: Date;
   isSyncing: boolean;
   pendingOperations: number;
   lastError?: string;
 }
+
+/**
+ * Where syncing a CalDAV account left off, so that after a restart only
+ * changes are fetched and task events are updated rather than duplicated
+ */
+export interface CalDAVSyncRecord {
+  /**
+   * `username@serverUrl` of the account
+   */
+  account: string;
+  /**
+   * Per calendar URL: the last sync token
+   */
+  syncTokens: Record<string, string>;
+  /**
+   * Per calendar URL: href -> ETag and event of every resource seen
+   */
+  resources: Record<string, Record<string, { etag: string; event: any }>>;
+  /**
+   * taskId -> the calendar object written for it
+   */
+  linkedResources: Record<string, { href: string; etag: string }>;
+}
@@ -1,18 +1,123 @@
-// @ts-nocheck
 import { TodoneDatabase } from "./db";
-import { SyncQueueItem, SyncStatus } from "./models";
+import { SyncOperation, SyncQueueItem, SyncStatus } from "./models";
+
+const SYNC_STATUS_ID = "default";
+
+export const MAX_SYNC_ATTEMPTS = 5;
+export const BASE_RETRY_DELAY_MS = 1000;
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000;
+
+/**
+ * Sends a single queued operation to the backend. Rejecting marks the item as
+ * failed and schedules a retry.
+ */
+export type SyncTransport = (item: SyncQueueItem) => Promise<void>;
+
+/**
+ * Exponential backoff for a queue item that has failed `attempts` times
+ */
+export function getRetryDelay(attempts: number): number {
+  if (attempts <= 0) {
+    return 0;
+  }
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Merge a new operation into the pending operation for the same record.
+ * Returns the item that should replace `existing`, or null when the two
+ * cancel out (a record created and deleted before it ever reached the server).
+ * The merged item is new work, so it starts again with a full set of attempts.
+ */
+export function coalesceSyncItems(
+  existing: SyncQueueItem,
+  operation: SyncOperation,
+  data?: any,
+): SyncQueueItem | null {
+  const mergedData =
+    data === undefined ? existing.data : { ...(existing.data || {}), ...data };
+  const reset: SyncQueueItem = {
+    ...existing,
+    status: "pending",
+    attempts: 0,
+    nextAttemptAt: undefined,
+  };
+
+  switch (existing.operation) {
+    case "create":
+      if (operation === "delete") {
+        return null;
+      }
+      // Updates to an unsynced record are folded into its create
+      return { ...reset, operation: "create", data: mergedData };
+    case "update":
+      if (operation === "delete") {
+        return { ...reset, operation: "delete", data: undefined };
+      }
+      return { ...reset, operation: "update", data: mergedData };
+    case "delete":
+      if (operation === "delete") {
+        return existing;
+      }
+      // The record was recreated after a pending delete, so the server copy
+      // only needs to be overwritten
+      return { ...reset, operation: "update", data };
+    default:
+      return { ...reset, operation, data: mergedData };
+  }
+}
+
+/**
+ * Items to send now, oldest first. An item waits while an earlier item for
+ * the same record is unsent (backing off, out of attempts or in flight), so
+ * an update never reaches the server before the create it depends on.
+ */
+export function getDueSyncItems(
+  items: SyncQueueItem[],
+  now: number = Date.now(),
+): SyncQueueItem[] {
+  const blocked = new Set<string>();
+
+  return [...items]
+    .filter((item) => item.status !== "completed")
+    .sort(
+      (a, b) =>
+        new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() ||
+        (a.id ?? 0) - (b.id ?? 0),
+    )
+    .filter((item) => {
+      const key = `${item.table}:${item.recordId}`;
+      if (blocked.has(key)) {
+        return false;
+      }
+
+      const due =
+        item.status !== "processing" &&
+        item.attempts < MAX_SYNC_ATTEMPTS &&
+        (!item.nextAttemptAt || new Date(item.nextAttemptAt).getTime() <= now);
+      if (!due) {
+        blocked.add(key);
+      }
+      return due;
+    });
+}
 
 export class SyncEngine {
   private db: TodoneDatabase;
-  private syncQueue: SyncQueueItem[] = [];
+  private transport: SyncTransport;
   private syncStatus: SyncStatus = {
+    id: SYNC_STATUS_ID,
     lastSync: new Date(0),
     isSyncing: false,
     pendingOperations: 0,
   };
 
-  constructor(db: TodoneDatabase) {
+  constructor(db: TodoneDatabase, transport?: SyncTransport) {
     this.db = db;
+    this.transport = transport || ((item) => this.simulateSyncOperation(item));
   }
 
   async initialize(): Promise<void> {
@@ -21,43 +126,77 @@ export class SyncEngine {
   }
 
   private async loadSyncQueue(): Promise<void> {
-    // In a real implementation, this would load from a sync queue table
-    // For now, we'll use an in-memory array
-    this.syncQueue = [];
+    // Items left "processing" were in flight when the page was closed or
+    // crashed; we can't know whether they landed, so send them again
+    await this.db.syncQueue
+      .where("status")
+      .equals("processing")
+      .modify({ status: "pending" });
   }
 
   private async loadSyncStatus(): Promise<void> {
-    // In a real implementation, this would load from a sync status table
-    // For now, we'll use default values
+    const stored = await this.db.syncStatus.get(SYNC_STATUS_ID);
+
     this.syncStatus = {
-      lastSync: new Date(0),
+      id: SYNC_STATUS_ID,
+      lastSync: stored?.lastSync || new Date(0),
+      lastError: stored?.lastError,
       isSyncing: false,
-      pendingOperations: 0,
+      pendingOperations: await this.countPendingOperations(),
     };
+    await this.saveSyncStatus();
   }
 
   async saveSyncStatus(): Promise<void> {
-    // In a real implementation, this would save to a sync status table
-    console.log("Saving sync status:", this.syncStatus);
+    await this.db.syncStatus.put({ ...this.syncStatus, id: SYNC_STATUS_ID });
+  }
+
+  private async countPendingOperations(): Promise<number> {
+    return this.db.syncQueue.where("status").notEqual("completed").count();
   }
 
   async addToSyncQueue(
-    operation: "create" | "update" | "delete",
-    recordId: number,
+    operation: SyncOperation,
+    table: string,
+    recordId: number | string,
     data?: any,
   ): Promise<void> {
-    const queueItem: SyncQueueItem = {
-      operation,
-      table: "default",
-      recordId,
-      data,
-      timestamp: new Date(),
-      status: "pending",
-      attempts: 0,
-    };
+    await this.db.transaction("syncQueue", "readwrite", async () => {
+      // Only the record's latest item can absorb the change, and only while
+      // it is still waiting; items being sent can't be changed
+      const latest = (
+        await this.db.syncQueue
+          .where("[table+recordId]")
+          .equals([table, recordId])
+          .sortBy("id")
+      ).pop();
+      const existing =
+        latest && (latest.status === "pending" || latest.status === "failed")
+          ? latest
+          : undefined;
 
-    this.syncQueue.push(queueItem);
-    this.syncStatus.pendingOperations = this.syncQueue.length;
+      if (!existing) {
+        await this.db.syncQueue.add({
+          operation,
+          table,
+          recordId,
+          data,
+          timestamp: new Date(),
+          status: "pending",
+          attempts: 0,
+        });
+        return;
+      }
+
+      const coalesced = coalesceSyncItems(existing, operation, data);
+      if (coalesced) {
+        await this.db.syncQueue.put(coalesced);
+      } else {
+        await this.db.syncQueue.delete(existing.id);
+      }
+    });
+
+    this.syncStatus.pendingOperations = await this.countPendingOperations();
     await this.saveSyncStatus();
   }
 
@@ -67,7 +206,9 @@ export class SyncEngine {
       return;
     }
 
-    if (this.syncQueue.length === 0) {
+    const dueItems = getDueSyncItems(await this.db.syncQueue.toArray());
+
+    if (dueItems.length === 0) {
       console.log("No operations to sync");
       return;
     }
@@ -76,53 +217,80 @@ export class SyncEngine {
     await this.saveSyncStatus();
 
     try {
-      console.log(`Starting sync of ${this.syncQueue.length} operations`);
+      console.log(`Starting sync of ${dueItems.length} operations`);
+
+      const failedRecords = new Set<string>();
+
+      for (const item of dueItems) {
+        // Later changes to a record wait until its earlier ones went through
+        const key = `${item.table}:${item.recordId}`;
+        if (failedRecords.has(key)) {
+          continue;
+        }
+
+        await this.db.syncQueue.update(item.id, { status: "processing" });
 
-      // Process each item in the queue
-      for (const item of this.syncQueue) {
         try {
-          item.attempts++;
           console.log(
             `Processing ${item.operation} operation on ${item.table} record ${item.recordId}`,
           );
 
-          // Simulate sync operation (in real implementation, this would call a backend API)
-          await this.simulateSyncOperation(item);
+          await this.transport(item);
 
-          item.status = "completed";
+          await this.db.syncQueue.delete(item.id);
         } catch (error) {
           console.error(
             `Error syncing ${item.table} record ${item.recordId}:`,
             error,
           );
-          item.status = "failed";
 
-          // If max attempts reached, remove from queue
-          if (item.attempts >= 3) {
+          const attempts = item.attempts + 1;
+          const message =
+            error instanceof Error ? error.message : String(error);
+
+          if (attempts >= MAX_SYNC_ATTEMPTS) {
             console.warn(
-              `Max attempts reached for ${item.table} record ${item.recordId}, removing from queue`,
+              `Max attempts reached for ${item.table} record ${item.recordId}, waiting for manual retry`,
             );
           }
+
+          await this.db.syncQueue.update(item.id, {
+            status: "failed",
+            attempts,
+            lastError: message,
+            nextAttemptAt:
+              attempts >= MAX_SYNC_ATTEMPTS
+                ? undefined
+                : new Date(Date.now() + getRetryDelay(attempts)),
+          });
+          this.syncStatus.lastError = message;
+          failedRecords.add(key);
         }
       }
 
-      // Remove completed operations from queue
-      this.syncQueue = this.syncQueue.filter(
-        (item) => item.status !== "completed",
-      );
-      this.syncStatus.pendingOperations = this.syncQueue.length;
       this.syncStatus.lastSync = new Date();
-      this.syncStatus.isSyncing = false;
-      await this.saveSyncStatus();
-
-      console.log("Sync completed successfully");
+      console.log("Sync completed");
     } catch (error) {
       console.error("Error during sync:", error);
+      this.syncStatus.lastError =
+        error instanceof Error ? error.message : String(error);
+    } finally {
+      this.syncStatus.pendingOperations = await this.countPendingOperations();
       this.syncStatus.isSyncing = false;
       await this.saveSyncStatus();
     }
   }
 
+  /**
+   * Make items that exhausted their attempts eligible for syncing again
+   */
+  async retryFailedOperations(): Promise<void> {
+    await this.db.syncQueue
+      .where("status")
+      .equals("failed")
+      .modify({ attempts: 0, nextAttemptAt: undefined });
+  }
+
   private async simulateSyncOperation(item: SyncQueueItem): Promise<void> {
     // Simulate network delay
     await new Promise((resolve) => setTimeout(resolve, 100));
@@ -138,11 +306,15 @@ export class SyncEngine {
   }
 
   async getPendingOperations(): Promise<SyncQueueItem[]> {
-    return this.syncQueue.filter((item) => item.status === "pending");
+    return this.db.syncQueue.where("status").equals("pending").toArray();
+  }
+
+  async getFailedOperations(): Promise<SyncQueueItem[]> {
+    return this.db.syncQueue.where("status").equals("failed").toArray();
   }
 
   async clearSyncQueue(): Promise<void> {
-    this.syncQueue = [];
+    await this.db.syncQueue.clear();
     this.syncStatus.pendingOperations = 0;
     await this.saveSyncStatus();
   }
@@ -0,0 +1,74 @@
+import React, { useRef, useState } from "react";
+
+interface AttachmentDropZoneProps {
+  onFiles: (files: File[]) => void;
+  children: React.ReactNode;
+  className?: string;
+}
+
+const hasFiles = (e: React.DragEvent) =>
+  Array.from(e.dataTransfer.types).includes("Files");
+
+/**
+ * Accepts files dropped from outside the page. Other drags, such as
+ * moving tasks on the board, pass through untouched.
+ */
+const AttachmentDropZone: React.FC<AttachmentDropZoneProps> = ({
+  onFiles,
+  children,
+  className = "",
+}) => {
+  const [dragging, setDragging] = useState(false);
+  // dragenter and dragleave fire for every child the pointer crosses
+  const depth = useRef(0);
+
+  const handleDragEnter = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    depth.current++;
+    setDragging(true);
+  };
+
+  const handleDragOver = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = "copy";
+  };
+
+  const handleDragLeave = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    depth.current = Math.max(0, depth.current - 1);
+    if (depth.current === 0) setDragging(false);
+  };
+
+  const handleDrop = (e: React.DragEvent) => {
+    if (!hasFiles(e)) return;
+    e.preventDefault();
+    e.stopPropagation();
+    depth.current = 0;
+    setDragging(false);
+    onFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div
+      className={`relative ${className}`}
+      onDragEnter={handleDragEnter}
+      onDragOver={handleDragOver}
+      onDragLeave={handleDragLeave}
+      onDrop={handleDrop}
+    >
+      {children}
+      {dragging && (
+        <div className="absolute inset-0 z-10 flex items-center justify-center bg-blue-50/90 border-2 border-dashed border-blue-400 rounded-lg pointer-events-none">
+          <span className="text-sm font-medium text-blue-700">
+            Drop files to attach
+          </span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { AttachmentDropZone };
+export default AttachmentDropZone;
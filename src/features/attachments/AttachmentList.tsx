@@ -0,0 +1,141 @@
+import React, { useEffect, useState } from "react";
+import { AlertCircle, CloudOff, Loader2, RotateCw, X } from "lucide-react";
+import { Attachment } from "../../database/models";
+import { attachmentService } from "../../services/attachmentService";
+import { formatFileSize } from "../../utils/attachmentUtils";
+import { AttachmentPreview } from "./AttachmentPreview";
+
+interface AttachmentListProps {
+  attachments: Attachment[];
+  onRemove: (attachmentId: number) => void;
+  onRetry: (attachmentId: number) => void;
+  compact?: boolean;
+}
+
+const AttachmentStatus: React.FC<{
+  attachment: Attachment;
+  onRetry: () => void;
+}> = ({ attachment, onRetry }) => {
+  switch (attachment.uploadStatus) {
+    case "pending":
+      return (
+        <span className="flex items-center gap-1 text-xs text-gray-500">
+          <CloudOff className="w-3 h-3" />
+          Waiting to upload
+        </span>
+      );
+    case "uploading":
+      return (
+        <span className="flex items-center gap-1 text-xs text-blue-600">
+          <Loader2 className="w-3 h-3 animate-spin" />
+          Uploading
+        </span>
+      );
+    case "failed":
+      return (
+        <span
+          className="flex items-center gap-1 text-xs text-red-600"
+          title={attachment.uploadError}
+        >
+          <AlertCircle className="w-3 h-3" />
+          Upload failed
+          <button
+            type="button"
+            onClick={onRetry}
+            className="ml-1 flex items-center gap-0.5 underline hover:text-red-800"
+          >
+            <RotateCw className="w-3 h-3" />
+            Retry
+          </button>
+        </span>
+      );
+    default:
+      return null;
+  }
+};
+
+const AttachmentName: React.FC<{ attachment: Attachment }> = ({
+  attachment,
+}) => {
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    attachmentService
+      .getFileUrl(attachment)
+      .then((loaded) => !cancelled && setUrl(loaded))
+      .catch((error) => console.error("Failed to load attachment:", error));
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment]);
+
+  if (!url) {
+    return <span className="truncate">{attachment.fileName}</span>;
+  }
+
+  return (
+    <a
+      href={url}
+      download={attachment.fileName}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="truncate text-blue-600 hover:underline"
+    >
+      {attachment.fileName}
+    </a>
+  );
+};
+
+const AttachmentList: React.FC<AttachmentListProps> = ({
+  attachments,
+  onRemove,
+  onRetry,
+  compact = false,
+}) => {
+  if (attachments.length === 0) return null;
+
+  return (
+    <ul
+      className={
+        compact ? "space-y-1" : "grid grid-cols-2 sm:grid-cols-3 gap-3"
+      }
+    >
+      {attachments.map((attachment) => (
+        <li
+          key={attachment.id}
+          className={
+            compact
+              ? "flex items-center gap-2 text-sm"
+              : "group relative flex flex-col gap-1 text-sm"
+          }
+        >
+          {!compact && <AttachmentPreview attachment={attachment} />}
+          <div className="flex items-center gap-2 min-w-0">
+            <AttachmentName attachment={attachment} />
+            {attachment.size !== undefined && (
+              <span className="flex-shrink-0 text-xs text-gray-400">
+                {formatFileSize(attachment.size)}
+              </span>
+            )}
+            <button
+              type="button"
+              onClick={() => onRemove(attachment.id!)}
+              className="ml-auto flex-shrink-0 p-0.5 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${attachment.fileName}`}
+            >
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <AttachmentStatus
+            attachment={attachment}
+            onRetry={() => onRetry(attachment.id!)}
+          />
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export { AttachmentList };
+export default AttachmentList;
@@ -0,0 +1,87 @@
+import React, { useRef } from "react";
+import { Paperclip } from "lucide-react";
+import { useAttachments } from "../../hooks/useAttachments";
+import { AttachmentTarget } from "../../services/attachmentService";
+import { AttachmentDropZone } from "./AttachmentDropZone";
+import { AttachmentList } from "./AttachmentList";
+import { AttachmentRejections } from "./AttachmentRejections";
+
+interface AttachmentPanelProps {
+  target: AttachmentTarget;
+  /**
+   * Single-line rows without previews, for comments
+   */
+  compact?: boolean;
+  className?: string;
+}
+
+/**
+ * Attachments of a task or comment with a drop zone and file picker
+ */
+const AttachmentPanel: React.FC<AttachmentPanelProps> = ({
+  target,
+  compact = false,
+  className = "",
+}) => {
+  const {
+    attachments,
+    rejected,
+    error,
+    addFiles,
+    removeAttachment,
+    retryUpload,
+  } = useAttachments(target);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    addFiles(Array.from(e.target.files ?? []));
+    e.target.value = "";
+  };
+
+  return (
+    <AttachmentDropZone onFiles={addFiles} className={className}>
+      {!compact && (
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-sm font-medium text-gray-900">
+            Attachments
+            {attachments.length > 0 && (
+              <span className="ml-1 text-gray-500">({attachments.length})</span>
+            )}
+          </h3>
+        </div>
+      )}
+
+      <AttachmentList
+        attachments={attachments}
+        onRemove={removeAttachment}
+        onRetry={retryUpload}
+        compact={compact}
+      />
+
+      <input
+        ref={inputRef}
+        type="file"
+        multiple
+        className="hidden"
+        onChange={handleInputChange}
+      />
+      <button
+        type="button"
+        onClick={() => inputRef.current?.click()}
+        className={`flex items-center gap-1 text-gray-500 hover:text-gray-700 ${
+          compact
+            ? "text-xs mt-1"
+            : "w-full justify-center mt-2 p-3 text-sm border border-dashed border-gray-300 rounded-lg"
+        }`}
+      >
+        <Paperclip className="w-3.5 h-3.5" />
+        {compact ? "Attach" : "Drop files here or click to attach"}
+      </button>
+
+      <AttachmentRejections rejected={rejected} error={error} />
+    </AttachmentDropZone>
+  );
+};
+
+export { AttachmentPanel };
+export default AttachmentPanel;
@@ -0,0 +1,84 @@
+import React, { useEffect, useState } from "react";
+import { FileText } from "lucide-react";
+import { Attachment } from "../../database/models";
+import { attachmentService } from "../../services/attachmentService";
+import { getPreviewKind } from "../../utils/attachmentUtils";
+
+interface AttachmentPreviewProps {
+  attachment: Attachment;
+}
+
+/**
+ * Thumbnail for images, the first page of PDFs, the start of text files
+ * and an icon for anything else
+ */
+const AttachmentPreview: React.FC<AttachmentPreviewProps> = ({
+  attachment,
+}) => {
+  const kind = getPreviewKind(attachment.type, attachment.fileName);
+  const [url, setUrl] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const load =
+      kind === "image"
+        ? attachmentService.getPreviewUrl(attachment)
+        : kind === "pdf"
+          ? attachmentService.getThumbnailUrl(attachment)
+          : Promise.resolve(null);
+
+    load
+      .then((loaded) => !cancelled && setUrl(loaded))
+      .catch((error) => console.error("Failed to load preview:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [attachment, kind]);
+
+  const frame =
+    "w-full h-28 overflow-hidden rounded bg-gray-50 border border-gray-200";
+
+  if ((kind === "image" || kind === "pdf") && url) {
+    return (
+      <img
+        src={url}
+        alt={
+          kind === "pdf"
+            ? `First page of ${attachment.fileName}`
+            : attachment.fileName
+        }
+        className={`${frame} ${kind === "pdf" ? "object-contain object-top" : "object-cover"}`}
+      />
+    );
+  }
+
+  if (kind === "text" && attachment.previewText) {
+    return (
+      <pre
+        className={`${frame} p-2 text-[10px] leading-tight text-gray-600 whitespace-pre-wrap`}
+      >
+        {attachment.previewText}
+      </pre>
+    );
+  }
+
+  return <FileIcon fileName={attachment.fileName} className={frame} />;
+};
+
+const FileIcon: React.FC<{ fileName: string; className: string }> = ({
+  fileName,
+  className,
+}) => (
+  <div
+    className={`${className} flex flex-col items-center justify-center text-gray-400`}
+  >
+    <FileText className="w-8 h-8" />
+    <span className="mt-1 text-xs uppercase">
+      {fileName.includes(".") ? fileName.split(".").pop() : "file"}
+    </span>
+  </div>
+);
+
+export { AttachmentPreview };
+export default AttachmentPreview;
@@ -0,0 +1,41 @@
+import React from "react";
+import { RejectedAttachment } from "../../utils/attachmentUtils";
+
+interface AttachmentRejectionsProps {
+  rejected: RejectedAttachment<{ name: string }>[];
+  error?: string | null;
+  className?: string;
+}
+
+/**
+ * Why files were not attached: each rejected file with its reason, and
+ * any other error
+ */
+const AttachmentRejections: React.FC<AttachmentRejectionsProps> = ({
+  rejected,
+  error,
+  className = "mt-2",
+}) => (
+  <>
+    {rejected.length > 0 && (
+      <ul
+        className={`${className} space-y-0.5 text-xs text-red-600`}
+        role="alert"
+      >
+        {rejected.map(({ file, reason }) => (
+          <li key={file.name}>
+            {file.name}: {reason}
+          </li>
+        ))}
+      </ul>
+    )}
+    {error && (
+      <p className={`${className} text-xs text-red-600`} role="alert">
+        {error}
+      </p>
+    )}
+  </>
+);
+
+export { AttachmentRejections };
+export default AttachmentRejections;
@@ -0,0 +1,5 @@
+export { AttachmentDropZone } from "./AttachmentDropZone";
+export { AttachmentList } from "./AttachmentList";
+export { AttachmentPanel } from "./AttachmentPanel";
+export { AttachmentPreview } from "./AttachmentPreview";
+export { AttachmentRejections } from "./AttachmentRejections";
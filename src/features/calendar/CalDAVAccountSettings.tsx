@@ -0,0 +1,183 @@
+import React, { useState } from "react";
+import { useCalendarStore } from "../../store/useCalendarStore";
+import { CalDAVAccount } from "../../types/calendarTypes";
+
+const EMPTY_ACCOUNT: CalDAVAccount = {
+  serverUrl: "",
+  username: "",
+  password: "",
+};
+
+export const CalDAVAccountSettings: React.FC = () => {
+  const account = useCalendarStore((state) => state.caldavAccount);
+  const isConnected = useCalendarStore((state) => state.caldavConnected);
+  const calendars = useCalendarStore(
+    (state) => state.calendarSyncState.availableCalendars,
+  );
+  const connectCalDAV = useCalendarStore((state) => state.connectCalDAV);
+  const disconnectCalDAV = useCalendarStore((state) => state.disconnectCalDAV);
+
+  // A saved account needs its password again after a reload
+  const [form, setForm] = useState<CalDAVAccount>(() => ({
+    ...EMPTY_ACCOUNT,
+    serverUrl: account?.serverUrl || "",
+    username: account?.username || "",
+  }));
+  const [isConnecting, setIsConnecting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const connect = async (next: CalDAVAccount): Promise<boolean> => {
+    try {
+      setIsConnecting(true);
+      setError(null);
+      await connectCalDAV(next);
+      return true;
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to connect the account",
+      );
+      return false;
+    } finally {
+      setIsConnecting(false);
+    }
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setForm((prev) => ({ ...prev, [name]: value }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const serverUrl = form.serverUrl.trim();
+    const defaultCalendarUrl =
+      account?.serverUrl === serverUrl ? account.defaultCalendarUrl : undefined;
+
+    if (await connect({ ...form, serverUrl, defaultCalendarUrl })) {
+      setForm(EMPTY_ACCOUNT);
+    }
+  };
+
+  const handleDisconnect = () => {
+    if (
+      window.confirm(
+        "Disconnect the CalDAV account? Events already written stay on the server.",
+      )
+    ) {
+      disconnectCalDAV();
+    }
+  };
+
+  if (account && isConnected) {
+    return (
+      <div className="caldav-account-settings">
+        <h4>CalDAV Account</h4>
+        <p>
+          Connected to <strong>{account.serverUrl}</strong>
+          {account.username && <> as {account.username}</>}
+        </p>
+
+        <div className="form-group">
+          <label htmlFor="caldav-default-calendar">Write tasks to</label>
+          <select
+            id="caldav-default-calendar"
+            value={account.defaultCalendarUrl || ""}
+            disabled={isConnecting}
+            onChange={(e) =>
+              connect({
+                ...account,
+                defaultCalendarUrl: e.target.value || undefined,
+              })
+            }
+          >
+            <option value="">First calendar</option>
+            {calendars.map((calendar) => (
+              <option key={calendar.id} value={calendar.id}>
+                {calendar.name}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        {error && <p className="sync-error">{error}</p>}
+
+        <button
+          type="button"
+          onClick={handleDisconnect}
+          className="cancel-button"
+        >
+          Disconnect
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="caldav-account-settings">
+      <h4>CalDAV Account</h4>
+      <p className="caldav-account-description">
+        {account
+          ? "Enter your password again to reconnect. Passwords are not saved between sessions."
+          : "Connect a CalDAV calendar such as Nextcloud, Fastmail or iCloud to write tasks with due dates as events and sync their changes back."}
+      </p>
+
+      <form onSubmit={handleSubmit} className="settings-form">
+        <div className="form-group">
+          <label htmlFor="caldav-server-url">Server URL</label>
+          <input
+            type="url"
+            id="caldav-server-url"
+            name="serverUrl"
+            value={form.serverUrl}
+            onChange={handleChange}
+            placeholder="https://dav.example.com/"
+            required
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="caldav-username">Username</label>
+          <input
+            type="text"
+            id="caldav-username"
+            name="username"
+            value={form.username}
+            onChange={handleChange}
+            autoComplete="username"
+          />
+        </div>
+        <div className="form-group">
+          <label htmlFor="caldav-password">Password or app password</label>
+          <input
+            type="password"
+            id="caldav-password"
+            name="password"
+            value={form.password}
+            onChange={handleChange}
+            autoComplete="current-password"
+          />
+        </div>
+
+        {error && <p className="sync-error">{error}</p>}
+
+        <div className="form-actions">
+          <button
+            type="submit"
+            disabled={isConnecting || !form.serverUrl.trim()}
+            className="save-button"
+          >
+            {isConnecting ? "Connecting..." : "Connect"}
+          </button>
+          {account && (
+            <button
+              type="button"
+              onClick={handleDisconnect}
+              className="cancel-button"
+            >
+              Forget account
+            </button>
+          )}
+        </div>
+      </form>
+    </div>
+  );
+};
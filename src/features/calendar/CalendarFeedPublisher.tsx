@@ -0,0 +1,49 @@
+import React, { useEffect } from "react";
+import { useCalendarStore } from "../../store/useCalendarStore";
+import { useTaskStore } from "../../store/useTaskStore";
+import { useProjectStore } from "../../store/useProjectStore";
+import { useLabelStore } from "../../store/useLabelStore";
+import { useFilterStore } from "../../store/useFilterStore";
+import { calendarFeedService } from "../../services/calendarFeedService";
+import { Task } from "../../types/task";
+
+/**
+ * Wait for edits to settle before publishing feeds again
+ */
+const PUBLISH_DELAY = 2000;
+
+/**
+ * Publish active calendar feeds to the feed server whenever the tasks,
+ * projects, labels or filters behind them change. Renders nothing.
+ */
+export const CalendarFeedPublisher: React.FC = () => {
+  const feeds = useCalendarStore((state) => state.calendarFeeds);
+  const tasks = useTaskStore((state) => state.tasks);
+  const projects = useProjectStore((state) => state.projects);
+  const labels = useLabelStore((state) => state.labels);
+  const filters = useFilterStore((state) => state.filters);
+
+  useEffect(() => {
+    const activeFeeds = (feeds || []).filter((feed) => !feed.revokedAt);
+    if (activeFeeds.length === 0) return;
+
+    const timeout = window.setTimeout(() => {
+      activeFeeds.forEach((feed) =>
+        calendarFeedService
+          .publishFeed(feed, {
+            tasks: tasks as unknown as Task[],
+            projects,
+            labels,
+            filters,
+          })
+          .catch((error) =>
+            console.error(`Failed to publish calendar feed ${feed.id}:`, error),
+          ),
+      );
+    }, PUBLISH_DELAY);
+
+    return () => window.clearTimeout(timeout);
+  }, [feeds, tasks, projects, labels, filters]);
+
+  return null;
+};
@@ -0,0 +1,147 @@
+import React, { useState } from "react";
+import { useCalendarStore } from "../../store/useCalendarStore";
+import { useProjectStore } from "../../store/useProjectStore";
+import { useLabelStore } from "../../store/useLabelStore";
+import { useFilterStore } from "../../store/useFilterStore";
+import { CalendarFeed, CalendarFeedScopeType } from "../../types/calendarTypes";
+
+const SCOPE_LABELS: Record<CalendarFeedScopeType, string> = {
+  project: "Project",
+  label: "Label",
+  filter: "Filter",
+};
+
+export const CalendarFeedSettings: React.FC = () => {
+  const feeds = useCalendarStore((state) => state.calendarFeeds) || [];
+  const createCalendarFeed = useCalendarStore(
+    (state) => state.createCalendarFeed,
+  );
+  const revokeCalendarFeed = useCalendarStore(
+    (state) => state.revokeCalendarFeed,
+  );
+  const projects = useProjectStore((state) => state.projects);
+  const labels = useLabelStore((state) => state.labels);
+  const filters = useFilterStore((state) => state.filters);
+
+  const [scopeType, setScopeType] = useState<CalendarFeedScopeType>("project");
+  const [scopeId, setScopeId] = useState("");
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const options: { id: string; name: string }[] =
+    scopeType === "project"
+      ? projects
+      : scopeType === "label"
+        ? labels
+        : filters;
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const target = options.find((option) => option.id === scopeId);
+    if (!target) {
+      return;
+    }
+    createCalendarFeed({ type: scopeType, id: target.id, name: target.name });
+    setScopeId("");
+  };
+
+  const handleCopy = async (feed: CalendarFeed) => {
+    try {
+      await navigator.clipboard.writeText(feed.url);
+      setCopiedId(feed.id);
+    } catch {
+      setCopiedId(null);
+    }
+  };
+
+  const handleRevoke = (feed: CalendarFeed) => {
+    if (
+      window.confirm(
+        `Revoke the feed for "${feed.scope.name}"? Calendars subscribed to it will stop updating.`,
+      )
+    ) {
+      revokeCalendarFeed(feed.id);
+    }
+  };
+
+  const activeFeeds = feeds.filter((feed) => !feed.revokedAt);
+
+  return (
+    <div className="calendar-feed-settings">
+      <h4>Calendar Feeds</h4>
+      <p className="calendar-feed-description">
+        Subscribe to these read-only URLs in your calendar app to see due dates.
+        Todone publishes them to the feed server while it is open. Anyone with a
+        feed URL can read it, so revoke feeds you no longer use.
+      </p>
+
+      <form onSubmit={handleCreate} className="calendar-feed-form">
+        <select
+          aria-label="Feed type"
+          value={scopeType}
+          onChange={(e) => {
+            setScopeType(e.target.value as CalendarFeedScopeType);
+            setScopeId("");
+          }}
+        >
+          {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select
+          aria-label={SCOPE_LABELS[scopeType]}
+          value={scopeId}
+          onChange={(e) => setScopeId(e.target.value)}
+        >
+          <option value="">
+            Select {SCOPE_LABELS[scopeType].toLowerCase()}
+          </option>
+          {options.map((option) => (
+            <option key={option.id} value={option.id}>
+              {option.name}
+            </option>
+          ))}
+        </select>
+        <button type="submit" disabled={!scopeId} className="save-button">
+          Create feed
+        </button>
+      </form>
+
+      {activeFeeds.length === 0 ? (
+        <p className="calendar-feed-empty">No feeds yet</p>
+      ) : (
+        <ul className="calendar-feed-list">
+          {activeFeeds.map((feed) => (
+            <li key={feed.id} className="calendar-feed-item">
+              <div>
+                <strong>
+                  {SCOPE_LABELS[feed.scope.type]}: {feed.scope.name}
+                </strong>
+                <input
+                  type="text"
+                  readOnly
+                  value={feed.url}
+                  onFocus={(e) => e.target.select()}
+                  aria-label={`Feed URL for ${feed.scope.name}`}
+                />
+              </div>
+              <div className="calendar-feed-actions">
+                <button type="button" onClick={() => handleCopy(feed)}>
+                  {copiedId === feed.id ? "Copied" : "Copy URL"}
+                </button>
+                <button
+                  type="button"
+                  onClick={() => handleRevoke(feed)}
+                  className="cancel-button"
+                >
+                  Revoke
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,8 @@
 // @ts-nocheck
 import React, { useState } from "react";
 import { CalendarConfig } from "../../../types/calendarTypes";
+import { CalDAVAccountSettings } from "./CalDAVAccountSettings";
+import { CalendarFeedSettings } from "./CalendarFeedSettings";
 
 interface CalendarIntegrationSettingsProps {
   config: CalendarConfig;
@@ -166,6 +168,9 @@ export const CalendarIntegrationSettings: React.FC<
           </button>
         </div>
       )}
+
+      <CalDAVAccountSettings />
+      <CalendarFeedSettings />
     </div>
   );
 };
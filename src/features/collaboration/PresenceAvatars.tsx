@@ -0,0 +1,59 @@
+import React from "react";
+import { usePresence } from "../../hooks/useRealtime";
+import { PresenceView } from "../../types/collaboration";
+
+interface PresenceAvatarsProps extends PresenceView {
+  /**
+   * Avatars shown before the rest are summed up as "+N"
+   */
+  max?: number;
+}
+
+const getInitials = (name: string) =>
+  name
+    .split(/\s+/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+
+/**
+ * Other users currently looking at a project or task. Mounting it also
+ * tells them the current user is here.
+ */
+const PresenceAvatars: React.FC<PresenceAvatarsProps> = ({
+  projectId,
+  taskId,
+  max = 4,
+}) => {
+  const { viewers } = usePresence({ projectId, taskId });
+
+  if (viewers.length === 0) return null;
+
+  const names = viewers.map(({ userName }) => userName).join(", ");
+
+  return (
+    <div
+      className="flex items-center -space-x-2"
+      title={`Also viewing: ${names}`}
+      aria-label={`Also viewing: ${names}`}
+    >
+      {viewers.slice(0, max).map((viewer) => (
+        <span
+          key={viewer.userId}
+          className="flex items-center justify-center w-7 h-7 rounded-full bg-blue-100 text-blue-700 text-xs font-medium ring-2 ring-white"
+        >
+          {getInitials(viewer.userName)}
+        </span>
+      ))}
+      {viewers.length > max && (
+        <span className="flex items-center justify-center w-7 h-7 rounded-full bg-gray-100 text-gray-600 text-xs font-medium ring-2 ring-white">
+          +{viewers.length - max}
+        </span>
+      )}
+    </div>
+  );
+};
+
+export { PresenceAvatars };
+export default PresenceAvatars;
@@ -0,0 +1,31 @@
+import React from "react";
+import { useRealtimeConnection } from "../../hooks/useRealtime";
+import { RealtimeConnectionStatus } from "../../types/realtime";
+
+const STATUS_STYLES: Record<
+  RealtimeConnectionStatus,
+  { label: string; dot: string }
+> = {
+  connected: { label: "Live", dot: "bg-green-400" },
+  connecting: { label: "Connecting…", dot: "bg-yellow-300" },
+  disconnected: { label: "Not live", dot: "bg-gray-300" },
+  incompatible: { label: "Update required", dot: "bg-red-400" },
+};
+
+/**
+ * Keeps the realtime connection open and shows its state
+ */
+const RealtimeStatus: React.FC = () => {
+  const { status } = useRealtimeConnection();
+  const { label, dot } = STATUS_STYLES[status];
+
+  return (
+    <span className="flex items-center gap-1.5 text-xs" role="status">
+      <span className={`w-2 h-2 rounded-full ${dot}`} />
+      {label}
+    </span>
+  );
+};
+
+export { RealtimeStatus };
+export default RealtimeStatus;
@@ -179,6 +179,8 @@ export class CollaborationTestDataGenerators {
     overrides: Partial<CollaborationEvent> = {},
   ): CollaborationEvent {
     return {
+      version: overrides.version || 1,
+      id: overrides.id || `event-${Math.random().toString(36).substr(2, 9)}`,
       type: overrides.type || "team_created",
       timestamp: overrides.timestamp || new Date(),
       data: overrides.data || { message: "Test event data" },
@@ -1,6 +1,7 @@
 import React from "react";
 import { Comment } from "../../types/common";
 import { CommentUtils } from "../../utils/commentUtils";
+import { MentionCandidate } from "../../utils/commentContentUtils";
 import {
   Avatar,
   AvatarFallback,
@@ -13,6 +14,7 @@ interface CommentDisplayProps {
   showUserInfo?: boolean;
   showTimestamp?: boolean;
   compact?: boolean;
+  mentionCandidates?: MentionCandidate[];
 }
 
 const CommentDisplay: React.FC<CommentDisplayProps> = ({
@@ -20,8 +22,12 @@ const CommentDisplay: React.FC<CommentDisplayProps> = ({
   showUserInfo = true,
   showTimestamp = true,
   compact = false,
+  mentionCandidates = [],
 }) => {
-  const formattedContent = CommentUtils.formatCommentContent(comment.content);
+  const formattedContent = CommentUtils.formatCommentContent(
+    comment.content,
+    mentionCandidates,
+  );
   const timestamp = CommentUtils.formatCommentTimestamp(comment.timestamp);
 
   return (
@@ -1,24 +1,53 @@
 // @ts-nocheck
-import React, { useState, useEffect } from "react";
+import React, { useState, useEffect, useRef } from "react";
 import { Comment } from "../../types/common";
 import { Button } from "../../components/ui/button";
-import { Textarea } from "../../components/ui/textarea";
 import { useCommentForm } from "../../hooks/useCommentForm";
+import {
+  MentionCandidate,
+  filterMentionCandidates,
+  getMentionQuery,
+  insertMention,
+  renderCommentContent,
+} from "../../utils/commentContentUtils";
 
 interface CommentEditorProps {
-  taskId: string;
+  taskId?: string;
   comment?: Comment;
   onSave: (content: string) => Promise<void>;
   onCancel?: () => void;
+  mentionCandidates?: MentionCandidate[];
+  placeholder?: string;
+  submitLabel?: string;
+
+  /**
+   * Called on every change, e.g. to show others the user is typing
+   */
+  onTyping?: () => void;
 }
 
+const FORMATS = [
+  { label: "B", title: "Bold (Ctrl+B)", marker: "**", key: "b" },
+  { label: "I", title: "Italic (Ctrl+I)", marker: "*", key: "i" },
+  { label: "S", title: "Strikethrough", marker: "~~" },
+  { label: "</>", title: "Code", marker: "`" },
+];
+
 const CommentEditor: React.FC<CommentEditorProps> = ({
-  taskId,
   comment,
   onSave,
   onCancel,
+  mentionCandidates = [],
+  placeholder = "Write your comment... Use @ to mention someone",
+  submitLabel,
+  onTyping,
 }) => {
   const [content, setContent] = useState(comment?.content || "");
+  const [caret, setCaret] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [dismissedAt, setDismissedAt] = useState<number | null>(null);
+  const [preview, setPreview] = useState(false);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   const { validateComment, errors } = useCommentForm();
 
   useEffect(() => {
@@ -27,24 +56,166 @@ const CommentEditor: React.FC<CommentEditorProps> = ({
     }
   }, [comment]);
 
+  const mentionQuery = getMentionQuery(content, caret);
+  const suggestions =
+    mentionQuery && mentionQuery.start !== dismissedAt
+      ? filterMentionCandidates(mentionCandidates, mentionQuery.query)
+      : [];
+
+  const setSelection = (start: number, end = start) => {
+    setCaret(end);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(start, end);
+    });
+  };
+
+  const updateCaret = () => {
+    setCaret(textareaRef.current?.selectionStart ?? content.length);
+  };
+
+  const selectMention = (candidate: MentionCandidate) => {
+    const next = insertMention(content, mentionQuery.start, caret, candidate);
+    setContent(next.content);
+    setActiveIndex(0);
+    setSelection(next.caret);
+  };
+
+  const wrapSelection = (marker: string) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? content.length;
+    const end = textarea?.selectionEnd ?? content.length;
+
+    setContent(
+      content.slice(0, start) +
+        marker +
+        content.slice(start, end) +
+        marker +
+        content.slice(end),
+    );
+    setSelection(start + marker.length, end + marker.length);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setActiveIndex(
+          (activeIndex + step + suggestions.length) % suggestions.length,
+        );
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        selectMention(
+          suggestions[Math.min(activeIndex, suggestions.length - 1)],
+        );
+        return;
+      }
+      if (e.key === "Escape") {
+        e.preventDefault();
+        setDismissedAt(mentionQuery.start);
+        return;
+      }
+    }
+
+    const format = FORMATS.find((f) => f.key && f.key === e.key.toLowerCase());
+    if (format && (e.ctrlKey || e.metaKey)) {
+      e.preventDefault();
+      wrapSelection(format.marker);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     if (validateComment(content)) {
       await onSave(content);
+      if (!comment) {
+        setContent("");
+        setPreview(false);
+      }
     }
   };
 
   return (
     <form onSubmit={handleSubmit} className="space-y-3">
-      <div className="space-y-1">
-        <Textarea
-          id="comment-content"
-          value={content}
-          onChange={(e) => setContent(e.target.value)}
-          placeholder="Write your comment..."
-          className="min-h-[100px] w-full"
-          required
-        />
+      <div className="flex items-center space-x-1">
+        {FORMATS.map((format) => (
+          <button
+            key={format.marker}
+            type="button"
+            title={format.title}
+            onClick={() => wrapSelection(format.marker)}
+            disabled={preview}
+            className="px-2 py-0.5 text-xs font-mono text-gray-600 rounded hover:bg-gray-100 disabled:opacity-50"
+          >
+            {format.label}
+          </button>
+        ))}
+        <button
+          type="button"
+          onClick={() => setPreview(!preview)}
+          className="ml-auto px-2 py-0.5 text-xs text-gray-600 rounded hover:bg-gray-100"
+        >
+          {preview ? "Edit" : "Preview"}
+        </button>
+      </div>
+
+      <div className="relative space-y-1">
+        {preview ? (
+          <div
+            className="prose prose-sm max-w-none min-h-[100px] p-2 border border-gray-200 rounded"
+            dangerouslySetInnerHTML={{
+              __html: renderCommentContent(content, mentionCandidates),
+            }}
+          />
+        ) : (
+          <textarea
+            id="comment-content"
+            ref={textareaRef}
+            value={content}
+            onChange={(e) => {
+              setContent(e.target.value);
+              setCaret(e.target.selectionStart);
+              setActiveIndex(0);
+              onTyping?.();
+            }}
+            onKeyDown={handleKeyDown}
+            onKeyUp={updateCaret}
+            onClick={updateCaret}
+            placeholder={placeholder}
+            className="min-h-[100px] w-full p-2 text-sm border border-gray-300 rounded"
+            aria-autocomplete="list"
+            aria-expanded={suggestions.length > 0}
+            required
+          />
+        )}
+
+        {!preview && suggestions.length > 0 && (
+          <ul
+            role="listbox"
+            aria-label="Mention suggestions"
+            className="absolute left-0 z-20 w-60 mt-1 bg-white border border-gray-200 rounded-md shadow-lg"
+          >
+            {suggestions.map((candidate, index) => (
+              <li
+                key={candidate.userId}
+                role="option"
+                aria-selected={index === activeIndex}
+                onMouseDown={(e) => {
+                  // Keep focus in the textarea
+                  e.preventDefault();
+                  selectMention(candidate);
+                }}
+                className={`px-3 py-1.5 text-sm cursor-pointer ${index === activeIndex ? "bg-blue-50 text-blue-700" : "hover:bg-gray-50"}`}
+              >
+                @{candidate.name}
+              </li>
+            ))}
+          </ul>
+        )}
+
         {errors.content && (
           <p className="text-sm text-red-600">{errors.content}</p>
         )}
@@ -52,7 +223,7 @@ const CommentEditor: React.FC<CommentEditorProps> = ({
 
       <div className="flex items-center space-x-2">
         <Button type="submit" variant="primary">
-          {comment ? "Update Comment" : "Post Comment"}
+          {submitLabel || (comment ? "Update Comment" : "Post Comment")}
         </Button>
         {onCancel && (
           <Button type="button" variant="secondary" onClick={onCancel}>
@@ -2,13 +2,19 @@
 import React, { useState, useEffect } from "react";
 import { useComments } from "../../hooks/useComments";
 import { useCommentForm } from "../../hooks/useCommentForm";
+import { useMentionCandidates } from "../../hooks/useMentionCandidates";
+import { useTypingIndicator } from "../../hooks/useRealtime";
 import { CommentUtils } from "../../utils/commentUtils";
 import { CommentValidation } from "../../utils/commentValidation";
+import {
+  buildCommentThreads,
+  getReactionCount,
+} from "../../utils/commentThreadUtils";
 import CommentSectionWithHeader from "./CommentSectionWithHeader";
-import CommentListWithPagination from "./CommentListWithPagination";
-import CommentFormWithValidation from "./CommentFormWithValidation";
-import CommentItemWithActions from "./CommentItemWithActions";
-import CommentNotifications from "./CommentNotifications";
+import CommentEditor from "./CommentEditor";
+import CommentThreadList from "./CommentThreadList";
+import CommentNotificationIntegration from "./CommentNotificationIntegration";
+import CommentTypingIndicator from "./CommentTypingIndicator";
 import { Comment } from "../../types/common";
 import { Button } from "../../components/ui/button";
 import {
@@ -41,8 +47,7 @@ const CommentFeatureImplementation: React.FC<
     createComment,
     updateComment,
     deleteComment,
-    likeComment,
-    unlikeComment,
+    toggleReaction,
     refreshComments,
     filterCommentsByUser,
     sortComments,
@@ -54,7 +59,9 @@ const CommentFeatureImplementation: React.FC<
     "newest",
   );
   const [showCommentForm, setShowCommentForm] = useState(false);
-  const [editingComment, setEditingComment] = useState<Comment | null>(null);
+  const mentionCandidates = useMentionCandidates();
+  const { typingUsers, notifyTyping, stopTyping } = useTypingIndicator(taskId);
+  const currentUserId = localStorage.getItem("userId") || "anonymous";
   const [filteredComments, setFilteredComments] = useState<Comment[]>([]);
   const [stats, setStats] = useState({
     total: 0,
@@ -68,19 +75,21 @@ const CommentFeatureImplementation: React.FC<
 
     // Apply tab filtering
     if (activeTab === "mine") {
-      const currentUserId = localStorage.getItem("userId") || "user-1";
       result = filterCommentsByUser(currentUserId);
     } else if (activeTab === "recent") {
       result = sortComments("desc").slice(0, 10);
     }
 
-    // Apply sorting
+    // Apply sorting; replies are ordered within their thread
+    const time = (comment: Comment) => new Date(comment.timestamp).getTime();
     if (sortBy === "newest") {
-      result = sortComments("desc");
+      result.sort((a, b) => time(b) - time(a));
     } else if (sortBy === "oldest") {
-      result = sortComments("asc");
+      result.sort((a, b) => time(a) - time(b));
     } else if (sortBy === "popular") {
-      result = [...comments].sort((a, b) => (b.likes || 0) - (a.likes || 0));
+      result.sort(
+        (a, b) => getReactionCount(b.reactions) - getReactionCount(a.reactions),
+      );
     }
 
     setFilteredComments(result);
@@ -89,38 +98,30 @@ const CommentFeatureImplementation: React.FC<
     comments,
     activeTab,
     sortBy,
+    currentUserId,
     filterCommentsByUser,
     sortComments,
     getCommentStats,
   ]);
 
   const handleCreateComment = async (content: string) => {
-    await createComment(content);
+    stopTyping();
+    await createComment(content, { mentionCandidates });
     setShowCommentForm(false);
   };
 
   const handleEditComment = async (commentId: string, content: string) => {
-    await updateComment(commentId, content);
-    setEditingComment(null);
-    setShowCommentForm(false);
-  };
-
-  const handleEditClick = (comment: Comment) => {
-    setEditingComment(comment);
-    setShowCommentForm(true);
+    stopTyping();
+    await updateComment(commentId, content, mentionCandidates);
   };
 
-  const handleLike = async (commentId: string) => {
-    await likeComment(commentId);
+  const handleReply = async (parentComment: Comment, content: string) => {
+    stopTyping();
+    await createComment(content, { parentComment, mentionCandidates });
   };
 
-  const handleDislike = async (commentId: string) => {
-    await unlikeComment(commentId);
-  };
-
-  const handleReply = (comment: Comment) => {
-    // In a real implementation, this would handle replies
-    console.log("Reply to comment:", comment.id);
+  const handleReact = async (commentId: string, emoji: string) => {
+    await toggleReaction(commentId, emoji);
   };
 
   if (loading) {
@@ -148,10 +149,7 @@ const CommentFeatureImplementation: React.FC<
           <Button
             variant="primary"
             size="sm"
-            onClick={() => {
-              setShowCommentForm(!showCommentForm);
-              setEditingComment(null);
-            }}
+            onClick={() => setShowCommentForm(!showCommentForm)}
           >
             {showCommentForm ? "Cancel" : "Add Comment"}
           </Button>
@@ -169,22 +167,17 @@ const CommentFeatureImplementation: React.FC<
 
       {/* Comment form */}
       {showCommentForm && (
-        <CommentFormWithValidation
+        <CommentEditor
           taskId={taskId}
-          onSubmit={
-            editingComment
-              ? (content) => handleEditComment(editingComment.id, content)
-              : handleCreateComment
-          }
-          onCancel={() => {
-            setShowCommentForm(false);
-            setEditingComment(null);
-          }}
-          initialContent={editingComment?.content || ""}
-          submitButtonText={editingComment ? "Update Comment" : "Post Comment"}
+          onSave={handleCreateComment}
+          onCancel={() => setShowCommentForm(false)}
+          mentionCandidates={mentionCandidates}
+          onTyping={notifyTyping}
         />
       )}
 
+      <CommentTypingIndicator names={typingUsers} />
+
       {/* Tabs and controls */}
       {showAdvancedFeatures && (
         <div className="flex flex-col sm:flex-row items-center justify-between space-y-2 sm:space-y-0">
@@ -219,22 +212,21 @@ const CommentFeatureImplementation: React.FC<
       )}
 
       {/* Comment list */}
-      <CommentListWithPagination
-        comments={filteredComments}
-        onEdit={handleEditClick}
+      <CommentThreadList
+        threads={buildCommentThreads(filteredComments)}
+        onEdit={handleEditComment}
         onDelete={deleteComment}
         onReply={handleReply}
+        onReact={handleReact}
+        currentUserId={currentUserId}
+        mentionCandidates={mentionCandidates}
+        onTyping={notifyTyping}
       />
 
       {/* Notifications */}
       {showNotifications && (
         <div className="mt-6">
-          <CommentNotifications
-            notifications={[]} // In a real implementation, this would come from state
-            onMarkAsRead={() => {}}
-            onViewComment={() => {}}
-            onDismiss={() => {}}
-          />
+          <CommentNotificationIntegration />
         </div>
       )}
     </div>
@@ -4,15 +4,22 @@ import CommentDisplay from "./CommentDisplay";
 import CommentManagement from "./CommentManagement";
 import CommentEditor from "./CommentEditor";
 import { useCommentForm } from "../../hooks/useCommentForm";
+import { MentionCandidate } from "../../utils/commentContentUtils";
+import { AttachmentPanel } from "../attachments/AttachmentPanel";
 
 interface CommentItemWithActionsProps {
   comment: Comment;
   onEdit: (commentId: string, content: string) => Promise<void>;
   onDelete: (commentId: string) => void;
-  onReply: (comment: Comment) => void;
-  onLike: (commentId: string) => void;
-  onDislike: (commentId: string) => void;
+  onReply: (comment: Comment, content: string) => Promise<void>;
+  onReact: (commentId: string, emoji: string) => void;
   currentUserId?: string;
+  mentionCandidates?: MentionCandidate[];
+  onTyping?: () => void;
+  /**
+   * Replies, rendered below the comment
+   */
+  children?: React.ReactNode;
 }
 
 const CommentItemWithActions: React.FC<CommentItemWithActionsProps> = ({
@@ -20,15 +27,14 @@ const CommentItemWithActions: React.FC<CommentItemWithActionsProps> = ({
   onEdit,
   onDelete,
   onReply,
-  onLike,
-  onDislike,
+  onReact,
   currentUserId,
+  mentionCandidates = [],
+  onTyping,
+  children,
 }) => {
   const [isEditing, setIsEditing] = useState(false);
-  const [likes, setLikes] = useState(comment.likes || 0);
-  const [dislikes, setDislikes] = useState(comment.dislikes || 0);
-  const [userLiked, setUserLiked] = useState(false);
-  const [userDisliked, setUserDisliked] = useState(false);
+  const [isReplying, setIsReplying] = useState(false);
 
   const { validateComment } = useCommentForm();
 
@@ -39,36 +45,9 @@ const CommentItemWithActions: React.FC<CommentItemWithActionsProps> = ({
     }
   };
 
-  const handleLike = () => {
-    if (userLiked) {
-      setLikes(likes - 1);
-      setUserLiked(false);
-      onLike(comment.id);
-    } else {
-      setLikes(likes + 1);
-      setUserLiked(true);
-      if (userDisliked) {
-        setDislikes(dislikes - 1);
-        setUserDisliked(false);
-      }
-      onLike(comment.id);
-    }
-  };
-
-  const handleDislike = () => {
-    if (userDisliked) {
-      setDislikes(dislikes - 1);
-      setUserDisliked(false);
-      onDislike(comment.id);
-    } else {
-      setDislikes(dislikes + 1);
-      setUserDisliked(true);
-      if (userLiked) {
-        setLikes(likes - 1);
-        setUserLiked(false);
-      }
-      onDislike(comment.id);
-    }
+  const handleReply = async (content: string) => {
+    await onReply(comment, content);
+    setIsReplying(false);
   };
 
   return (
@@ -78,25 +57,52 @@ const CommentItemWithActions: React.FC<CommentItemWithActionsProps> = ({
           comment={comment}
           onSave={handleEdit}
           onCancel={() => setIsEditing(false)}
+          mentionCandidates={mentionCandidates}
+          onTyping={onTyping}
         />
       ) : (
         <>
-          <CommentDisplay comment={comment} />
+          <CommentDisplay
+            comment={comment}
+            mentionCandidates={mentionCandidates}
+          />
+
+          <AttachmentPanel
+            target={{ taskId: comment.taskId, commentId: comment.id }}
+            compact
+            className="mt-2"
+          />
 
           <CommentManagement
             comment={comment}
             onEdit={() => setIsEditing(true)}
             onDelete={() => onDelete(comment.id)}
-            onReply={() => onReply(comment)}
-            onLike={handleLike}
-            onDislike={handleDislike}
-            likes={likes}
-            dislikes={dislikes}
-            userLiked={userLiked}
-            userDisliked={userDisliked}
+            onReply={() => setIsReplying(true)}
+            onReact={(emoji) => onReact(comment.id, emoji)}
+            reactions={comment.reactions}
+            currentUserId={currentUserId}
           />
         </>
       )}
+
+      {isReplying && (
+        <div className="mt-3 ml-6">
+          <CommentEditor
+            onSave={handleReply}
+            onCancel={() => setIsReplying(false)}
+            mentionCandidates={mentionCandidates}
+            placeholder="Write a reply..."
+            submitLabel="Reply"
+            onTyping={onTyping}
+          />
+        </div>
+      )}
+
+      {children && (
+        <div className="mt-3 ml-6 pl-4 border-l border-gray-200">
+          {children}
+        </div>
+      )}
     </div>
   );
 };
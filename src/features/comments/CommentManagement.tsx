@@ -7,26 +7,21 @@ import {
   DropdownMenuItem,
   DropdownMenuTrigger,
 } from "../../components/ui/dropdown-menu";
+import { MoreHorizontal, Edit2, Trash2, Reply, SmilePlus } from "lucide-react";
 import {
-  MoreHorizontal,
-  Edit2,
-  Trash2,
-  Reply,
-  ThumbsUp,
-  ThumbsDown,
-} from "lucide-react";
+  COMMENT_REACTIONS,
+  CommentReactions,
+  hasReacted,
+} from "../../utils/commentThreadUtils";
 
 interface CommentManagementProps {
   comment: Comment;
   onEdit: () => void;
   onDelete: () => void;
   onReply: () => void;
-  onLike: () => void;
-  onDislike: () => void;
-  likes?: number;
-  dislikes?: number;
-  userLiked?: boolean;
-  userDisliked?: boolean;
+  onReact: (emoji: string) => void;
+  reactions?: CommentReactions;
+  currentUserId?: string;
 }
 
 const CommentManagement: React.FC<CommentManagementProps> = ({
@@ -34,31 +29,55 @@ const CommentManagement: React.FC<CommentManagementProps> = ({
   onEdit,
   onDelete,
   onReply,
-  onLike,
-  onDislike,
-  likes = 0,
-  dislikes = 0,
-  userLiked = false,
-  userDisliked = false,
+  onReact,
+  reactions = {},
+  currentUserId = "",
 }) => {
+  const [showPicker, setShowPicker] = useState(false);
+
   return (
-    <div className="flex items-center space-x-4 text-xs text-gray-500 mt-2">
-      <button
-        onClick={onLike}
-        className={`flex items-center space-x-1 hover:text-blue-600 ${userLiked ? "text-blue-600" : ""}`}
-        title="Like this comment"
-      >
-        <ThumbsUp className="w-3 h-3" />
-        <span>{likes}</span>
-      </button>
-      <button
-        onClick={onDislike}
-        className={`flex items-center space-x-1 hover:text-red-600 ${userDisliked ? "text-red-600" : ""}`}
-        title="Dislike this comment"
-      >
-        <ThumbsDown className="w-3 h-3" />
-        <span>{dislikes}</span>
-      </button>
+    <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-xs text-gray-500 mt-2">
+      {Object.entries(reactions).map(([emoji, userIds]) => {
+        const reacted = hasReacted(reactions, emoji, currentUserId);
+        return (
+          <button
+            key={emoji}
+            onClick={() => onReact(emoji)}
+            aria-pressed={reacted}
+            className={`flex items-center space-x-1 px-1.5 py-0.5 border rounded-full ${reacted ? "border-blue-300 bg-blue-50 text-blue-700" : "border-gray-200 hover:bg-gray-50"}`}
+            title={reacted ? "Remove your reaction" : "React"}
+          >
+            <span>{emoji}</span>
+            <span>{userIds.length}</span>
+          </button>
+        );
+      })}
+      <div className="relative">
+        <button
+          onClick={() => setShowPicker(!showPicker)}
+          className="flex items-center hover:text-gray-700"
+          title="Add reaction"
+          aria-expanded={showPicker}
+        >
+          <SmilePlus className="w-3 h-3" />
+        </button>
+        {showPicker && (
+          <div className="absolute left-0 z-10 flex mt-1 p-1 space-x-1 bg-white border border-gray-200 rounded-md shadow-lg">
+            {COMMENT_REACTIONS.map((emoji) => (
+              <button
+                key={emoji}
+                onClick={() => {
+                  onReact(emoji);
+                  setShowPicker(false);
+                }}
+                className="px-1 text-base rounded hover:bg-gray-100"
+              >
+                {emoji}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
       <button
         onClick={onReply}
         className="flex items-center space-x-1 hover:text-gray-700"
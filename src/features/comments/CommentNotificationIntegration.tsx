@@ -9,6 +9,7 @@ const CommentNotificationIntegration: React.FC = () => {
     dismissNotification,
     markAllNotificationsAsRead,
   } = useCommentStore();
+  const currentUserId = localStorage.getItem("userId") || "anonymous";
 
   const handleViewComment = (commentId: string) => {
     // In a real implementation, this would navigate to the task with the comment
@@ -17,7 +18,9 @@ const CommentNotificationIntegration: React.FC = () => {
 
   return (
     <CommentNotifications
-      notifications={notifications}
+      notifications={notifications.filter(
+        (notification) => notification.userId === currentUserId,
+      )}
       onMarkAsRead={markNotificationAsRead}
       onViewComment={handleViewComment}
       onDismiss={dismissNotification}
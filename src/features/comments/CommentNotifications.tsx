@@ -3,6 +3,7 @@ import { Comment } from "../../types/common";
 import { Bell, MessageSquare, AlertCircle } from "lucide-react";
 import { Button } from "../../components/ui/button";
 import { Badge } from "../../components/ui/badge";
+import { getCommentPlainText } from "../../utils/commentContentUtils";
 
 interface CommentNotification {
   id: string;
@@ -105,10 +106,7 @@ const CommentNotifications: React.FC<CommentNotificationsProps> = ({
 
                         {notification.comment && (
                           <p className="text-xs text-gray-500 mt-1 truncate">
-                            {notification.comment.content.substring(0, 50)}
-                            {notification.comment.content.length > 50
-                              ? "..."
-                              : ""}
+                            {getExcerpt(notification.comment.content)}
                           </p>
                         )}
                       </div>
@@ -161,6 +159,11 @@ const CommentNotifications: React.FC<CommentNotificationsProps> = ({
   );
 };
 
+function getExcerpt(content: string): string {
+  const text = getCommentPlainText(content);
+  return text.length > 50 ? `${text.substring(0, 50)}...` : text;
+}
+
 function getNotificationMessage(notification: CommentNotification): string {
   switch (notification.type) {
     case "mention":
@@ -0,0 +1,45 @@
+import React from "react";
+import { Comment } from "../../types/common";
+import { CommentThread } from "../../utils/commentThreadUtils";
+import { MentionCandidate } from "../../utils/commentContentUtils";
+import CommentItemWithActions from "./CommentItemWithActions";
+
+interface CommentThreadListProps {
+  threads: CommentThread<Comment>[];
+  onEdit: (commentId: string, content: string) => Promise<void>;
+  onDelete: (commentId: string) => void;
+  onReply: (comment: Comment, content: string) => Promise<void>;
+  onReact: (commentId: string, emoji: string) => void;
+  currentUserId?: string;
+  mentionCandidates?: MentionCandidate[];
+  onTyping?: () => void;
+}
+
+/**
+ * Comments with their replies nested below them
+ */
+const CommentThreadList: React.FC<CommentThreadListProps> = ({
+  threads,
+  ...itemProps
+}) => {
+  if (threads.length === 0) {
+    return (
+      <div className="text-center py-4 text-gray-500">No comments yet</div>
+    );
+  }
+
+  const renderThread = (thread: CommentThread<Comment>) => (
+    <CommentItemWithActions
+      key={thread.comment.id}
+      comment={thread.comment}
+      {...itemProps}
+    >
+      {thread.replies.length > 0 && thread.replies.map(renderThread)}
+    </CommentItemWithActions>
+  );
+
+  return <div className="space-y-4">{threads.map(renderThread)}</div>;
+};
+
+export { CommentThreadList };
+export default CommentThreadList;
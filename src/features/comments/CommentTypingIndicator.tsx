@@ -0,0 +1,24 @@
+import React from "react";
+import { formatTypingMessage } from "../../utils/realtimeUtils";
+
+interface CommentTypingIndicatorProps {
+  names: string[];
+}
+
+/**
+ * Shows who else is writing a comment on the task
+ */
+const CommentTypingIndicator: React.FC<CommentTypingIndicatorProps> = ({
+  names,
+}) => {
+  if (names.length === 0) return null;
+
+  return (
+    <p className="text-xs italic text-gray-500" aria-live="polite">
+      {formatTypingMessage(names)}
+    </p>
+  );
+};
+
+export { CommentTypingIndicator };
+export default CommentTypingIndicator;
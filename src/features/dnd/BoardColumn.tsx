@@ -1,12 +1,24 @@
 import React from "react";
 import { DroppableContainer } from "./DroppableContainer";
+import { Task } from "../../types/task";
+import { BoardViewService } from "../../services/boardViewService";
 
 interface BoardColumnProps {
   columnId: string;
   title: string;
   children: React.ReactNode;
   className?: string;
-  onDrop?: (columnId: string) => void;
+  onDrop?: (columnId: string, task: Task) => void;
+
+  /**
+   * Number of cards; counts the children when omitted
+   */
+  count?: number;
+  wipLimit?: number;
+  collapsed?: boolean;
+  onToggleCollapsed?: () => void;
+  onMove?: (offset: -1 | 1) => void;
+  onWipLimitChange?: (limit: number | null) => void;
 }
 
 export const BoardColumn: React.FC<BoardColumnProps> = ({
@@ -15,18 +27,99 @@ export const BoardColumn: React.FC<BoardColumnProps> = ({
   children,
   className = "",
   onDrop,
+  count = React.Children.count(children),
+  wipLimit,
+  collapsed = false,
+  onToggleCollapsed,
+  onMove,
+  onWipLimitChange,
 }) => {
+  const overLimit = BoardViewService.isOverWipLimit(count, wipLimit);
+
+  const handleWipLimit = () => {
+    const input = window.prompt(
+      `Work in progress limit for "${title}" (empty for none)`,
+      wipLimit ? String(wipLimit) : "",
+    );
+    if (input === null) return;
+    const limit = parseInt(input, 10);
+    onWipLimitChange?.(isNaN(limit) ? null : limit);
+  };
+
+  if (collapsed) {
+    return (
+      <DroppableContainer
+        id={`column-${columnId}`}
+        className={`board-column ${className} bg-gray-50 rounded-lg p-2 w-10 flex-shrink-0`}
+        onDrop={(_id, task) => onDrop?.(columnId, task)}
+      >
+        <button
+          onClick={onToggleCollapsed}
+          className="w-full text-xs text-gray-600 [writing-mode:vertical-rl]"
+          title={`Expand ${title}`}
+        >
+          {title} ({count})
+        </button>
+      </DroppableContainer>
+    );
+  }
+
   return (
     <DroppableContainer
       id={`column-${columnId}`}
-      className={`board-column ${className} bg-gray-50 rounded-lg p-4 min-w-[250px]`}
-      onDrop={() => onDrop?.(columnId)}
+      className={`board-column ${className} rounded-lg p-4 min-w-[250px] ${
+        overLimit ? "bg-red-50 border border-red-300" : "bg-gray-50"
+      }`}
+      onDrop={(_id, task) => onDrop?.(columnId, task)}
     >
       <div className="flex justify-between items-center mb-4">
-        <h3 className="font-semibold text-gray-800">{title}</h3>
-        <span className="text-sm text-gray-500">
-          {React.Children.count(children)} tasks
-        </span>
+        <div className="flex items-center space-x-1">
+          {onToggleCollapsed && (
+            <button
+              onClick={onToggleCollapsed}
+              className="text-gray-400 hover:text-gray-600 text-xs"
+              title="Collapse column"
+            >
+              ▾
+            </button>
+          )}
+          <h3 className="font-semibold text-gray-800">{title}</h3>
+        </div>
+        <div className="flex items-center space-x-1">
+          <span
+            className={`text-sm ${overLimit ? "text-red-600 font-medium" : "text-gray-500"}`}
+            title={overLimit ? "Work in progress limit exceeded" : undefined}
+          >
+            {wipLimit ? `${count}/${wipLimit}` : `${count} tasks`}
+          </span>
+          {onWipLimitChange && (
+            <button
+              onClick={handleWipLimit}
+              className="px-1 text-gray-400 hover:text-gray-600 text-xs"
+              title="Set work in progress limit"
+            >
+              WIP
+            </button>
+          )}
+          {onMove && (
+            <>
+              <button
+                onClick={() => onMove(-1)}
+                className="px-1 text-gray-400 hover:text-gray-600"
+                title="Move column left"
+              >
+                ‹
+              </button>
+              <button
+                onClick={() => onMove(1)}
+                className="px-1 text-gray-400 hover:text-gray-600"
+                title="Move column right"
+              >
+                ›
+              </button>
+            </>
+          )}
+        </div>
       </div>
       <div className="space-y-2">{children}</div>
     </DroppableContainer>
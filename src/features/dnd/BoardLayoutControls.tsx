@@ -0,0 +1,113 @@
+import React, { useState } from "react";
+import { BoardGroupBy, BoardGrouping } from "../../types/ui";
+
+interface BoardLayoutControlsProps {
+  groupBy: BoardGroupBy;
+  customField?: string;
+  onGroupByChange: (groupBy: BoardGroupBy, customField?: string) => void;
+  swimlanes?: BoardGrouping | null;
+  onSwimlanesChange?: (swimlanes: BoardGrouping | null) => void;
+}
+
+const groupByOptions: { value: BoardGroupBy; label: string }[] = [
+  { value: "status", label: "Status" },
+  { value: "section", label: "Section" },
+  { value: "priority", label: "Priority" },
+  { value: "assignee", label: "Assignee" },
+  { value: "label", label: "Label" },
+  { value: "project", label: "Project" },
+  { value: "custom", label: "Custom field" },
+];
+
+export const BoardLayoutControls: React.FC<BoardLayoutControlsProps> = ({
+  groupBy,
+  customField,
+  onGroupByChange,
+  swimlanes,
+  onSwimlanesChange,
+}) => {
+  const [fieldName, setFieldName] = useState(customField || "");
+  const [laneFieldName, setLaneFieldName] = useState(
+    swimlanes?.customField || "",
+  );
+
+  return (
+    <div className="flex items-center space-x-2">
+      <label htmlFor="board-group-by" className="text-sm text-gray-600">
+        Columns by
+      </label>
+      <select
+        id="board-group-by"
+        value={groupBy}
+        onChange={(e) =>
+          onGroupByChange(e.target.value as BoardGroupBy, fieldName)
+        }
+        className="px-2 py-1 text-sm border border-gray-300 rounded"
+      >
+        {groupByOptions.map((option) => (
+          <option key={option.value} value={option.value}>
+            {option.label}
+          </option>
+        ))}
+      </select>
+      {groupBy === "custom" && (
+        <input
+          value={fieldName}
+          onChange={(e) => setFieldName(e.target.value)}
+          onBlur={() => {
+            if (fieldName.trim() !== (customField || "")) {
+              onGroupByChange("custom", fieldName.trim());
+            }
+          }}
+          placeholder="Field name"
+          className="px-2 py-1 text-sm border border-gray-300 rounded w-32"
+        />
+      )}
+      {onSwimlanesChange && (
+        <>
+          <label htmlFor="board-lanes-by" className="text-sm text-gray-600">
+            Lanes by
+          </label>
+          <select
+            id="board-lanes-by"
+            value={swimlanes?.groupBy || ""}
+            onChange={(e) =>
+              onSwimlanesChange(
+                e.target.value
+                  ? {
+                      groupBy: e.target.value as BoardGroupBy,
+                      customField: laneFieldName,
+                    }
+                  : null,
+              )
+            }
+            className="px-2 py-1 text-sm border border-gray-300 rounded"
+          >
+            <option value="">None</option>
+            {groupByOptions.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
+          {swimlanes?.groupBy === "custom" && (
+            <input
+              value={laneFieldName}
+              onChange={(e) => setLaneFieldName(e.target.value)}
+              onBlur={() => {
+                if (laneFieldName.trim() !== (swimlanes.customField || "")) {
+                  onSwimlanesChange({
+                    groupBy: "custom",
+                    customField: laneFieldName.trim(),
+                  });
+                }
+              }}
+              placeholder="Field name"
+              className="px-2 py-1 text-sm border border-gray-300 rounded w-32"
+            />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
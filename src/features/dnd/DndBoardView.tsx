@@ -1,4 +1,4 @@
-import React from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import { Task } from "../../types/task";
 import { ViewHeader } from "../views/ViewHeader";
 import { ViewToolbar } from "../views/ViewToolbar";
@@ -6,12 +6,25 @@ import { ViewFilterControls } from "../views/ViewFilterControls";
 import { ViewSortControls } from "../views/ViewSortControls";
 import { DraggableTaskItem } from "./DraggableTaskItem";
 import { BoardColumn } from "./BoardColumn";
+import { BoardLayoutControls } from "./BoardLayoutControls";
 import { DragAndDropProvider } from "./DragAndDropProvider";
 import { DragPreview } from "./DragPreview";
+import { PresenceAvatars } from "../collaboration/PresenceAvatars";
+import { useBoardLayout } from "../../hooks/useBoardLayout";
+import { useUsers } from "../../hooks/useUsers";
+import { useLabels } from "../../hooks/useLabels";
+import { useProjects } from "../../hooks/useProjects";
+import { projectApi } from "../../api/projectApi";
+import { BoardCell, BoardViewService } from "../../services/boardViewService";
+import { dndService } from "../../services/dndService";
 
 interface DndBoardViewProps {
   tasks: Task[];
-  columns?: string[];
+
+  /**
+   * Project whose board layout and sections are used
+   */
+  projectId?: string | null;
   onTaskClick?: (task: Task) => void;
   onTaskToggleCompletion?: (taskId: string) => Promise<void>;
   onTaskDelete?: (taskId: string) => Promise<void>;
@@ -19,64 +32,260 @@ interface DndBoardViewProps {
 
 export const DndBoardView: React.FC<DndBoardViewProps> = ({
   tasks,
-  columns = ["To Do", "In Progress", "Done"],
+  projectId,
   onTaskClick,
   onTaskToggleCompletion,
   onTaskDelete,
 }) => {
-  // Group tasks by status for board columns
-  const groupedTasks = columns.reduce(
-    (acc, column) => {
-      const statusKey = column
-        .toLowerCase()
-        .replace(" ", "_") as Task["status"];
-      acc[column] = tasks.filter((task) => task.status === statusKey);
-      return acc;
-    },
-    {} as Record<string, Task[]>,
+  const {
+    layout,
+    setGroupBy,
+    setSwimlanes,
+    moveColumn,
+    toggleColumnCollapsed,
+    toggleLaneCollapsed,
+    setWipLimit,
+  } = useBoardLayout(projectId);
+  const { users } = useUsers();
+  const { labels } = useLabels();
+  const { projects } = useProjects();
+  const [sections, setSections] = useState<{ id: string; name: string }[]>([]);
+  const dragFrom = useRef<BoardCell | null>(null);
+  const swimlanes = layout.swimlanes || null;
+  const usesSections =
+    layout.groupBy === "section" || swimlanes?.groupBy === "section";
+
+  useEffect(() => {
+    if (!usesSections || !projectId) return;
+
+    projectApi
+      .getSections(projectId)
+      .then((response) => setSections(response.data || []))
+      .catch((error) => console.error("Failed to load sections:", error));
+  }, [usesSections, projectId]);
+
+  const groupOptions = useMemo(
+    () => ({ sections, users, labels, projects }),
+    [sections, users, labels, projects],
+  );
+  const columns = useMemo(
+    () => BoardViewService.getBoardColumns(tasks, layout, groupOptions),
+    [tasks, layout, groupOptions],
+  );
+  const groupedTasks = useMemo(
+    () => BoardViewService.groupTasksByColumn(tasks, layout),
+    [tasks, layout],
+  );
+  const columnIds = columns.map((column) => column.id);
+
+  // Lanes always offer a "no value" lane so cards can be moved out of one
+  const lanes = useMemo(
+    () =>
+      swimlanes
+        ? BoardViewService.getBoardColumns(tasks, swimlanes, groupOptions, true)
+        : [],
+    [tasks, swimlanes, groupOptions],
+  );
+  const laneTasks = useMemo(
+    () =>
+      swimlanes ? BoardViewService.groupTasksByColumn(tasks, swimlanes) : {},
+    [tasks, swimlanes],
+  );
+  const laneCells = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(laneTasks).map(([laneId, tasksInLane]) => [
+          laneId,
+          BoardViewService.groupTasksByColumn(tasksInLane, layout),
+        ]),
+      ),
+    [laneTasks, layout],
   );
 
-  const handleColumnDrop = (columnId: string) => {
-    console.log(`Task dropped in column: ${columnId}`);
+  const handleDrop = (to: BoardCell, task: Task) => {
+    const from = dragFrom.current;
+    dragFrom.current = null;
+    if (!from) return;
+
+    dndService
+      .moveTaskToCell(task, layout, from, to)
+      .catch((error) => console.error("Failed to move task:", error));
   };
 
+  const renderCards = (cardTasks: Task[], cell: BoardCell) =>
+    cardTasks.length === 0 ? (
+      <div className="empty-column text-gray-400 text-sm">
+        No tasks in this column
+      </div>
+    ) : (
+      cardTasks.map((task) => (
+        <div
+          key={task.id}
+          onDragStart={() => {
+            dragFrom.current = cell;
+          }}
+        >
+          <DraggableTaskItem
+            task={task}
+            onToggleCompletion={onTaskToggleCompletion}
+            onDelete={onTaskDelete}
+            onClick={onTaskClick}
+            source="board"
+          />
+        </div>
+      ))
+    );
+
   return (
     <DragAndDropProvider>
       <div className="dnd-board-view">
-        <ViewHeader title="Board View" />
-        <ViewToolbar>
+        <ViewHeader
+          title="Board View"
+          actions={
+            projectId ? <PresenceAvatars projectId={projectId} /> : undefined
+          }
+        />
+        <ViewToolbar
+          leftActions={
+            <BoardLayoutControls
+              groupBy={layout.groupBy}
+              customField={layout.customField}
+              onGroupByChange={setGroupBy}
+              swimlanes={swimlanes}
+              onSwimlanesChange={setSwimlanes}
+            />
+          }
+        >
           <ViewFilterControls />
           <ViewSortControls />
         </ViewToolbar>
 
         <div className="dnd-board-view-content">
-          <div className="dnd-board-columns flex space-x-4 overflow-x-auto pb-4">
-            {columns.map((column) => (
-              <BoardColumn
-                key={column}
-                columnId={column.toLowerCase().replace(" ", "-")}
-                title={column}
-                onDrop={handleColumnDrop}
-              >
-                {groupedTasks[column].length === 0 ? (
-                  <div className="empty-column text-gray-400 text-sm">
-                    No tasks in this column
+          {swimlanes ? (
+            <div className="dnd-board-lanes overflow-x-auto pb-4">
+              <div className="flex space-x-4 mb-2">
+                {columns.map((column) => {
+                  const count = (groupedTasks[column.id] || []).length;
+                  const wipLimit = layout.wipLimits[column.id];
+                  const overLimit = BoardViewService.isOverWipLimit(
+                    count,
+                    wipLimit,
+                  );
+                  const collapsed = layout.collapsedColumns.includes(column.id);
+
+                  return (
+                    <button
+                      key={column.id}
+                      onClick={() => toggleColumnCollapsed(column.id)}
+                      className={`flex-shrink-0 flex justify-between px-4 py-2 rounded text-sm ${
+                        collapsed ? "w-10" : "min-w-[250px]"
+                      } ${
+                        overLimit
+                          ? "bg-red-50 text-red-600 font-medium"
+                          : "bg-gray-100 text-gray-700"
+                      }`}
+                      title={
+                        overLimit
+                          ? "Work in progress limit exceeded"
+                          : collapsed
+                            ? `Expand ${column.title}`
+                            : `Collapse ${column.title}`
+                      }
+                    >
+                      {collapsed ? (
+                        count
+                      ) : (
+                        <>
+                          <span className="font-semibold">{column.title}</span>
+                          <span>
+                            {wipLimit ? `${count}/${wipLimit}` : count}
+                          </span>
+                        </>
+                      )}
+                    </button>
+                  );
+                })}
+              </div>
+
+              {lanes.map((lane) => {
+                const cells = laneCells[lane.id] || {};
+                const laneCount = (laneTasks[lane.id] || []).length;
+                const laneCollapsed = (layout.collapsedLanes || []).includes(
+                  lane.id,
+                );
+
+                return (
+                  <div key={lane.id} className="dnd-board-lane mb-4">
+                    <button
+                      onClick={() => toggleLaneCollapsed(lane.id)}
+                      className="flex items-center space-x-2 mb-2 text-sm text-gray-700"
+                    >
+                      <span className="text-gray-400 text-xs">
+                        {laneCollapsed ? "▸" : "▾"}
+                      </span>
+                      <span className="font-semibold">{lane.title}</span>
+                      <span className="text-gray-500">{laneCount}</span>
+                    </button>
+                    {!laneCollapsed && (
+                      <div className="flex space-x-4">
+                        {columns.map((column) => {
+                          const cellTasks = cells[column.id] || [];
+                          const cell = {
+                            columnId: column.id,
+                            laneId: lane.id,
+                          };
+
+                          return (
+                            <BoardColumn
+                              key={column.id}
+                              columnId={`${lane.id}-${column.id}`}
+                              title={column.title}
+                              count={cellTasks.length}
+                              collapsed={layout.collapsedColumns.includes(
+                                column.id,
+                              )}
+                              onToggleCollapsed={() =>
+                                toggleColumnCollapsed(column.id)
+                              }
+                              onDrop={(_cellId, task) => handleDrop(cell, task)}
+                            >
+                              {renderCards(cellTasks, cell)}
+                            </BoardColumn>
+                          );
+                        })}
+                      </div>
+                    )}
                   </div>
-                ) : (
-                  groupedTasks[column].map((task) => (
-                    <DraggableTaskItem
-                      key={task.id}
-                      task={task}
-                      onToggleCompletion={onTaskToggleCompletion}
-                      onDelete={onTaskDelete}
-                      onClick={onTaskClick}
-                      source="board"
-                    />
-                  ))
-                )}
-              </BoardColumn>
-            ))}
-          </div>
+                );
+              })}
+            </div>
+          ) : (
+            <div className="dnd-board-columns flex space-x-4 overflow-x-auto pb-4">
+              {columns.map((column) => {
+                const columnTasks = groupedTasks[column.id] || [];
+                const cell = { columnId: column.id };
+
+                return (
+                  <BoardColumn
+                    key={column.id}
+                    columnId={column.id}
+                    title={column.title}
+                    count={columnTasks.length}
+                    wipLimit={layout.wipLimits[column.id]}
+                    collapsed={layout.collapsedColumns.includes(column.id)}
+                    onToggleCollapsed={() => toggleColumnCollapsed(column.id)}
+                    onMove={(offset) =>
+                      moveColumn(columnIds, column.id, offset)
+                    }
+                    onWipLimitChange={(limit) => setWipLimit(column.id, limit)}
+                    onDrop={(_columnId, task) => handleDrop(cell, task)}
+                  >
+                    {renderCards(columnTasks, cell)}
+                  </BoardColumn>
+                );
+              })}
+            </div>
+          )}
         </div>
 
         <DragPreview />
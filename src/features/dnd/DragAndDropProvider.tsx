@@ -7,6 +7,7 @@ import React, {
 } from "react";
 import { useTaskStore } from "../../store/useTaskStore";
 import { Task } from "../../types/task";
+import { historyService } from "../../services/historyService";
 
 interface DragAndDropContextType {
   draggedTask: Task | null;
@@ -29,7 +30,7 @@ export const DragAndDropProvider: React.FC<{ children: ReactNode }> = ({
   const [draggedTask, setDraggedTask] = useState<Task | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragSource, setDragSource] = useState<string | null>(null);
-  const { moveTask, reorderTask } = useTaskStore();
+  const { tasks, reorderTask, updateTask } = useTaskStore();
 
   const handleDragStart = useCallback((task: Task, source: string) => {
     setDraggedTask(task);
@@ -47,17 +48,33 @@ export const DragAndDropProvider: React.FC<{ children: ReactNode }> = ({
     (targetId: string, position: "before" | "after" = "after") => {
       if (!draggedTask) return;
 
+      // Board drops are handled by the column, which knows the grouped field
       if (dragSource === "task-list" && targetId.startsWith("task-")) {
         const targetTaskId = targetId.replace("task-", "");
-        reorderTask(draggedTask.id, targetTaskId, position);
-      } else if (dragSource === "board" && targetId.startsWith("column-")) {
-        const columnId = targetId.replace("column-", "");
-        moveTask(draggedTask.id, columnId);
+        const targetTask = tasks.find((task) => task.id === targetTaskId);
+
+        // Dropping next to a task in another section moves it there too,
+        // which undoes as one step
+        historyService.group(
+          "Move task",
+          () => {
+            if (
+              targetTask &&
+              (targetTask.sectionId || null) !== (draggedTask.sectionId || null)
+            ) {
+              updateTask(draggedTask.id, {
+                sectionId: targetTask.sectionId || null,
+              });
+            }
+            reorderTask(draggedTask.id, targetTaskId, position);
+          },
+          { toast: true },
+        );
       }
 
       handleDragEnd();
     },
-    [draggedTask, dragSource, reorderTask, moveTask, handleDragEnd],
+    [draggedTask, dragSource, tasks, reorderTask, updateTask, handleDragEnd],
   );
 
   return (
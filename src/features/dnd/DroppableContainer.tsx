@@ -1,11 +1,12 @@
 import React, { useRef, useEffect } from "react";
 import { useDragAndDrop } from "./DragAndDropProvider";
+import { Task } from "../../types/task";
 
 interface DroppableContainerProps {
   id: string;
   children: React.ReactNode;
   className?: string;
-  onDrop?: (id: string) => void;
+  onDrop?: (id: string, task: Task) => void;
   dropPosition?: "before" | "after";
 }
 
@@ -40,7 +41,7 @@ export const DroppableContainer: React.FC<DroppableContainerProps> = ({
 
       if (draggedTask && isDragging) {
         handleDrop(id, dropPosition);
-        onDrop?.(id);
+        onDrop?.(id, draggedTask);
       }
     };
 
@@ -5,6 +5,7 @@ export { DragPreview } from "./DragPreview";
 export { DraggableTaskItem } from "./DraggableTaskItem";
 export { DroppableTaskList } from "./DroppableTaskList";
 export { BoardColumn } from "./BoardColumn";
+export { BoardLayoutControls } from "./BoardLayoutControls";
 export { DndListView } from "./DndListView";
 export { DndBoardView } from "./DndBoardView";
 export { DndFeatureDemo } from "./DndFeatureDemo";
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import React, { useState, useEffect } from "react";
 import { Filter } from "../../types/models";
+import { FilterUtils } from "../../utils/filterUtils";
 
 interface FilterFormProps {
   filter?: Filter;
@@ -16,22 +17,32 @@ const FilterForm: React.FC<FilterFormProps> = ({
   const [name, setName] = useState(filter?.name || "");
   const [color, setColor] = useState(filter?.color || "#4F46E5");
   const [criteria, setCriteria] = useState(filter?.criteria || {});
+  const [query, setQuery] = useState(filter?.query || "");
 
   useEffect(() => {
     if (filter) {
       setName(filter.name);
       setColor(filter.color || "#4F46E5");
       setCriteria(filter.criteria || {});
+      setQuery(filter.query || "");
     }
   }, [filter]);
 
+  const queryResult = query.trim() ? FilterUtils.validateQuery(query) : null;
+  const queryError =
+    queryResult && !queryResult.success ? queryResult.error : null;
+
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (queryError) {
+      return;
+    }
     const newFilter: Filter = {
       id: filter?.id || crypto.randomUUID(),
       name,
       color,
       criteria,
+      query: query.trim(),
       createdAt: filter?.createdAt || new Date().toISOString(),
       updatedAt: new Date().toISOString(),
     };
@@ -65,6 +76,44 @@ const FilterForm: React.FC<FilterFormProps> = ({
         />
       </div>
 
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">
+          Query
+        </label>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="(today | overdue) & #Work & p1"
+          className={`w-full px-3 py-2 border rounded-md font-mono focus:outline-none focus:ring-2 ${
+            queryError
+              ? "border-red-400 focus:ring-red-500"
+              : "border-gray-300 focus:ring-blue-500"
+          }`}
+          aria-invalid={!!queryError}
+          aria-describedby="filter-query-help"
+        />
+        {queryError ? (
+          <div id="filter-query-help" className="mt-1 text-sm text-red-600">
+            <p>
+              {queryError.message} (at character {queryError.start + 1})
+            </p>
+            <p className="font-mono whitespace-pre">
+              {query.slice(0, queryError.start)}
+              <mark className="bg-red-200">
+                {query.slice(queryError.start, queryError.end) || " "}
+              </mark>
+              {query.slice(queryError.end)}
+            </p>
+          </div>
+        ) : (
+          <p id="filter-query-help" className="mt-1 text-sm text-gray-500">
+            Combine terms like today, overdue, p1, #project, @label, /section,
+            due before: +7d and assigned to: me with &amp;, | and !
+          </p>
+        )}
+      </div>
+
       <div className="flex justify-end space-x-3">
         <button
           type="button"
@@ -75,6 +124,7 @@ const FilterForm: React.FC<FilterFormProps> = ({
         </button>
         <button
           type="submit"
+          disabled={!!queryError}
           className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700"
         >
           {filter ? "Update Filter" : "Create Filter"}
@@ -0,0 +1,64 @@
+import React, { useEffect } from "react";
+import { useHistoryStore } from "../../store/useHistoryStore";
+import { NotificationItem } from "../../types/ui";
+
+const UndoToast: React.FC<{
+  toast: NotificationItem;
+  onDismiss: (id: string) => void;
+}> = ({ toast, onDismiss }) => {
+  useEffect(() => {
+    if (!toast.duration) return;
+
+    const timeout = window.setTimeout(
+      () => onDismiss(toast.id),
+      toast.duration,
+    );
+    return () => window.clearTimeout(timeout);
+  }, [toast.id, toast.duration, onDismiss]);
+
+  return (
+    <div
+      role="status"
+      className="flex items-center space-x-4 px-4 py-3 bg-gray-900 text-white text-sm rounded shadow-lg"
+    >
+      <span>{toast.title}</span>
+      {toast.action && (
+        <button
+          onClick={() => {
+            toast.action!.onClick();
+            onDismiss(toast.id);
+          }}
+          className="font-semibold text-blue-300 hover:text-blue-200"
+        >
+          {toast.action.label}
+        </button>
+      )}
+      {toast.dismissible && (
+        <button
+          onClick={() => onDismiss(toast.id)}
+          className="text-gray-400 hover:text-gray-200"
+          aria-label="Dismiss"
+        >
+          ×
+        </button>
+      )}
+    </div>
+  );
+};
+
+/**
+ * Toasts offering to undo the latest delete, completion or move
+ */
+export const UndoToasts: React.FC = () => {
+  const { toasts, dismissToast } = useHistoryStore();
+
+  if (toasts.length === 0) return null;
+
+  return (
+    <div className="fixed bottom-4 left-1/2 -translate-x-1/2 z-50 space-y-2">
+      {toasts.map((toast) => (
+        <UndoToast key={toast.id} toast={toast} onDismiss={dismissToast} />
+      ))}
+    </div>
+  );
+};
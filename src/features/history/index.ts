@@ -0,0 +1 @@
+export { UndoToasts } from "./UndoToasts";
@@ -1,6 +1,33 @@
 import React, { useEffect, useCallback } from "react";
 import { useKeyboardShortcuts } from "../../hooks/useKeyboardShortcuts";
 import { KeyboardShortcut } from "../../types/keyboard";
+import keyboardService from "../../services/keyboardService";
+import { historyService } from "../../services/historyService";
+
+const historyShortcuts: KeyboardShortcut[] = [
+  {
+    key: "z",
+    modifiers: ["ctrl"],
+    description: "Undo",
+    category: "Editing",
+    action: () => {
+      historyService
+        .undo()
+        .catch((error) => console.error("Failed to undo:", error));
+    },
+  },
+  {
+    key: "z",
+    modifiers: ["ctrl", "shift"],
+    description: "Redo",
+    category: "Editing",
+    action: () => {
+      historyService
+        .redo()
+        .catch((error) => console.error("Failed to redo:", error));
+    },
+  },
+];
 
 interface KeyboardShortcutsProps {
   children: React.ReactNode;
@@ -24,12 +51,25 @@ export const KeyboardShortcuts: React.FC<KeyboardShortcutsProps> = ({
         return;
       }
 
-      // Find and execute matching shortcuts
-      executeShortcut(event);
+      // Find and execute matching shortcuts, then the app-wide ones
+      if (!executeShortcut(event)) {
+        keyboardService.executeShortcut(event);
+      }
     },
     [executeShortcut],
   );
 
+  useEffect(() => {
+    historyShortcuts.forEach((shortcut) =>
+      keyboardService.registerShortcut(shortcut),
+    );
+    return () => {
+      historyShortcuts.forEach(({ key, modifiers }) =>
+        keyboardService.unregisterShortcut(key, modifiers),
+      );
+    };
+  }, []);
+
   useEffect(() => {
     window.addEventListener("keydown", handleKeyDown);
     return () => {
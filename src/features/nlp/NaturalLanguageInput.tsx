@@ -1,23 +1,42 @@
 // @ts-nocheck
 import React, { useState, useCallback } from "react";
 import { useNlpParser } from "../../hooks/useNlpParser";
-import { Button, Input, Box, Text } from "@chakra-ui/react";
+import { useQuickAdd } from "../../hooks/useQuickAdd";
+import { ENTITY_COLORS } from "./NaturalLanguagePreview";
+import {
+  Button,
+  Input,
+  Box,
+  Text,
+  Tag,
+  TagLabel,
+  TagCloseButton,
+  Wrap,
+  WrapItem,
+  List,
+  ListItem,
+} from "@chakra-ui/react";
 
 interface NaturalLanguageInputProps {
   onParseComplete: (parsedData: any) => void;
   placeholder?: string;
   inputValue?: string;
+  locale?: string;
 }
 
+const TAG_SIGILS = { project: "#", label: "@", assignee: "+" };
+
 export const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
   onParseComplete,
   placeholder = "Type your task in natural language...",
   inputValue = "",
+  locale,
 }) => {
-  const [inputText, setInputText] = useState(inputValue);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const { parseNaturalLanguage } = useNlpParser();
+  const { parseNaturalLanguage } = useNlpParser({ locale });
+  const quickAdd = useQuickAdd({ locale, initialText: inputValue });
+  const inputText = quickAdd.text;
 
   const handleParse = useCallback(async () => {
     if (!inputText.trim()) {
@@ -28,8 +47,15 @@ export const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
     try {
       setIsLoading(true);
       setError(null);
-      const result = await parseNaturalLanguage(inputText);
-      onParseComplete(result);
+      const result = await parseNaturalLanguage(inputText, {
+        ignore: quickAdd.dismissed,
+      });
+      onParseComplete({
+        ...result,
+        projectId: quickAdd.projectId,
+        labelIds: quickAdd.labelIds,
+        assigneeId: quickAdd.assigneeId,
+      });
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to parse natural language",
@@ -38,26 +64,119 @@ export const NaturalLanguageInput: React.FC<NaturalLanguageInputProps> = ({
     } finally {
       setIsLoading(false);
     }
-  }, [inputText, parseNaturalLanguage, onParseComplete]);
+  }, [inputText, quickAdd, parseNaturalLanguage, onParseComplete]);
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    const { selectionStart, selectionEnd } = e.currentTarget;
+    const suggestion = quickAdd.suggestions[quickAdd.activeSuggestion];
+
+    if (suggestion) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        quickAdd.moveSuggestion(e.key === "ArrowDown" ? 1 : -1);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        quickAdd.selectSuggestion(suggestion);
+        return;
+      }
+    }
+
+    // First backspace after a chip turns it back into title text
+    if (
+      e.key === "Backspace" &&
+      quickAdd.handleBackspace(selectionStart, selectionEnd)
+    ) {
+      e.preventDefault();
+      return;
+    }
 
-  const handleKeyDown = (e: React.KeyboardEvent) => {
     if (e.key === "Enter" && !e.shiftKey) {
       e.preventDefault();
       handleParse();
     }
   };
 
+  const chipLabel = (chip) =>
+    chip.match
+      ? `${TAG_SIGILS[chip.entity.type]}${chip.match.name}`
+      : chip.entity.text;
+
   return (
-    <Box mb={4}>
+    <Box mb={4} position="relative">
       <Input
         value={inputText}
-        onChange={(e) => setInputText(e.target.value)}
+        onChange={(e) =>
+          quickAdd.setText(e.target.value, e.target.selectionStart)
+        }
+        onSelect={(e) => quickAdd.setCaret(e.currentTarget.selectionStart)}
         onKeyDown={handleKeyDown}
         placeholder={placeholder}
         isDisabled={isLoading}
         size="md"
         mb={2}
+        aria-autocomplete="list"
+        aria-expanded={quickAdd.suggestions.length > 0}
       />
+
+      {quickAdd.suggestions.length > 0 && (
+        <List
+          role="listbox"
+          position="absolute"
+          top="40px"
+          left={0}
+          right={0}
+          zIndex="dropdown"
+          bg="white"
+          borderWidth="1px"
+          borderRadius="md"
+          boxShadow="md"
+          py={1}
+        >
+          {quickAdd.suggestions.map((suggestion, index) => (
+            <ListItem
+              key={suggestion.id}
+              role="option"
+              aria-selected={index === quickAdd.activeSuggestion}
+              px={3}
+              py={1}
+              cursor="pointer"
+              bg={index === quickAdd.activeSuggestion ? "blue.50" : undefined}
+              onMouseDown={(e) => {
+                e.preventDefault();
+                quickAdd.selectSuggestion(suggestion);
+              }}
+            >
+              <Text fontSize="sm">
+                {quickAdd.tagQuery.sigil}
+                {suggestion.name}
+              </Text>
+            </ListItem>
+          ))}
+        </List>
+      )}
+
+      {quickAdd.chips.length > 0 && (
+        <Wrap spacing={1} mb={2}>
+          {quickAdd.chips.map((chip) => (
+            <WrapItem key={`${chip.entity.type}-${chip.entity.start}`}>
+              <Tag
+                size="sm"
+                bg={ENTITY_COLORS[chip.entity.type]}
+                title={chip.entity.type}
+              >
+                <TagLabel>{chipLabel(chip)}</TagLabel>
+                <TagCloseButton
+                  aria-label={`Treat "${chip.entity.text}" as text`}
+                  onClick={() => quickAdd.dismiss(chip.entity)}
+                />
+              </Tag>
+            </WrapItem>
+          ))}
+        </Wrap>
+      )}
+
       <Button
         onClick={handleParse}
         isLoading={isLoading}
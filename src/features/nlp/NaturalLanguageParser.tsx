@@ -9,6 +9,8 @@ import {
   useColorModeValue,
 } from "@chakra-ui/react";
 import { useNlpParser } from "../../hooks/useNlpParser";
+import { recurringPatternService } from "../../services/recurringPatternService";
+import { RecurringPatternConfig } from "../../types/task";
 
 interface ParsedResult {
   title?: string;
@@ -17,6 +19,7 @@ interface ParsedResult {
   priority?: string;
   labels?: string[];
   project?: string;
+  recurrence?: RecurringPatternConfig;
   rawText: string;
   confidence?: number;
 }
@@ -181,6 +184,19 @@ export const NaturalLanguageParser: React.FC<NaturalLanguageParserProps> = ({
             <Text fontSize="sm">{parsedResult.project}</Text>
           </HStack>
         )}
+
+        {parsedResult.recurrence && (
+          <HStack>
+            <Text fontSize="sm" fontWeight="medium">
+              Repeats:
+            </Text>
+            <Text fontSize="sm">
+              {recurringPatternService.formatRecurringPattern(
+                parsedResult.recurrence,
+              )}
+            </Text>
+          </HStack>
+        )}
       </VStack>
     </Box>
   );
@@ -9,6 +9,56 @@ import {
   Divider,
   useColorModeValue,
 } from "@chakra-ui/react";
+import { NlpEntity, NlpEntityType } from "../../types/nlp";
+
+export const ENTITY_COLORS: Record<NlpEntityType, string> = {
+  date: "green.100",
+  time: "teal.100",
+  duration: "cyan.100",
+  recurrence: "purple.100",
+  priority: "red.100",
+  project: "blue.100",
+  label: "orange.100",
+  assignee: "pink.100",
+  section: "yellow.100",
+};
+
+/**
+ * Splits the raw text into plain and recognised segments
+ */
+const highlightEntities = (text: string, entities: NlpEntity[] = []) => {
+  const segments: React.ReactNode[] = [];
+  let cursor = 0;
+
+  [...entities]
+    .sort((a, b) => a.start - b.start)
+    .forEach((entity, index) => {
+      if (entity.start < cursor) return;
+      if (entity.start > cursor) {
+        segments.push(text.slice(cursor, entity.start));
+      }
+      segments.push(
+        <Box
+          as="mark"
+          key={index}
+          bg={ENTITY_COLORS[entity.type]}
+          color="gray.800"
+          borderRadius="sm"
+          px={0.5}
+          title={entity.type}
+          data-entity={entity.type}
+        >
+          {text.slice(entity.start, entity.end)}
+        </Box>,
+      );
+      cursor = entity.end;
+    });
+
+  if (cursor < text.length) {
+    segments.push(text.slice(cursor));
+  }
+  return segments;
+};
 
 interface PreviewData {
   title?: string;
@@ -17,6 +67,7 @@ interface PreviewData {
   priority?: string;
   labels?: string[];
   project?: string;
+  entities?: NlpEntity[];
   rawText: string;
   confidence?: number;
 }
@@ -58,7 +109,7 @@ export const NaturalLanguagePreview: React.FC<NaturalLanguagePreviewProps> = ({
             Original Text:
           </Text>
           <Text fontSize="sm" fontStyle="italic">
-            {previewData.rawText}
+            {highlightEntities(previewData.rawText, previewData.entities)}
           </Text>
         </HStack>
 
@@ -0,0 +1,165 @@
+import React, { useState } from "react";
+import { useOfflineStore } from "../../store/useOfflineStore";
+import { conflictResolutionService } from "../../services/conflictResolutionService";
+import {
+  ConflictResolutionChoice,
+  MergeableTaskField,
+  SyncConflict,
+} from "../../types/offlineTypes";
+import { formatConflictValue } from "../../utils/conflictUtils";
+
+export interface OfflineConflictInboxProps {
+  onConflictResolved?: (conflict: SyncConflict) => void;
+}
+
+type FieldChoices = Partial<
+  Record<MergeableTaskField, ConflictResolutionChoice>
+>;
+
+export const OfflineConflictInbox: React.FC<OfflineConflictInboxProps> = ({
+  onConflictResolved,
+}) => {
+  const conflicts = useOfflineStore((state) => state.conflicts) || [];
+  const [choices, setChoices] = useState<Record<string, FieldChoices>>({});
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleChoice = (
+    conflictId: string,
+    field: MergeableTaskField,
+    choice: ConflictResolutionChoice,
+  ) => {
+    setChoices((prev) => ({
+      ...prev,
+      [conflictId]: { ...prev[conflictId], [field]: choice },
+    }));
+  };
+
+  const handleResolve = async (conflict: SyncConflict) => {
+    setResolvingId(conflict.id);
+    setError(null);
+
+    try {
+      await conflictResolutionService.resolveConflict(
+        conflict.id,
+        choices[conflict.id] || {},
+      );
+      if (onConflictResolved) {
+        onConflictResolved(conflict);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to resolve");
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  const handleDiscard = (conflict: SyncConflict) => {
+    conflictResolutionService.discardConflict(conflict.id);
+  };
+
+  if (conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="offline-conflict-inbox">
+      <h4 className="offline-conflict-inbox-title">
+        Conflicts ({conflicts.length})
+      </h4>
+      <p className="offline-conflict-inbox-description">
+        These tasks were changed on another device while you were offline. Pick
+        which version to keep for each field.
+      </p>
+
+      {error && <div className="offline-conflict-inbox-error">{error}</div>}
+
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="offline-conflict-item">
+          <div className="offline-conflict-item-header">
+            <span className="offline-conflict-item-title">
+              {conflict.taskTitle || conflict.taskId}
+            </span>
+            <span className="offline-conflict-item-timestamp">
+              {new Date(conflict.detectedAt).toLocaleTimeString()}
+            </span>
+          </div>
+
+          <table className="offline-conflict-fields">
+            <thead>
+              <tr>
+                <th>Field</th>
+                <th>Your change</th>
+                <th>Server change</th>
+              </tr>
+            </thead>
+            <tbody>
+              {conflict.fields.map((fieldConflict) => {
+                const selected =
+                  choices[conflict.id]?.[fieldConflict.field] || "remote";
+                const name = `${conflict.id}-${fieldConflict.field}`;
+
+                return (
+                  <tr key={fieldConflict.field}>
+                    <td>{fieldConflict.field}</td>
+                    <td>
+                      <label>
+                        <input
+                          type="radio"
+                          name={name}
+                          checked={selected === "local"}
+                          onChange={() =>
+                            handleChoice(
+                              conflict.id,
+                              fieldConflict.field,
+                              "local",
+                            )
+                          }
+                        />
+                        {formatConflictValue(fieldConflict.localValue)}
+                      </label>
+                    </td>
+                    <td>
+                      <label>
+                        <input
+                          type="radio"
+                          name={name}
+                          checked={selected === "remote"}
+                          onChange={() =>
+                            handleChoice(
+                              conflict.id,
+                              fieldConflict.field,
+                              "remote",
+                            )
+                          }
+                        />
+                        {formatConflictValue(fieldConflict.remoteValue)}
+                      </label>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div className="offline-conflict-item-actions">
+            <button
+              className="offline-conflict-resolve-button"
+              onClick={() => handleResolve(conflict)}
+              disabled={resolvingId === conflict.id}
+            >
+              {resolvingId === conflict.id ? "Saving..." : "Apply"}
+            </button>
+            <button
+              className="offline-conflict-discard-button"
+              onClick={() => handleDiscard(conflict)}
+              disabled={resolvingId === conflict.id}
+            >
+              Keep server version
+            </button>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
@@ -5,6 +5,7 @@ import {
   OfflineQueueItem,
   OfflineQueuePriority,
 } from "../../types/offlineTypes";
+import { OfflineConflictInbox } from "./OfflineConflictInbox";
 
 interface OfflineQueueEnhancedProps {
   maxItems?: number;
@@ -12,6 +13,7 @@ interface OfflineQueueEnhancedProps {
   showAdvancedFilters?: boolean;
   showBatchOperations?: boolean;
   showPriorityManagement?: boolean;
+  showConflictInbox?: boolean;
   onQueueChange?: (items: OfflineQueueItem[]) => void;
   onRetryAll?: () => void;
   onClearAll?: () => void;
@@ -27,6 +29,7 @@ export const OfflineQueueEnhanced: React.FC<OfflineQueueEnhancedProps> = ({
   showAdvancedFilters = true,
   showBatchOperations = true,
   showPriorityManagement = true,
+  showConflictInbox = true,
   onQueueChange,
   onRetryAll,
   onClearAll,
@@ -253,6 +256,9 @@ export const OfflineQueueEnhanced: React.FC<OfflineQueueEnhancedProps> = ({
     <div className="offline-queue-enhanced">
       <h3 className="offline-queue-title">Enhanced Offline Queue</h3>
 
+      {/* Conflicts Inbox */}
+      {showConflictInbox && <OfflineConflictInbox />}
+
       {/* Advanced Filters */}
       {showAdvancedFilters && (
         <div className="offline-queue-filters">
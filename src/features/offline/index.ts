@@ -16,6 +16,7 @@ export { OfflineSyncEnhanced } from "./OfflineSyncEnhanced";
 export { OfflineSettingsEnhanced } from "./OfflineSettingsEnhanced";
 export { OfflineEnhancedDemo } from "./OfflineEnhancedDemo";
 export { OfflineIntegration } from "./OfflineIntegration";
+export { OfflineConflictInbox } from "./OfflineConflictInbox";
 
 // Export types
 export type {
@@ -30,6 +31,8 @@ export type { OfflineIndicatorEnhancedProps } from "./OfflineIndicatorEnhanced";
 
 export type { OfflineQueueEnhancedProps } from "./OfflineQueueEnhanced";
 
+export type { OfflineConflictInboxProps } from "./OfflineConflictInbox";
+
 export type { OfflineSyncEnhancedProps } from "./OfflineSyncEnhanced";
 
 export type { OfflineSettingsEnhancedProps } from "./OfflineSettingsEnhanced";
@@ -9,19 +9,36 @@ import {
 import { useForm, SubmitHandler } from "react-hook-form";
 import { useRecurringTasks } from "../../hooks/useRecurringTasks";
 import { recurringTaskService } from "../../services/recurringTaskService";
-import { RecurringPatternConfig, RecurringTaskConfig } from "../../types/task";
+import {
+  RecurrenceEditScope,
+  RecurrenceRepeatFrom,
+  RecurringPatternConfig,
+  RecurringTaskConfig,
+} from "../../types/task";
 import { recurringPatternService } from "../../services/recurringPatternService";
 
 interface RecurringTaskFormProps {
   task?: Task;
+  /**
+   * Set when editing from a single occurrence; offers to apply the edit to
+   * this occurrence, this and following, or all occurrences
+   */
+  occurrenceDate?: Date;
   onSubmit: (
     taskData: Omit<Task, "id" | "createdAt" | "updatedAt" | "completed">,
     config: RecurringTaskConfig,
+    scope?: RecurrenceEditScope,
   ) => Promise<void>;
   onCancel?: () => void;
   projectId?: string;
 }
 
+const EDIT_SCOPE_OPTIONS: { value: RecurrenceEditScope; label: string }[] = [
+  { value: "this", label: "This occurrence" },
+  { value: "following", label: "This and following occurrences" },
+  { value: "all", label: "All occurrences" },
+];
+
 type FormValues = {
   title: string;
   description: string;
@@ -34,6 +51,7 @@ type FormValues = {
   recurringCount?: number | null;
   customInterval?: number | null;
   customUnit?: "days" | "weeks" | "months" | "years" | null;
+  repeatFrom?: RecurrenceRepeatFrom;
   customDays?: number[];
   customMonthDays?: number[];
   customMonthPosition?: "first" | "second" | "third" | "fourth" | "last" | null;
@@ -50,6 +68,7 @@ type FormValues = {
 
 const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
   task,
+  occurrenceDate,
   onSubmit,
   onCancel,
   projectId,
@@ -64,6 +83,7 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
     getValues,
   } = useForm<FormValues>();
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [editScope, setEditScope] = useState<RecurrenceEditScope>("this");
   const [showAdvancedRecurring, setShowAdvancedRecurring] = useState(false);
   const [patternPresets, setPatternPresets] = useState<
     { id: string; name: string; config: RecurringPatternConfig }[]
@@ -105,6 +125,7 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
         recurringCount: config.maxOccurrences || null,
         customInterval: config.customInterval || null,
         customUnit: config.customUnit || null,
+        repeatFrom: config.repeatFrom || "due",
         customDays: config.customDays || [],
         customMonthDays: config.customMonthDays || [],
         customMonthPosition: config.customMonthPosition || null,
@@ -123,6 +144,7 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
         recurringCount: null,
         customInterval: 1,
         customUnit: null,
+        repeatFrom: "due",
         customDays: [],
         customMonthDays: [],
         customMonthPosition: null,
@@ -235,6 +257,7 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
         maxOccurrences: data.recurringCount || null,
         customInterval: data.customInterval || 1,
         customUnit: data.customUnit || null,
+        repeatFrom: data.repeatFrom || "due",
       };
 
       const taskData: Omit<
@@ -265,7 +288,7 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
         },
       };
 
-      await onSubmit(taskData, config);
+      await onSubmit(taskData, config, occurrenceDate ? editScope : "all");
     } catch (error) {
       console.error("Form submission error:", error);
     } finally {
@@ -552,6 +575,24 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
                   </select>
                 </div>
 
+                {/* Repeat From */}
+                <div>
+                  <label
+                    htmlFor="repeatFrom"
+                    className="block text-sm font-medium text-gray-700 mb-1"
+                  >
+                    Repeat from
+                  </label>
+                  <select
+                    id="repeatFrom"
+                    {...register("repeatFrom")}
+                    className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+                  >
+                    <option value="due">Due date</option>
+                    <option value="completion">Completion date</option>
+                  </select>
+                </div>
+
                 {/* Custom Days (for weekly patterns) */}
                 {recurringPattern === "weekly" && (
                   <div className="border p-3 rounded-md">
@@ -737,6 +778,31 @@ const RecurringTaskForm: React.FC<RecurringTaskFormProps> = ({
         </div>
       )}
 
+      {occurrenceDate && (
+        <fieldset className="border-t pt-4">
+          <legend className="text-sm font-medium text-gray-700 mb-2">
+            Apply changes to
+          </legend>
+          <div className="space-y-1">
+            {EDIT_SCOPE_OPTIONS.map((option) => (
+              <label
+                key={option.value}
+                className="flex items-center space-x-2 text-sm text-gray-700"
+              >
+                <input
+                  type="radio"
+                  name="editScope"
+                  value={option.value}
+                  checked={editScope === option.value}
+                  onChange={() => setEditScope(option.value)}
+                />
+                <span>{option.label}</span>
+              </label>
+            ))}
+          </div>
+        </fieldset>
+      )}
+
       {projectId && (
         <div className="pt-2">
           <p className="text-sm text-gray-500">
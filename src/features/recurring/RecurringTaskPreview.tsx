@@ -7,6 +7,10 @@ import { StatusBadge } from "../../components/StatusBadge";
 import { useRecurringTasks } from "../../hooks/useRecurringTasks";
 import { recurringTaskService } from "../../services/recurringTaskService";
 import { recurringPatternService } from "../../services/recurringPatternService";
+import { nextOccurrenceAfterCompletion } from "../../utils/rruleUtils";
+
+// Finishing this many days before (-) or after (+) the due date
+const COMPLETION_OFFSETS = [-1, 0, 2, 7];
 
 interface RecurringTaskPreviewProps {
   task: Task;
@@ -48,6 +52,26 @@ const RecurringTaskPreview: React.FC<RecurringTaskPreviewProps> = ({
 
   const stats = getRecurringTaskStats(task.id);
 
+  const completionConfig =
+    task.customFields?.recurringConfig?.repeatFrom === "completion" &&
+    task.dueDate
+      ? task.customFields.recurringConfig
+      : null;
+  const completionShifts = completionConfig
+    ? COMPLETION_OFFSETS.map((offset) => {
+        const completedAt = addDays(new Date(task.dueDate), offset);
+        return {
+          offset,
+          completedAt,
+          nextDate: nextOccurrenceAfterCompletion(
+            completionConfig,
+            new Date(task.dueDate),
+            completedAt,
+          ),
+        };
+      })
+    : [];
+
   useEffect(() => {
     if (task.recurringPattern && task.dueDate) {
       generatePreviewInstances();
@@ -245,6 +269,45 @@ const RecurringTaskPreview: React.FC<RecurringTaskPreviewProps> = ({
         </div>
       )}
 
+      {/* Repeats from completion: the next date depends on when this is done */}
+      {completionShifts.length > 0 && (
+        <div className="border-t pt-4 mb-4">
+          <h4 className="font-medium text-gray-900 mb-1">
+            Repeats after completion
+          </h4>
+          <p className="text-sm text-gray-500 mb-3">
+            The next occurrence is scheduled from the day you finish this one.
+          </p>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500">
+                <th className="font-medium pb-1">If you finish</th>
+                <th className="font-medium pb-1">Next due</th>
+              </tr>
+            </thead>
+            <tbody>
+              {completionShifts.map((shift) => (
+                <tr key={shift.offset} className="border-t border-gray-100">
+                  <td className="py-1 text-gray-700">
+                    {format(shift.completedAt, "EEE, MMM d")}
+                    <span className="ml-2 text-xs text-gray-500">
+                      {shift.offset === 0
+                        ? "on time"
+                        : shift.offset < 0
+                          ? `${-shift.offset} day${shift.offset === -1 ? "" : "s"} early`
+                          : `${shift.offset} day${shift.offset === 1 ? "" : "s"} late`}
+                    </span>
+                  </td>
+                  <td className="py-1 text-gray-900">
+                    {format(shift.nextDate, "EEE, MMM d")}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
       <div className="border-t pt-4">
         <div className="flex justify-between items-center mb-3">
           <h4 className="font-medium text-gray-900">
@@ -417,6 +480,13 @@ const RecurringTaskPreview: React.FC<RecurringTaskPreviewProps> = ({
                       <strong>Unit:</strong>{" "}
                       {task.customFields.recurringConfig.customUnit || "weeks"}
                     </div>
+                    <div>
+                      <strong>Repeats from:</strong>{" "}
+                      {task.customFields.recurringConfig.repeatFrom ===
+                      "completion"
+                        ? "completion date"
+                        : "due date"}
+                    </div>
                   </div>
                 )}
               </div>
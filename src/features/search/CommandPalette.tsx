@@ -1,6 +1,6 @@
 import React, { useState, useEffect, useRef } from "react";
 import { useCommandPalette } from "../../hooks/useCommandPalette";
-import { Command } from "../../types/command";
+import { PaletteAction, PaletteItem } from "../../types/command";
 
 interface CommandPaletteProps {
   isOpen: boolean;
@@ -13,16 +13,56 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
 }) => {
   const [query, setQuery] = useState("");
   const [selectedIndex, setSelectedIndex] = useState(0);
-  const { commands, executeCommand, filteredCommands } = useCommandPalette();
+  const [activeItem, setActiveItem] = useState<PaletteItem | null>(null);
+  const { executeCommand, paletteItems, searchPalette, getEntityActions } =
+    useCommandPalette();
   const inputRef = useRef<HTMLInputElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
 
+  const actions: PaletteAction[] = activeItem
+    ? getEntityActions(activeItem).filter((action) =>
+        action.name.toLowerCase().includes(query.trim().toLowerCase()),
+      )
+    : [];
+  const visibleCount = activeItem ? actions.length : paletteItems.length;
+
   useEffect(() => {
-    if (isOpen && inputRef.current) {
-      inputRef.current.focus();
+    if (isOpen) {
+      setQuery("");
+      setActiveItem(null);
+      setSelectedIndex(0);
+      searchPalette("");
+      if (inputRef.current) {
+        inputRef.current.focus();
+      }
     }
   }, [isOpen]);
 
+  const runAction = async (action: PaletteAction) => {
+    await action.run();
+    onClose();
+  };
+
+  const selectItem = (item: PaletteItem) => {
+    if (item.kind === "command") {
+      executeCommand(item.data);
+      onClose();
+      return;
+    }
+
+    // Entities open their action list so they can be acted on in place
+    setActiveItem(item);
+    setQuery("");
+    setSelectedIndex(0);
+  };
+
+  const leaveActions = () => {
+    setActiveItem(null);
+    setQuery("");
+    setSelectedIndex(0);
+    searchPalette("");
+  };
+
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (!isOpen) return;
@@ -30,21 +70,29 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
       // Handle navigation
       if (e.key === "ArrowDown") {
         e.preventDefault();
-        setSelectedIndex((prev) =>
-          Math.min(prev + 1, filteredCommands.length - 1),
-        );
+        setSelectedIndex((prev) => Math.min(prev + 1, visibleCount - 1));
       } else if (e.key === "ArrowUp") {
         e.preventDefault();
         setSelectedIndex((prev) => Math.max(prev - 1, 0));
       } else if (e.key === "Enter") {
         e.preventDefault();
-        if (filteredCommands.length > 0) {
-          executeCommand(filteredCommands[selectedIndex]);
-          onClose();
+        if (activeItem) {
+          if (actions[selectedIndex]) {
+            runAction(actions[selectedIndex]);
+          }
+        } else if (paletteItems[selectedIndex]) {
+          selectItem(paletteItems[selectedIndex]);
         }
+      } else if (e.key === "Backspace" && activeItem && query === "") {
+        e.preventDefault();
+        leaveActions();
       } else if (e.key === "Escape") {
         e.preventDefault();
-        onClose();
+        if (activeItem) {
+          leaveActions();
+        } else {
+          onClose();
+        }
       }
     };
 
@@ -52,16 +100,23 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
     return () => {
       window.removeEventListener("keydown", handleKeyDown);
     };
-  }, [isOpen, filteredCommands, selectedIndex, executeCommand, onClose]);
+  }, [
+    isOpen,
+    activeItem,
+    actions,
+    paletteItems,
+    selectedIndex,
+    visibleCount,
+    query,
+    onClose,
+  ]);
 
   const handleSearch = (e: React.ChangeEvent<HTMLInputElement>) => {
     setQuery(e.target.value);
     setSelectedIndex(0);
-  };
-
-  const handleCommandClick = (command: Command) => {
-    executeCommand(command);
-    onClose();
+    if (!activeItem) {
+      searchPalette(e.target.value);
+    }
   };
 
   if (!isOpen) return null;
@@ -94,47 +149,78 @@ export const CommandPalette: React.FC<CommandPaletteProps> = ({
               type="text"
               value={query}
               onChange={handleSearch}
-              placeholder="Type a command or search..."
+              placeholder={
+                activeItem
+                  ? `Action for "${activeItem.title}"...`
+                  : "Type a command or search..."
+              }
               className="w-full px-4 py-2 pl-10 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent"
             />
           </div>
         </div>
 
         <div className="max-h-96 overflow-y-auto">
-          {filteredCommands.length === 0 ? (
+          {activeItem ? (
+            actions.length === 0 ? (
+              <div className="p-4 text-center text-gray-500">
+                No actions found
+              </div>
+            ) : (
+              actions.map((action, index) => (
+                <div
+                  key={action.id}
+                  onClick={() => runAction(action)}
+                  className={`px-4 py-3 cursor-pointer hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
+                    index === selectedIndex ? "bg-blue-50" : ""
+                  }`}
+                >
+                  <div className="font-medium text-sm">{action.name}</div>
+                </div>
+              ))
+            )
+          ) : paletteItems.length === 0 ? (
             <div className="p-4 text-center text-gray-500">
-              No commands found
+              No results found
             </div>
           ) : (
-            filteredCommands.map((command, index) => (
+            paletteItems.map((item, index) => (
               <div
-                key={command.id}
-                onClick={() => handleCommandClick(command)}
+                key={item.id}
+                onClick={() => selectItem(item)}
                 className={`px-4 py-3 cursor-pointer hover:bg-gray-50 border-b border-gray-100 last:border-b-0 ${
                   index === selectedIndex ? "bg-blue-50" : ""
                 }`}
               >
                 <div className="flex items-center justify-between">
                   <div className="flex-1">
-                    <div className="font-medium text-sm">{command.name}</div>
-                    {command.description && (
+                    <div className="font-medium text-sm">{item.title}</div>
+                    {item.subtitle && (
                       <div className="text-xs text-gray-500 truncate">
-                        {command.description}
+                        {item.subtitle}
                       </div>
                     )}
                   </div>
-                  {command.shortcut && (
+                  {item.kind === "command" && item.data.shortcut ? (
                     <div className="ml-2 text-xs text-gray-400">
                       <kbd className="px-1 py-0.5 border border-gray-300 rounded bg-gray-100">
-                        {command.shortcut}
+                        {item.data.shortcut}
                       </kbd>
                     </div>
+                  ) : (
+                    <div className="ml-2 text-xs text-gray-400 uppercase">
+                      {item.kind}
+                    </div>
                   )}
                 </div>
               </div>
             ))
           )}
         </div>
+
+        <div className="px-4 py-2 border-t border-gray-200 text-xs text-gray-500">
+          <kbd>&gt;</kbd> commands · <kbd>#</kbd> projects · <kbd>@</kbd> labels
+          · <kbd>/</kbd> filters · is: due: in: label: p:
+        </div>
       </div>
     </div>
   );
@@ -7,6 +7,7 @@ import { getSearchService } from "../../services/searchService";
 import { useTaskStore } from "../../store/useTaskStore";
 import { useProjectStore } from "../../store/useProjectStore";
 import { useLabelStore } from "../../store/useLabelStore";
+import { useCommentStore } from "../../store/useCommentStore";
 
 interface SearchProviderProps {
   children: React.ReactNode;
@@ -22,15 +23,16 @@ export const SearchProvider: React.FC<SearchProviderProps> = ({ children }) => {
   const tasks = useTaskStore((state) => state.tasks);
   const projects = useProjectStore((state) => state.projects);
   const labels = useLabelStore((state) => state.labels);
+  const comments = useCommentStore((state) => state.comments);
 
   // Initialize services with data
   useEffect(() => {
     const searchService = getSearchService();
-    searchService.setData(tasks, projects, labels);
+    searchService.setData(tasks, projects, labels, comments);
 
     const commandService = getCommandService();
     setCommands(commandService.getCommands());
-  }, [tasks, projects, labels, setCommands]);
+  }, [tasks, projects, labels, comments, setCommands]);
 
   // Sync search results with store
   useEffect(() => {
@@ -1,11 +1,41 @@
 import React from "react";
-import { SearchResult } from "../../types/search";
+import { SearchHighlight, SearchResult } from "../../types/search";
 
 interface SearchResultsProps {
   results: SearchResult[];
   onSelect?: (result: SearchResult) => void;
 }
 
+const HighlightedText: React.FC<{
+  text: string;
+  highlights?: SearchHighlight[];
+}> = ({ text, highlights }) => {
+  if (!highlights || highlights.length === 0) {
+    return <>{text}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+
+  highlights.forEach((range, index) => {
+    if (range.start > position) {
+      parts.push(text.slice(position, range.start));
+    }
+    parts.push(
+      <mark key={index} className="bg-yellow-200 text-inherit rounded-sm">
+        {text.slice(Math.max(range.start, position), range.end)}
+      </mark>,
+    );
+    position = Math.max(position, range.end);
+  });
+
+  if (position < text.length) {
+    parts.push(text.slice(position));
+  }
+
+  return <>{parts}</>;
+};
+
 export const SearchResults: React.FC<SearchResultsProps> = ({
   results,
   onSelect,
@@ -32,10 +62,18 @@ export const SearchResults: React.FC<SearchResultsProps> = ({
         >
           <div className="flex items-center justify-between">
             <div className="flex-1">
-              <div className="font-medium text-sm">{result.title}</div>
+              <div className="font-medium text-sm">
+                <HighlightedText
+                  text={result.title}
+                  highlights={result.highlights?.title}
+                />
+              </div>
               {result.subtitle && (
                 <div className="text-xs text-gray-500 truncate">
-                  {result.subtitle}
+                  <HighlightedText
+                    text={result.subtitle}
+                    highlights={result.highlights?.subtitle}
+                  />
                 </div>
               )}
             </div>
@@ -0,0 +1,461 @@
+import React, { useState, useEffect } from "react";
+import { format } from "date-fns";
+import { useProjects } from "../../hooks/useProjects";
+import { useLabels } from "../../hooks/useLabels";
+import { useUsers } from "../../hooks/useUsers";
+import { bulkCaptureService } from "../../services/bulkCaptureService";
+import {
+  detectBulkFormat,
+  guessCsvMapping,
+  hasCsvHeader,
+  parseCsv,
+} from "../../utils/bulkCaptureUtils";
+import {
+  BulkCaptureDraft,
+  BulkCaptureField,
+  BulkCaptureFormat,
+  BulkCaptureMapping,
+} from "../../types/bulkCapture";
+import { PriorityLevel } from "../../types/enums";
+import { Task } from "../../types/task";
+
+interface BulkCaptureDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onCreated?: (tasks: Task[]) => void;
+  defaultProjectId?: string;
+  locale?: string;
+  /**
+   * Text to start with, e.g. a pasted list
+   */
+  initialText?: string;
+}
+
+type Step = "input" | "mapping" | "preview";
+
+const FIELD_OPTIONS: { value: BulkCaptureField; label: string }[] = [
+  { value: "ignore", label: "Ignore" },
+  { value: "title", label: "Title" },
+  { value: "description", label: "Description" },
+  { value: "dueDate", label: "Due date" },
+  { value: "priority", label: "Priority" },
+  { value: "project", label: "Project" },
+  { value: "labels", label: "Labels" },
+  { value: "assignee", label: "Assignee" },
+  { value: "duration", label: "Duration (min)" },
+];
+
+const inputClass =
+  "w-full px-2 py-1 text-sm border border-gray-300 rounded-md focus:outline-none focus:ring-blue-500 focus:border-blue-500";
+
+export const BulkCaptureDialog: React.FC<BulkCaptureDialogProps> = ({
+  isOpen,
+  onClose,
+  onCreated,
+  defaultProjectId,
+  locale,
+  initialText = "",
+}) => {
+  const [step, setStep] = useState<Step>("input");
+  const [text, setText] = useState("");
+  const [captureFormat, setCaptureFormat] =
+    useState<BulkCaptureFormat>("outline");
+  const [csvRows, setCsvRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<BulkCaptureMapping>([]);
+  const [skipHeader, setSkipHeader] = useState(true);
+  const [drafts, setDrafts] = useState<BulkCaptureDraft[]>([]);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const { projects } = useProjects();
+  const { labels } = useLabels();
+  const { users } = useUsers();
+
+  useEffect(() => {
+    if (isOpen) {
+      setStep("input");
+      setText(initialText);
+      setCaptureFormat(detectBulkFormat(initialText));
+      setDrafts([]);
+      setError(null);
+    }
+  }, [isOpen, initialText]);
+
+  if (!isOpen) return null;
+
+  const handleTextChange = (value: string) => {
+    setText(value);
+    setCaptureFormat(detectBulkFormat(value));
+  };
+
+  const parseDrafts = async (
+    parse: () => Promise<BulkCaptureDraft[]>,
+  ): Promise<void> => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      setDrafts(await parse());
+      setStep("preview");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to read tasks");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleContinue = () => {
+    if (!text.trim()) {
+      setError("Paste a list or CSV first");
+      return;
+    }
+
+    if (captureFormat === "csv") {
+      const rows = parseCsv(text);
+      const header = hasCsvHeader(rows);
+      setCsvRows(rows);
+      setSkipHeader(header);
+      setMapping(
+        header
+          ? guessCsvMapping(rows[0])
+          : guessCsvMapping(rows[0].map(() => "")),
+      );
+      setStep("mapping");
+      return;
+    }
+
+    parseDrafts(() => bulkCaptureService.parseOutline(text, { locale }));
+  };
+
+  const handleMappingDone = () => {
+    if (!mapping.includes("title")) {
+      setError("Choose the column that holds the task title");
+      return;
+    }
+    parseDrafts(() =>
+      bulkCaptureService.parseCsv(text, mapping, { locale, skipHeader }),
+    );
+  };
+
+  const updateDraft = (key: string, updates: Partial<BulkCaptureDraft>) => {
+    setDrafts((prev) =>
+      prev.map((draft) =>
+        draft.key === key ? { ...draft, ...updates } : draft,
+      ),
+    );
+  };
+
+  const removeDraft = (key: string) => {
+    setDrafts((prev) => prev.filter((draft) => draft.key !== key));
+  };
+
+  const handleCreate = async () => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const created = await bulkCaptureService.createTasks(drafts, {
+        projects,
+        labels,
+        users,
+        defaultProjectId,
+      });
+      onCreated?.(created);
+      onClose();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create tasks");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const knownProject = (name?: string) =>
+    !name || projects.some((p) => p.name.toLowerCase() === name.toLowerCase());
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-start justify-center pt-16 bg-black bg-opacity-50">
+      <div
+        role="dialog"
+        aria-labelledby="bulk-capture-title"
+        className="w-full max-w-4xl bg-white rounded-lg shadow-xl overflow-hidden"
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h2 id="bulk-capture-title" className="text-lg font-semibold">
+            Add tasks in bulk
+          </h2>
+          <button
+            type="button"
+            onClick={onClose}
+            className="text-gray-400 hover:text-gray-600"
+            aria-label="Close"
+          >
+            ✕
+          </button>
+        </div>
+
+        <div className="p-4 max-h-[70vh] overflow-y-auto">
+          {step === "input" && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                Paste a bullet list, Markdown checklist, indented outline or
+                CSV. Indented lines become subtasks; each line understands
+                dates, p1-p4, #projects, @labels and +assignees.
+              </p>
+              <textarea
+                rows={12}
+                value={text}
+                onChange={(e) => handleTextChange(e.target.value)}
+                placeholder={
+                  "- Plan launch #Marketing\n  - Draft announcement tomorrow p2\n  - [ ] Book venue by Friday"
+                }
+                className="w-full px-3 py-2 font-mono text-sm border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
+              />
+              <div className="flex items-center gap-4 text-sm">
+                <span className="text-gray-700">Read as</span>
+                {(["outline", "csv"] as BulkCaptureFormat[]).map((value) => (
+                  <label key={value} className="flex items-center gap-1">
+                    <input
+                      type="radio"
+                      name="bulk-capture-format"
+                      checked={captureFormat === value}
+                      onChange={() => setCaptureFormat(value)}
+                    />
+                    {value === "outline" ? "List / outline" : "CSV"}
+                  </label>
+                ))}
+              </div>
+            </div>
+          )}
+
+          {step === "mapping" && (
+            <div className="space-y-3">
+              <p className="text-sm text-gray-500">
+                Choose which task field each column fills.
+              </p>
+              <label className="flex items-center gap-2 text-sm">
+                <input
+                  type="checkbox"
+                  checked={skipHeader}
+                  onChange={(e) => setSkipHeader(e.target.checked)}
+                />
+                First row is a header
+              </label>
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-left text-gray-500">
+                    <th className="py-1 pr-2">Column</th>
+                    <th className="py-1 pr-2">Example</th>
+                    <th className="py-1">Field</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(csvRows[0] || []).map((header, index) => (
+                    <tr key={index} className="border-t border-gray-100">
+                      <td className="py-1 pr-2 font-medium">
+                        {skipHeader ? header : `Column ${index + 1}`}
+                      </td>
+                      <td className="py-1 pr-2 text-gray-500 truncate">
+                        {csvRows[skipHeader ? 1 : 0]?.[index]}
+                      </td>
+                      <td className="py-1">
+                        <select
+                          value={mapping[index] || "ignore"}
+                          onChange={(e) =>
+                            setMapping((prev) =>
+                              prev.map((field, i) =>
+                                i === index
+                                  ? (e.target.value as BulkCaptureField)
+                                  : field,
+                              ),
+                            )
+                          }
+                          className={inputClass}
+                        >
+                          {FIELD_OPTIONS.map((option) => (
+                            <option key={option.value} value={option.value}>
+                              {option.label}
+                            </option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          {step === "preview" && (
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-left text-gray-500">
+                  <th className="py-1 pr-2">Title</th>
+                  <th className="py-1 pr-2">Due</th>
+                  <th className="py-1 pr-2">Priority</th>
+                  <th className="py-1 pr-2">Project</th>
+                  <th className="py-1 pr-2">Labels</th>
+                  <th className="py-1 pr-2">Assignee</th>
+                  <th className="py-1" />
+                </tr>
+              </thead>
+              <tbody>
+                {drafts.map((draft) => (
+                  <tr key={draft.key} className="border-t border-gray-100">
+                    <td
+                      className="py-1 pr-2"
+                      style={{ paddingLeft: `${draft.depth * 1.25}rem` }}
+                    >
+                      <input
+                        value={draft.title}
+                        onChange={(e) =>
+                          updateDraft(draft.key, { title: e.target.value })
+                        }
+                        title={draft.source}
+                        className={`${inputClass} ${
+                          draft.title.trim() ? "" : "border-red-500"
+                        }`}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        type="date"
+                        value={
+                          draft.dueDate
+                            ? format(draft.dueDate, "yyyy-MM-dd")
+                            : ""
+                        }
+                        onChange={(e) =>
+                          updateDraft(draft.key, {
+                            dueDate: e.target.value
+                              ? new Date(`${e.target.value}T00:00`)
+                              : undefined,
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <select
+                        value={draft.priority || ""}
+                        onChange={(e) =>
+                          updateDraft(draft.key, {
+                            priority:
+                              (e.target.value as PriorityLevel) || undefined,
+                          })
+                        }
+                        className={inputClass}
+                      >
+                        <option value="">None</option>
+                        <option value="P1">P1</option>
+                        <option value="P2">P2</option>
+                        <option value="P3">P3</option>
+                        <option value="P4">P4</option>
+                      </select>
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={draft.project || ""}
+                        onChange={(e) =>
+                          updateDraft(draft.key, {
+                            project: e.target.value || undefined,
+                          })
+                        }
+                        list="bulk-capture-projects"
+                        className={`${inputClass} ${
+                          knownProject(draft.project) ? "" : "border-yellow-500"
+                        }`}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={draft.labels.join(", ")}
+                        onChange={(e) =>
+                          updateDraft(draft.key, {
+                            labels: e.target.value
+                              .split(",")
+                              .map((label) => label.trim())
+                              .filter(Boolean),
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 pr-2">
+                      <input
+                        value={draft.assignee || ""}
+                        onChange={(e) =>
+                          updateDraft(draft.key, {
+                            assignee: e.target.value || undefined,
+                          })
+                        }
+                        className={inputClass}
+                      />
+                    </td>
+                    <td className="py-1 text-right">
+                      <button
+                        type="button"
+                        onClick={() => removeDraft(draft.key)}
+                        className="text-gray-400 hover:text-red-600"
+                        aria-label={`Remove ${draft.title}`}
+                      >
+                        ✕
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+
+          <datalist id="bulk-capture-projects">
+            {projects.map((project) => (
+              <option key={project.id} value={project.name} />
+            ))}
+          </datalist>
+
+          {error && <p className="mt-2 text-sm text-red-600">{error}</p>}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-between">
+          <button
+            type="button"
+            onClick={() => (step === "input" ? onClose() : setStep("input"))}
+            className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+          >
+            {step === "input" ? "Cancel" : "Back"}
+          </button>
+          {step === "input" && (
+            <button
+              type="button"
+              onClick={handleContinue}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy ? "Reading..." : "Continue"}
+            </button>
+          )}
+          {step === "mapping" && (
+            <button
+              type="button"
+              onClick={handleMappingDone}
+              disabled={isBusy}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy ? "Reading..." : "Preview"}
+            </button>
+          )}
+          {step === "preview" && (
+            <button
+              type="button"
+              onClick={handleCreate}
+              disabled={isBusy || drafts.length === 0}
+              className="px-4 py-2 text-sm text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50"
+            >
+              {isBusy
+                ? "Creating..."
+                : `Create ${drafts.length} task${drafts.length === 1 ? "" : "s"}`}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
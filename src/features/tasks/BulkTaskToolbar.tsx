@@ -0,0 +1,234 @@
+import React, { useEffect, useState } from "react";
+import { BulkTaskEdit } from "../../types/task";
+import { PriorityLevel } from "../../types/enums";
+import { Section } from "../../types/project";
+import { useTaskStore } from "../../store/useTaskStore";
+import { useLabels } from "../../hooks/useLabels";
+import { useProjects } from "../../hooks/useProjects";
+import { useUsers } from "../../hooks/useUsers";
+import { projectApi } from "../../api/projectApi";
+import { taskService } from "../../services/taskService";
+
+const selectClassName = "px-2 py-1 text-sm border border-gray-300 rounded";
+
+/**
+ * Edits every selected task at once. Each edit is one undo step and one
+ * request.
+ */
+export const BulkTaskToolbar: React.FC = () => {
+  const { selectedTaskIds, setSelectedTaskIds } = useTaskStore();
+  const { labels } = useLabels();
+  const { projects } = useProjects();
+  const { users } = useUsers();
+  const [projectId, setProjectId] = useState("");
+  const [sections, setSections] = useState<Section[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setSections([]);
+    if (!projectId) return;
+
+    projectApi
+      .getSections(projectId)
+      .then((response) => setSections(response.data || []))
+      .catch((error) => console.error("Failed to load sections:", error));
+  }, [projectId]);
+
+  if (selectedTaskIds.length === 0) return null;
+
+  const applyEdit = async (edit: BulkTaskEdit) => {
+    setError(null);
+    try {
+      await taskService.bulkEditTasks(selectedTaskIds, edit);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to update tasks",
+      );
+    }
+  };
+
+  const handleDuplicate = async () => {
+    setError(null);
+    try {
+      await taskService.duplicateTasks(selectedTaskIds);
+    } catch (error) {
+      setError(
+        error instanceof Error ? error.message : "Failed to duplicate tasks",
+      );
+    }
+  };
+
+  return (
+    <div
+      role="toolbar"
+      aria-label="Bulk edit selected tasks"
+      className="sticky top-0 z-10 flex flex-wrap items-center gap-2 p-2 mb-3 bg-blue-50 border border-blue-200 rounded-lg"
+    >
+      <span className="text-sm font-medium text-blue-900">
+        {selectedTaskIds.length} selected
+      </span>
+
+      <input
+        type="date"
+        aria-label="Due date"
+        onChange={(e) =>
+          applyEdit({
+            type: "reschedule",
+            dueDate: e.target.value
+              ? new Date(`${e.target.value}T00:00`)
+              : null,
+          })
+        }
+        className={selectClassName}
+      />
+      <button
+        onClick={() => applyEdit({ type: "shiftDueDates", days: 1 })}
+        className={selectClassName}
+        title="Move due dates one day later"
+      >
+        +1 day
+      </button>
+      <button
+        onClick={() => applyEdit({ type: "reschedule", dueDate: null })}
+        className={selectClassName}
+      >
+        No date
+      </button>
+
+      <select
+        aria-label="Priority"
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          applyEdit({
+            type: "priority",
+            priority: e.target.value as PriorityLevel,
+          })
+        }
+        className={selectClassName}
+      >
+        <option value="">Priority…</option>
+        <option value="low">Low</option>
+        <option value="medium">Medium</option>
+        <option value="high">High</option>
+        <option value="critical">Critical</option>
+      </select>
+
+      <select
+        aria-label="Add label"
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          applyEdit({ type: "addLabel", labelId: e.target.value })
+        }
+        className={selectClassName}
+      >
+        <option value="">Add label…</option>
+        {labels.map((label) => (
+          <option key={label.id} value={label.id}>
+            {label.name}
+          </option>
+        ))}
+      </select>
+      <select
+        aria-label="Remove label"
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          applyEdit({ type: "removeLabel", labelId: e.target.value })
+        }
+        className={selectClassName}
+      >
+        <option value="">Remove label…</option>
+        {labels.map((label) => (
+          <option key={label.id} value={label.id}>
+            {label.name}
+          </option>
+        ))}
+      </select>
+
+      <select
+        aria-label="Move to project"
+        value={projectId}
+        onChange={(e) => {
+          setProjectId(e.target.value);
+          if (e.target.value) {
+            applyEdit({ type: "move", projectId: e.target.value });
+          }
+        }}
+        className={selectClassName}
+      >
+        <option value="">Move to project…</option>
+        {projects.map((project) => (
+          <option key={project.id} value={project.id}>
+            {project.name}
+          </option>
+        ))}
+      </select>
+      {projectId && sections.length > 0 && (
+        <select
+          aria-label="Move to section"
+          value=""
+          onChange={(e) =>
+            applyEdit({
+              type: "move",
+              projectId,
+              sectionId: e.target.value || null,
+            })
+          }
+          className={selectClassName}
+        >
+          <option value="">Section…</option>
+          {sections.map((section) => (
+            <option key={section.id} value={section.id}>
+              {section.name}
+            </option>
+          ))}
+        </select>
+      )}
+
+      <select
+        aria-label="Assign"
+        value=""
+        onChange={(e) =>
+          e.target.value &&
+          applyEdit({
+            type: "assign",
+            assigneeId: e.target.value === "none" ? null : e.target.value,
+          })
+        }
+        className={selectClassName}
+      >
+        <option value="">Assign…</option>
+        <option value="none">Unassigned</option>
+        {users.map((user) => (
+          <option key={user.id} value={user.id}>
+            {user.name}
+          </option>
+        ))}
+      </select>
+
+      <button
+        onClick={() => applyEdit({ type: "complete" })}
+        className="px-2 py-1 text-sm text-white bg-blue-600 rounded hover:bg-blue-700"
+      >
+        Complete
+      </button>
+      <button onClick={handleDuplicate} className={selectClassName}>
+        Duplicate
+      </button>
+      <button
+        onClick={() => setSelectedTaskIds([])}
+        className="ml-auto px-2 py-1 text-sm text-gray-600 hover:text-gray-800"
+      >
+        Clear selection
+      </button>
+
+      {error && (
+        <span role="alert" className="w-full text-sm text-red-600">
+          {error}
+        </span>
+      )}
+    </div>
+  );
+};
@@ -27,6 +27,7 @@ const DashboardTaskList: React.FC<DashboardTaskListProps> = ({
     setFilter,
     applyFilters,
     initializeSampleTasks,
+    taskError,
   } = useTaskStore();
 
   const [searchQuery, setSearchQuery] = useState("");
@@ -240,6 +241,11 @@ const DashboardTaskList: React.FC<DashboardTaskListProps> = ({
 
       {/* Task List */}
       <div className="space-y-4">
+        {taskError && (
+          <p className="text-sm text-red-600" role="alert">
+            {taskError}
+          </p>
+        )}
         {displayedTasks.length === 0 ? (
           <div className="text-center py-8 text-gray-500 dark:text-gray-400">
             <p>No tasks found. Create a new task to get started!</p>
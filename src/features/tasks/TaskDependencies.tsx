@@ -0,0 +1,210 @@
+import React, { useMemo, useState } from "react";
+import { Task, TaskDependencyChainEntry } from "../../types/task";
+import { useTaskStore } from "../../store/useTaskStore";
+import { taskService } from "../../services/taskService";
+import { formatDate } from "../../utils/dateUtils";
+import {
+  DependencyTask,
+  getDependencyStatus,
+  getDownstreamChain,
+  getUpstreamChain,
+} from "../../utils/dependencyUtils";
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+const ChainList: React.FC<{
+  title: string;
+  entries: TaskDependencyChainEntry<DependencyTask>[];
+}> = ({ title, entries }) => (
+  <div>
+    <h4 className="text-xs font-medium text-gray-500 mb-1">{title}</h4>
+    {entries.length === 0 ? (
+      <p className="text-sm text-gray-400">None</p>
+    ) : (
+      <ul className="space-y-1">
+        {entries.map(({ task, depth, lagDays }) => (
+          <li
+            key={task.id}
+            className="text-sm text-gray-700"
+            style={{ paddingLeft: `${(depth - 1) * 12}px` }}
+          >
+            <span
+              className={task.completed ? "line-through text-gray-400" : ""}
+            >
+              {task.title}
+            </span>
+            {lagDays > 0 && (
+              <span className="ml-1 text-xs text-gray-400">+{lagDays}d</span>
+            )}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
+
+/**
+ * Tasks this task waits on, with controls to add and remove them, and the
+ * full chains of tasks upstream and downstream of it
+ */
+const TaskDependencies: React.FC<TaskDependenciesProps> = ({ task }) => {
+  const tasks = useTaskStore((state) => state.tasks);
+  const enforceDependencies = useTaskStore(
+    (state) => state.enforceDependencies,
+  );
+  const setEnforceDependencies = useTaskStore(
+    (state) => state.setEnforceDependencies,
+  );
+  const current = tasks.find((entry) => entry.id === task.id) || task;
+  const [dependencyId, setDependencyId] = useState("");
+  const [lagDays, setLagDays] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  const status = useMemo(
+    () => getDependencyStatus(current, tasks),
+    [current, tasks],
+  );
+  const upstream = useMemo(
+    () => getUpstreamChain(current.id, tasks),
+    [current.id, tasks],
+  );
+  const downstream = useMemo(
+    () => getDownstreamChain(current.id, tasks),
+    [current.id, tasks],
+  );
+
+  const dependencies = (current.dependencies || [])
+    .map((id) => tasks.find((entry) => entry.id === id))
+    .filter((entry): entry is NonNullable<typeof entry> => Boolean(entry));
+  const candidates = tasks.filter(
+    (entry) =>
+      entry.id !== current.id && !current.dependencies?.includes(entry.id),
+  );
+
+  const handleAdd = async () => {
+    if (!dependencyId) return;
+
+    try {
+      setError(null);
+      await taskService.addDependency(current.id, dependencyId, lagDays);
+      setDependencyId("");
+      setLagDays(0);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to add dependency");
+    }
+  };
+
+  const handleRemove = async (id: string) => {
+    try {
+      setError(null);
+      await taskService.removeDependency(current.id, id);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove dependency",
+      );
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <h3 className="text-sm font-medium text-gray-500 uppercase tracking-wide">
+          Dependencies
+        </h3>
+        {status.blocked && (
+          <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+            {status.blockers.length > 0
+              ? "Blocked"
+              : `Available ${formatDate(status.availableFrom as Date)}`}
+          </span>
+        )}
+      </div>
+
+      {dependencies.length > 0 && (
+        <ul className="space-y-1">
+          {dependencies.map((dependency) => (
+            <li
+              key={dependency.id}
+              className="flex items-center justify-between text-sm"
+            >
+              <span
+                className={
+                  dependency.completed
+                    ? "line-through text-gray-400"
+                    : "text-gray-700"
+                }
+              >
+                {dependency.title}
+                {current.dependencyLags?.[dependency.id] ? (
+                  <span className="ml-1 text-xs text-gray-400">
+                    +{current.dependencyLags[dependency.id]}d
+                  </span>
+                ) : null}
+              </span>
+              <button
+                onClick={() => handleRemove(dependency.id)}
+                className="text-xs text-red-600 hover:underline"
+              >
+                Remove
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex items-center space-x-2">
+        <select
+          value={dependencyId}
+          onChange={(e) => setDependencyId(e.target.value)}
+          className="flex-1 px-2 py-1 border border-gray-300 rounded text-sm"
+        >
+          <option value="">Add a task this waits on…</option>
+          {candidates.map((candidate) => (
+            <option key={candidate.id} value={candidate.id}>
+              {candidate.title}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          min={0}
+          value={lagDays}
+          onChange={(e) => setLagDays(Math.max(0, Number(e.target.value)))}
+          className="w-16 px-2 py-1 border border-gray-300 rounded text-sm"
+          title="Lag in days"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!dependencyId}
+          className="px-3 py-1 bg-blue-600 text-white rounded text-sm hover:bg-blue-700 disabled:opacity-50"
+        >
+          Add
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <label className="flex items-center space-x-2 text-sm text-gray-600">
+        <input
+          type="checkbox"
+          checked={enforceDependencies}
+          onChange={(e) => setEnforceDependencies(e.target.checked)}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+        />
+        <span>Prevent completing tasks before their dependencies</span>
+      </label>
+
+      {(upstream.length > 0 || downstream.length > 0) && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <ChainList title="Waits on" entries={upstream} />
+          <ChainList title="Blocks" entries={downstream} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { TaskDependencies };
+export default TaskDependencies;
@@ -4,7 +4,10 @@ import { PriorityBadge } from "../../components/PriorityBadge";
 import { StatusBadge } from "../../components/StatusBadge";
 import { formatDate } from "../../utils/dateUtils";
 import { SubTaskList } from "./SubTaskList";
+import { TaskDependencies } from "./TaskDependencies";
 import CommentFeatureImplementation from "../comments/CommentFeatureImplementation";
+import { AttachmentPanel } from "../attachments/AttachmentPanel";
+import { PresenceAvatars } from "../collaboration/PresenceAvatars";
 
 interface TaskDetailProps {
   task: Task;
@@ -40,6 +43,11 @@ const TaskDetail: React.FC<TaskDetailProps> = ({
         </div>
 
         <div className="flex items-center space-x-2">
+          <PresenceAvatars
+            taskId={task.id}
+            projectId={task.projectId || undefined}
+          />
+
           {onEdit && (
             <button
               onClick={onEdit}
@@ -175,9 +183,16 @@ const TaskDetail: React.FC<TaskDetailProps> = ({
               </div>
             )}
           </div>
+
+          <TaskDependencies task={task} />
         </div>
       </div>
 
+      {/* Attachments Section */}
+      <div className="mt-6 border-t border-gray-200 pt-6">
+        <AttachmentPanel target={{ taskId: task.id }} />
+      </div>
+
       {/* Comments Section */}
       <div className="mt-6 border-t border-gray-200 pt-6">
         <CommentFeatureImplementation
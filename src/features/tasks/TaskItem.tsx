@@ -1,14 +1,30 @@
-import React from "react";
+import React, { useState } from "react";
 import { Task } from "../../types/task";
 import { PriorityBadge } from "../../components/PriorityBadge";
 import { StatusBadge } from "../../components/StatusBadge";
-import { MessageSquare } from "lucide-react";
+import { MessageSquare, Paperclip } from "lucide-react";
+import { useTaskStore } from "../../store/useTaskStore";
+import { isTaskBlocked } from "../../utils/dependencyUtils";
+import { attachmentService } from "../../services/attachmentService";
+import { AttachmentDropZone } from "../attachments/AttachmentDropZone";
+import { AttachmentRejections } from "../attachments/AttachmentRejections";
+import {
+  AttachmentLimitError,
+  RejectedAttachment,
+} from "../../utils/attachmentUtils";
 
 interface TaskItemProps {
   task: Task;
   onToggleCompletion: (taskId: string) => Promise<void>;
   onDelete: (taskId: string) => Promise<void>;
   onClick?: (task: Task) => void;
+
+  /**
+   * Selection for bulk edits; shift- and Ctrl-clicks go to `onSelect`
+   */
+  selected?: boolean;
+  focused?: boolean;
+  onSelect?: (taskId: string, event: React.MouseEvent) => boolean;
 }
 
 const TaskItem: React.FC<TaskItemProps> = ({
@@ -16,7 +32,22 @@ const TaskItem: React.FC<TaskItemProps> = ({
   onToggleCompletion,
   onDelete,
   onClick,
+  selected = false,
+  focused = false,
+  onSelect,
 }) => {
+  const blocked = useTaskStore(
+    (state) =>
+      !task.completed &&
+      Boolean(task.dependencies?.length) &&
+      isTaskBlocked(task, state.tasks),
+  );
+
+  const [rejected, setRejected] = useState<
+    RejectedAttachment<{ name: string }>[]
+  >([]);
+  const [attachError, setAttachError] = useState<string | null>(null);
+
   const handleToggleCompletion = async (e: React.MouseEvent) => {
     e.stopPropagation();
     try {
@@ -37,129 +68,166 @@ const TaskItem: React.FC<TaskItemProps> = ({
     }
   };
 
-  const handleClick = () => {
+  const handleFiles = async (files: File[]) => {
+    setRejected([]);
+    setAttachError(null);
+    try {
+      const result = await attachmentService.addAttachments(files, {
+        taskId: task.id,
+      });
+      setRejected(result.rejected);
+    } catch (error) {
+      if (error instanceof AttachmentLimitError) {
+        setRejected(error.rejected);
+      } else {
+        setAttachError(
+          error instanceof Error ? error.message : "Failed to attach files",
+        );
+      }
+    }
+  };
+
+  const handleClick = (e: React.MouseEvent) => {
+    if (onSelect?.(task.id, e)) return;
     if (onClick) {
       onClick(task);
     }
   };
 
   return (
-    <div
-      className={`p-4 border rounded-lg shadow-sm hover:shadow-md transition-shadow cursor-pointer ${
-        task.completed
-          ? "bg-gray-50 border-gray-200"
-          : "bg-white border-gray-100"
-      }`}
-      onClick={handleClick}
-    >
-      <div className="flex items-start justify-between">
-        <div className="flex items-start space-x-3 flex-1">
-          <input
-            type="checkbox"
-            checked={task.completed}
-            onChange={handleToggleCompletion}
-            onClick={(e) => e.stopPropagation()}
-            className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
-          />
-
-          <div className="flex-1 min-w-0">
-            <div className="flex items-center space-x-2">
-              <h3
-                className={`text-sm font-medium truncate ${
-                  task.completed
-                    ? "line-through text-gray-400"
-                    : "text-gray-900"
-                }`}
-              >
-                {task.title}
-              </h3>
-              <PriorityBadge priority={task.priority} />
-              <StatusBadge status={task.status} />
-            </div>
+    <AttachmentDropZone onFiles={handleFiles}>
+      <div
+        className={`p-4 border rounded-lg shadow-sm hover:shadow-md transition-shadow cursor-pointer ${
+          task.completed
+            ? "bg-gray-50 border-gray-200"
+            : "bg-white border-gray-100"
+        } ${selected ? "ring-2 ring-blue-500" : focused ? "ring-1 ring-gray-400" : ""}`}
+        onClick={handleClick}
+        aria-selected={onSelect ? selected : undefined}
+      >
+        <div className="flex items-start justify-between">
+          <div className="flex items-start space-x-3 flex-1">
+            <input
+              type="checkbox"
+              checked={task.completed}
+              onChange={handleToggleCompletion}
+              onClick={(e) => e.stopPropagation()}
+              className="mt-1 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+            />
 
-            {task.description && (
-              <p
-                className={`text-sm text-gray-500 mt-1 truncate ${
-                  task.completed ? "line-through" : ""
-                }`}
-              >
-                {task.description}
-              </p>
-            )}
-
-            <div className="flex items-center space-x-4 text-xs text-gray-500 mt-2">
-              {task.dueDate && (
-                <span className="flex items-center">
-                  <svg
-                    className="w-3 h-3 mr-1"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
-                    />
-                  </svg>
-                  {task.dueDate.toLocaleDateString()}
-                </span>
-              )}
+            <div className="flex-1 min-w-0">
+              <div className="flex items-center space-x-2">
+                <h3
+                  className={`text-sm font-medium truncate ${
+                    task.completed
+                      ? "line-through text-gray-400"
+                      : "text-gray-900"
+                  }`}
+                >
+                  {task.title}
+                </h3>
+                <PriorityBadge priority={task.priority} />
+                <StatusBadge status={task.status} />
+                {blocked && (
+                  <span className="px-2 py-0.5 text-xs font-medium rounded-full bg-amber-100 text-amber-800">
+                    Blocked
+                  </span>
+                )}
+              </div>
 
-              {task.projectId && (
-                <span className="flex items-center">
-                  <svg
-                    className="w-3 h-3 mr-1"
-                    fill="none"
-                    stroke="currentColor"
-                    viewBox="0 0 24 24"
-                  >
-                    <path
-                      strokeLinecap="round"
-                      strokeLinejoin="round"
-                      strokeWidth={2}
-                      d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2h10a2 2 0 012 2"
-                    />
-                  </svg>
-                  Project: {task.projectId}
-                </span>
+              {task.description && (
+                <p
+                  className={`text-sm text-gray-500 mt-1 truncate ${
+                    task.completed ? "line-through" : ""
+                  }`}
+                >
+                  {task.description}
+                </p>
               )}
 
-              {task.commentIds && task.commentIds.length > 0 && (
-                <span className="flex items-center">
-                  <MessageSquare className="w-3 h-3 mr-1" />
-                  {task.commentIds.length} comment
-                  {task.commentIds.length > 1 ? "s" : ""}
-                </span>
-              )}
+              <div className="flex items-center space-x-4 text-xs text-gray-500 mt-2">
+                {task.dueDate && (
+                  <span className="flex items-center">
+                    <svg
+                      className="w-3 h-3 mr-1"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z"
+                      />
+                    </svg>
+                    {task.dueDate.toLocaleDateString()}
+                  </span>
+                )}
+
+                {task.projectId && (
+                  <span className="flex items-center">
+                    <svg
+                      className="w-3 h-3 mr-1"
+                      fill="none"
+                      stroke="currentColor"
+                      viewBox="0 0 24 24"
+                    >
+                      <path
+                        strokeLinecap="round"
+                        strokeLinejoin="round"
+                        strokeWidth={2}
+                        d="M19 11H5m14 0a2 2 0 012 2v6a2 2 0 01-2 2H5a2 2 0 01-2-2v-6a2 2 0 012-2m14 0V9a2 2 0 00-2-2M5 11V9a2 2 0 012-2h10a2 2 0 012 2"
+                      />
+                    </svg>
+                    Project: {task.projectId}
+                  </span>
+                )}
+
+                {task.commentIds && task.commentIds.length > 0 && (
+                  <span className="flex items-center">
+                    <MessageSquare className="w-3 h-3 mr-1" />
+                    {task.commentIds.length} comment
+                    {task.commentIds.length > 1 ? "s" : ""}
+                  </span>
+                )}
+
+                {task.attachmentIds && task.attachmentIds.length > 0 && (
+                  <span className="flex items-center">
+                    <Paperclip className="w-3 h-3 mr-1" />
+                    {task.attachmentIds.length} attachment
+                    {task.attachmentIds.length > 1 ? "s" : ""}
+                  </span>
+                )}
+              </div>
             </div>
-          </div>
 
-          <div className="flex items-center space-x-2">
-            <button
-              onClick={handleDelete}
-              className="text-red-500 hover:text-red-700 p-1 rounded-full hover:bg-red-50"
-              title="Delete task"
-            >
-              <svg
-                className="w-4 h-4"
-                fill="none"
-                stroke="currentColor"
-                viewBox="0 0 24 24"
+            <div className="flex items-center space-x-2">
+              <button
+                onClick={handleDelete}
+                className="text-red-500 hover:text-red-700 p-1 rounded-full hover:bg-red-50"
+                title="Delete task"
               >
-                <path
-                  strokeLinecap="round"
-                  strokeLinejoin="round"
-                  strokeWidth={2}
-                  d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
-                />
-              </svg>
-            </button>
+                <svg
+                  className="w-4 h-4"
+                  fill="none"
+                  stroke="currentColor"
+                  viewBox="0 0 24 24"
+                >
+                  <path
+                    strokeLinecap="round"
+                    strokeLinejoin="round"
+                    strokeWidth={2}
+                    d="M19 7l-.867 12.142A2 2 0 0116.138 21H7.862a2 2 0 01-1.995-1.858L5 7m5 4v6m4-6v6m1-10V4a1 1 0 00-1-1h-4a1 1 0 00-1 1v3M4 7h16"
+                  />
+                </svg>
+              </button>
+            </div>
           </div>
         </div>
+        <AttachmentRejections rejected={rejected} error={attachError} />
       </div>
-    </div>
+    </AttachmentDropZone>
   );
 };
 
@@ -4,6 +4,8 @@ import TaskItem from "./TaskItem";
 import RecurringTaskList from "../recurring/RecurringTaskList";
 import { useTasks } from "../../hooks/useTasks";
 import { useRecurringTaskIntegration } from "../../hooks/useRecurringTaskIntegration";
+import { useTaskSelection } from "../../hooks/useTaskSelection";
+import { BulkTaskToolbar } from "./BulkTaskToolbar";
 
 interface TaskListProps {
   projectId?: string;
@@ -32,6 +34,13 @@ const TaskList: React.FC<TaskListProps> = ({
     return getRecurringTasks();
   }, [getRecurringTasks]);
 
+  const taskIds = useMemo(
+    () => processedTasks.map((task) => task.id),
+    [processedTasks],
+  );
+  const { isSelected, focusedId, handleTaskClick, handleKeyDown } =
+    useTaskSelection(taskIds);
+
   if (isLoading) {
     return (
       <div className="flex justify-center items-center h-32">
@@ -67,7 +76,14 @@ const TaskList: React.FC<TaskListProps> = ({
           <h3 className="text-lg font-semibold text-gray-900 mb-3">
             Regular Tasks
           </h3>
-          <div className="space-y-2">
+          <BulkTaskToolbar />
+          <div
+            className="space-y-2"
+            role="listbox"
+            aria-multiselectable="true"
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+          >
             {processedTasks.map((task) => (
               <TaskItem
                 key={task.id}
@@ -75,6 +91,9 @@ const TaskList: React.FC<TaskListProps> = ({
                 onToggleCompletion={toggleCompletion}
                 onDelete={deleteTask}
                 onClick={onTaskClick}
+                selected={isSelected(task.id)}
+                focused={focusedId === task.id}
+                onSelect={handleTaskClick}
               />
             ))}
           </div>
@@ -0,0 +1,180 @@
+import React, { useState } from "react";
+import { format } from "date-fns";
+import { Template } from "../../types/template";
+import { Project } from "../../types/project";
+import { useTemplates } from "../../hooks/useTemplates";
+import { useUsers } from "../../hooks/useUsers";
+import { countProjectTemplateTasks } from "../../utils/projectTemplateUtils";
+import { X, Folder } from "lucide-react";
+
+interface ProjectTemplateDialogProps {
+  template: Template;
+  onClose: () => void;
+  onCreated: (project: Project) => void;
+}
+
+/**
+ * Asks for a name, start date and role assignments, then creates a
+ * project from a project template
+ */
+const ProjectTemplateDialog: React.FC<ProjectTemplateDialogProps> = ({
+  template,
+  onClose,
+  onCreated,
+}) => {
+  const structure = template.project;
+  const { createProjectFromTemplate } = useTemplates();
+  const { users } = useUsers();
+  const [name, setName] = useState(structure?.project.name || template.name);
+  const [startDate, setStartDate] = useState(format(new Date(), "yyyy-MM-dd"));
+  const [roleAssignments, setRoleAssignments] = useState<
+    Record<string, string>
+  >({});
+  const [isCreating, setIsCreating] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  if (!structure) return null;
+
+  const handleCreate = async () => {
+    if (!name.trim()) {
+      setError("Project name is required");
+      return;
+    }
+
+    try {
+      setIsCreating(true);
+      setError(null);
+      const { project } = await createProjectFromTemplate(template, {
+        name,
+        startDate: new Date(`${startDate}T00:00:00`),
+        roleAssignments,
+      });
+      onCreated(project);
+    } catch (err) {
+      setError(
+        err instanceof Error
+          ? err.message
+          : "Failed to create project from template",
+      );
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-lg shadow-xl w-full max-w-lg flex flex-col overflow-hidden">
+        <div className="flex justify-between items-center p-4 border-b border-gray-200">
+          <h2 className="text-lg font-semibold text-gray-900 flex items-center">
+            <Folder className="w-5 h-5 mr-2 text-green-600" />
+            Create from {template.name}
+          </h2>
+          <button
+            onClick={onClose}
+            className="p-1 text-gray-500 hover:text-gray-700 rounded-full hover:bg-gray-100"
+            title="Close"
+          >
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          <p className="text-sm text-gray-600">
+            {structure.sections.length} sections,{" "}
+            {countProjectTemplateTasks(structure)} tasks
+          </p>
+
+          <div>
+            <label
+              htmlFor="project-template-name"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Project name
+            </label>
+            <input
+              id="project-template-name"
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            />
+          </div>
+
+          <div>
+            <label
+              htmlFor="project-template-start"
+              className="block text-sm font-medium text-gray-700 mb-1"
+            >
+              Start date
+            </label>
+            <input
+              id="project-template-start"
+              type="date"
+              value={startDate}
+              onChange={(e) => setStartDate(e.target.value)}
+              className="w-full px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+            />
+            <p className="mt-1 text-xs text-gray-500">
+              Due dates are moved so the project starts on this day.
+            </p>
+          </div>
+
+          {structure.roles.length > 0 && (
+            <div className="space-y-2">
+              <h3 className="text-sm font-medium text-gray-700">Roles</h3>
+              {structure.roles.map((role) => (
+                <div key={role} className="flex items-center space-x-2">
+                  <span className="w-1/3 text-sm text-gray-600 truncate">
+                    {role}
+                  </span>
+                  <select
+                    value={roleAssignments[role] || ""}
+                    onChange={(e) =>
+                      setRoleAssignments((prev) => ({
+                        ...prev,
+                        [role]: e.target.value,
+                      }))
+                    }
+                    className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm text-sm focus:outline-none focus:ring-green-500 focus:border-green-500"
+                  >
+                    <option value="">Unassigned</option>
+                    {users.map((user) => (
+                      <option key={user.id} value={user.id}>
+                        {user.name}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+              {error}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end items-center p-4 border-t border-gray-200 space-x-3">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-gray-500 focus:ring-offset-2"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleCreate}
+            disabled={isCreating}
+            className="px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-2"
+          >
+            {isCreating ? "Creating..." : "Create Project"}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export { ProjectTemplateDialog };
+export default ProjectTemplateDialog;
@@ -3,6 +3,10 @@ import { Template, TemplateCategory } from "../../types/template";
 import { useTemplates } from "../../hooks/useTemplates";
 import { useTemplateCategories } from "../../hooks/useTemplateCategories";
 import { TemplateList, TemplateForm, TemplatePreview } from "./";
+import {
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+} from "../../utils/templateUtils";
 import {
   Plus,
   Search,
@@ -81,7 +85,9 @@ const TemplateFeatureImplementation: React.FC<
       onTemplateSelected(template);
     }
     setPreviewTemplateData(template);
-    setPreviewVariables(template.variables || {});
+    setPreviewVariables(
+      getDefaultTemplateValues(getTemplateVariableDefinitions(template)),
+    );
     setShowPreview(true);
   };
 
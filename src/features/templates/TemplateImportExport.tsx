@@ -0,0 +1,162 @@
+import React, { useRef, useState } from "react";
+import { TemplateImportResult } from "../../types/template";
+import { templateExportService } from "../../services/templateExportService";
+import { Download, Upload } from "lucide-react";
+
+interface TemplateImportExportProps {
+  /**
+   * Templates to export; all templates when omitted
+   */
+  templateIds?: string[];
+  onImported?: (result: TemplateImportResult) => void;
+}
+
+const downloadFile = (text: string, fileName: string, type: string) => {
+  const blob = new Blob([text], { type });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * Export buttons and a file picker for importing JSON or Markdown
+ * templates, with a report of what was imported
+ */
+const TemplateImportExport: React.FC<TemplateImportExportProps> = ({
+  templateIds,
+  onImported,
+}) => {
+  const fileInput = useRef<HTMLInputElement>(null);
+  const [isBusy, setIsBusy] = useState(false);
+  const [result, setResult] = useState<TemplateImportResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      const json = await templateExportService.exportTemplates(templateIds);
+      downloadFile(json, "templates.json", "application/json");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleExportMarkdown = async () => {
+    if (templateIds?.length !== 1) return;
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      const markdown = await templateExportService.exportTemplateMarkdown(
+        templateIds[0],
+      );
+      downloadFile(markdown, "template.md", "text/markdown");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to export");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = "";
+    if (files.length === 0) return;
+
+    try {
+      setIsBusy(true);
+      setError(null);
+      const importResult = await templateExportService.importFiles(
+        await Promise.all(
+          files.map(async (file) => ({
+            name: file.name,
+            text: await file.text(),
+          })),
+        ),
+      );
+      setResult(importResult);
+      onImported?.(importResult);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to import");
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <button
+          onClick={handleExport}
+          disabled={isBusy}
+          className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm"
+        >
+          <Download className="w-4 h-4 mr-1" />
+          Export
+        </button>
+        {templateIds?.length === 1 && (
+          <button
+            onClick={handleExportMarkdown}
+            disabled={isBusy}
+            className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm"
+          >
+            <Download className="w-4 h-4 mr-1" />
+            Markdown
+          </button>
+        )}
+        <button
+          onClick={() => fileInput.current?.click()}
+          disabled={isBusy}
+          className="flex items-center px-3 py-2 border border-gray-300 text-gray-700 rounded-md hover:bg-gray-50 disabled:opacity-50 text-sm"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          Import
+        </button>
+        <input
+          ref={fileInput}
+          type="file"
+          accept=".json,.md,.markdown"
+          multiple
+          onChange={handleFiles}
+          className="hidden"
+        />
+      </div>
+
+      {error && (
+        <div className="p-3 bg-red-50 border border-red-200 rounded text-sm text-red-700">
+          {error}
+        </div>
+      )}
+
+      {result && (
+        <div className="p-3 bg-gray-50 border border-gray-200 rounded text-sm text-gray-700 space-y-1">
+          <p>
+            Imported {result.imported.length} templates
+            {result.categories.length > 0 &&
+              ` and ${result.categories.length} categories`}
+            {result.duplicates.length > 0 &&
+              `, skipped ${result.duplicates.length} duplicates`}
+            .
+          </p>
+          {result.errors.map((itemError) => (
+            <p key={itemError.index} className="text-red-700">
+              {itemError.name || `Item ${itemError.index + 1}`}:{" "}
+              {itemError.errors.join("; ")}
+            </p>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export { TemplateImportExport };
+export default TemplateImportExport;
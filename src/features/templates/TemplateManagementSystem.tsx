@@ -3,6 +3,11 @@ import { Template, TemplateCategory } from "../../types/template";
 import { useTemplates } from "../../hooks/useTemplates";
 import { useTemplateCategories } from "../../hooks/useTemplateCategories";
 import { TemplateList, TemplateForm, TemplatePreview } from "./";
+import TemplateImportExport from "./TemplateImportExport";
+import {
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+} from "../../utils/templateUtils";
 import {
   Plus,
   Search,
@@ -78,7 +83,9 @@ const TemplateManagementSystem: React.FC<TemplateManagementSystemProps> = ({
 
   const handleTemplateClick = (template: Template) => {
     setPreviewTemplateData(template);
-    setPreviewVariables(template.variables || {});
+    setPreviewVariables(
+      getDefaultTemplateValues(getTemplateVariableDefinitions(template)),
+    );
     setShowPreview(true);
   };
 
@@ -175,6 +182,8 @@ const TemplateManagementSystem: React.FC<TemplateManagementSystemProps> = ({
         </h2>
 
         <div className="flex items-center space-x-2">
+          <TemplateImportExport />
+
           <button
             onClick={handleCreateTemplate}
             className="flex items-center px-3 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 text-sm"
@@ -1,17 +1,22 @@
 // @ts-nocheck
-import React, { useState, useEffect } from "react";
-import { Template } from "../../types/template";
-import { useTemplates } from "../../hooks/useTemplates";
+import React, { useState, useEffect, useMemo } from "react";
+import { Template, TemplateApplicationResult } from "../../types/template";
+import { useUsers } from "../../hooks/useUsers";
+import { useProjects } from "../../hooks/useProjects";
 import {
   generateTemplatePreview,
-  applyTemplateVariables,
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+  renderTemplate,
+  validateTemplateVariables,
 } from "../../utils/templateUtils";
+import TemplateVariablesForm from "./TemplateVariablesForm";
 import { X, Copy, Download, Eye } from "lucide-react";
 
 interface TemplatePreviewProps {
   template: Template;
   onClose: () => void;
-  onApply: (result: string) => void;
+  onApply: (result: string, application?: TemplateApplicationResult) => void;
 }
 
 const TemplatePreview: React.FC<TemplatePreviewProps> = ({
@@ -19,10 +24,18 @@ const TemplatePreview: React.FC<TemplatePreviewProps> = ({
   onClose,
   onApply,
 }) => {
-  const { previewTemplate } = useTemplates();
+  const { users } = useUsers();
+  const { projects } = useProjects();
+  const definitions = useMemo(
+    () => getTemplateVariableDefinitions(template),
+    [template],
+  );
   const [previewContent, setPreviewContent] = useState("");
-  const [variables, setVariables] = useState<Record<string, string>>(
-    template.variables || {},
+  const [variables, setVariables] = useState<Record<string, string>>(() =>
+    getDefaultTemplateValues(definitions),
+  );
+  const [variableErrors, setVariableErrors] = useState<Record<string, string>>(
+    {},
   );
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -57,13 +70,34 @@ const TemplatePreview: React.FC<TemplatePreviewProps> = ({
       ...prev,
       [key]: value,
     }));
+    setVariableErrors((prev) => {
+      const { [key]: _removed, ...rest } = prev;
+      return rest;
+    });
   };
 
   const handleApply = () => {
     try {
-      // Apply template with current variables
-      const result = applyTemplateVariables(template.content, variables);
-      onApply(result);
+      // Ask for the variables again until they are valid
+      const errors = validateTemplateVariables(definitions, variables);
+      if (Object.keys(errors).length > 0) {
+        setVariableErrors(errors);
+        setActiveTab("variables");
+        return;
+      }
+
+      const { result, generated } = renderTemplate(
+        template.content,
+        variables,
+        { definitions, users, projects },
+      );
+      onApply(result, {
+        success: true,
+        templateId: template.id,
+        result,
+        variables,
+        generated,
+      });
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to apply template");
     }
@@ -146,7 +180,7 @@ const TemplatePreview: React.FC<TemplatePreviewProps> = ({
                 : "text-gray-500 hover:text-gray-700"
             }`}
           >
-            Variables ({Object.keys(variables).length})
+            Variables ({definitions.length})
           </button>
         </div>
 
@@ -172,24 +206,12 @@ const TemplatePreview: React.FC<TemplatePreviewProps> = ({
                 Customize the template variables before applying:
               </p>
 
-              <div className="space-y-3">
-                {Object.entries(variables).map(([key, value]) => (
-                  <div key={key} className="flex items-center space-x-2">
-                    <span className="font-mono text-sm bg-gray-100 px-2 py-1 rounded">
-                      <code>{`{${key}}`}</code>
-                    </span>
-                    <input
-                      type="text"
-                      value={value}
-                      onChange={(e) =>
-                        handleVariableChange(key, e.target.value)
-                      }
-                      className="flex-1 px-3 py-2 border border-gray-300 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500"
-                      placeholder={`Value for ${key}`}
-                    />
-                  </div>
-                ))}
-              </div>
+              <TemplateVariablesForm
+                definitions={definitions}
+                values={variables}
+                errors={variableErrors}
+                onChange={handleVariableChange}
+              />
             </div>
           )}
         </div>
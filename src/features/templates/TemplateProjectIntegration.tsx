@@ -1,19 +1,41 @@
 import React, { useState } from "react";
 import { Template } from "../../types/template";
+import { Project } from "../../types/project";
 import { useTemplates } from "../../hooks/useTemplates";
 import { TemplateList, TemplatePreview } from "./";
-import { Plus, Search, Template as TemplateIcon, Folder } from "lucide-react";
+import ProjectTemplateDialog from "./ProjectTemplateDialog";
+import {
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+} from "../../utils/templateUtils";
+import {
+  Plus,
+  Save,
+  Search,
+  Template as TemplateIcon,
+  Folder,
+} from "lucide-react";
 
 interface TemplateProjectIntegrationProps {
   onTemplateSelected: (template: Template) => void;
   onTemplateApplied: (content: string) => void;
+  /**
+   * Project offered for "Save as template"
+   */
+  projectId?: string;
+  onProjectCreated?: (project: Project) => void;
 }
 
 const TemplateProjectIntegration: React.FC<TemplateProjectIntegrationProps> = ({
   onTemplateSelected,
   onTemplateApplied,
+  projectId,
+  onProjectCreated,
 }) => {
-  const { templates, categories, isLoading, error } = useTemplates();
+  const { templates, categories, isLoading, error, saveProjectAsTemplate } =
+    useTemplates();
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveMessage, setSaveMessage] = useState<string | null>(null);
 
   const [searchQuery, setSearchQuery] = useState("");
   const [selectedCategory, setSelectedCategory] = useState<string | "all">(
@@ -44,7 +66,9 @@ const TemplateProjectIntegration: React.FC<TemplateProjectIntegrationProps> = ({
 
   const handleTemplateClick = (template: Template) => {
     setSelectedTemplate(template);
-    setPreviewVariables(template.variables || {});
+    setPreviewVariables(
+      getDefaultTemplateValues(getTemplateVariableDefinitions(template)),
+    );
     setShowPreview(true);
     onTemplateSelected(template);
   };
@@ -54,6 +78,28 @@ const TemplateProjectIntegration: React.FC<TemplateProjectIntegrationProps> = ({
     setShowPreview(false);
   };
 
+  const handleProjectCreated = (project: Project) => {
+    onProjectCreated?.(project);
+    setShowPreview(false);
+  };
+
+  const handleSaveProject = async () => {
+    if (!projectId) return;
+
+    try {
+      setIsSaving(true);
+      setSaveMessage(null);
+      const template = await saveProjectAsTemplate(projectId);
+      setSaveMessage(`Saved as "${template.name}"`);
+    } catch (err) {
+      setSaveMessage(
+        err instanceof Error ? err.message : "Failed to save project",
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   return (
     <div className="space-y-4">
       {/* Project Template Integration Header */}
@@ -63,15 +109,29 @@ const TemplateProjectIntegration: React.FC<TemplateProjectIntegrationProps> = ({
           Project Templates
         </h3>
 
-        <button
-          onClick={() => setShowTemplateList(!showTemplateList)}
-          className="flex items-center px-3 py-1 bg-green-50 text-green-600 rounded-md hover:bg-green-100 text-sm"
-        >
-          <Plus className="w-4 h-4 mr-1" />
-          {showTemplateList ? "Hide Templates" : "Browse Templates"}
-        </button>
+        <div className="flex items-center space-x-2">
+          {projectId && (
+            <button
+              onClick={handleSaveProject}
+              disabled={isSaving}
+              className="flex items-center px-3 py-1 border border-green-200 text-green-600 rounded-md hover:bg-green-50 disabled:opacity-50 text-sm"
+            >
+              <Save className="w-4 h-4 mr-1" />
+              {isSaving ? "Saving..." : "Save as Template"}
+            </button>
+          )}
+          <button
+            onClick={() => setShowTemplateList(!showTemplateList)}
+            className="flex items-center px-3 py-1 bg-green-50 text-green-600 rounded-md hover:bg-green-100 text-sm"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            {showTemplateList ? "Hide Templates" : "Browse Templates"}
+          </button>
+        </div>
       </div>
 
+      {saveMessage && <p className="text-sm text-gray-600">{saveMessage}</p>}
+
       {/* Template Search and Controls */}
       {showTemplateList && (
         <div className="space-y-3">
@@ -148,7 +208,14 @@ const TemplateProjectIntegration: React.FC<TemplateProjectIntegrationProps> = ({
       )}
 
       {/* Template Preview Modal */}
-      {showPreview && selectedTemplate && (
+      {showPreview && selectedTemplate?.project && (
+        <ProjectTemplateDialog
+          template={selectedTemplate}
+          onClose={() => setShowPreview(false)}
+          onCreated={handleProjectCreated}
+        />
+      )}
+      {showPreview && selectedTemplate && !selectedTemplate.project && (
         <TemplatePreview
           template={selectedTemplate}
           onClose={() => setShowPreview(false)}
@@ -3,6 +3,10 @@ import { Template } from "../../types/template";
 import { useTemplates } from "../../hooks/useTemplates";
 import { useTemplateContext } from "../../context/TemplateContext";
 import { TemplateList, TemplatePreview } from "./";
+import {
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+} from "../../utils/templateUtils";
 import { Plus, Search, Template as TemplateIcon } from "lucide-react";
 
 interface TemplateTaskIntegrationProps {
@@ -42,7 +46,9 @@ const TemplateTaskIntegration: React.FC<TemplateTaskIntegrationProps> = ({
   const handleTemplateClick = (template: Template) => {
     onTemplateSelected(template);
     setPreviewTemplate(template);
-    setPreviewVariables(template.variables || {});
+    setPreviewVariables(
+      getDefaultTemplateValues(getTemplateVariableDefinitions(template)),
+    );
     setIsPreviewModalOpen(true);
   };
 
@@ -0,0 +1,132 @@
+import React from "react";
+import { TemplateVariableDefinition } from "../../types/template";
+import { useUsers } from "../../hooks/useUsers";
+import { useProjects } from "../../hooks/useProjects";
+
+interface TemplateVariablesFormProps {
+  definitions: TemplateVariableDefinition[];
+  values: Record<string, string>;
+  errors?: Record<string, string>;
+  onChange: (name: string, value: string) => void;
+}
+
+const inputClassName = (hasError: boolean) =>
+  `w-full px-3 py-2 border rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 ${
+    hasError ? "border-red-500" : "border-gray-300"
+  }`;
+
+/**
+ * Prompts for template variables with an input that matches each type
+ */
+const TemplateVariablesForm: React.FC<TemplateVariablesFormProps> = ({
+  definitions,
+  values,
+  errors = {},
+  onChange,
+}) => {
+  const { users } = useUsers();
+  const { projects } = useProjects();
+
+  if (definitions.length === 0) {
+    return (
+      <p className="text-sm text-gray-500">
+        This template has no variables to fill in.
+      </p>
+    );
+  }
+
+  const renderInput = (definition: TemplateVariableDefinition) => {
+    const id = `template-variable-${definition.name}`;
+    const value = values[definition.name] || "";
+    const className = inputClassName(Boolean(errors[definition.name]));
+    const handleChange = (
+      e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>,
+    ) => onChange(definition.name, e.target.value);
+
+    switch (definition.type) {
+      case "date":
+        return (
+          <input
+            id={id}
+            type="date"
+            value={value}
+            onChange={handleChange}
+            className={className}
+          />
+        );
+      case "user":
+      case "project":
+      case "select": {
+        const options =
+          definition.type === "select"
+            ? (definition.options || []).map((option) => ({
+                id: option,
+                name: option,
+              }))
+            : (definition.type === "user" ? users : projects).map((item) => ({
+                id: item.id,
+                name: item.name,
+              }));
+
+        return (
+          <select
+            id={id}
+            value={value}
+            onChange={handleChange}
+            className={className}
+          >
+            <option value="">Select...</option>
+            {options.map((option) => (
+              <option key={option.id} value={option.id}>
+                {option.name}
+              </option>
+            ))}
+          </select>
+        );
+      }
+      default:
+        return (
+          <input
+            id={id}
+            type="text"
+            value={value}
+            onChange={handleChange}
+            maxLength={definition.maxLength}
+            className={className}
+            placeholder={`Value for ${definition.name}`}
+          />
+        );
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {definitions.map((definition) => (
+        <div key={definition.name}>
+          <label
+            htmlFor={`template-variable-${definition.name}`}
+            className="block text-sm font-medium text-gray-700 mb-1"
+          >
+            {definition.label || definition.name}
+            {definition.required && <span className="text-red-500"> *</span>}
+            <code className="ml-2 font-mono text-xs bg-gray-100 px-1 rounded">{`{{${definition.name}}}`}</code>
+          </label>
+          {renderInput(definition)}
+          {definition.description && (
+            <p className="mt-1 text-xs text-gray-500">
+              {definition.description}
+            </p>
+          )}
+          {errors[definition.name] && (
+            <p className="mt-1 text-sm text-red-600">
+              {errors[definition.name]}
+            </p>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export { TemplateVariablesForm };
+export default TemplateVariablesForm;
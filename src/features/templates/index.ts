@@ -6,6 +6,9 @@ export { default as TemplateList } from "./TemplateList";
 export { default as TemplateItem } from "./TemplateItem";
 export { default as TemplateForm } from "./TemplateForm";
 export { default as TemplatePreview } from "./TemplatePreview";
+export { default as TemplateVariablesForm } from "./TemplateVariablesForm";
+export { default as ProjectTemplateDialog } from "./ProjectTemplateDialog";
+export { default as TemplateImportExport } from "./TemplateImportExport";
 export { default as TemplateTaskIntegration } from "./TemplateTaskIntegration";
 export { default as TemplateProjectIntegration } from "./TemplateProjectIntegration";
 export { default as TemplateFeatureImplementation } from "./TemplateFeatureImplementation";
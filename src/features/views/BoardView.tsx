@@ -1,10 +1,12 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { Task } from "../../types/task";
 import { ViewHeader } from "./ViewHeader";
 import { ViewToolbar } from "./ViewToolbar";
 import { ViewFilterControls } from "./ViewFilterControls";
 import { ViewSortControls } from "./ViewSortControls";
 import { TaskItem } from "../../features/tasks/TaskItem";
+import { BulkTaskToolbar } from "../tasks/BulkTaskToolbar";
+import { useTaskSelection } from "../../hooks/useTaskSelection";
 
 interface BoardViewProps {
   tasks: Task[];
@@ -32,6 +34,15 @@ export const BoardView: React.FC<BoardViewProps> = ({
     {} as Record<string, Task[]>,
   );
 
+  // Keyboard selection runs down each column in turn
+  const taskIds = useMemo(
+    () =>
+      columns.flatMap((column) => groupedTasks[column].map((task) => task.id)),
+    [columns, groupedTasks],
+  );
+  const { isSelected, focusedId, handleTaskClick, handleKeyDown } =
+    useTaskSelection(taskIds);
+
   return (
     <div className="board-view">
       <ViewHeader title="Board View" />
@@ -41,7 +52,14 @@ export const BoardView: React.FC<BoardViewProps> = ({
       </ViewToolbar>
 
       <div className="board-view-content">
-        <div className="board-columns">
+        <BulkTaskToolbar />
+        <div
+          className="board-columns"
+          role="listbox"
+          aria-multiselectable="true"
+          tabIndex={0}
+          onKeyDown={handleKeyDown}
+        >
           {columns.map((column) => (
             <div key={column} className="board-column">
               <h3 className="column-header">{column}</h3>
@@ -56,6 +74,9 @@ export const BoardView: React.FC<BoardViewProps> = ({
                       onClick={() => onTaskClick?.(task)}
                       onUpdate={() => onTaskUpdate?.(task)}
                       onDelete={() => onTaskDelete?.(task.id)}
+                      selected={isSelected(task.id)}
+                      focused={focusedId === task.id}
+                      onSelect={handleTaskClick}
                       draggable
                     />
                   ))
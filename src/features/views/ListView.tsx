@@ -1,10 +1,12 @@
-import React from "react";
+import React, { useMemo } from "react";
 import { Task } from "../../types/task";
 import { ViewHeader } from "./ViewHeader";
 import { ViewToolbar } from "./ViewToolbar";
 import { TaskItem } from "../../features/tasks/TaskItem";
 import { ViewFilterControls } from "./ViewFilterControls";
 import { ViewSortControls } from "./ViewSortControls";
+import { BulkTaskToolbar } from "../tasks/BulkTaskToolbar";
+import { useTaskSelection } from "../../hooks/useTaskSelection";
 
 interface ListViewProps {
   tasks: Task[];
@@ -19,6 +21,10 @@ export const ListView: React.FC<ListViewProps> = ({
   onTaskUpdate,
   onTaskDelete,
 }) => {
+  const taskIds = useMemo(() => tasks.map((task) => task.id), [tasks]);
+  const { isSelected, focusedId, handleTaskClick, handleKeyDown } =
+    useTaskSelection(taskIds);
+
   return (
     <div className="list-view">
       <ViewHeader title="List View" />
@@ -28,10 +34,17 @@ export const ListView: React.FC<ListViewProps> = ({
       </ViewToolbar>
 
       <div className="list-view-content">
+        <BulkTaskToolbar />
         {tasks.length === 0 ? (
           <div className="empty-state">No tasks found</div>
         ) : (
-          <div className="task-list">
+          <div
+            className="task-list"
+            role="listbox"
+            aria-multiselectable="true"
+            tabIndex={0}
+            onKeyDown={handleKeyDown}
+          >
             {tasks.map((task) => (
               <TaskItem
                 key={task.id}
@@ -39,6 +52,9 @@ export const ListView: React.FC<ListViewProps> = ({
                 onClick={() => onTaskClick?.(task)}
                 onUpdate={() => onTaskUpdate?.(task)}
                 onDelete={() => onTaskDelete?.(task.id)}
+                selected={isSelected(task.id)}
+                focused={focusedId === task.id}
+                onSelect={handleTaskClick}
               />
             ))}
           </div>
@@ -0,0 +1,403 @@
+import React, {
+  memo,
+  useCallback,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+} from "react";
+import { Task } from "../../types/task";
+import { ViewHeader } from "./ViewHeader";
+import { ViewToolbar } from "./ViewToolbar";
+import { TimelineViewControls } from "./TimelineViewControls";
+import { useTimelineView } from "../../hooks/useTimelineView";
+import { taskService } from "../../services/taskService";
+import {
+  TIMELINE_ZOOM_LEVELS,
+  TimelineBar,
+  dateToX,
+  getVisibleRows,
+  rescheduleTask,
+  resizeTask,
+  xToDays,
+} from "../../utils/timelineUtils";
+
+interface TimelineViewProps {
+  tasks: Task[];
+  onTaskClick?: (task: Task) => void;
+  /**
+   * Called after a drag or resize has been saved
+   */
+  onTaskUpdate?: (task: Task) => void;
+  onTaskDelete?: (taskId: string) => void;
+}
+
+type DragMode = "move" | "start" | "end";
+
+interface DragState {
+  taskId: string;
+  mode: DragMode;
+  originX: number;
+  deltaDays: number;
+}
+
+const ROW_HEIGHT = 36;
+const HEADER_HEIGHT = 32;
+const LABEL_WIDTH = 240;
+const BAR_HEIGHT = 20;
+
+interface TimelineRowProps {
+  bar: TimelineBar;
+  index: number;
+  x: number;
+  width: number;
+  critical: boolean;
+  onPointerDown: (
+    e: React.PointerEvent,
+    bar: TimelineBar,
+    mode: DragMode,
+  ) => void;
+  onPointerMove: (e: React.PointerEvent) => void;
+  onPointerUp: (e: React.PointerEvent) => void;
+}
+
+// Rows are memoized so dragging one bar re-renders only that row
+const TimelineRow = memo(function TimelineRow({
+  bar,
+  index,
+  x,
+  width,
+  critical,
+  onPointerDown,
+  onPointerMove,
+  onPointerUp,
+}: TimelineRowProps) {
+  const { task } = bar;
+
+  return (
+    <div
+      className="absolute left-0 right-0 flex border-b border-gray-100"
+      style={{ top: HEADER_HEIGHT + index * ROW_HEIGHT, height: ROW_HEIGHT }}
+    >
+      <div
+        className="sticky left-0 z-10 flex items-center px-3 bg-white border-r border-gray-200 text-sm text-gray-800 truncate"
+        style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+        title={task.title}
+      >
+        <span className={task.completed ? "line-through text-gray-400" : ""}>
+          {task.title}
+        </span>
+      </div>
+      <div className="relative flex-1">
+        <div
+          className={`absolute rounded cursor-grab select-none touch-none ${
+            task.completed
+              ? "bg-gray-300"
+              : critical
+                ? "bg-red-500"
+                : "bg-blue-500"
+          }`}
+          style={{
+            left: x,
+            width: Math.max(width, 4),
+            top: (ROW_HEIGHT - BAR_HEIGHT) / 2,
+            height: BAR_HEIGHT,
+          }}
+          title={`${task.title} (${bar.days}d)`}
+          onPointerDown={(e) => onPointerDown(e, bar, "move")}
+          onPointerMove={onPointerMove}
+          onPointerUp={onPointerUp}
+        >
+          <div
+            className="absolute left-0 top-0 bottom-0 w-2 cursor-ew-resize"
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onPointerDown(e, bar, "start");
+            }}
+          />
+          <div
+            className="absolute right-0 top-0 bottom-0 w-2 cursor-ew-resize"
+            onPointerDown={(e) => {
+              e.stopPropagation();
+              onPointerDown(e, bar, "end");
+            }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+});
+
+/**
+ * Gantt-style view of scheduled tasks. Bars end on the due date and span
+ * the task's duration; drag a bar to reschedule it or its edges to resize
+ * it. Only the rows in view are rendered.
+ */
+export const TimelineView: React.FC<TimelineViewProps> = ({
+  tasks,
+  onTaskClick,
+  onTaskUpdate,
+}) => {
+  const {
+    bars,
+    links,
+    criticalPath,
+    range,
+    ticks,
+    width,
+    zoom,
+    showCriticalPath,
+    unscheduledCount,
+    setZoom,
+    setShowCriticalPath,
+  } = useTimelineView(tasks);
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(600);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+  dragRef.current = drag;
+
+  const rowIndex = useMemo(
+    () => new Map(bars.map((bar, index) => [bar.task.id, index])),
+    [bars],
+  );
+  const visible = getVisibleRows(
+    Math.max(0, scrollTop - HEADER_HEIGHT),
+    viewportHeight,
+    ROW_HEIGHT,
+    bars.length,
+  );
+  const todayX = dateToX(new Date(), range, zoom);
+
+  useLayoutEffect(() => {
+    if (scrollRef.current) {
+      setViewportHeight(scrollRef.current.clientHeight);
+    }
+  }, []);
+
+  const scrollToToday = () => {
+    scrollRef.current?.scrollTo({
+      left: Math.max(0, todayX - scrollRef.current.clientWidth / 3),
+    });
+  };
+
+  // Start at today whenever the scale changes
+  useLayoutEffect(scrollToToday, [zoom]);
+
+  /**
+   * Position of a bar, including the preview of the bar being dragged
+   */
+  const layout = (bar: TimelineBar) => {
+    const { dayWidth } = TIMELINE_ZOOM_LEVELS[zoom];
+    let start = dateToX(bar.start, range, zoom);
+    let end = dateToX(bar.end, range, zoom);
+    if (drag?.taskId === bar.task.id) {
+      const offset = drag.deltaDays * dayWidth;
+      if (drag.mode !== "end") start += offset;
+      if (drag.mode !== "start") end += offset;
+      if (end - start < dayWidth) {
+        if (drag.mode === "start") start = end - dayWidth;
+        else end = start + dayWidth;
+      }
+    }
+    return { x: start, width: end - start };
+  };
+
+  // Handlers keep their identity so that memoized rows are not re-rendered
+  const handlePointerDown = useCallback(
+    (e: React.PointerEvent, bar: TimelineBar, mode: DragMode) => {
+      if (e.button !== 0) return;
+      (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+      setDrag({ taskId: bar.task.id, mode, originX: e.clientX, deltaDays: 0 });
+    },
+    [],
+  );
+
+  const handlePointerMove = useCallback(
+    (e: React.PointerEvent) => {
+      setDrag((current) => {
+        if (!current) return current;
+        const deltaDays = xToDays(e.clientX - current.originX, zoom);
+        return deltaDays === current.deltaDays
+          ? current
+          : { ...current, deltaDays };
+      });
+    },
+    [zoom],
+  );
+
+  const handlePointerUp = useCallback(() => {
+    const current = dragRef.current;
+    if (!current) return;
+    const bar = bars[rowIndex.get(current.taskId) as number];
+    setDrag(null);
+    if (!bar) return;
+
+    if (current.deltaDays === 0) {
+      if (current.mode === "move") onTaskClick?.(bar.task);
+      return;
+    }
+
+    const changes =
+      current.mode === "move"
+        ? rescheduleTask(bar.task, current.deltaDays)
+        : resizeTask(bar.task, current.mode, current.deltaDays);
+    taskService
+      .updateTask(bar.task.id, changes, {
+        label:
+          current.mode === "move" ? "Reschedule task" : "Change task dates",
+        toast: true,
+      })
+      .then(() =>
+        onTaskUpdate?.({ ...bar.task, ...changes, updatedAt: new Date() }),
+      )
+      .catch((error) => console.error("Failed to save task dates:", error));
+  }, [bars, rowIndex, onTaskClick, onTaskUpdate]);
+
+  const visibleBars = bars.slice(visible.start, visible.end);
+  const visibleLinks = links.filter((link) => {
+    const from = rowIndex.get(link.fromId) as number;
+    const to = rowIndex.get(link.toId) as number;
+    return (
+      Math.max(from, to) >= visible.start && Math.min(from, to) < visible.end
+    );
+  });
+  const chartHeight = bars.length * ROW_HEIGHT;
+
+  return (
+    <div className="timeline-view">
+      <ViewHeader
+        title="Timeline View"
+        stats={
+          unscheduledCount > 0
+            ? `${unscheduledCount} tasks without a due date are not shown`
+            : undefined
+        }
+      />
+      <ViewToolbar
+        leftActions={
+          <TimelineViewControls
+            zoom={zoom}
+            showCriticalPath={showCriticalPath}
+            onZoomChange={setZoom}
+            onShowCriticalPathChange={setShowCriticalPath}
+            onToday={scrollToToday}
+          />
+        }
+      />
+
+      <div
+        ref={scrollRef}
+        className="relative overflow-auto border border-gray-200 rounded-lg bg-white"
+        style={{ height: "70vh" }}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      >
+        <div
+          className="relative"
+          style={{
+            width: LABEL_WIDTH + width,
+            height: HEADER_HEIGHT + chartHeight,
+          }}
+        >
+          <div
+            className="sticky top-0 z-20 flex bg-gray-50 border-b border-gray-200"
+            style={{ height: HEADER_HEIGHT }}
+          >
+            <div
+              className="sticky left-0 z-30 bg-gray-50 border-r border-gray-200 px-3 flex items-center text-xs font-medium text-gray-500"
+              style={{ width: LABEL_WIDTH, minWidth: LABEL_WIDTH }}
+            >
+              Task
+            </div>
+            <div className="relative flex-1">
+              {ticks.map((tick) => (
+                <div
+                  key={tick.x}
+                  className="absolute top-0 bottom-0 pl-1 border-l border-gray-200 text-xs text-gray-500 whitespace-nowrap flex items-center"
+                  style={{ left: tick.x }}
+                >
+                  {tick.label}
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div
+            className="absolute top-0 bottom-0 w-px bg-amber-500 z-0"
+            style={{ left: LABEL_WIDTH + todayX }}
+          />
+
+          {visibleBars.map((bar, offset) => {
+            const { x, width: barWidth } = layout(bar);
+            return (
+              <TimelineRow
+                key={bar.task.id}
+                bar={bar}
+                index={visible.start + offset}
+                x={x}
+                width={barWidth}
+                critical={criticalPath.has(bar.task.id)}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+              />
+            );
+          })}
+
+          <svg
+            className="absolute pointer-events-none"
+            style={{ left: LABEL_WIDTH, top: HEADER_HEIGHT }}
+            width={width}
+            height={chartHeight}
+          >
+            <defs>
+              <marker
+                id="timeline-arrow"
+                viewBox="0 0 6 6"
+                refX="6"
+                refY="3"
+                markerWidth="6"
+                markerHeight="6"
+                orient="auto"
+              >
+                <path d="M0,0 L6,3 L0,6 z" fill="currentColor" />
+              </marker>
+            </defs>
+            {visibleLinks.map((link) => {
+              const fromIndex = rowIndex.get(link.fromId) as number;
+              const toIndex = rowIndex.get(link.toId) as number;
+              const from = layout(bars[fromIndex]);
+              const to = layout(bars[toIndex]);
+              const x1 = from.x + from.width;
+              const y1 = fromIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+              const x2 = to.x;
+              const y2 = toIndex * ROW_HEIGHT + ROW_HEIGHT / 2;
+              const bend = x1 + 8;
+              const critical =
+                criticalPath.has(link.fromId) && criticalPath.has(link.toId);
+
+              return (
+                <path
+                  key={`${link.fromId}-${link.toId}`}
+                  d={`M${x1},${y1} H${bend} V${y2} H${x2}`}
+                  fill="none"
+                  strokeWidth={critical ? 2 : 1}
+                  markerEnd="url(#timeline-arrow)"
+                  className={critical ? "text-red-500" : "text-gray-400"}
+                  stroke="currentColor"
+                />
+              );
+            })}
+          </svg>
+        </div>
+
+        {bars.length === 0 && (
+          <div className="p-6 text-center text-sm text-gray-500">
+            No tasks with due dates to show
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
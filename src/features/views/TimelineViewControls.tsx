@@ -0,0 +1,60 @@
+import React from "react";
+import { TIMELINE_ZOOM_LEVELS, TimelineZoom } from "../../utils/timelineUtils";
+
+interface TimelineViewControlsProps {
+  zoom: TimelineZoom;
+  showCriticalPath: boolean;
+  onZoomChange: (zoom: TimelineZoom) => void;
+  onShowCriticalPathChange: (show: boolean) => void;
+  onToday: () => void;
+}
+
+export const TimelineViewControls: React.FC<TimelineViewControlsProps> = ({
+  zoom,
+  showCriticalPath,
+  onZoomChange,
+  onShowCriticalPathChange,
+  onToday,
+}) => {
+  const zoomOptions = Object.entries(TIMELINE_ZOOM_LEVELS) as [
+    TimelineZoom,
+    (typeof TIMELINE_ZOOM_LEVELS)[TimelineZoom],
+  ][];
+
+  return (
+    <div className="flex items-center space-x-4">
+      <button
+        onClick={onToday}
+        className="px-3 py-1 text-sm border border-gray-300 rounded hover:bg-gray-50"
+      >
+        Today
+      </button>
+
+      <div className="flex rounded border border-gray-300 overflow-hidden">
+        {zoomOptions.map(([value, level]) => (
+          <button
+            key={value}
+            onClick={() => onZoomChange(value)}
+            className={`px-3 py-1 text-sm ${
+              zoom === value
+                ? "bg-blue-600 text-white"
+                : "bg-white text-gray-700 hover:bg-gray-50"
+            }`}
+          >
+            {level.label}
+          </button>
+        ))}
+      </div>
+
+      <label className="flex items-center space-x-2 text-sm text-gray-700">
+        <input
+          type="checkbox"
+          checked={showCriticalPath}
+          onChange={(e) => onShowCriticalPathChange(e.target.checked)}
+          className="h-4 w-4 text-blue-600 border-gray-300 rounded"
+        />
+        <span>Critical path</span>
+      </label>
+    </div>
+  );
+};
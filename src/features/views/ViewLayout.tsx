@@ -4,6 +4,7 @@ import { ViewType } from "../../types/enums";
 import { ListView } from "./ListView";
 import { BoardView } from "./BoardView";
 import { CalendarView } from "./CalendarView";
+import { TimelineView } from "./TimelineView";
 import { ViewSwitcher } from "./ViewSwitcher";
 import { useTasks } from "../../hooks/useTasks";
 import { useListView } from "../../hooks/useListView";
@@ -98,6 +99,16 @@ export const ViewLayout: React.FC<ViewLayoutProps> = ({
           />
         );
 
+      case ViewType.TIMELINE:
+        return (
+          <TimelineView
+            tasks={tasks}
+            onTaskClick={onTaskClick}
+            onTaskUpdate={onTaskUpdate}
+            onTaskDelete={onTaskDelete}
+          />
+        );
+
       default:
         return (
           <ListView
@@ -116,7 +127,12 @@ export const ViewLayout: React.FC<ViewLayoutProps> = ({
         <ViewSwitcher
           currentView={currentView}
           onViewChange={handleViewChange}
-          availableViews={[ViewType.LIST, ViewType.BOARD, ViewType.CALENDAR]}
+          availableViews={[
+            ViewType.LIST,
+            ViewType.BOARD,
+            ViewType.CALENDAR,
+            ViewType.TIMELINE,
+          ]}
         />
       </div>
 
@@ -16,6 +16,7 @@ export const ViewSwitcher: React.FC<ViewSwitcherProps> = ({
     { value: ViewType.LIST, label: "List", icon: "📋" },
     { value: ViewType.BOARD, label: "Board", icon: "📊" },
     { value: ViewType.CALENDAR, label: "Calendar", icon: "📅" },
+    { value: ViewType.TIMELINE, label: "Timeline", icon: "📈" },
   ];
 
   const filteredOptions = viewOptions.filter((option) =>
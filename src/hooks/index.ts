@@ -27,12 +27,22 @@ export { useCalendarSync } from "./useCalendarSync";
 export { useCalendarView } from "./useCalendarView";
 export { useComments } from "./useComments";
 export { useCommentForm } from "./useCommentForm";
+export { useMentionCandidates } from "./useMentionCandidates";
+export { useAttachments } from "./useAttachments";
 export { useCollaboration } from "./useCollaboration";
 export { useCollaborationActivity } from "./useCollaborationActivity";
+export {
+  useRealtimeConnection,
+  usePresence,
+  useTypingIndicator,
+} from "./useRealtime";
 export { useFilters } from "./useFilters";
 export { useLabels } from "./useLabels";
 export { useListView } from "./useListView";
 export { useBoardView } from "./useBoardView";
+export { useBoardLayout } from "./useBoardLayout";
+export { useTimelineView } from "./useTimelineView";
+export { useTaskSelection } from "./useTaskSelection";
 export { useInbox } from "./useInbox";
 export { useToday } from "./useToday";
 export { useUpcoming } from "./useUpcoming";
@@ -46,6 +56,7 @@ export { useTemplates } from "./useTemplates";
 export { useTemplateCategories } from "./useTemplateCategories";
 export { useNaturalLanguage } from "./useNaturalLanguage";
 export { useNlpParser } from "./useNlpParser";
+export { useQuickAdd } from "./useQuickAdd";
 export { useAIAssistant } from "./useAIAssistant";
 export { useAITaskSuggestions } from "./useAITaskSuggestions";
 
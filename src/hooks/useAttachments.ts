@@ -0,0 +1,98 @@
+import { useState, useEffect, useCallback } from "react";
+import { Attachment } from "../database/models";
+import {
+  AttachmentTarget,
+  attachmentService,
+} from "../services/attachmentService";
+import {
+  AttachmentLimitError,
+  RejectedAttachment,
+} from "../utils/attachmentUtils";
+
+/**
+ * Attachments of a task or comment, kept current as files are added and
+ * uploaded
+ */
+export const useAttachments = ({ taskId, commentId }: AttachmentTarget) => {
+  const [attachments, setAttachments] = useState<Attachment[]>([]);
+  const [rejected, setRejected] = useState<
+    RejectedAttachment<{ name: string }>[]
+  >([]);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadAttachments = useCallback(async () => {
+    try {
+      setAttachments(
+        await attachmentService.getAttachments({ taskId, commentId }),
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to load attachments",
+      );
+    }
+  }, [taskId, commentId]);
+
+  useEffect(() => {
+    loadAttachments();
+    return attachmentService.subscribe(() => {
+      loadAttachments();
+    });
+  }, [loadAttachments]);
+
+  /**
+   * Attach files. Files over the limits are reported in `rejected`.
+   */
+  const addFiles = useCallback(
+    async (files: File[]) => {
+      if (files.length === 0) return;
+
+      setError(null);
+      setRejected([]);
+      try {
+        const result = await attachmentService.addAttachments(files, {
+          taskId,
+          commentId,
+        });
+        setRejected(result.rejected);
+      } catch (err) {
+        if (err instanceof AttachmentLimitError) {
+          setRejected(err.rejected);
+        } else {
+          setError(
+            err instanceof Error ? err.message : "Failed to attach files",
+          );
+        }
+      }
+    },
+    [taskId, commentId],
+  );
+
+  const removeAttachment = useCallback(async (attachmentId: number) => {
+    setError(null);
+    try {
+      await attachmentService.removeAttachment(attachmentId);
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to remove attachment",
+      );
+    }
+  }, []);
+
+  const retryUpload = useCallback(async (attachmentId: number) => {
+    setError(null);
+    try {
+      await attachmentService.retryUpload(attachmentId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to retry upload");
+    }
+  }, []);
+
+  return {
+    attachments,
+    rejected,
+    error,
+    addFiles,
+    removeAttachment,
+    retryUpload,
+  };
+};
@@ -0,0 +1,86 @@
+import { useUiStore } from "../store/useUiStore";
+import { BoardViewService } from "../services/boardViewService";
+import { BoardGroupBy, BoardGrouping, BoardLayout } from "../types/ui";
+
+/**
+ * Board layout of a project: grouping, swimlanes, column order, collapsed
+ * columns and lanes, and work in progress limits. Boards outside a project
+ * share one layout.
+ */
+export const useBoardLayout = (projectId?: string | null) => {
+  const { boardLayouts, setBoardLayout } = useUiStore();
+  const projectKey = projectId || "default";
+  const layout: BoardLayout =
+    boardLayouts?.[projectKey] || BoardViewService.getDefaultBoardLayout();
+
+  const updateLayout = (updates: Partial<BoardLayout>) => {
+    setBoardLayout(projectKey, { ...layout, ...updates });
+  };
+
+  // Column order, collapsed columns and limits refer to values of the
+  // previous field, so they start over
+  const setGroupBy = (groupBy: BoardGroupBy, customField?: string) => {
+    setBoardLayout(projectKey, {
+      ...BoardViewService.getDefaultBoardLayout(),
+      groupBy,
+      customField: groupBy === "custom" ? customField : undefined,
+      swimlanes: layout.swimlanes,
+      collapsedLanes: layout.collapsedLanes,
+    });
+  };
+
+  const setSwimlanes = (swimlanes: BoardGrouping | null) => {
+    updateLayout({
+      swimlanes: swimlanes && {
+        groupBy: swimlanes.groupBy,
+        customField:
+          swimlanes.groupBy === "custom" ? swimlanes.customField : undefined,
+      },
+      collapsedLanes: [],
+    });
+  };
+
+  const moveColumn = (
+    columnIds: string[],
+    columnId: string,
+    offset: -1 | 1,
+  ) => {
+    updateLayout({
+      columnOrder: BoardViewService.moveColumn(columnIds, columnId, offset),
+    });
+  };
+
+  const toggleColumnCollapsed = (columnId: string) => {
+    updateLayout({
+      collapsedColumns: layout.collapsedColumns.includes(columnId)
+        ? layout.collapsedColumns.filter((id) => id !== columnId)
+        : [...layout.collapsedColumns, columnId],
+    });
+  };
+
+  const toggleLaneCollapsed = (laneId: string) => {
+    const collapsedLanes = layout.collapsedLanes || [];
+    updateLayout({
+      collapsedLanes: collapsedLanes.includes(laneId)
+        ? collapsedLanes.filter((id) => id !== laneId)
+        : [...collapsedLanes, laneId],
+    });
+  };
+
+  const setWipLimit = (columnId: string, limit: number | null) => {
+    const wipLimits = { ...layout.wipLimits };
+    if (limit && limit > 0) wipLimits[columnId] = limit;
+    else delete wipLimits[columnId];
+    updateLayout({ wipLimits });
+  };
+
+  return {
+    layout,
+    setGroupBy,
+    setSwimlanes,
+    moveColumn,
+    toggleColumnCollapsed,
+    toggleLaneCollapsed,
+    setWipLimit,
+  };
+};
@@ -1,7 +1,11 @@
 // @ts-nocheck
 import { useState, useEffect } from "react";
-import { Command } from "../types/command";
+import { Command, PaletteData, PaletteItem } from "../types/command";
 import { getCommandService } from "../services/commandService";
+import { useTaskStore } from "../store/useTaskStore";
+import { useProjectStore } from "../store/useProjectStore";
+import { useLabelStore } from "../store/useLabelStore";
+import { useFilterStore } from "../store/useFilterStore";
 
 export const useCommandPalette = () => {
   const [isOpen, setIsOpen] = useState(false);
@@ -9,9 +13,22 @@ export const useCommandPalette = () => {
   const [commands, setCommands] = useState<Command[]>([]);
   const [filteredCommands, setFilteredCommands] = useState<Command[]>([]);
   const [selectedIndex, setSelectedIndex] = useState(0);
+  const [paletteItems, setPaletteItems] = useState<PaletteItem[]>([]);
+
+  const tasks = useTaskStore((state) => state.tasks);
+  const projects = useProjectStore((state) => state.projects);
+  const labels = useLabelStore((state) => state.labels);
+  const filters = useFilterStore((state) => state.filters);
 
   const commandService = getCommandService();
 
+  const getPaletteData = (): PaletteData => ({
+    tasks,
+    projects,
+    labels,
+    filters,
+  });
+
   // Initialize commands
   useEffect(() => {
     setCommands(commandService.getCommands());
@@ -48,6 +65,18 @@ export const useCommandPalette = () => {
     setSelectedIndex(0);
   };
 
+  const searchPalette = (searchQuery: string) => {
+    setQuery(searchQuery);
+    setPaletteItems(
+      commandService.searchPalette(searchQuery, getPaletteData()),
+    );
+    setSelectedIndex(0);
+  };
+
+  const getEntityActions = (item: PaletteItem) => {
+    return commandService.getEntityActions(item, getPaletteData());
+  };
+
   const navigateCommands = (direction: "up" | "down") => {
     setSelectedIndex((prev) => {
       if (direction === "up") {
@@ -95,6 +124,9 @@ export const useCommandPalette = () => {
     executeCommand,
     executeCommandById,
     searchCommands,
+    paletteItems,
+    searchPalette,
+    getEntityActions,
     navigateCommands,
     selectCurrentCommand,
   };
@@ -1,6 +1,11 @@
 import { useState, useEffect, useCallback } from "react";
-import { commentService } from "../services/commentService";
+import {
+  CreateCommentOptions,
+  commentService,
+} from "../services/commentService";
+import { realtimeService } from "../services/realtimeService";
 import { Comment } from "../types/common";
+import { MentionCandidate } from "../utils/commentContentUtils";
 
 /**
  * Custom hook for managing comments
@@ -33,7 +38,10 @@ export const useComments = (taskId: string) => {
    * Create a new comment
    */
   const createComment = useCallback(
-    async (content: string): Promise<Comment> => {
+    async (
+      content: string,
+      options: CreateCommentOptions = {},
+    ): Promise<Comment> => {
       if (!taskId) {
         throw new Error("Task ID is required");
       }
@@ -45,6 +53,7 @@ export const useComments = (taskId: string) => {
           taskId,
           userId,
           content,
+          options,
         );
 
         // Optimistic update
@@ -64,18 +73,27 @@ export const useComments = (taskId: string) => {
    * Update a comment
    */
   const updateComment = useCallback(
-    async (commentId: string, content: string): Promise<Comment> => {
+    async (
+      commentId: string,
+      content: string,
+      mentionCandidates: MentionCandidate[] = [],
+    ): Promise<Comment> => {
       try {
         setError(null);
+        const previous = comments.find((comment) => comment.id === commentId);
         const updatedComment = await commentService.updateComment(
           commentId,
           content,
+          mentionCandidates,
+          previous?.mentions,
         );
 
         // Optimistic update
         setComments((prev) =>
           prev.map((comment) =>
-            comment.id === commentId ? { ...comment, content } : comment,
+            comment.id === commentId
+              ? { ...comment, content, mentions: updatedComment.mentions }
+              : comment,
           ),
         );
 
@@ -87,7 +105,7 @@ export const useComments = (taskId: string) => {
         throw err;
       }
     },
-    [],
+    [comments],
   );
 
   /**
@@ -114,55 +132,37 @@ export const useComments = (taskId: string) => {
   );
 
   /**
-   * Like a comment
+   * Add or remove the current user's reaction
    */
-  const likeComment = useCallback(
-    async (commentId: string): Promise<Comment> => {
-      try {
-        setError(null);
-        const updatedComment = await commentService.likeComment(commentId);
-
-        // Optimistic update
-        setComments((prev) =>
-          prev.map((comment) =>
-            comment.id === commentId ? updatedComment : comment,
-          ),
-        );
-
-        return updatedComment;
-      } catch (err) {
-        setError(err instanceof Error ? err.message : "Failed to like comment");
-        throw err;
+  const toggleReaction = useCallback(
+    async (commentId: string, emoji: string): Promise<Comment> => {
+      const comment = comments.find((c) => c.id === commentId);
+      if (!comment) {
+        throw new Error("Comment not found");
       }
-    },
-    [],
-  );
 
-  /**
-   * Unlike a comment
-   */
-  const unlikeComment = useCallback(
-    async (commentId: string): Promise<Comment> => {
       try {
         setError(null);
-        const updatedComment = await commentService.unlikeComment(commentId);
+        const userId = localStorage.getItem("userId") || "anonymous";
+        const updatedComment = await commentService.toggleReaction(
+          comment,
+          emoji,
+          userId,
+        );
 
-        // Optimistic update
         setComments((prev) =>
-          prev.map((comment) =>
-            comment.id === commentId ? updatedComment : comment,
-          ),
+          prev.map((c) => (c.id === commentId ? updatedComment : c)),
         );
 
         return updatedComment;
       } catch (err) {
         setError(
-          err instanceof Error ? err.message : "Failed to unlike comment",
+          err instanceof Error ? err.message : "Failed to update reaction",
         );
         throw err;
       }
     },
-    [],
+    [comments],
   );
 
   /**
@@ -233,6 +233,28 @@ export const useComments = (taskId: string) => {
     fetchComments();
   }, [fetchComments]);
 
+  // Comments others add, edit and delete while the task is open
+  useEffect(
+    () =>
+      realtimeService.subscribe(({ type, data }) => {
+        const comment = data.entity as Comment | undefined;
+
+        if (type === "comment_deleted") {
+          setComments((prev) => prev.filter((c) => c.id !== data.id));
+        } else if (
+          (type === "comment_created" || type === "comment_updated") &&
+          comment?.taskId === taskId
+        ) {
+          setComments((prev) =>
+            prev.some((c) => c.id === comment.id)
+              ? prev.map((c) => (c.id === comment.id ? comment : c))
+              : [comment, ...prev],
+          );
+        }
+      }),
+    [taskId],
+  );
+
   return {
     comments,
     loading,
@@ -242,8 +264,7 @@ export const useComments = (taskId: string) => {
     createComment,
     updateComment,
     deleteComment,
-    likeComment,
-    unlikeComment,
+    toggleReaction,
     refreshComments,
     filterCommentsByUser,
     sortComments,
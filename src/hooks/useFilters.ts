@@ -1,6 +1,9 @@
 import { useState, useEffect } from "react";
 import filterService from "../services/filterService";
 import { Filter } from "../types/models";
+import { Task } from "../types/common";
+import { FilterQueryContext } from "../types/filterQuery";
+import { FilterUtils } from "../utils/filterUtils";
 
 /**
  * Custom hook for managing filters
@@ -193,6 +196,30 @@ export const useFilters = () => {
     }
   };
 
+  /**
+   * Get the tasks matched by a saved filter's query
+   */
+  const getFilterTasks = (
+    filterId: string,
+    tasks: Task[],
+    context: FilterQueryContext = {},
+  ) => {
+    const filter = filters.find((f) => f.id === filterId);
+
+    if (!filter) {
+      return { tasks: [], error: null };
+    }
+
+    if (filter.query?.trim()) {
+      return FilterUtils.applyQuery(tasks, filter.query, context);
+    }
+
+    return {
+      tasks: FilterUtils.applyFilter(tasks, filter, context),
+      error: null,
+    };
+  };
+
   /**
    * Select filter
    */
@@ -217,6 +244,8 @@ export const useFilters = () => {
     toggleFavorite,
     searchFilters,
     getFavoriteFilters,
+    getFilterTasks,
+    validateQuery: FilterUtils.validateQuery,
     selectFilter,
   };
 };
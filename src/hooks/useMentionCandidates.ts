@@ -0,0 +1,34 @@
+import { useMemo } from "react";
+import { useCollaborationStore } from "../store/useCollaborationStore";
+import { CollaborationMember } from "../types/collaboration";
+import { MentionCandidate } from "../utils/commentContentUtils";
+import { useUsers } from "./useUsers";
+
+/**
+ * Active collaboration members that can be @mentioned in comments, named
+ * from their user profile when it is loaded
+ */
+export const useMentionCandidates = (): MentionCandidate[] => {
+  const members = useCollaborationStore(
+    (state) => state.members,
+  ) as CollaborationMember[];
+  const { users } = useUsers();
+
+  return useMemo(() => {
+    const names = new Map(users.map((user) => [user.id, user.name]));
+    const candidates = new Map<string, MentionCandidate>();
+
+    members
+      .filter((member) => member.status === "active")
+      .forEach((member) => {
+        if (candidates.has(member.userId)) return;
+
+        candidates.set(member.userId, {
+          userId: member.userId,
+          name: member.user?.name || names.get(member.userId) || member.userId,
+        });
+      });
+
+    return Array.from(candidates.values());
+  }, [members, users]);
+};
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { useState, useCallback, useMemo } from "react";
 import { nlpParserService } from "../services/nlpParserService";
+import { NlpEntity, NlpParseOptions } from "../types/nlp";
 
 interface ParseResult {
   title?: string;
@@ -9,6 +10,9 @@ interface ParseResult {
   priority?: string;
   labels?: string[];
   project?: string;
+  assignees?: string[];
+  section?: string;
+  entities?: NlpEntity[];
   rawText: string;
   confidence?: number;
 }
@@ -17,6 +21,7 @@ interface UseNlpParserOptions {
   debug?: boolean;
   strictMode?: boolean;
   fallbackToBasic?: boolean;
+  locale?: string;
   defaultContext?: any;
 }
 
@@ -32,11 +37,17 @@ export const useNlpParser = (options: UseNlpParserOptions = {}) => {
       debug: options.debug,
       strictMode: options.strictMode,
       fallbackToBasic: options.fallbackToBasic,
+      locale: options.locale,
     });
-  }, [options.debug, options.strictMode, options.fallbackToBasic]);
+  }, [
+    options.debug,
+    options.strictMode,
+    options.fallbackToBasic,
+    options.locale,
+  ]);
 
   const parse = useCallback(
-    async (text: string) => {
+    async (text: string, parseOptions?: NlpParseOptions) => {
       try {
         setIsLoading(true);
         setError(null);
@@ -45,7 +56,7 @@ export const useNlpParser = (options: UseNlpParserOptions = {}) => {
           throw new Error("Empty text provided for NLP parsing");
         }
 
-        const result = await parserService.parse(text);
+        const result = await parserService.parse(text, parseOptions);
         setLastResult(result);
         setParseHistory((prev) => [...prev, result]);
 
@@ -152,6 +163,8 @@ export const useNlpParser = (options: UseNlpParserOptions = {}) => {
 
   return {
     parse,
+    // Name the NLP components call it by
+    parseNaturalLanguage: parse,
     parseWithContext,
     parseBatch,
     isLoading,
@@ -0,0 +1,172 @@
+import { useState, useCallback, useMemo } from "react";
+import { useProjects } from "./useProjects";
+import { useLabels } from "./useLabels";
+import { useUsers } from "./useUsers";
+import { parseTaskText } from "../utils/nlpTaskParser";
+import {
+  applySuggestion,
+  findTagQuery,
+  matchSuggestions,
+  QuickAddSuggestion,
+  QuickAddTagType,
+  resolveTag,
+  shiftSpans,
+} from "../utils/quickAddUtils";
+import { NlpEntity, NlpParseResult, NlpSpan } from "../types/nlp";
+
+interface UseQuickAddOptions {
+  locale?: string;
+  initialText?: string;
+}
+
+/**
+ * A recognised token shown as a chip, with the project, label or user
+ * it refers to when one exists
+ */
+export interface QuickAddChip {
+  entity: NlpEntity;
+  match?: QuickAddSuggestion;
+}
+
+/**
+ * Custom hook for the quick-add field: parses as the user types, lets
+ * recognised tokens be turned back into title text and completes `#`,
+ * `@` and `+` tags
+ */
+export const useQuickAdd = (options: UseQuickAddOptions = {}) => {
+  const [text, setTextState] = useState(options.initialText || "");
+  const [caret, setCaret] = useState(text.length);
+  const [dismissed, setDismissed] = useState<NlpSpan[]>([]);
+  const [activeSuggestion, setActiveSuggestion] = useState(0);
+
+  const { projects } = useProjects();
+  const { labels } = useLabels();
+  const { users } = useUsers();
+
+  const sources = useMemo<Record<QuickAddTagType, QuickAddSuggestion[]>>(
+    () => ({ project: projects, label: labels, assignee: users }),
+    [projects, labels, users],
+  );
+
+  const result: NlpParseResult = useMemo(
+    () => parseTaskText(text, { locale: options.locale, ignore: dismissed }),
+    [text, dismissed, options.locale],
+  );
+
+  const chips: QuickAddChip[] = useMemo(
+    () =>
+      result.entities.map((entity) => ({
+        entity,
+        match:
+          entity.type === "project" ||
+          entity.type === "label" ||
+          entity.type === "assignee"
+            ? resolveTag(sources[entity.type], entity.value)
+            : undefined,
+      })),
+    [result, sources],
+  );
+
+  const tagQuery = useMemo(() => findTagQuery(text, caret), [text, caret]);
+
+  const suggestions = useMemo(
+    () =>
+      tagQuery ? matchSuggestions(sources[tagQuery.type], tagQuery.query) : [],
+    [tagQuery, sources],
+  );
+
+  /**
+   * Update the text, keeping dismissed tokens dismissed
+   */
+  const setText = useCallback(
+    (next: string, nextCaret: number = next.length) => {
+      setDismissed((spans) => shiftSpans(spans, text, next));
+      setTextState(next);
+      setCaret(nextCaret);
+      setActiveSuggestion(0);
+    },
+    [text],
+  );
+
+  /**
+   * Turn a chip back into plain title text
+   */
+  const dismiss = useCallback((entity: NlpEntity) => {
+    setDismissed((spans) => [
+      ...spans,
+      { start: entity.start, end: entity.end },
+    ]);
+  }, []);
+
+  /**
+   * Backspace right after a recognised token dismisses it instead of
+   * deleting a character. Tags still being typed are edited as usual.
+   * Returns whether the key was handled.
+   */
+  const handleBackspace = useCallback(
+    (selectionStart: number, selectionEnd: number = selectionStart) => {
+      if (selectionStart !== selectionEnd || tagQuery) return false;
+
+      const entity = result.entities.find(
+        (candidate) => candidate.end === selectionStart,
+      );
+      if (!entity) return false;
+
+      dismiss(entity);
+      return true;
+    },
+    [result, tagQuery, dismiss],
+  );
+
+  const selectSuggestion = useCallback(
+    (suggestion: QuickAddSuggestion) => {
+      if (!tagQuery) return;
+      const next = applySuggestion(text, tagQuery, suggestion.name);
+      setText(next.text, next.caret);
+    },
+    [text, tagQuery, setText],
+  );
+
+  const moveSuggestion = useCallback(
+    (step: number) => {
+      if (suggestions.length === 0) return;
+      setActiveSuggestion(
+        (index) => (index + step + suggestions.length) % suggestions.length,
+      );
+    },
+    [suggestions.length],
+  );
+
+  const reset = useCallback(() => {
+    setTextState("");
+    setCaret(0);
+    setDismissed([]);
+    setActiveSuggestion(0);
+  }, []);
+
+  const project = chips.find((chip) => chip.entity.type === "project");
+  const assignee = chips.find((chip) => chip.entity.type === "assignee");
+
+  return {
+    text,
+    setText,
+    caret,
+    setCaret,
+    result,
+    chips,
+    dismissed,
+    dismiss,
+    handleBackspace,
+    tagQuery,
+    suggestions,
+    activeSuggestion,
+    moveSuggestion,
+    selectSuggestion,
+    reset,
+    projectId: project?.match?.id,
+    labelIds: chips
+      .filter((chip) => chip.entity.type === "label" && chip.match)
+      .map((chip) => chip.match!.id),
+    assigneeId: assignee?.match?.id,
+  };
+};
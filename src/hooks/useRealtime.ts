@@ -0,0 +1,68 @@
+import { useCallback, useEffect, useMemo } from "react";
+import { realtimeService } from "../services/realtimeService";
+import { useRealtimeStore } from "../store/useRealtimeStore";
+import { PresenceView } from "../types/collaboration";
+import { getTypingUsers, getViewers } from "../utils/realtimeUtils";
+
+const getCurrentUserId = () => localStorage.getItem("userId") || "anonymous";
+
+/**
+ * Keep the realtime connection open while mounted
+ */
+export const useRealtimeConnection = () => {
+  const status = useRealtimeStore((state) => state.status);
+
+  useEffect(() => {
+    realtimeService.connect();
+    return () => realtimeService.disconnect();
+  }, []);
+
+  return { status };
+};
+
+/**
+ * Announce that the current user is looking at a project or task, and get
+ * the other users looking at it
+ */
+export const usePresence = ({ projectId, taskId }: PresenceView) => {
+  const presence = useRealtimeStore((state) => state.presence);
+
+  useEffect(() => {
+    if (!projectId && !taskId) return;
+
+    realtimeService.setView({ projectId, taskId });
+    return () => realtimeService.setView(null);
+  }, [projectId, taskId]);
+
+  const viewers = useMemo(
+    () => getViewers(presence, { projectId, taskId }, getCurrentUserId()),
+    [presence, projectId, taskId],
+  );
+
+  return { viewers };
+};
+
+/**
+ * Who else is typing a comment on a task, and a callback to report the
+ * current user typing
+ */
+export const useTypingIndicator = (taskId: string) => {
+  const typing = useRealtimeStore((state) => state.typing);
+
+  const typingUsers = useMemo(
+    () => getTypingUsers(typing, taskId, getCurrentUserId(), new Date()),
+    [typing, taskId],
+  );
+
+  const notifyTyping = useCallback(
+    () => realtimeService.notifyTyping(taskId),
+    [taskId],
+  );
+
+  const stopTyping = useCallback(() => realtimeService.stopTyping(), []);
+
+  // Stop the indicator when the comment box goes away
+  useEffect(() => () => realtimeService.stopTyping(), [taskId]);
+
+  return { typingUsers, notifyTyping, stopTyping };
+};
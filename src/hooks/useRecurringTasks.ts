@@ -10,6 +10,7 @@ import {
   RecurringTaskConfig,
   RecurringTaskInstance,
   RecurringTaskStats,
+  RecurrenceEditScope,
 } from "../types/task";
 import { RecurringPattern, TaskStatus, PriorityLevel } from "../types/enums";
 import { recurringTaskService } from "../services/recurringTaskService";
@@ -60,6 +61,12 @@ export interface UseRecurringTasksReturn {
     configUpdates?: Partial<RecurringTaskConfig>,
   ) => Promise<Task>;
   deleteRecurringTask: (taskId: string, confirm?: boolean) => Promise<void>;
+  editRecurringOccurrence: (
+    seriesId: string,
+    occurrenceDate: Date,
+    updates: Partial<Task>,
+    scope: RecurrenceEditScope,
+  ) => Promise<Task>;
   createRecurringTaskWithProject: (
     taskData: Omit<Task, "id" | "createdAt" | "updatedAt" | "completed">,
     projectId: string,
@@ -623,6 +630,43 @@ export const useRecurringTasks = (): UseRecurringTasksReturn => {
     [fetchRecurringTasks, fetchTasks, recurringTasks],
   );
 
+  /**
+   * Edit one occurrence, this and following occurrences, or the whole series
+   */
+  const editRecurringOccurrence = useCallback(
+    async (
+      seriesId: string,
+      occurrenceDate: Date,
+      updates: Partial<Task>,
+      scope: RecurrenceEditScope,
+    ): Promise<Task> => {
+      try {
+        setIsLoading(true);
+        setError(null);
+
+        const updatedTask = await recurringTaskService.editRecurringOccurrence(
+          seriesId,
+          occurrenceDate,
+          updates,
+          scope,
+        );
+
+        await fetchRecurringTasks();
+        await fetchTasks();
+
+        return updatedTask;
+      } catch (err) {
+        setError(
+          err instanceof Error ? err.message : "Failed to edit occurrence",
+        );
+        throw err;
+      } finally {
+        setIsLoading(false);
+      }
+    },
+    [fetchRecurringTasks, fetchTasks],
+  );
+
   /**
    * Delete a recurring task and all its instances
    */
@@ -1462,6 +1506,7 @@ export const useRecurringTasks = (): UseRecurringTasksReturn => {
     createRecurringTaskWithProject,
     updateRecurringTask,
     deleteRecurringTask,
+    editRecurringOccurrence,
 
     // Instance management
     completeRecurringInstance,
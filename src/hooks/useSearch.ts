@@ -5,6 +5,7 @@ import { getSearchService } from "../services/searchService";
 import { useTaskStore } from "../store/useTaskStore";
 import { useProjectStore } from "../store/useProjectStore";
 import { useLabelStore } from "../store/useLabelStore";
+import { useCommentStore } from "../store/useCommentStore";
 
 export const useSearch = () => {
   const [query, setQuery] = useState("");
@@ -15,13 +16,14 @@ export const useSearch = () => {
   const tasks = useTaskStore((state) => state.tasks);
   const projects = useProjectStore((state) => state.projects);
   const labels = useLabelStore((state) => state.labels);
+  const comments = useCommentStore((state) => state.comments);
 
   const searchService = getSearchService();
 
   // Initialize search service with current data
   useEffect(() => {
-    searchService.setData(tasks, projects, labels);
-  }, [tasks, projects, labels]);
+    searchService.setData(tasks, projects, labels, comments);
+  }, [tasks, projects, labels, comments]);
 
   const search = (searchQuery: string) => {
     setQuery(searchQuery);
@@ -0,0 +1,77 @@
+import React, { useState } from "react";
+import { useTaskStore } from "../store/useTaskStore";
+import {
+  SelectionModifiers,
+  SelectionState,
+  getClickSelection,
+  getKeyboardSelection,
+} from "../utils/selectionUtils";
+
+/**
+ * Multi-selection of tasks in the order they are shown. The selected IDs
+ * live in the task store so the bulk toolbar can act on them; the anchor
+ * and keyboard focus belong to the list.
+ */
+export const useTaskSelection = (orderedTaskIds: string[]) => {
+  const { selectedTaskIds, setSelectedTaskIds } = useTaskStore();
+  const [anchorId, setAnchorId] = useState<string | null>(null);
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+
+  const state: SelectionState = {
+    selectedIds: selectedTaskIds,
+    anchorId,
+    focusedId,
+  };
+
+  const applySelection = (next: SelectionState) => {
+    setSelectedTaskIds(next.selectedIds);
+    setAnchorId(next.anchorId);
+    setFocusedId(next.focusedId);
+  };
+
+  const getModifiers = (
+    event: React.MouseEvent | React.KeyboardEvent,
+  ): SelectionModifiers => ({
+    range: event.shiftKey,
+    toggle: event.ctrlKey || event.metaKey,
+  });
+
+  /**
+   * Shift- and Ctrl-clicks select; returns false for plain clicks so they
+   * can open the task instead
+   */
+  const handleTaskClick = (taskId: string, event: React.MouseEvent) => {
+    const modifiers = getModifiers(event);
+    if (!modifiers.range && !modifiers.toggle) return false;
+
+    event.preventDefault();
+    applySelection(getClickSelection(orderedTaskIds, state, taskId, modifiers));
+    return true;
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent) => {
+    const next = getKeyboardSelection(
+      orderedTaskIds,
+      state,
+      event.key,
+      getModifiers(event),
+    );
+    if (!next) return;
+
+    event.preventDefault();
+    applySelection(next);
+  };
+
+  const clearSelection = () => {
+    applySelection({ selectedIds: [], anchorId: null, focusedId });
+  };
+
+  return {
+    selectedTaskIds,
+    focusedId,
+    isSelected: (taskId: string) => selectedTaskIds.includes(taskId),
+    handleTaskClick,
+    handleKeyDown,
+    clearSelection,
+  };
+};
@@ -5,9 +5,12 @@ import {
   TemplateCategory,
   TemplateFilterCriteria,
   TemplateSortOptions,
+  TemplateApplicationResult,
+  ProjectTemplateInstantiateOptions,
 } from "../types/template";
 import { templateService } from "../services/templateService";
 import { templateCategoryService } from "../services/templateCategoryService";
+import { projectTemplateService } from "../services/projectTemplateService";
 import { useTemplateStore } from "../store/useTemplateStore";
 
 /**
@@ -126,12 +129,14 @@ export const useTemplates = () => {
     async (
       templateId: string,
       variables?: Record<string, string>,
-    ): Promise<string> => {
+      options?: Parameters<typeof templateService.applyTemplate>[2],
+    ): Promise<TemplateApplicationResult> => {
       try {
         setError(null);
         const result = await templateService.applyTemplate(
           templateId,
           variables,
+          options,
         );
         return result;
       } catch (err) {
@@ -144,6 +149,58 @@ export const useTemplates = () => {
     [],
   );
 
+  /**
+   * Save a project with its sections and tasks as a template
+   */
+  const saveProjectAsTemplate = useCallback(
+    async (
+      projectId: string,
+      templateData?: Parameters<
+        typeof projectTemplateService.saveProjectAsTemplate
+      >[1],
+    ): Promise<Template> => {
+      try {
+        setError(null);
+        const template = await projectTemplateService.saveProjectAsTemplate(
+          projectId,
+          templateData,
+        );
+        return template;
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to save project as template",
+        );
+        throw err;
+      }
+    },
+    [],
+  );
+
+  /**
+   * Create a new project from a project template
+   */
+  const createProjectFromTemplate = useCallback(
+    async (template: Template, options: ProjectTemplateInstantiateOptions) => {
+      try {
+        setError(null);
+        return await projectTemplateService.createProjectFromTemplate(
+          template,
+          options,
+        );
+      } catch (err) {
+        setError(
+          err instanceof Error
+            ? err.message
+            : "Failed to create project from template",
+        );
+        throw err;
+      }
+    },
+    [],
+  );
+
   /**
    * Preview template with variables
    */
@@ -335,6 +392,8 @@ export const useTemplates = () => {
     deleteTemplate: deleteTemplateMutation,
     applyTemplate: applyTemplateWithVariables,
     previewTemplate: previewTemplateWithVariables,
+    saveProjectAsTemplate,
+    createProjectFromTemplate,
 
     // Filtering
     filterByCategory,
@@ -0,0 +1,54 @@
+import { useMemo } from "react";
+import { Task } from "../types/task";
+import { useUiStore } from "../store/useUiStore";
+import {
+  TimelineZoom,
+  getCriticalPath,
+  getTimelineBars,
+  getTimelineLinks,
+  getTimelineRange,
+  getTimelineTicks,
+  getTimelineWidth,
+} from "../utils/timelineUtils";
+
+/**
+ * Layout of the timeline view for a list of tasks. The zoom level and the
+ * critical path toggle are kept in the UI store.
+ */
+export const useTimelineView = (tasks: Task[]) => {
+  const { timelineViewConfig, setTimelineViewConfig } = useUiStore();
+  const zoom: TimelineZoom = timelineViewConfig?.zoom || "week";
+  const showCriticalPath = timelineViewConfig?.showCriticalPath ?? true;
+
+  const bars = useMemo(() => getTimelineBars(tasks), [tasks]);
+  const links = useMemo(() => getTimelineLinks(bars), [bars]);
+  const criticalPath = useMemo(
+    () => (showCriticalPath ? getCriticalPath(bars) : new Set<string>()),
+    [bars, showCriticalPath],
+  );
+  const range = useMemo(() => getTimelineRange(bars, zoom), [bars, zoom]);
+  const ticks = useMemo(() => getTimelineTicks(range, zoom), [range, zoom]);
+  const width = getTimelineWidth(range, zoom);
+
+  const setZoom = (nextZoom: TimelineZoom) => {
+    setTimelineViewConfig({ zoom: nextZoom, showCriticalPath });
+  };
+
+  const setShowCriticalPath = (show: boolean) => {
+    setTimelineViewConfig({ zoom, showCriticalPath: show });
+  };
+
+  return {
+    bars,
+    links,
+    criticalPath,
+    range,
+    ticks,
+    width,
+    zoom,
+    showCriticalPath,
+    unscheduledCount: tasks.length - bars.length,
+    setZoom,
+    setShowCriticalPath,
+  };
+};
@@ -1,8 +1,16 @@
-import React, { useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import { useFilters } from "../hooks/useFilters";
 import FilterList from "../features/filters/FilterList";
 import FilterForm from "../features/filters/FilterForm";
 import { Filter } from "../types/models";
+import { useTaskStore } from "../store/useTaskStore";
+import { useProjectStore } from "../store/useProjectStore";
+import { useLabelStore } from "../store/useLabelStore";
+import { useAuthStore } from "../store/useAuthStore";
+import { useUsers } from "../hooks/useUsers";
+import { projectApi } from "../api/projectApi";
+import { Section } from "../types/project";
+import { toFilterTask } from "../utils/filterQueryEvaluator";
 
 const FiltersPage: React.FC = () => {
   const {
@@ -14,7 +22,36 @@ const FiltersPage: React.FC = () => {
     updateFilter,
     deleteFilter,
     selectFilter,
+    getFilterTasks,
   } = useFilters();
+  const storeTasks = useTaskStore((state) => state.tasks);
+  const tasks = useMemo(() => storeTasks.map(toFilterTask), [storeTasks]);
+  const projects = useProjectStore((state) => state.projects);
+  const labels = useLabelStore((state) => state.labels);
+  const currentUserId = useAuthStore((state) => state.user?.id);
+  const { users } = useUsers();
+  const [sections, setSections] = useState<Section[]>([]);
+
+  // Queries name sections (`/Review`), so load them for every project
+  useEffect(() => {
+    let cancelled = false;
+
+    Promise.all(
+      projects.map((project) =>
+        projectApi
+          .getSections(project.id)
+          .then((response) => response.data || []),
+      ),
+    )
+      .then((results) => {
+        if (!cancelled) setSections(results.flat());
+      })
+      .catch((error) => console.error("Failed to load sections:", error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [projects]);
 
   const [showForm, setShowForm] = useState(false);
   const [editingFilter, setEditingFilter] = useState<Filter | null>(null);
@@ -47,6 +84,17 @@ const FiltersPage: React.FC = () => {
     setEditingFilter(null);
   };
 
+  const selectedFilter = filters.find((f) => f.id === selectedFilterId);
+  const filterResult = selectedFilter
+    ? getFilterTasks(selectedFilter.id, tasks, {
+        projects,
+        labels,
+        sections,
+        users,
+        currentUserId,
+      })
+    : null;
+
   return (
     <div className="container mx-auto px-4 py-6">
       <div className="flex justify-between items-center mb-6">
@@ -108,6 +156,43 @@ const FiltersPage: React.FC = () => {
                   selectedFilterId={selectedFilterId || undefined}
                 />
               )}
+
+              {selectedFilter && filterResult && (
+                <div className="mt-6 border-t pt-4">
+                  <h2 className="text-lg font-semibold mb-2">
+                    {selectedFilter.name}
+                  </h2>
+                  {selectedFilter.query && (
+                    <p className="text-sm font-mono text-gray-500 mb-3">
+                      {selectedFilter.query}
+                    </p>
+                  )}
+                  {filterResult.error ? (
+                    <div className="bg-red-100 border border-red-300 text-red-700 px-4 py-3 rounded">
+                      <p>
+                        Invalid query: {filterResult.error.message} (at
+                        character {filterResult.error.start + 1})
+                      </p>
+                    </div>
+                  ) : filterResult.tasks.length === 0 ? (
+                    <p className="text-gray-600">No tasks match this filter</p>
+                  ) : (
+                    <ul className="divide-y">
+                      {filterResult.tasks.map((task) => (
+                        <li key={task.id} className="py-2 flex items-center">
+                          <span
+                            className={
+                              task.completed ? "line-through text-gray-400" : ""
+                            }
+                          >
+                            {task.title}
+                          </span>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              )}
             </div>
           )}
         </>
@@ -7,7 +7,9 @@ import RecurringTaskForm from "../../features/recurring/RecurringTaskForm";
 import RecurringTaskPreview from "../../features/recurring/RecurringTaskPreview";
 import { useTask } from "../../hooks/useTasks";
 import { useRecurringTaskIntegration } from "../../hooks/useRecurringTaskIntegration";
+import { useRecurringTasks } from "../../hooks/useRecurringTasks";
 import { ArrowLeftIcon, PencilIcon } from "@heroicons/react/24/outline";
+import { RecurrenceEditScope } from "../../types/task";
 
 const TaskDetailPage: React.FC = () => {
   const { taskId } = useParams<{ taskId: string }>();
@@ -15,6 +17,7 @@ const TaskDetailPage: React.FC = () => {
   const [isEditing, setIsEditing] = useState(false);
   const { task, isLoading, error, refetch } = useTask(taskId);
   const { updateRecurringTaskIntegrated } = useRecurringTaskIntegration();
+  const { editRecurringOccurrence } = useRecurringTasks();
 
   const handleEdit = async (taskData: any) => {
     try {
@@ -28,9 +31,22 @@ const TaskDetailPage: React.FC = () => {
     }
   };
 
-  const handleRecurringEdit = async (taskData: any, config: any) => {
+  // Generated instances are edited as occurrences of their series
+  const seriesId = task?.customFields?.isRecurringInstance
+    ? task.customFields.originalTaskId
+    : undefined;
+
+  const handleRecurringEdit = async (
+    taskData: any,
+    config: any,
+    scope: RecurrenceEditScope = "all",
+  ) => {
     try {
-      if (taskId) {
+      if (seriesId) {
+        await editRecurringOccurrence(seriesId, task.dueDate, taskData, scope);
+        setIsEditing(false);
+        refetch();
+      } else if (taskId) {
         await updateRecurringTaskIntegrated(taskId, taskData, config);
         setIsEditing(false);
         refetch();
@@ -141,6 +157,7 @@ const TaskDetailPage: React.FC = () => {
           {task.recurringPattern ? (
             <RecurringTaskForm
               task={task}
+              occurrenceDate={seriesId ? task.dueDate : undefined}
               onSubmit={handleRecurringEdit}
               onCancel={() => setIsEditing(false)}
             />
@@ -1,18 +1,21 @@
 // @ts-nocheck
-import React, { useState } from "react";
+import React, { useEffect, useState } from "react";
 import { useNavigate } from "react-router-dom";
 import TaskManagementSystem from "../../features/tasks/TaskManagementSystem";
 import TaskForm from "../../features/tasks/TaskForm";
+import { BulkCaptureDialog } from "../../features/tasks/BulkCaptureDialog";
 import { useTasks } from "../../hooks/useTasks";
 import {
   PlusIcon,
   FilterIcon,
   MagnifyingGlassIcon,
+  QueueListIcon,
 } from "@heroicons/react/24/outline";
 
 const TasksPage: React.FC = () => {
   const navigate = useNavigate();
   const [showForm, setShowForm] = useState(false);
+  const [bulkText, setBulkText] = useState<string | null>(null);
   const {
     searchTasks,
     filterByStatus,
@@ -26,6 +29,23 @@ const TasksPage: React.FC = () => {
     sortDirection,
   } = useTasks();
 
+  // Pasting a list of several lines outside a text field adds it in bulk
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (target.closest("input, textarea, [contenteditable='true']")) return;
+
+      const text = e.clipboardData?.getData("text/plain") || "";
+      if (text.trim().split(/\r?\n/).length < 2) return;
+
+      e.preventDefault();
+      setBulkText(text);
+    };
+
+    document.addEventListener("paste", handlePaste);
+    return () => document.removeEventListener("paste", handlePaste);
+  }, []);
+
   const handleTaskClick = (taskId: string) => {
     navigate(`/tasks/${taskId}`);
   };
@@ -64,6 +84,13 @@ const TasksPage: React.FC = () => {
             </svg>
             <span>Recurring Tasks</span>
           </button>
+          <button
+            onClick={() => setBulkText("")}
+            className="flex items-center space-x-2 px-4 py-2 bg-white text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
+          >
+            <QueueListIcon className="w-5 h-5" />
+            <span>Bulk Add</span>
+          </button>
           <button
             onClick={() => setShowForm(!showForm)}
             className="flex items-center space-x-2 px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-blue-500"
@@ -193,6 +220,12 @@ const TasksPage: React.FC = () => {
         </div>
       )}
 
+      <BulkCaptureDialog
+        isOpen={bulkText !== null}
+        initialText={bulkText || ""}
+        onClose={() => setBulkText(null)}
+      />
+
       {/* Task Management System */}
       <TaskManagementSystem />
     </div>
@@ -0,0 +1,180 @@
+import { BoardViewService } from "../boardViewService";
+import { Task } from "../../types/task";
+import { BoardLayout } from "../../types/ui";
+
+const date = new Date(2024, 0, 1);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  ({
+    id,
+    title: id,
+    status: "todo",
+    priority: "medium",
+    completed: false,
+    createdAt: date,
+    updatedAt: date,
+    ...overrides,
+  }) as Task;
+
+const layout = (overrides: Partial<BoardLayout> = {}): BoardLayout => ({
+  ...BoardViewService.getDefaultBoardLayout(),
+  ...overrides,
+});
+
+const NONE = BoardViewService.NO_VALUE_COLUMN;
+
+describe("BoardViewService", () => {
+  it("builds columns from known values, task values and a no-value column", () => {
+    const tasks = [
+      task("a", { assigneeId: "user-1" }),
+      task("b", { assigneeId: "user-9" }),
+      task("c"),
+    ];
+    const byAssignee = layout({ groupBy: "assignee" });
+
+    expect(
+      BoardViewService.getBoardColumns(tasks, byAssignee, {
+        users: [
+          { id: "user-1", name: "Alex" },
+          { id: "user-2", name: "Sam" },
+        ],
+      }),
+    ).toEqual([
+      { id: NONE, title: "Unassigned", value: null },
+      { id: "user-1", title: "Alex", value: "user-1" },
+      { id: "user-2", title: "Sam", value: "user-2" },
+      { id: "user-9", title: "user-9", value: "user-9" },
+    ]);
+
+    const grouped = BoardViewService.groupTasksByColumn(tasks, byAssignee);
+    expect(grouped[NONE].map(({ id }) => id)).toEqual(["c"]);
+    expect(grouped["user-1"].map(({ id }) => id)).toEqual(["a"]);
+  });
+
+  it("keeps the saved column order and appends new columns", () => {
+    const columns = BoardViewService.getBoardColumns(
+      [],
+      layout({ groupBy: "priority", columnOrder: ["low", "critical"] }),
+    );
+
+    expect(columns.map(({ id }) => id)).toEqual([
+      "low",
+      "critical",
+      "high",
+      "medium",
+    ]);
+    expect(
+      BoardViewService.moveColumn(["low", "critical", "high"], "high", -1),
+    ).toEqual(["low", "high", "critical"]);
+    expect(BoardViewService.moveColumn(["low", "high"], "low", -1)).toEqual([
+      "low",
+      "high",
+    ]);
+  });
+
+  it("shows tasks in each of their label columns and swaps one label on move", () => {
+    const labelled = task("a", { labelIds: ["bug", "ui"] });
+    const byLabel = layout({ groupBy: "label" });
+    const grouped = BoardViewService.groupTasksByColumn([labelled], byLabel);
+
+    expect(Object.keys(grouped)).toEqual(["bug", "ui"]);
+    expect(
+      BoardViewService.getGroupUpdate(labelled, byLabel, "bug", "feature"),
+    ).toEqual({ labelIds: ["ui", "feature"] });
+    expect(
+      BoardViewService.getGroupUpdate(labelled, byLabel, "ui", NONE),
+    ).toEqual({ labelIds: ["bug"] });
+  });
+
+  it("updates the grouped field when a card changes column", () => {
+    const card = task("a", { customFields: { stage: "design" } });
+
+    expect(
+      BoardViewService.getGroupUpdate(
+        card,
+        layout({ groupBy: "section" }),
+        NONE,
+        "section-1",
+      ),
+    ).toEqual({ sectionId: "section-1" });
+    expect(
+      BoardViewService.getGroupUpdate(
+        card,
+        layout({ groupBy: "custom", customField: "stage" }),
+        "design",
+        NONE,
+      ),
+    ).toEqual({ customFields: {} });
+    expect(
+      BoardViewService.getGroupUpdate(card, layout(), "todo", "completed"),
+    ).toMatchObject({ status: "completed", completed: true });
+  });
+
+  it("builds lanes with a no-value lane and groups by project", () => {
+    const tasks = [task("a", { projectId: "p1" }), task("b")];
+    const lanes = BoardViewService.getBoardColumns(
+      tasks,
+      { groupBy: "priority" },
+      {},
+      true,
+    );
+
+    expect(lanes[0]).toEqual({ id: NONE, title: "No value", value: null });
+    expect(
+      BoardViewService.groupTasksByColumn(tasks, { groupBy: "project" }),
+    ).toEqual({ p1: [tasks[0]], [NONE]: [tasks[1]] });
+  });
+
+  it("updates both fields when a card moves to another column and lane", () => {
+    const card = task("a", { assigneeId: "user-1" });
+    const withLanes = layout({ swimlanes: { groupBy: "assignee" } });
+
+    expect(
+      BoardViewService.getCellUpdate(
+        card,
+        withLanes,
+        { columnId: "todo", laneId: "user-1" },
+        { columnId: "in-progress", laneId: NONE },
+      ),
+    ).toMatchObject({ status: "in-progress", assigneeId: null });
+    expect(
+      BoardViewService.getCellUpdate(
+        card,
+        withLanes,
+        { columnId: "todo", laneId: "user-1" },
+        { columnId: "todo", laneId: "user-2" },
+      ),
+    ).toEqual({ assigneeId: "user-2" });
+    expect(
+      BoardViewService.getCellUpdate(
+        card,
+        layout(),
+        { columnId: "todo" },
+        { columnId: "todo" },
+      ),
+    ).toEqual({});
+  });
+
+  it("applies lane label moves on top of column label moves", () => {
+    const card = task("a", { labelIds: ["bug", "ui"] });
+    const byLabels = layout({
+      groupBy: "label",
+      swimlanes: { groupBy: "label" },
+    });
+
+    expect(
+      BoardViewService.getCellUpdate(
+        card,
+        byLabels,
+        { columnId: "bug", laneId: "ui" },
+        { columnId: "feature", laneId: "docs" },
+      ),
+    ).toEqual({ labelIds: ["feature", "docs"] });
+  });
+
+  it("flags columns over their work in progress limit", () => {
+    expect(BoardViewService.isOverWipLimit(4, 3)).toBe(true);
+    expect(BoardViewService.isOverWipLimit(3, 3)).toBe(false);
+    expect(BoardViewService.isOverWipLimit(9)).toBe(false);
+  });
+});
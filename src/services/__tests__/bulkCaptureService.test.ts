@@ -0,0 +1,58 @@
+import { bulkCaptureService } from "../bulkCaptureService";
+
+describe("bulkCaptureService", () => {
+  const context = {
+    projects: [{ id: "project-1", name: "Marketing" }],
+    labels: [{ id: "label-1", name: "writing" }],
+    users: [{ id: "user-1", name: "Alex" }],
+  };
+
+  it("parses each outline line and links subtasks to their parent", async () => {
+    const drafts = await bulkCaptureService.parseOutline(
+      "- Plan launch #Marketing p1\n  - Draft announcement @writing +alex",
+    );
+
+    expect(drafts).toHaveLength(2);
+    expect(drafts[0]).toMatchObject({
+      title: "Plan launch",
+      project: "Marketing",
+      priority: "P1",
+      depth: 0,
+    });
+    expect(drafts[1]).toMatchObject({
+      title: "Draft announcement",
+      labels: ["writing"],
+      assignee: "alex",
+      parentKey: drafts[0].key,
+    });
+
+    const tasks = bulkCaptureService.toTasks(drafts, context);
+    expect(tasks[0]).toMatchObject({
+      id: drafts[0].key,
+      projectId: "project-1",
+      priority: "critical",
+      parentTaskId: null,
+    });
+    expect(tasks[1]).toMatchObject({
+      parentTaskId: drafts[0].key,
+      labelIds: ["label-1"],
+      assigneeId: "user-1",
+    });
+  });
+
+  it("applies the CSV mapping on top of the parsed title", async () => {
+    const drafts = await bulkCaptureService.parseCsv(
+      "Title,Priority,Tags\nPay rent #Marketing,low,bills @home",
+      ["title", "priority", "labels"],
+      { skipHeader: true },
+    );
+
+    expect(drafts).toHaveLength(1);
+    expect(drafts[0]).toMatchObject({
+      title: "Pay rent",
+      project: "Marketing",
+      priority: "P4",
+      labels: ["bills", "home"],
+    });
+  });
+});
@@ -0,0 +1,137 @@
+import { calendarFeedService } from "../calendarFeedService";
+import { CalendarFeedData } from "../../types/calendarTypes";
+
+describe("Calendar feeds", () => {
+  const task = (overrides: Record<string, any>): any => ({
+    status: "active",
+    priority: "P3",
+    completed: false,
+    order: 0,
+    labelIds: [],
+    createdAt: new Date(Date.UTC(2024, 0, 1)),
+    updatedAt: new Date(Date.UTC(2024, 0, 2)),
+    ...overrides,
+  });
+
+  const data: CalendarFeedData = {
+    tasks: [
+      task({
+        id: "b",
+        title: "Ship release",
+        projectId: "child",
+        dueDate: new Date(2024, 2, 5),
+        dueTime: "10:00",
+        duration: 60,
+      }),
+      task({
+        id: "a",
+        title: "Plan release",
+        projectId: "work",
+        dueDate: new Date(2024, 2, 1),
+        labelIds: ["urgent"],
+      }),
+      task({ id: "c", title: "Someday", projectId: "work" }),
+      task({
+        id: "d",
+        title: "Groceries",
+        projectId: "home",
+        dueDate: new Date(2024, 2, 2),
+        labelIds: ["urgent"],
+      }),
+    ],
+    projects: [
+      { id: "work", name: "Work" },
+      { id: "child", name: "Releases", parentProjectId: "work" },
+      { id: "home", name: "Home" },
+    ],
+    labels: [{ id: "urgent", name: "urgent" }],
+    filters: [
+      {
+        id: "f1",
+        name: "Urgent at work",
+        query: "@urgent & ##Work",
+        criteria: {},
+        color: "red",
+        favorite: false,
+        createdAt: new Date(Date.UTC(2024, 0, 1)),
+        updatedAt: new Date(Date.UTC(2024, 0, 1)),
+      },
+    ],
+  };
+
+  const projectFeed = calendarFeedService.createFeed(
+    { type: "project", id: "work", name: "Work" },
+    "https://todone.example",
+  );
+
+  it("creates unguessable feed URLs", () => {
+    const other = calendarFeedService.createFeed(projectFeed.scope);
+
+    expect(projectFeed.url).toMatch(
+      /^https:\/\/todone\.example\/feeds\/[a-f0-9]{32}\.ics$/,
+    );
+    expect(other.token).not.toBe(projectFeed.token);
+  });
+
+  it("selects dated tasks for projects, labels and filters", () => {
+    const ids = (scope: any) =>
+      calendarFeedService
+        .selectTasks({ ...projectFeed, scope }, data)
+        .map((t) => t.id);
+
+    expect(ids(projectFeed.scope)).toEqual(["a", "b"]);
+    expect(ids({ type: "label", id: "urgent", name: "urgent" })).toEqual([
+      "a",
+      "d",
+    ]);
+    expect(ids({ type: "filter", id: "f1", name: "Urgent at work" })).toEqual([
+      "a",
+    ]);
+  });
+
+  it("generates a stable document with stable UIDs", () => {
+    const first = calendarFeedService.generateFeed(projectFeed, data);
+    const second = calendarFeedService.generateFeed(projectFeed, {
+      ...data,
+      tasks: [...data.tasks].reverse(),
+    });
+
+    expect(second).toBe(first);
+    expect(first).toContain("X-WR-CALNAME:Todone: Work");
+    expect(first).toContain("UID:a@todone");
+    expect(first).toContain("DTSTART;VALUE=DATE:20240301");
+    expect(first).toContain("DTEND;VALUE=DATE:20240302");
+    expect(first).toContain("UID:b@todone");
+    expect(first).not.toContain("Someday");
+
+    const renamed = calendarFeedService.generateFeed(projectFeed, {
+      ...data,
+      tasks: data.tasks.map((t) =>
+        t.id === "a" ? { ...t, title: "Plan the release" } : t,
+      ),
+    });
+    expect(renamed).toContain("UID:a@todone");
+    expect(renamed.match(/BEGIN:VEVENT/g)).toHaveLength(2);
+  });
+
+  it("publishes feeds to the feed server and revokes them", async () => {
+    const fetchFn = vi.fn(async () => new Response(null, { status: 204 }));
+
+    await calendarFeedService.publishFeed(projectFeed, data, fetchFn);
+    expect(fetchFn).toHaveBeenCalledWith(projectFeed.url, {
+      method: "PUT",
+      headers: { "Content-Type": "text/calendar; charset=utf-8" },
+      body: calendarFeedService.generateFeed(projectFeed, data),
+    });
+
+    await calendarFeedService.unpublishFeed(projectFeed, fetchFn);
+    expect(fetchFn).toHaveBeenLastCalledWith(projectFeed.url, {
+      method: "DELETE",
+    });
+
+    fetchFn.mockResolvedValueOnce(new Response(null, { status: 410 }));
+    await expect(
+      calendarFeedService.publishFeed(projectFeed, data, fetchFn),
+    ).rejects.toThrow("Failed to publish calendar feed (410)");
+  });
+});
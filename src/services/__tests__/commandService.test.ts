@@ -0,0 +1,86 @@
+import { CommandService } from "../commandService";
+import { parsePaletteQuery } from "../../utils/commandUtils";
+import { PaletteData } from "../../types/command";
+
+describe("Command palette search", () => {
+  const now = new Date(2024, 2, 15, 9, 0, 0);
+  const data: PaletteData = {
+    now,
+    tasks: [
+      {
+        id: "t1",
+        title: "Write launch post",
+        projectId: "p1",
+        dueDate: new Date(2024, 2, 16),
+        completed: false,
+        priority: "P1",
+        labelIds: ["l1"],
+      },
+      {
+        id: "t2",
+        title: "Pay invoices",
+        projectId: "p2",
+        dueDate: new Date(2024, 2, 10),
+        completed: false,
+        priority: "P4",
+        labelIds: [],
+      },
+      {
+        id: "t3",
+        title: "Book venue",
+        projectId: "p2",
+        dueDate: null,
+        completed: true,
+        priority: "P2",
+        labelIds: [],
+      },
+    ],
+    projects: [
+      { id: "p1", name: "Work" },
+      { id: "p2", name: "Home Admin" },
+    ],
+    labels: [{ id: "l1", name: "writing" }],
+    filters: [{ id: "f1", name: "Overdue work" }],
+  };
+
+  const service = new CommandService();
+  const search = (query: string) =>
+    service.searchPalette(query, data).map((item) => item.id);
+
+  it("parses scope prefixes and quoted operators", () => {
+    expect(parsePaletteQuery('#work in:"Home Admin" due:today post')).toEqual({
+      scope: "projects",
+      text: "work post",
+      operators: [
+        { key: "in", value: "Home Admin" },
+        { key: "due", value: "today" },
+      ],
+    });
+  });
+
+  it("limits results to the scope selected by the prefix", () => {
+    expect(search(">settings")).toEqual(["command-settings"]);
+    expect(search("#")).toEqual(["project-p1", "project-p2"]);
+    expect(search("@writ")).toEqual(["label-l1"]);
+    expect(search("/over")).toEqual(["filter-f1"]);
+  });
+
+  it("searches tasks with inline operators", () => {
+    expect(search("due:tomorrow")).toEqual(["task-t1"]);
+    expect(search("is:overdue")).toEqual(["task-t2"]);
+    expect(search('in:"Home Admin" is:completed')).toEqual(["task-t3"]);
+    expect(search("label:writing p:1 launch")).toEqual(["task-t1"]);
+    expect(search("in:Work pay")).toEqual([]);
+  });
+
+  it("offers task actions including moving to other projects", () => {
+    const [task] = service.searchPalette("invoices", data);
+    const actions = service.getEntityActions(task, data).map((a) => a.name);
+
+    expect(task.kind).toBe("task");
+    expect(actions).toContain("Complete task");
+    expect(actions).toContain("Reschedule to tomorrow");
+    expect(actions).toContain("Move to Work");
+    expect(actions).not.toContain("Move to Home Admin");
+  });
+});
@@ -0,0 +1,341 @@
+import { create } from "zustand";
+import { historyService } from "../historyService";
+import { taskService } from "../taskService";
+import { taskApi } from "../../api/taskApi";
+import { useHistoryStore } from "../../store/useHistoryStore";
+import { useOfflineStore } from "../../store/useOfflineStore";
+import { useTaskStore } from "../../store/useTaskStore";
+import { Task } from "../../types/task";
+import { reconcileRemoteEntity } from "../../utils/realtimeUtils";
+
+vi.mock("../../api/taskApi");
+
+interface Item {
+  id: string;
+  title: string;
+  sectionId?: string;
+  updatedAt?: Date;
+}
+
+interface ItemState {
+  items: Item[];
+  addItem: (item: Item) => void;
+  updateItem: (id: string, updates: Partial<Item>) => void;
+  deleteItem: (id: string) => void;
+  moveItemToEnd: (id: string) => void;
+}
+
+const useItemStore = create<ItemState>()((set) => ({
+  items: [],
+  addItem: (item) => set((state) => ({ items: [...state.items, item] })),
+  updateItem: (id, updates) =>
+    set((state) => ({
+      items: state.items.map((item) =>
+        item.id === id ? { ...item, ...updates } : item,
+      ),
+    })),
+  deleteItem: (id) =>
+    set((state) => ({ items: state.items.filter((item) => item.id !== id) })),
+  moveItemToEnd: (id) =>
+    set((state) => ({
+      items: [
+        ...state.items.filter((item) => item.id !== id),
+        ...state.items.filter((item) => item.id === id),
+      ],
+    })),
+}));
+
+const syncHandler = vi.fn(async () => {});
+
+historyService.trackStore({
+  key: "items",
+  store: useItemStore,
+  entityKey: "items",
+  actions: {
+    addItem: { label: "Add item" },
+    updateItem: { label: "Edit item" },
+    deleteItem: { label: "Delete item", toast: true },
+    moveItemToEnd: { label: "Move item" },
+  },
+});
+historyService.registerSync("items", syncHandler);
+
+const titles = () => useItemStore.getState().items.map(({ title }) => title);
+
+const makeTask = (id: string, title: string) =>
+  ({
+    id,
+    title,
+    completed: false,
+    status: "todo",
+    priority: "medium",
+    createdAt: new Date(2024, 0, 1),
+    updatedAt: new Date(2024, 0, 1),
+  }) as Task;
+
+describe("HistoryService", () => {
+  beforeEach(() => {
+    historyService.clear();
+    vi.clearAllMocks();
+    useItemStore.setState({
+      items: [
+        { id: "a", title: "A" },
+        { id: "b", title: "B" },
+      ],
+    });
+  });
+
+  it("undoes and redoes tracked store actions", async () => {
+    useItemStore.getState().updateItem("a", { title: "A2" });
+    useItemStore.getState().deleteItem("b");
+    expect(titles()).toEqual(["A2"]);
+
+    await historyService.undo();
+    expect(titles()).toEqual(["A2", "B"]);
+    await historyService.undo();
+    expect(titles()).toEqual(["A", "B"]);
+    expect(historyService.canUndo()).toBe(false);
+
+    await historyService.redo();
+    expect(titles()).toEqual(["A2", "B"]);
+    expect(syncHandler).toHaveBeenLastCalledWith([
+      {
+        id: "a",
+        from: { id: "a", title: "A" },
+        to: { id: "a", title: "A2" },
+      },
+    ]);
+
+    useItemStore.getState().addItem({ id: "c", title: "C" });
+    expect(historyService.canRedo()).toBe(false);
+  });
+
+  it("groups compound actions into one command", async () => {
+    historyService.group("Move item", () => {
+      useItemStore.getState().updateItem("a", { sectionId: "s1" });
+      useItemStore.getState().moveItemToEnd("a");
+    });
+
+    expect(useHistoryStore.getState().past).toHaveLength(1);
+    expect(useHistoryStore.getState().past[0].label).toBe("Move item");
+
+    await historyService.undo();
+    expect(useItemStore.getState().items).toEqual([
+      { id: "a", title: "A" },
+      { id: "b", title: "B" },
+    ]);
+  });
+
+  it("offers an undo toast for the latest command only", async () => {
+    useItemStore.getState().deleteItem("a");
+    const [toast] = useHistoryStore.getState().toasts;
+    expect(toast.action?.label).toBe("Undo");
+
+    useItemStore.getState().updateItem("b", { title: "B2" });
+    expect(useHistoryStore.getState().toasts).toEqual([]);
+    expect(await historyService.undoCommand(toast.id)).toBe(false);
+  });
+
+  it("cancels queued offline changes instead of syncing the undo", async () => {
+    const task = {
+      id: "t1",
+      title: "Write report",
+      completed: false,
+      status: "todo",
+      priority: "medium",
+      createdAt: new Date(2024, 0, 1),
+      updatedAt: new Date(2024, 0, 1),
+    } as Task;
+    useTaskStore.setState({ tasks: [task] });
+    useOfflineStore.setState((state) => ({
+      status: { ...state.status, isOffline: true },
+      queue: { ...state.queue, items: [] },
+    }));
+
+    try {
+      await taskService.updateTask("t1", { title: "Write summary" });
+      expect(useOfflineStore.getState().queue.items).toHaveLength(1);
+      expect(useTaskStore.getState().tasks[0].title).toBe("Write summary");
+
+      await historyService.undo();
+      expect(useOfflineStore.getState().queue.items).toEqual([]);
+      expect(useTaskStore.getState().tasks[0].title).toBe("Write report");
+
+      await historyService.redo();
+      const [queued] = useOfflineStore.getState().queue.items;
+      expect(queued.data.taskId).toBe("t1");
+      expect(queued.data.updates.title).toBe("Write summary");
+      expect(taskApi.updateTask).not.toHaveBeenCalled();
+    } finally {
+      useOfflineStore.setState((state) => ({
+        status: { ...state.status, isOffline: false },
+        queue: { ...state.queue, items: [] },
+      }));
+    }
+  });
+
+  it("stamps undone records so other clients don't ignore them", async () => {
+    const before = new Date(2024, 0, 1);
+    const edited = new Date(2024, 0, 2);
+    useItemStore.setState({
+      items: [{ id: "a", title: "A", updatedAt: before }],
+    });
+    useItemStore.getState().updateItem("a", { title: "A2", updatedAt: edited });
+    const peerCopy = useItemStore.getState().items[0];
+
+    await historyService.undo();
+    const [undone] = useItemStore.getState().items;
+    expect(undone.title).toBe("A");
+    expect(undone.updatedAt!.getTime()).toBeGreaterThan(edited.getTime());
+    expect(reconcileRemoteEntity(peerCopy, undone, [])).toBe(undone);
+
+    await historyService.redo();
+    const [redone] = useItemStore.getState().items;
+    expect(redone.title).toBe("A2");
+    expect(reconcileRemoteEntity(undone, redone, [])).toBe(redone);
+  });
+
+  it("keeps changes made while a request is in flight out of its step", async () => {
+    useTaskStore.setState({
+      tasks: [makeTask("t1", "Write report"), makeTask("t2", "Review")],
+    });
+    vi.mocked(taskApi.updateTask).mockResolvedValue({
+      success: true,
+      data: makeTask("t2", "Review"),
+    });
+    let respond!: (response: { success: boolean; data: Task }) => void;
+    vi.mocked(taskApi.updateTask).mockReturnValueOnce(
+      new Promise((resolve) => {
+        respond = resolve;
+      }),
+    );
+
+    const saving = taskService.updateTask(
+      "t1",
+      { title: "Write summary" },
+      { label: "Move task", toast: true },
+    );
+    // A collaborator's edit applied by the realtime service, then the
+    // user's next action
+    useTaskStore.setState((state) => ({
+      tasks: state.tasks.map((task) =>
+        task.id === "t2" ? { ...task, title: "Review draft" } : task,
+      ),
+    }));
+    useTaskStore.getState().updateTask("t2", { priority: "high" });
+    respond({ success: true, data: makeTask("t1", "Write summary") });
+    await saving;
+
+    expect(useHistoryStore.getState().past.map(({ label }) => label)).toEqual([
+      "Move task",
+      "Edit task",
+    ]);
+    await historyService.undo();
+    await historyService.undo();
+    expect(
+      useTaskStore
+        .getState()
+        .tasks.map(({ title, priority }) => [title, priority]),
+    ).toEqual([
+      ["Write report", "medium"],
+      ["Review draft", "medium"],
+    ]);
+  });
+
+  it("drops the step of an update the server rejects", async () => {
+    useTaskStore.setState({ tasks: [makeTask("t1", "Write report")] });
+    vi.mocked(taskApi.completeTask).mockResolvedValueOnce({
+      success: false,
+      message: "Server error",
+    });
+
+    await expect(taskService.toggleTaskCompletion("t1")).rejects.toThrow(
+      "Server error",
+    );
+    expect(useTaskStore.getState().tasks[0].completed).toBe(false);
+    expect(historyService.canUndo()).toBe(false);
+    expect(useHistoryStore.getState().toasts).toEqual([]);
+  });
+
+  it("records partial task updates such as a new due date", async () => {
+    const task = makeTask("t1", "Write report");
+    const dueDate = new Date(2024, 0, 5);
+    useTaskStore.setState({ tasks: [task] });
+    vi.mocked(taskApi.updateTask).mockResolvedValueOnce({
+      success: true,
+      data: { ...task, dueDate },
+    });
+
+    await taskService.updateTask("t1", { dueDate });
+    expect(useTaskStore.getState().tasks[0].dueDate).toEqual(dueDate);
+
+    historyService.undo();
+    expect(useTaskStore.getState().tasks[0].dueDate).toBeUndefined();
+  });
+
+  it("drops a bulk edit the server rejects", async () => {
+    useTaskStore.setState({
+      tasks: [makeTask("t1", "Write report"), makeTask("t2", "Review")],
+    });
+    vi.mocked(taskApi.updateTasks).mockResolvedValueOnce({
+      success: false,
+      error: { code: "SERVER_ERROR", message: "Server error" },
+    });
+
+    await expect(
+      taskService.bulkEditTasks(["t1", "t2"], {
+        type: "move",
+        projectId: "p2",
+      }),
+    ).rejects.toThrow("Server error");
+    expect(
+      useTaskStore.getState().tasks.map(({ projectId }) => projectId),
+    ).toEqual([undefined, undefined]);
+    expect(historyService.canUndo()).toBe(false);
+    expect(useHistoryStore.getState().toasts).toEqual([]);
+  });
+
+  it("queues bulk edits made offline", async () => {
+    useTaskStore.setState({
+      tasks: [makeTask("t1", "Write report"), makeTask("t2", "Review")],
+    });
+    useOfflineStore.setState((state) => ({
+      status: { ...state.status, isOffline: true },
+      queue: { ...state.queue, items: [] },
+    }));
+
+    try {
+      await taskService.bulkEditTasks(["t1", "t2"], {
+        type: "move",
+        projectId: "p2",
+      });
+      expect(
+        useOfflineStore
+          .getState()
+          .queue.items.map(({ data }) => [data.taskId, data.updates.projectId]),
+      ).toEqual([
+        ["t1", "p2"],
+        ["t2", "p2"],
+      ]);
+      expect(taskApi.updateTasks).not.toHaveBeenCalled();
+
+      await historyService.undo();
+      expect(useOfflineStore.getState().queue.items).toEqual([]);
+      expect(
+        useTaskStore.getState().tasks.map(({ projectId }) => projectId),
+      ).toEqual([undefined, undefined]);
+    } finally {
+      useOfflineStore.setState((state) => ({
+        status: { ...state.status, isOffline: false },
+        queue: { ...state.queue, items: [] },
+      }));
+    }
+  });
+
+  it("does not record untracked changes", () => {
+    historyService.runUntracked(() =>
+      useItemStore.getState().updateItem("a", { title: "From server" }),
+    );
+    expect(historyService.canUndo()).toBe(false);
+  });
+});
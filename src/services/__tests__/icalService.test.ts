@@ -0,0 +1,236 @@
+import { format } from "date-fns";
+import { icalService } from "../icalService";
+import {
+  foldICalLine,
+  parseICalendar,
+  unfoldICalLines,
+} from "../../utils/icalUtils";
+import {
+  formatRRule,
+  parseRRule,
+  recurringConfigToRRule,
+  rRuleToRecurringConfig,
+} from "../../utils/rruleUtils";
+
+describe("iCalendar import/export", () => {
+  const baseTask: any = {
+    id: "task-1",
+    title: "Pay rent; call landlord, maybe",
+    description: "Line one\nLine two",
+    status: "active",
+    priority: "P2",
+    dueDate: new Date(2024, 2, 1),
+    completed: false,
+    order: 0,
+    createdAt: new Date(Date.UTC(2024, 0, 1)),
+    updatedAt: new Date(Date.UTC(2024, 0, 2)),
+  };
+
+  const roundTrip = (task: any, component: "VTODO" | "VEVENT" = "VTODO") => {
+    const ics = icalService.exportTasks([task], { component });
+    const result = icalService.importCalendar(ics);
+    expect(result.errors).toEqual([]);
+    expect(result.tasks).toHaveLength(1);
+    return { ics, imported: result.tasks[0] };
+  };
+
+  it("folds long lines and unfolds them again", () => {
+    const line = `DESCRIPTION:${"x".repeat(200)}`;
+    const folded = foldICalLine(line);
+
+    expect(folded.split("\r\n").every((part) => part.length <= 75)).toBe(true);
+    expect(unfoldICalLines(folded)).toEqual([line]);
+  });
+
+  it("round-trips text, dates, priority and completion", () => {
+    const { ics, imported } = roundTrip({
+      ...baseTask,
+      completed: true,
+      completedAt: new Date(Date.UTC(2024, 2, 1, 12)),
+    });
+
+    expect(ics).toContain("BEGIN:VTODO");
+    expect(ics).toContain("DUE;VALUE=DATE:20240301");
+    expect(ics).toContain("SUMMARY:Pay rent\\; call landlord\\, maybe");
+    expect(imported.uid).toBe("task-1@todone");
+    expect(imported.task.title).toBe(baseTask.title);
+    expect(imported.task.description).toBe(baseTask.description);
+    expect(imported.task.dueDate).toEqual(new Date(2024, 2, 1));
+    expect(imported.task.priority).toBe("P2");
+    expect(imported.task.completed).toBe(true);
+    expect(imported.recurringConfig).toBeNull();
+  });
+
+  it("exports timed tasks as events with a duration", () => {
+    const { ics, imported } = roundTrip(
+      { ...baseTask, dueTime: "14:30", duration: 45 },
+      "VEVENT",
+    );
+
+    expect(ics).toContain("BEGIN:VEVENT");
+    expect(imported.task.dueTime).toBe("14:30");
+    expect(imported.task.duration).toBe(45);
+  });
+
+  it.each([
+    [
+      { pattern: "daily", frequency: "daily", interval: 3 },
+      "FREQ=DAILY;INTERVAL=3",
+    ],
+    [
+      {
+        pattern: "weekly",
+        frequency: "weekly",
+        interval: 1,
+        customDays: [1, 3],
+      },
+      "FREQ=WEEKLY;BYDAY=MO,WE",
+    ],
+    [
+      { pattern: "custom", frequency: "weekdays", interval: 1 },
+      "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR",
+    ],
+    [
+      {
+        pattern: "monthly",
+        frequency: "monthly",
+        interval: 1,
+        customMonthPosition: "last",
+        customMonthDay: "friday",
+      },
+      "FREQ=MONTHLY;BYDAY=-1FR",
+    ],
+    [
+      {
+        pattern: "monthly",
+        frequency: "monthly",
+        interval: 2,
+        customMonthDays: [15],
+        endCondition: "after_occurrences",
+        maxOccurrences: 6,
+      },
+      "FREQ=MONTHLY;INTERVAL=2;COUNT=6;BYMONTHDAY=15",
+    ],
+    [
+      {
+        pattern: "yearly",
+        frequency: "yearly",
+        interval: 1,
+        endCondition: "on_date",
+        endDate: new Date(Date.UTC(2030, 0, 1)),
+      },
+      "FREQ=YEARLY;UNTIL=20300101T000000Z",
+    ],
+  ])("round-trips recurrence %#", (config: any, expected) => {
+    const { ics, imported } = roundTrip({
+      ...baseTask,
+      customFields: { recurringConfig: config },
+    });
+
+    expect(ics).toContain(`RRULE:${expected}`);
+    expect(imported.recurringConfig).toMatchObject(config);
+    expect(imported.task.recurringPattern).toBe(config.pattern);
+  });
+
+  it("round-trips exceptions and rules beyond the simple fields", () => {
+    const config: any = {
+      pattern: "monthly",
+      frequency: "monthly",
+      interval: 1,
+      rrule: "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+      exDates: [new Date(2024, 3, 30)],
+      rDates: [new Date(2024, 4, 2)],
+    };
+    const { ics, imported } = roundTrip({
+      ...baseTask,
+      customFields: { recurringConfig: config },
+    });
+
+    expect(ics).toContain("EXDATE;VALUE=DATE:20240430");
+    expect(ics).toContain("RDATE;VALUE=DATE:20240502");
+    expect(imported.recurringConfig).toMatchObject({
+      rrule: config.rrule,
+      exDates: config.exDates,
+      rDates: config.rDates,
+    });
+  });
+
+  it("writes and reads times in the series timezone", () => {
+    const config: any = {
+      pattern: "weekly",
+      frequency: "weekly",
+      interval: 1,
+      timeZone: "America/New_York",
+      exDates: [new Date(Date.UTC(2024, 2, 15, 13, 30))],
+    };
+    const task = {
+      ...baseTask,
+      dueDate: new Date(Date.UTC(2024, 2, 8, 14, 30)),
+      customFields: { recurringConfig: config },
+    };
+    task.dueTime = format(task.dueDate, "HH:mm");
+    const { ics, imported } = roundTrip(task);
+
+    expect(ics).toContain("DUE;TZID=America/New_York:20240308T093000");
+    expect(ics).toContain("EXDATE;TZID=America/New_York:20240315T093000");
+    expect(imported.recurringConfig).toMatchObject({
+      timeZone: "America/New_York",
+      exDates: config.exDates,
+    });
+    expect(imported.task.dueTime).toBe(task.dueTime);
+
+    const [event] = icalService.parseEvents(
+      [
+        "BEGIN:VCALENDAR",
+        "BEGIN:VEVENT",
+        "UID:standup",
+        "DTSTART;TZID=Europe/Berlin:20240310T090000",
+        "DTEND;TZID=Europe/Berlin:20240310T091500",
+        "END:VEVENT",
+        "END:VCALENDAR",
+      ].join("\r\n"),
+    );
+    expect(event.timeZone).toBe("Europe/Berlin");
+    expect(event.startDate).toEqual(new Date(Date.UTC(2024, 2, 10, 8)));
+    expect(event.endDate).toEqual(new Date(Date.UTC(2024, 2, 10, 8, 15)));
+    expect(icalService.exportEvents([event])).toContain(
+      "DTSTART;TZID=Europe/Berlin:20240310T090000",
+    );
+  });
+
+  it("maps shorthand frequencies to equivalent rules", () => {
+    expect(
+      formatRRule(
+        recurringConfigToRRule({ pattern: "custom", frequency: "biweekly" }),
+      ),
+    ).toBe("FREQ=WEEKLY;INTERVAL=2");
+    expect(
+      rRuleToRecurringConfig(parseRRule("RRULE:FREQ=MONTHLY;INTERVAL=3")),
+    ).toMatchObject({ pattern: "monthly", interval: 3 });
+  });
+
+  it("reports malformed entries without dropping valid ones", () => {
+    const ics = [
+      "BEGIN:VCALENDAR",
+      "BEGIN:VTODO",
+      "UID:good",
+      "SUMMARY:Good",
+      "DUE;VALUE=DATE:20240301",
+      "END:VTODO",
+      "BEGIN:VTODO",
+      "UID:bad",
+      "SUMMARY:Bad",
+      "RRULE:FREQ=SECONDLY",
+      "END:VTODO",
+      "END:VCALENDAR",
+    ].join("\r\n");
+
+    const result = icalService.importCalendar(ics);
+
+    expect(result.tasks.map((t) => t.uid)).toEqual(["good"]);
+    expect(result.errors[0]).toContain("VTODO bad");
+    expect(() => parseICalendar("BEGIN:VCALENDAR")).toThrow(
+      "Missing END:VCALENDAR",
+    );
+  });
+});
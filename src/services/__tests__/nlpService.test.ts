@@ -0,0 +1,26 @@
+import { NlpService } from "../nlpService";
+
+describe("NlpService", () => {
+  const service = new NlpService();
+  // Wednesday, 13 March 2024
+  const now = new Date(2024, 2, 13, 10, 0);
+
+  it("parses the first line and keeps the rest as the description", async () => {
+    const text = "Review PR tomorrow p1\nCheck the migration\nthen merge";
+    const result = await service.parseNaturalLanguage(text, { now });
+
+    expect(result.title).toBe("Review PR");
+    expect(result.priority).toBe("P1");
+    expect(result.description).toBe("Check the migration\nthen merge");
+    expect(
+      result.entities.map(({ start, end }) => text.slice(start, end)),
+    ).toEqual(["tomorrow", "p1"]);
+  });
+
+  it("leaves the description out for single-line text", async () => {
+    const result = await service.parseNaturalLanguage("Call mom", { now });
+
+    expect(result.title).toBe("Call mom");
+    expect(result.description).toBeUndefined();
+  });
+});
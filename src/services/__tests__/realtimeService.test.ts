@@ -0,0 +1,219 @@
+import { create } from "zustand";
+import { realtimeService } from "../realtimeService";
+import { useOfflineStore } from "../../store/useOfflineStore";
+import { useRealtimeStore } from "../../store/useRealtimeStore";
+import { CollaborationEvent } from "../../types/collaboration";
+import {
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+} from "../../types/realtime";
+import { REALTIME_PROTOCOL_VERSION } from "../../utils/realtimeUtils";
+
+interface Item {
+  id: string;
+  title: string;
+  updatedAt?: Date;
+}
+
+interface ItemState {
+  items: Item[];
+  addItem: (item: Item) => void;
+  updateItem: (id: string, updates: Partial<Item>) => void;
+}
+
+const useItemStore = create<ItemState>()((set) => ({
+  items: [],
+  addItem: (item) => set((state) => ({ items: [...state.items, item] })),
+  updateItem: (id, updates) =>
+    set((state) => ({
+      items: state.items.map((item) =>
+        item.id === id ? { ...item, ...updates } : item,
+      ),
+    })),
+}));
+
+realtimeService.shareStore({
+  entityType: "task",
+  store: useItemStore,
+  entityKey: "items",
+  actions: ["addItem", "updateItem"],
+});
+
+class FakeTransport implements RealtimeTransport {
+  sent: CollaborationEvent[] = [];
+  handlers: RealtimeTransportHandlers | null = null;
+
+  connect(handlers: RealtimeTransportHandlers) {
+    this.handlers = handlers;
+  }
+
+  send(message: string) {
+    this.sent.push(JSON.parse(message));
+  }
+
+  close() {
+    this.handlers?.onClose(1000, "");
+  }
+
+  receive(event: Partial<CollaborationEvent>) {
+    this.handlers?.onMessage(
+      JSON.stringify({
+        version: REALTIME_PROTOCOL_VERSION,
+        id: `remote-${Math.random()}`,
+        timestamp: new Date(),
+        clientId: "other-client",
+        userId: "other-user",
+        ...event,
+      }),
+    );
+  }
+
+  sentTypes() {
+    return this.sent.map(({ type }) => type);
+  }
+}
+
+const titles = () => useItemStore.getState().items.map(({ title }) => title);
+
+describe("RealtimeService", () => {
+  let transport: FakeTransport;
+
+  beforeEach(() => {
+    useItemStore.setState({ items: [{ id: "a", title: "A" }] });
+    useOfflineStore.setState((state) => ({
+      queue: { ...state.queue, items: [] },
+    }));
+    transport = new FakeTransport();
+    realtimeService.connect(transport);
+  });
+
+  afterEach(() => {
+    realtimeService.disconnect();
+  });
+
+  it("broadcasts store changes, queueing them until connected", () => {
+    useItemStore.getState().updateItem("a", { title: "A2" });
+    expect(transport.sent).toEqual([]);
+
+    transport.handlers?.onOpen();
+    useItemStore.getState().addItem({ id: "b", title: "B" });
+
+    expect(transport.sentTypes()).toEqual([
+      "presence_updated",
+      "task_updated",
+      "task_created",
+    ]);
+    expect(transport.sent[1]).toMatchObject({
+      version: REALTIME_PROTOCOL_VERSION,
+      clientId: realtimeService.getClientId(),
+      data: { id: "a", entity: { id: "a", title: "A2" } },
+    });
+  });
+
+  it("applies changes from other clients without broadcasting them", () => {
+    transport.handlers?.onOpen();
+    transport.sent = [];
+
+    transport.receive({
+      type: "task_updated",
+      data: { id: "a", entity: { id: "a", title: "From Ben" } },
+    });
+    transport.receive({
+      type: "task_created",
+      data: { id: "c", entity: { id: "c", title: "C" } },
+    });
+    transport.receive({
+      type: "task_updated",
+      clientId: realtimeService.getClientId(),
+      data: { id: "a", entity: { id: "a", title: "Echo" } },
+    });
+
+    expect(titles()).toEqual(["From Ben", "C"]);
+    expect(transport.sent).toEqual([]);
+  });
+
+  it("keeps local records with queued offline changes", () => {
+    transport.handlers?.onOpen();
+    useOfflineStore.getState().addToQueue({
+      operation: "Delete task: a",
+      type: "delete",
+      data: { taskId: "a" },
+    });
+
+    transport.receive({
+      type: "task_updated",
+      data: { id: "a", entity: { id: "a", title: "From Ben" } },
+    });
+
+    expect(titles()).toEqual(["A"]);
+  });
+
+  it("tracks presence and introduces itself to new clients", () => {
+    transport.handlers?.onOpen();
+    transport.sent = [];
+
+    transport.receive({
+      type: "presence_updated",
+      data: { userName: "Ben", view: { taskId: "a" } },
+    });
+    expect(useRealtimeStore.getState().presence).toMatchObject([
+      { clientId: "other-client", userName: "Ben", view: { taskId: "a" } },
+    ]);
+    expect(transport.sentTypes()).toEqual(["presence_updated"]);
+
+    transport.receive({ type: "presence_left", data: {} });
+    expect(useRealtimeStore.getState().presence).toEqual([]);
+  });
+
+  it("sends comment notifications to their recipient only", () => {
+    const received = vi.fn();
+    const unsubscribe = realtimeService.onCommentNotification(received);
+    localStorage.setItem("userId", "ben");
+    const notification = {
+      commentId: "c1",
+      taskId: "a",
+      actorId: "ana",
+      type: "mention" as const,
+      userId: "ben",
+      read: false,
+    };
+
+    try {
+      realtimeService.sendCommentNotification(notification);
+      transport.handlers?.onOpen();
+      expect(transport.sentTypes()).toContain("comment_notification");
+
+      transport.receive({ type: "comment_notification", data: notification });
+      transport.receive({
+        type: "comment_notification",
+        data: { ...notification, userId: "cleo" },
+      });
+      expect(received).toHaveBeenCalledTimes(1);
+      expect(received).toHaveBeenCalledWith(notification);
+    } finally {
+      unsubscribe();
+      localStorage.removeItem("userId");
+    }
+  });
+
+  it("reconnects with backoff but stops for an incompatible server", () => {
+    vi.useFakeTimers();
+    try {
+      const connect = vi.spyOn(transport, "connect");
+      transport.handlers?.onOpen();
+
+      transport.handlers?.onClose(1006, "");
+      expect(useRealtimeStore.getState().status).toBe("disconnected");
+      vi.advanceTimersByTime(1000);
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(useRealtimeStore.getState().status).toBe("connecting");
+
+      transport.handlers?.onClose(4000, "Unsupported protocol version");
+      vi.advanceTimersByTime(60000);
+      expect(connect).toHaveBeenCalledTimes(1);
+      expect(useRealtimeStore.getState().status).toBe("incompatible");
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,118 @@
+import { recurringTaskService } from "../recurringTaskService";
+import { recurringPatternManager } from "../recurringPatternManager";
+import { taskApi } from "../../api/taskApi";
+import { useTaskStore } from "../../store/useTaskStore";
+import { Task } from "../../types/task";
+import { splitRecurringConfig } from "../../utils/rruleUtils";
+
+vi.mock("../../api/taskApi");
+
+const day = (year: number, month: number, date: number) =>
+  new Date(year, month - 1, date, 9);
+
+const series = (overrides: Partial<Task> = {}): Task =>
+  ({
+    id: "series",
+    title: "Standup",
+    dueDate: day(2030, 1, 1),
+    recurringPattern: "daily",
+    status: "active",
+    priority: "P3",
+    completed: false,
+    createdAt: day(2029, 12, 1),
+    updatedAt: day(2029, 12, 1),
+    customFields: {},
+    ...overrides,
+  }) as Task;
+
+describe("recurring task generation", () => {
+  beforeEach(() => {
+    vi.mocked(taskApi.createTask).mockImplementation(async (task) => ({
+      success: true,
+      data: task as Task,
+    }));
+    useTaskStore.setState({ tasks: [] });
+  });
+
+  afterEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("stops the original series at the UNTIL of a split", async () => {
+    const { head } = splitRecurringConfig(
+      { pattern: "daily", interval: 1 },
+      day(2030, 1, 1),
+      day(2030, 1, 5),
+    );
+    const task = series({ customFields: { recurringConfig: head } });
+
+    const instances = await recurringTaskService.generateRecurringInstances(
+      task,
+      { pattern: "daily", startDate: day(2030, 1, 1) },
+    );
+    expect(instances.map(({ date }) => date.getDate())).toEqual([1, 2, 3, 4]);
+
+    const created = vi
+      .mocked(taskApi.createTask)
+      .mock.calls.map(([instance]) => instance);
+    useTaskStore.setState({ tasks: [task, ...(created as Task[])] });
+    expect(
+      await recurringTaskService.generateNextRecurringInstance(task),
+    ).toBeNull();
+
+    expect(
+      recurringPatternManager
+        .generateRecurringDatesAdvanced(day(2030, 1, 1), head)
+        .map(({ date }) => date.getDate()),
+    ).toEqual([1, 2, 3, 4]);
+  });
+
+  it("generates instances from the full recurrence rule", async () => {
+    const task = series({
+      dueDate: day(2030, 1, 8),
+      recurringPattern: "monthly",
+      customFields: {
+        recurringConfig: {
+          pattern: "monthly",
+          rrule: "FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2",
+          exDates: [day(2030, 2, 12)],
+        },
+      },
+    });
+
+    await recurringTaskService.generateRecurringInstances(task, {
+      pattern: "monthly",
+      startDate: day(2030, 1, 8),
+    });
+    expect(
+      vi
+        .mocked(taskApi.createTask)
+        .mock.calls.slice(0, 3)
+        .map(([instance]) => instance.dueDate),
+    ).toEqual([day(2030, 3, 12), day(2030, 4, 9), day(2030, 5, 14)]);
+
+    expect(
+      recurringPatternManager.calculateNextOccurrence(
+        day(2030, 1, 8),
+        task.customFields!.recurringConfig,
+      ),
+    ).toEqual(day(2030, 3, 12));
+  });
+
+  it("ends at maxOccurrences or endDate without an end condition", () => {
+    const start = day(2030, 1, 1);
+
+    expect(
+      recurringPatternManager.generateRecurringDatesAdvanced(start, {
+        pattern: "weekly",
+        maxOccurrences: 3,
+      }),
+    ).toHaveLength(3);
+    expect(
+      recurringPatternManager.calculateFutureOccurrences(start, {
+        pattern: "daily",
+        endDate: day(2030, 1, 4),
+      }),
+    ).toEqual([day(2030, 1, 2), day(2030, 1, 3), day(2030, 1, 4)]);
+  });
+});
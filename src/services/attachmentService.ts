@@ -0,0 +1,529 @@
+/**
+ * Attachment Service - Keeps attached files in IndexedDB, generates their
+ * previews and uploads them through a queue that survives going offline
+ */
+import pdfWorkerUrl from "pdfjs-dist/build/pdf.worker.min.mjs?url";
+import { TodoneDatabase } from "../database/db";
+import { Attachment } from "../database/models";
+import { MAX_SYNC_ATTEMPTS, getRetryDelay } from "../database/sync";
+import { attachmentApi } from "../api/attachmentApi";
+import { useOfflineStore } from "../store/useOfflineStore";
+import { useTaskStore } from "../store/useTaskStore";
+import { historyService } from "./historyService";
+import {
+  ATTACHMENT_STORAGE_QUOTA,
+  AttachmentLimitError,
+  RejectedAttachment,
+  TEXT_PREVIEW_LENGTH,
+  getDueUploads,
+  getPreviewKind,
+  getThumbnailSize,
+  validateAttachments,
+} from "../utils/attachmentUtils";
+
+/**
+ * What an attachment belongs to. Comment attachments keep their task ID
+ * too but are not listed with the task's own files.
+ */
+export interface AttachmentTarget {
+  taskId?: string;
+  commentId?: string;
+}
+
+export interface AddAttachmentsResult {
+  attachments: Attachment[];
+  rejected: RejectedAttachment<File>[];
+}
+
+const WAITING_STATUSES = ["pending", "uploading", "failed"];
+
+export class AttachmentService {
+  private static instance: AttachmentService;
+  private db: TodoneDatabase;
+  private listeners = new Set<() => void>();
+  private objectUrls = new Map<string, string>();
+  private initialized: Promise<void> | null = null;
+  private uploading: Promise<void> | null = null;
+  private uploadRequested = false;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  private constructor() {
+    this.db = new TodoneDatabase();
+
+    useOfflineStore.subscribe((state, previous) => {
+      if (previous.status.isOffline && !state.status.isOffline) {
+        void this.processUploadQueue();
+      }
+    });
+  }
+
+  public static getInstance(): AttachmentService {
+    if (!AttachmentService.instance) {
+      AttachmentService.instance = new AttachmentService();
+    }
+    return AttachmentService.instance;
+  }
+
+  /**
+   * Be told whenever attachments are added, removed or change upload state
+   */
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private notify(): void {
+    this.listeners.forEach((listener) => listener());
+  }
+
+  private isOffline(): boolean {
+    return useOfflineStore.getState().status.isOffline;
+  }
+
+  private initialize(): Promise<void> {
+    if (!this.initialized) {
+      // Uploads left "uploading" were in flight when the page was closed;
+      // we can't know whether they landed, so send them again
+      this.initialized = this.db.attachments
+        .where("uploadStatus")
+        .equals("uploading")
+        .modify({ uploadStatus: "pending" })
+        .then(() => undefined);
+    }
+    return this.initialized;
+  }
+
+  /**
+   * Attachments of a task or comment, oldest first
+   */
+  async getAttachments({
+    taskId,
+    commentId,
+  }: AttachmentTarget): Promise<Attachment[]> {
+    let attachments: Attachment[] = [];
+    if (commentId) {
+      attachments = await this.db.attachments
+        .where("commentId")
+        .equals(commentId)
+        .toArray();
+    } else if (taskId) {
+      attachments = (
+        await this.db.attachments.where("taskId").equals(taskId).toArray()
+      ).filter((attachment) => !attachment.commentId);
+    }
+
+    return attachments.sort(
+      (a, b) =>
+        new Date(a.createdAt || 0).getTime() -
+        new Date(b.createdAt || 0).getTime(),
+    );
+  }
+
+  /**
+   * Bytes taken by files that are stored in full while they wait to upload
+   */
+  async getStorageUsage(): Promise<number> {
+    const waiting = await this.db.attachments
+      .where("uploadStatus")
+      .anyOf(WAITING_STATUSES)
+      .toArray();
+
+    return waiting.reduce(
+      (total, attachment) => total + (attachment.size || 0),
+      0,
+    );
+  }
+
+  /**
+   * Our own quota, or less when the browser has less space left
+   */
+  private async getQuota(usedBytes: number): Promise<number> {
+    const estimate = await navigator.storage
+      ?.estimate?.()
+      .catch(() => undefined);
+    if (!estimate?.quota) return ATTACHMENT_STORAGE_QUOTA;
+
+    const free = estimate.quota - (estimate.usage || 0);
+    return Math.min(ATTACHMENT_STORAGE_QUOTA, usedBytes + free);
+  }
+
+  /**
+   * Store files for a task or comment and queue them for upload. Files over
+   * the size or quota limit are returned as rejected; when none fit, an
+   * AttachmentLimitError is thrown.
+   */
+  async addAttachments(
+    files: File[],
+    target: AttachmentTarget,
+  ): Promise<AddAttachmentsResult> {
+    const usedBytes = await this.getStorageUsage();
+    const { accepted, rejected } = validateAttachments(files, usedBytes, {
+      quota: await this.getQuota(usedBytes),
+    });
+
+    if (accepted.length === 0 && rejected.length > 0) {
+      throw new AttachmentLimitError(
+        rejected
+          .map(({ file, reason }) => `${file.name}: ${reason}`)
+          .join("; "),
+        rejected,
+      );
+    }
+
+    const attachments: Attachment[] = [];
+    for (const file of accepted) {
+      const preview = await this.createPreview(file);
+      const attachment: Attachment = {
+        fileName: file.name,
+        url: "",
+        type: file.type || "application/octet-stream",
+        size: file.size,
+        taskId: target.taskId,
+        commentId: target.commentId,
+        createdAt: new Date(),
+        uploadStatus: "pending",
+        uploadAttempts: 0,
+        previewText: preview.text,
+      };
+
+      await this.db.transaction("attachments", "readwrite", async () => {
+        attachment.id = (await this.db.attachments.add(attachment)) as number;
+        await this.db.attachmentBlobs.put({
+          attachmentId: attachment.id,
+          blob: file,
+          thumbnail: preview.thumbnail,
+        });
+      });
+      attachments.push(attachment);
+    }
+
+    if (target.taskId && !target.commentId) {
+      await this.syncTaskAttachmentIds(target.taskId);
+    }
+    this.notify();
+
+    if (!this.isOffline()) {
+      void this.processUploadQueue();
+    }
+
+    return { attachments, rejected };
+  }
+
+  /**
+   * Remove an attachment here and, once uploaded, on the server
+   */
+  async removeAttachment(attachmentId: number): Promise<void> {
+    const attachment = await this.db.attachments.get(attachmentId);
+    if (!attachment) return;
+
+    if (attachment.remoteId) {
+      await attachmentApi.deleteAttachment(attachment.remoteId);
+    }
+
+    await this.db.transaction("attachments", "readwrite", async () => {
+      await this.db.attachments.delete(attachmentId);
+      await this.db.attachmentBlobs.delete(attachmentId);
+    });
+    this.revokeObjectUrls(attachmentId);
+
+    if (attachment.taskId && !attachment.commentId) {
+      await this.syncTaskAttachmentIds(attachment.taskId);
+    }
+    this.notify();
+  }
+
+  /**
+   * Queue an upload that ran out of attempts again
+   */
+  async retryUpload(attachmentId: number): Promise<void> {
+    await this.db.attachments.update(attachmentId, {
+      uploadStatus: "pending",
+      uploadAttempts: 0,
+      nextAttemptAt: undefined,
+      uploadError: undefined,
+    });
+    this.notify();
+    await this.processUploadQueue();
+  }
+
+  /**
+   * Upload everything that is due. Calls made while a run is in progress
+   * make it check the queue again when it finishes, so files added
+   * meanwhile are not left waiting.
+   */
+  processUploadQueue(): Promise<void> {
+    if (this.uploading) {
+      this.uploadRequested = true;
+      return this.uploading;
+    }
+
+    this.uploading = (async () => {
+      do {
+        this.uploadRequested = false;
+        await this.uploadDue();
+      } while (this.uploadRequested && !this.isOffline());
+    })().finally(() => {
+      this.uploading = null;
+    });
+    return this.uploading;
+  }
+
+  private async uploadDue(): Promise<void> {
+    await this.initialize();
+
+    if (this.retryTimer) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = null;
+    }
+
+    const waiting = await this.db.attachments
+      .where("uploadStatus")
+      .anyOf("pending", "failed")
+      .toArray();
+
+    for (const attachment of getDueUploads(waiting)) {
+      if (this.isOffline()) return;
+      await this.upload(attachment);
+    }
+
+    await this.scheduleRetry();
+  }
+
+  private async upload(attachment: Attachment): Promise<void> {
+    const attachmentId = attachment.id!;
+    const stored = await this.db.attachmentBlobs.get(attachmentId);
+
+    if (!stored?.blob) {
+      await this.db.attachments.update(attachmentId, {
+        uploadStatus: "failed",
+        uploadAttempts: MAX_SYNC_ATTEMPTS,
+        uploadError: "The file is no longer stored on this device",
+      });
+      this.notify();
+      return;
+    }
+
+    await this.db.attachments.update(attachmentId, {
+      uploadStatus: "uploading",
+    });
+    this.notify();
+
+    try {
+      const uploaded = await attachmentApi.uploadAttachment(stored.blob, {
+        fileName: attachment.fileName,
+        taskId: attachment.taskId,
+        commentId: attachment.commentId,
+        clientId: String(attachmentId),
+      });
+
+      const updated = await this.db.attachments.update(attachmentId, {
+        uploadStatus: "uploaded",
+        url: uploaded.url,
+        remoteId: uploaded.id,
+        uploadError: undefined,
+        nextAttemptAt: undefined,
+      });
+
+      if (updated === 0) {
+        // Removed while it was uploading
+        await attachmentApi.deleteAttachment(uploaded.id).catch((error) => {
+          console.error("Failed to delete removed attachment:", error);
+        });
+        return;
+      }
+
+      // The server has the original now; keep only the thumbnail
+      await this.db.attachmentBlobs.put({
+        attachmentId,
+        thumbnail: stored.thumbnail,
+      });
+      this.revokeObjectUrls(attachmentId, "file");
+    } catch (error) {
+      const attempts = (attachment.uploadAttempts || 0) + 1;
+
+      await this.db.attachments.update(attachmentId, {
+        uploadStatus: "failed",
+        uploadAttempts: attempts,
+        uploadError: error instanceof Error ? error.message : String(error),
+        nextAttemptAt:
+          attempts >= MAX_SYNC_ATTEMPTS
+            ? undefined
+            : new Date(Date.now() + getRetryDelay(attempts)),
+      });
+    }
+
+    this.notify();
+  }
+
+  /**
+   * Wake up for the earliest failed upload that will be due again
+   */
+  private async scheduleRetry(): Promise<void> {
+    const failed = await this.db.attachments
+      .where("uploadStatus")
+      .equals("failed")
+      .toArray();
+    const nextAttempt = Math.min(
+      ...failed
+        .filter((attachment) => attachment.nextAttemptAt)
+        .map((attachment) => new Date(attachment.nextAttemptAt!).getTime()),
+    );
+
+    if (Number.isFinite(nextAttempt)) {
+      this.retryTimer = setTimeout(
+        () => void this.processUploadQueue(),
+        Math.max(0, nextAttempt - Date.now()),
+      );
+    }
+  }
+
+  /**
+   * URL of the file: the server copy once uploaded, else the stored blob
+   */
+  async getFileUrl(attachment: Attachment): Promise<string | null> {
+    if (attachment.url) return attachment.url;
+
+    const stored = await this.db.attachmentBlobs.get(attachment.id!);
+    return stored?.blob
+      ? this.getObjectUrl(attachment.id!, "file", stored.blob)
+      : null;
+  }
+
+  /**
+   * URL of the generated thumbnail, if there is one
+   */
+  async getThumbnailUrl(attachment: Attachment): Promise<string | null> {
+    const stored = await this.db.attachmentBlobs.get(attachment.id!);
+    return stored?.thumbnail
+      ? this.getObjectUrl(attachment.id!, "thumbnail", stored.thumbnail)
+      : null;
+  }
+
+  /**
+   * URL of the image thumbnail, falling back to the file itself
+   */
+  async getPreviewUrl(attachment: Attachment): Promise<string | null> {
+    return (
+      (await this.getThumbnailUrl(attachment)) || this.getFileUrl(attachment)
+    );
+  }
+
+  private getObjectUrl(
+    attachmentId: number,
+    kind: "file" | "thumbnail",
+    blob: Blob,
+  ): string {
+    const key = `${attachmentId}:${kind}`;
+    if (!this.objectUrls.has(key)) {
+      this.objectUrls.set(key, URL.createObjectURL(blob));
+    }
+    return this.objectUrls.get(key)!;
+  }
+
+  private revokeObjectUrls(
+    attachmentId: number,
+    kind?: "file" | "thumbnail",
+  ): void {
+    (kind ? [kind] : ["file", "thumbnail"]).forEach((k) => {
+      const key = `${attachmentId}:${k}`;
+      const url = this.objectUrls.get(key);
+      if (url) {
+        URL.revokeObjectURL(url);
+        this.objectUrls.delete(key);
+      }
+    });
+  }
+
+  /**
+   * Thumbnail for images and the first page of PDFs, and the start of
+   * text files
+   */
+  private async createPreview(
+    file: File,
+  ): Promise<{ thumbnail?: Blob; text?: string }> {
+    try {
+      switch (getPreviewKind(file.type, file.name)) {
+        case "image":
+          return { thumbnail: await this.createThumbnail(file) };
+        case "pdf":
+          return { thumbnail: await this.createPdfThumbnail(file) };
+        case "text":
+          return {
+            // Read a little extra in case of multi-byte characters
+            text: (await file.slice(0, TEXT_PREVIEW_LENGTH * 4).text()).slice(
+              0,
+              TEXT_PREVIEW_LENGTH,
+            ),
+          };
+        default:
+          return {};
+      }
+    } catch (error) {
+      console.error("Failed to create attachment preview:", error);
+      return {};
+    }
+  }
+
+  private async createThumbnail(file: Blob): Promise<Blob | undefined> {
+    const bitmap = await createImageBitmap(file);
+    const { width, height } = getThumbnailSize(bitmap.width, bitmap.height);
+    const canvas = document.createElement("canvas");
+    canvas.width = width;
+    canvas.height = height;
+    canvas.getContext("2d")?.drawImage(bitmap, 0, 0, width, height);
+    bitmap.close();
+
+    return this.toJpeg(canvas);
+  }
+
+  /**
+   * Render the first page once, so previews don't load the whole PDF
+   */
+  private async createPdfThumbnail(file: Blob): Promise<Blob | undefined> {
+    // Loaded on first use to keep pdf.js out of the main bundle
+    const pdfjs = await import("pdfjs-dist");
+    pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl;
+
+    const pdf = await pdfjs.getDocument({ data: await file.arrayBuffer() })
+      .promise;
+    try {
+      const page = await pdf.getPage(1);
+      const { width, height } = page.getViewport({ scale: 1 });
+      const size = getThumbnailSize(width, height);
+      const viewport = page.getViewport({ scale: size.width / width });
+      const canvas = document.createElement("canvas");
+      canvas.width = size.width;
+      canvas.height = size.height;
+      await page.render({ canvas, viewport }).promise;
+
+      return this.toJpeg(canvas);
+    } finally {
+      await pdf.destroy();
+    }
+  }
+
+  private toJpeg(canvas: HTMLCanvasElement): Promise<Blob | undefined> {
+    return new Promise((resolve) =>
+      canvas.toBlob((blob) => resolve(blob || undefined), "image/jpeg", 0.8),
+    );
+  }
+
+  /**
+   * Mirror the task's own attachments into `attachmentIds` for counts.
+   * Attachments are not restored by undo, so this is not an undo step.
+   */
+  private async syncTaskAttachmentIds(taskId: string): Promise<void> {
+    const attachmentIds = (await this.getAttachments({ taskId })).map(
+      (attachment) => String(attachment.id),
+    );
+
+    historyService.runUntracked(() =>
+      useTaskStore.getState().updateTask(taskId, { attachmentIds }),
+    );
+  }
+}
+
+// Singleton instance
+export const attachmentService = AttachmentService.getInstance();
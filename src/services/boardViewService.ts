@@ -1,5 +1,42 @@
 import { Task } from "../types/task";
 import { ViewType } from "../types/enums";
+import {
+  BoardColumnDefinition,
+  BoardGroupBy,
+  BoardGrouping,
+  BoardLayout,
+} from "../types/ui";
+
+/**
+ * Named values offered as columns, e.g. a project's sections or the team
+ */
+export interface BoardGroupOptions {
+  sections?: { id: string; name: string }[];
+  users?: { id: string; name: string }[];
+  labels?: { id: string; name: string }[];
+  projects?: { id: string; name: string }[];
+}
+
+/**
+ * A board cell: a column, and a swimlane when lanes are shown
+ */
+export interface BoardCell {
+  columnId: string;
+  laneId?: string | null;
+}
+
+const STATUS_COLUMNS: [string, string][] = [
+  ["todo", "To Do"],
+  ["in-progress", "In Progress"],
+  ["completed", "Done"],
+];
+
+const PRIORITY_COLUMNS: [string, string][] = [
+  ["critical", "Critical"],
+  ["high", "High"],
+  ["medium", "Medium"],
+  ["low", "Low"],
+];
 
 /**
  * Board View Service
@@ -78,6 +115,257 @@ export class BoardViewService {
     };
   }
 
+  /**
+   * Column ID for tasks without a value in the grouped field
+   */
+  static readonly NO_VALUE_COLUMN = "__none__";
+
+  /**
+   * Layout used before a project's board has been customized
+   */
+  static getDefaultBoardLayout(): BoardLayout {
+    return {
+      groupBy: "status",
+      columnOrder: [],
+      collapsedColumns: [],
+      wipLimits: {},
+    };
+  }
+
+  /**
+   * Values of the grouped field for a task. Tasks with several labels
+   * appear in each label's column.
+   */
+  static getTaskGroupValues(
+    task: Task,
+    layout: BoardGrouping,
+  ): (string | null)[] {
+    switch (layout.groupBy) {
+      case "status":
+        return [task.status || "todo"];
+      case "section":
+        return [task.sectionId || null];
+      case "priority":
+        return [task.priority || null];
+      case "assignee":
+        return [task.assigneeId || null];
+      case "label":
+        return task.labelIds?.length ? task.labelIds : [null];
+      case "project":
+        return [task.projectId || null];
+      case "custom": {
+        const value = layout.customField
+          ? task.customFields?.[layout.customField]
+          : undefined;
+        return [
+          value === undefined || value === null || value === ""
+            ? null
+            : String(value),
+        ];
+      }
+    }
+  }
+
+  /**
+   * Columns for the grouped field: the known values in their natural order,
+   * values only found on tasks, and a column for tasks without a value.
+   * Saved column order wins over the natural order.
+   */
+  static getBoardColumns(
+    tasks: Task[],
+    layout: BoardGrouping & { columnOrder?: string[] },
+    options: BoardGroupOptions = {},
+    includeNoValue: boolean = !["status", "priority"].includes(layout.groupBy),
+  ): BoardColumnDefinition[] {
+    const known: [string, string][] = {
+      status: STATUS_COLUMNS,
+      priority: PRIORITY_COLUMNS,
+      section: (options.sections || []).map(({ id, name }) => [id, name]),
+      assignee: (options.users || []).map(({ id, name }) => [id, name]),
+      label: (options.labels || []).map(({ id, name }) => [id, name]),
+      project: (options.projects || []).map(({ id, name }) => [id, name]),
+      custom: [],
+    }[layout.groupBy] as [string, string][];
+
+    const columns = new Map<string, BoardColumnDefinition>(
+      known.map(([value, title]) => [value, { id: value, title, value }]),
+    );
+    let hasNoValue = includeNoValue;
+
+    tasks.forEach((task) => {
+      this.getTaskGroupValues(task, layout).forEach((value) => {
+        if (value === null) hasNoValue = true;
+        else if (!columns.has(value)) {
+          columns.set(value, { id: value, title: value, value });
+        }
+      });
+    });
+
+    const ordered = Array.from(columns.values());
+    if (layout.groupBy === "custom") {
+      ordered.sort((a, b) => a.title.localeCompare(b.title));
+    }
+    if (hasNoValue) {
+      ordered.unshift({
+        id: this.NO_VALUE_COLUMN,
+        title: this.getNoValueTitle(layout.groupBy),
+        value: null,
+      });
+    }
+
+    const order = layout.columnOrder || [];
+    const position = (id: string) => {
+      const index = order.indexOf(id);
+      return index === -1 ? order.length : index;
+    };
+    return ordered
+      .map((column, index) => ({ column, index }))
+      .sort(
+        (a, b) =>
+          position(a.column.id) - position(b.column.id) || a.index - b.index,
+      )
+      .map(({ column }) => column);
+  }
+
+  private static getNoValueTitle(groupBy: BoardGroupBy): string {
+    switch (groupBy) {
+      case "section":
+        return "No section";
+      case "assignee":
+        return "Unassigned";
+      case "label":
+        return "No label";
+      case "project":
+        return "No project";
+      default:
+        return "No value";
+    }
+  }
+
+  /**
+   * Group tasks by column ID for the layout's field
+   */
+  static groupTasksByColumn(
+    tasks: Task[],
+    layout: BoardGrouping,
+  ): Record<string, Task[]> {
+    return tasks.reduce(
+      (acc, task) => {
+        this.getTaskGroupValues(task, layout).forEach((value) => {
+          const columnId = value === null ? this.NO_VALUE_COLUMN : value;
+          if (!acc[columnId]) acc[columnId] = [];
+          acc[columnId].push(task);
+        });
+        return acc;
+      },
+      {} as Record<string, Task[]>,
+    );
+  }
+
+  /**
+   * Task changes for moving a card between columns. Moving between label
+   * columns swaps that one label and keeps the others.
+   */
+  static getGroupUpdate(
+    task: Task,
+    layout: BoardGrouping,
+    fromColumnId: string,
+    toColumnId: string,
+  ): Partial<Task> {
+    const value = toColumnId === this.NO_VALUE_COLUMN ? null : toColumnId;
+
+    switch (layout.groupBy) {
+      case "status":
+        return {
+          status: (value || "todo") as Task["status"],
+          completed: value === "completed",
+          completedAt: value === "completed" ? new Date() : null,
+        };
+      case "section":
+        return { sectionId: value };
+      case "priority":
+        return { priority: (value || "medium") as Task["priority"] };
+      case "assignee":
+        return { assigneeId: value };
+      case "project":
+        return { projectId: value };
+      case "label": {
+        const labelIds = (task.labelIds || []).filter(
+          (id) => id !== fromColumnId,
+        );
+        return {
+          labelIds:
+            value && !labelIds.includes(value)
+              ? [...labelIds, value]
+              : labelIds,
+        };
+      }
+      case "custom": {
+        if (!layout.customField) return {};
+        const customFields = { ...(task.customFields || {}) };
+        if (value === null) delete customFields[layout.customField];
+        else customFields[layout.customField] = value;
+        return { customFields };
+      }
+    }
+  }
+
+  /**
+   * Task changes for moving a card to another column and swimlane at once,
+   * so both fields change in a single update
+   */
+  static getCellUpdate(
+    task: Task,
+    layout: BoardLayout,
+    from: BoardCell,
+    to: BoardCell,
+  ): Partial<Task> {
+    const columnUpdate =
+      from.columnId === to.columnId
+        ? {}
+        : this.getGroupUpdate(task, layout, from.columnId, to.columnId);
+    if (!layout.swimlanes || !from.laneId || !to.laneId) return columnUpdate;
+    if (from.laneId === to.laneId) return columnUpdate;
+
+    // Lanes and columns may group by the same kind of field, e.g. labels
+    const laneUpdate = this.getGroupUpdate(
+      { ...task, ...columnUpdate },
+      layout.swimlanes,
+      from.laneId,
+      to.laneId,
+    );
+    return { ...columnUpdate, ...laneUpdate };
+  }
+
+  /**
+   * Column IDs after moving a column one place left or right
+   */
+  static moveColumn(
+    columnIds: string[],
+    columnId: string,
+    offset: -1 | 1,
+  ): string[] {
+    const index = columnIds.indexOf(columnId);
+    const target = index + offset;
+    if (index === -1 || target < 0 || target >= columnIds.length) {
+      return columnIds;
+    }
+
+    const reordered = [...columnIds];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    return reordered;
+  }
+
+  /**
+   * Whether a column holds more cards than its work in progress limit
+   */
+  static isOverWipLimit(count: number, limit?: number): boolean {
+    return Boolean(limit && limit > 0 && count > limit);
+  }
+
   /**
    * Filter tasks for board view
    */
@@ -0,0 +1,226 @@
+import { nlpParserService } from "./nlpParserService";
+import { taskService } from "./taskService";
+import { parseTaskText } from "../utils/nlpTaskParser";
+import {
+  parseCsv,
+  parseLabelList,
+  parseOutline,
+  parsePriorityValue,
+} from "../utils/bulkCaptureUtils";
+import { resolveTag } from "../utils/quickAddUtils";
+import {
+  BulkCaptureContext,
+  BulkCaptureDraft,
+  BulkCaptureMapping,
+} from "../types/bulkCapture";
+import { PriorityLevel } from "../types/enums";
+import { NlpParseOptions } from "../types/nlp";
+import { Task } from "../types/task";
+
+// taskService still validates the older priority names
+const TASK_PRIORITIES: Record<PriorityLevel, string> = {
+  [PriorityLevel.P1]: "critical",
+  [PriorityLevel.P2]: "high",
+  [PriorityLevel.P3]: "medium",
+  [PriorityLevel.P4]: "low",
+};
+
+type ParsedLine = Awaited<ReturnType<typeof nlpParserService.parse>>;
+
+/**
+ * Bulk Capture Service - Turns pasted lists and CSV into task drafts and
+ * creates them in one batch
+ */
+export class BulkCaptureService {
+  private static instance: BulkCaptureService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get singleton instance of BulkCaptureService
+   */
+  public static getInstance(): BulkCaptureService {
+    if (!BulkCaptureService.instance) {
+      BulkCaptureService.instance = new BulkCaptureService();
+    }
+    return BulkCaptureService.instance;
+  }
+
+  private createKey(): string {
+    return "draft_" + Math.random().toString(36).substr(2, 9);
+  }
+
+  private toDraft(
+    parsed: ParsedLine,
+    draft: Pick<BulkCaptureDraft, "key" | "depth" | "completed" | "source"> &
+      Partial<BulkCaptureDraft>,
+  ): BulkCaptureDraft {
+    return {
+      title: parsed.title || draft.source,
+      dueDate: parsed.dueDate ? new Date(parsed.dueDate) : undefined,
+      dueTime: parsed.dueTime,
+      duration: parsed.duration,
+      priority: parsed.priority as PriorityLevel | undefined,
+      project: parsed.project,
+      labels: parsed.labels || [],
+      assignee: parsed.assignees?.[0],
+      recurrence: parsed.recurrence,
+      ...draft,
+    };
+  }
+
+  /**
+   * Parse a bullet list, Markdown checklist or indented outline. Each
+   * line goes through the NLP parser; nested lines become subtasks.
+   */
+  async parseOutline(
+    text: string,
+    options: NlpParseOptions = {},
+  ): Promise<BulkCaptureDraft[]> {
+    const lines = parseOutline(text);
+    const parsed = await nlpParserService.parseBatch(
+      lines.map((line) => line.text),
+      options,
+    );
+    const keys = lines.map(() => this.createKey());
+
+    return lines.map((line, index) =>
+      this.toDraft(parsed[index], {
+        key: keys[index],
+        parentKey:
+          line.parentIndex === undefined ? undefined : keys[line.parentIndex],
+        depth: line.depth,
+        completed: line.completed,
+        source: line.text,
+      }),
+    );
+  }
+
+  /**
+   * Parse CSV rows with the given column mapping. The title column is
+   * read by the NLP parser; mapped columns override what it found.
+   */
+  async parseCsv(
+    text: string,
+    mapping: BulkCaptureMapping,
+    options: NlpParseOptions & { skipHeader?: boolean } = {},
+  ): Promise<BulkCaptureDraft[]> {
+    const { skipHeader, ...parseOptions } = options;
+    const rows = parseCsv(text).slice(skipHeader ? 1 : 0);
+    const cell = (row: string[], field: BulkCaptureMapping[number]) => {
+      const index = mapping.indexOf(field);
+      return index >= 0 ? (row[index] || "").trim() : "";
+    };
+
+    const titled = rows.filter((row) => cell(row, "title"));
+    const parsed = await nlpParserService.parseBatch(
+      titled.map((row) => cell(row, "title")),
+      parseOptions,
+    );
+
+    return titled.map((row, index) => {
+      const draft = this.toDraft(parsed[index], {
+        key: this.createKey(),
+        depth: 0,
+        completed: false,
+        source: row.join(", "),
+      });
+
+      const description = cell(row, "description");
+      if (description) draft.description = description;
+
+      const dueDate = cell(row, "dueDate");
+      if (dueDate) {
+        const date = parseTaskText(dueDate, parseOptions).dueDate;
+        const fallback = new Date(dueDate);
+        draft.dueDate =
+          date || (isNaN(fallback.getTime()) ? draft.dueDate : fallback);
+      }
+
+      const priority = parsePriorityValue(cell(row, "priority"));
+      if (priority) draft.priority = priority;
+
+      const project = cell(row, "project");
+      if (project) draft.project = project.replace(/^#/, "");
+
+      const labels = parseLabelList(cell(row, "labels"));
+      if (labels.length > 0) {
+        draft.labels = Array.from(new Set([...draft.labels, ...labels]));
+      }
+
+      const assignee = cell(row, "assignee");
+      if (assignee) draft.assignee = assignee.replace(/^\+/, "");
+
+      const duration = parseInt(cell(row, "duration"), 10);
+      if (!isNaN(duration)) draft.duration = duration;
+
+      return draft;
+    });
+  }
+
+  /**
+   * Build tasks from reviewed drafts. Names are matched to existing
+   * projects, labels and users; unknown names are left out.
+   */
+  toTasks(
+    drafts: BulkCaptureDraft[],
+    context: BulkCaptureContext,
+  ): Omit<Task, "createdAt" | "updatedAt">[] {
+    const keys = new Set(drafts.map((draft) => draft.key));
+
+    return drafts.map((draft, index) => ({
+      id: draft.key,
+      title: draft.title.trim(),
+      description: draft.description || "",
+      status: (draft.completed ? "completed" : "todo") as Task["status"],
+      completed: draft.completed,
+      priority: (draft.priority
+        ? TASK_PRIORITIES[draft.priority]
+        : "medium") as Task["priority"],
+      dueDate: draft.dueDate || null,
+      dueTime: draft.dueTime || null,
+      duration: draft.duration || null,
+      // A removed parent turns its subtasks into top-level tasks
+      parentTaskId:
+        draft.parentKey && keys.has(draft.parentKey) ? draft.parentKey : null,
+      projectId:
+        (draft.project && resolveTag(context.projects, draft.project)?.id) ||
+        context.defaultProjectId ||
+        null,
+      labelIds: draft.labels
+        .map((label) => resolveTag(context.labels, label)?.id)
+        .filter((id): id is string => Boolean(id)),
+      assigneeId:
+        (draft.assignee && resolveTag(context.users, draft.assignee)?.id) ||
+        null,
+      recurringPattern: draft.recurrence?.pattern || null,
+      customFields: draft.recurrence
+        ? { recurringConfig: draft.recurrence }
+        : undefined,
+      order: index,
+      metadata: { source: "bulk-capture" },
+    }));
+  }
+
+  /**
+   * Create all drafts in one batch; nothing is created if any fails
+   */
+  async createTasks(
+    drafts: BulkCaptureDraft[],
+    context: BulkCaptureContext,
+  ): Promise<Task[]> {
+    const tasks = this.toTasks(
+      drafts.filter((draft) => draft.title.trim()),
+      context,
+    );
+    if (tasks.length === 0) {
+      throw new Error("Nothing to create");
+    }
+    return taskService.createTasks(tasks);
+  }
+}
+
+// Singleton instance
+export const bulkCaptureService = BulkCaptureService.getInstance();
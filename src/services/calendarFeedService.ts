@@ -0,0 +1,161 @@
+/**
+ * Calendar Feed Service - Generates read-only ICS feeds for a project,
+ * label or saved filter that calendar apps can subscribe to
+ */
+import {
+  CalendarFeed,
+  CalendarFeedData,
+  CalendarFeedScope,
+} from "../types/calendarTypes";
+import { Task } from "../types/task";
+import { CalendarSyncService } from "./calendarSyncService";
+import { icalService } from "./icalService";
+import { FilterUtils } from "../utils/filterUtils";
+import { FEED_SERVER_URL } from "../config/app.config";
+
+const generateToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, (byte) => byte.toString(16).padStart(2, "0")).join(
+    "",
+  );
+};
+
+export class CalendarFeedService {
+  private static instance: CalendarFeedService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  public static getInstance(): CalendarFeedService {
+    if (!CalendarFeedService.instance) {
+      CalendarFeedService.instance = new CalendarFeedService();
+    }
+    return CalendarFeedService.instance;
+  }
+
+  /**
+   * Create a feed with a new secret URL on the feed server
+   */
+  createFeed(
+    scope: CalendarFeedScope,
+    baseUrl: string = FEED_SERVER_URL,
+  ): CalendarFeed {
+    const token = generateToken();
+
+    return {
+      id: `feed-${token.slice(0, 12)}`,
+      token,
+      scope,
+      url: `${baseUrl.replace(/\/$/, "")}/feeds/${token}.ics`,
+      createdAt: new Date(),
+      revokedAt: null,
+    };
+  }
+
+  /**
+   * Tasks with due dates that belong to a feed's project, label or filter
+   */
+  selectTasks(feed: CalendarFeed, data: CalendarFeedData): Task[] {
+    const { scope } = feed;
+    let tasks: Task[];
+
+    switch (scope.type) {
+      case "project": {
+        const projectIds = new Set([scope.id]);
+        // Include subprojects, like the project view does
+        let added = true;
+        while (added) {
+          added = false;
+          data.projects.forEach((project) => {
+            if (
+              project.parentProjectId &&
+              projectIds.has(project.parentProjectId) &&
+              !projectIds.has(project.id)
+            ) {
+              projectIds.add(project.id);
+              added = true;
+            }
+          });
+        }
+        tasks = data.tasks.filter((task) => projectIds.has(task.projectId));
+        break;
+      }
+      case "label":
+        tasks = data.tasks.filter((task) =>
+          (task.labelIds || []).includes(scope.id),
+        );
+        break;
+      case "filter": {
+        const filter = data.filters.find((f) => f.id === scope.id);
+        tasks = filter
+          ? FilterUtils.applyFilter(data.tasks, filter, {
+              projects: data.projects,
+              labels: data.labels,
+            })
+          : [];
+        break;
+      }
+      default:
+        tasks = [];
+    }
+
+    return tasks
+      .filter((task) => !!task.dueDate)
+      .sort((a, b) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0));
+  }
+
+  /**
+   * Generate the ICS document for a feed. The output is stable: the same
+   * tasks always produce the same document, and every task keeps its UID
+   * across updates so calendar apps update events instead of duplicating them.
+   */
+  generateFeed(feed: CalendarFeed, data: CalendarFeedData): string {
+    const events = this.selectTasks(feed, data)
+      .map((task) => CalendarSyncService.buildEventForTask(task))
+      .filter(Boolean);
+
+    return icalService.exportEvents(events, {
+      calendarName: `Todone: ${feed.scope.name}`,
+    });
+  }
+
+  /**
+   * Upload a feed's current ICS document to the feed server, which serves
+   * it to subscribers at the feed URL
+   */
+  async publishFeed(
+    feed: CalendarFeed,
+    data: CalendarFeedData,
+    fetchFn: typeof fetch = fetch,
+  ): Promise<void> {
+    const response = await fetchFn(feed.url, {
+      method: "PUT",
+      headers: { "Content-Type": "text/calendar; charset=utf-8" },
+      body: this.generateFeed(feed, data),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Failed to publish calendar feed (${response.status})`);
+    }
+  }
+
+  /**
+   * Tell the feed server to stop serving a feed. Revoked URLs answer 410
+   * so subscribers stop polling.
+   */
+  async unpublishFeed(
+    feed: CalendarFeed,
+    fetchFn: typeof fetch = fetch,
+  ): Promise<void> {
+    const response = await fetchFn(feed.url, { method: "DELETE" });
+
+    if (!response.ok) {
+      throw new Error(`Failed to revoke calendar feed (${response.status})`);
+    }
+  }
+}
+
+// Singleton instance
+export const calendarFeedService = CalendarFeedService.getInstance();
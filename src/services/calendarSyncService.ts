@@ -2,12 +2,26 @@ import {
   CalendarEventType,
   CalendarType,
   CalendarSyncStatus,
+  CalDAVConfig,
 } from "../types/calendarTypes";
 import { Task } from "../types/taskTypes";
+import { formatRRule, recurringConfigToRRule } from "../utils/rruleUtils";
+import { CalDAVApi } from "../api/caldavApi";
+import { TodoneDatabase } from "../database/db";
+import { icalService } from "./icalService";
+
+interface SyncedResource {
+  etag: string;
+  event: CalendarEventType | null;
+}
+
+const getAccountKey = (config: CalDAVConfig): string =>
+  `${config.username || ""}@${config.serverUrl}`;
 
 /**
  * Calendar Sync Service
- * Handles synchronization between calendar events and tasks
+ * Handles synchronization between calendar events and tasks through a
+ * CalDAV account
  */
 export class CalendarSyncService {
   private static syncState: {
@@ -20,26 +34,98 @@ export class CalendarSyncService {
     error: null,
   };
 
+  private static caldav: CalDAVApi | null = null;
+  private static caldavConfig: CalDAVConfig | null = null;
+  // Per calendar URL: the last sync token and the resources seen so far
+  private static syncTokens: Record<string, string> = {};
+  private static resources: Record<string, Record<string, SyncedResource>> = {};
+  // taskId -> the calendar object written for it
+  private static linkedResources: Record<
+    string,
+    { href: string; etag: string }
+  > = {};
+  private static db: TodoneDatabase | null = null;
+  // Resolves once the saved sync state of the account has been read
+  private static loaded: Promise<void> = Promise.resolve();
+
+  /**
+   * Connect a CalDAV account, or disconnect with null. The sync state
+   * saved for the account is restored; another account's is not used.
+   */
+  static configureCalDAV(config: CalDAVConfig | null): void {
+    this.caldavConfig = config;
+    this.caldav = config ? new CalDAVApi(config) : null;
+    this.syncTokens = {};
+    this.resources = {};
+    this.linkedResources = {};
+    this.loaded = config
+      ? this.loadSyncState(getAccountKey(config))
+      : Promise.resolve();
+  }
+
   /**
-   * Sync calendars with external providers
+   * Sync calendars from the CalDAV account. Only changes since the last
+   * sync are fetched; `deletedEventIds` lists events removed on the server.
    */
   static async syncCalendars(calendarIds: string[]): Promise<{
     success: boolean;
     syncedEvents: CalendarEventType[];
+    deletedEventIds: string[];
     error?: Error | null;
   }> {
     this.syncState.status = "syncing";
     this.syncState.error = null;
 
     try {
-      // Simulate API calls to external calendar providers
+      await this.loaded;
+      const client = this.getClient();
       const syncedEvents: CalendarEventType[] = [];
+      const deletedEventIds: string[] = [];
 
       for (const calendarId of calendarIds) {
-        // Simulate sync process for each calendar
-        const events = await this.fetchEventsFromProvider(calendarId);
-        syncedEvents.push(...events);
+        const result = await client.syncCollection(
+          calendarId,
+          this.syncTokens[calendarId],
+        );
+        const previous = this.resources[calendarId] || {};
+        const current = result.fullSync ? {} : { ...previous };
+
+        const removed = result.fullSync
+          ? Object.keys(previous).filter(
+              (href) => !result.changed.some((r) => r.href === href),
+            )
+          : result.deleted;
+        removed.forEach((href) => {
+          const event = previous[href]?.event;
+          if (event) {
+            deletedEventIds.push(event.id);
+          }
+          delete current[href];
+        });
+
+        result.changed.forEach((resource) => {
+          const [event] = resource.data
+            ? icalService.parseEvents(resource.data)
+            : [];
+          current[resource.href] = {
+            etag: resource.etag,
+            event: event ? { ...event, calendarId } : null,
+          };
+          if (event) {
+            syncedEvents.push(current[resource.href].event);
+            if (event.taskId) {
+              this.linkedResources[event.taskId] = {
+                href: resource.href,
+                etag: resource.etag,
+              };
+            }
+          }
+        });
+
+        this.resources[calendarId] = current;
+        this.syncTokens[calendarId] = result.syncToken;
       }
+      await this.saveSyncState();
 
       this.syncState.status = "completed";
       this.syncState.lastSynced = new Date();
@@ -48,15 +134,19 @@ export class CalendarSyncService {
       return {
         success: true,
         syncedEvents,
+        deletedEventIds,
         error: null,
       };
     } catch (error) {
+      // Keep what the calendars synced before the failure got
+      await this.saveSyncState();
       this.syncState.status = "error";
       this.syncState.error =
         error instanceof Error ? error : new Error("Sync failed");
       return {
         success: false,
         syncedEvents: [],
+        deletedEventIds: [],
         error: this.syncState.error,
       };
     }
@@ -74,41 +164,27 @@ export class CalendarSyncService {
   }
 
   /**
-   * Get available calendars for sync
+   * Get available calendars for sync from the CalDAV account
    */
   static async getAvailableCalendars(): Promise<CalendarType[]> {
-    // Simulate fetching available calendars from different providers
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve([
-          {
-            id: "google-primary",
-            name: "Google Primary",
-            type: "google",
-            isPrimary: true,
-            isSynced: true,
-          },
-          {
-            id: "google-work",
-            name: "Google Work",
-            type: "google",
-            isSynced: false,
-          },
-          {
-            id: "outlook-personal",
-            name: "Outlook Personal",
-            type: "outlook",
-            isSynced: false,
-          },
-          {
-            id: "apple-calendar",
-            name: "Apple Calendar",
-            type: "apple",
-            isSynced: true,
-          },
-        ]);
-      }, 500);
-    });
+    if (!this.caldav) {
+      return [];
+    }
+
+    await this.loaded;
+    const calendars = await this.caldav.discoverCalendars();
+    const defaultUrl = this.caldavConfig?.defaultCalendarUrl;
+
+    return calendars
+      .filter((calendar) => calendar.components.includes("VEVENT"))
+      .map((calendar, index) => ({
+        id: calendar.url,
+        name: calendar.displayName,
+        type: "caldav",
+        color: calendar.color,
+        isPrimary: defaultUrl ? calendar.url === defaultUrl : index === 0,
+        isSynced: calendar.url in this.syncTokens,
+      }));
   }
 
   /**
@@ -123,34 +199,44 @@ export class CalendarSyncService {
     const updatedEvents: CalendarEventType[] = [];
     const errors: Error[] = [];
 
+    let calendarUrl: string;
+    try {
+      await this.loaded;
+      calendarUrl = await this.getTargetCalendarUrl();
+    } catch (error) {
+      return {
+        createdEvents,
+        updatedEvents,
+        errors: [error instanceof Error ? error : new Error(String(error))],
+      };
+    }
+
     for (const task of tasks) {
       try {
-        if (task.dueDate) {
-          const eventData: Omit<CalendarEventType, "id"> = {
-            title: task.title || "Untitled Task",
-            description: task.description || "",
-            startDate: task.dueDate,
-            endDate: task.dueDate,
-            priority: task.priority || "normal",
-            taskId: task.id,
+        const eventData = this.buildEventForTask(task);
+        if (eventData) {
+          const ics = icalService.exportEvents([eventData]);
+          // Writes are guarded by ETag, so a task edited on the server since
+          // the last sync fails with CalDAVPreconditionError instead of
+          // overwriting that edit
+          const linked = this.linkedResources[task.id];
+          const resource = await this.getClient().putEvent(
+            linked?.href ||
+              `${calendarUrl.replace(/\/?$/, "/")}${encodeURIComponent(task.id)}.ics`,
+            ics,
+            linked?.etag,
+          );
+          this.linkedResources[task.id] = {
+            href: resource.href,
+            etag: resource.etag,
           };
 
-          // Check if task already has a linked event
-          const existingEvent = await this.findEventByTaskId(task.id);
-
-          if (existingEvent) {
-            // Update existing event
-            const updatedEvent = await this.updateCalendarEvent(
-              existingEvent.id,
-              eventData,
-            );
-            if (updatedEvent) {
-              updatedEvents.push(updatedEvent);
-            }
+          const [event] = icalService.parseEvents(ics);
+          const syncedEvent = { ...event, calendarId: calendarUrl };
+          if (linked) {
+            updatedEvents.push(syncedEvent);
           } else {
-            // Create new event
-            const newEvent = await this.createCalendarEvent(eventData);
-            createdEvents.push(newEvent);
+            createdEvents.push(syncedEvent);
           }
         }
       } catch (error) {
@@ -161,98 +247,131 @@ export class CalendarSyncService {
         );
       }
     }
+    await this.saveSyncState();
 
     return { createdEvents, updatedEvents, errors };
   }
 
   /**
-   * Find calendar event by task ID
+   * Build the calendar event for a task, or null when the task has no due
+   * date. Timed tasks last `duration` minutes (30 by default); tasks without
+   * a due time become all-day events. Recurring tasks carry their RRULE.
    */
-  private static async findEventByTaskId(
-    taskId: string,
-  ): Promise<CalendarEventType | null> {
-    // This would typically query a database or API
-    // For simulation, we'll return null (no existing event)
-    return new Promise((resolve) => {
-      setTimeout(() => resolve(null), 200);
-    });
+  static buildEventForTask(task: Task): Omit<CalendarEventType, "id"> | null {
+    if (!task.dueDate) {
+      return null;
+    }
+
+    const startDate = new Date(task.dueDate);
+    const allDay = !task.dueTime;
+    let endDate = startDate;
+
+    if (!allDay) {
+      const [hours, minutes] = task.dueTime.split(":").map(Number);
+      startDate.setHours(hours || 0, minutes || 0, 0, 0);
+      endDate = new Date(
+        startDate.getTime() + (task.duration || 30) * 60 * 1000,
+      );
+    }
+
+    const recurringConfig = task.customFields?.recurringConfig;
+
+    return {
+      title: task.title || "Untitled Task",
+      description: task.description || "",
+      startDate,
+      endDate,
+      allDay,
+      timeZone: allDay ? undefined : recurringConfig?.timeZone,
+      priority: task.priority || "normal",
+      taskId: task.id,
+      isRecurring: !!recurringConfig?.pattern,
+      recurrencePattern: recurringConfig?.pattern
+        ? formatRRule(recurringConfigToRRule(recurringConfig))
+        : undefined,
+      createdAt: task.createdAt,
+      updatedAt: task.updatedAt,
+    };
   }
 
   /**
-   * Create calendar event (simulated)
+   * Remove the calendar event written for a task
    */
-  private static async createCalendarEvent(
-    eventData: Omit<CalendarEventType, "id">,
-  ): Promise<CalendarEventType> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          id: `synced-event-${Date.now()}`,
-          ...eventData,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
-        });
-      }, 300);
-    });
+  static async removeTaskEvent(taskId: string): Promise<void> {
+    await this.loaded;
+    const linked = this.linkedResources[taskId];
+    if (!linked) {
+      return;
+    }
+
+    await this.getClient().deleteEvent(linked.href, linked.etag);
+    delete this.linkedResources[taskId];
+    await this.saveSyncState();
+  }
+
+  private static getDb(): TodoneDatabase {
+    if (!this.db) {
+      this.db = new TodoneDatabase();
+    }
+    return this.db;
+  }
+
+  private static async loadSyncState(account: string): Promise<void> {
+    try {
+      const record = await this.getDb().caldavSync.get(account);
+      // Another account may have been configured in the meantime
+      if (!record || !this.caldavConfig) return;
+      if (getAccountKey(this.caldavConfig) !== account) return;
+
+      this.syncTokens = record.syncTokens;
+      this.resources = record.resources;
+      this.linkedResources = record.linkedResources;
+    } catch (error) {
+      console.error("Failed to load CalDAV sync state:", error);
+    }
   }
 
   /**
-   * Update calendar event (simulated)
+   * Save sync tokens, seen resources and task links, so a restart only
+   * fetches changes and updates the events already written for tasks
    */
-  private static async updateCalendarEvent(
-    eventId: string,
-    updates: Partial<CalendarEventType>,
-  ): Promise<CalendarEventType | null> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve({
-          id: eventId,
-          title: "Updated Event",
-          description: "Updated description",
-          startDate: new Date().toISOString(),
-          priority: "normal",
-          ...updates,
-          updatedAt: new Date().toISOString(),
-        });
-      }, 300);
-    });
+  private static async saveSyncState(): Promise<void> {
+    if (!this.caldavConfig) return;
+
+    try {
+      await this.getDb().caldavSync.put({
+        account: getAccountKey(this.caldavConfig),
+        syncTokens: this.syncTokens,
+        resources: this.resources,
+        linkedResources: this.linkedResources,
+      });
+    } catch (error) {
+      console.error("Failed to save CalDAV sync state:", error);
+    }
+  }
+
+  private static getClient(): CalDAVApi {
+    if (!this.caldav) {
+      throw new Error("No CalDAV account configured");
+    }
+    return this.caldav;
   }
 
   /**
-   * Simulate fetching events from external provider
+   * Calendar that task events are written to
    */
-  private static async fetchEventsFromProvider(
-    calendarId: string,
-  ): Promise<CalendarEventType[]> {
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        // Simulate different events from different providers
-        const baseEvents: CalendarEventType[] = [
-          {
-            id: `${calendarId}-event-1`,
-            title: `Event from ${calendarId}`,
-            description: "Synced event",
-            startDate: new Date(Date.now() + 86400000).toISOString(),
-            endDate: new Date(Date.now() + 86400000 + 3600000).toISOString(),
-            priority: "medium",
-            calendarId: calendarId,
-          },
-        ];
-
-        // Add more events for primary calendars
-        if (calendarId.includes("primary")) {
-          baseEvents.push({
-            id: `${calendarId}-event-2`,
-            title: `Important Meeting`,
-            description: "Team sync",
-            startDate: new Date(Date.now() + 172800000).toISOString(),
-            priority: "high",
-            calendarId: calendarId,
-          });
-        }
+  private static async getTargetCalendarUrl(): Promise<string> {
+    const client = this.getClient();
+    if (this.caldavConfig?.defaultCalendarUrl) {
+      return client.resolve(this.caldavConfig.defaultCalendarUrl);
+    }
 
-        resolve(baseEvents);
-      }, 500);
-    });
+    const [calendar] = (await client.discoverCalendars()).filter((c) =>
+      c.components.includes("VEVENT"),
+    );
+    if (!calendar) {
+      throw new Error("The CalDAV account has no event calendars");
+    }
+    return calendar.url;
   }
 }
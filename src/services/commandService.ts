@@ -1,4 +1,21 @@
-import { Command } from "../types/command";
+import { addDays, startOfDay } from "date-fns";
+import {
+  Command,
+  PaletteAction,
+  PaletteData,
+  PaletteItem,
+} from "../types/command";
+import { useProjectStore } from "../store/useProjectStore";
+import { useLabelStore } from "../store/useLabelStore";
+import { useFilterStore } from "../store/useFilterStore";
+import { taskService } from "./taskService";
+import {
+  matchesPaletteOperators,
+  parsePaletteQuery,
+  scorePaletteMatch,
+} from "../utils/commandUtils";
+
+const PALETTE_RESULT_LIMIT = 50;
 
 export class CommandService {
   private commands: Command[] = [];
@@ -113,6 +130,242 @@ export class CommandService {
     );
   }
 
+  /**
+   * Search commands and entities for the command palette.
+   * A leading `>`, `#`, `@` or `/` limits results to commands, projects,
+   * labels or filters; inline operators (`is:`, `due:`, `in:`, `label:`,
+   * `p:`) turn the query into a task search.
+   */
+  public searchPalette(query: string, data: PaletteData): PaletteItem[] {
+    const { scope, text, operators } = parsePaletteQuery(query);
+    const ranked: { item: PaletteItem; score: number }[] = [];
+
+    const collect = <T>(
+      entities: T[],
+      getTitle: (entity: T) => string,
+      toItem: (entity: T) => PaletteItem,
+      listAll: boolean,
+    ) => {
+      if (!text && !listAll) {
+        return;
+      }
+      const matches = entities
+        .map((entity) => ({
+          entity,
+          score: scorePaletteMatch(text, getTitle(entity)),
+        }))
+        .filter(({ score }) => score >= 0)
+        .sort((a, b) => b.score - a.score);
+      matches.forEach(({ entity, score }) =>
+        ranked.push({ item: toItem(entity), score }),
+      );
+    };
+
+    if (operators.length > 0) {
+      if (scope === "all") {
+        collect(
+          data.tasks.filter((task) =>
+            matchesPaletteOperators(task, operators, data),
+          ),
+          (task) => task.title,
+          (task) => this.taskItem(task, data),
+          true,
+        );
+      }
+      return ranked.slice(0, PALETTE_RESULT_LIMIT).map(({ item }) => item);
+    }
+
+    if (scope === "all" || scope === "commands") {
+      collect(
+        this.commands,
+        (command) => `${command.name} ${command.description || ""}`,
+        (command) => ({
+          id: `command-${command.id}`,
+          kind: "command",
+          title: command.name,
+          subtitle: command.description,
+          data: command,
+        }),
+        true,
+      );
+    }
+
+    if (scope === "all") {
+      collect(
+        data.tasks,
+        (task) => task.title,
+        (task) => this.taskItem(task, data),
+        false,
+      );
+    }
+
+    if (scope === "all" || scope === "projects") {
+      collect(
+        data.projects,
+        (project) => project.name,
+        (project) => ({
+          id: `project-${project.id}`,
+          kind: "project",
+          title: project.name,
+          subtitle: project.description,
+          data: project,
+        }),
+        scope === "projects",
+      );
+    }
+
+    if (scope === "all" || scope === "labels") {
+      collect(
+        data.labels,
+        (label) => label.name,
+        (label) => ({
+          id: `label-${label.id}`,
+          kind: "label",
+          title: label.name,
+          data: label,
+        }),
+        scope === "labels",
+      );
+    }
+
+    if (scope === "all" || scope === "filters") {
+      collect(
+        data.filters,
+        (filter) => filter.name,
+        (filter) => ({
+          id: `filter-${filter.id}`,
+          kind: "filter",
+          title: filter.name,
+          subtitle: filter.description,
+          data: filter,
+        }),
+        scope === "filters",
+      );
+    }
+
+    return ranked.slice(0, PALETTE_RESULT_LIMIT).map(({ item }) => item);
+  }
+
+  /**
+   * Actions available for an entity picked in the palette
+   */
+  public getEntityActions(
+    item: PaletteItem,
+    data: PaletteData,
+  ): PaletteAction[] {
+    const done = () => Promise.resolve(true);
+
+    switch (item.kind) {
+      case "command":
+        return [
+          {
+            id: "run",
+            name: `Run "${item.title}"`,
+            run: () => this.executeCommand(item.data),
+          },
+        ];
+      case "project":
+        return [
+          {
+            id: "open",
+            name: "Open project",
+            run: () => {
+              useProjectStore.getState().setCurrentProject(item.data.id);
+              return done();
+            },
+          },
+        ];
+      case "label":
+        return [
+          {
+            id: "open",
+            name: "Show tasks with label",
+            run: () => {
+              useLabelStore.getState().setCurrentLabel(item.data.id);
+              return done();
+            },
+          },
+        ];
+      case "filter":
+        return [
+          {
+            id: "open",
+            name: "Open filter",
+            run: () => {
+              useFilterStore.getState().setCurrentFilter(item.data.id);
+              return done();
+            },
+          },
+        ];
+      case "task":
+        return this.getTaskActions(item.data, data);
+      default:
+        return [];
+    }
+  }
+
+  private getTaskActions(task: any, data: PaletteData): PaletteAction[] {
+    const today = startOfDay(data.now || new Date());
+    // taskService logs failures, such as a blocked completion, and reverts
+    // its optimistic update
+    const save = (change: Promise<unknown>) =>
+      change.then(
+        () => true,
+        () => false,
+      );
+    const reschedule = (
+      id: string,
+      name: string,
+      dueDate: Date | null,
+    ): PaletteAction => ({
+      id,
+      name,
+      run: () => save(taskService.updateTask(task.id, { dueDate })),
+    });
+
+    const actions: PaletteAction[] = [
+      {
+        id: "toggle-complete",
+        name: task.completed ? "Reopen task" : "Complete task",
+        run: () => save(taskService.toggleTaskCompletion(task.id)),
+      },
+      reschedule("due-today", "Reschedule to today", today),
+      reschedule("due-tomorrow", "Reschedule to tomorrow", addDays(today, 1)),
+      reschedule("due-next-week", "Reschedule to next week", addDays(today, 7)),
+      reschedule("due-none", "Remove due date", null),
+    ];
+
+    data.projects
+      .filter((project) => project.id !== task.projectId)
+      .forEach((project) =>
+        actions.push({
+          id: `move-${project.id}`,
+          name: `Move to ${project.name}`,
+          run: () =>
+            save(
+              taskService.updateTask(
+                task.id,
+                { projectId: project.id },
+                { label: "Move task", toast: true },
+              ),
+            ),
+        }),
+      );
+
+    return actions;
+  }
+
+  private taskItem(task: any, data: PaletteData): PaletteItem {
+    const project = data.projects.find((p) => p.id === task.projectId);
+    return {
+      id: `task-${task.id}`,
+      kind: "task",
+      title: task.title,
+      subtitle: project ? project.name : undefined,
+      data: task,
+    };
+  }
+
   public getCommandHistory(): string[] {
     return [...this.commandHistory];
   }
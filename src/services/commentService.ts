@@ -1,6 +1,25 @@
 import { Comment } from "../types/common";
 import { commentApi } from "../api/commentApi";
 import { CommentModel } from "../types/models";
+import {
+  MentionCandidate,
+  parseMentions,
+  renderCommentContent,
+} from "../utils/commentContentUtils";
+import { hasReacted } from "../utils/commentThreadUtils";
+import { realtimeService } from "./realtimeService";
+
+export interface CreateCommentOptions {
+  /**
+   * Comment being replied to
+   */
+  parentComment?: Comment;
+
+  /**
+   * Users that can be mentioned; other mention tokens are ignored
+   */
+  mentionCandidates?: MentionCandidate[];
+}
 
 /**
  * Comment Service - Business logic layer for comment operations
@@ -13,11 +32,15 @@ export class CommentService {
     taskId: string,
     userId: string,
     content: string,
+    { parentComment, mentionCandidates = [] }: CreateCommentOptions = {},
   ): Promise<Comment> {
     const commentData = {
       taskId,
       user: userId,
       content,
+      parentCommentId: parentComment?.id ?? null,
+      mentions: parseMentions(content, mentionCandidates),
+      reactions: {},
       timestamp: new Date(),
     };
 
@@ -27,6 +50,8 @@ export class CommentService {
       throw new Error(response.message || "Failed to create comment");
     }
 
+    this.notifyParticipants(response.data, commentData.mentions, parentComment);
+    realtimeService.publish("comment", "created", response.data);
     return response.data;
   }
 
@@ -59,13 +84,28 @@ export class CommentService {
   /**
    * Update a comment
    */
-  async updateComment(commentId: string, content: string): Promise<Comment> {
-    const response = await commentApi.updateComment(commentId, { content });
+  async updateComment(
+    commentId: string,
+    content: string,
+    mentionCandidates: MentionCandidate[] = [],
+    previousMentions: string[] = [],
+  ): Promise<Comment> {
+    const mentions = parseMentions(content, mentionCandidates);
+    const response = await commentApi.updateComment(commentId, {
+      content,
+      mentions,
+    });
 
     if (!response.success) {
       throw new Error(response.message || "Failed to update comment");
     }
 
+    // Only people added by the edit hear about it
+    this.notifyParticipants(
+      response.data,
+      mentions.filter((userId) => !previousMentions.includes(userId)),
+    );
+    realtimeService.publish("comment", "updated", response.data);
     return response.data;
   }
 
@@ -78,32 +118,63 @@ export class CommentService {
     if (!response.success) {
       throw new Error(response.message || "Failed to delete comment");
     }
+
+    realtimeService.publish("comment", "deleted", { id: commentId });
   }
 
   /**
-   * Like a comment
+   * Add or remove the user's reaction, depending on whether they have
+   * already reacted with the emoji
    */
-  async likeComment(commentId: string): Promise<Comment> {
-    const response = await commentApi.likeComment(commentId);
+  async toggleReaction(
+    comment: Comment,
+    emoji: string,
+    userId: string,
+  ): Promise<Comment> {
+    const response = hasReacted(comment.reactions, emoji, userId)
+      ? await commentApi.removeReaction(comment.id, emoji)
+      : await commentApi.addReaction(comment.id, emoji);
 
     if (!response.success) {
-      throw new Error(response.message || "Failed to like comment");
+      throw new Error(response.error?.message || "Failed to update reaction");
     }
 
+    realtimeService.publish("comment", "updated", response.data);
     return response.data;
   }
 
   /**
-   * Unlike a comment
+   * Notify mentioned users, and the parent's author about a reply, on
+   * their own clients. The author of the comment is never notified.
    */
-  async unlikeComment(commentId: string): Promise<Comment> {
-    const response = await commentApi.unlikeComment(commentId);
+  private notifyParticipants(
+    comment: Comment,
+    mentions: string[],
+    parentComment?: Comment,
+  ): void {
+    const notify = (userId: string, type: "mention" | "reply") => {
+      realtimeService.sendCommentNotification({
+        commentId: comment.id,
+        taskId: comment.taskId,
+        actorId: comment.user,
+        comment,
+        type,
+        userId,
+        read: false,
+      });
+    };
 
-    if (!response.success) {
-      throw new Error(response.message || "Failed to unlike comment");
-    }
+    mentions
+      .filter((userId) => userId !== comment.user)
+      .forEach((userId) => notify(userId, "mention"));
 
-    return response.data;
+    if (
+      parentComment &&
+      parentComment.user !== comment.user &&
+      !mentions.includes(parentComment.user)
+    ) {
+      notify(parentComment.user, "reply");
+    }
   }
 
   /**
@@ -123,22 +194,13 @@ export class CommentService {
   /**
    * Format comment for display
    */
-  formatCommentForDisplay(comment: Comment): string {
+  formatCommentForDisplay(
+    comment: Comment,
+    mentionCandidates: MentionCandidate[] = [],
+  ): string {
     if (!comment.content) return "";
 
-    // Basic markdown formatting
-    let formatted = comment.content;
-
-    // Replace newlines with HTML line breaks
-    formatted = formatted.replace(/\n/g, "<br>");
-
-    // Simple URL detection
-    formatted = formatted.replace(
-      /(https?:\/\/[^\s]+)/g,
-      '<a href="$1" target="_blank" rel="noopener noreferrer">$1</a>',
-    );
-
-    return formatted;
+    return renderCommentContent(comment.content, mentionCandidates);
   }
 
   /**
@@ -0,0 +1,187 @@
+/**
+ * Conflict Resolution Service - Three-way merges offline task edits and
+ * manages the conflicts inbox
+ */
+import { Task } from "../types/task";
+import {
+  ConflictResolutionChoice,
+  MergeableTaskField,
+  OfflineQueueItem,
+  OfflineSettings,
+  SyncConflict,
+  ThreeWayMergeResult,
+} from "../types/offlineTypes";
+import { useOfflineStore } from "../store/useOfflineStore";
+import { useTaskStore } from "../store/useTaskStore";
+import { taskApi } from "../api/taskApi";
+import {
+  MERGEABLE_TASK_FIELDS,
+  applyConflictChoices,
+  threeWayMergeTask,
+} from "../utils/conflictUtils";
+
+export class ConflictResolutionService {
+  private static instance: ConflictResolutionService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  public static getInstance(): ConflictResolutionService {
+    if (!ConflictResolutionService.instance) {
+      ConflictResolutionService.instance = new ConflictResolutionService();
+    }
+    return ConflictResolutionService.instance;
+  }
+
+  /**
+   * Snapshot the version of a task that an offline edit is based on.
+   * When earlier edits to the same task are still queued, their base is the
+   * last version the server acknowledged, so it is reused.
+   */
+  captureBase(taskId: string): Record<string, any> | null {
+    const queued = useOfflineStore
+      .getState()
+      .queue.items.find(
+        (item) =>
+          item.type === "update" &&
+          item.data?.taskId === taskId &&
+          item.data?.base &&
+          item.status !== "completed",
+      );
+
+    if (queued) {
+      return queued.data.base;
+    }
+
+    const task = useTaskStore.getState().tasks.find((t) => t.id === taskId);
+
+    return task ? this.pickMergeableFields(task) : null;
+  }
+
+  /**
+   * Merge a queued task update against the server copy of the task
+   */
+  mergeTaskUpdate(
+    item: OfflineQueueItem,
+    remoteTask: Partial<Task>,
+  ): ThreeWayMergeResult {
+    const { base, updates } = item.data;
+    const local = { ...base, ...updates };
+
+    return threeWayMergeTask(base, local, remoteTask);
+  }
+
+  /**
+   * Resolve a queued task update against the server copy. Fields changed on
+   * only one side merge automatically; true conflicts are settled by the
+   * configured strategy or, for "manual" and "timestamp", sent to the inbox.
+   * Returns the values to send, or null when the update is waiting in the inbox.
+   */
+  reconcileTaskUpdate(
+    item: OfflineQueueItem,
+    remoteTask: Partial<Task>,
+    settings: OfflineSettings = useOfflineStore.getState().settings,
+  ): Record<string, any> | null {
+    const { merged, conflicts } = this.mergeTaskUpdate(item, remoteTask);
+
+    if (conflicts.length === 0) {
+      return this.pickMergeableFields(merged);
+    }
+
+    if (
+      settings.conflictResolution === "local-wins" ||
+      settings.conflictResolution === "remote-wins"
+    ) {
+      const choice: ConflictResolutionChoice =
+        settings.conflictResolution === "local-wins" ? "local" : "remote";
+      const choices = Object.fromEntries(
+        conflicts.map((conflict) => [conflict.field, choice]),
+      );
+      return this.pickMergeableFields(
+        applyConflictChoices(merged, conflicts, choices),
+      );
+    }
+
+    const { base, updates } = item.data;
+    const conflict: SyncConflict = {
+      id: `conflict-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      taskId: item.data.taskId,
+      taskTitle: remoteTask.title || updates?.title || base?.title || "",
+      base,
+      local: { ...base, ...updates },
+      remote: this.pickMergeableFields(remoteTask),
+      merged: this.pickMergeableFields(merged),
+      fields: conflicts,
+      detectedAt: new Date(),
+    };
+
+    useOfflineStore.getState().addConflict(conflict);
+    return null;
+  }
+
+  /**
+   * Get all conflicts waiting in the inbox
+   */
+  getConflicts(): SyncConflict[] {
+    return useOfflineStore.getState().conflicts;
+  }
+
+  /**
+   * Apply the user's per-field choices for a conflict and push the result
+   */
+  async resolveConflict(
+    conflictId: string,
+    choices: Partial<Record<MergeableTaskField, ConflictResolutionChoice>>,
+  ): Promise<Task> {
+    const conflict = this.getConflicts().find((c) => c.id === conflictId);
+
+    if (!conflict) {
+      throw new Error(`Conflict ${conflictId} not found`);
+    }
+
+    const resolved = applyConflictChoices(
+      conflict.merged,
+      conflict.fields,
+      choices,
+    );
+    const result = await taskApi.updateTask(conflict.taskId, resolved);
+
+    if (!result.success || !result.data) {
+      throw new Error(result.error?.message || "Failed to save resolved task");
+    }
+
+    useTaskStore.getState().updateTask(conflict.taskId, resolved);
+    useOfflineStore.getState().removeConflict(conflictId);
+
+    return result.data;
+  }
+
+  /**
+   * Drop a conflict and keep the server version of the task
+   */
+  discardConflict(conflictId: string): void {
+    const conflict = this.getConflicts().find((c) => c.id === conflictId);
+
+    if (conflict) {
+      useTaskStore.getState().updateTask(conflict.taskId, conflict.remote);
+    }
+    useOfflineStore.getState().removeConflict(conflictId);
+  }
+
+  private pickMergeableFields(task: Record<string, any>): Record<string, any> {
+    const picked: Record<string, any> = {};
+
+    for (const field of MERGEABLE_TASK_FIELDS) {
+      if (field in task) {
+        picked[field] = task[field];
+      }
+    }
+
+    return picked;
+  }
+}
+
+// Singleton instance
+export const conflictResolutionService =
+  ConflictResolutionService.getInstance();
@@ -1,5 +1,8 @@
 import { Task } from "../types/task";
 import { useTaskStore } from "../store/useTaskStore";
+import { BoardCell, BoardViewService } from "./boardViewService";
+import { BoardLayout } from "../types/ui";
+import { historyService } from "./historyService";
 
 interface DndService {
   moveTask: (
@@ -14,6 +17,18 @@ interface DndService {
   ) => Promise<void>;
   moveTaskToProject: (taskId: string, projectId: string) => Promise<void>;
   moveTaskToColumn: (taskId: string, columnId: string) => Promise<void>;
+  moveTaskToGroup: (
+    task: Task,
+    layout: BoardLayout,
+    fromColumnId: string,
+    toColumnId: string,
+  ) => Promise<void>;
+  moveTaskToCell: (
+    task: Task,
+    layout: BoardLayout,
+    from: BoardCell,
+    to: BoardCell,
+  ) => Promise<void>;
   getDragData: (taskId: string) => Promise<Task | null>;
 }
 
@@ -23,6 +38,7 @@ export const createDndService = (): DndService => {
     reorderTask,
     moveTaskToProject,
     moveTaskToColumn,
+    updateTask,
     getTask,
   } = useTaskStore.getState();
 
@@ -71,6 +87,56 @@ export const createDndService = (): DndService => {
       }
     },
 
+    moveTaskToGroup: async (
+      task: Task,
+      layout: BoardLayout,
+      fromColumnId: string,
+      toColumnId: string,
+    ) => {
+      if (fromColumnId === toColumnId) return;
+
+      try {
+        historyService.group(
+          "Move task",
+          () =>
+            updateTask(task.id, {
+              ...BoardViewService.getGroupUpdate(
+                task,
+                layout,
+                fromColumnId,
+                toColumnId,
+              ),
+              updatedAt: new Date(),
+            }),
+          { toast: true },
+        );
+      } catch (error) {
+        console.error("Failed to move task to group:", error);
+        throw error;
+      }
+    },
+
+    moveTaskToCell: async (
+      task: Task,
+      layout: BoardLayout,
+      from: BoardCell,
+      to: BoardCell,
+    ) => {
+      const updates = BoardViewService.getCellUpdate(task, layout, from, to);
+      if (Object.keys(updates).length === 0) return;
+
+      try {
+        historyService.group(
+          "Move task",
+          () => updateTask(task.id, { ...updates, updatedAt: new Date() }),
+          { toast: true },
+        );
+      } catch (error) {
+        console.error("Failed to move task to cell:", error);
+        throw error;
+      }
+    },
+
     getDragData: async (taskId: string) => {
       try {
         return await getTask(taskId);
@@ -0,0 +1,401 @@
+import { useHistoryStore } from "../store/useHistoryStore";
+import { useOfflineStore } from "../store/useOfflineStore";
+import { realtimeService } from "./realtimeService";
+import {
+  HistoryActionOptions,
+  HistoryCommand,
+  HistoryEntity,
+  HistoryEntityPatch,
+  HistorySyncHandler,
+} from "../types/history";
+import { OfflineQueueItem } from "../types/offlineTypes";
+import {
+  applyEntityPatch,
+  diffEntities,
+  isEmptyPatch,
+} from "../utils/historyUtils";
+
+/**
+ * Store whose records are tracked, e.g. the task store's `tasks`
+ */
+export interface HistoryStoreConfig {
+  key: string;
+  store: {
+    getState: () => any;
+    setState: (partial: Record<string, unknown>) => void;
+  };
+  entityKey: string;
+
+  /**
+   * Store actions to record, by action name
+   */
+  actions: Record<string, HistoryActionOptions>;
+
+  /**
+   * Called after undo or redo changed the records, e.g. to refilter
+   */
+  onRestore?: () => void;
+}
+
+/**
+ * History Service - Records store actions as commands that can be undone
+ * and redone
+ */
+export class HistoryService {
+  private static instance: HistoryService;
+  private stores = new Map<string, HistoryStoreConfig>();
+  private syncHandlers = new Map<string, HistorySyncHandler>();
+
+  /**
+   * Depth of groups and tracked actions running; nested actions are part
+   * of the outermost one
+   */
+  private depth = 0;
+
+  static readonly HISTORY_LIMIT = 100;
+  static readonly TOAST_DURATION = 5000;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  public static getInstance(): HistoryService {
+    if (!HistoryService.instance) {
+      HistoryService.instance = new HistoryService();
+    }
+    return HistoryService.instance;
+  }
+
+  /**
+   * Record the given actions of a store. The actions are replaced in the
+   * store, so callers holding `getState()` afterwards get recorded versions.
+   */
+  trackStore(config: HistoryStoreConfig): void {
+    this.stores.set(config.key, config);
+
+    const state = config.store.getState();
+    const wrapped: Record<string, unknown> = {};
+    Object.entries(config.actions).forEach(([name, options]) => {
+      const action = state[name];
+      if (typeof action !== "function") return;
+
+      wrapped[name] = (...args: unknown[]) =>
+        this.run(this.getLabel(options, args), options, () => action(...args));
+    });
+    config.store.setState(wrapped);
+  }
+
+  /**
+   * Send undone and redone records of a store to the server
+   */
+  registerSync(key: string, handler: HistorySyncHandler): void {
+    this.syncHandlers.set(key, handler);
+  }
+
+  /**
+   * Record everything `fn` changes in the tracked stores as one command.
+   * `fn` only changes the stores; requests are awaited after the group, or
+   * other changes made while they are in flight would join the command.
+   */
+  group<R>(
+    label: string,
+    fn: () => R,
+    options: Omit<HistoryActionOptions, "label"> = {},
+  ): R {
+    return this.optimistic(label, fn, options).result;
+  }
+
+  /**
+   * Record an optimistic update as one command, like `group`. `rollback`
+   * reverts the update and removes its command, for when the server
+   * rejects it.
+   */
+  optimistic<R>(
+    label: string,
+    fn: () => R,
+    options: Omit<HistoryActionOptions, "label"> = {},
+  ): { result: R; rollback: () => void } {
+    const startedAt = new Date();
+    const snapshot = this.snapshot();
+    let patches: Record<string, HistoryEntityPatch> = {};
+    let command: HistoryCommand | null = null;
+
+    this.depth++;
+    try {
+      const result = fn();
+      return { result, rollback: () => this.rollback(patches, command) };
+    } finally {
+      this.depth--;
+      patches = this.diff(snapshot);
+      if (this.depth === 0) {
+        command = this.record(label, patches, startedAt, options);
+      }
+    }
+  }
+
+  /**
+   * Run `fn` without recording it, e.g. to apply server responses or to
+   * revert a failed optimistic update
+   */
+  runUntracked<R>(fn: () => R): R {
+    this.depth++;
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+    }
+  }
+
+  canUndo(): boolean {
+    return useHistoryStore.getState().past.length > 0;
+  }
+
+  canRedo(): boolean {
+    return useHistoryStore.getState().future.length > 0;
+  }
+
+  /**
+   * Undo the latest command. Changes still waiting in the offline queue are
+   * cancelled rather than followed by a request reverting them.
+   */
+  async undo(): Promise<HistoryCommand | null> {
+    const { past, future } = useHistoryStore.getState();
+    const command = past[past.length - 1];
+    if (!command) return null;
+
+    useHistoryStore.setState({
+      past: past.slice(0, -1),
+      future: [...future, command],
+      toasts: [],
+    });
+    const cancelled = this.cancelQueuedChanges(command);
+    realtimeService.broadcast(() => this.apply(command.patches, "undo"));
+    await this.sync(command, "undo", cancelled);
+    return command;
+  }
+
+  /**
+   * Redo the latest undone command
+   */
+  async redo(): Promise<HistoryCommand | null> {
+    const { past, future } = useHistoryStore.getState();
+    const command = future[future.length - 1];
+    if (!command) return null;
+
+    useHistoryStore.setState({
+      past: [...past, command],
+      future: future.slice(0, -1),
+      toasts: [],
+    });
+    realtimeService.broadcast(() => this.apply(command.patches, "redo"));
+    await this.sync(command, "redo", new Set());
+    return command;
+  }
+
+  /**
+   * Undo a command only while it is still the latest, as offered by its
+   * toast
+   */
+  async undoCommand(commandId: string): Promise<boolean> {
+    const { past } = useHistoryStore.getState();
+    if (past[past.length - 1]?.id !== commandId) return false;
+
+    await this.undo();
+    return true;
+  }
+
+  clear(): void {
+    useHistoryStore.setState({ past: [], future: [], toasts: [] });
+  }
+
+  private getLabel(options: HistoryActionOptions, args: unknown[]): string {
+    return typeof options.label === "function"
+      ? options.label(...args)
+      : options.label;
+  }
+
+  private run<R>(label: string, options: HistoryActionOptions, fn: () => R) {
+    if (this.depth > 0) return fn();
+
+    const startedAt = new Date();
+    const snapshot = this.snapshot();
+    this.depth++;
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+      this.record(label, this.diff(snapshot), startedAt, options);
+    }
+  }
+
+  private snapshot(): Map<string, HistoryEntity[]> {
+    return new Map(
+      Array.from(this.stores.values()).map(({ key, store, entityKey }) => [
+        key,
+        store.getState()[entityKey] || [],
+      ]),
+    );
+  }
+
+  /**
+   * Patches by store key for what changed since the snapshot
+   */
+  private diff(
+    snapshot: Map<string, HistoryEntity[]>,
+  ): Record<string, HistoryEntityPatch> {
+    const patches: Record<string, HistoryEntityPatch> = {};
+    this.stores.forEach(({ key, store, entityKey }) => {
+      const patch = diffEntities(
+        snapshot.get(key) || [],
+        store.getState()[entityKey] || [],
+      );
+      if (!isEmptyPatch(patch)) patches[key] = patch;
+    });
+    return patches;
+  }
+
+  private record(
+    label: string,
+    patches: Record<string, HistoryEntityPatch>,
+    startedAt: Date,
+    options: Omit<HistoryActionOptions, "label">,
+  ): HistoryCommand | null {
+    if (Object.keys(patches).length === 0) return null;
+
+    const command: HistoryCommand = {
+      id: `history-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      label,
+      timestamp: startedAt,
+      patches,
+    };
+
+    useHistoryStore.setState((state) => ({
+      past: [...state.past, command].slice(-HistoryService.HISTORY_LIMIT),
+      future: [],
+      toasts: options.toast
+        ? [
+            {
+              id: command.id,
+              type: "info",
+              title: label,
+              message: "",
+              timestamp: command.timestamp,
+              duration: HistoryService.TOAST_DURATION,
+              action: {
+                label: "Undo",
+                onClick: () => {
+                  this.undoCommand(command.id).catch((error) =>
+                    console.error("Failed to undo:", error),
+                  );
+                },
+              },
+              dismissible: true,
+            },
+          ]
+        : [],
+    }));
+    return command;
+  }
+
+  /**
+   * Revert an optimistic update and drop its command. A command already
+   * undone only needs dropping.
+   */
+  private rollback(
+    patches: Record<string, HistoryEntityPatch>,
+    command: HistoryCommand | null,
+  ): void {
+    const { past, future, toasts } = useHistoryStore.getState();
+    const isCommand = ({ id }: { id: string }) => id === command?.id;
+
+    useHistoryStore.setState({
+      past: past.filter((entry) => !isCommand(entry)),
+      future: future.filter((entry) => !isCommand(entry)),
+      toasts: toasts.filter((toast) => !isCommand(toast)),
+    });
+    if (!future.some(isCommand)) {
+      realtimeService.broadcast(() => this.apply(patches, "undo"));
+    }
+  }
+
+  private apply(
+    patches: Record<string, HistoryEntityPatch>,
+    direction: "undo" | "redo",
+  ): void {
+    const restoredAt = new Date();
+    Object.entries(patches).forEach(([key, patch]) => {
+      const config = this.stores.get(key);
+      if (!config) return;
+
+      config.store.setState({
+        [config.entityKey]: applyEntityPatch(
+          config.store.getState()[config.entityKey] || [],
+          patch,
+          direction,
+          restoredAt,
+        ),
+      });
+      config.onRestore?.();
+    });
+  }
+
+  /**
+   * Remove queued offline changes made to the command's records since it
+   * ran. Returns the IDs of records whose changes never left the device.
+   */
+  private cancelQueuedChanges(command: HistoryCommand): Set<string> {
+    const offlineStore = useOfflineStore.getState();
+    const changedIds = new Set(
+      Object.values(command.patches).flatMap((patch) =>
+        patch.changes.map(({ id }) => id),
+      ),
+    );
+    const cancelled = new Set<string>();
+
+    offlineStore.queue.items
+      .filter(
+        (item: OfflineQueueItem) =>
+          item.status === "pending" &&
+          new Date(item.timestamp).getTime() >= command.timestamp.getTime(),
+      )
+      .forEach((item: OfflineQueueItem) => {
+        const entityId = item.data?.taskId ?? item.data?.id;
+        if (!changedIds.has(entityId)) return;
+
+        offlineStore.removeQueueItem(item.id);
+        cancelled.add(entityId);
+      });
+
+    return cancelled;
+  }
+
+  private async sync(
+    command: HistoryCommand,
+    direction: "undo" | "redo",
+    skipIds: Set<string>,
+  ): Promise<void> {
+    const requests = Object.entries(command.patches).map(([key, patch]) => {
+      const handler = this.syncHandlers.get(key);
+      const changes = patch.changes
+        .filter(({ id }) => !skipIds.has(id))
+        .map((change) =>
+          direction === "undo"
+            ? { id: change.id, from: change.after, to: change.before }
+            : { id: change.id, from: change.before, to: change.after },
+        );
+
+      return handler && changes.length > 0
+        ? handler(changes)
+        : Promise.resolve();
+    });
+
+    const results = await Promise.allSettled(requests);
+    results.forEach((result) => {
+      if (result.status === "rejected") {
+        console.error(`Failed to sync ${direction}:`, result.reason);
+      }
+    });
+  }
+}
+
+export const historyService = HistoryService.getInstance();
@@ -0,0 +1,547 @@
+/**
+ * iCal Service - Exports tasks to iCalendar (RFC 5545) and imports
+ * VEVENT/VTODO entries back into tasks with their recurrence
+ */
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  format,
+  subDays,
+} from "date-fns";
+import {
+  CalendarEventType,
+  ICalComponent,
+  ICalExportOptions,
+  ICalImportResult,
+  ICalImportedTask,
+  ICalProperty,
+} from "../types/calendarTypes";
+import { RecurringPatternConfig, Task } from "../types/task";
+import { PriorityLevel, TaskStatus } from "../types/enums";
+import {
+  escapeICalText,
+  formatICalDate,
+  formatICalDateTime,
+  formatICalZonedDateTime,
+  getICalProperty,
+  parseICalDateValue,
+  parseICalendar,
+  serializeICalComponent,
+  unescapeICalText,
+} from "../utils/icalUtils";
+import {
+  formatRRule,
+  parseRRule,
+  rRuleToRecurringConfig,
+  recurringConfigToRRule,
+} from "../utils/rruleUtils";
+import { isValidTimeZone } from "../utils/dateUtils";
+
+const PRODUCT_ID = "-//Todone//Todone Tasks//EN";
+const UID_DOMAIN = "todone";
+const DEFAULT_EVENT_MINUTES = 30;
+
+/**
+ * iCalendar PRIORITY values (1 = highest, 9 = lowest)
+ */
+const PRIORITY_TO_ICAL: Record<PriorityLevel, number> = {
+  P1: 1,
+  P2: 3,
+  P3: 5,
+  P4: 9,
+};
+
+const priorityFromICal = (value: number): PriorityLevel => {
+  if (value === 1) return PriorityLevel.P1;
+  if (value >= 2 && value <= 4) return PriorityLevel.P2;
+  if (value === 5) return PriorityLevel.P3;
+  return PriorityLevel.P4;
+};
+
+const property = (
+  name: string,
+  value: string,
+  params: Record<string, string> = {},
+): ICalProperty => ({ name, params, value });
+
+/**
+ * DATE-TIME property holding one or more times; written as wall-clock
+ * time with a TZID when the timezone is known, in UTC otherwise
+ */
+const dateTimeProperty = (
+  name: string,
+  dates: Date[],
+  timeZone?: string,
+): ICalProperty =>
+  timeZone && isValidTimeZone(timeZone)
+    ? property(
+        name,
+        dates.map((date) => formatICalZonedDateTime(date, timeZone)).join(","),
+        { TZID: timeZone },
+      )
+    : property(name, dates.map(formatICalDateTime).join(","));
+
+/**
+ * Timezone named by a property's TZID, if the runtime knows it
+ */
+const getTimeZone = (prop?: ICalProperty): string | undefined => {
+  const timeZone = prop?.params.TZID;
+  return timeZone && isValidTimeZone(timeZone) ? timeZone : undefined;
+};
+
+export class ICalService {
+  private static instance: ICalService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  public static getInstance(): ICalService {
+    if (!ICalService.instance) {
+      ICalService.instance = new ICalService();
+    }
+    return ICalService.instance;
+  }
+
+  /**
+   * Export tasks with due dates as an iCalendar document
+   */
+  exportTasks(tasks: Task[], options: ICalExportOptions = {}): string {
+    const calendar: ICalComponent = {
+      type: "VCALENDAR",
+      properties: [
+        property("VERSION", "2.0"),
+        property("PRODID", PRODUCT_ID),
+        property("CALSCALE", "GREGORIAN"),
+      ],
+      components: [],
+    };
+
+    if (options.calendarName) {
+      calendar.properties.push(
+        property("X-WR-CALNAME", escapeICalText(options.calendarName)),
+      );
+    }
+
+    tasks
+      .filter((task) => !!task.dueDate)
+      .forEach((task) => {
+        calendar.components.push(this.taskToComponent(task, options));
+      });
+
+    return serializeICalComponent(calendar);
+  }
+
+  /**
+   * Export calendar events as VEVENT entries. Events linked to a task use
+   * the task's UID, and DTSTAMP comes from the event's last update so the
+   * output only changes when the events do.
+   */
+  exportEvents(
+    events: Omit<CalendarEventType, "id">[],
+    options: ICalExportOptions = {},
+  ): string {
+    const calendar: ICalComponent = {
+      type: "VCALENDAR",
+      properties: [
+        property("VERSION", "2.0"),
+        property("PRODID", PRODUCT_ID),
+        property("CALSCALE", "GREGORIAN"),
+        property("METHOD", "PUBLISH"),
+      ],
+      components: [],
+    };
+
+    if (options.calendarName) {
+      calendar.properties.push(
+        property("X-WR-CALNAME", escapeICalText(options.calendarName)),
+      );
+    }
+
+    events.forEach((event) => {
+      calendar.components.push(this.eventToComponent(event, options));
+    });
+
+    return serializeICalComponent(calendar);
+  }
+
+  /**
+   * Build the VEVENT for a calendar event
+   */
+  eventToComponent(
+    event: Omit<CalendarEventType, "id"> & { id?: string },
+    options: ICalExportOptions = {},
+  ): ICalComponent {
+    const start = new Date(event.startDate);
+    const end = event.endDate ? new Date(event.endDate) : start;
+    const stamp = event.updatedAt || event.createdAt;
+    const uid = event.taskId || event.id;
+
+    const properties: ICalProperty[] = [
+      property("UID", `${uid}@${UID_DOMAIN}`),
+      property(
+        "DTSTAMP",
+        formatICalDateTime(stamp ? new Date(stamp) : options.now || new Date()),
+      ),
+      property("SUMMARY", escapeICalText(event.title || "")),
+    ];
+
+    if (event.description) {
+      properties.push(
+        property("DESCRIPTION", escapeICalText(event.description)),
+      );
+    }
+
+    if (event.allDay) {
+      properties.push(
+        property("DTSTART", formatICalDate(start), { VALUE: "DATE" }),
+        property("DTEND", formatICalDate(addDays(end, 1)), { VALUE: "DATE" }),
+      );
+    } else {
+      properties.push(
+        dateTimeProperty("DTSTART", [start], event.timeZone),
+        dateTimeProperty("DTEND", [end], event.timeZone),
+      );
+    }
+
+    if (event.location) {
+      properties.push(property("LOCATION", escapeICalText(event.location)));
+    }
+    if (event.status) {
+      properties.push(property("STATUS", event.status.toUpperCase()));
+    }
+    if (event.isRecurring && event.recurrencePattern) {
+      properties.push(
+        property("RRULE", event.recurrencePattern.replace(/^RRULE:/i, "")),
+      );
+    }
+    if (event.updatedAt) {
+      properties.push(
+        property(
+          "LAST-MODIFIED",
+          formatICalDateTime(new Date(event.updatedAt)),
+        ),
+      );
+    }
+
+    return { type: "VEVENT", properties, components: [] };
+  }
+
+  /**
+   * Read the events in an iCalendar document, e.g. a CalDAV calendar
+   * object. Overrides of single occurrences (RECURRENCE-ID) are skipped.
+   */
+  parseEvents(text: string): CalendarEventType[] {
+    return parseICalendar(text)
+      .components.filter(
+        (component) =>
+          ["VEVENT", "VTODO"].includes(component.type) &&
+          !getICalProperty(component, "RECURRENCE-ID"),
+      )
+      .map((component) => this.componentToEvent(component));
+  }
+
+  /**
+   * Convert a VEVENT or VTODO into a calendar event. Events exported from
+   * a task keep the task link through their UID.
+   */
+  componentToEvent(component: ICalComponent): CalendarEventType {
+    const value = (name: string) => getICalProperty(component, name)?.value;
+    const uid = value("UID") || "";
+    const startProperty =
+      getICalProperty(component, "DTSTART") ||
+      getICalProperty(component, "DUE");
+    if (!startProperty) {
+      throw new Error(`${component.type} ${uid} has no start date`);
+    }
+
+    const timeZone = getTimeZone(startProperty);
+    const start = parseICalDateValue(startProperty.value, timeZone);
+    const endProperty = getICalProperty(component, "DTEND");
+    let endDate = endProperty
+      ? parseICalDateValue(endProperty.value, getTimeZone(endProperty)).date
+      : start.date;
+    if (start.dateOnly && endProperty) {
+      // DTEND of all-day events is exclusive
+      endDate = subDays(endDate, 1);
+    }
+
+    const status = value("STATUS")?.toLowerCase();
+    const rrule = value("RRULE");
+    const lastModified = value("LAST-MODIFIED");
+    const created = value("CREATED");
+    const taskSuffix = `@${UID_DOMAIN}`;
+
+    return {
+      id: uid,
+      title: unescapeICalText(value("SUMMARY") || "Untitled"),
+      description: unescapeICalText(value("DESCRIPTION") || ""),
+      startDate: start.date,
+      endDate,
+      allDay: start.dateOnly,
+      timeZone: start.dateOnly ? undefined : timeZone,
+      priority: "normal",
+      location: value("LOCATION")
+        ? unescapeICalText(value("LOCATION"))
+        : undefined,
+      status: ["confirmed", "tentative", "cancelled"].includes(status)
+        ? (status as CalendarEventType["status"])
+        : undefined,
+      isRecurring: !!rrule,
+      recurrencePattern: rrule,
+      taskId: uid.endsWith(taskSuffix)
+        ? uid.slice(0, -taskSuffix.length)
+        : undefined,
+      createdAt: created ? parseICalDateValue(created).date : undefined,
+      updatedAt: lastModified
+        ? parseICalDateValue(lastModified).date
+        : undefined,
+    };
+  }
+
+  /**
+   * Build the VTODO or VEVENT for a single task
+   */
+  taskToComponent(task: Task, options: ICalExportOptions = {}): ICalComponent {
+    const type = options.component || "VTODO";
+    const now = options.now || new Date();
+    const properties: ICalProperty[] = [
+      property("UID", `${task.id}@${UID_DOMAIN}`),
+      property("DTSTAMP", formatICalDateTime(now)),
+      property("SUMMARY", escapeICalText(task.title || "")),
+    ];
+
+    if (task.description) {
+      properties.push(
+        property("DESCRIPTION", escapeICalText(task.description)),
+      );
+    }
+
+    const due = new Date(task.dueDate);
+    const timed = !!task.dueTime;
+    if (timed) {
+      const [hours, minutes] = task.dueTime.split(":").map(Number);
+      due.setHours(hours || 0, minutes || 0, 0, 0);
+    }
+    const recurringConfig = this.getRecurringConfig(task);
+    const dateProperty = (name: string, date: Date) =>
+      timed
+        ? dateTimeProperty(name, [date], recurringConfig?.timeZone)
+        : property(name, formatICalDate(date), { VALUE: "DATE" });
+
+    if (type === "VEVENT") {
+      properties.push(dateProperty("DTSTART", due));
+      properties.push(
+        dateProperty(
+          "DTEND",
+          timed
+            ? addMinutes(due, task.duration || DEFAULT_EVENT_MINUTES)
+            : addDays(due, 1),
+        ),
+      );
+    } else {
+      properties.push(dateProperty("DUE", due));
+      properties.push(
+        property("STATUS", task.completed ? "COMPLETED" : "NEEDS-ACTION"),
+      );
+      if (task.completed && task.completedAt) {
+        properties.push(
+          property("COMPLETED", formatICalDateTime(new Date(task.completedAt))),
+        );
+      }
+    }
+
+    if (task.priority && PRIORITY_TO_ICAL[task.priority]) {
+      properties.push(
+        property("PRIORITY", String(PRIORITY_TO_ICAL[task.priority])),
+      );
+    }
+
+    const categories = (task.labelIds || [])
+      .map((id) => options.labels?.find((label) => label.id === id)?.name)
+      .filter(Boolean)
+      .map(escapeICalText);
+    if (categories.length > 0) {
+      properties.push(property("CATEGORIES", categories.join(",")));
+    }
+
+    if (recurringConfig) {
+      properties.push(
+        property("RRULE", formatRRule(recurringConfigToRRule(recurringConfig))),
+      );
+
+      const dateList = (name: string, dates: Date[] = []) => {
+        if (dates.length === 0) return;
+        properties.push(
+          timed
+            ? dateTimeProperty(
+                name,
+                dates.map((date) => new Date(date)),
+                recurringConfig.timeZone,
+              )
+            : property(
+                name,
+                dates.map((date) => formatICalDate(new Date(date))).join(","),
+                { VALUE: "DATE" },
+              ),
+        );
+      };
+      dateList("EXDATE", recurringConfig.exDates);
+      dateList("RDATE", recurringConfig.rDates);
+    }
+
+    if (task.createdAt) {
+      properties.push(
+        property("CREATED", formatICalDateTime(new Date(task.createdAt))),
+      );
+    }
+    if (task.updatedAt) {
+      properties.push(
+        property("LAST-MODIFIED", formatICalDateTime(new Date(task.updatedAt))),
+      );
+    }
+
+    return { type, properties, components: [] };
+  }
+
+  /**
+   * Import VEVENT and VTODO entries as tasks. Entries that cannot be read
+   * are skipped and reported in `errors`.
+   */
+  importCalendar(text: string): ICalImportResult {
+    const result: ICalImportResult = { tasks: [], errors: [] };
+    let calendar: ICalComponent;
+
+    try {
+      calendar = parseICalendar(text);
+    } catch (error) {
+      result.errors.push(
+        error instanceof Error ? error.message : String(error),
+      );
+      return result;
+    }
+
+    calendar.components
+      .filter((component) => ["VEVENT", "VTODO"].includes(component.type))
+      .forEach((component, index) => {
+        try {
+          result.tasks.push(this.componentToTask(component));
+        } catch (error) {
+          const uid = getICalProperty(component, "UID")?.value;
+          result.errors.push(
+            `${component.type} ${uid || `#${index + 1}`}: ${
+              error instanceof Error ? error.message : String(error)
+            }`,
+          );
+        }
+      });
+
+    return result;
+  }
+
+  /**
+   * Convert a VEVENT or VTODO into task fields and recurrence config
+   */
+  componentToTask(component: ICalComponent): ICalImportedTask {
+    const text = (name: string) => {
+      const value = getICalProperty(component, name)?.value;
+      return value === undefined ? undefined : unescapeICalText(value);
+    };
+
+    const uid = getICalProperty(component, "UID")?.value || "";
+    const start =
+      getICalProperty(component, "DUE") ||
+      getICalProperty(component, "DTSTART");
+    const task: Partial<Task> = {
+      title: text("SUMMARY") || "Untitled",
+      description: text("DESCRIPTION") || "",
+      status: TaskStatus.ACTIVE,
+      completed: false,
+      priority: PriorityLevel.P4,
+    };
+
+    const timeZone = getTimeZone(start);
+    if (start) {
+      const { date, dateOnly } = parseICalDateValue(start.value, timeZone);
+      task.dueDate = dateOnly
+        ? date
+        : new Date(date.getFullYear(), date.getMonth(), date.getDate());
+      task.dueTime = dateOnly ? null : format(date, "HH:mm");
+
+      const end = getICalProperty(component, "DTEND");
+      if (component.type === "VEVENT" && end && !dateOnly) {
+        task.duration = differenceInMinutes(
+          parseICalDateValue(end.value, getTimeZone(end)).date,
+          date,
+        );
+      }
+    }
+
+    const priority = parseInt(
+      getICalProperty(component, "PRIORITY")?.value || "0",
+      10,
+    );
+    if (priority > 0) {
+      task.priority = priorityFromICal(priority);
+    }
+
+    if (getICalProperty(component, "STATUS")?.value === "COMPLETED") {
+      task.completed = true;
+      task.status = TaskStatus.COMPLETED;
+      const completed = getICalProperty(component, "COMPLETED");
+      if (completed) {
+        task.completedAt = parseICalDateValue(completed.value).date;
+      }
+    }
+
+    const categories = getICalProperty(component, "CATEGORIES")?.value;
+    if (categories) {
+      task.tags = categories
+        .split(/(?<!\\),/)
+        .map((category) => unescapeICalText(category).trim())
+        .filter(Boolean);
+    }
+
+    let recurringConfig: RecurringPatternConfig | null = null;
+    const rrule = getICalProperty(component, "RRULE");
+    if (rrule) {
+      recurringConfig = rRuleToRecurringConfig(parseRRule(rrule.value));
+
+      // EXDATE and RDATE may repeat and hold comma-separated lists
+      const dateList = (name: string) =>
+        component.properties
+          .filter((prop) => prop.name === name)
+          .flatMap((prop) =>
+            prop.value
+              .split(",")
+              .map((value) => parseICalDateValue(value, getTimeZone(prop))),
+          )
+          .map(({ date }) => date);
+      const exDates = dateList("EXDATE");
+      const rDates = dateList("RDATE");
+      if (exDates.length > 0) recurringConfig.exDates = exDates;
+      if (rDates.length > 0) recurringConfig.rDates = rDates;
+      if (timeZone && task.dueTime) recurringConfig.timeZone = timeZone;
+
+      task.recurringPattern = recurringConfig.pattern;
+      task.customFields = { recurringConfig };
+    }
+
+    return { uid, task, recurringConfig };
+  }
+
+  private getRecurringConfig(task: Task): RecurringPatternConfig | null {
+    const config = task.customFields?.recurringConfig;
+    if (config?.pattern) {
+      return config;
+    }
+    if (task.recurringPattern && task.recurringPattern !== "custom") {
+      return { pattern: task.recurringPattern, interval: 1 };
+    }
+    return null;
+  }
+}
+
+// Singleton instance
+export const icalService = ICalService.getInstance();
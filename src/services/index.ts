@@ -14,16 +14,28 @@ export {
   OfflineDataPersistence,
   offlineDataPersistence,
 } from "./offlineDataPersistence";
+export {
+  ConflictResolutionService,
+  conflictResolutionService,
+} from "./conflictResolutionService";
 
 // Other services (existing pattern)
 export { TaskService, taskService } from "./taskService";
+export { BulkCaptureService, bulkCaptureService } from "./bulkCaptureService";
 export { CalendarSyncService } from "./calendarSyncService";
 export { CalendarService } from "./calendarService";
+export { ICalService, icalService } from "./icalService";
+export {
+  CalendarFeedService,
+  calendarFeedService,
+} from "./calendarFeedService";
 export { CollaborationService } from "./collaborationService";
 export { CommentService } from "./commentService";
 export { DndService } from "./dndService";
 export { DragAndDropService } from "./dragAndDropService";
 export { FilterService } from "./filterService";
+export { HistoryService, historyService } from "./historyService";
+export { AttachmentService, attachmentService } from "./attachmentService";
 export { InboxService } from "./inboxService";
 export { KarmaService } from "./karmaService";
 export { KeyboardService } from "./keyboardService";
@@ -32,6 +44,11 @@ export { ListViewService } from "./listViewService";
 export { NlpParserService } from "./nlpParserService";
 export { NlpService } from "./nlpService";
 export { ProductivityService } from "./productivityService";
+export { ProjectService, projectService } from "./projectService";
+export {
+  ProjectTemplateService,
+  projectTemplateService,
+} from "./projectTemplateService";
 export { RecurringPatternManager } from "./recurringPatternManager";
 export { RecurringPatternService } from "./recurringPatternService";
 export { RecurringTaskGenerator } from "./recurringTaskGenerator";
@@ -43,6 +60,10 @@ export { SubTaskService } from "./subTaskService";
 export { TaskHierarchyService } from "./taskHierarchyService";
 export { TemplateCategoryService } from "./templateCategoryService";
 export { TemplateService } from "./templateService";
+export {
+  TemplateExportService,
+  templateExportService,
+} from "./templateExportService";
 export { TodayService } from "./todayService";
 export { UpcomingService } from "./upcomingService";
 export { AiService } from "./aiService";
@@ -72,3 +93,4 @@ export {
 // Extension services
 export { default as extensionService } from "./extensionService";
 export { default as extensionConfigService } from "./extensionConfigService";
+export { RealtimeService, realtimeService } from "./realtimeService";
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { Label, LabelModel } from "../types/models";
 import { Result, AsyncResult } from "../types/common";
+import { HistorySyncChange } from "../types/history";
 
 /**
  * Label Service
@@ -203,6 +204,24 @@ class LabelService {
     }
   }
 
+  /**
+   * Save the labels an undo or redo restored, adding back ones it brought
+   * back and removing ones it removed
+   */
+  async syncHistoryChanges(changes: HistorySyncChange[]): Promise<void> {
+    changes.forEach(({ id, to }) => {
+      const index = this.labels.findIndex((l) => l.id === id);
+      if (!to) {
+        if (index !== -1) this.labels.splice(index, 1);
+      } else if (index === -1) {
+        this.labels.push(new LabelModel(to));
+      } else {
+        this.labels[index] = new LabelModel({ ...this.labels[index], ...to });
+      }
+    });
+    this.saveLabels();
+  }
+
   /**
    * Clear all labels
    */
@@ -1,13 +1,22 @@
 // @ts-nocheck
 import { nlpService } from "./nlpService";
+import { RecurringPatternConfig } from "../types/task";
+import { NlpEntity, NlpParseOptions } from "../types/nlp";
 
 interface ParseResult {
   title?: string;
   description?: string;
   dueDate?: string;
+  dueTime?: string;
+  duration?: number;
   priority?: string;
   labels?: string[];
   project?: string;
+  assignees?: string[];
+  section?: string;
+  recurrence?: RecurringPatternConfig;
+  entities?: NlpEntity[];
+  locale?: string;
   rawText: string;
   confidence?: number;
 }
@@ -16,6 +25,7 @@ interface NlpParserOptions {
   debug?: boolean;
   strictMode?: boolean;
   fallbackToBasic?: boolean;
+  locale?: string;
 }
 
 export class NlpParserService {
@@ -30,7 +40,10 @@ export class NlpParserService {
     };
   }
 
-  async parse(text: string): Promise<ParseResult> {
+  async parse(
+    text: string,
+    options: NlpParseOptions = {},
+  ): Promise<ParseResult> {
     if (!text || typeof text !== "string") {
       throw new Error("Invalid input text for NLP parser");
     }
@@ -42,7 +55,10 @@ export class NlpParserService {
 
     try {
       // Use the main NLP service for parsing
-      const result = await nlpService.parseNaturalLanguage(trimmedText);
+      const result = await nlpService.parseNaturalLanguage(text, {
+        locale: this.options.locale,
+        ...options,
+      });
 
       // Apply strict mode validation if enabled
       if (this.options.strictMode) {
@@ -79,9 +95,17 @@ export class NlpParserService {
       title: result.title || "Untitled Task",
       description: result.description || "",
       dueDate: result.dueDate || undefined,
-      priority: result.priority || "medium",
+      dueTime: result.dueTime || undefined,
+      duration: result.duration || undefined,
+      // Only p1-p4 set a priority; ordinary words no longer do
+      priority: result.priority || undefined,
       labels: result.labels || [],
       project: result.project || undefined,
+      assignees: result.assignees || [],
+      section: result.section || undefined,
+      recurrence: result.recurrence || undefined,
+      entities: result.entities || [],
+      locale: result.locale,
       rawText: result.rawText,
       confidence: result.confidence || 0,
     };
@@ -103,8 +127,11 @@ export class NlpParserService {
     };
   }
 
-  async parseBatch(texts: string[]): Promise<ParseResult[]> {
-    return Promise.all(texts.map((text) => this.parse(text)));
+  async parseBatch(
+    texts: string[],
+    options: NlpParseOptions = {},
+  ): Promise<ParseResult[]> {
+    return Promise.all(texts.map((text) => this.parse(text, options)));
   }
 
   async parseWithContext(text: string, context: any): Promise<ParseResult> {
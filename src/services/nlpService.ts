@@ -1,18 +1,33 @@
-import {
-  parseDateFromText,
-  extractPriority,
-  extractLabels,
-  extractProject,
-} from "../utils/nlpUtils";
-import { matchPatterns } from "../utils/nlpPatternUtils";
+import { parseTaskText } from "../utils/nlpTaskParser";
+import { NlpEntity, NlpParseOptions } from "../types/nlp";
+import { RecurringPatternConfig } from "../types/task";
 
 interface ParsedTaskData {
   title: string;
   description?: string;
+  /**
+   * ISO timestamp
+   */
   dueDate?: string;
+  /**
+   * HH:mm, when a time of day was given
+   */
+  dueTime?: string;
+  /**
+   * Minutes
+   */
+  duration?: number;
   priority?: string;
   labels?: string[];
   project?: string;
+  assignees?: string[];
+  section?: string;
+  recurrence?: RecurringPatternConfig;
+  /**
+   * What was understood, with character ranges into rawText
+   */
+  entities: NlpEntity[];
+  locale: string;
   rawText: string;
   confidence: number;
 }
@@ -20,6 +35,7 @@ interface ParsedTaskData {
 interface NlpServiceOptions {
   debug?: boolean;
   strictMode?: boolean;
+  locale?: string;
 }
 
 export class NlpService {
@@ -33,7 +49,10 @@ export class NlpService {
     };
   }
 
-  async parseNaturalLanguage(text: string): Promise<ParsedTaskData> {
+  async parseNaturalLanguage(
+    text: string,
+    options: NlpParseOptions = {},
+  ): Promise<ParsedTaskData> {
     if (!text || typeof text !== "string") {
       throw new Error("Invalid input text");
     }
@@ -47,39 +66,39 @@ export class NlpService {
       console.log("NLP Service - Input text:", trimmedText);
     }
 
-    // Extract basic task information
-    const title = this.extractTitle(trimmedText);
-    const description = this.extractDescription(trimmedText, title);
-
-    // Use pattern matching for structured extraction
-    const patternResults = matchPatterns(trimmedText);
-
-    // Extract specific fields using utilities
-    const dueDate = parseDateFromText(trimmedText) || patternResults.dueDate;
-    const priority = extractPriority(trimmedText) || patternResults.priority;
-    const labels = extractLabels(trimmedText) || patternResults.labels;
-    const project = extractProject(trimmedText) || patternResults.project;
-
-    // Calculate confidence score
-    const confidence = this.calculateConfidence({
-      title,
-      description,
-      dueDate,
-      priority,
-      labels,
-      project,
+    // The first line is the task; any lines after it are its description
+    const [taskLine, ...descriptionLines] = trimmedText.split(/\r?\n/);
+    const description = descriptionLines.join("\n").trim();
+
+    // Ranges refer to the untrimmed text
+    const offset = text.indexOf(trimmedText);
+    const parsed = parseTaskText(taskLine, {
+      locale: this.options.locale,
+      ...options,
+      ignore: options.ignore?.map((span) => ({
+        start: span.start - offset,
+        end: span.end - offset,
+      })),
     });
 
     const result: ParsedTaskData = {
-      title,
-      description,
-      dueDate,
-      priority,
-      labels,
-      project,
+      title: parsed.title || taskLine.trim(),
+      description: description || undefined,
+      dueDate: parsed.dueDate?.toISOString(),
+      dueTime: parsed.dueTime,
+      duration: parsed.duration,
+      priority: parsed.priority,
+      labels: parsed.labels.length > 0 ? parsed.labels : undefined,
+      project: parsed.project,
+      assignees: parsed.assignees.length > 0 ? parsed.assignees : undefined,
+      section: parsed.section,
+      recurrence: parsed.recurrence,
+      entities: parsed.entities,
+      locale: parsed.locale,
       rawText: trimmedText,
-      confidence,
+      confidence: 0,
     };
+    result.confidence = this.calculateConfidence(result);
 
     if (this.options.debug) {
       console.log("NLP Service - Parsed result:", result);
@@ -88,43 +107,7 @@ export class NlpService {
     return result;
   }
 
-  private extractTitle(text: string): string {
-    // Try to extract title from common patterns
-    const titlePatterns = [
-      /^(create|add|make|schedule|set up|remind me)\s+(?:a|an|the)?\s+(.+?)(?:\s+(?:by|due|on|at|for|with|to)|$)/i,
-      /^(?:task|reminder|event|meeting|appointment):\s*(.+)/i,
-      /^(.+?)(?:\s+(?:by|due|on|at|for|with|to)|$)/i,
-    ];
-
-    for (const pattern of titlePatterns) {
-      const match = text.match(pattern);
-      if (match && match[1]) {
-        return match[1].trim();
-      }
-    }
-
-    // Fallback: use first sentence or first 50 characters
-    const firstSentence = text.split(/[.!?]/)[0] || text;
-    return firstSentence.substring(0, 50).trim();
-  }
-
-  private extractDescription(text: string, title: string): string | undefined {
-    // Remove title from text
-    const textWithoutTitle = text
-      .replace(new RegExp(escapeRegExp(title), "i"), "")
-      .trim();
-
-    // If there's remaining text after removing title, use it as description
-    if (textWithoutTitle && textWithoutTitle.length > 0) {
-      return textWithoutTitle.trim();
-    }
-
-    return undefined;
-  }
-
-  private calculateConfidence(
-    parsedData: Omit<ParsedTaskData, "rawText" | "confidence">,
-  ): number {
+  private calculateConfidence(parsedData: ParsedTaskData): number {
     let confidence = 50; // Base confidence
 
     // Increase confidence for each successfully parsed field
@@ -134,14 +117,12 @@ export class NlpService {
     if (parsedData.priority) confidence += 10;
     if (parsedData.labels && parsedData.labels.length > 0) confidence += 5;
     if (parsedData.project) confidence += 5;
+    if (parsedData.recurrence) confidence += 5;
+    if (parsedData.duration) confidence += 5;
 
     // Cap at 100%
     return Math.min(100, confidence);
   }
 }
 
-function escapeRegExp(string: string) {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
-}
-
 export const nlpService = new NlpService();
@@ -127,7 +127,7 @@ export class OfflineDataPersistence {
       await this.syncEngine.addToSyncQueue(
         operation.type,
         "offline_queue",
-        Date.now(),
+        operation.id,
         operation,
       );
 
@@ -198,17 +198,6 @@ export class OfflineDataPersistence {
 
     // Simulate processing delay
     await new Promise((resolve) => setTimeout(resolve, 100));
-
-    // Mark as completed in sync engine
-    await this.syncEngine.addToSyncQueue(
-      "completed",
-      "offline_queue",
-      Date.now(),
-      {
-        ...operation,
-        status: "completed",
-      },
-    );
   }
 
   /**
@@ -246,17 +246,6 @@ export class OfflineSyncService {
           await this.handleSyncOperation(item);
           break;
       }
-
-      // Mark as completed in sync engine
-      await this.syncEngine.addToSyncQueue(
-        "completed",
-        "sync_queue",
-        Date.now(),
-        {
-          ...item,
-          status: "completed",
-        },
-      );
     } catch (error) {
       console.error(`Failed to process queue item ${item.id}:`, error);
       throw error;
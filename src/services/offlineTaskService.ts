@@ -5,10 +5,18 @@ import { Task } from "../types/task";
 import { useOfflineStore } from "../store/useOfflineStore";
 import { taskApi } from "../api/taskApi";
 import { OfflineQueueItem } from "../types/offlineTypes";
+import { conflictResolutionService } from "./conflictResolutionService";
 
 export class OfflineTaskService {
   private static instance: OfflineTaskService;
-  private offlineStore = useOfflineStore.getState();
+
+  /**
+   * Current offline state; a copy taken once would keep reporting the
+   * connection status from when the service was created
+   */
+  private get offlineStore() {
+    return useOfflineStore.getState();
+  }
 
   private constructor() {
     // Private constructor for singleton pattern
@@ -84,6 +92,8 @@ export class OfflineTaskService {
         data: {
           taskId,
           updates: taskData,
+          // Version the edit was made against, used for the three-way merge
+          base: conflictResolutionService.captureBase(taskId),
         },
         priority: "high",
       };
@@ -242,7 +252,7 @@ export class OfflineTaskService {
    * Process update operation
    */
   private async processUpdateOperation(item: OfflineQueueItem): Promise<void> {
-    const { taskId, updates } = item.data;
+    const { taskId, updates, base } = item.data;
 
     if (updates.operation === "toggleCompletion") {
       const result = await taskApi.completeTask(taskId);
@@ -250,7 +260,24 @@ export class OfflineTaskService {
         throw new Error(result.message || "Failed to toggle task completion");
       }
     } else {
-      const result = await taskApi.updateTask(taskId, updates);
+      let changes = updates;
+
+      if (base) {
+        const remote = await taskApi.getTask(taskId);
+        if (remote.success && remote.data) {
+          changes = conflictResolutionService.reconcileTaskUpdate(
+            item,
+            remote.data,
+          );
+
+          // True conflicts wait in the inbox until the user picks per field
+          if (!changes) {
+            return;
+          }
+        }
+      }
+
+      const result = await taskApi.updateTask(taskId, changes);
       if (!result.success) {
         throw new Error(result.message || "Failed to update task");
       }
@@ -0,0 +1,48 @@
+import { projectApi } from "../api/projectApi";
+import { ApiResponse } from "../types/api";
+import { HistorySyncChange } from "../types/history";
+import { Project } from "../types/project";
+
+/**
+ * Project Service - Sends project changes made in the store to the server
+ */
+export class ProjectService {
+  private static instance: ProjectService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get singleton instance of ProjectService
+   */
+  public static getInstance(): ProjectService {
+    if (!ProjectService.instance) {
+      ProjectService.instance = new ProjectService();
+    }
+    return ProjectService.instance;
+  }
+
+  /**
+   * Send the projects an undo or redo restored. Projects it brought back
+   * are created again and ones it removed are deleted.
+   */
+  async syncHistoryChanges(changes: HistorySyncChange[]): Promise<void> {
+    await Promise.all(
+      changes.map(async ({ id, from, to }) => {
+        const response: ApiResponse<unknown> = !to
+          ? await projectApi.deleteProject(id)
+          : !from
+            ? await projectApi.createProject(to as Project)
+            : await projectApi.updateProject(id, to as Project);
+
+        if (!response.success) {
+          throw new Error(response.error?.message || "Failed to sync project");
+        }
+      }),
+    );
+  }
+}
+
+// Singleton instance
+export const projectService = ProjectService.getInstance();
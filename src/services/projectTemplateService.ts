@@ -0,0 +1,150 @@
+import { projectApi } from "../api/projectApi";
+import { taskService } from "./taskService";
+import { templateService } from "./templateService";
+import {
+  ProjectTemplateCaptureOptions,
+  captureProjectTemplate,
+  formatProjectTemplateOutline,
+  instantiateProjectTemplate,
+} from "../utils/projectTemplateUtils";
+import { Project, Section } from "../types/project";
+import { Task } from "../types/task";
+import {
+  CreateTemplateDto,
+  ProjectTemplateInstantiateOptions,
+  Template,
+} from "../types/template";
+
+/**
+ * Project Template Service - Saves projects as templates and creates new
+ * projects from them
+ */
+export class ProjectTemplateService {
+  private static instance: ProjectTemplateService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get singleton instance of ProjectTemplateService
+   */
+  public static getInstance(): ProjectTemplateService {
+    if (!ProjectTemplateService.instance) {
+      ProjectTemplateService.instance = new ProjectTemplateService();
+    }
+    return ProjectTemplateService.instance;
+  }
+
+  /**
+   * Save a project with its sections and task hierarchy as a template
+   */
+  async saveProjectAsTemplate(
+    projectId: string,
+    templateData: Partial<
+      Pick<
+        CreateTemplateDto,
+        "name" | "description" | "categoryId" | "tags" | "isPublic"
+      >
+    > &
+      ProjectTemplateCaptureOptions = {},
+  ): Promise<Template> {
+    const { startDate, roles, ...details } = templateData;
+
+    const projectResponse = await projectApi.getProject(projectId);
+    if (!projectResponse.success || !projectResponse.data) {
+      throw new Error(projectResponse.error?.message || "Project not found");
+    }
+    const sectionsResponse = await projectApi.getSections(projectId);
+    if (!sectionsResponse.success || !sectionsResponse.data) {
+      throw new Error(
+        sectionsResponse.error?.message || "Failed to fetch sections",
+      );
+    }
+    const tasks = await taskService.getTasks(projectId);
+
+    const project = projectResponse.data;
+    const structure = captureProjectTemplate(
+      project,
+      sectionsResponse.data,
+      tasks,
+      { startDate, roles },
+    );
+
+    return templateService.createTemplate({
+      name: `${project.name} template`,
+      description: project.description,
+      ...details,
+      content: formatProjectTemplateOutline(structure),
+      project: structure,
+      tags: details.tags || ["project"],
+      metadata: { source: "project" },
+    });
+  }
+
+  /**
+   * Create a project from a template with new IDs and due dates counted
+   * from the chosen start date. The project is removed again if its
+   * sections or tasks cannot be created.
+   */
+  async createProjectFromTemplate(
+    template: Template,
+    options: ProjectTemplateInstantiateOptions,
+  ): Promise<{ project: Project; sections: Section[]; tasks: Task[] }> {
+    const structure = template.project;
+    if (!structure) {
+      throw new Error("Template does not describe a project");
+    }
+
+    const now = new Date();
+    const projectResponse = await projectApi.createProject({
+      ...structure.project,
+      name: options.name?.trim() || structure.project.name,
+      favorite: false,
+      shared: false,
+      createdAt: now,
+      updatedAt: now,
+      metadata: { source: "template" },
+    });
+    if (!projectResponse.success || !projectResponse.data) {
+      throw new Error(
+        projectResponse.error?.message || "Failed to create project",
+      );
+    }
+
+    const project = projectResponse.data;
+    const { sections, tasks } = instantiateProjectTemplate(
+      structure,
+      project.id,
+      options,
+    );
+
+    try {
+      let createdSections: Section[] = [];
+      if (sections.length > 0) {
+        const sectionsResponse = await projectApi.createSections(
+          project.id,
+          sections,
+        );
+        if (!sectionsResponse.success || !sectionsResponse.data) {
+          throw new Error(
+            sectionsResponse.error?.message || "Failed to create sections",
+          );
+        }
+        createdSections = sectionsResponse.data;
+      }
+
+      const createdTasks =
+        tasks.length > 0 ? await taskService.createTasks(tasks) : [];
+
+      return { project, sections: createdSections, tasks: createdTasks };
+    } catch (error) {
+      console.error("Error creating project from template:", error);
+      await projectApi.deleteProject(project.id);
+      throw error;
+    }
+  }
+}
+
+// Singleton instance
+export const projectTemplateService = ProjectTemplateService.getInstance();
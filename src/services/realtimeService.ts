@@ -0,0 +1,624 @@
+import { WebSocketTransport } from "../api/websocketTransport";
+import { getRetryDelay } from "../database/sync";
+import { useAuthStore } from "../store/useAuthStore";
+import { useOfflineStore } from "../store/useOfflineStore";
+import { useRealtimeStore } from "../store/useRealtimeStore";
+import {
+  CollaborationEvent,
+  CollaborationEventType,
+  CommentNotificationPayload,
+  PresencePayload,
+  PresenceView,
+  RealtimeEntityChange,
+  RealtimeEntityType,
+  TypingPayload,
+} from "../types/collaboration";
+import { HistoryEntity } from "../types/history";
+import { RealtimeStoreConfig, RealtimeTransport } from "../types/realtime";
+import { diffEntities } from "../utils/historyUtils";
+import {
+  REALTIME_PROTOCOL_VERSION,
+  decodeEvent,
+  encodeEvent,
+  RealtimeChangeAction,
+  generateEventId,
+  getEntityEventType,
+  getPendingChanges,
+  parseEntityEventType,
+  prunePresence,
+  reconcileRemoteEntity,
+} from "../utils/realtimeUtils";
+
+/**
+ * Called with every record change received from another client
+ */
+export type RemoteChangeListener = (
+  event: CollaborationEvent<RealtimeEntityChange>,
+) => void;
+
+/**
+ * Called with every comment notification addressed to the current user
+ */
+export type CommentNotificationListener = (
+  notification: CommentNotificationPayload,
+) => void;
+
+/**
+ * Realtime Service - Broadcasts task, comment and project changes to other
+ * clients, applies theirs, shares presence and typing indicators, and
+ * delivers comment notifications
+ */
+export class RealtimeService {
+  private static instance: RealtimeService;
+  private stores = new Map<RealtimeEntityType, RealtimeStoreConfig>();
+  private listeners = new Set<RemoteChangeListener>();
+  private notificationListeners = new Set<CommentNotificationListener>();
+  private transport: RealtimeTransport | null = null;
+  private readonly clientId = generateEventId().replace("event", "client");
+
+  /**
+   * Depth of shared actions running; nested actions are part of the
+   * outermost one
+   */
+  private depth = 0;
+
+  /**
+   * Record changes made while disconnected, sent on reconnect
+   */
+  private outbox: CollaborationEvent[] = [];
+  private seenEventIds: string[] = [];
+
+  /**
+   * Incremented per connection attempt so callbacks of an old connection
+   * are ignored
+   */
+  private connection = 0;
+  private shouldConnect = false;
+  private reconnectAttempts = 0;
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+
+  private view: PresenceView | null = null;
+  private typing: { taskId: string; sentAt: number } | null = null;
+  private typingTimer: ReturnType<typeof setTimeout> | null = null;
+
+  static readonly PRESENCE_INTERVAL = 15000;
+  static readonly PRESENCE_TIMEOUT = 45000;
+  static readonly TYPING_TIMEOUT = 5000;
+  static readonly TYPING_IDLE = 3000;
+  static readonly OUTBOX_LIMIT = 500;
+  static readonly SEEN_EVENTS_LIMIT = 1000;
+
+  /**
+   * Close code the server uses for an unsupported protocol version
+   */
+  static readonly INCOMPATIBLE_CLOSE_CODE = 4000;
+
+  private constructor() {
+    useOfflineStore.subscribe((state, previous) => {
+      if (state.status.isOffline && !previous.status.isOffline) {
+        this.transport?.close();
+      } else if (!state.status.isOffline && previous.status.isOffline) {
+        this.reconnectNow();
+      }
+    });
+  }
+
+  public static getInstance(): RealtimeService {
+    if (!RealtimeService.instance) {
+      RealtimeService.instance = new RealtimeService();
+    }
+    return RealtimeService.instance;
+  }
+
+  getClientId(): string {
+    return this.clientId;
+  }
+
+  /**
+   * Broadcast the changes the given actions of a store make, and apply
+   * changes others make to its records. The actions are replaced in the
+   * store, like history tracking does.
+   */
+  shareStore(config: RealtimeStoreConfig): void {
+    this.stores.set(config.entityType, config);
+
+    const state = config.store.getState();
+    const wrapped: Record<string, unknown> = {};
+    config.actions.forEach((name) => {
+      const action = state[name];
+      if (typeof action !== "function") return;
+
+      wrapped[name] = (...args: unknown[]) =>
+        this.broadcast(() => action(...args));
+    });
+    config.store.setState(wrapped);
+  }
+
+  /**
+   * Run `fn` and broadcast what it changes in the shared stores, for
+   * changes made without store actions such as undo
+   */
+  broadcast<R>(fn: () => R): R {
+    if (this.depth > 0) return fn();
+
+    const snapshot = this.snapshot();
+    this.depth++;
+    try {
+      return fn();
+    } finally {
+      this.depth--;
+      this.broadcastChanges(snapshot);
+    }
+  }
+
+  /**
+   * Broadcast a change to a record kept outside the shared stores, e.g. a
+   * comment saved through the API
+   */
+  publish<T extends HistoryEntity>(
+    entityType: RealtimeEntityType,
+    action: RealtimeChangeAction,
+    entity: T,
+  ): void {
+    this.send(
+      this.createEvent<RealtimeEntityChange>(
+        getEntityEventType(entityType, action),
+        action === "deleted" ? { id: entity.id } : { id: entity.id, entity },
+      ),
+    );
+  }
+
+  /**
+   * Listen for record changes from other clients. Returns an unsubscribe
+   * function.
+   */
+  subscribe(listener: RemoteChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Send a comment notification to its recipient's clients, once
+   * connected
+   */
+  sendCommentNotification(notification: CommentNotificationPayload): void {
+    this.send(
+      this.createEvent<CommentNotificationPayload>(
+        "comment_notification",
+        notification,
+      ),
+    );
+  }
+
+  /**
+   * Listen for comment notifications sent to the current user. Returns an
+   * unsubscribe function.
+   */
+  onCommentNotification(listener: CommentNotificationListener): () => void {
+    this.notificationListeners.add(listener);
+    return () => {
+      this.notificationListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Connect and stay connected, reconnecting with backoff, until
+   * `disconnect()`
+   */
+  connect(transport: RealtimeTransport = new WebSocketTransport()): void {
+    if (this.shouldConnect && this.transport === transport) return;
+
+    this.transport?.close();
+    this.transport = transport;
+    this.shouldConnect = true;
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  disconnect(): void {
+    this.shouldConnect = false;
+    this.clearTimers();
+    if (useRealtimeStore.getState().status === "connected") {
+      this.send(this.createEvent("presence_left", {}));
+    }
+    this.transport?.close();
+    this.transport = null;
+    this.connection++;
+    this.reset("disconnected");
+  }
+
+  /**
+   * Announce what the current user is looking at; null when they leave it
+   */
+  setView(view: PresenceView | null): void {
+    this.view = view;
+    this.sendPresence();
+  }
+
+  /**
+   * Tell others the current user is typing a comment on a task. Call on
+   * every keystroke; the indicator stops after a pause.
+   */
+  notifyTyping(taskId: string): void {
+    const now = Date.now();
+    if (this.typing?.taskId !== taskId) {
+      this.stopTyping();
+    }
+    if (
+      !this.typing ||
+      now - this.typing.sentAt > RealtimeService.TYPING_TIMEOUT / 2
+    ) {
+      this.send(
+        this.createEvent<TypingPayload>("typing_started", {
+          userName: this.getUserName(),
+          taskId,
+        }),
+      );
+      this.typing = { taskId, sentAt: now };
+    }
+
+    if (this.typingTimer) clearTimeout(this.typingTimer);
+    this.typingTimer = setTimeout(
+      () => this.stopTyping(),
+      RealtimeService.TYPING_IDLE,
+    );
+  }
+
+  stopTyping(): void {
+    if (this.typingTimer) {
+      clearTimeout(this.typingTimer);
+      this.typingTimer = null;
+    }
+    if (!this.typing) return;
+
+    this.send(
+      this.createEvent<TypingPayload>("typing_stopped", {
+        userName: this.getUserName(),
+        taskId: this.typing.taskId,
+      }),
+    );
+    this.typing = null;
+  }
+
+  private getUserId(): string {
+    return localStorage.getItem("userId") || "anonymous";
+  }
+
+  private getUserName(): string {
+    return useAuthStore.getState().user?.name || this.getUserId();
+  }
+
+  private createEvent<T>(
+    type: CollaborationEventType,
+    data: T,
+  ): CollaborationEvent<T> {
+    return {
+      version: REALTIME_PROTOCOL_VERSION,
+      id: generateEventId(),
+      type,
+      timestamp: new Date(),
+      data,
+      userId: this.getUserId(),
+      clientId: this.clientId,
+    };
+  }
+
+  private open(): void {
+    const transport = this.transport;
+    if (!transport || useOfflineStore.getState().status.isOffline) return;
+
+    const connection = ++this.connection;
+    useRealtimeStore.setState({ status: "connecting" });
+
+    transport.connect({
+      onOpen: () => {
+        if (connection === this.connection) this.handleOpen();
+      },
+      onMessage: (message) => {
+        if (connection === this.connection) this.handleMessage(message);
+      },
+      onClose: (code) => {
+        if (connection === this.connection) this.handleClose(code);
+      },
+    });
+  }
+
+  private handleOpen(): void {
+    this.reconnectAttempts = 0;
+    useRealtimeStore.setState({ status: "connected" });
+
+    this.sendPresence();
+    const outbox = this.outbox;
+    this.outbox = [];
+    outbox.forEach((event) => this.send(event));
+
+    this.heartbeatTimer = setInterval(() => {
+      this.sendPresence();
+      this.pruneExpired();
+    }, RealtimeService.PRESENCE_INTERVAL);
+  }
+
+  private handleClose(code: number): void {
+    this.clearTimers();
+
+    if (code === RealtimeService.INCOMPATIBLE_CLOSE_CODE) {
+      console.error("Realtime server does not support this client version");
+      this.shouldConnect = false;
+      this.reset("incompatible");
+      return;
+    }
+
+    this.reset("disconnected");
+    if (!this.shouldConnect || useOfflineStore.getState().status.isOffline) {
+      return;
+    }
+
+    this.reconnectAttempts++;
+    this.reconnectTimer = setTimeout(
+      () => this.open(),
+      getRetryDelay(this.reconnectAttempts),
+    );
+  }
+
+  private reconnectNow(): void {
+    if (
+      !this.shouldConnect ||
+      useRealtimeStore.getState().status !== "disconnected"
+    ) {
+      return;
+    }
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.reconnectAttempts = 0;
+    this.open();
+  }
+
+  private clearTimers(): void {
+    [this.reconnectTimer, this.typingTimer].forEach(
+      (timer) => timer && clearTimeout(timer),
+    );
+    if (this.heartbeatTimer) clearInterval(this.heartbeatTimer);
+    this.reconnectTimer = null;
+    this.typingTimer = null;
+    this.heartbeatTimer = null;
+    this.typing = null;
+  }
+
+  /**
+   * Forget others' presence, which is stale once disconnected
+   */
+  private reset(status: "disconnected" | "incompatible"): void {
+    useRealtimeStore.setState({ status, presence: [], typing: [] });
+  }
+
+  /**
+   * Send an event now, or for record changes and notifications, once
+   * connected
+   */
+  private send(event: CollaborationEvent): void {
+    if (useRealtimeStore.getState().status === "connected" && this.transport) {
+      this.transport.send(encodeEvent(event));
+    } else if (
+      parseEntityEventType(event.type) ||
+      event.type === "comment_notification"
+    ) {
+      this.outbox = [...this.outbox, event].slice(
+        -RealtimeService.OUTBOX_LIMIT,
+      );
+    }
+  }
+
+  private sendPresence(): void {
+    this.send(
+      this.createEvent<PresencePayload>("presence_updated", {
+        userName: this.getUserName(),
+        view: this.view ?? {},
+      }),
+    );
+  }
+
+  private snapshot(): Map<RealtimeEntityType, HistoryEntity[]> {
+    return new Map(
+      Array.from(this.stores.values()).map(
+        ({ entityType, store, entityKey }) => [
+          entityType,
+          store.getState()[entityKey] || [],
+        ],
+      ),
+    );
+  }
+
+  private broadcastChanges(
+    snapshot: Map<RealtimeEntityType, HistoryEntity[]>,
+  ): void {
+    this.stores.forEach(({ entityType, store, entityKey }) => {
+      const { changes } = diffEntities(
+        snapshot.get(entityType) || [],
+        store.getState()[entityKey] || [],
+      );
+
+      changes.forEach(({ id, before, after }) => {
+        const action = !before ? "created" : !after ? "deleted" : "updated";
+        this.send(
+          this.createEvent<RealtimeEntityChange>(
+            getEntityEventType(entityType, action),
+            after ? { id, entity: after } : { id },
+          ),
+        );
+      });
+    });
+  }
+
+  private handleMessage(message: string): void {
+    const event = decodeEvent(message);
+    if (!event) {
+      console.warn("Ignoring unreadable realtime message");
+      return;
+    }
+    if (event.clientId === this.clientId || this.hasSeen(event.id)) return;
+
+    switch (event.type) {
+      case "presence_updated":
+        this.handlePresence(event as CollaborationEvent<PresencePayload>);
+        break;
+      case "presence_left":
+        useRealtimeStore.setState((state) => ({
+          presence: state.presence.filter(
+            ({ clientId }) => clientId !== event.clientId,
+          ),
+          typing: state.typing.filter(
+            ({ clientId }) => clientId !== event.clientId,
+          ),
+        }));
+        break;
+      case "typing_started":
+      case "typing_stopped":
+        this.handleTyping(event as CollaborationEvent<TypingPayload>);
+        break;
+      case "comment_notification":
+        this.handleCommentNotification(
+          event as CollaborationEvent<CommentNotificationPayload>,
+        );
+        break;
+      default:
+        this.applyRemoteChange(event);
+    }
+  }
+
+  private hasSeen(eventId: string): boolean {
+    if (this.seenEventIds.includes(eventId)) return true;
+
+    this.seenEventIds = [...this.seenEventIds, eventId].slice(
+      -RealtimeService.SEEN_EVENTS_LIMIT,
+    );
+    return false;
+  }
+
+  private handlePresence({
+    clientId,
+    userId,
+    data,
+  }: CollaborationEvent<PresencePayload>): void {
+    if (!clientId) return;
+
+    const { presence } = useRealtimeStore.getState();
+    const known = presence.some((entry) => entry.clientId === clientId);
+    useRealtimeStore.setState({
+      presence: [
+        ...presence.filter((entry) => entry.clientId !== clientId),
+        {
+          clientId,
+          userId: userId || "anonymous",
+          userName: data.userName,
+          view: data.view || {},
+          lastSeen: new Date(),
+        },
+      ],
+    });
+
+    // Introduce ourselves to clients that just connected
+    if (!known) this.sendPresence();
+  }
+
+  private handleTyping({
+    type,
+    clientId,
+    userId,
+    data,
+  }: CollaborationEvent<TypingPayload>): void {
+    if (!clientId) return;
+
+    useRealtimeStore.setState((state) => {
+      const typing = state.typing.filter(
+        (entry) => entry.clientId !== clientId || entry.taskId !== data.taskId,
+      );
+      if (type === "typing_started") {
+        typing.push({
+          clientId,
+          userId: userId || "anonymous",
+          userName: data.userName,
+          taskId: data.taskId,
+          expiresAt: new Date(Date.now() + RealtimeService.TYPING_TIMEOUT),
+        });
+      }
+      return { typing };
+    });
+
+    // Clear the indicator if the stop message never arrives
+    if (type === "typing_started") {
+      setTimeout(() => this.pruneExpired(), RealtimeService.TYPING_TIMEOUT);
+    }
+  }
+
+  private handleCommentNotification({
+    data,
+  }: CollaborationEvent<CommentNotificationPayload>): void {
+    if (data.userId !== this.getUserId()) return;
+
+    this.notificationListeners.forEach((listener) => listener(data));
+  }
+
+  private pruneExpired(): void {
+    const now = new Date();
+    useRealtimeStore.setState((state) => ({
+      presence: prunePresence(
+        state.presence,
+        now,
+        RealtimeService.PRESENCE_TIMEOUT,
+      ),
+      typing: state.typing.filter(
+        ({ expiresAt }) => expiresAt.getTime() > now.getTime(),
+      ),
+    }));
+  }
+
+  private applyRemoteChange(event: CollaborationEvent): void {
+    const parsed = parseEntityEventType(event.type);
+    if (!parsed) return;
+
+    const config = this.stores.get(parsed.entityType);
+    if (config) this.applyToStore(config, parsed.action, event.data);
+    this.listeners.forEach((listener) => listener(event));
+  }
+
+  /**
+   * Apply another client's change to a shared store. Records with offline
+   * changes still queued are reconciled rather than overwritten, and a
+   * deletion drops queued changes that could no longer be synced.
+   */
+  private applyToStore(
+    config: RealtimeStoreConfig,
+    action: RealtimeChangeAction,
+    { id, entity }: RealtimeEntityChange<HistoryEntity>,
+  ): void {
+    const entities: HistoryEntity[] =
+      config.store.getState()[config.entityKey] || [];
+    const local = entities.find((item) => item.id === id);
+    const offlineStore = useOfflineStore.getState();
+    const pending = getPendingChanges(offlineStore.queue.items, id);
+
+    let next: HistoryEntity[];
+    if (action === "deleted") {
+      if (!local) return;
+      pending.forEach((item) => offlineStore.removeQueueItem(item.id));
+      next = entities.filter((item) => item.id !== id);
+    } else {
+      if (!entity) return;
+      const reconciled = reconcileRemoteEntity(local, entity, pending);
+      if (!reconciled) return;
+      next = local
+        ? entities.map((item) => (item.id === id ? reconciled : item))
+        : [...entities, reconciled];
+    }
+
+    config.store.setState({ [config.entityKey]: next });
+    config.onApply?.();
+  }
+}
+
+export const realtimeService = RealtimeService.getInstance();
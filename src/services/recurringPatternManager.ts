@@ -3,23 +3,19 @@
  * Recurring Pattern Manager Service
  * Advanced pattern management with validation, generation, and optimization
  */
-import { RecurringPatternConfig, RecurringInstance } from "../types/task";
+import {
+  RecurringPatternConfig,
+  RecurringInstance,
+  RecurringSeriesConfig,
+} from "../types/task";
 import {
   RecurringPattern,
   TaskRepeatFrequency,
   TaskRepeatEnd,
 } from "../types/enums";
-import {
-  addDays,
-  addWeeks,
-  addMonths,
-  addYears,
-  isBefore,
-  isAfter,
-  getDay,
-  setDay,
-  format,
-} from "date-fns";
+import { addMilliseconds, isBefore, format } from "date-fns";
+import { getNextOccurrence } from "../utils/rruleUtils";
+import { recurringPatternService } from "./recurringPatternService";
 
 /**
  * Advanced Recurring Pattern Manager
@@ -42,300 +38,20 @@ export class RecurringPatternManager {
   }
 
   /**
-   * Generate recurring dates with advanced pattern handling
+   * Generate recurring dates with advanced pattern handling. Dates come
+   * from the series' full recurrence set: RRULE, exceptions, extra dates
+   * and timezone.
    */
   generateRecurringDatesAdvanced(
     startDate: Date,
-    config: RecurringPatternConfig,
+    config: RecurringSeriesConfig,
     maxInstances: number = 50,
   ): RecurringInstance[] {
-    const instances: RecurringInstance[] = [];
-    let currentDate = new Date(startDate);
-    let occurrenceNumber = 1;
-
-    // Add the original instance
-    instances.push({
-      id: "original",
-      date: new Date(currentDate),
-      isGenerated: false,
-      originalDate: new Date(currentDate),
-      occurrenceNumber: 0,
-    });
-
-    while (instances.length <= maxInstances) {
-      const nextDate = this.getNextDateAdvanced(currentDate, config);
-
-      // Check end conditions
-      if (
-        this.shouldStopGeneratingAdvanced(nextDate, config, instances.length)
-      ) {
-        break;
-      }
-
-      instances.push({
-        id: `instance-${occurrenceNumber}`,
-        date: nextDate,
-        isGenerated: true,
-        originalDate: new Date(startDate),
-        occurrenceNumber,
-      });
-
-      currentDate = nextDate;
-      occurrenceNumber++;
-    }
-
-    return instances;
-  }
-
-  /**
-   * Get next date with advanced pattern handling
-   */
-  private getNextDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    switch (config.pattern) {
-      case "daily":
-        return this.getNextDailyDateAdvanced(currentDate, config);
-      case "weekly":
-        return this.getNextWeeklyDateAdvanced(currentDate, config);
-      case "monthly":
-        return this.getNextMonthlyDateAdvanced(currentDate, config);
-      case "yearly":
-        return this.getNextYearlyDateAdvanced(currentDate, config);
-      case "custom":
-        return this.getNextCustomDateAdvanced(currentDate, config);
-      default:
-        return addWeeks(currentDate, config.interval || 1);
-    }
-  }
-
-  /**
-   * Advanced daily date calculation
-   */
-  private getNextDailyDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const interval = config.interval || 1;
-
-    // Handle weekdays-only pattern
-    if (config.frequency === "weekdays") {
-      let nextDate = addDays(currentDate, 1);
-      while (getDay(nextDate) === 0 || getDay(nextDate) === 6) {
-        nextDate = addDays(nextDate, 1);
-      }
-      return nextDate;
-    }
-
-    return addDays(currentDate, interval);
-  }
-
-  /**
-   * Advanced weekly date calculation with custom day handling
-   */
-  private getNextWeeklyDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    if (config.customDays && config.customDays.length > 0) {
-      // Custom weekly pattern (specific days of week)
-      const currentDay = getDay(currentDate);
-      let daysToAdd = 0;
-
-      // Find the next day in customDays that comes after current day
-      const sortedDays = [...config.customDays].sort((a, b) => a - b);
-      const nextDayIndex = sortedDays.findIndex((day) => day > currentDay);
-
-      if (nextDayIndex >= 0) {
-        daysToAdd = sortedDays[nextDayIndex] - currentDay;
-      } else {
-        // Wrap around to next week
-        daysToAdd = 7 - currentDay + sortedDays[0];
-      }
-
-      return addDays(currentDate, daysToAdd);
-    }
-
-    // Handle bi-weekly pattern
-    if (config.frequency === "biweekly") {
-      return addWeeks(currentDate, 2);
-    }
-
-    return addWeeks(currentDate, config.interval || 1);
-  }
-
-  /**
-   * Advanced monthly date calculation with complex patterns
-   */
-  private getNextMonthlyDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    if (config.customMonthDays && config.customMonthDays.length > 0) {
-      // Custom monthly pattern (specific days of month)
-      const currentDay = currentDate.getDate();
-      let monthsToAdd = 0;
-
-      // Find the next day in customMonthDays that comes after current day
-      const sortedDays = [...config.customMonthDays].sort((a, b) => a - b);
-      const nextDayIndex = sortedDays.findIndex((day) => day > currentDay);
-
-      if (nextDayIndex >= 0) {
-        // Next occurrence is in the same month
-        const nextDate = new Date(currentDate);
-        nextDate.setDate(sortedDays[nextDayIndex]);
-        return nextDate;
-      } else {
-        // Need to go to next month
-        monthsToAdd = 1;
-        const nextDate = addMonths(currentDate, monthsToAdd);
-        nextDate.setDate(sortedDays[0]);
-        return nextDate;
-      }
-    }
-
-    if (config.customMonthPosition && config.customMonthDay) {
-      // Pattern like "first Monday of the month"
-      return this.getNextPositionalMonthlyDateAdvanced(currentDate, config);
-    }
-
-    // Handle quarterly pattern
-    if (config.frequency === "quarterly") {
-      return addMonths(currentDate, 3);
-    }
-
-    return addMonths(currentDate, config.interval || 1);
-  }
-
-  /**
-   * Advanced positional monthly date calculation
-   */
-  private getNextPositionalMonthlyDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const targetDay = this.getDayNumber(config.customMonthDay!);
-    const currentMonth = currentDate.getMonth();
-    const currentYear = currentDate.getFullYear();
-
-    // Find the target day in the current month
-    let targetDate = new Date(currentYear, currentMonth, 1);
-
-    // Find the first occurrence of the target day
-    while (getDay(targetDate) !== targetDay) {
-      targetDate = addDays(targetDate, 1);
-    }
-
-    // Adjust for position (first, second, third, fourth, last)
-    let weekOffset = 0;
-    switch (config.customMonthPosition) {
-      case "second":
-        weekOffset = 1;
-        break;
-      case "third":
-        weekOffset = 2;
-        break;
-      case "fourth":
-        weekOffset = 3;
-        break;
-      case "last":
-        // For "last", find the last occurrence in the month
-        const lastDayOfMonth = new Date(currentYear, currentMonth + 1, 0);
-        targetDate = lastDayOfMonth;
-        while (
-          getDay(targetDate) !== targetDay &&
-          targetDate > lastDayOfMonth
-        ) {
-          targetDate = addDays(targetDate, -1);
-        }
-        return targetDate;
-      default: // 'first'
-        weekOffset = 0;
-    }
-
-    targetDate = addDays(targetDate, weekOffset * 7);
-
-    // If the calculated date is before or equal to current date, move to next month
-    if (
-      isBefore(targetDate, currentDate) ||
-      targetDate.getTime() === currentDate.getTime()
-    ) {
-      return addMonths(targetDate, 1);
-    }
-
-    return targetDate;
-  }
-
-  /**
-   * Advanced yearly date calculation
-   */
-  private getNextYearlyDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    return addYears(currentDate, config.interval || 1);
-  }
-
-  /**
-   * Advanced custom date calculation
-   */
-  private getNextCustomDateAdvanced(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    if (!config.frequency) {
-      return addWeeks(currentDate, config.interval || 1);
-    }
-
-    switch (config.frequency) {
-      case "daily":
-        return this.getNextDailyDateAdvanced(currentDate, config);
-      case "weekdays":
-        return this.getNextDailyDateAdvanced(currentDate, {
-          ...config,
-          frequency: "weekdays",
-        });
-      case "weekly":
-        return this.getNextWeeklyDateAdvanced(currentDate, config);
-      case "biweekly":
-        return addWeeks(currentDate, 2);
-      case "monthly":
-        return this.getNextMonthlyDateAdvanced(currentDate, config);
-      case "quarterly":
-        return addMonths(currentDate, 3);
-      case "yearly":
-        return this.getNextYearlyDateAdvanced(currentDate, config);
-      default:
-        return addWeeks(currentDate, config.interval || 1);
-    }
-  }
-
-  /**
-   * Advanced stop generation logic
-   */
-  private shouldStopGeneratingAdvanced(
-    nextDate: Date,
-    config: RecurringPatternConfig,
-    currentCount: number,
-  ): boolean {
-    // Check max occurrences
-    if (config.maxOccurrences && currentCount >= config.maxOccurrences) {
-      return true;
-    }
-
-    // Check end date
-    if (config.endDate && isAfter(nextDate, new Date(config.endDate))) {
-      return true;
-    }
-
-    // Check if date is too far in the future (safety limit)
-    const futureLimit = addYears(new Date(), 10); // 10 years limit
-    if (isAfter(nextDate, futureLimit)) {
-      return true;
-    }
-
-    return false;
+    return recurringPatternService.generateRecurringDates(
+      startDate,
+      config,
+      maxInstances,
+    );
   }
 
   /**
@@ -450,22 +166,6 @@ export class RecurringPatternManager {
     };
   }
 
-  /**
-   * Convert day name to day number
-   */
-  private getDayNumber(dayName: string): number {
-    const days: Record<string, number> = {
-      sunday: 0,
-      monday: 1,
-      tuesday: 2,
-      wednesday: 3,
-      thursday: 4,
-      friday: 5,
-      saturday: 6,
-    };
-    return days[dayName.toLowerCase()] || 0;
-  }
-
   /**
    * Get day name from day number
    */
@@ -587,13 +287,15 @@ export class RecurringPatternManager {
   }
 
   /**
-   * Calculate next occurrence date from current date
+   * Calculate the occurrence after `currentDate` of the series starting at
+   * `startDate`, or null once the series has ended
    */
   calculateNextOccurrence(
     currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    return this.getNextDateAdvanced(currentDate, config);
+    config: RecurringSeriesConfig,
+    startDate: Date = currentDate,
+  ): Date | null {
+    return getNextOccurrence(config, startDate, currentDate);
   }
 
   /**
@@ -601,23 +303,13 @@ export class RecurringPatternManager {
    */
   calculateFutureOccurrences(
     startDate: Date,
-    config: RecurringPatternConfig,
+    config: RecurringSeriesConfig,
     limit: number = 10,
   ): Date[] {
-    const occurrences: Date[] = [];
-    let currentDate = new Date(startDate);
-
-    for (let i = 0; i < limit; i++) {
-      currentDate = this.calculateNextOccurrence(currentDate, config);
-      occurrences.push(new Date(currentDate));
-
-      // Stop if we hit end conditions
-      if (this.shouldStopGeneratingAdvanced(currentDate, config, i + 1)) {
-        break;
-      }
-    }
-
-    return occurrences;
+    return recurringPatternService.getOccurrences(startDate, config, {
+      after: addMilliseconds(startDate, 1),
+      limit,
+    });
   }
 
   /**
@@ -4,19 +4,13 @@ import {
   TaskRepeatFrequency,
   TaskRepeatEnd,
 } from "../types/enums";
+import { addYears, isBefore, format } from "date-fns";
 import {
-  addDays,
-  addWeeks,
-  addMonths,
-  addYears,
-  isBefore,
-  isAfter,
-  isEqual,
-  parseISO,
-  format,
-  getDay,
-  setDay,
-} from "date-fns";
+  describeRRule,
+  expandRecurrenceSet,
+  parseRRule,
+  recurringConfigToRecurrenceSet,
+} from "../utils/rruleUtils";
 
 /**
  * Interface for recurring pattern configuration
@@ -39,6 +33,11 @@ interface RecurringPatternConfig {
     | "friday"
     | "saturday"
     | "sunday";
+  rrule?: string; // Full RRULE, takes precedence over the fields above
+  exDates?: Date[];
+  rDates?: Date[];
+  timeZone?: string;
+  repeatFrom?: "due" | "completion"; // Schedule from the due date or from completion
 }
 
 /**
@@ -73,295 +72,45 @@ export class RecurringPatternService {
   }
 
   /**
-   * Generate recurring dates based on pattern configuration
+   * Generate recurring dates based on pattern configuration. The first
+   * instance is the start date itself unless it has been excluded.
    */
   generateRecurringDates(
     startDate: Date,
     config: RecurringPatternConfig,
     maxInstances: number = 20,
   ): RecurringInstance[] {
-    const instances: RecurringInstance[] = [];
-    let currentDate = new Date(startDate);
-    let occurrenceNumber = 1;
-
-    // Add the original instance
-    instances.push({
-      id: "original",
-      date: new Date(currentDate),
-      isGenerated: false,
-      originalDate: new Date(currentDate),
-      occurrenceNumber: 0,
+    const dates = this.getOccurrences(startDate, config, {
+      limit: maxInstances + 1,
+      // Safety limit for rules without an end
+      before: addYears(new Date(), 10),
     });
 
-    while (instances.length <= maxInstances) {
-      const nextDate = this.getNextDate(currentDate, config);
-
-      // Check end conditions
-      if (this.shouldStopGenerating(nextDate, config, instances.length)) {
-        break;
-      }
-
-      instances.push({
-        id: `instance-${occurrenceNumber}`,
-        date: nextDate,
-        isGenerated: true,
+    return dates.map((date, index) => {
+      const isOriginal = date.getTime() === new Date(startDate).getTime();
+      return {
+        id: isOriginal ? "original" : `instance-${index}`,
+        date,
+        isGenerated: !isOriginal,
         originalDate: new Date(startDate),
-        occurrenceNumber,
-      });
-
-      currentDate = nextDate;
-      occurrenceNumber++;
-    }
-
-    return instances;
-  }
-
-  /**
-   * Get the next date based on recurring pattern
-   */
-  private getNextDate(currentDate: Date, config: RecurringPatternConfig): Date {
-    switch (config.pattern) {
-      case "daily":
-        return this.getNextDailyDate(currentDate, config);
-      case "weekly":
-        return this.getNextWeeklyDate(currentDate, config);
-      case "monthly":
-        return this.getNextMonthlyDate(currentDate, config);
-      case "yearly":
-        return this.getNextYearlyDate(currentDate, config);
-      case "custom":
-        return this.getNextCustomDate(currentDate, config);
-      default:
-        return addWeeks(currentDate, config.interval || 1);
-    }
-  }
-
-  /**
-   * Get next date for daily pattern
-   */
-  private getNextDailyDate(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const interval = config.interval || 1;
-    return addDays(currentDate, interval);
-  }
-
-  /**
-   * Get next date for weekly pattern
-   */
-  private getNextWeeklyDate(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const interval = config.interval || 1;
-
-    if (config.customDays && config.customDays.length > 0) {
-      // Custom weekly pattern (specific days of week)
-      const currentDay = getDay(currentDate);
-      let daysToAdd = 0;
-
-      // Find the next day in customDays that comes after current day
-      const sortedDays = [...config.customDays].sort((a, b) => a - b);
-      const nextDayIndex = sortedDays.findIndex((day) => day > currentDay);
-
-      if (nextDayIndex >= 0) {
-        daysToAdd = sortedDays[nextDayIndex] - currentDay;
-      } else {
-        // Wrap around to next week
-        daysToAdd = 7 - currentDay + sortedDays[0];
-      }
-
-      return addDays(currentDate, daysToAdd);
-    } else {
-      // Standard weekly pattern
-      return addWeeks(currentDate, interval);
-    }
-  }
-
-  /**
-   * Get next date for monthly pattern
-   */
-  private getNextMonthlyDate(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const interval = config.interval || 1;
-
-    if (config.customMonthDays && config.customMonthDays.length > 0) {
-      // Custom monthly pattern (specific days of month)
-      const currentDay = currentDate.getDate();
-      let monthsToAdd = 0;
-
-      // Find the next day in customMonthDays that comes after current day
-      const sortedDays = [...config.customMonthDays].sort((a, b) => a - b);
-      const nextDayIndex = sortedDays.findIndex((day) => day > currentDay);
-
-      if (nextDayIndex >= 0) {
-        // Next occurrence is in the same month
-        const nextDate = new Date(currentDate);
-        nextDate.setDate(sortedDays[nextDayIndex]);
-        return nextDate;
-      } else {
-        // Need to go to next month
-        monthsToAdd = 1;
-        const nextDate = addMonths(currentDate, monthsToAdd);
-        nextDate.setDate(sortedDays[0]);
-        return nextDate;
-      }
-    } else if (config.customMonthPosition && config.customMonthDay) {
-      // Pattern like "first Monday of the month"
-      return this.getNextPositionalMonthlyDate(currentDate, config);
-    } else {
-      // Standard monthly pattern
-      return addMonths(currentDate, interval);
-    }
-  }
-
-  /**
-   * Get next date for positional monthly pattern (e.g., "first Monday")
-   */
-  private getNextPositionalMonthlyDate(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const targetDay = this.getDayNumber(config.customMonthDay!);
-    const currentMonth = currentDate.getMonth();
-    const currentYear = currentDate.getFullYear();
-
-    // Find the target day in the current month
-    let targetDate = new Date(currentYear, currentMonth, 1);
-
-    // Find the first occurrence of the target day
-    while (getDay(targetDate) !== targetDay) {
-      targetDate = addDays(targetDate, 1);
-    }
-
-    // Adjust for position (first, second, third, fourth, last)
-    let weekOffset = 0;
-    switch (config.customMonthPosition) {
-      case "second":
-        weekOffset = 1;
-        break;
-      case "third":
-        weekOffset = 2;
-        break;
-      case "fourth":
-        weekOffset = 3;
-        break;
-      case "last":
-        // For "last", find the last occurrence in the month
-        const lastDayOfMonth = new Date(currentYear, currentMonth + 1, 0);
-        targetDate = lastDayOfMonth;
-        while (
-          getDay(targetDate) !== targetDay &&
-          targetDate > lastDayOfMonth
-        ) {
-          targetDate = addDays(targetDate, -1);
-        }
-        return targetDate;
-      default: // 'first'
-        weekOffset = 0;
-    }
-
-    targetDate = addDays(targetDate, weekOffset * 7);
-
-    // If the calculated date is before or equal to current date, move to next month
-    if (isBefore(targetDate, currentDate) || isEqual(targetDate, currentDate)) {
-      return addMonths(targetDate, 1);
-    }
-
-    return targetDate;
-  }
-
-  /**
-   * Get next date for yearly pattern
-   */
-  private getNextYearlyDate(
-    currentDate: Date,
-    config: RecurringPatternConfig,
-  ): Date {
-    const interval = config.interval || 1;
-    return addYears(currentDate, interval);
+        occurrenceNumber: index,
+      };
+    });
   }
 
   /**
-   * Get next date for custom pattern
+   * Occurrence dates of a pattern, with full RRULE semantics, exceptions
+   * and timezone
    */
-  private getNextCustomDate(
-    currentDate: Date,
+  getOccurrences(
+    startDate: Date,
     config: RecurringPatternConfig,
-  ): Date {
-    if (config.frequency) {
-      switch (config.frequency) {
-        case "daily":
-          return addDays(currentDate, config.interval || 1);
-        case "weekdays":
-          // Skip weekends
-          let nextDate = addDays(currentDate, 1);
-          while (getDay(nextDate) === 0 || getDay(nextDate) === 6) {
-            nextDate = addDays(nextDate, 1);
-          }
-          return nextDate;
-        case "weekly":
-          return addWeeks(currentDate, config.interval || 1);
-        case "biweekly":
-          return addWeeks(currentDate, 2);
-        case "monthly":
-          return addMonths(currentDate, config.interval || 1);
-        case "quarterly":
-          return addMonths(currentDate, 3);
-        case "yearly":
-          return addYears(currentDate, config.interval || 1);
-        default:
-          return addWeeks(currentDate, config.interval || 1);
-      }
-    }
-
-    return addWeeks(currentDate, config.interval || 1);
-  }
-
-  /**
-   * Check if we should stop generating more instances
-   */
-  private shouldStopGenerating(
-    nextDate: Date,
-    config: RecurringPatternConfig,
-    currentCount: number,
-  ): boolean {
-    // Check max occurrences
-    if (config.maxOccurrences && currentCount >= config.maxOccurrences) {
-      return true;
-    }
-
-    // Check end date
-    if (config.endDate && isAfter(nextDate, new Date(config.endDate))) {
-      return true;
-    }
-
-    // Check if date is too far in the future (safety limit)
-    const futureLimit = addYears(new Date(), 10); // 10 years limit
-    if (isAfter(nextDate, futureLimit)) {
-      return true;
-    }
-
-    return false;
-  }
-
-  /**
-   * Convert day name to day number (0=Sunday, 1=Monday, etc.)
-   */
-  private getDayNumber(dayName: string): number {
-    const days: Record<string, number> = {
-      sunday: 0,
-      monday: 1,
-      tuesday: 2,
-      wednesday: 3,
-      thursday: 4,
-      friday: 5,
-      saturday: 6,
-    };
-    return days[dayName.toLowerCase()] || 0;
+    options: { after?: Date; before?: Date; limit?: number } = {},
+  ): Date[] {
+    return expandRecurrenceSet(
+      recurringConfigToRecurrenceSet(config, startDate),
+      options,
+    );
   }
 
   /**
@@ -384,6 +133,18 @@ export class RecurringPatternService {
    * Format recurring pattern for display
    */
   formatRecurringPattern(config: RecurringPatternConfig): string {
+    if (config.repeatFrom === "completion") {
+      return `${this.formatRecurringPattern({ ...config, repeatFrom: "due" })} after completion`;
+    }
+
+    if (config.rrule) {
+      try {
+        return describeRRule(parseRRule(config.rrule));
+      } catch {
+        return "Custom pattern";
+      }
+    }
+
     switch (config.pattern) {
       case "daily":
         if (config.interval === 1) return "Daily";
@@ -509,6 +270,29 @@ export class RecurringPatternService {
       errors.push("Custom month days must be between 1 and 31");
     }
 
+    if (config.rrule) {
+      try {
+        parseRRule(config.rrule);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : "Invalid RRULE");
+      }
+    }
+
+    if (
+      config.repeatFrom &&
+      !["due", "completion"].includes(config.repeatFrom)
+    ) {
+      errors.push('Repeat from must be "due" or "completion"');
+    }
+
+    if (config.timeZone) {
+      try {
+        new Intl.DateTimeFormat("en-US", { timeZone: config.timeZone });
+      } catch {
+        errors.push(`Unknown timezone "${config.timeZone}"`);
+      }
+    }
+
     return {
       valid: errors.length === 0,
       errors,
@@ -179,6 +179,16 @@ export class RecurringTaskGenerator {
       // Optimize configuration
       const optimizedConfig = this.optimizeGenerationConfig(config);
 
+      // Series that repeat from completion have a single open instance,
+      // scheduled when the previous one is completed
+      if (this.repeatsFromCompletion(task, config)) {
+        if (forceRegenerate) {
+          await this.deleteExistingInstances(task.id);
+        }
+        await recurringTaskService.generateNextRecurringInstance(task);
+        return;
+      }
+
       // Generate instances
       if (forceRegenerate) {
         await this.regenerateAllInstances(task, optimizedConfig);
@@ -296,10 +306,14 @@ export class RecurringTaskGenerator {
         const nextDate = recurringPatternManager.calculateNextOccurrence(
           currentDate,
           config,
+          config.startDate || task.dueDate || startDate,
         );
 
         // Stop if we hit end conditions
-        if (this.shouldStopGenerating(nextDate, config, generatedCount + 1)) {
+        if (
+          !nextDate ||
+          this.shouldStopGenerating(nextDate, config, generatedCount + 1)
+        ) {
           break;
         }
 
@@ -338,6 +352,19 @@ export class RecurringTaskGenerator {
     }
   }
 
+  /**
+   * Whether the next occurrence is scheduled from the previous completion
+   */
+  private repeatsFromCompletion(
+    task: Task,
+    config: RecurringTaskConfig,
+  ): boolean {
+    return (
+      (config.repeatFrom || task.customFields?.recurringConfig?.repeatFrom) ===
+      "completion"
+    );
+  }
+
   /**
    * Find existing instance by date
    */
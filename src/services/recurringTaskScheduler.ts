@@ -309,10 +309,14 @@ export class RecurringTaskScheduler {
         const nextDate = recurringPatternManager.calculateNextOccurrence(
           currentDate,
           config,
+          config.startDate || task.dueDate || startDate,
         );
 
         // Stop if we hit end conditions
-        if (this.shouldStopGenerating(nextDate, config, generatedCount + 1)) {
+        if (
+          !nextDate ||
+          this.shouldStopGenerating(nextDate, config, generatedCount + 1)
+        ) {
           break;
         }
 
@@ -4,26 +4,38 @@ import {
   TaskStatus,
   PriorityLevel,
   RecurringPattern,
+  RecurrenceEditScope,
+  RecurringPatternConfig,
+  RecurringSeriesConfig,
 } from "../types/task";
 import { ApiResponse } from "../types/api";
 import { taskApi } from "../api/taskApi";
 import { useTaskStore } from "../store/useTaskStore";
 import {
   addDays,
-  addWeeks,
-  addMonths,
-  addYears,
+  addMilliseconds,
   isBefore,
   isAfter,
+  isSameDay,
   parseISO,
 } from "date-fns";
+import {
+  excludeOccurrence,
+  expandRecurrenceSet,
+  getNextOccurrence,
+  nextOccurrenceAfterCompletion,
+  recurringConfigToRecurrenceSet,
+  splitRecurringConfig,
+} from "../utils/rruleUtils";
 
 /**
  * Recurring Task Service - Handles all recurring task-related business logic and operations
  */
 export class RecurringTaskService {
   private static instance: RecurringTaskService;
-  private taskStore = useTaskStore.getState();
+  private get taskStore() {
+    return useTaskStore.getState();
+  }
 
   private constructor() {
     // Private constructor for singleton pattern
@@ -199,6 +211,154 @@ export class RecurringTaskService {
     }
   }
 
+  /**
+   * Edit a recurring series from one of its occurrences. "this" turns the
+   * occurrence into a standalone exception, "following" splits the series
+   * into two at the occurrence, and "all" edits the whole series.
+   */
+  async editRecurringOccurrence(
+    seriesId: string,
+    occurrenceDate: Date,
+    updates: Partial<Task>,
+    scope: RecurrenceEditScope,
+  ): Promise<Task> {
+    const series = this.taskStore.tasks.find((task) => task.id === seriesId);
+    if (!series || !series.dueDate) {
+      throw new Error("Recurring task not found");
+    }
+
+    const occurrence = new Date(occurrenceDate);
+    const config = series.customFields?.recurringConfig || {
+      pattern: series.recurringPattern,
+    };
+    const isFirst = !isAfter(occurrence, new Date(series.dueDate));
+
+    if (scope === "all" || (scope === "following" && isFirst)) {
+      // Editing all occurrences from a later one keeps the series start
+      const { dueDate, ...seriesUpdates } = updates;
+      return this.updateRecurringTask(
+        seriesId,
+        isFirst ? updates : seriesUpdates,
+      );
+    }
+
+    const instances = this.taskStore.tasks.filter(
+      (task) =>
+        task.customFields?.originalTaskId === seriesId && task.id !== seriesId,
+    );
+
+    if (scope === "this") {
+      await this.saveRecurringConfig(
+        series,
+        excludeOccurrence(config, occurrence),
+      );
+
+      const instance = instances.find(
+        (task) => task.dueDate && isSameDay(new Date(task.dueDate), occurrence),
+      );
+      const exception: Partial<Task> = {
+        ...updates,
+        dueDate: updates.dueDate || occurrence,
+        recurringPattern: null,
+        updatedAt: new Date(),
+        customFields: {
+          ...(instance || series).customFields,
+          ...(updates.customFields || {}),
+          originalTaskId: seriesId,
+          isRecurringInstance: false,
+          isRecurrenceException: true,
+          recurrenceId: occurrence,
+        },
+      };
+
+      const response = instance
+        ? await taskApi.updateTask(instance.id, exception)
+        : await taskApi.createTask({
+            ...series,
+            ...exception,
+            id: undefined,
+            completed: false,
+            status: "active",
+            createdAt: new Date(),
+          });
+      if (!response.success || !response.data) {
+        throw new Error(response.message || "Failed to update occurrence");
+      }
+
+      if (instance) {
+        this.taskStore.updateTask(instance.id, response.data);
+      } else {
+        this.taskStore.addTask(response.data);
+      }
+      return response.data;
+    }
+
+    // "this and following": the original series ends before the occurrence
+    // and a new series continues from it with the edits applied
+    const { head, tail } = splitRecurringConfig(
+      config,
+      new Date(series.dueDate),
+      occurrence,
+    );
+    await this.saveRecurringConfig(series, head);
+
+    const { id, ...seriesData } = series;
+    const response = await taskApi.createTask({
+      ...seriesData,
+      ...updates,
+      dueDate: updates.dueDate || occurrence,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      customFields: {
+        ...series.customFields,
+        ...(updates.customFields || {}),
+        recurringConfig: tail,
+      },
+    });
+    if (!response.success || !response.data) {
+      throw new Error(response.message || "Failed to split recurring task");
+    }
+    this.taskStore.addTask(response.data);
+
+    // Generated instances from the occurrence on move to the new series
+    const { dueDate, customFields, ...instanceUpdates } = updates;
+    for (const instance of instances) {
+      if (
+        instance.dueDate &&
+        !isBefore(new Date(instance.dueDate), occurrence)
+      ) {
+        const moved = {
+          ...instanceUpdates,
+          customFields: {
+            ...instance.customFields,
+            originalTaskId: response.data.id,
+          },
+        };
+        await taskApi.updateTask(instance.id, moved);
+        this.taskStore.updateTask(instance.id, moved);
+      }
+    }
+
+    return response.data;
+  }
+
+  /**
+   * Persist a new recurrence configuration on a series
+   */
+  private async saveRecurringConfig(
+    task: Task,
+    config: RecurringPatternConfig,
+  ): Promise<void> {
+    const customFields = { ...task.customFields, recurringConfig: config };
+    this.taskStore.updateTask(task.id, { customFields, updatedAt: new Date() });
+
+    const response = await taskApi.updateTask(task.id, { customFields });
+    if (!response.success) {
+      this.taskStore.updateTask(task.id, task);
+      throw new Error(response.message || "Failed to update recurring task");
+    }
+  }
+
   /**
    * Delete a recurring task and all its generated instances
    */
@@ -253,47 +413,52 @@ export class RecurringTaskService {
 
     const instances: RecurringTaskInstance[] = [];
     const startDate = new Date(task.dueDate);
-    const endDate = config.endDate ? new Date(config.endDate) : null;
     const maxCount = config.maxOccurrences || 10; // Default to 10 instances
-
-    let currentDate = new Date(startDate);
-    let count = 0;
+    const now = new Date();
 
     // Add the original task instance
     instances.push({
       id: task.id,
       taskId: task.id,
-      date: currentDate,
+      date: startDate,
       isGenerated: false,
       status: task.status,
       completed: task.completed,
       originalTaskId: task.id,
     });
 
-    // Generate future instances
-    while (true) {
-      if (endDate && isAfter(currentDate, endDate)) break;
-      if (count >= maxCount) break;
+    // Series that repeat from completion only get their next instance
+    // once the current one is done
+    if (this.repeatsFromCompletion(task)) {
+      return instances;
+    }
 
-      currentDate = this.getNextDate(
-        currentDate,
-        task.recurringPattern,
-        config,
-      );
-      if (isBefore(currentDate, new Date())) continue; // Skip past dates
+    // Future occurrences of the series. Its end, exceptions ("this
+    // occurrence only") and extra dates are part of the recurrence set.
+    const dates = expandRecurrenceSet(
+      recurringConfigToRecurrenceSet(
+        this.getSeriesConfig(task, config),
+        startDate,
+      ),
+      {
+        after: isAfter(now, startDate) ? now : addMilliseconds(startDate, 1),
+        limit: maxCount,
+      },
+    );
 
-      const instanceId = `${task.id}-instance-${count + 1}`;
+    for (const [index, date] of dates.entries()) {
+      const instanceId = `${task.id}-instance-${index + 1}`;
 
       const generatedTask: Omit<Task, "id"> = {
         ...task,
         id: instanceId,
         title: `${task.title} (Recurring)`,
-        dueDate: currentDate,
+        dueDate: date,
         customFields: {
           ...task.customFields,
           originalTaskId: task.id,
           isRecurringInstance: true,
-          instanceNumber: count + 1,
+          instanceNumber: index + 1,
         },
         createdAt: new Date(),
         updatedAt: new Date(),
@@ -307,15 +472,13 @@ export class RecurringTaskService {
         instances.push({
           id: instanceId,
           taskId: instanceId,
-          date: currentDate,
+          date,
           isGenerated: true,
           status: response.data.status,
           completed: response.data.completed,
           originalTaskId: task.id,
         });
       }
-
-      count++;
     }
 
     return instances;
@@ -343,26 +506,18 @@ export class RecurringTaskService {
   }
 
   /**
-   * Get the next date based on recurring pattern
+   * Recurrence configuration of a series, with `config` applied over what
+   * is stored on the task
    */
-  private getNextDate(
-    currentDate: Date,
-    pattern: RecurringPattern,
-    config?: RecurringTaskConfig,
-  ): Date {
-    switch (pattern) {
-      case "daily":
-        return addDays(currentDate, config?.customInterval || 1);
-      case "weekly":
-        return addWeeks(currentDate, config?.customInterval || 1);
-      case "monthly":
-        return addMonths(currentDate, config?.customInterval || 1);
-      case "yearly":
-        return addYears(currentDate, config?.customInterval || 1);
-      case "custom":
-      default:
-        return addWeeks(currentDate, config?.customInterval || 1);
-    }
+  private getSeriesConfig(
+    task: Task,
+    config?: Partial<RecurringTaskConfig>,
+  ): RecurringSeriesConfig {
+    return {
+      pattern: task.recurringPattern,
+      ...task.customFields?.recurringConfig,
+      ...config,
+    };
   }
 
   /**
@@ -376,12 +531,20 @@ export class RecurringTaskService {
         // Check if this was the last instance and if we should generate more
         const instance = response.data;
         const originalTask = this.taskStore.tasks.find(
-          (task) => task.id === instance.customFields?.originalTaskId,
+          (task) =>
+            task.id === (instance.customFields?.originalTaskId || instance.id),
         );
 
         if (originalTask && originalTask.recurringPattern) {
           const config = originalTask.customFields?.recurringConfig;
-          if (config && (!config.endDate || !config.maxOccurrences)) {
+          if (this.repeatsFromCompletion(originalTask)) {
+            // The next instance is due one interval after this completion
+            await this.generateNextRecurringInstance(originalTask, instance);
+          } else if (
+            config &&
+            instance.customFields?.originalTaskId &&
+            (!config.endDate || !config.maxOccurrences)
+          ) {
             // For infinite recurring tasks, generate next instance
             await this.generateNextRecurringInstance(originalTask);
           }
@@ -400,9 +563,14 @@ export class RecurringTaskService {
   }
 
   /**
-   * Generate the next instance for a recurring task
+   * Generate the next instance for a recurring task. Series that repeat
+   * from completion are scheduled from when `completedInstance` (or the
+   * latest instance) was completed rather than from the latest due date.
    */
-  async generateNextRecurringInstance(task: Task): Promise<Task | null> {
+  async generateNextRecurringInstance(
+    task: Task,
+    completedInstance?: Task,
+  ): Promise<Task | null> {
     if (!task.recurringPattern || !task.dueDate) {
       return null;
     }
@@ -415,14 +583,41 @@ export class RecurringTaskService {
     // Find the most recent instance
     const instances = this.taskStore.tasks
       .filter((t) => t.customFields?.originalTaskId === task.id)
-      .sort((a, b) => b.dueDate?.getTime() || 0 - (a.dueDate?.getTime() || 0));
+      .sort(
+        (a, b) => (b.dueDate?.getTime() || 0) - (a.dueDate?.getTime() || 0),
+      );
 
     const latestInstance = instances.length > 0 ? instances[0] : task;
-    const nextDate = this.getNextDate(
-      new Date(latestInstance.dueDate || task.dueDate),
-      task.recurringPattern,
-      config,
-    );
+    const latestDueDate = new Date(latestInstance.dueDate || task.dueDate);
+    let nextDate: Date;
+
+    if (this.repeatsFromCompletion(task)) {
+      const openInstance = [task, ...instances].find(
+        (instance) =>
+          !instance.completed && instance.id !== completedInstance?.id,
+      );
+      if (openInstance) {
+        // Only one open occurrence at a time
+        return null;
+      }
+      nextDate = nextOccurrenceAfterCompletion(
+        config,
+        latestDueDate,
+        completedInstance?.completedAt ||
+          latestInstance.completedAt ||
+          new Date(),
+      );
+    } else {
+      nextDate = getNextOccurrence(
+        this.getSeriesConfig(task),
+        new Date(task.dueDate),
+        latestDueDate,
+      );
+      if (!nextDate) {
+        // The series has ended (COUNT or UNTIL)
+        return null;
+      }
+    }
 
     // Check if we should generate more instances
     if (config.endDate && isAfter(nextDate, new Date(config.endDate))) {
@@ -463,6 +658,13 @@ export class RecurringTaskService {
     return null;
   }
 
+  /**
+   * Whether a series schedules each occurrence from the previous completion
+   */
+  private repeatsFromCompletion(task: Task): boolean {
+    return task.customFields?.recurringConfig?.repeatFrom === "completion";
+  }
+
   /**
    * Validate task data before creation/update
    */
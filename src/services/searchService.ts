@@ -1,27 +1,106 @@
-import { SearchResult } from "../types/search";
+import { SearchHighlight, SearchResult } from "../types/search";
 import { Task } from "../types/task";
 import { Project } from "../types/project";
 import { Label } from "../types/label";
+import { Comment } from "../types/store";
+import { SearchIndex } from "../utils/searchIndex";
+import {
+  createSearchResultFromLabel,
+  createSearchResultFromProject,
+  createSearchResultFromTask,
+} from "../utils/searchUtils";
+
+/**
+ * Field boosts: a title match outranks a description match, which outranks
+ * a match in a task's comments
+ */
+const SEARCH_FIELDS = [
+  { name: "title", boost: 3 },
+  { name: "description", boost: 1 },
+  { name: "comments", boost: 0.5 },
+];
+
+/**
+ * What a document was last indexed from, used to skip unchanged records
+ */
+interface IndexedSource {
+  source: Task | Project | Label;
+  comments: string;
+}
 
 export class SearchService {
   private tasks: Task[] = [];
   private projects: Project[] = [];
   private labels: Label[] = [];
+  private index = new SearchIndex(SEARCH_FIELDS);
+  private indexed = new Map<string, IndexedSource>();
+  private taskComments = new Map<string, Comment[]>();
 
   constructor(
     tasks: Task[] = [],
     projects: Project[] = [],
     labels: Label[] = [],
   ) {
-    this.tasks = tasks;
-    this.projects = projects;
-    this.labels = labels;
+    this.setData(tasks, projects, labels);
   }
 
-  public setData(tasks: Task[], projects: Project[], labels: Label[]): void {
+  /**
+   * Update the searchable data. Only records that changed since the last call
+   * (by reference, or whose comments changed) are re-indexed.
+   */
+  public setData(
+    tasks: Task[],
+    projects: Project[],
+    labels: Label[],
+    comments: Comment[] = [],
+  ): void {
     this.tasks = tasks;
     this.projects = projects;
     this.labels = labels;
+
+    this.taskComments = new Map();
+    comments.forEach((comment) => {
+      const list = this.taskComments.get(comment.taskId) || [];
+      list.push(comment);
+      this.taskComments.set(comment.taskId, list);
+    });
+
+    const seen = new Set<string>();
+
+    tasks.forEach((task) => {
+      const id = `task-${task.id}`;
+      const commentText = (this.taskComments.get(task.id) || [])
+        .map((comment) => comment.content)
+        .join("\n");
+      seen.add(id);
+      this.indexRecord(id, task, commentText, {
+        title: task.title,
+        description: task.description || "",
+        comments: commentText,
+      });
+    });
+
+    projects.forEach((project) => {
+      const id = `project-${project.id}`;
+      seen.add(id);
+      this.indexRecord(id, project, "", {
+        title: project.name,
+        description: project.description || "",
+      });
+    });
+
+    labels.forEach((label) => {
+      const id = `label-${label.id}`;
+      seen.add(id);
+      this.indexRecord(id, label, "", { title: label.name });
+    });
+
+    for (const id of Array.from(this.indexed.keys())) {
+      if (!seen.has(id)) {
+        this.index.remove(id);
+        this.indexed.delete(id);
+      }
+    }
   }
 
   public search(query: string): SearchResult[] {
@@ -29,53 +108,50 @@ export class SearchService {
       return [];
     }
 
-    const searchTerm = query.toLowerCase();
+    const tasksById = new Map(this.tasks.map((t) => [`task-${t.id}`, t]));
+    const projectsById = new Map(
+      this.projects.map((p) => [`project-${p.id}`, p]),
+    );
+    const labelsById = new Map(this.labels.map((l) => [`label-${l.id}`, l]));
+
     const results: SearchResult[] = [];
 
-    // Search tasks
-    this.tasks.forEach((task) => {
-      if (
-        task.title.toLowerCase().includes(searchTerm) ||
-        (task.description &&
-          task.description.toLowerCase().includes(searchTerm))
-      ) {
-        results.push({
-          id: `task-${task.id}`,
-          title: task.title,
-          subtitle: task.description || "",
-          type: "Task",
-          data: task,
-        });
-      }
-    });
+    this.index.search(query).forEach((match) => {
+      let result: SearchResult | null = null;
 
-    // Search projects
-    this.projects.forEach((project) => {
-      if (
-        project.name.toLowerCase().includes(searchTerm) ||
-        (project.description &&
-          project.description.toLowerCase().includes(searchTerm))
-      ) {
-        results.push({
-          id: `project-${project.id}`,
-          title: project.name,
-          subtitle: project.description || "",
-          type: "Project",
-          data: project,
-        });
+      if (tasksById.has(match.id)) {
+        const task = tasksById.get(match.id);
+        result = createSearchResultFromTask(task);
+        result.highlights = {
+          title: match.highlights.title,
+          subtitle: match.highlights.description,
+        };
+
+        // Show the matching comment when the description did not match
+        if (!match.highlights.description && match.highlights.comments) {
+          Object.assign(
+            result,
+            this.commentSnippet(
+              this.indexed.get(match.id)?.comments || "",
+              match.highlights.comments,
+              result.highlights.title,
+            ),
+          );
+        }
+      } else if (projectsById.has(match.id)) {
+        result = createSearchResultFromProject(projectsById.get(match.id));
+        result.highlights = {
+          title: match.highlights.title,
+          subtitle: match.highlights.description,
+        };
+      } else if (labelsById.has(match.id)) {
+        result = createSearchResultFromLabel(labelsById.get(match.id));
+        result.highlights = { title: match.highlights.title };
       }
-    });
 
-    // Search labels
-    this.labels.forEach((label) => {
-      if (label.name.toLowerCase().includes(searchTerm)) {
-        results.push({
-          id: `label-${label.id}`,
-          title: label.name,
-          subtitle: "",
-          type: "Label",
-          data: label,
-        });
+      if (result) {
+        result.score = match.score;
+        results.push(result);
       }
     });
 
@@ -89,6 +165,53 @@ export class SearchService {
     const allResults = this.search(query);
     return allResults.filter((result) => result.type?.toLowerCase() === type);
   }
+
+  private indexRecord(
+    id: string,
+    source: Task | Project | Label,
+    comments: string,
+    fields: Record<string, string>,
+  ): void {
+    const previous = this.indexed.get(id);
+    if (
+      previous &&
+      previous.source === source &&
+      previous.comments === comments
+    ) {
+      return;
+    }
+
+    this.index.add({ id, fields });
+    this.indexed.set(id, { source, comments });
+  }
+
+  /**
+   * Pick the comment containing the first comment match as the subtitle and
+   * shift its highlights to be relative to that comment
+   */
+  private commentSnippet(
+    commentText: string,
+    ranges: SearchHighlight[],
+    titleHighlights?: SearchHighlight[],
+  ): Pick<SearchResult, "subtitle" | "highlights"> {
+    const first = ranges[0];
+    const start = commentText.lastIndexOf("\n", first.start - 1) + 1;
+    const newline = commentText.indexOf("\n", first.end);
+    const end = newline === -1 ? commentText.length : newline;
+
+    return {
+      subtitle: commentText.slice(start, end),
+      highlights: {
+        title: titleHighlights,
+        subtitle: ranges
+          .filter((range) => range.start >= start && range.end <= end)
+          .map((range) => ({
+            start: range.start - start,
+            end: range.end - start,
+          })),
+      },
+    };
+  }
 }
 
 // Singleton instance
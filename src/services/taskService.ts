@@ -1,17 +1,42 @@
-import { Task, TaskStatus, PriorityLevel } from "../types/task";
+import { BulkTaskEdit, Task, TaskStatus, PriorityLevel } from "../types/task";
 import { ApiResponse } from "../types/api";
 import { taskApi } from "../api/taskApi";
 import { useTaskStore } from "../store/useTaskStore";
+import { useOfflineStore } from "../store/useOfflineStore";
+import { historyService } from "./historyService";
+import { offlineTaskService } from "./offlineTaskService";
+import { HistoryStepOptions, HistorySyncChange } from "../types/history";
+import {
+  duplicateTasks,
+  getBulkEditLabel,
+  getBulkEditUpdates,
+} from "../utils/bulkEditUtils";
+import {
+  TaskBlockedError,
+  addDependency,
+  getCompletionBlocker,
+  getDependencyStatus,
+  removeDependency,
+} from "../utils/dependencyUtils";
 
 /**
  * Task Service - Handles all task-related business logic and CRUD operations
  */
 export class TaskService {
   private static instance: TaskService;
-  private taskStore = useTaskStore.getState();
+
+  /**
+   * Current task state; a copy taken once would keep the tasks from when
+   * the service was created
+   */
+  private get taskStore() {
+    return useTaskStore.getState();
+  }
 
   private constructor() {
-    // Private constructor for singleton pattern
+    historyService.registerSync("tasks", (changes) =>
+      this.syncHistoryChanges(changes),
+    );
   }
 
   /**
@@ -81,21 +106,34 @@ export class TaskService {
         id: `temp-${Date.now()}`,
       };
 
-      this.taskStore.addTask(optimisticTask);
+      if (this.isOffline()) {
+        await this.queueOfflineChange(
+          "Add task",
+          () => offlineTaskService.createTaskOffline(optimisticTask),
+          () => this.taskStore.addTasks([optimisticTask]),
+        );
+        return optimisticTask;
+      }
+
+      const { rollback } = historyService.optimistic("Add task", () =>
+        this.taskStore.addTask(optimisticTask),
+      );
 
       // Call API
       const response: ApiResponse<Task> = await taskApi.createTask(newTask);
 
       if (response.success && response.data) {
         // Replace temporary ID with real ID
-        this.taskStore.updateTask(optimisticTask.id, {
-          id: response.data.id,
-          ...response.data,
-        });
+        historyService.runUntracked(() =>
+          this.taskStore.updateTask(optimisticTask.id, {
+            id: response.data!.id,
+            ...response.data,
+          }),
+        );
         return response.data;
       } else {
         // Revert optimistic update on failure
-        this.taskStore.deleteTask(optimisticTask.id);
+        rollback();
         throw new Error(response.message || "Failed to create task");
       }
     } catch (error) {
@@ -104,6 +142,181 @@ export class TaskService {
     }
   }
 
+  /**
+   * Create several tasks at once; either all of them are created or none
+   */
+  async createTasks(
+    tasksData: Omit<Task, "createdAt" | "updatedAt">[],
+    history?: HistoryStepOptions,
+  ): Promise<Task[]> {
+    tasksData.forEach((taskData) => this.validateTask(taskData));
+
+    const now = new Date();
+    const newTasks: Task[] = tasksData.map((taskData) => ({
+      ...taskData,
+      createdAt: now,
+      updatedAt: now,
+    }));
+
+    try {
+      const response: ApiResponse<Task[]> = await taskApi.createTasks(newTasks);
+
+      if (response.success && response.data) {
+        const created = response.data;
+        const addTasks = () => this.taskStore.addTasks(created);
+        if (history) {
+          historyService.group(history.label, addTasks, history);
+        } else {
+          addTasks();
+        }
+        return created;
+      } else {
+        throw new Error(response.message || "Failed to create tasks");
+      }
+    } catch (error) {
+      console.error("Error creating tasks:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Apply one edit to several tasks as a single undoable step and a single
+   * request
+   */
+  async bulkEditTasks(taskIds: string[], edit: BulkTaskEdit): Promise<void> {
+    const { tasks, enforceDependencies } = useTaskStore.getState();
+    const selected = tasks.filter((task) => taskIds.includes(task.id));
+
+    if (edit.type === "complete" && enforceDependencies) {
+      const blocked = selected.filter(
+        (task) => !task.completed && getDependencyStatus(task, tasks).blocked,
+      );
+      if (blocked.length > 0) {
+        throw new TaskBlockedError(
+          `${blocked.map((task) => `"${task.title}"`).join(", ")} ${
+            blocked.length === 1 ? "is" : "are"
+          } waiting on other tasks`,
+          blocked,
+        );
+      }
+    }
+
+    const updates = getBulkEditUpdates(selected, edit);
+    const changedIds = Object.keys(updates);
+    if (changedIds.length === 0) return;
+
+    const label = getBulkEditLabel(edit, changedIds.length);
+
+    try {
+      if (this.isOffline()) {
+        await this.queueOfflineChange(
+          label,
+          () =>
+            Promise.all(
+              changedIds.map((taskId) =>
+                offlineTaskService.updateTaskOffline(taskId, updates[taskId]),
+              ),
+            ),
+          () => this.taskStore.bulkUpdateTasks(updates),
+          { toast: true },
+        );
+        return;
+      }
+
+      const { rollback } = historyService.optimistic(
+        label,
+        () => this.taskStore.bulkUpdateTasks(updates),
+        { toast: true },
+      );
+
+      const response = await taskApi.updateTasks(updates);
+      if (!response.success) {
+        rollback();
+        throw new Error(response.error?.message || "Failed to update tasks");
+      }
+    } catch (error) {
+      console.error("Error updating tasks:", error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copy tasks into the same project and section in one request
+   */
+  async duplicateTasks(taskIds: string[]): Promise<Task[]> {
+    // The store keeps a narrower task type than the API
+    const selected = useTaskStore
+      .getState()
+      .tasks.filter((task) => taskIds.includes(task.id)) as unknown as Task[];
+    if (selected.length === 0) return [];
+
+    return this.createTasks(duplicateTasks(selected), {
+      label: `Duplicate ${selected.length} task${selected.length === 1 ? "" : "s"}`,
+      toast: true,
+    });
+  }
+
+  private isOffline(): boolean {
+    return useOfflineStore.getState().status.isOffline;
+  }
+
+  /**
+   * Queue a change made offline and apply it locally as one undo step, so
+   * undoing it before reconnecting drops the queued request. Offline, the
+   * queue calls add their items before returning.
+   */
+  private queueOfflineChange<R>(
+    label: string,
+    queue: () => Promise<R>,
+    apply: () => void,
+    options: { toast?: boolean } = {},
+  ): Promise<R> {
+    return historyService.group(
+      label,
+      () => {
+        // Queued first so an edit's merge base is the task before it
+        const queued = queue();
+        apply();
+        return queued;
+      },
+      options,
+    );
+  }
+
+  /**
+   * Send tasks restored by undo or redo to the server. Updates go out in
+   * one request; offline, every change is queued.
+   */
+  private async syncHistoryChanges(
+    changes: HistorySyncChange[],
+  ): Promise<void> {
+    const updates = changes.filter(({ from, to }) => from && to);
+    if (updates.length > 1 && !this.isOffline()) {
+      const response = await taskApi.updateTasks(
+        Object.fromEntries(updates.map(({ id, to }) => [id, to as Task])),
+      );
+      if (!response.success) {
+        throw new Error(response.error?.message || "Failed to update tasks");
+      }
+    } else {
+      await Promise.all(
+        updates.map(({ id, to }) =>
+          offlineTaskService.updateTaskOffline(id, to as Task),
+        ),
+      );
+    }
+
+    await Promise.all(
+      changes
+        .filter(({ from, to }) => !from || !to)
+        .map(({ id, to }) =>
+          to
+            ? offlineTaskService.createTaskOffline(to as Task)
+            : offlineTaskService.deleteTaskOffline(id),
+        ),
+    );
+  }
+
   /**
    * Get a single task by ID
    */
@@ -141,11 +354,13 @@ export class TaskService {
   }
 
   /**
-   * Update a task with optimistic updates
+   * Update a task with optimistic updates, recorded as one undo step
    */
-  async updateTask(taskId: string, updates: Partial<Task>): Promise<Task> {
-    this.validateTask(updates);
-
+  async updateTask(
+    taskId: string,
+    updates: Partial<Task>,
+    history: HistoryStepOptions = { label: "Edit task" },
+  ): Promise<Task> {
     try {
       // Get current task for optimistic update
       const currentTask = this.taskStore.tasks.find(
@@ -155,13 +370,29 @@ export class TaskService {
         throw new Error("Task not found");
       }
 
+      // Updates may be partial, such as a new due date only
+      this.validateTask({ title: currentTask.title, ...updates });
+
       // Optimistic update
       const optimisticUpdate = {
         ...updates,
         updatedAt: new Date(),
       };
 
-      this.taskStore.updateTask(taskId, optimisticUpdate);
+      if (this.isOffline()) {
+        return this.queueOfflineChange(
+          history.label,
+          () => offlineTaskService.updateTaskOffline(taskId, updates),
+          () => this.taskStore.updateTask(taskId, optimisticUpdate),
+          history,
+        );
+      }
+
+      const { rollback } = historyService.optimistic(
+        history.label,
+        () => this.taskStore.updateTask(taskId, optimisticUpdate),
+        history,
+      );
 
       // Call API
       const response: ApiResponse<Task> = await taskApi.updateTask(
@@ -173,7 +404,7 @@ export class TaskService {
         return response.data;
       } else {
         // Revert optimistic update on failure
-        this.taskStore.updateTask(taskId, currentTask);
+        rollback();
         throw new Error(response.message || "Failed to update task");
       }
     } catch (error) {
@@ -192,15 +423,29 @@ export class TaskService {
     }
 
     try {
+      if (this.isOffline()) {
+        await this.queueOfflineChange(
+          "Delete task",
+          () => offlineTaskService.deleteTaskOffline(taskId),
+          () => this.taskStore.deleteTask(taskId),
+          { toast: true },
+        );
+        return;
+      }
+
       // Optimistic update
-      this.taskStore.deleteTask(taskId);
+      const { rollback } = historyService.optimistic(
+        "Delete task",
+        () => this.taskStore.deleteTask(taskId),
+        { toast: true },
+      );
 
       // Call API
       const response: ApiResponse<void> = await taskApi.deleteTask(taskId);
 
       if (!response.success) {
         // Revert optimistic update on failure
-        // Note: We'd need to restore the task, but for simplicity we'll just log
+        rollback();
         console.error("Failed to delete task:", response.message);
         throw new Error(response.message || "Failed to delete task");
       }
@@ -223,6 +468,12 @@ export class TaskService {
       }
 
       const newStatus = !currentTask.completed;
+      const { tasks, enforceDependencies } = useTaskStore.getState();
+      if (newStatus && enforceDependencies) {
+        const blocker = getCompletionBlocker(currentTask, tasks);
+        if (blocker) throw blocker;
+      }
+
       const optimisticUpdate = {
         completed: newStatus,
         status: newStatus ? "completed" : "todo",
@@ -230,8 +481,26 @@ export class TaskService {
         completedAt: newStatus ? new Date() : null,
       };
 
+      const label = newStatus ? "Complete task" : "Reopen task";
+      if (this.isOffline()) {
+        return this.queueOfflineChange(
+          label,
+          () =>
+            offlineTaskService.updateTaskOffline(
+              taskId,
+              optimisticUpdate as Partial<Task>,
+            ),
+          () => this.taskStore.updateTask(taskId, optimisticUpdate),
+          { toast: true },
+        );
+      }
+
       // Optimistic update
-      this.taskStore.updateTask(taskId, optimisticUpdate);
+      const { rollback } = historyService.optimistic(
+        label,
+        () => this.taskStore.updateTask(taskId, optimisticUpdate),
+        { toast: true },
+      );
 
       // Call appropriate API based on current status
       const response: ApiResponse<Task> = currentTask.completed
@@ -242,7 +511,7 @@ export class TaskService {
         return response.data;
       } else {
         // Revert optimistic update on failure
-        this.taskStore.updateTask(taskId, currentTask);
+        rollback();
         throw new Error(response.message || "Failed to toggle task completion");
       }
     } catch (error) {
@@ -251,6 +520,76 @@ export class TaskService {
     }
   }
 
+  /**
+   * Make a task wait for another one to finish, optionally `lagDays`
+   * after it. Throws a DependencyCycleError when the tasks would end up
+   * waiting on each other.
+   */
+  async addDependency(
+    taskId: string,
+    dependencyId: string,
+    lagDays: number = 0,
+  ): Promise<Task> {
+    const { tasks } = useTaskStore.getState();
+    return this.updateDependencies(
+      taskId,
+      addDependency(tasks, taskId, dependencyId, lagDays),
+    );
+  }
+
+  /**
+   * Stop a task from waiting for another one
+   */
+  async removeDependency(taskId: string, dependencyId: string): Promise<Task> {
+    const task = useTaskStore
+      .getState()
+      .tasks.find((entry) => entry.id === taskId);
+    if (!task) {
+      throw new Error("Task not found");
+    }
+
+    return this.updateDependencies(
+      taskId,
+      removeDependency(task, dependencyId),
+    );
+  }
+
+  /**
+   * Save dependency fields with an optimistic update. Bypasses updateTask,
+   * whose validation expects a full task.
+   */
+  private async updateDependencies(
+    taskId: string,
+    updates: Pick<Task, "dependencies" | "dependencyLags">,
+  ): Promise<Task> {
+    const store = useTaskStore.getState();
+    const currentTask = store.tasks.find((task) => task.id === taskId);
+    if (!currentTask) {
+      throw new Error("Task not found");
+    }
+
+    try {
+      store.updateTask(taskId, { ...updates, updatedAt: new Date() });
+
+      const response: ApiResponse<Task> = await taskApi.updateTask(
+        taskId,
+        updates,
+      );
+
+      if (response.success && response.data) {
+        return response.data;
+      } else {
+        store.updateTask(taskId, currentTask);
+        throw new Error(
+          response.error?.message || "Failed to update dependencies",
+        );
+      }
+    } catch (error) {
+      console.error("Error updating dependencies:", error);
+      throw error;
+    }
+  }
+
   /**
    * Filter tasks by status
    */
@@ -0,0 +1,238 @@
+import { templateService } from "./templateService";
+import { templateCategoryService } from "./templateCategoryService";
+import {
+  TEMPLATE_FORMAT_VERSION,
+  createTemplateExport,
+  hashTemplate,
+  isSameTemplate,
+  parseTemplateExport,
+  parseTemplateMarkdown,
+  templateToMarkdown,
+} from "../utils/templateExportUtils";
+import {
+  Template,
+  TemplateCategory,
+  TemplateExportCategory,
+  TemplateImportResult,
+} from "../types/template";
+
+export type TemplateExportFormat = "json" | "markdown";
+
+/**
+ * Template Export Service - Exports templates and categories as files and
+ * imports them again without creating duplicates
+ */
+export class TemplateExportService {
+  private static instance: TemplateExportService;
+
+  private constructor() {
+    // Private constructor for singleton pattern
+  }
+
+  /**
+   * Get singleton instance of TemplateExportService
+   */
+  public static getInstance(): TemplateExportService {
+    if (!TemplateExportService.instance) {
+      TemplateExportService.instance = new TemplateExportService();
+    }
+    return TemplateExportService.instance;
+  }
+
+  /**
+   * Export templates, all of them by default, as versioned JSON
+   */
+  async exportTemplates(templateIds?: string[]): Promise<string> {
+    const [templates, categories] = await Promise.all([
+      templateService.getTemplates(),
+      templateCategoryService.getTemplateCategories(),
+    ]);
+    const selected = templateIds
+      ? templates.filter((template) => templateIds.includes(template.id))
+      : templates;
+
+    return JSON.stringify(createTemplateExport(selected, categories), null, 2);
+  }
+
+  /**
+   * Export one template as Markdown
+   */
+  async exportTemplateMarkdown(templateId: string): Promise<string> {
+    const template = await templateService.getTemplate(templateId);
+    const categories = await templateCategoryService.getTemplateCategories();
+    const category = categories.find(
+      (entry) => entry.id === template.categoryId,
+    );
+
+    return templateToMarkdown(template, category?.name);
+  }
+
+  /**
+   * Import a JSON export or a Markdown template. Templates identical to
+   * an existing one (same hash, then compared in full) are skipped; categories are matched by
+   * name and created when missing.
+   */
+  async importTemplates(
+    text: string,
+    format: TemplateExportFormat = text.trimStart().startsWith("---")
+      ? "markdown"
+      : "json",
+  ): Promise<TemplateImportResult> {
+    const { categories, templates, errors } =
+      format === "markdown"
+        ? parseTemplateMarkdown(text)
+        : parseTemplateExport(text);
+
+    const result: TemplateImportResult = {
+      imported: [],
+      categories: [],
+      duplicates: [],
+      errors: [...errors],
+    };
+    if (templates.length === 0) return result;
+
+    const [existingTemplates, existingCategories] = await Promise.all([
+      templateService.getTemplates(),
+      templateCategoryService.getTemplateCategories(),
+    ]);
+    const hashes = new Map<string, Template[]>();
+    const addKnown = (template: Template) => {
+      const hash = hashTemplate(template);
+      hashes.set(hash, [...(hashes.get(hash) || []), template]);
+    };
+    existingTemplates.forEach(addKnown);
+    const categoryIds = new Map<string, Promise<TemplateCategory>>();
+
+    const resolveCategory = (category: TemplateExportCategory) => {
+      const existing = existingCategories.find(
+        (entry) => entry.name.toLowerCase() === category.name.toLowerCase(),
+      );
+      if (existing) return Promise.resolve(existing);
+
+      if (!categoryIds.has(category.key)) {
+        const created = templateCategoryService
+          .createTemplateCategory({
+            name: category.name,
+            description: category.description,
+            color: category.color,
+            icon: category.icon,
+            order: category.order,
+          })
+          .then((newCategory) => {
+            result.categories.push(newCategory);
+            return newCategory;
+          });
+        categoryIds.set(category.key, created);
+      }
+      return categoryIds.get(category.key) as Promise<TemplateCategory>;
+    };
+
+    for (const { index, item } of templates) {
+      const existing = hashes
+        .get(item.hash)
+        ?.find((template) => isSameTemplate(template, item));
+      if (existing) {
+        result.duplicates.push({
+          index,
+          name: item.name,
+          existingId: existing.id,
+        });
+        continue;
+      }
+
+      try {
+        const category = categories.find(
+          (entry) => entry.key === item.categoryKey,
+        );
+        const categoryId = category
+          ? (await resolveCategory(category)).id
+          : null;
+
+        const template = await templateService.createTemplate({
+          name: item.name,
+          description: item.description,
+          content: item.content,
+          categoryId,
+          tags: item.tags,
+          isPublic: item.isPublic,
+          variables: item.variables,
+          project: item.project,
+          metadata: {
+            source: item.metadata.source || "import",
+            version: TEMPLATE_FORMAT_VERSION,
+          },
+        });
+        addKnown(template);
+        result.imported.push(template);
+      } catch (error) {
+        result.errors.push({
+          index,
+          name: item.name,
+          errors: [
+            error instanceof Error
+              ? error.message
+              : "Failed to import template",
+          ],
+        });
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Import several files, e.g. a folder of Markdown templates. Errors of
+   * Markdown files are reported with the file's position.
+   */
+  async importFiles(
+    files: { name: string; text: string }[],
+  ): Promise<TemplateImportResult> {
+    const result: TemplateImportResult = {
+      imported: [],
+      categories: [],
+      duplicates: [],
+      errors: [],
+    };
+
+    for (const [index, file] of files.entries()) {
+      const format: TemplateExportFormat = /\.(md|markdown)$/i.test(file.name)
+        ? "markdown"
+        : "json";
+
+      try {
+        const fileResult = await this.importTemplates(file.text, format);
+        const position = (itemIndex: number) =>
+          format === "markdown" ? index : itemIndex;
+
+        result.imported.push(...fileResult.imported);
+        result.categories.push(...fileResult.categories);
+        result.duplicates.push(
+          ...fileResult.duplicates.map((duplicate) => ({
+            ...duplicate,
+            index: position(duplicate.index),
+          })),
+        );
+        result.errors.push(
+          ...fileResult.errors.map((error) => ({
+            ...error,
+            index: position(error.index),
+            name: error.name || file.name,
+          })),
+        );
+      } catch (error) {
+        result.errors.push({
+          index,
+          name: file.name,
+          errors: [
+            error instanceof Error ? error.message : "Failed to read file",
+          ],
+        });
+      }
+    }
+
+    return result;
+  }
+}
+
+// Singleton instance
+export const templateExportService = TemplateExportService.getInstance();
@@ -9,6 +9,7 @@ import {
   TemplateCategory,
   CreateTemplateCategoryDto,
   UpdateTemplateCategoryDto,
+  TemplateApplicationResult,
 } from "../types/template";
 import { ApiResponse } from "../types/api";
 import { templateApi } from "../api/templateApi";
@@ -227,12 +228,11 @@ export class TemplateService {
   async applyTemplate(
     templateId: string,
     variables?: Record<string, string>,
-  ): Promise<string> {
+    options?: Parameters<typeof templateApi.applyTemplate>[2],
+  ): Promise<TemplateApplicationResult> {
     try {
-      const response: ApiResponse<string> = await templateApi.applyTemplate(
-        templateId,
-        variables,
-      );
+      const response: ApiResponse<TemplateApplicationResult> =
+        await templateApi.applyTemplate(templateId, variables, options);
 
       if (response.success && response.data) {
         return response.data;
@@ -5,6 +5,7 @@ import { devtools } from "zustand/middleware";
 import { CalendarState } from "../types/store";
 import { CalendarService } from "../services/calendarService";
 import { CalendarSyncService } from "../services/calendarSyncService";
+import { calendarFeedService } from "../services/calendarFeedService";
 import {
   CalendarEventType,
   CalendarType,
@@ -58,6 +59,9 @@ export const useCalendarStore = create<CalendarState>()(
           autoSync: false,
           syncFrequency: "manual",
         },
+        calendarFeeds: [],
+        caldavAccount: null,
+        caldavConnected: false,
         loading: false,
         error: null,
 
@@ -90,12 +94,12 @@ export const useCalendarStore = create<CalendarState>()(
             set({ loading: true, error: null });
             const updatedEvent = await CalendarService.updateEvent(
               eventId,
-              updates
+              updates,
             );
             if (updatedEvent) {
               set((state) => ({
                 events: state.events.map((event) =>
-                  event.id === eventId ? updatedEvent : event
+                  event.id === eventId ? updatedEvent : event,
                 ),
                 loading: false,
               }));
@@ -215,8 +219,15 @@ export const useCalendarStore = create<CalendarState>()(
             const result = await CalendarSyncService.syncCalendars(calendarIds);
 
             if (result.success) {
+              const replaced = new Set([
+                ...result.syncedEvents.map((event) => event.id),
+                ...result.deletedEventIds,
+              ]);
               set((state) => ({
-                events: [...state.events, ...result.syncedEvents],
+                events: [
+                  ...state.events.filter((event) => !replaced.has(event.id)),
+                  ...result.syncedEvents,
+                ],
                 calendarSyncState: {
                   ...state.calendarSyncState,
                   status: "completed",
@@ -264,6 +275,57 @@ export const useCalendarStore = create<CalendarState>()(
           };
         },
 
+        /**
+         * Connect a CalDAV account and list its calendars. The account is
+         * only kept when the server accepts it.
+         */
+        connectCalDAV: async (account) => {
+          try {
+            set({ loading: true, error: null });
+            CalendarSyncService.configureCalDAV(account);
+            const calendars = await CalendarSyncService.getAvailableCalendars();
+
+            set((state) => ({
+              caldavAccount: account,
+              caldavConnected: true,
+              calendarSyncState: {
+                ...state.calendarSyncState,
+                availableCalendars: calendars,
+              },
+              loading: false,
+            }));
+            return calendars;
+          } catch (err) {
+            const { caldavAccount, caldavConnected } = get();
+            CalendarSyncService.configureCalDAV(
+              caldavConnected ? caldavAccount : null,
+            );
+            set({
+              loading: false,
+              error:
+                err instanceof Error
+                  ? err.message
+                  : "Failed to connect CalDAV account",
+            });
+            throw err;
+          }
+        },
+
+        /**
+         * Disconnect the CalDAV account
+         */
+        disconnectCalDAV: () => {
+          CalendarSyncService.configureCalDAV(null);
+          set((state) => ({
+            caldavAccount: null,
+            caldavConnected: false,
+            calendarSyncState: {
+              ...state.calendarSyncState,
+              availableCalendars: [],
+            },
+          }));
+        },
+
         /**
          * Link task to calendar event
          */
@@ -272,7 +334,7 @@ export const useCalendarStore = create<CalendarState>()(
             set({ loading: true, error: null });
             const success = await CalendarService.linkTaskToEvent(
               taskId,
-              eventId
+              eventId,
             );
 
             if (success) {
@@ -301,6 +363,42 @@ export const useCalendarStore = create<CalendarState>()(
           }
         },
 
+        /**
+         * Create a subscribable ICS feed for a project, label or filter
+         */
+        createCalendarFeed: (scope) => {
+          const feed = calendarFeedService.createFeed(scope);
+          set((state) => ({
+            calendarFeeds: [...state.calendarFeeds, feed],
+          }));
+          return feed;
+        },
+
+        /**
+         * Revoke a feed so its URL stops serving data
+         */
+        revokeCalendarFeed: (feedId) => {
+          const revoked = get().calendarFeeds.find(
+            (feed) => feed.id === feedId,
+          );
+          set((state) => ({
+            calendarFeeds: state.calendarFeeds.map((feed) =>
+              feed.id === feedId ? { ...feed, revokedAt: new Date() } : feed,
+            ),
+          }));
+
+          if (revoked) {
+            calendarFeedService.unpublishFeed(revoked).catch((err) =>
+              set({
+                error:
+                  err instanceof Error
+                    ? err.message
+                    : "Failed to revoke calendar feed",
+              }),
+            );
+          }
+        },
+
         /**
          * Initialize with sample data
          */
@@ -325,7 +423,17 @@ export const useCalendarStore = create<CalendarState>()(
       {
         name: "todone-calendar-storage",
         storage: createJSONStorage(() => localStorage),
-      }
-    )
-  )
+        // Only the CalDAV server and user are saved. The password or token
+        // is entered again after a reload.
+        partialize: ({ caldavAccount, caldavConnected, ...state }) => ({
+          ...state,
+          caldavAccount: caldavAccount && {
+            serverUrl: caldavAccount.serverUrl,
+            username: caldavAccount.username,
+            defaultCalendarUrl: caldavAccount.defaultCalendarUrl,
+          },
+        }),
+      },
+    ),
+  ),
 );
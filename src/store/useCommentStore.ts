@@ -3,6 +3,7 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { devtools } from "zustand/middleware";
 import { CommentState, Comment, CommentNotification } from "../types/store";
+import { realtimeService } from "../services/realtimeService";
 
 // Helper function to create localStorage
 const createJSONStorage = (getStorage: () => Storage) => ({
@@ -329,3 +330,7 @@ export const useCommentStore = create<CommentState>()(
     )
   )
 );
+
+realtimeService.onCommentNotification((notification) =>
+  useCommentStore.getState().addNotification(notification),
+);
@@ -0,0 +1,19 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { HistoryState } from "../types/history";
+
+// Commands hold references to live records and the toasts hold callbacks,
+// so the history is kept in memory only
+export const useHistoryStore = create<HistoryState>()(
+  devtools((set) => ({
+    past: [],
+    future: [],
+    toasts: [],
+
+    dismissToast: (id: string) => {
+      set((state) => ({
+        toasts: state.toasts.filter((toast) => toast.id !== id),
+      }));
+    },
+  })),
+);
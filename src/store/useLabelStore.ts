@@ -3,6 +3,8 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { devtools } from "zustand/middleware";
 import { LabelState, Label } from "../types/store";
+import { historyService } from "../services/historyService";
+import labelService from "../services/labelService";
 
 // Helper function to create localStorage
 const createJSONStorage = (getStorage: () => Storage) => ({
@@ -138,3 +140,18 @@ export const useLabelStore = create<LabelState>()(
     )
   )
 );
+
+historyService.trackStore({
+  key: "labels",
+  store: useLabelStore,
+  entityKey: "labels",
+  actions: {
+    addLabel: { label: "Add label" },
+    updateLabel: { label: "Edit label" },
+    deleteLabel: { label: "Delete label", toast: true },
+  },
+});
+
+historyService.registerSync("labels", (changes) =>
+  labelService.syncHistoryChanges(changes),
+);
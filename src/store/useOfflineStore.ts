@@ -10,6 +10,7 @@ import {
   OfflineQueuePriority,
   OfflineOperationResult,
   OfflineBatchResult,
+  SyncConflict,
 } from "../types/offlineTypes";
 
 // Helper function to create localStorage
@@ -107,6 +108,9 @@ export const useOfflineStore = create<OfflineState>()(
         // Settings state
         settings: DEFAULT_SETTINGS,
 
+        // Conflicts inbox
+        conflicts: [],
+
         // Error state
         error: null,
 
@@ -744,6 +748,23 @@ export const useOfflineStore = create<OfflineState>()(
           });
         },
 
+        // Add a conflict to the inbox, replacing any earlier one for the task
+        addConflict: (conflict: SyncConflict) => {
+          set((state) => ({
+            conflicts: [
+              ...state.conflicts.filter((c) => c.taskId !== conflict.taskId),
+              conflict,
+            ],
+          }));
+        },
+
+        // Remove a conflict from the inbox once it has been resolved
+        removeConflict: (conflictId: string) => {
+          set((state) => ({
+            conflicts: state.conflicts.filter((c) => c.id !== conflictId),
+          }));
+        },
+
         // Pause sync process
         pauseSync: () => {
           set((state) => ({
@@ -882,6 +903,7 @@ export const useOfflineStore = create<OfflineState>()(
               },
             },
             settings: DEFAULT_SETTINGS,
+            conflicts: [],
             error: null,
             isProcessing: false,
             pendingChanges: 0,
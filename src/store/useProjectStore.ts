@@ -3,6 +3,9 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { devtools } from "zustand/middleware";
 import { ProjectState, Project } from "../types/store";
+import { historyService } from "../services/historyService";
+import { projectService } from "../services/projectService";
+import { realtimeService } from "../services/realtimeService";
 
 // Helper function to create localStorage
 const createJSONStorage = (getStorage: () => Storage) => ({
@@ -152,3 +155,33 @@ export const useProjectStore = create<ProjectState>()(
     ),
   ),
 );
+
+historyService.trackStore({
+  key: "projects",
+  store: useProjectStore,
+  entityKey: "projects",
+  actions: {
+    addProject: { label: "Add project" },
+    updateProject: { label: "Edit project" },
+    deleteProject: { label: "Delete project", toast: true },
+    addTaskToProject: { label: "Add task to project" },
+    removeTaskFromProject: { label: "Remove task from project" },
+  },
+});
+
+historyService.registerSync("projects", (changes) =>
+  projectService.syncHistoryChanges(changes),
+);
+
+realtimeService.shareStore({
+  entityType: "project",
+  store: useProjectStore,
+  entityKey: "projects",
+  actions: [
+    "addProject",
+    "updateProject",
+    "deleteProject",
+    "addTaskToProject",
+    "removeTaskFromProject",
+  ],
+});
@@ -0,0 +1,13 @@
+import { create } from "zustand";
+import { devtools } from "zustand/middleware";
+import { RealtimeState } from "../types/realtime";
+
+// Presence and typing only mean something while connected, so they are
+// kept in memory only. The realtime service writes this store.
+export const useRealtimeStore = create<RealtimeState>()(
+  devtools(() => ({
+    status: "disconnected",
+    presence: [],
+    typing: [],
+  })),
+);
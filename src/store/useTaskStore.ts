@@ -3,6 +3,9 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { devtools } from "zustand/middleware";
 import { TaskState, Task } from "../types/store";
+import { historyService } from "../services/historyService";
+import { realtimeService } from "../services/realtimeService";
+import { getCompletionBlocker } from "../utils/dependencyUtils";
 
 // Helper function to create localStorage
 const createJSONStorage = (getStorage: () => Storage) => ({
@@ -33,6 +36,7 @@ export const useTaskStore = create<TaskState>()(
         taskError: null,
         currentPage: 1,
         selectedTaskIds: [],
+        enforceDependencies: false,
 
         // CRUD Operations
         addTask: (taskData: Omit<Task, "id" | "createdAt" | "updatedAt">) => {
@@ -49,9 +53,17 @@ export const useTaskStore = create<TaskState>()(
           get().applyFilters();
         },
 
+        // Keeps the ids of tasks that were already created elsewhere
+        addTasks: (newTasks: Task[]) => {
+          set((state) => ({
+            tasks: [...state.tasks, ...newTasks],
+          }));
+          get().applyFilters();
+        },
+
         updateTask: (
           id: string,
-          updates: Partial<Omit<Task, "id" | "createdAt">>
+          updates: Partial<Omit<Task, "id" | "createdAt">>,
         ) => {
           set((state) => ({
             tasks: state.tasks.map((task) =>
@@ -61,7 +73,25 @@ export const useTaskStore = create<TaskState>()(
                     ...updates,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
+            ),
+          }));
+          get().applyFilters();
+        },
+
+        // One update for several tasks, so a bulk edit is one history step
+        bulkUpdateTasks: (
+          updates: Record<string, Partial<Omit<Task, "id" | "createdAt">>>,
+        ) => {
+          set((state) => ({
+            tasks: state.tasks.map((task) =>
+              updates[task.id]
+                ? {
+                    ...task,
+                    ...updates[task.id],
+                    updatedAt: new Date(),
+                  }
+                : task,
             ),
           }));
           get().applyFilters();
@@ -75,7 +105,18 @@ export const useTaskStore = create<TaskState>()(
         },
 
         toggleTaskCompletion: (id: string) => {
+          const { tasks, enforceDependencies } = get();
+          const current = tasks.find((task) => task.id === id);
+          if (current && !current.completed && enforceDependencies) {
+            const blocker = getCompletionBlocker(current, tasks);
+            if (blocker) {
+              set({ taskError: blocker.message });
+              return;
+            }
+          }
+
           set((state) => ({
+            taskError: null,
             tasks: state.tasks.map((task) =>
               task.id === id
                 ? {
@@ -83,7 +124,7 @@ export const useTaskStore = create<TaskState>()(
                     completed: !task.completed,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -97,7 +138,7 @@ export const useTaskStore = create<TaskState>()(
 
         setSort: (
           sortBy: TaskState["sortBy"],
-          sortDirection: TaskState["sortDirection"]
+          sortDirection: TaskState["sortDirection"],
         ) => {
           set({ sortBy, sortDirection });
           get().applyFilters();
@@ -110,14 +151,14 @@ export const useTaskStore = create<TaskState>()(
           // Apply status filter
           if (currentFilter.status) {
             filtered = filtered.filter(
-              (task) => task.status === currentFilter.status
+              (task) => task.status === currentFilter.status,
             );
           }
 
           // Apply priority filter
           if (currentFilter.priority) {
             filtered = filtered.filter(
-              (task) => task.priority === currentFilter.priority
+              (task) => task.priority === currentFilter.priority,
             );
           }
 
@@ -127,7 +168,7 @@ export const useTaskStore = create<TaskState>()(
             filtered = filtered.filter(
               (task) =>
                 task.title.toLowerCase().includes(query) ||
-                task.description?.toLowerCase().includes(query)
+                task.description?.toLowerCase().includes(query),
             );
           }
 
@@ -228,6 +269,11 @@ export const useTaskStore = create<TaskState>()(
           set({ selectedTaskIds: taskIds });
         },
 
+        // Block completing tasks whose dependencies are still open
+        setEnforceDependencies: (enforce: boolean) => {
+          set({ enforceDependencies: enforce });
+        },
+
         // Bulk operations
         bulkDeleteTasks: (taskIds: string[]) => {
           set((state) => ({
@@ -239,14 +285,14 @@ export const useTaskStore = create<TaskState>()(
         // Sub-task specific operations
         getSubTasks: (parentTaskId: string): Task[] => {
           return get().tasks.filter(
-            (task) => task.parentTaskId === parentTaskId
+            (task) => task.parentTaskId === parentTaskId,
           );
         },
 
         getTaskHierarchy: (parentTaskId: string): Task[] => {
           const buildHierarchy = (taskId: string): Task[] => {
             const children = get().tasks.filter(
-              (task) => task.parentTaskId === taskId
+              (task) => task.parentTaskId === taskId,
             );
             return children.map((child) => ({
               ...child,
@@ -262,7 +308,7 @@ export const useTaskStore = create<TaskState>()(
           if (subTasks.length === 0) return 0;
 
           const completedCount = subTasks.filter(
-            (task) => task.completed
+            (task) => task.completed,
           ).length;
           return Math.round((completedCount / subTasks.length) * 100);
         },
@@ -277,7 +323,7 @@ export const useTaskStore = create<TaskState>()(
                     status,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -293,7 +339,7 @@ export const useTaskStore = create<TaskState>()(
                     priority,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -303,14 +349,14 @@ export const useTaskStore = create<TaskState>()(
         reorderTask: (
           taskId: string,
           targetTaskId: string,
-          position: "before" | "after" = "after"
+          position: "before" | "after" = "after",
         ) => {
           set((state) => {
             const taskIndex = state.tasks.findIndex(
-              (task) => task.id === taskId
+              (task) => task.id === taskId,
             );
             const targetIndex = state.tasks.findIndex(
-              (task) => task.id === targetTaskId
+              (task) => task.id === targetTaskId,
             );
 
             if (taskIndex === -1 || targetIndex === -1)
@@ -341,7 +387,7 @@ export const useTaskStore = create<TaskState>()(
                       : targetId,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -356,7 +402,7 @@ export const useTaskStore = create<TaskState>()(
                     projectId,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -371,7 +417,7 @@ export const useTaskStore = create<TaskState>()(
                     columnId,
                     updatedAt: new Date(),
                   }
-                : task
+                : task,
             ),
           }));
           get().applyFilters();
@@ -380,7 +426,63 @@ export const useTaskStore = create<TaskState>()(
       {
         name: "todone-tasks-storage",
         storage: createJSONStorage(() => localStorage),
-      }
-    )
-  )
+      },
+    ),
+  ),
 );
+
+historyService.trackStore({
+  key: "tasks",
+  store: useTaskStore,
+  entityKey: "tasks",
+  actions: {
+    addTask: { label: "Add task" },
+    addTasks: { label: "Add tasks" },
+    updateTask: { label: "Edit task" },
+    bulkUpdateTasks: {
+      label: (updates: Record<string, unknown>) =>
+        `Edit ${Object.keys(updates).length} tasks`,
+    },
+    deleteTask: { label: "Delete task", toast: true },
+    bulkDeleteTasks: {
+      label: (taskIds: string[]) => `Delete ${taskIds.length} tasks`,
+      toast: true,
+    },
+    toggleTaskCompletion: {
+      label: (id: string) =>
+        useTaskStore.getState().tasks.find((task) => task.id === id)?.completed
+          ? "Reopen task"
+          : "Complete task",
+      toast: true,
+    },
+    updateTaskStatus: { label: "Change status" },
+    updateTaskPriority: { label: "Change priority" },
+    reorderTask: { label: "Reorder task" },
+    moveTask: { label: "Move task", toast: true },
+    moveTaskToProject: { label: "Move task", toast: true },
+    moveTaskToColumn: { label: "Move task", toast: true },
+  },
+  onRestore: () => useTaskStore.getState().applyFilters(),
+});
+
+realtimeService.shareStore({
+  entityType: "task",
+  store: useTaskStore,
+  entityKey: "tasks",
+  actions: [
+    "addTask",
+    "addTasks",
+    "updateTask",
+    "bulkUpdateTasks",
+    "deleteTask",
+    "bulkDeleteTasks",
+    "toggleTaskCompletion",
+    "updateTaskStatus",
+    "updateTaskPriority",
+    "reorderTask",
+    "moveTask",
+    "moveTaskToProject",
+    "moveTaskToColumn",
+  ],
+  onApply: () => useTaskStore.getState().applyFilters(),
+});
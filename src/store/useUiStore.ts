@@ -3,6 +3,7 @@ import { create } from "zustand";
 import { persist } from "zustand/middleware";
 import { devtools } from "zustand/middleware";
 import { UiState } from "../types/store";
+import { BoardLayout } from "../types/ui";
 
 // Helper function to create localStorage
 const createJSONStorage = (getStorage: () => Storage) => ({
@@ -162,6 +163,11 @@ export const useUiStore = create<UiState>()(
           viewMode: "week",
           showWeekends: true,
         },
+        timelineViewConfig: {
+          zoom: "week",
+          showCriticalPath: true,
+        },
+        boardLayouts: {},
 
         viewSorting: {
           inbox: {
@@ -285,6 +291,20 @@ export const useUiStore = create<UiState>()(
         }) => {
           set({ calendarViewConfig: config });
         },
+
+        setTimelineViewConfig: (config: {
+          zoom: "day" | "week" | "month" | "quarter";
+          showCriticalPath: boolean;
+        }) => {
+          set({ timelineViewConfig: config });
+        },
+
+        // Board layouts are saved per project; "default" is used elsewhere
+        setBoardLayout: (projectKey: string, layout: BoardLayout) => {
+          set((state) => ({
+            boardLayouts: { ...state.boardLayouts, [projectKey]: layout },
+          }));
+        },
       }),
       {
         name: "todone-ui-storage",
@@ -0,0 +1,89 @@
+/**
+ * Bulk capture types
+ * Lines, CSV mappings and editable drafts for adding many tasks at once
+ * from pasted text
+ */
+
+import { PriorityLevel } from "./enums";
+import { RecurringPatternConfig } from "./task";
+
+/**
+ * One item of a pasted bullet list, checklist or outline
+ */
+export interface BulkCaptureLine {
+  /**
+   * Text without the bullet or checkbox
+   */
+  text: string;
+  /**
+   * Nesting level, 0 for top-level items
+   */
+  depth: number;
+  /**
+   * Index of the enclosing item, if any
+   */
+  parentIndex?: number;
+  /**
+   * `- [x]` items
+   */
+  completed: boolean;
+  /**
+   * 1-based line number in the pasted text
+   */
+  lineNumber: number;
+}
+
+export type BulkCaptureFormat = "outline" | "csv";
+
+export type BulkCaptureField =
+  | "title"
+  | "description"
+  | "dueDate"
+  | "priority"
+  | "project"
+  | "labels"
+  | "assignee"
+  | "duration"
+  | "ignore";
+
+/**
+ * Which task field each CSV column fills, by column index
+ */
+export type BulkCaptureMapping = BulkCaptureField[];
+
+/**
+ * A task as shown in the preview table, before it is created
+ */
+export interface BulkCaptureDraft {
+  /**
+   * Client-side id; also used as parentTaskId of subtasks
+   */
+  key: string;
+  parentKey?: string;
+  depth: number;
+  title: string;
+  description?: string;
+  dueDate?: Date;
+  dueTime?: string;
+  duration?: number;
+  priority?: PriorityLevel;
+  project?: string;
+  labels: string[];
+  assignee?: string;
+  recurrence?: RecurringPatternConfig;
+  completed: boolean;
+  /**
+   * The line or row the draft came from
+   */
+  source: string;
+}
+
+/**
+ * Names of existing projects, labels and users that drafts refer to
+ */
+export interface BulkCaptureContext {
+  projects: { id: string; name: string }[];
+  labels: { id: string; name: string }[];
+  users: { id: string; name: string }[];
+  defaultProjectId?: string;
+}
@@ -1,3 +1,6 @@
+import { Filter } from "./common";
+import { RecurringPatternConfig, Task } from "./task";
+
 export interface CalendarEventType {
   id: string;
   title: string;
@@ -14,12 +17,17 @@ export interface CalendarEventType {
   createdAt?: string | Date;
   updatedAt?: string | Date;
   taskId?: string;
+  allDay?: boolean;
+  /**
+   * IANA timezone a timed event's start and end are written in (TZID)
+   */
+  timeZone?: string;
 }
 
 export interface CalendarType {
   id: string;
   name: string;
-  type: "google" | "outlook" | "apple" | "local";
+  type: "google" | "outlook" | "apple" | "local" | "caldav";
   color?: string;
   isPrimary?: boolean;
   isSynced?: boolean;
@@ -59,3 +67,196 @@ export interface CalendarConfig {
   timeZone: string;
   firstDayOfWeek: 0 | 1 | 2 | 3 | 4 | 5 | 6;
 }
+
+/**
+ * A single iCalendar content line, e.g. `DTSTART;VALUE=DATE:20240301`
+ */
+export interface ICalProperty {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+/**
+ * An iCalendar component (VCALENDAR, VEVENT, VTODO, ...) with its
+ * properties and nested components
+ */
+export interface ICalComponent {
+  type: string;
+  properties: ICalProperty[];
+  components: ICalComponent[];
+}
+
+export type RRuleFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+
+export type RRuleWeekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+/**
+ * Parsed RFC 5545 recurrence rule
+ */
+export interface RRule {
+  freq: RRuleFrequency;
+  interval: number;
+  count?: number;
+  until?: Date;
+  byDay?: { weekday: RRuleWeekday; ordinal?: number }[];
+  byMonthDay?: number[];
+  byMonth?: number[];
+  bySetPos?: number[];
+  wkst?: RRuleWeekday;
+}
+
+/**
+ * A complete recurrence: the first occurrence, the rule, and the
+ * RDATE/EXDATE exceptions
+ */
+export interface RecurrenceSet {
+  dtstart: Date;
+  rrule?: RRule | null;
+  rdates?: Date[];
+  exdates?: Date[];
+  /**
+   * IANA timezone whose wall-clock time occurrences keep across DST
+   * changes (defaults to the local timezone)
+   */
+  timeZone?: string;
+}
+
+export interface RRuleExpandOptions {
+  /**
+   * Only return occurrences at or after this date
+   */
+  after?: Date;
+  /**
+   * Only return occurrences at or before this date
+   */
+  before?: Date;
+  /**
+   * Maximum number of occurrences to return (defaults to 1000)
+   */
+  limit?: number;
+}
+
+export interface ICalExportOptions {
+  /**
+   * Emit tasks as VTODO (default) or as VEVENT entries
+   */
+  component?: "VTODO" | "VEVENT";
+  calendarName?: string;
+  /**
+   * Label lookup used to write CATEGORIES
+   */
+  labels?: { id: string; name: string }[];
+  /**
+   * Timestamp written to DTSTAMP (defaults to now)
+   */
+  now?: Date;
+}
+
+export interface ICalImportedTask {
+  uid: string;
+  task: Partial<Task>;
+  recurringConfig: RecurringPatternConfig | null;
+}
+
+export interface ICalImportResult {
+  tasks: ICalImportedTask[];
+  errors: string[];
+}
+
+export type CalendarFeedScopeType = "project" | "label" | "filter";
+
+/**
+ * What a subscribable feed contains: the tasks of one project, label or
+ * saved filter
+ */
+export interface CalendarFeedScope {
+  type: CalendarFeedScopeType;
+  id: string;
+  name: string;
+}
+
+export interface CalendarFeed {
+  id: string;
+  /**
+   * Unguessable secret that forms the feed URL
+   */
+  token: string;
+  scope: CalendarFeedScope;
+  url: string;
+  createdAt: Date;
+  revokedAt?: Date | null;
+}
+
+/**
+ * Data a feed is generated from
+ */
+export interface CalendarFeedData {
+  tasks: Task[];
+  projects: { id: string; name: string; parentProjectId?: string | null }[];
+  labels: { id: string; name: string }[];
+  filters: Filter[];
+}
+
+/**
+ * Connection settings for a CalDAV account
+ */
+export interface CalDAVConfig {
+  /**
+   * Server root or principal URL; calendars are discovered from here
+   */
+  serverUrl: string;
+  username?: string;
+  password?: string;
+  /**
+   * Bearer token, used instead of username and password when set
+   */
+  token?: string;
+  /**
+   * Calendar that tasks are written to (defaults to the first calendar)
+   */
+  defaultCalendarUrl?: string;
+  /**
+   * Fetch implementation, e.g. a local CalDAV stand-in in tests
+   */
+  fetch?: typeof fetch;
+}
+
+/**
+ * CalDAV account settings kept between sessions
+ */
+export type CalDAVAccount = Omit<CalDAVConfig, "fetch">;
+
+export interface CalDAVCalendar {
+  url: string;
+  displayName: string;
+  color?: string;
+  ctag?: string;
+  syncToken?: string;
+  /**
+   * Supported component types, e.g. VEVENT and VTODO
+   */
+  components: string[];
+}
+
+/**
+ * A calendar object resource: one .ics file on the server
+ */
+export interface CalDAVResource {
+  href: string;
+  etag: string;
+  data?: string;
+}
+
+export interface CalDAVSyncResult {
+  syncToken: string;
+  changed: CalDAVResource[];
+  /**
+   * Hrefs removed since the previous sync token
+   */
+  deleted: string[];
+  /**
+   * True when the token was missing or expired and everything was refetched
+   */
+  fullSync: boolean;
+}
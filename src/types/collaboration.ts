@@ -1,5 +1,6 @@
 // @ts-nocheck
 import { User } from "./user";
+import { CommentNotification } from "./store";
 
 /**
  * Collaboration Team Interface
@@ -272,7 +273,8 @@ export interface TeamActivityStatistics {
 }
 
 /**
- * Collaboration Event Types
+ * Collaboration Event Types, the message types of the realtime wire
+ * protocol
  */
 export type CollaborationEventType =
   | "team_created"
@@ -282,15 +284,87 @@ export type CollaborationEventType =
   | "member_removed"
   | "member_role_updated"
   | "activity_created"
-  | "settings_updated";
+  | "settings_updated"
+  | "task_created"
+  | "task_updated"
+  | "task_deleted"
+  | "comment_created"
+  | "comment_updated"
+  | "comment_deleted"
+  | "project_created"
+  | "project_updated"
+  | "project_deleted"
+  | "presence_updated"
+  | "presence_left"
+  | "typing_started"
+  | "typing_stopped"
+  | "comment_notification";
 
 /**
- * Collaboration Event Interface
+ * Collaboration Event Interface, sent as JSON over the realtime channel.
+ * Receivers drop events whose `version` they do not speak.
  */
-export interface CollaborationEvent {
+export interface CollaborationEvent<T = any> {
+  /**
+   * Wire protocol version
+   */
+  version: number;
+  id: string;
   type: CollaborationEventType;
   timestamp: Date;
-  data: any;
+  data: T;
   teamId?: string;
   userId?: string;
+
+  /**
+   * Connection that sent the event, so senders can ignore their own echo
+   * and peers can tell several tabs of one user apart
+   */
+  clientId?: string;
 }
+
+/**
+ * Records kept in sync over the realtime channel
+ */
+export type RealtimeEntityType = "task" | "comment" | "project";
+
+/**
+ * Payload of the `<entity>_created`, `_updated` and `_deleted` events.
+ * `entity` is missing for deletions.
+ */
+export interface RealtimeEntityChange<T = any> {
+  id: string;
+  entity?: T;
+}
+
+/**
+ * What a user is looking at; both missing means nothing in particular
+ */
+export interface PresenceView {
+  projectId?: string;
+  taskId?: string;
+}
+
+/**
+ * Payload of `presence_updated`
+ */
+export interface PresencePayload {
+  userName: string;
+  view: PresenceView;
+}
+
+/**
+ * Payload of `typing_started` and `typing_stopped`
+ */
+export interface TypingPayload {
+  userName: string;
+  taskId: string;
+}
+
+/**
+ * Payload of `comment_notification`; `userId` is the recipient
+ */
+export type CommentNotificationPayload = Omit<
+  CommentNotification,
+  "id" | "createdAt"
+>;
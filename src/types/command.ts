@@ -13,3 +13,64 @@ export interface CommandPaletteState {
   filteredCommands: Command[];
   selectedIndex: number;
 }
+
+/**
+ * Scope selected by a leading prefix in the palette query:
+ * `>` commands, `#` projects, `@` labels, `/` filters
+ */
+export type CommandScope =
+  | "all"
+  | "commands"
+  | "projects"
+  | "labels"
+  | "filters";
+
+/**
+ * Inline operator such as `is:completed`, `due:tomorrow` or `in:Work`
+ */
+export interface PaletteOperator {
+  key: "is" | "due" | "in" | "label" | "p";
+  value: string;
+}
+
+export interface PaletteQuery {
+  scope: CommandScope;
+  text: string;
+  operators: PaletteOperator[];
+}
+
+export type PaletteItemKind =
+  | "command"
+  | "task"
+  | "project"
+  | "label"
+  | "filter";
+
+export interface PaletteItem {
+  id: string;
+  kind: PaletteItemKind;
+  title: string;
+  subtitle?: string;
+  data?: any;
+}
+
+/**
+ * Action that can be run on an entity picked in the palette
+ */
+export interface PaletteAction {
+  id: string;
+  name: string;
+  description?: string;
+  run: () => Promise<boolean>;
+}
+
+/**
+ * Entities the palette can search
+ */
+export interface PaletteData {
+  tasks: any[];
+  projects: { id: string; name: string; description?: string }[];
+  labels: { id: string; name: string }[];
+  filters: { id: string; name: string; description?: string }[];
+  now?: Date;
+}
@@ -315,6 +315,11 @@ export interface Filter {
    */
   criteria: Record<string, any>;
 
+  /**
+   * Filter query, e.g. `(today | overdue) & #work & p1`
+   */
+  query?: string;
+
   /**
    * Filter color
    */
@@ -356,10 +361,25 @@ export interface Comment {
   user: string;
 
   /**
-   * Comment content
+   * Comment content in Markdown-lite, with mentions as `@[Name](userId)`
    */
   content: string;
 
+  /**
+   * Comment this one replies to
+   */
+  parentCommentId?: string | null;
+
+  /**
+   * IDs of the users mentioned in the content
+   */
+  mentions?: string[];
+
+  /**
+   * User IDs that reacted, keyed by emoji
+   */
+  reactions?: Record<string, string[]>;
+
   /**
    * Attachment IDs
    */
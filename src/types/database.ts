@@ -9,8 +9,11 @@ import {
   Filter,
   Comment,
   Attachment,
+  AttachmentBlob,
+  AttachmentUploadStatus,
   SyncQueueItem,
   SyncStatus,
+  CalDAVSyncRecord,
 } from "../database/models";
 
 export {
@@ -22,8 +25,11 @@ export {
   Filter,
   Comment,
   Attachment,
+  AttachmentBlob,
+  AttachmentUploadStatus,
   SyncQueueItem,
   SyncStatus,
+  CalDAVSyncRecord,
   TodoneDatabase,
 };
 
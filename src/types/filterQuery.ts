@@ -0,0 +1,88 @@
+/**
+ * Filter query language types
+ * AST and evaluation context for saved filter queries such as
+ * `(today | overdue) & #work & p1 & !assigned to: others`
+ */
+
+import { PriorityLevel } from "./enums";
+
+/**
+ * Character range in the source query (end is exclusive)
+ */
+export interface QuerySpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * Relative or absolute date used by date terms
+ */
+export type QueryDateValue =
+  | { kind: "relative"; amount: number; unit: "d" | "w" | "m" | "y" }
+  | { kind: "absolute"; date: Date };
+
+/**
+ * Leaf predicates of the query language
+ */
+export type FilterTerm =
+  | { type: "all" }
+  | { type: "today" }
+  | { type: "tomorrow" }
+  | { type: "yesterday" }
+  | { type: "overdue" }
+  | { type: "noDate" }
+  | { type: "recurring" }
+  | { type: "noLabels" }
+  | { type: "nextDays"; days: number }
+  | { type: "priority"; priority: PriorityLevel }
+  | { type: "project"; name: string; includeSubprojects: boolean }
+  | { type: "label"; name: string }
+  | { type: "section"; name: string }
+  | {
+      type: "date";
+      field: "due" | "created";
+      comparison: "before" | "after" | "on";
+      value: QueryDateValue;
+    }
+  | { type: "assigned" }
+  | { type: "assignedTo"; who: "me" | "others" | string }
+  | { type: "search"; text: string };
+
+export type FilterQueryNode =
+  | {
+      type: "and";
+      left: FilterQueryNode;
+      right: FilterQueryNode;
+      span: QuerySpan;
+    }
+  | {
+      type: "or";
+      left: FilterQueryNode;
+      right: FilterQueryNode;
+      span: QuerySpan;
+    }
+  | { type: "not"; operand: FilterQueryNode; span: QuerySpan }
+  | { type: "term"; term: FilterTerm; span: QuerySpan };
+
+/**
+ * Lookup data the evaluator needs to resolve names in a query
+ */
+export interface FilterQueryContext {
+  now?: Date;
+  currentUserId?: string | null;
+  projects?: { id: string; name: string; parentProjectId?: string | null }[];
+  labels?: { id: string; name: string }[];
+  sections?: { id: string; name: string }[];
+  users?: { id: string; name: string }[];
+}
+
+/**
+ * Result of parsing a query; on failure the error carries the exact
+ * character range that could not be parsed
+ */
+export type FilterQueryParseResult =
+  | { success: true; ast: FilterQueryNode }
+  | {
+      success: false;
+      error: { message: string; start: number; end: number };
+    };
@@ -0,0 +1,118 @@
+/**
+ * Undo/redo history types
+ */
+import { NotificationItem } from "./ui";
+
+/**
+ * Any store record with an ID, e.g. a task, project or label
+ */
+export interface HistoryEntity {
+  id: string;
+}
+
+/**
+ * One record before and after an action. `before` is missing for records
+ * the action created and `after` for records it deleted.
+ */
+export interface HistoryEntityChange<T extends HistoryEntity = HistoryEntity> {
+  id: string;
+  before?: T;
+  after?: T;
+
+  /**
+   * Positions in the store's list, used to put restored records back
+   */
+  beforeIndex: number;
+  afterIndex: number;
+}
+
+/**
+ * Changes an action made to one store's list of records
+ */
+export interface HistoryEntityPatch<T extends HistoryEntity = HistoryEntity> {
+  changes: HistoryEntityChange<T>[];
+
+  /**
+   * Record order before and after, only set when the action reordered them
+   */
+  order?: {
+    before: string[];
+    after: string[];
+  };
+}
+
+/**
+ * An undoable action. Compound actions, such as a drag that changes both
+ * section and order, are recorded as one command.
+ */
+export interface HistoryCommand {
+  id: string;
+  label: string;
+
+  /**
+   * When the action started; offline queue items from then on belong to it
+   */
+  timestamp: Date;
+
+  /**
+   * Patches by tracked store key, e.g. "tasks" or "labels"
+   */
+  patches: Record<string, HistoryEntityPatch>;
+}
+
+/**
+ * Options for a tracked store action or group
+ */
+export interface HistoryActionOptions {
+  /**
+   * Label shown in the undo toast and menus; may depend on the arguments
+   */
+  label: string | ((...args: any[]) => string);
+
+  /**
+   * Offer an "Undo" toast after the action
+   */
+  toast?: boolean;
+}
+
+/**
+ * How a service call that changes the stores is recorded, e.g. a move
+ * with its own label and an undo toast
+ */
+export interface HistoryStepOptions {
+  label: string;
+  toast?: boolean;
+}
+
+/**
+ * A record's state before and after undo or redo. `to` is missing when the
+ * record was removed and `from` when it was recreated.
+ */
+export interface HistorySyncChange {
+  id: string;
+  from?: HistoryEntity;
+  to?: HistoryEntity;
+}
+
+/**
+ * Sends the records an undo or redo restored to the server, all at once so
+ * a bulk edit is reverted in one request
+ */
+export type HistorySyncHandler = (
+  changes: HistorySyncChange[],
+) => Promise<void>;
+
+/**
+ * History store state
+ */
+export interface HistoryState {
+  past: HistoryCommand[];
+  future: HistoryCommand[];
+
+  /**
+   * Toasts offering to undo the latest command
+   */
+  toasts: NotificationItem[];
+
+  dismissToast: (id: string) => void;
+}
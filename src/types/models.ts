@@ -782,6 +782,7 @@ export class FilterModel implements Filter {
   id: string;
   name: string;
   criteria: Record<string, any>;
+  query?: string;
   color: string;
   favorite: boolean;
   createdAt: Date;
@@ -791,6 +792,7 @@ export class FilterModel implements Filter {
     this.id = data.id || this.generateId();
     this.name = data.name || "Untitled Filter";
     this.criteria = data.criteria || {};
+    this.query = data.query || "";
     this.color = data.color || "gray-500";
     this.favorite = data.favorite || false;
     this.createdAt = data.createdAt || new Date();
@@ -835,6 +837,7 @@ export class FilterModel implements Filter {
       id: this.id,
       name: this.name,
       criteria: this.criteria,
+      query: this.query,
       color: this.color,
       favorite: this.favorite,
       createdAt: this.createdAt,
@@ -0,0 +1,170 @@
+/**
+ * Natural language task parsing types
+ * Entities, results and locale packs for the grammar-based parser behind
+ * quick add, e.g. `Review PR next Friday at 3pm for 30 min p1 #Work @review`
+ */
+
+import { PriorityLevel } from "./enums";
+import { RecurringPatternConfig } from "./task";
+
+/**
+ * Character range in the parsed text (end is exclusive)
+ */
+export interface NlpSpan {
+  start: number;
+  end: number;
+}
+
+export type NlpEntityType =
+  | "date"
+  | "time"
+  | "duration"
+  | "recurrence"
+  | "priority"
+  | "project"
+  | "label"
+  | "assignee"
+  | "section";
+
+/**
+ * Something the parser understood, with the exact text it came from
+ */
+export type NlpEntity = NlpSpan & { text: string } & (
+    | { type: "date"; value: Date; allDay: boolean }
+    | { type: "time"; value: { hours: number; minutes: number } }
+    | { type: "duration"; value: number }
+    | { type: "recurrence"; value: RecurringPatternConfig }
+    | { type: "priority"; value: PriorityLevel }
+    | { type: "project"; value: string }
+    | { type: "label"; value: string }
+    | { type: "assignee"; value: string }
+    | { type: "section"; value: string }
+  );
+
+export type NlpDurationUnit =
+  | "minute"
+  | "hour"
+  | "day"
+  | "week"
+  | "month"
+  | "year";
+
+/**
+ * Vocabulary of one language. Phrases are lowercase and may span several
+ * words ("day after tomorrow"). Lists hold alternatives; the longest match
+ * wins, so their order does not matter.
+ */
+export interface NlpLocalePack {
+  code: string;
+  name: string;
+  /**
+   * Weekday names indexed like Date.getDay() (0 = Sunday)
+   */
+  weekdays: string[][];
+  /**
+   * Month names indexed from January
+   */
+  months: string[][];
+  /**
+   * Words for days relative to today, e.g. { tomorrow: 1 }
+   */
+  relativeDays: Record<string, number>;
+  units: Record<NlpDurationUnit, string[]>;
+  /**
+   * Adverbs such as "daily" that repeat once per unit
+   */
+  unitAdverbs: Record<string, NlpDurationUnit>;
+  next: string[];
+  this: string[];
+  /**
+   * Introduces an offset: "in 2 weeks"
+   */
+  in: string[];
+  every: string[];
+  /**
+   * "every other week"
+   */
+  other: string[];
+  /**
+   * Workdays: "every weekday"
+   */
+  workdays: string[];
+  /**
+   * "end of month"; followed by a unit
+   */
+  endOf: string[];
+  /**
+   * Prepositions before a date ("on", "by") that belong to the date
+   */
+  datePrepositions: string[];
+  /**
+   * Prepositions before a time ("at")
+   */
+  timePrepositions: string[];
+  /**
+   * Introduces a duration: "for 30 min"
+   */
+  durationPrepositions: string[];
+  /**
+   * Joins list items: "monday and friday"
+   */
+  and: string[];
+  /**
+   * Fixed times of day, e.g. { noon: 12 }
+   */
+  namedTimes: Record<string, number>;
+  /**
+   * Word after a time, e.g. German "Uhr"
+   */
+  timeSuffixes: string[];
+  /**
+   * 12-hour clock markers, if the language uses them
+   */
+  meridiems: { am: string[]; pm: string[] };
+  /**
+   * Words between a day and a month: "3rd of December", "3 de diciembre"
+   */
+  dayMonthSeparators: string[];
+  /**
+   * Order of day and month in numeric dates like 3/12
+   */
+  numericDateOrder: "mdy" | "dmy";
+}
+
+export interface NlpParseOptions {
+  locale?: string;
+  now?: Date;
+  /**
+   * Ranges the user turned back into plain text; nothing overlapping them
+   * is read as an entity
+   */
+  ignore?: NlpSpan[];
+}
+
+/**
+ * Result of parsing a line of task text
+ */
+export interface NlpParseResult {
+  text: string;
+  locale: string;
+  /**
+   * The text that is left once all entities are removed
+   */
+  title: string;
+  entities: NlpEntity[];
+  dueDate?: Date;
+  /**
+   * Set when a time of day was given, as HH:mm
+   */
+  dueTime?: string;
+  /**
+   * Minutes
+   */
+  duration?: number;
+  recurrence?: RecurringPatternConfig;
+  priority?: PriorityLevel;
+  project?: string;
+  labels: string[];
+  assignees: string[];
+  section?: string;
+}
@@ -100,11 +100,63 @@ export interface OfflineStatusState {
   }[];
 }
 
+/**
+ * Task fields that are merged field-by-field when an offline edit is synced
+ */
+export type MergeableTaskField =
+  | "title"
+  | "description"
+  | "priority"
+  | "dueDate"
+  | "dueTime"
+  | "labelIds"
+  | "projectId"
+  | "sectionId"
+  | "assigneeId"
+  | "completed";
+
+export type ConflictResolutionChoice = "local" | "remote";
+
+/**
+ * A field changed both offline and on the server to different values
+ */
+export interface FieldConflict {
+  field: MergeableTaskField;
+  baseValue: any;
+  localValue: any;
+  remoteValue: any;
+}
+
+/**
+ * An offline task update that could not be merged automatically and is
+ * waiting in the conflicts inbox for the user to pick per field
+ */
+export interface SyncConflict {
+  id: string;
+  taskId: string;
+  taskTitle: string;
+  base: Record<string, any>;
+  local: Record<string, any>;
+  remote: Record<string, any>;
+  merged: Record<string, any>;
+  fields: FieldConflict[];
+  detectedAt: Date;
+}
+
+export interface ThreeWayMergeResult {
+  merged: Record<string, any>;
+  conflicts: FieldConflict[];
+}
+
 export interface OfflineState {
   status: OfflineStatusState;
   queue: OfflineQueueState;
   sync: OfflineSyncState;
   settings: OfflineSettings;
+  conflicts: SyncConflict[];
+  addConflict: (conflict: SyncConflict) => void;
+  removeConflict: (conflictId: string) => void;
+  removeQueueItem: (itemId: string) => void;
   error: Error | null;
   isProcessing: boolean;
   pendingChanges: number;
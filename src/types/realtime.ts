@@ -0,0 +1,89 @@
+/**
+ * Realtime collaboration types
+ */
+import { PresenceView, RealtimeEntityType } from "./collaboration";
+
+/**
+ * Carries encoded protocol messages between this client and the others,
+ * e.g. a WebSocket. The realtime service only talks to this interface.
+ */
+export interface RealtimeTransport {
+  connect(handlers: RealtimeTransportHandlers): void;
+  send(message: string): void;
+  close(): void;
+}
+
+export interface RealtimeTransportHandlers {
+  onOpen: () => void;
+  onMessage: (message: string) => void;
+
+  /**
+   * Called when the connection ends, including after `close()`. `code`
+   * follows WebSocket close codes.
+   */
+  onClose: (code: number, reason: string) => void;
+}
+
+/**
+ * `incompatible` means the server rejected our protocol version; the
+ * client stops reconnecting until the app is updated
+ */
+export type RealtimeConnectionStatus =
+  | "disconnected"
+  | "connecting"
+  | "connected"
+  | "incompatible";
+
+/**
+ * Another connection's user and what they are looking at
+ */
+export interface PresenceEntry {
+  clientId: string;
+  userId: string;
+  userName: string;
+  view: PresenceView;
+  lastSeen: Date;
+}
+
+/**
+ * A user typing a comment on a task
+ */
+export interface TypingEntry {
+  clientId: string;
+  userId: string;
+  userName: string;
+  taskId: string;
+  expiresAt: Date;
+}
+
+/**
+ * Store whose records are broadcast as they change and updated from
+ * changes made by others
+ */
+export interface RealtimeStoreConfig {
+  entityType: RealtimeEntityType;
+  store: {
+    getState: () => any;
+    setState: (partial: Record<string, unknown>) => void;
+  };
+  entityKey: string;
+
+  /**
+   * Store actions whose changes are broadcast, by name
+   */
+  actions: string[];
+
+  /**
+   * Called after remote changes were applied, e.g. to refilter
+   */
+  onApply?: () => void;
+}
+
+/**
+ * Realtime store state
+ */
+export interface RealtimeState {
+  status: RealtimeConnectionStatus;
+  presence: PresenceEntry[];
+  typing: TypingEntry[];
+}
@@ -1,10 +1,23 @@
 // @ts-nocheck
+/**
+ * Character range of a match in a result's text (end is exclusive)
+ */
+export interface SearchHighlight {
+  start: number;
+  end: number;
+}
+
 export interface SearchResult {
   id: string;
   title: string;
   subtitle?: string;
   type?: string;
   data?: any;
+  score?: number;
+  highlights?: {
+    title?: SearchHighlight[];
+    subtitle?: SearchHighlight[];
+  };
 }
 
 export interface SearchOptions {
@@ -31,7 +31,14 @@ export interface Task {
   createdAt: Date;
   updatedAt: Date;
   projectId?: string;
+  sectionId?: string | null;
+  attachmentIds?: string[];
+  labelIds?: string[];
+  assigneeId?: string | null;
   completed: boolean;
+  completedAt?: Date | null;
+  dependencies?: string[];
+  dependencyLags?: Record<string, number>;
 }
 
 export interface TaskState {
@@ -47,6 +54,16 @@ export interface TaskState {
   taskError: string | null;
   currentPage: number;
   selectedTaskIds: string[];
+  enforceDependencies: boolean;
+
+  // CRUD methods
+  addTasks: (tasks: Record<string, any>[]) => void;
+  updateTask: (id: string, updates: Record<string, any>) => void;
+  deleteTask: (id: string) => void;
+  bulkUpdateTasks: (updates: Record<string, Record<string, any>>) => void;
+  toggleTaskCompletion: (id: string) => void;
+  setSelectedTaskIds: (taskIds: string[]) => void;
+  setEnforceDependencies: (enforce: boolean) => void;
 
   // Drag and Drop methods
   reorderTask: (
@@ -72,6 +89,7 @@ export interface Project {
 export interface ProjectState {
   projects: Project[];
   currentProjectId: string | null;
+  setCurrentProject: (projectId: string | null) => void;
 }
 
 export interface UiState {
@@ -100,6 +118,39 @@ export interface UiState {
     viewMode: string;
     showWeekends: boolean;
   };
+  timelineViewConfig?: {
+    zoom: "day" | "week" | "month" | "quarter";
+    showCriticalPath: boolean;
+  };
+  setTimelineViewConfig: (
+    config: NonNullable<UiState["timelineViewConfig"]>,
+  ) => void;
+  boardLayouts?: Record<
+    string,
+    {
+      groupBy:
+        | "status"
+        | "section"
+        | "priority"
+        | "assignee"
+        | "label"
+        | "project"
+        | "custom";
+      customField?: string;
+      columnOrder: string[];
+      collapsedColumns: string[];
+      wipLimits: Record<string, number>;
+      swimlanes?: {
+        groupBy: NonNullable<UiState["boardLayouts"]>[string]["groupBy"];
+        customField?: string;
+      } | null;
+      collapsedLanes?: string[];
+    }
+  >;
+  setBoardLayout: (
+    projectKey: string,
+    layout: NonNullable<UiState["boardLayouts"]>[string],
+  ) => void;
 }
 
 export interface Filter {
@@ -126,12 +177,14 @@ export interface FilterState {
   currentFilterId: string | null;
   searchQuery: string;
   filterError: string | null;
+  setCurrentFilter: (filterId: string | null) => void;
 }
 
 export interface LabelState {
   labels: Label[];
   currentLabelId: string | null;
   labelError: string | null;
+  setCurrentLabel: (labelId: string | null) => void;
 }
 
 export interface Comment {
@@ -139,6 +192,9 @@ export interface Comment {
   taskId: string;
   user: string;
   content: string;
+  parentCommentId?: string | null;
+  mentions?: string[];
+  reactions?: Record<string, string[]>;
   attachments?: string[];
   timestamp: Date;
   likes?: number;
@@ -158,6 +214,12 @@ export interface CommentState {
   commentError: string | null;
   selectedCommentIds: string[];
   notifications: CommentNotification[];
+  addNotification: (
+    notification: Omit<CommentNotification, "id" | "createdAt">,
+  ) => void;
+  markNotificationAsRead: (id: string) => void;
+  markAllNotificationsAsRead: () => void;
+  dismissNotification: (id: string) => void;
 }
 
 export interface CommentNotification {
@@ -165,6 +227,9 @@ export interface CommentNotification {
   commentId: string;
   type: "mention" | "reply" | "like" | "dislike";
   userId: string;
+  taskId?: string;
+  actorId?: string;
+  comment?: Comment;
   read: boolean;
   createdAt: Date;
 }
@@ -175,6 +240,13 @@ export interface CalendarState {
   calendarConfig: CalendarConfig;
   calendarSyncState: CalendarSyncState;
   calendarIntegrationState: CalendarIntegrationState;
+  calendarFeeds: import("./calendarTypes").CalendarFeed[];
+  caldavAccount: import("./calendarTypes").CalDAVAccount | null;
+  /**
+   * Whether the account's credentials were entered this session. They are
+   * not persisted, so a saved account starts disconnected.
+   */
+  caldavConnected: boolean;
   loading: boolean;
   error: string | null;
 
@@ -205,10 +277,20 @@ export interface CalendarState {
     lastSynced?: Date;
     error?: Error | null;
   };
+  connectCalDAV: (
+    account: import("./calendarTypes").CalDAVAccount,
+  ) => Promise<CalendarType[]>;
+  disconnectCalDAV: () => void;
 
   // Integration operations
   linkTaskToEvent: (taskId: string, eventId: string) => Promise<boolean>;
   initializeWithSampleData: () => void;
+
+  // Feed operations
+  createCalendarFeed: (
+    scope: import("./calendarTypes").CalendarFeedScope,
+  ) => import("./calendarTypes").CalendarFeed;
+  revokeCalendarFeed: (feedId: string) => void;
 }
 
 export interface TemplateState {
@@ -128,6 +128,12 @@ export interface Task extends BaseTask {
    */
   dependencies?: string[];
 
+  /**
+   * Finish-to-start lag in days, by dependency ID. The task can start
+   * this many days after the dependency is completed.
+   */
+  dependencyLags?: Record<string, number>;
+
   /**
    * Task tags for categorization
    */
@@ -534,6 +540,61 @@ export interface TaskDependencyNode {
   dependents: string[];
 }
 
+/**
+ * A task reached by following dependencies from another task
+ */
+export interface TaskDependencyChainEntry<T = Task> {
+  task: T;
+
+  /**
+   * Number of dependency links from the starting task
+   */
+  depth: number;
+
+  /**
+   * The task this one was reached from
+   */
+  viaTaskId: string;
+
+  /**
+   * Lag of the link from `viaTaskId`, in days
+   */
+  lagDays: number;
+}
+
+/**
+ * Whether a task can be worked on yet
+ */
+export interface TaskDependencyStatus<T = Task> {
+  /**
+   * Open dependencies or a lag that has not passed yet
+   */
+  blocked: boolean;
+
+  /**
+   * Dependencies that are not completed
+   */
+  blockers: T[];
+
+  /**
+   * End of the longest lag after completed dependencies, if still ahead
+   */
+  availableFrom: Date | null;
+}
+
+/**
+ * An edit applied to every selected task at once
+ */
+export type BulkTaskEdit =
+  | { type: "reschedule"; dueDate: Date | null }
+  | { type: "shiftDueDates"; days: number }
+  | { type: "priority"; priority: PriorityLevel }
+  | { type: "addLabel"; labelId: string }
+  | { type: "removeLabel"; labelId: string }
+  | { type: "move"; projectId: string | null; sectionId?: string | null }
+  | { type: "assign"; assigneeId: string | null }
+  | { type: "complete" };
+
 /**
  * Task batch operation result
  */
@@ -662,6 +723,11 @@ export interface RecurringTaskConfig {
    * Custom unit (optional)
    */
   customUnit?: "days" | "weeks" | "months" | "years" | null;
+
+  /**
+   * Schedule from the due date (default) or from completion (optional)
+   */
+  repeatFrom?: RecurrenceRepeatFrom;
 }
 
 /**
@@ -724,8 +790,53 @@ export interface RecurringPatternConfig {
     | "friday"
     | "saturday"
     | "sunday";
+
+  /**
+   * Full RFC 5545 rule (e.g. `FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2`); takes
+   * precedence over the fields above when set
+   */
+  rrule?: string;
+
+  /**
+   * Occurrences removed from the series (EXDATE)
+   */
+  exDates?: Date[];
+
+  /**
+   * Extra occurrences outside the rule (RDATE)
+   */
+  rDates?: Date[];
+
+  /**
+   * IANA timezone the series repeats in, e.g. "Europe/Berlin"
+   */
+  timeZone?: string;
+
+  /**
+   * Whether the next occurrence follows the previous due date (default)
+   * or the day the previous occurrence was completed
+   */
+  repeatFrom?: RecurrenceRepeatFrom;
 }
 
+/**
+ * Recurrence configuration as stored on a series. Series created through
+ * RecurringTaskService keep the interval in `customInterval` and
+ * `customUnit` instead of `interval` and `frequency`.
+ */
+export type RecurringSeriesConfig = RecurringPatternConfig &
+  Partial<Pick<RecurringTaskConfig, "customInterval" | "customUnit">>;
+
+/**
+ * What the next occurrence of a recurring series is scheduled from
+ */
+export type RecurrenceRepeatFrom = "due" | "completion";
+
+/**
+ * Which occurrences an edit to a recurring series applies to
+ */
+export type RecurrenceEditScope = "this" | "following" | "all";
+
 /**
  * Recurring task statistics
  */
@@ -3,7 +3,8 @@
  * Contains comprehensive template management interfaces and types
  */
 
-import { PriorityLevel, TaskStatus } from "./enums";
+import { PriorityLevel, RecurringPattern, TaskStatus, ViewType } from "./enums";
+import { RecurringPatternConfig } from "./task";
 
 /**
  * Base template interface
@@ -85,9 +86,15 @@ export interface Template extends BaseTemplate {
   isPublic?: boolean;
 
   /**
-   * Template variables for dynamic content
+   * Template variables for dynamic content, by name. A plain string is a
+   * text variable with that default.
    */
-  variables?: Record<string, string>;
+  variables?: Record<string, string | TemplateVariableDefinition>;
+
+  /**
+   * Project structure for templates that create a whole project
+   */
+  project?: ProjectTemplateStructure | null;
 
   /**
    * Template preview image URL
@@ -95,9 +102,180 @@ export interface Template extends BaseTemplate {
   previewImage?: string | null;
 }
 
+export type TemplateVariableType =
+  | "text"
+  | "date"
+  | "user"
+  | "project"
+  | "select";
+
+/**
+ * A variable the user is asked for when applying a template. Content
+ * refers to it as `{{name}}`; date variables also allow offsets such as
+ * `{{launch - 14d}}` and a format, e.g. `{{launch + 1w | MMM d}}`.
+ */
+export interface TemplateVariableDefinition {
+  /**
+   * Variable name as used in the content
+   */
+  name: string;
+
+  type: TemplateVariableType;
+
+  /**
+   * Prompt shown in the form
+   */
+  label?: string;
+
+  /**
+   * Help text shown under the field
+   */
+  description?: string;
+
+  required?: boolean;
+
+  /**
+   * Default value. Dates accept `yyyy-MM-dd`, `today` or an offset from
+   * today such as `today + 7d`; users and projects take an ID.
+   */
+  defaultValue?: string;
+
+  /**
+   * Choices of a select variable
+   */
+  options?: string[];
+
+  /**
+   * Regular expression a text value must match
+   */
+  pattern?: string;
+
+  /**
+   * Maximum length of a text value
+   */
+  maxLength?: number;
+}
+
+/**
+ * One placeholder that was filled in when applying a template
+ */
+export interface TemplateGeneratedValue {
+  /**
+   * The placeholder as written, e.g. `{{launch - 14d}}`
+   */
+  placeholder: string;
+
+  variable: string;
+
+  type: TemplateVariableType;
+
+  /**
+   * Text that replaced the placeholder
+   */
+  value: string;
+
+  /**
+   * Resolved date for date variables, offset applied
+   */
+  date?: Date;
+}
+
 /**
  * Template creation DTO (Data Transfer Object)
  */
+/**
+ * A task in a project template. Due dates are stored as days after the
+ * project start so they can be shifted to any start date.
+ */
+export interface ProjectTemplateTask {
+  title: string;
+
+  description?: string;
+
+  priority: PriorityLevel;
+
+  /**
+   * Days from the project start to the due date
+   */
+  dueOffset?: number | null;
+
+  dueTime?: string | null;
+
+  duration?: number | null;
+
+  labelIds?: string[];
+
+  /**
+   * Role that is replaced by a user when the project is created
+   */
+  assigneeRole?: string | null;
+
+  recurringPattern?: RecurringPattern | null;
+
+  /**
+   * Recurrence settings; an end date is stored as `endOffset` days after
+   * the project start
+   */
+  recurringConfig?:
+    | (Omit<RecurringPatternConfig, "endDate"> & { endOffset?: number | null })
+    | null;
+
+  subtasks: ProjectTemplateTask[];
+}
+
+export interface ProjectTemplateSection {
+  name: string;
+
+  tasks: ProjectTemplateTask[];
+}
+
+/**
+ * Everything needed to rebuild a project: its settings, sections in order
+ * and the task tree
+ */
+export interface ProjectTemplateStructure {
+  version: number;
+
+  project: {
+    name: string;
+    description?: string;
+    color: string;
+    viewType: ViewType;
+  };
+
+  sections: ProjectTemplateSection[];
+
+  /**
+   * Tasks that are not in a section
+   */
+  tasks: ProjectTemplateTask[];
+
+  /**
+   * Assignee roles used by the tasks
+   */
+  roles: string[];
+}
+
+/**
+ * Choices made when creating a project from a template
+ */
+export interface ProjectTemplateInstantiateOptions {
+  /**
+   * Date that task due dates are counted from
+   */
+  startDate: Date;
+
+  /**
+   * Name of the new project; defaults to the template's project name
+   */
+  name?: string;
+
+  /**
+   * User ID for each role; tasks of unassigned roles stay unassigned
+   */
+  roleAssignments?: Record<string, string>;
+}
+
 export interface CreateTemplateDto extends Omit<
   Template,
   "id" | "createdAt" | "updatedAt"
@@ -282,6 +460,16 @@ export interface TemplateApplicationResult {
    */
   variables?: Record<string, string>;
 
+  /**
+   * Every placeholder that was replaced, in order of appearance
+   */
+  generated?: TemplateGeneratedValue[];
+
+  /**
+   * Validation errors by variable name
+   */
+  errors?: Record<string, string>;
+
   /**
    * Error message if failed
    */
@@ -312,3 +500,103 @@ export interface TemplatePreview {
    */
   timestamp: Date;
 }
+
+/**
+ * A category in an export file. Templates refer to it by `key`.
+ */
+export interface TemplateExportCategory {
+  key: string;
+
+  name: string;
+
+  description?: string;
+
+  color?: string;
+
+  icon?: string;
+
+  order: number;
+}
+
+/**
+ * A template in an export file, without IDs or usage statistics
+ */
+export interface TemplateExportItem {
+  name: string;
+
+  description?: string;
+
+  content: string;
+
+  /**
+   * Key of a category in the same file
+   */
+  categoryKey?: string | null;
+
+  tags?: string[];
+
+  isPublic?: boolean;
+
+  variables?: Record<string, string | TemplateVariableDefinition>;
+
+  project?: ProjectTemplateStructure | null;
+
+  /**
+   * Hash of content, variables and project structure, used to skip
+   * templates that already exist
+   */
+  hash: string;
+
+  metadata: {
+    version: number;
+    source?: string;
+  };
+}
+
+/**
+ * Portable template library, e.g. for keeping templates in git
+ */
+export interface TemplateExportFile {
+  format: "todone-templates";
+
+  version: number;
+
+  exportedAt: string;
+
+  categories: TemplateExportCategory[];
+
+  templates: TemplateExportItem[];
+}
+
+/**
+ * Problems with one item of an import
+ */
+export interface TemplateImportItemError {
+  /**
+   * Position of the item in the file, or of the file in a Markdown import
+   */
+  index: number;
+
+  name?: string;
+
+  errors: string[];
+}
+
+/**
+ * Outcome of importing templates
+ */
+export interface TemplateImportResult {
+  imported: Template[];
+
+  /**
+   * Categories that were created for the import
+   */
+  categories: TemplateCategory[];
+
+  /**
+   * Items skipped because a template with the same hash exists
+   */
+  duplicates: { index: number; name: string; existingId?: string }[];
+
+  errors: TemplateImportItemError[];
+}
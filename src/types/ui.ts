@@ -945,3 +945,77 @@ export interface UiComponentState {
     };
   };
 }
+
+/**
+ * Task field that board columns are grouped by
+ */
+export type BoardGroupBy =
+  | "status"
+  | "section"
+  | "priority"
+  | "assignee"
+  | "label"
+  | "project"
+  | "custom";
+
+/**
+ * Field used for one axis of the board
+ */
+export interface BoardGrouping {
+  groupBy: BoardGroupBy;
+
+  /**
+   * Key in `customFields` when grouping by a custom field
+   */
+  customField?: string;
+}
+
+/**
+ * Board column for one value of the grouped field
+ */
+export interface BoardColumnDefinition {
+  /**
+   * Column identifier, derived from the value
+   */
+  id: string;
+
+  /**
+   * Column title
+   */
+  title: string;
+
+  /**
+   * Field value for tasks in the column; null for tasks without a value
+   */
+  value: string | null;
+}
+
+/**
+ * Board layout saved per project
+ */
+export interface BoardLayout extends BoardGrouping {
+  /**
+   * Column IDs in display order; new columns are appended
+   */
+  columnOrder: string[];
+
+  /**
+   * IDs of collapsed columns
+   */
+  collapsedColumns: string[];
+
+  /**
+   * Work in progress limits by column ID
+   */
+  wipLimits: Record<string, number>;
+
+  /**
+   * Field for horizontal swimlanes; no lanes when unset
+   */
+  swimlanes?: BoardGrouping | null;
+
+  /**
+   * IDs of collapsed swimlanes
+   */
+  collapsedLanes?: string[];
+}
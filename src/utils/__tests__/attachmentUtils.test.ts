@@ -0,0 +1,93 @@
+import { Attachment } from "../../database/models";
+import { MAX_SYNC_ATTEMPTS } from "../../database/sync";
+import {
+  formatFileSize,
+  getDueUploads,
+  getPreviewKind,
+  getThumbnailSize,
+  validateAttachments,
+} from "../attachmentUtils";
+
+const attachment = (
+  id: number,
+  overrides: Partial<Attachment> = {},
+): Attachment => ({
+  id,
+  fileName: `file-${id}.txt`,
+  url: "",
+  type: "text/plain",
+  createdAt: new Date(2024, 0, id),
+  ...overrides,
+});
+
+describe("attachmentUtils", () => {
+  it("rejects empty files, files over the size limit and files past the quota", () => {
+    const files = [
+      { name: "empty.txt", size: 0 },
+      { name: "huge.bin", size: 200 },
+      { name: "a.txt", size: 60 },
+      { name: "b.txt", size: 60 },
+      { name: "c.txt", size: 30 },
+    ];
+
+    const { accepted, rejected } = validateAttachments(files, 100, {
+      maxFileSize: 100,
+      quota: 200,
+    });
+
+    expect(accepted.map((file) => file.name)).toEqual(["a.txt", "c.txt"]);
+    expect(rejected.map(({ file }) => file.name)).toEqual([
+      "empty.txt",
+      "huge.bin",
+      "b.txt",
+    ]);
+    expect(rejected[2].reason).toBe("Not enough attachment storage left");
+  });
+
+  it("returns pending uploads and failed uploads whose retry is due", () => {
+    const now = new Date(2024, 1, 1);
+    const attachments = [
+      attachment(3, { uploadStatus: "pending" }),
+      attachment(1, {
+        uploadStatus: "failed",
+        uploadAttempts: 1,
+        nextAttemptAt: new Date(2024, 0, 31),
+      }),
+      attachment(2, {
+        uploadStatus: "failed",
+        uploadAttempts: 1,
+        nextAttemptAt: new Date(2024, 1, 2),
+      }),
+      attachment(4, {
+        uploadStatus: "failed",
+        uploadAttempts: MAX_SYNC_ATTEMPTS,
+      }),
+      attachment(5, { uploadStatus: "uploading" }),
+      attachment(6, { uploadStatus: "uploaded" }),
+    ];
+
+    expect(getDueUploads(attachments, now).map(({ id }) => id)).toEqual([1, 3]);
+  });
+
+  it("scales thumbnails down to fit without enlarging small images", () => {
+    expect(getThumbnailSize(1200, 600, 240)).toEqual({
+      width: 240,
+      height: 120,
+    });
+    expect(getThumbnailSize(100, 50, 240)).toEqual({ width: 100, height: 50 });
+  });
+
+  it("picks a preview kind from the type or extension", () => {
+    expect(getPreviewKind("image/png", "a.png")).toBe("image");
+    expect(getPreviewKind("", "report.PDF")).toBe("pdf");
+    expect(getPreviewKind("application/json", "data.json")).toBe("text");
+    expect(getPreviewKind("", "notes.md")).toBe("text");
+    expect(getPreviewKind("application/zip", "archive.zip")).toBeNull();
+  });
+
+  it("formats file sizes", () => {
+    expect(formatFileSize(512)).toBe("512 B");
+    expect(formatFileSize(1536)).toBe("1.5 KB");
+    expect(formatFileSize(25 * 1024 * 1024)).toBe("25 MB");
+  });
+});
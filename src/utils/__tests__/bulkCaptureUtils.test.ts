@@ -0,0 +1,96 @@
+import {
+  detectBulkFormat,
+  guessCsvMapping,
+  hasCsvHeader,
+  parseCsv,
+  parseOutline,
+  parsePriorityValue,
+} from "../bulkCaptureUtils";
+
+describe("parseOutline", () => {
+  it("turns indentation into parents and strips bullets and checkboxes", () => {
+    const items = parseOutline(
+      [
+        "- Plan launch #Marketing",
+        "  - [ ] Draft announcement",
+        "    * Review copy",
+        "  - [x] Book venue",
+        "",
+        "1. Send invoices",
+        "\tFollow up with finance",
+      ].join("\n"),
+    );
+
+    expect(
+      items.map(({ text, depth, parentIndex, completed }) => ({
+        text,
+        depth,
+        parentIndex,
+        completed,
+      })),
+    ).toEqual([
+      {
+        text: "Plan launch #Marketing",
+        depth: 0,
+        parentIndex: undefined,
+        completed: false,
+      },
+      {
+        text: "Draft announcement",
+        depth: 1,
+        parentIndex: 0,
+        completed: false,
+      },
+      { text: "Review copy", depth: 2, parentIndex: 1, completed: false },
+      { text: "Book venue", depth: 1, parentIndex: 0, completed: true },
+      {
+        text: "Send invoices",
+        depth: 0,
+        parentIndex: undefined,
+        completed: false,
+      },
+      {
+        text: "Follow up with finance",
+        depth: 1,
+        parentIndex: 4,
+        completed: false,
+      },
+    ]);
+    expect(items[4].lineNumber).toBe(6);
+  });
+});
+
+describe("CSV", () => {
+  const csv = [
+    "Task;Due Date;Priority;Tags",
+    'Pay rent;2024-04-01;high;"finance, home"',
+    '"Call ""Bob""; maybe";tomorrow;p1;',
+  ].join("\r\n");
+
+  it("parses quoted fields with the detected delimiter", () => {
+    expect(parseCsv(csv)).toEqual([
+      ["Task", "Due Date", "Priority", "Tags"],
+      ["Pay rent", "2024-04-01", "high", "finance, home"],
+      ['Call "Bob"; maybe', "tomorrow", "p1", ""],
+    ]);
+  });
+
+  it("detects CSV and guesses the column mapping", () => {
+    expect(detectBulkFormat(csv)).toBe("csv");
+    expect(detectBulkFormat("- Buy milk, eggs\n- Call mom")).toBe("outline");
+    expect(hasCsvHeader(parseCsv(csv))).toBe(true);
+    expect(guessCsvMapping(["Task", "Due Date", "Priority", "Tags"])).toEqual([
+      "title",
+      "dueDate",
+      "priority",
+      "labels",
+    ]);
+    expect(guessCsvMapping(["Foo", "Owner"])).toEqual(["title", "assignee"]);
+  });
+
+  it("reads priority words", () => {
+    expect(parsePriorityValue("High")).toBe("P2");
+    expect(parsePriorityValue("p4")).toBe("P4");
+    expect(parsePriorityValue("soon")).toBeUndefined();
+  });
+});
@@ -0,0 +1,65 @@
+import {
+  BulkEditTask,
+  duplicateTasks,
+  getBulkEditLabel,
+  getBulkEditUpdates,
+} from "../bulkEditUtils";
+
+const task = (
+  id: string,
+  overrides: Partial<BulkEditTask> = {},
+): BulkEditTask => ({
+  id,
+  title: id,
+  completed: false,
+  ...overrides,
+});
+
+describe("bulkEditUtils", () => {
+  it("only includes tasks the edit changes", () => {
+    const tasks = [
+      task("a", { labelIds: ["bug"] }),
+      task("b"),
+      task("c", { completed: true }),
+    ];
+
+    expect(
+      getBulkEditUpdates(tasks, { type: "addLabel", labelId: "bug" }),
+    ).toEqual({ b: { labelIds: ["bug"] }, c: { labelIds: ["bug"] } });
+    expect(
+      getBulkEditUpdates(tasks, { type: "removeLabel", labelId: "bug" }),
+    ).toEqual({ a: { labelIds: [] } });
+
+    const now = new Date(2024, 0, 1);
+    expect(
+      Object.keys(getBulkEditUpdates(tasks, { type: "complete" }, now)),
+    ).toEqual(["a", "b"]);
+  });
+
+  it("shifts due dates and clears the section when moving projects", () => {
+    const tasks = [task("a", { dueDate: new Date(2024, 0, 31) }), task("b")];
+
+    expect(
+      getBulkEditUpdates(tasks, { type: "shiftDueDates", days: 1 }),
+    ).toEqual({ a: { dueDate: new Date(2024, 1, 1) } });
+    expect(
+      getBulkEditUpdates([task("a")], { type: "move", projectId: "p1" }),
+    ).toEqual({ a: { projectId: "p1", sectionId: null } });
+    expect(getBulkEditLabel({ type: "complete" }, 1)).toBe("Complete 1 task");
+  });
+
+  it("duplicates tasks as open copies with new ids", () => {
+    let next = 0;
+    const [copy] = duplicateTasks(
+      [{ ...task("a", { completed: true }), status: "completed" }],
+      () => `copy-${++next}`,
+    );
+
+    expect(copy).toMatchObject({
+      id: "copy-1",
+      title: "a (copy)",
+      completed: false,
+      status: "todo",
+    });
+  });
+});
@@ -0,0 +1,102 @@
+import {
+  MentionCandidate,
+  filterMentionCandidates,
+  getCommentPlainText,
+  getMentionQuery,
+  insertMention,
+  parseMentions,
+  renderCommentContent,
+} from "../commentContentUtils";
+
+const candidates: MentionCandidate[] = [
+  { userId: "user-1", name: "Ada Lovelace" },
+  { userId: "user-2", name: "Alan Turing" },
+];
+
+describe("commentContentUtils", () => {
+  it("parses mentions of known users only, once each", () => {
+    expect(
+      parseMentions(
+        "@[Alan](user-2) and @[Ada](user-1), @[Alan](user-2) @[Eve](user-9)",
+        candidates,
+      ),
+    ).toEqual(["user-2", "user-1"]);
+  });
+
+  it("finds the mention being typed and inserts the chosen user", () => {
+    const content = "Thanks @tur";
+    const query = getMentionQuery(content, content.length);
+    expect(query).toEqual({ query: "tur", start: 7 });
+    expect(getMentionQuery("mail@example", 12)).toBeNull();
+
+    const [alan] = filterMentionCandidates(candidates, query!.query);
+    expect(insertMention(content, query!.start, content.length, alan)).toEqual({
+      content: "Thanks @[Alan Turing](user-2) ",
+      caret: 30,
+    });
+  });
+
+  it("renders Markdown-lite and mentions", () => {
+    expect(
+      renderCommentContent(
+        "**Done** by @[Al](user-2), see [docs](https://x.io/a?b=1&c=2)\n`*not italic*`",
+        candidates,
+      ),
+    ).toBe(
+      '<strong>Done</strong> by <span class="mention" data-user-id="user-2">@Alan Turing</span>, ' +
+        'see <a href="https://x.io/a?b=1&amp;c=2" target="_blank" rel="noopener noreferrer">docs</a>' +
+        "<br><code>*not italic*</code>",
+    );
+  });
+
+  it("escapes HTML and drops unsafe links", () => {
+    const html = renderCommentContent(
+      '<img src=x onerror="alert(1)"> [click](javascript:alert(1)) https://ok.dev.',
+    );
+
+    expect(html).not.toContain("<img");
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("&lt;img src=x onerror=&quot;alert(1)&quot;&gt;");
+    expect(html).toContain(
+      '<a href="https://ok.dev" target="_blank" rel="noopener noreferrer">https://ok.dev</a>.',
+    );
+  });
+
+  it("keeps earlier fragments out of generated link attributes", () => {
+    const allowed: Record<string, string[]> = {
+      A: ["href", "target", "rel"],
+      SPAN: ["class", "data-user-id"],
+      CODE: [],
+    };
+
+    [
+      "https://a.com[x](https://b.com/onmouseover=location=name//)",
+      "https://a.com@[Ada](user-1) https://b.com/@[Ada](user-1)",
+      'https://a.com`x" onmouseover="alert(1)` [x](https://b.com/`y`)',
+      "[x](https://b.com/@[Ada](user-1))",
+    ].forEach((content) => {
+      const container = document.createElement("div");
+      container.innerHTML = renderCommentContent(content, candidates);
+
+      container.querySelectorAll("*").forEach((element) => {
+        expect(
+          element
+            .getAttributeNames()
+            .filter((name) => !allowed[element.tagName].includes(name)),
+        ).toEqual([]);
+      });
+      container.querySelectorAll("a").forEach((link) => {
+        expect(link.getAttribute("href")).not.toMatch(/["<\uE000]/);
+      });
+    });
+  });
+
+  it("strips markup for plain text previews", () => {
+    expect(
+      getCommentPlainText(
+        "**Hi** @[Al](user-2), [see](https://x.io)",
+        candidates,
+      ),
+    ).toBe("Hi @Alan Turing, see");
+  });
+});
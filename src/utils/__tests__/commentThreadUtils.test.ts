@@ -0,0 +1,53 @@
+import {
+  buildCommentThreads,
+  countReplies,
+  getReactionCount,
+  toggleReaction,
+} from "../commentThreadUtils";
+
+const comment = (
+  id: string,
+  minute: number,
+  parentCommentId: string | null = null,
+) => ({ id, parentCommentId, timestamp: new Date(2024, 0, 1, 9, minute) });
+
+describe("commentThreadUtils", () => {
+  it("nests replies oldest first under their parent", () => {
+    const threads = buildCommentThreads([
+      comment("b", 5),
+      comment("a", 1),
+      comment("a2", 4, "a"),
+      comment("a1", 2, "a"),
+      comment("a1x", 3, "a1"),
+      comment("orphan", 6, "deleted"),
+    ]);
+
+    expect(threads.map((thread) => thread.comment.id)).toEqual([
+      "b",
+      "a",
+      "orphan",
+    ]);
+    expect(threads[1].replies.map((reply) => reply.comment.id)).toEqual([
+      "a1",
+      "a2",
+    ]);
+    expect(countReplies(threads[1])).toBe(3);
+  });
+
+  it("keeps comments that form a cycle at the top level", () => {
+    const threads = buildCommentThreads([
+      comment("a", 1, "b"),
+      comment("b", 2, "a"),
+    ]);
+
+    expect(threads).toHaveLength(2);
+  });
+
+  it("toggles a user's reaction", () => {
+    const reacted = toggleReaction({ "👍": ["user-1"] }, "👍", "user-2");
+    expect(reacted).toEqual({ "👍": ["user-1", "user-2"] });
+    expect(getReactionCount(reacted)).toBe(2);
+
+    expect(toggleReaction({ "🎉": ["user-1"] }, "🎉", "user-1")).toEqual({});
+  });
+});
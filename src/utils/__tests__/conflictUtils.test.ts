@@ -0,0 +1,72 @@
+import {
+  threeWayMergeTask,
+  applyConflictChoices,
+  mergeIdSets,
+  areFieldValuesEqual,
+} from "../conflictUtils";
+
+describe("Conflict Utilities", () => {
+  const base = {
+    title: "Write report",
+    description: "Quarterly numbers",
+    priority: "P3",
+    dueDate: new Date("2024-03-01T00:00:00Z"),
+    labelIds: ["work"],
+  };
+
+  it("takes the side that changed when only one side changed", () => {
+    const local = { ...base, title: "Write Q1 report" };
+    const remote = { ...base, priority: "P1" };
+
+    const { merged, conflicts } = threeWayMergeTask(base, local, remote);
+
+    expect(conflicts).toHaveLength(0);
+    expect(merged.title).toBe("Write Q1 report");
+    expect(merged.priority).toBe("P1");
+  });
+
+  it("does not report identical changes on both sides", () => {
+    const local = { ...base, description: "Final numbers" };
+    const remote = { ...base, description: "Final numbers" };
+
+    expect(threeWayMergeTask(base, local, remote).conflicts).toHaveLength(0);
+  });
+
+  it("treats serialized and Date due dates as equal", () => {
+    const remote = { ...base, dueDate: "2024-03-01T00:00:00.000Z" };
+
+    expect(threeWayMergeTask(base, base, remote).conflicts).toHaveLength(0);
+    expect(areFieldValuesEqual(null, "")).toBe(true);
+  });
+
+  it("reports true conflicts and keeps the remote value until resolved", () => {
+    const local = { ...base, title: "Local title" };
+    const remote = { ...base, title: "Remote title" };
+
+    const { merged, conflicts } = threeWayMergeTask(base, local, remote);
+
+    expect(conflicts).toEqual([
+      {
+        field: "title",
+        baseValue: "Write report",
+        localValue: "Local title",
+        remoteValue: "Remote title",
+      },
+    ]);
+    expect(merged.title).toBe("Remote title");
+    expect(
+      applyConflictChoices(merged, conflicts, { title: "local" }).title,
+    ).toBe("Local title");
+  });
+
+  it("merges label additions and removals from both sides", () => {
+    const local = { ...base, labelIds: ["work", "urgent"] };
+    const remote = { ...base, labelIds: ["finance"] };
+
+    const { merged, conflicts } = threeWayMergeTask(base, local, remote);
+
+    expect(conflicts).toHaveLength(0);
+    expect(merged.labelIds).toEqual(["urgent", "finance"]);
+    expect(mergeIdSets(["a", "b"], ["a", "b", "c"], ["b"])).toEqual(["b", "c"]);
+  });
+});
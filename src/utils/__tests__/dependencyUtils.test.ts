@@ -0,0 +1,183 @@
+import {
+  DependencyCycleError,
+  addDependency,
+  findDependencyCycles,
+  getCompletionBlocker,
+  getDependencyStatus,
+  getDownstreamChain,
+  getEarliestStart,
+  getUpstreamChain,
+  removeDependency,
+} from "../dependencyUtils";
+import { Task } from "../../types/task";
+import { useTaskStore } from "../../store/useTaskStore";
+
+const date = new Date(2024, 0, 1);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id.toUpperCase(),
+  status: "todo",
+  priority: "medium",
+  completed: false,
+  createdAt: date,
+  updatedAt: date,
+  ...overrides,
+});
+
+// a <- b <- c: c waits on b, b waits on a
+const chain = (): Task[] => [
+  task("a"),
+  task("b", { dependencies: ["a"] }),
+  task("c", { dependencies: ["b"], dependencyLags: { b: 2 } }),
+];
+
+describe("addDependency", () => {
+  it("adds the dependency and its lag", () => {
+    const tasks = [...chain(), task("d")];
+
+    expect(addDependency(tasks, "d", "c", 3)).toEqual({
+      dependencies: ["c"],
+      dependencyLags: { c: 3 },
+    });
+    expect(addDependency(tasks, "c", "b", 0)).toEqual({
+      dependencies: ["b"],
+      dependencyLags: {},
+    });
+  });
+
+  it("rejects cycles and names the tasks involved", () => {
+    const tasks = chain();
+
+    expect(() => addDependency(tasks, "a", "c")).toThrow(
+      "This dependency would create a cycle: A → C → B → A",
+    );
+    const error = (() => {
+      try {
+        addDependency(tasks, "a", "a");
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(DependencyCycleError);
+    expect((error as DependencyCycleError).cycle).toEqual(["a", "a"]);
+    expect((error as Error).message).toBe("A task cannot depend on itself");
+    expect(() => addDependency(tasks, "a", "missing")).toThrow(
+      "Task not found",
+    );
+    expect(() => addDependency(tasks, "c", "a", -1)).toThrow("Lag");
+  });
+});
+
+describe("removeDependency", () => {
+  it("drops the dependency and its lag", () => {
+    expect(removeDependency(chain()[2], "b")).toEqual({
+      dependencies: [],
+      dependencyLags: {},
+    });
+  });
+});
+
+describe("findDependencyCycles", () => {
+  it("finds cycles in existing data", () => {
+    const tasks = chain();
+    tasks[0].dependencies = ["c"];
+
+    expect(findDependencyCycles(tasks)).toEqual([["a", "c", "b", "a"]]);
+    expect(findDependencyCycles(chain())).toEqual([]);
+  });
+});
+
+describe("getDependencyStatus", () => {
+  it("blocks on open dependencies and ignores missing ones", () => {
+    const tasks = chain();
+    const status = getDependencyStatus(
+      task("d", { dependencies: ["b", "gone"] }),
+      tasks,
+    );
+
+    expect(status.blocked).toBe(true);
+    expect(status.blockers.map(({ id }) => id)).toEqual(["b"]);
+    expect(getDependencyStatus(tasks[0], tasks).blocked).toBe(false);
+  });
+
+  it("blocks until the lag after completion has passed", () => {
+    const tasks = chain();
+    tasks[1] = {
+      ...tasks[1],
+      completed: true,
+      status: "completed",
+      completedAt: new Date(2024, 0, 10, 15),
+    };
+
+    expect(getDependencyStatus(tasks[2], tasks, new Date(2024, 0, 11))).toEqual(
+      {
+        blocked: true,
+        blockers: [],
+        availableFrom: new Date(2024, 0, 12),
+      },
+    );
+    expect(
+      getDependencyStatus(tasks[2], tasks, new Date(2024, 0, 12, 9)).blocked,
+    ).toBe(false);
+  });
+});
+
+describe("getCompletionBlocker", () => {
+  it("names the open dependencies", () => {
+    const tasks = chain();
+
+    expect(getCompletionBlocker(tasks[1], tasks)?.message).toBe(
+      'Complete "A" first',
+    );
+    expect(getCompletionBlocker(tasks[0], tasks)).toBeNull();
+  });
+
+  it("keeps the store from completing a blocked task", () => {
+    useTaskStore.setState({ tasks: chain(), enforceDependencies: true });
+    useTaskStore.getState().toggleTaskCompletion("b");
+
+    const state = useTaskStore.getState();
+    expect(state.tasks[1].completed).toBe(false);
+    expect(state.taskError).toBe('Complete "A" first');
+
+    useTaskStore.getState().toggleTaskCompletion("a");
+    expect(useTaskStore.getState().tasks[0].completed).toBe(true);
+    expect(useTaskStore.getState().taskError).toBeNull();
+  });
+});
+
+describe("dependency chains", () => {
+  it("walks upstream and downstream, nearest first", () => {
+    const tasks = [...chain(), task("d", { dependencies: ["a"] })];
+
+    expect(
+      getUpstreamChain("c", tasks).map(({ task, depth, lagDays }) => [
+        task.id,
+        depth,
+        lagDays,
+      ]),
+    ).toEqual([
+      ["b", 1, 2],
+      ["a", 2, 0],
+    ]);
+    expect(
+      getDownstreamChain("a", tasks).map(({ task, viaTaskId }) => [
+        task.id,
+        viaTaskId,
+      ]),
+    ).toEqual([
+      ["b", "a"],
+      ["d", "a"],
+      ["c", "b"],
+    ]);
+  });
+
+  it("computes the earliest start from due dates and lag", () => {
+    const tasks = chain();
+    tasks[1].dueDate = new Date(2024, 0, 5, 17);
+
+    expect(getEarliestStart(tasks[2], tasks)).toEqual(new Date(2024, 0, 7));
+    expect(getEarliestStart(tasks[1], tasks)).toBeNull();
+  });
+});
@@ -0,0 +1,139 @@
+import { parseFilterQuery } from "../filterQueryParser";
+import { filterTasksByQuery, toFilterTask } from "../filterQueryEvaluator";
+
+describe("Filter Query Language", () => {
+  const now = new Date(2024, 2, 15, 10, 0, 0);
+  const context = {
+    now,
+    currentUserId: "me",
+    projects: [
+      { id: "p-work", name: "Work", parentProjectId: null },
+      { id: "p-client", name: "Client", parentProjectId: "p-work" },
+      { id: "p-home", name: "Home", parentProjectId: null },
+    ],
+    labels: [{ id: "l-urgent", name: "urgent" }],
+  };
+
+  const makeTask = (overrides: Record<string, any>): any => ({
+    id: overrides.id,
+    title: overrides.id,
+    status: "active",
+    priority: "P4",
+    completed: false,
+    labelIds: [],
+    createdAt: new Date(2024, 0, 1),
+    updatedAt: new Date(2024, 0, 1),
+    ...overrides,
+  });
+
+  const tasks = [
+    makeTask({
+      id: "today-work-p1",
+      dueDate: new Date(2024, 2, 15),
+      projectId: "p-work",
+      priority: "P1",
+    }),
+    makeTask({
+      id: "overdue-client-p1",
+      dueDate: new Date(2024, 2, 10),
+      projectId: "p-client",
+      priority: "P1",
+    }),
+    makeTask({
+      id: "today-work-p1-others",
+      dueDate: new Date(2024, 2, 15),
+      projectId: "p-work",
+      priority: "P1",
+      assigneeId: "someone-else",
+    }),
+    makeTask({
+      id: "later-home",
+      dueDate: new Date(2024, 3, 1),
+      projectId: "p-home",
+      labelIds: ["l-urgent"],
+    }),
+    makeTask({ id: "no-date", projectId: "p-home" }),
+  ];
+
+  const ids = (query: string) =>
+    filterTasksByQuery(tasks, query, context).map((task) => task.id);
+
+  it("parses operators with precedence and spans", () => {
+    const result = parseFilterQuery("today | overdue & p1");
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.ast.type).toBe("or");
+      expect(result.ast.span).toEqual({ start: 0, end: 20 });
+    }
+  });
+
+  it("evaluates a compound query", () => {
+    expect(
+      ids(
+        "(today | overdue) & ##Work & p1 & !assigned to: others & due before: +7d",
+      ),
+    ).toEqual(["today-work-p1", "overdue-client-p1"]);
+  });
+
+  it("resolves projects, labels and relative dates", () => {
+    expect(ids("#Work")).toEqual(["today-work-p1", "today-work-p1-others"]);
+    expect(ids("@urgent")).toEqual(["later-home"]);
+    expect(ids("no date")).toEqual(["no-date"]);
+    expect(ids("due after: +1w")).toEqual(["later-home"]);
+  });
+
+  it("matches store tasks by priority, label and assignee", () => {
+    const storeTask = (overrides: Record<string, any>): any => ({
+      id: overrides.id,
+      title: overrides.id,
+      description: "",
+      status: "todo",
+      priority: "low",
+      completed: false,
+      createdAt: new Date(2024, 0, 1),
+      updatedAt: new Date(2024, 0, 1),
+      ...overrides,
+    });
+    const storeTasks = [
+      storeTask({ id: "critical", priority: "critical" }),
+      storeTask({ id: "labelled", labelIds: ["l-urgent"] }),
+      storeTask({ id: "mine", priority: "high", assigneeId: "me" }),
+    ].map(toFilterTask);
+    const storeIds = (query: string) =>
+      filterTasksByQuery(storeTasks, query, context).map((task) => task.id);
+
+    expect(storeIds("p1")).toEqual(["critical"]);
+    expect(storeIds("p2")).toEqual(["mine"]);
+    expect(storeIds("@urgent")).toEqual(["labelled"]);
+    expect(storeIds("assigned to: me")).toEqual(["mine"]);
+    expect(storeIds("no labels & p4")).toEqual([]);
+  });
+
+  it("reports the position of unknown terms", () => {
+    const result = parseFilterQuery("today & bogus");
+
+    expect(result.success).toBe(false);
+    if (!result.success) {
+      expect(result.error.message).toContain("bogus");
+      expect(result.error.start).toBe(8);
+      expect(result.error.end).toBe(13);
+    }
+  });
+
+  it("reports unbalanced parentheses and invalid dates", () => {
+    const missing = parseFilterQuery("(today | p1");
+    expect(missing.success).toBe(false);
+    if (!missing.success) {
+      expect(missing.error.message).toBe('Missing closing ")"');
+      expect(missing.error.start).toBe(0);
+    }
+
+    const badDate = parseFilterQuery("due before: soon");
+    expect(badDate.success).toBe(false);
+    if (!badDate.success) {
+      expect(badDate.error.start).toBe(12);
+      expect(badDate.error.end).toBe(16);
+    }
+  });
+});
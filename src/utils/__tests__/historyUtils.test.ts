@@ -0,0 +1,53 @@
+import { applyEntityPatch, diffEntities, isEmptyPatch } from "../historyUtils";
+
+type Item = { id: string; title: string };
+
+const item = (id: string, title = id): Item => ({ id, title });
+
+describe("historyUtils", () => {
+  it("records created, changed and deleted records", () => {
+    const a = item("a");
+    const b = item("b");
+    const before = [a, b];
+    const after = [item("a", "renamed"), item("c")];
+    const patch = diffEntities(before, after);
+
+    expect(patch.order).toBeUndefined();
+    expect(patch.changes).toEqual([
+      { id: "a", before: a, after: after[0], beforeIndex: 0, afterIndex: 0 },
+      { id: "b", before: b, after: undefined, beforeIndex: 1, afterIndex: -1 },
+      { id: "c", after: after[1], beforeIndex: -1, afterIndex: 1 },
+    ]);
+    expect(applyEntityPatch(after, patch, "undo")).toEqual(before);
+    expect(applyEntityPatch(before, patch, "redo")).toEqual(after);
+  });
+
+  it("treats untouched lists as empty patches", () => {
+    const list = [item("a"), item("b")];
+    expect(isEmptyPatch(diffEntities(list, [...list]))).toBe(true);
+  });
+
+  it("restores the order of reordered records", () => {
+    const [a, b, c] = [item("a"), item("b"), item("c")];
+    const patch = diffEntities([a, b, c], [b, c, a]);
+
+    expect(patch.changes).toEqual([]);
+    expect(patch.order).toEqual({
+      before: ["a", "b", "c"],
+      after: ["b", "c", "a"],
+    });
+    expect(applyEntityPatch([b, c, a], patch, "undo")).toEqual([a, b, c]);
+  });
+
+  it("keeps changes made to other records since the action", () => {
+    const [a, b] = [item("a"), item("b")];
+    const patch = diffEntities([a, b], [a]);
+    const later = [item("a", "edited later"), item("d")];
+
+    expect(applyEntityPatch(later, patch, "undo")).toEqual([
+      item("a", "edited later"),
+      b,
+      item("d"),
+    ]);
+  });
+});
@@ -0,0 +1,130 @@
+import { parseTaskText, tokenizeTaskText } from "../nlpTaskParser";
+
+// Wednesday, 13 March 2024
+const now = new Date(2024, 2, 13, 10, 0);
+
+describe("tokenizeTaskText", () => {
+  it("keeps sigils, clocks and numeric dates together", () => {
+    const tokens = tokenizeTaskText("Call mom 3/15 at 14:30 #Home");
+
+    expect(tokens.map((token) => token.kind)).toEqual([
+      "word",
+      "word",
+      "numericDate",
+      "word",
+      "clock",
+      "sigil",
+    ]);
+    expect(tokens[5]).toMatchObject({ text: "#Home", start: 23, end: 28 });
+  });
+});
+
+describe("parseTaskText", () => {
+  it("finds every entity in an English sentence with exact spans", () => {
+    const text = "Review PR next Friday at 3pm for 30 min p1 #Work @review";
+    const result = parseTaskText(text, { now });
+
+    expect(result.title).toBe("Review PR");
+    // "next Friday" is the coming Friday, two days later
+    expect(result.dueDate).toEqual(new Date(2024, 2, 15, 15, 0));
+    expect(result.dueTime).toBe("15:00");
+    expect(result.duration).toBe(30);
+    expect(result.priority).toBe("P1");
+    expect(result.project).toBe("Work");
+    expect(result.labels).toEqual(["review"]);
+
+    const spans = Object.fromEntries(
+      result.entities.map((entity) => [
+        entity.type,
+        text.slice(entity.start, entity.end),
+      ]),
+    );
+    expect(spans).toEqual({
+      date: "next Friday",
+      time: "at 3pm",
+      duration: "for 30 min",
+      priority: "p1",
+      project: "#Work",
+      label: "@review",
+    });
+  });
+
+  it("does not treat ordinary words as a priority", () => {
+    const result = parseTaskText("This is important and urgent", { now });
+
+    expect(result.priority).toBeUndefined();
+    expect(result.title).toBe("This is important and urgent");
+  });
+
+  it("reads +assignees and skips ignored ranges", () => {
+    const text = "Call tomorrow +alex";
+    const result = parseTaskText(text, {
+      now,
+      ignore: [{ start: 5, end: 13 }],
+    });
+
+    expect(result.assignees).toEqual(["alex"]);
+    expect(result.dueDate).toBeUndefined();
+    expect(result.title).toBe("Call tomorrow");
+  });
+
+  it("parses German dates, times and durations", () => {
+    const result = parseTaskText(
+      "Arzt anrufen morgen um 9 Uhr für 15 Minuten",
+      {
+        locale: "de",
+        now,
+      },
+    );
+
+    expect(result.locale).toBe("de");
+    expect(result.title).toBe("Arzt anrufen");
+    expect(result.dueDate).toEqual(new Date(2024, 2, 14, 9, 0));
+    expect(result.duration).toBe(15);
+  });
+
+  it("parses Spanish recurrences and day-month dates", () => {
+    const weekly = parseTaskText("Regar plantas cada lunes", {
+      locale: "es",
+      now,
+    });
+    expect(weekly.title).toBe("Regar plantas");
+    expect(weekly.recurrence).toMatchObject({
+      frequency: "weekly",
+      customDays: [1],
+    });
+    // The first occurrence becomes the due date
+    expect(weekly.dueDate).toEqual(new Date(2024, 2, 18));
+
+    const dated = parseTaskText("Entregar informe el 3 de abril", {
+      locale: "es-MX",
+      now,
+    });
+    expect(dated.locale).toBe("es");
+    expect(dated.title).toBe("Entregar informe");
+    expect(dated.dueDate).toEqual(new Date(2024, 3, 3));
+  });
+
+  it("parses Spanish 12-hour times", () => {
+    const pm = parseTaskText("Llamar a Ana mañana a las 5pm", {
+      locale: "es",
+      now,
+    });
+    expect(pm.title).toBe("Llamar a Ana");
+    expect(pm.dueDate).toEqual(new Date(2024, 2, 14, 17, 0));
+
+    const evening = parseTaskText("Cena el viernes a las 8 de la noche", {
+      locale: "es",
+      now,
+    });
+    expect(evening.title).toBe("Cena");
+    expect(evening.dueDate).toEqual(new Date(2024, 2, 15, 20, 0));
+
+    const morning = parseTaskText("Correr a las 11 de la mañana", {
+      locale: "es",
+      now,
+    });
+    expect(morning.title).toBe("Correr");
+    expect(morning.dueDate).toEqual(new Date(2024, 2, 13, 11, 0));
+  });
+});
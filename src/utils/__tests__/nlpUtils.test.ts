@@ -0,0 +1,41 @@
+import { extractRecurrence } from "../nlpUtils";
+
+describe("extractRecurrence", () => {
+  it("parses intervals from the due date", () => {
+    expect(extractRecurrence("Water plants every 3 days")).toEqual({
+      pattern: "daily",
+      frequency: "daily",
+      endCondition: "never",
+      interval: 3,
+      repeatFrom: "due",
+    });
+    expect(extractRecurrence("Team sync every other week")).toMatchObject({
+      pattern: "weekly",
+      interval: 2,
+    });
+    expect(extractRecurrence("Pay rent monthly")).toMatchObject({
+      pattern: "monthly",
+      interval: 1,
+      repeatFrom: "due",
+    });
+  });
+
+  it("repeats from completion with every!", () => {
+    expect(extractRecurrence("Water plants every! 3 days")).toMatchObject({
+      pattern: "daily",
+      interval: 3,
+      repeatFrom: "completion",
+    });
+    expect(extractRecurrence("Stretch every! weekday")).toMatchObject({
+      frequency: "weekdays",
+      repeatFrom: "completion",
+    });
+  });
+
+  it("parses weekdays", () => {
+    expect(
+      extractRecurrence("Gym every monday, wednesday and friday"),
+    ).toMatchObject({ frequency: "weekly", customDays: [1, 3, 5] });
+    expect(extractRecurrence("Call mom on Sunday")).toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import {
+  captureProjectTemplate,
+  countProjectTemplateTasks,
+  formatProjectTemplateOutline,
+  instantiateProjectTemplate,
+  parseProjectTemplateOutline,
+} from "../projectTemplateUtils";
+import { Section } from "../../types/project";
+import { Task } from "../../types/task";
+
+const createdAt = new Date(2024, 0, 1);
+
+const section = (id: string, name: string, order: number): Section => ({
+  id,
+  name,
+  projectId: "project-1",
+  order,
+  createdAt,
+  updatedAt: createdAt,
+});
+
+const task = (overrides: Partial<Task> & Pick<Task, "id" | "title">): Task =>
+  ({
+    status: "todo",
+    priority: "medium",
+    completed: false,
+    order: 0,
+    projectId: "project-1",
+    createdAt,
+    updatedAt: createdAt,
+    ...overrides,
+  }) as Task;
+
+const project = {
+  name: "Launch",
+  description: "Product launch",
+  color: "#22c55e",
+  viewType: "board" as const,
+  createdAt,
+};
+
+const sections = [section("s-build", "Build", 1), section("s-plan", "Plan", 0)];
+
+const tasks = [
+  task({
+    id: "t-spec",
+    title: "Write spec",
+    sectionId: "s-plan",
+    dueDate: new Date(2024, 2, 4),
+    assigneeId: "u-ada",
+  }),
+  task({
+    id: "t-review",
+    title: "Review spec",
+    sectionId: "s-plan",
+    parentTaskId: "t-spec",
+    dueDate: new Date(2024, 2, 6, 14, 0),
+    assigneeId: "u-bob",
+  }),
+  task({
+    id: "t-standup",
+    title: "Standup",
+    sectionId: "s-build",
+    recurringPattern: "weekly",
+    customFields: {
+      recurringConfig: { pattern: "weekly", endDate: new Date(2024, 2, 31) },
+    },
+  }),
+  task({ id: "t-kickoff", title: "Kickoff", order: 1, assigneeId: "u-ada" }),
+  task({ id: "t-orphan", title: "Orphan", parentTaskId: "t-deleted" }),
+];
+
+describe("captureProjectTemplate", () => {
+  const structure = captureProjectTemplate(project, sections, tasks, {
+    roles: { "u-ada": "Owner" },
+  });
+
+  it("keeps section order and the task hierarchy", () => {
+    expect(structure.project).toEqual({
+      name: "Launch",
+      description: "Product launch",
+      color: "#22c55e",
+      viewType: "board",
+    });
+    expect(structure.sections.map((s) => s.name)).toEqual(["Plan", "Build"]);
+    expect(structure.sections[0].tasks).toHaveLength(1);
+    expect(structure.sections[0].tasks[0].subtasks[0].title).toBe(
+      "Review spec",
+    );
+    expect(structure.tasks.map((t) => t.title)).toEqual(["Orphan", "Kickoff"]);
+    expect(countProjectTemplateTasks(structure)).toBe(5);
+  });
+
+  it("stores due dates relative to the earliest one and assignees as roles", () => {
+    const [spec] = structure.sections[0].tasks;
+    expect(spec.dueOffset).toBe(0);
+    expect(spec.subtasks[0].dueOffset).toBe(2);
+    expect(spec.assigneeRole).toBe("Owner");
+    expect(spec.subtasks[0].assigneeRole).toBe("Assignee 2");
+    expect(structure.roles).toEqual(["Owner", "Assignee 2"]);
+    expect(structure.sections[1].tasks[0].recurringConfig).toEqual({
+      pattern: "weekly",
+      endOffset: 27,
+    });
+  });
+
+  it("renders a readable outline", () => {
+    expect(formatProjectTemplateOutline(structure)).toBe(
+      [
+        "# Launch",
+        "- Orphan",
+        "- Kickoff (+Owner)",
+        "",
+        "## Plan",
+        "- Write spec (day 0, +Owner)",
+        "  - Review spec (day 2, +Assignee 2)",
+        "",
+        "## Build",
+        "- Standup (repeats weekly)",
+      ].join("\n"),
+    );
+  });
+});
+
+describe("instantiateProjectTemplate", () => {
+  const structure = captureProjectTemplate(project, sections, tasks, {
+    roles: { "u-ada": "Owner" },
+  });
+  const { sections: newSections, tasks: newTasks } = instantiateProjectTemplate(
+    structure,
+    "project-2",
+    {
+      startDate: new Date(2024, 5, 10, 9, 30),
+      roleAssignments: { Owner: "u-carol" },
+    },
+  );
+  const byTitle = (title: string) =>
+    newTasks.find((t) => t.title === title) as Task;
+
+  it("creates new IDs and keeps sections and parents linked", () => {
+    expect(newSections.map(({ name, order }) => [name, order])).toEqual([
+      ["Plan", 0],
+      ["Build", 1],
+    ]);
+    expect(newSections.every((s) => s.projectId === "project-2")).toBe(true);
+
+    const ids = newTasks.map((t) => t.id);
+    expect(new Set(ids).size).toBe(5);
+    expect(ids.some((id) => tasks.some((t) => t.id === id))).toBe(false);
+
+    const spec = byTitle("Write spec");
+    const review = byTitle("Review spec");
+    expect(spec.sectionId).toBe(newSections[0].id);
+    expect(review.sectionId).toBe(newSections[0].id);
+    expect(review.parentTaskId).toBe(spec.id);
+    expect(byTitle("Kickoff").sectionId).toBeNull();
+    expect(newTasks.every((t) => t.projectId === "project-2")).toBe(true);
+  });
+
+  it("shifts due dates to the start date and assigns roles", () => {
+    expect(byTitle("Write spec").dueDate).toEqual(new Date(2024, 5, 10));
+    expect(byTitle("Review spec").dueDate).toEqual(new Date(2024, 5, 12));
+    expect(byTitle("Kickoff").dueDate).toBeNull();
+    expect(byTitle("Write spec").assigneeId).toBe("u-carol");
+    expect(byTitle("Review spec").assigneeId).toBeNull();
+    expect(byTitle("Standup").customFields?.recurringConfig).toEqual({
+      pattern: "weekly",
+      endDate: new Date(2024, 6, 7),
+    });
+    expect(newTasks.every((t) => !t.completed)).toBe(true);
+  });
+});
+
+describe("parseProjectTemplateOutline", () => {
+  it("reads back what formatProjectTemplateOutline writes", () => {
+    const structure = captureProjectTemplate(project, sections, tasks, {
+      roles: { "u-ada": "Owner" },
+    });
+    const parsed = parseProjectTemplateOutline(
+      formatProjectTemplateOutline(structure),
+    );
+
+    expect(formatProjectTemplateOutline(parsed)).toBe(
+      formatProjectTemplateOutline(structure),
+    );
+    expect(parsed.roles).toEqual(["Owner", "Assignee 2"]);
+    expect(parsed.sections[1].tasks[0]).toMatchObject({
+      title: "Standup",
+      recurringPattern: "weekly",
+    });
+  });
+
+  it("keeps parentheses that are not task details in the title", () => {
+    const [task] = parseProjectTemplateOutline(
+      "- Call Ada (after lunch)",
+    ).tasks;
+
+    expect(task.title).toBe("Call Ada (after lunch)");
+    expect(task.dueOffset).toBeNull();
+  });
+});
@@ -0,0 +1,70 @@
+import {
+  applySuggestion,
+  findTagQuery,
+  matchSuggestions,
+  resolveTag,
+  shiftSpans,
+} from "../quickAddUtils";
+
+const projects = [
+  { id: "p1", name: "Work" },
+  { id: "p2", name: "Home Office" },
+  { id: "p3", name: "Homework" },
+];
+
+describe("shiftSpans", () => {
+  const spans = [{ start: 5, end: 13 }];
+
+  it("moves ranges after an edit and keeps those before it", () => {
+    expect(shiftSpans(spans, "Call tomorrow", "Now call tomorrow")).toEqual([
+      { start: 9, end: 17 },
+    ]);
+    expect(shiftSpans(spans, "Call tomorrow", "Call tomorrow p1")).toEqual(
+      spans,
+    );
+  });
+
+  it("drops ranges the edit touched", () => {
+    expect(shiftSpans(spans, "Call tomorrow", "Call tomorow")).toEqual([]);
+  });
+});
+
+describe("tag completion", () => {
+  it("finds the tag word around the caret", () => {
+    expect(findTagQuery("Plan trip #Ho", 13)).toEqual({
+      sigil: "#",
+      type: "project",
+      query: "Ho",
+      start: 10,
+      end: 13,
+    });
+    expect(findTagQuery("Ask +al about it", 7)).toMatchObject({
+      type: "assignee",
+      query: "al",
+    });
+    expect(findTagQuery("Plan trip", 9)).toBeNull();
+  });
+
+  it("ranks prefix matches first and resolves tags to items", () => {
+    expect(matchSuggestions(projects, "ho").map((p) => p.id)).toEqual([
+      "p2",
+      "p3",
+    ]);
+    expect(matchSuggestions(projects, "work").map((p) => p.id)).toEqual([
+      "p1",
+      "p3",
+    ]);
+    expect(resolveTag(projects, "home-office")?.id).toBe("p2");
+    expect(resolveTag(projects, "Garden")).toBeUndefined();
+  });
+
+  it("replaces the typed tag with the chosen name", () => {
+    const text = "Plan trip #Ho tomorrow";
+    const query = findTagQuery(text, 13)!;
+
+    expect(applySuggestion(text, query, "Home Office")).toEqual({
+      text: "Plan trip #Home-Office tomorrow",
+      caret: 23,
+    });
+  });
+});
@@ -0,0 +1,133 @@
+import { OfflineQueueItem } from "../../types/offlineTypes";
+import { PresenceEntry } from "../../types/realtime";
+import {
+  REALTIME_PROTOCOL_VERSION,
+  decodeEvent,
+  encodeEvent,
+  formatTypingMessage,
+  getViewers,
+  parseEntityEventType,
+  reconcileRemoteEntity,
+} from "../realtimeUtils";
+
+const queueItem = (
+  overrides: Partial<OfflineQueueItem> = {},
+): OfflineQueueItem => ({
+  id: "queue-1",
+  operation: "Update task: t1",
+  type: "update",
+  data: { taskId: "t1" },
+  timestamp: new Date(),
+  status: "pending",
+  attempts: 0,
+  ...overrides,
+});
+
+const presence = (
+  clientId: string,
+  userId: string,
+  view: PresenceEntry["view"],
+): PresenceEntry => ({
+  clientId,
+  userId,
+  userName: userId,
+  view,
+  lastSeen: new Date(),
+});
+
+describe("realtimeUtils", () => {
+  it("round-trips events and drops other protocol versions", () => {
+    const dueDate = new Date("2024-03-01T09:00:00.000Z");
+    const message = encodeEvent({
+      version: REALTIME_PROTOCOL_VERSION,
+      id: "e1",
+      type: "task_updated",
+      timestamp: new Date("2024-03-01T10:00:00.000Z"),
+      data: { id: "t1", entity: { id: "t1", title: "2024-03-01", dueDate } },
+    });
+
+    const event = decodeEvent(message);
+    expect(event?.timestamp).toEqual(new Date("2024-03-01T10:00:00.000Z"));
+    expect(event?.data.entity.dueDate).toEqual(dueDate);
+    expect(event?.data.entity.title).toBe("2024-03-01");
+
+    expect(
+      decodeEvent(message.replace('"version":1', '"version":2')),
+    ).toBeNull();
+    expect(decodeEvent("not json")).toBeNull();
+  });
+
+  it("parses record event types", () => {
+    expect(parseEntityEventType("comment_deleted")).toEqual({
+      entityType: "comment",
+      action: "deleted",
+    });
+    expect(parseEntityEventType("presence_updated")).toBeNull();
+  });
+
+  it("keeps the newer copy when nothing is queued offline", () => {
+    const local = { id: "t1", title: "Local", updatedAt: new Date(2000) };
+    const newer = { id: "t1", title: "Remote", updatedAt: new Date(3000) };
+    const older = { id: "t1", title: "Remote", updatedAt: new Date(1000) };
+
+    expect(reconcileRemoteEntity(local, newer, [])).toBe(newer);
+    expect(reconcileRemoteEntity(local, older, [])).toBeNull();
+    expect(reconcileRemoteEntity(undefined, older, [])).toBe(older);
+  });
+
+  it("merges remote fields into tasks with queued offline edits", () => {
+    const base = { title: "Draft", priority: "low", description: "" };
+    const local = {
+      id: "t1",
+      title: "Mine",
+      priority: "low",
+      description: "Mine",
+    };
+    const remote = {
+      id: "t1",
+      title: "Theirs",
+      priority: "high",
+      description: "",
+    };
+
+    expect(
+      reconcileRemoteEntity(local, remote, [queueItem({ data: { base } })]),
+    ).toEqual({
+      id: "t1",
+      title: "Mine",
+      priority: "high",
+      description: "Mine",
+    });
+    expect(
+      reconcileRemoteEntity(local, remote, [queueItem({ type: "delete" })]),
+    ).toBeNull();
+  });
+
+  it("lists other users viewing a task or project once each", () => {
+    const entries = [
+      presence("c1", "ann", { projectId: "p1", taskId: "t1" }),
+      presence("c2", "ann", { projectId: "p1" }),
+      presence("c3", "ben", { projectId: "p1" }),
+      presence("c4", "me", { projectId: "p1", taskId: "t1" }),
+      presence("c5", "cat", { projectId: "p2" }),
+    ];
+
+    expect(
+      getViewers(entries, { taskId: "t1" }, "me").map(({ userId }) => userId),
+    ).toEqual(["ann"]);
+    expect(
+      getViewers(entries, { projectId: "p1" }, "me").map(
+        ({ userId }) => userId,
+      ),
+    ).toEqual(["ann", "ben"]);
+  });
+
+  it("formats typing messages", () => {
+    expect(formatTypingMessage([])).toBe("");
+    expect(formatTypingMessage(["Ann"])).toBe("Ann is typing…");
+    expect(formatTypingMessage(["Ann", "Ben"])).toBe("Ann and Ben are typing…");
+    expect(formatTypingMessage(["Ann", "Ben", "Cat"])).toBe(
+      "3 people are typing…",
+    );
+  });
+});
@@ -0,0 +1,173 @@
+import {
+  describeRRule,
+  expandRecurrenceSet,
+  expandRRule,
+  nextOccurrenceAfterCompletion,
+  parseRRule,
+  splitRecurringConfig,
+} from "../rruleUtils";
+import { zonedDateTimeToUtc } from "../dateUtils";
+
+const day = (year: number, month: number, date: number) =>
+  new Date(year, month - 1, date);
+
+const expand = (rrule: string, dtstart: Date, limit = 6) =>
+  expandRRule(parseRRule(rrule), dtstart, { limit });
+
+describe("RRULE expansion", () => {
+  it("expands ordinal weekdays", () => {
+    expect(expand("FREQ=MONTHLY;BYDAY=2TU", day(2024, 1, 9), 4)).toEqual([
+      day(2024, 1, 9),
+      day(2024, 2, 13),
+      day(2024, 3, 12),
+      day(2024, 4, 9),
+    ]);
+    expect(
+      expand("FREQ=YEARLY;BYMONTH=11;BYDAY=4TH", day(2024, 11, 28), 3),
+    ).toEqual([day(2024, 11, 28), day(2025, 11, 27), day(2026, 11, 26)]);
+  });
+
+  it("supports BYSETPOS and negative month days", () => {
+    expect(
+      expand(
+        "FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1",
+        day(2024, 1, 31),
+        5,
+      ),
+    ).toEqual([
+      day(2024, 1, 31),
+      day(2024, 2, 29),
+      day(2024, 3, 29),
+      day(2024, 4, 30),
+      day(2024, 5, 31),
+    ]);
+    expect(expand("FREQ=MONTHLY;BYMONTHDAY=-1", day(2024, 1, 31), 3)).toEqual([
+      day(2024, 1, 31),
+      day(2024, 2, 29),
+      day(2024, 3, 31),
+    ]);
+    // Months without a 31st are skipped, not clamped
+    expect(expand("FREQ=MONTHLY", day(2024, 1, 31), 3)).toEqual([
+      day(2024, 1, 31),
+      day(2024, 3, 31),
+      day(2024, 5, 31),
+    ]);
+  });
+
+  it("applies EXDATE and RDATE exceptions", () => {
+    expect(
+      expandRecurrenceSet({
+        dtstart: day(2024, 3, 4),
+        rrule: parseRRule("FREQ=WEEKLY;COUNT=4"),
+        exdates: [day(2024, 3, 11)],
+        rdates: [day(2024, 3, 13)],
+      }),
+    ).toEqual([
+      day(2024, 3, 4),
+      day(2024, 3, 13),
+      day(2024, 3, 18),
+      day(2024, 3, 25),
+    ]);
+  });
+
+  it("keeps wall-clock time across DST in a named timezone", () => {
+    expect(
+      expandRRule(parseRRule("FREQ=DAILY"), new Date("2024-03-09T14:00:00Z"), {
+        timeZone: "America/New_York",
+        limit: 3,
+      }).map((date) => date.toISOString()),
+    ).toEqual([
+      "2024-03-09T14:00:00.000Z",
+      "2024-03-10T13:00:00.000Z",
+      "2024-03-11T13:00:00.000Z",
+    ]);
+
+    const wall = { year: 2024, month: 3, day: 10, hour: 2, minute: 30 };
+    // Skipped by the spring-forward gap: moved forward an hour
+    expect(
+      zonedDateTimeToUtc({ ...wall, second: 0 }, "America/New_York"),
+    ).toEqual(new Date("2024-03-10T07:30:00Z"));
+    // Repeated when clocks go back: the first one wins
+    expect(
+      zonedDateTimeToUtc(
+        { ...wall, month: 11, day: 3, hour: 1, second: 0 },
+        "America/New_York",
+      ),
+    ).toEqual(new Date("2024-11-03T05:30:00Z"));
+  });
+
+  it("splits a series for 'this and following' edits", () => {
+    const config: any = {
+      pattern: "weekly",
+      rrule: "FREQ=WEEKLY;COUNT=6",
+      exDates: [day(2024, 3, 11), day(2024, 4, 1)],
+    };
+    const { head, tail } = splitRecurringConfig(
+      config,
+      day(2024, 3, 4),
+      day(2024, 3, 18),
+    );
+
+    expect(head.rrule).toBe("FREQ=WEEKLY;COUNT=2");
+    expect(head.exDates).toEqual([day(2024, 3, 11)]);
+    expect(tail.rrule).toBe("FREQ=WEEKLY;COUNT=4");
+    expect(tail.exDates).toEqual([day(2024, 4, 1)]);
+
+    const open = splitRecurringConfig(
+      { pattern: "daily", interval: 1 } as any,
+      day(2024, 3, 1),
+      day(2024, 3, 5),
+    );
+    expect(expand(open.head.rrule, day(2024, 3, 1), 10)).toHaveLength(4);
+    expect(open.tail.endCondition).toBe("never");
+  });
+
+  it("describes rules in words", () => {
+    expect(describeRRule(parseRRule("FREQ=MONTHLY;BYDAY=2TU"))).toBe(
+      "Monthly on the 2nd Tuesday",
+    );
+    expect(
+      describeRRule(
+        parseRRule("FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1"),
+      ),
+    ).toBe("Monthly on the last weekday");
+    expect(
+      describeRRule(
+        parseRRule("FREQ=MONTHLY;INTERVAL=2;BYMONTHDAY=-1;COUNT=3"),
+      ),
+    ).toBe("Every 2 months on the last day, 3 times");
+  });
+
+  it("schedules from completion when repeating after completion", () => {
+    const config: any = {
+      pattern: "daily",
+      interval: 3,
+      repeatFrom: "completion",
+    };
+    const due = new Date(2024, 2, 4, 9, 30);
+
+    // Finished two days late: three days after that, at the usual time
+    expect(
+      nextOccurrenceAfterCompletion(config, due, new Date(2024, 2, 6, 18)),
+    ).toEqual(new Date(2024, 2, 9, 9, 30));
+    expect(
+      nextOccurrenceAfterCompletion(config, due, new Date(2024, 2, 3, 7)),
+    ).toEqual(new Date(2024, 2, 6, 9, 30));
+
+    expect(
+      nextOccurrenceAfterCompletion(
+        { pattern: "monthly", interval: 1 } as any,
+        day(2024, 1, 15),
+        day(2024, 1, 31),
+      ),
+    ).toEqual(day(2024, 2, 29));
+    // Weekday rules move to the next listed day after completion
+    expect(
+      nextOccurrenceAfterCompletion(
+        { pattern: "custom", frequency: "weekdays" } as any,
+        day(2024, 3, 7),
+        day(2024, 3, 8),
+      ),
+    ).toEqual(day(2024, 3, 11));
+  });
+});
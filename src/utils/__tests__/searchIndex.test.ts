@@ -0,0 +1,101 @@
+import {
+  SearchIndex,
+  boundedEditDistance,
+  tokenizeSearchText,
+} from "../searchIndex";
+import { SearchService } from "../../services/searchService";
+
+describe("Search Index", () => {
+  const createIndex = () => {
+    const index = new SearchIndex([
+      { name: "title", boost: 3 },
+      { name: "description", boost: 1 },
+    ]);
+    index.add({
+      id: "a",
+      fields: { title: "Write quarterly report", description: "" },
+    });
+    index.add({
+      id: "b",
+      fields: { title: "Call plumber", description: "About the report" },
+    });
+    index.add({
+      id: "c",
+      fields: { title: "Groceries", description: "Milk, eggs" },
+    });
+    return index;
+  };
+
+  it("tokenizes text with offsets", () => {
+    expect(tokenizeSearchText("Fix bug, deploy!")).toEqual([
+      { term: "fix", start: 0, end: 3 },
+      { term: "bug", start: 4, end: 7 },
+      { term: "deploy", start: 9, end: 15 },
+    ]);
+  });
+
+  it("ranks title matches above description matches", () => {
+    const results = createIndex().search("report");
+
+    expect(results.map((r) => r.id)).toEqual(["a", "b"]);
+    expect(results[0].highlights.title).toEqual([{ start: 16, end: 22 }]);
+    expect(results[1].highlights.description).toEqual([{ start: 10, end: 16 }]);
+  });
+
+  it("matches prefixes and tolerates typos", () => {
+    const index = createIndex();
+
+    expect(index.search("quar").map((r) => r.id)).toEqual(["a"]);
+    expect(index.search("quar")[0].highlights.title).toEqual([
+      { start: 6, end: 10 },
+    ]);
+    expect(index.search("plubmer").map((r) => r.id)).toEqual(["b"]);
+    expect(boundedEditDistance("plubmer", "plumber", 1)).toBe(1);
+  });
+
+  it("requires every query token to match", () => {
+    const index = createIndex();
+
+    expect(index.search("report plumber").map((r) => r.id)).toEqual(["b"]);
+    expect(index.search("report milk")).toEqual([]);
+  });
+
+  it("updates and removes documents incrementally", () => {
+    const index = createIndex();
+
+    index.add({ id: "c", fields: { title: "Buy report binder" } });
+    expect(index.search("groceries")).toEqual([]);
+    expect(index.search("binder").map((r) => r.id)).toEqual(["c"]);
+
+    index.remove("a");
+    expect(index.size).toBe(2);
+    expect(index.search("quarterly")).toEqual([]);
+  });
+
+  it("searches task comments through the search service", () => {
+    const task: any = { id: "1", title: "Launch", description: "" };
+    const service = new SearchService([task], [], []);
+
+    expect(service.search("budget")).toEqual([]);
+
+    service.setData(
+      [task],
+      [],
+      [],
+      [
+        {
+          id: "c1",
+          taskId: "1",
+          user: "u",
+          content: "Check the budget first",
+          timestamp: new Date(),
+        },
+      ],
+    );
+
+    const [result] = service.search("budget");
+    expect(result.id).toBe("task-1");
+    expect(result.subtitle).toBe("Check the budget first");
+    expect(result.highlights.subtitle).toEqual([{ start: 10, end: 16 }]);
+  });
+});
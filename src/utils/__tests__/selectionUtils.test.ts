@@ -0,0 +1,74 @@
+import {
+  SelectionState,
+  getClickSelection,
+  getKeyboardSelection,
+} from "../selectionUtils";
+
+const ids = ["a", "b", "c", "d", "e"];
+
+const state = (overrides: Partial<SelectionState> = {}): SelectionState => ({
+  selectedIds: [],
+  anchorId: null,
+  focusedId: null,
+  ...overrides,
+});
+
+describe("selectionUtils", () => {
+  it("selects ranges from the anchor with shift and toggles with ctrl", () => {
+    const afterClick = getClickSelection(ids, state(), "b");
+    expect(afterClick).toEqual({
+      selectedIds: ["b"],
+      anchorId: "b",
+      focusedId: "b",
+    });
+
+    const afterRange = getClickSelection(ids, afterClick, "d", {
+      range: true,
+    });
+    expect(afterRange.selectedIds).toEqual(["b", "c", "d"]);
+    expect(afterRange.anchorId).toBe("b");
+
+    const afterToggle = getClickSelection(ids, afterRange, "c", {
+      toggle: true,
+    });
+    expect(afterToggle.selectedIds).toEqual(["b", "d"]);
+
+    expect(
+      getClickSelection(ids, afterToggle, "a", { range: true, toggle: true })
+        .selectedIds,
+    ).toEqual(["b", "d", "a", "c"]);
+  });
+
+  it("moves the focus with arrows and extends the selection with shift", () => {
+    const focused = getKeyboardSelection(ids, state(), "ArrowDown");
+    expect(focused?.focusedId).toBe("a");
+    expect(focused?.selectedIds).toEqual([]);
+
+    const extended = getKeyboardSelection(
+      ids,
+      state({ focusedId: "c", anchorId: "c", selectedIds: ["c"] }),
+      "ArrowUp",
+      { range: true },
+    );
+    expect(extended?.selectedIds).toEqual(["b", "c"]);
+
+    expect(
+      getKeyboardSelection(ids, state({ focusedId: "e" }), "ArrowDown")
+        ?.focusedId,
+    ).toBe("e");
+  });
+
+  it("toggles, selects all and clears from the keyboard", () => {
+    expect(
+      getKeyboardSelection(ids, state({ focusedId: "d" }), " ")?.selectedIds,
+    ).toEqual(["d"]);
+    expect(
+      getKeyboardSelection(ids, state(), "a", { toggle: true })?.selectedIds,
+    ).toEqual(ids);
+    expect(getKeyboardSelection(ids, state(), "a")).toBeNull();
+    expect(
+      getKeyboardSelection(ids, state({ selectedIds: ["a"] }), "Escape")
+        ?.selectedIds,
+    ).toEqual([]);
+  });
+});
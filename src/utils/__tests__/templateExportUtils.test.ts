@@ -0,0 +1,266 @@
+import {
+  TEMPLATE_FORMAT_VERSION,
+  createTemplateExport,
+  hashTemplate,
+  isSameTemplate,
+  parseTemplateExport,
+  parseTemplateMarkdown,
+  readTemplateExport,
+  templateToMarkdown,
+} from "../templateExportUtils";
+import { Template, TemplateCategory } from "../../types/template";
+
+const date = new Date(2024, 0, 1);
+
+const template = (overrides: Partial<Template>): Template => ({
+  id: "template-1",
+  name: "Release",
+  content: "Ship {{version}} on {{launch | MMM d}}",
+  categoryId: "category-1",
+  tags: ["release"],
+  variables: {
+    version: "1.0",
+    launch: { name: "launch", type: "date", required: true },
+  },
+  createdAt: date,
+  updatedAt: date,
+  ...overrides,
+});
+
+const categories: TemplateCategory[] = [
+  {
+    id: "category-1",
+    name: "Work Items",
+    order: 0,
+    createdAt: date,
+    updatedAt: date,
+  },
+  {
+    id: "category-2",
+    name: "Unused",
+    order: 1,
+    createdAt: date,
+    updatedAt: date,
+  },
+];
+
+describe("hashTemplate", () => {
+  it("ignores names and trailing whitespace but not content", () => {
+    const base = template({});
+    expect(hashTemplate({ ...base, content: `${base.content}  \r\n` })).toBe(
+      hashTemplate(base),
+    );
+    expect(
+      hashTemplate({
+        ...base,
+        variables: {
+          launch: { type: "date", required: true, name: "launch" },
+          version: "1.0",
+        },
+      }),
+    ).toBe(hashTemplate(base));
+    expect(hashTemplate({ ...base, content: "Ship it" })).not.toBe(
+      hashTemplate(base),
+    );
+  });
+});
+
+describe("isSameTemplate", () => {
+  it("tells apart templates whose hashes collide", () => {
+    const first = { content: "Review 35lbdc" };
+    const second = { content: "Review ov536t" };
+
+    expect(hashTemplate(first)).toBe(hashTemplate(second));
+    expect(isSameTemplate(first, second)).toBe(false);
+    expect(isSameTemplate(first, { content: "Review 35lbdc \r\n" })).toBe(true);
+  });
+});
+
+describe("createTemplateExport", () => {
+  it("exports used categories by key and round-trips through JSON", () => {
+    const file = createTemplateExport([template({})], categories, date);
+
+    expect(file.version).toBe(TEMPLATE_FORMAT_VERSION);
+    expect(file.categories).toEqual([
+      {
+        key: "work-items",
+        name: "Work Items",
+        description: undefined,
+        color: undefined,
+        icon: undefined,
+        order: 0,
+      },
+    ]);
+    expect(file.templates[0]).toMatchObject({
+      name: "Release",
+      categoryKey: "work-items",
+      hash: hashTemplate(template({})),
+    });
+
+    const read = parseTemplateExport(JSON.stringify(file));
+    expect(read.errors).toEqual([]);
+    expect(read.templates[0].item).toMatchObject({
+      name: "Release",
+      content: template({}).content,
+      variables: template({}).variables,
+      hash: file.templates[0].hash,
+    });
+  });
+});
+
+describe("readTemplateExport", () => {
+  it("upgrades version 1 exports", () => {
+    const read = readTemplateExport([
+      {
+        name: "Standup",
+        content: "Yesterday {{yesterday}}",
+        category: "Meetings",
+        tags: "daily, team",
+        variables: ["yesterday"],
+      },
+    ]);
+
+    expect(read.categories).toEqual([
+      { key: "meetings", name: "Meetings", order: 0 },
+    ]);
+    expect(read.templates[0].item).toMatchObject({
+      categoryKey: "meetings",
+      tags: ["daily", "team"],
+      variables: { yesterday: "" },
+      metadata: { version: TEMPLATE_FORMAT_VERSION },
+    });
+  });
+
+  it("reports invalid items and keeps the valid ones", () => {
+    const read = readTemplateExport({
+      format: "todone-templates",
+      version: 2,
+      categories: [],
+      templates: [
+        { name: "Good", content: "Hello", metadata: { version: 2 } },
+        { name: "Bad", content: 42, metadata: { version: 2 } },
+        {
+          name: "Typo",
+          content: "{{due + 1d}}",
+          variables: { due: { name: "due", type: "datetime" } },
+          metadata: { version: 2 },
+        },
+        { name: "Future", content: "Hi", metadata: { version: 9 } },
+        "not a template",
+      ],
+    });
+
+    expect(read.templates.map(({ index }) => index)).toEqual([0]);
+    expect(read.errors).toEqual([
+      { index: 1, name: "Bad", errors: ["content must be a string"] },
+      {
+        index: 2,
+        name: "Typo",
+        errors: ['Variable "due" has an unknown type'],
+      },
+      {
+        index: 3,
+        name: "Future",
+        errors: ["Template format version 9 is not supported"],
+      },
+      { index: 4, errors: ["Template must be an object"] },
+    ]);
+  });
+
+  it("rejects files it cannot read", () => {
+    expect(() => parseTemplateExport("{")).toThrow("not valid JSON");
+    expect(() =>
+      readTemplateExport({ format: "other", templates: [] }),
+    ).toThrow('Unsupported format "other"');
+    expect(() =>
+      readTemplateExport({
+        format: "todone-templates",
+        version: 5,
+        templates: [],
+      }),
+    ).toThrow("newer than supported");
+  });
+});
+
+describe("Markdown templates", () => {
+  it("round-trips content templates", () => {
+    const markdown = templateToMarkdown(template({}), "Work Items");
+
+    expect(markdown).toBe(
+      [
+        "---",
+        "name: Release",
+        "category: Work Items",
+        "tags: release",
+        "version: 2",
+        "variables:",
+        "  version: text = 1.0",
+        "  launch*: date",
+        "---",
+        "",
+        "Ship {{version}} on {{launch | MMM d}}",
+        "",
+      ].join("\n"),
+    );
+
+    const read = parseTemplateMarkdown(markdown);
+    expect(read.errors).toEqual([]);
+    expect(read.categories).toEqual([
+      { key: "work-items", name: "Work Items", order: 0 },
+    ]);
+    expect(read.templates[0].item).toMatchObject({
+      name: "Release",
+      categoryKey: "work-items",
+      tags: ["release"],
+      hash: hashTemplate(template({})),
+    });
+  });
+
+  it("reads project outlines and uses the heading without front matter", () => {
+    const project = parseTemplateMarkdown(
+      [
+        "---",
+        "name: Launch plan",
+        "type: project",
+        "color: #22c55e",
+        "---",
+        "# Launch",
+        "## Plan",
+        "- [ ] Write spec (day 0, +Owner)",
+        "  - [ ] Review spec (day 2, priority high)",
+      ].join("\n"),
+    ).templates[0].item;
+
+    expect(project.name).toBe("Launch plan");
+    expect(project.project?.project).toEqual({
+      name: "Launch",
+      color: "#22c55e",
+      viewType: "list",
+    });
+    expect(project.project?.roles).toEqual(["Owner"]);
+    expect(project.project?.sections[0].tasks[0].subtasks[0]).toMatchObject({
+      title: "Review spec",
+      dueOffset: 2,
+      priority: "high",
+    });
+
+    expect(
+      parseTemplateMarkdown("# Checklist\n\n- [ ] Pack").templates[0].item.name,
+    ).toBe("Checklist");
+  });
+
+  it("reports malformed front matter", () => {
+    const read = parseTemplateMarkdown(
+      "---\nname: Broken\nvariables:\n  size: colour\n---\nBody",
+    );
+
+    expect(read.templates).toEqual([]);
+    expect(read.errors).toEqual([
+      {
+        index: 0,
+        name: "Broken",
+        errors: ["Invalid variable on header line 3"],
+      },
+    ]);
+  });
+});
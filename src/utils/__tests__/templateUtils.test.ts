@@ -0,0 +1,168 @@
+import {
+  extractTemplateVariables,
+  getDefaultTemplateValues,
+  getTemplateVariableDefinitions,
+  renderTemplate,
+  resolveTemplateDate,
+  validateTemplate,
+  validateTemplateVariables,
+} from "../templateUtils";
+
+const now = new Date(2024, 4, 1, 15, 30);
+
+describe("getTemplateVariableDefinitions", () => {
+  it("treats plain strings as text and infers dates from offsets", () => {
+    const definitions = getTemplateVariableDefinitions({
+      content: "{{title}} ships {{launch - 14d}} ({{today}})",
+      variables: { title: "Release" },
+    });
+
+    expect(definitions).toEqual([
+      { name: "title", type: "text", defaultValue: "Release" },
+      { name: "launch", type: "date" },
+    ]);
+    expect(extractTemplateVariables("{{launch}} {{launch + 1w}}")).toEqual([
+      "launch",
+    ]);
+  });
+});
+
+describe("getDefaultTemplateValues", () => {
+  it("resolves relative date defaults", () => {
+    expect(
+      getDefaultTemplateValues(
+        [
+          { name: "due", type: "date", defaultValue: "today + 7d" },
+          { name: "owner", type: "user" },
+        ],
+        now,
+      ),
+    ).toEqual({ due: "2024-05-08", owner: "" });
+  });
+});
+
+describe("resolveTemplateDate", () => {
+  it("accepts ISO dates and today with an offset", () => {
+    expect(resolveTemplateDate("2024-05-20", now)).toEqual(
+      new Date(2024, 4, 20),
+    );
+    expect(resolveTemplateDate("today - 1m", now)).toEqual(
+      new Date(2024, 3, 1),
+    );
+    expect(resolveTemplateDate("next week", now)).toBeNull();
+  });
+});
+
+describe("validateTemplateVariables", () => {
+  const definitions = [
+    { name: "title", type: "text" as const, required: true, maxLength: 5 },
+    { name: "size", type: "select" as const, options: ["S", "M", "L"] },
+    { name: "launch", type: "date" as const, label: "Launch date" },
+  ];
+
+  it("reports missing, unknown and malformed values", () => {
+    expect(
+      validateTemplateVariables(definitions, {
+        size: "XL",
+        launch: "soon",
+      }),
+    ).toEqual({
+      title: "title is required",
+      size: "size must be one of: S, M, L",
+      launch: "Launch date must be a date",
+    });
+    expect(
+      validateTemplateVariables(definitions, {
+        title: "Ship",
+        size: "M",
+        launch: "2024-05-20",
+      }),
+    ).toEqual({});
+  });
+
+  it("reports an invalid pattern instead of throwing", () => {
+    const patterned = [
+      { name: "code", type: "text" as const, pattern: "[A-Z]{3}" },
+      { name: "broken", type: "text" as const, pattern: "([A-Z" },
+    ];
+
+    expect(
+      validateTemplateVariables(patterned, { code: "abc", broken: "ABC" }),
+    ).toEqual({
+      code: "code has an invalid format",
+      broken: "broken has an invalid format rule",
+    });
+    expect(
+      validateTemplate({
+        name: "Ticket",
+        content: "{{code}} {{broken}}",
+        variables: { code: patterned[0], broken: patterned[1] },
+      }).errors,
+    ).toEqual(['Pattern of "broken" is not a valid expression']);
+  });
+});
+
+describe("renderTemplate", () => {
+  it("applies date offsets and formats relative to the anchor", () => {
+    const { result, generated } = renderTemplate(
+      "Freeze {{launch - 14d}}, launch {{launch | MMM d}}",
+      { launch: "2024-05-20" },
+      { definitions: [{ name: "launch", type: "date" }], now },
+    );
+
+    expect(result).toBe("Freeze 2024-05-06, launch May 20");
+    expect(generated.map(({ variable, value }) => [variable, value])).toEqual([
+      ["launch", "2024-05-06"],
+      ["launch", "May 20"],
+    ]);
+  });
+
+  it("shows names for users and projects and leaves unknown values", () => {
+    const { result, generated } = renderTemplate(
+      "{{owner}} on {{project}} by {{today + 1d}} {{missing}}",
+      { owner: "u1", project: "p1" },
+      {
+        definitions: [
+          { name: "owner", type: "user" },
+          { name: "project", type: "project" },
+        ],
+        users: [{ id: "u1", name: "Ada" }],
+        projects: [{ id: "p1", name: "Website" }],
+        now,
+      },
+    );
+
+    expect(result).toBe("Ada on Website by 2024-05-02 {{missing}}");
+    expect(generated).toHaveLength(3);
+    expect(generated[2]).toMatchObject({
+      variable: "today",
+      type: "date",
+      date: new Date(2024, 4, 2),
+    });
+  });
+
+  it("does not apply offsets to text variables", () => {
+    expect(
+      renderTemplate("{{name + 1d}}", { name: "Ada" }, { now }).result,
+    ).toBe("{{name + 1d}}");
+  });
+});
+
+describe("validateTemplate", () => {
+  it("rejects date arithmetic on non-date variables", () => {
+    const { isValid, errors } = validateTemplate({
+      name: "Launch",
+      content: "{{title + 1d}} {{size}}",
+      variables: {
+        title: "Release",
+        size: { name: "size", type: "select" },
+      },
+    });
+
+    expect(isValid).toBe(false);
+    expect(errors).toEqual([
+      'Variable "size" needs at least one option',
+      '{{title + 1d}} uses date arithmetic but "title" is not a date variable',
+    ]);
+  });
+});
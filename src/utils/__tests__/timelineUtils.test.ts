@@ -0,0 +1,159 @@
+import {
+  TIMELINE_WORKDAY_MINUTES,
+  dateToX,
+  getCriticalPath,
+  getTimelineBar,
+  getTimelineBars,
+  getTimelineLinks,
+  getTimelineRange,
+  getTimelineTicks,
+  getVisibleRows,
+  rescheduleTask,
+  resizeTask,
+} from "../timelineUtils";
+import { Task } from "../../types/task";
+
+const date = new Date(2024, 0, 1);
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  title: id.toUpperCase(),
+  status: "todo",
+  priority: "medium",
+  completed: false,
+  createdAt: date,
+  updatedAt: date,
+  ...overrides,
+});
+
+const days = (count: number) => count * TIMELINE_WORKDAY_MINUTES;
+
+describe("getTimelineBar", () => {
+  it("ends on the due date and spans whole days of duration", () => {
+    expect(
+      getTimelineBar(
+        task("a", { dueDate: new Date(2024, 0, 10, 17), duration: days(2.5) }),
+      ),
+    ).toMatchObject({
+      start: new Date(2024, 0, 8),
+      end: new Date(2024, 0, 11),
+      days: 3,
+    });
+    expect(
+      getTimelineBar(task("b", { dueDate: date, duration: 30 }))?.days,
+    ).toBe(1);
+    expect(getTimelineBar(task("c"))).toBeNull();
+  });
+
+  it("orders bars by start and skips unscheduled tasks", () => {
+    const bars = getTimelineBars([
+      task("late", { dueDate: new Date(2024, 0, 20) }),
+      task("none"),
+      task("early", { dueDate: new Date(2024, 0, 5) }),
+    ]);
+
+    expect(bars.map(({ task }) => task.id)).toEqual(["early", "late"]);
+  });
+});
+
+describe("timeline scale", () => {
+  it("pads the range to whole ticks and places ticks by zoom", () => {
+    const bars = getTimelineBars([
+      task("a", { dueDate: new Date(2024, 1, 14) }),
+    ]);
+    const range = getTimelineRange(bars, "month", new Date(2024, 1, 1));
+
+    expect(range).toEqual({
+      start: new Date(2024, 0, 1),
+      end: new Date(2024, 2, 1),
+    });
+    expect(getTimelineTicks(range, "month")).toEqual([
+      { date: new Date(2024, 0, 1), x: 0, label: "Jan 2024" },
+      { date: new Date(2024, 1, 1), x: 31 * 4, label: "Feb 2024" },
+    ]);
+    expect(dateToX(new Date(2024, 0, 3), range, "day")).toBe(80);
+  });
+});
+
+describe("getCriticalPath", () => {
+  it("follows the chain that determines the last finish", () => {
+    // a (2d) -> b (3d, 1d lag) is the longest chain; c has slack
+    const bars = getTimelineBars([
+      task("a", { dueDate: new Date(2024, 0, 2), duration: days(2) }),
+      task("b", {
+        dueDate: new Date(2024, 0, 6),
+        duration: days(3),
+        dependencies: ["a"],
+        dependencyLags: { a: 1 },
+      }),
+      task("c", {
+        dueDate: new Date(2024, 0, 3),
+        dependencies: ["a"],
+      }),
+    ]);
+
+    expect(getTimelineLinks(bars)).toEqual([
+      { fromId: "a", toId: "c", lagDays: 0 },
+      { fromId: "a", toId: "b", lagDays: 1 },
+    ]);
+    expect([...getCriticalPath(bars)].sort()).toEqual(["a", "b"]);
+  });
+
+  it("pushes successors that are scheduled too early", () => {
+    const bars = getTimelineBars([
+      task("a", { dueDate: new Date(2024, 0, 10), duration: days(5) }),
+      task("b", { dueDate: new Date(2024, 0, 3), dependencies: ["a"] }),
+      task("c", { dueDate: new Date(2024, 0, 10) }),
+    ]);
+
+    expect([...getCriticalPath(bars)].sort()).toEqual(["a", "b"]);
+  });
+
+  it("leaves out tasks in cycles", () => {
+    const bars = getTimelineBars([
+      task("a", { dueDate: date, dependencies: ["b"] }),
+      task("b", { dueDate: date, dependencies: ["a"] }),
+      task("c", { dueDate: date }),
+    ]);
+
+    expect([...getCriticalPath(bars)]).toEqual(["c"]);
+  });
+});
+
+describe("dragging bars", () => {
+  const base = task("a", {
+    dueDate: new Date(2024, 0, 10, 17),
+    duration: days(3),
+  });
+
+  it("moves the due date and keeps the time of day", () => {
+    expect(rescheduleTask(base, -2)).toEqual({
+      dueDate: new Date(2024, 0, 8, 17),
+    });
+  });
+
+  it("resizes from either edge and keeps at least one day", () => {
+    expect(resizeTask(base, "end", 2)).toEqual({
+      dueDate: new Date(2024, 0, 12, 17),
+      duration: days(5),
+    });
+    expect(resizeTask(base, "start", 1)).toEqual({
+      dueDate: base.dueDate,
+      duration: days(2),
+    });
+    expect(resizeTask(base, "end", -5)).toEqual({
+      dueDate: new Date(2024, 0, 8, 17),
+      duration: days(1),
+    });
+  });
+});
+
+describe("getVisibleRows", () => {
+  it("renders only rows in view plus overscan", () => {
+    expect(getVisibleRows(3600, 720, 36, 5000)).toEqual({
+      start: 95,
+      end: 125,
+    });
+    expect(getVisibleRows(0, 720, 36, 10)).toEqual({ start: 0, end: 10 });
+  });
+});
@@ -0,0 +1,174 @@
+import { Attachment } from "../database/models";
+import { MAX_SYNC_ATTEMPTS } from "../database/sync";
+
+/**
+ * Largest file that can be attached
+ */
+export const MAX_ATTACHMENT_SIZE = 25 * 1024 * 1024;
+
+/**
+ * Space attachments may take up in IndexedDB while they wait to upload
+ */
+export const ATTACHMENT_STORAGE_QUOTA = 250 * 1024 * 1024;
+
+/**
+ * Longest side of an image thumbnail, in pixels
+ */
+export const THUMBNAIL_SIZE = 240;
+
+/**
+ * Characters of a text file kept for its preview
+ */
+export const TEXT_PREVIEW_LENGTH = 500;
+
+export type AttachmentPreviewKind = "image" | "text" | "pdf";
+
+export interface AttachmentLimits {
+  maxFileSize: number;
+  quota: number;
+}
+
+export interface RejectedAttachment<T> {
+  file: T;
+  reason: string;
+}
+
+const TEXT_TYPES = [
+  "application/json",
+  "application/xml",
+  "application/javascript",
+];
+const TEXT_EXTENSIONS =
+  /\.(txt|md|markdown|csv|tsv|log|json|xml|ya?ml|ini|js|jsx|ts|tsx|css|html?)$/i;
+
+/**
+ * Error raised when no file could be attached because of the size or
+ * quota limits
+ */
+export class AttachmentLimitError extends Error {
+  rejected: RejectedAttachment<{ name: string }>[];
+
+  constructor(
+    message: string,
+    rejected: RejectedAttachment<{ name: string }>[],
+  ) {
+    super(message);
+    this.name = "AttachmentLimitError";
+    this.rejected = rejected;
+  }
+}
+
+/**
+ * Human-readable size, e.g. "1.5 MB"
+ */
+export const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+
+  const units = ["KB", "MB", "GB"];
+  let size = bytes / 1024;
+  let unit = 0;
+  while (size >= 1024 && unit < units.length - 1) {
+    size /= 1024;
+    unit++;
+  }
+
+  return `${size < 10 ? size.toFixed(1) : Math.round(size)} ${units[unit]}`;
+};
+
+/**
+ * Kind of preview that can be generated for a file, or null for a plain
+ * file icon
+ */
+export const getPreviewKind = (
+  mimeType: string,
+  fileName: string,
+): AttachmentPreviewKind | null => {
+  if (mimeType.startsWith("image/")) return "image";
+  if (mimeType === "application/pdf" || /\.pdf$/i.test(fileName)) {
+    return "pdf";
+  }
+  if (
+    mimeType.startsWith("text/") ||
+    TEXT_TYPES.includes(mimeType) ||
+    TEXT_EXTENSIONS.test(fileName)
+  ) {
+    return "text";
+  }
+  return null;
+};
+
+/**
+ * Splits files into those that fit the size limit and the remaining
+ * quota, in order, and those that don't
+ */
+export const validateAttachments = <T extends { name: string; size: number }>(
+  files: T[],
+  usedBytes: number,
+  {
+    maxFileSize = MAX_ATTACHMENT_SIZE,
+    quota = ATTACHMENT_STORAGE_QUOTA,
+  }: Partial<AttachmentLimits> = {},
+): { accepted: T[]; rejected: RejectedAttachment<T>[] } => {
+  const accepted: T[] = [];
+  const rejected: RejectedAttachment<T>[] = [];
+  let used = usedBytes;
+
+  files.forEach((file) => {
+    if (file.size === 0) {
+      rejected.push({ file, reason: "File is empty" });
+    } else if (file.size > maxFileSize) {
+      rejected.push({
+        file,
+        reason: `File is larger than ${formatFileSize(maxFileSize)}`,
+      });
+    } else if (used + file.size > quota) {
+      rejected.push({ file, reason: "Not enough attachment storage left" });
+    } else {
+      accepted.push(file);
+      used += file.size;
+    }
+  });
+
+  return { accepted, rejected };
+};
+
+/**
+ * Dimensions that fit the image inside a square of `maxSize`, never
+ * scaling it up
+ */
+export const getThumbnailSize = (
+  width: number,
+  height: number,
+  maxSize = THUMBNAIL_SIZE,
+): { width: number; height: number } => {
+  const scale = Math.min(1, maxSize / Math.max(width, height));
+
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+};
+
+/**
+ * Attachments due for an upload attempt, oldest first. Failed uploads wait
+ * for their retry time and stop after MAX_SYNC_ATTEMPTS until retried by
+ * hand.
+ */
+export const getDueUploads = (
+  attachments: Attachment[],
+  now = new Date(),
+): Attachment[] =>
+  attachments
+    .filter(
+      (attachment) =>
+        attachment.uploadStatus === "pending" ||
+        (attachment.uploadStatus === "failed" &&
+          (attachment.uploadAttempts || 0) < MAX_SYNC_ATTEMPTS &&
+          (!attachment.nextAttemptAt ||
+            new Date(attachment.nextAttemptAt).getTime() <= now.getTime())),
+    )
+    .sort(
+      (a, b) =>
+        new Date(a.createdAt || 0).getTime() -
+        new Date(b.createdAt || 0).getTime(),
+    );
@@ -0,0 +1,232 @@
+/**
+ * Bulk Capture Utilities
+ * Splits pasted bullet lists, Markdown checklists and indented outlines
+ * into items, and reads CSV with a column mapping
+ */
+
+import { PriorityLevel } from "../types/enums";
+import {
+  BulkCaptureField,
+  BulkCaptureFormat,
+  BulkCaptureLine,
+  BulkCaptureMapping,
+} from "../types/bulkCapture";
+
+const TAB_WIDTH = 4;
+const BULLET_PATTERN = /^(?:[-*+•‣◦]|\d+[.)])\s+/;
+const CHECKBOX_PATTERN = /^\[([ xX])\]\s*/;
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+/**
+ * Header names recognised when guessing a CSV mapping
+ */
+const CSV_HEADERS: Record<Exclude<BulkCaptureField, "ignore">, string[]> = {
+  title: ["title", "task", "name", "content", "summary", "subject"],
+  description: ["description", "notes", "note", "details", "body"],
+  dueDate: ["due", "due date", "duedate", "date", "deadline"],
+  priority: ["priority", "prio"],
+  project: ["project", "list"],
+  labels: ["labels", "label", "tags", "tag"],
+  assignee: ["assignee", "assigned to", "owner", "responsible"],
+  duration: ["duration", "estimate", "minutes"],
+};
+
+const PRIORITY_WORDS: Record<string, PriorityLevel> = {
+  p1: PriorityLevel.P1,
+  p2: PriorityLevel.P2,
+  p3: PriorityLevel.P3,
+  p4: PriorityLevel.P4,
+  "1": PriorityLevel.P1,
+  "2": PriorityLevel.P2,
+  "3": PriorityLevel.P3,
+  "4": PriorityLevel.P4,
+  urgent: PriorityLevel.P1,
+  critical: PriorityLevel.P1,
+  high: PriorityLevel.P2,
+  medium: PriorityLevel.P3,
+  normal: PriorityLevel.P3,
+  low: PriorityLevel.P4,
+};
+
+const indentWidth = (line: string): number => {
+  let width = 0;
+  for (const char of line) {
+    if (char === " ") width++;
+    else if (char === "\t") width += TAB_WIDTH;
+    else break;
+  }
+  return width;
+};
+
+/**
+ * Split pasted text into items. Deeper indentation than the item above
+ * makes a line its child; bullets, numbers and `[ ]` / `[x]` checkboxes
+ * are removed.
+ */
+export function parseOutline(text: string): BulkCaptureLine[] {
+  const items: BulkCaptureLine[] = [];
+  const stack: { indent: number; index: number }[] = [];
+
+  text.split(/\r?\n/).forEach((line, lineIndex) => {
+    const content = line.trim().replace(BULLET_PATTERN, "");
+    const checkbox = content.match(CHECKBOX_PATTERN);
+    const itemText = content.replace(CHECKBOX_PATTERN, "").trim();
+    if (!itemText) return;
+
+    const indent = indentWidth(line);
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      stack.pop();
+    }
+
+    const parent = stack[stack.length - 1];
+    items.push({
+      text: itemText,
+      depth: stack.length,
+      parentIndex: parent?.index,
+      completed: checkbox ? checkbox[1] !== " " : false,
+      lineNumber: lineIndex + 1,
+    });
+    stack.push({ indent, index: items.length - 1 });
+  });
+
+  return items;
+}
+
+/**
+ * Delimiter that occurs most often in the first line
+ */
+export function detectCsvDelimiter(text: string): string {
+  const firstLine = text.split(/\r?\n/, 1)[0] || "";
+  let best = ",";
+  let bestCount = 0;
+
+  CSV_DELIMITERS.forEach((delimiter) => {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  });
+
+  return best;
+}
+
+/**
+ * Parse CSV into rows of fields. Supports quoted fields with embedded
+ * delimiters, doubled quotes and line breaks. Blank lines are skipped.
+ */
+export function parseCsv(
+  text: string,
+  delimiter: string = detectCsvDelimiter(text),
+): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some((value) => value.trim() !== "")) rows.push(row);
+    row = [];
+    field = "";
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field.trim() === "") {
+      quoted = true;
+      field = "";
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * CSV when every line has the same number of fields (at least two) and
+ * the text does not start like a list
+ */
+export function detectBulkFormat(text: string): BulkCaptureFormat {
+  const trimmed = text.trim();
+  if (!trimmed || BULLET_PATTERN.test(trimmed)) return "outline";
+
+  const rows = parseCsv(trimmed);
+  const columns = rows[0]?.length || 0;
+  return rows.length >= 2 &&
+    columns >= 2 &&
+    rows.every((row) => row.length === columns)
+    ? "csv"
+    : "outline";
+}
+
+/**
+ * Guess the field of each column from its header; unknown columns are
+ * ignored and the first column is the title if no header says otherwise
+ */
+export function guessCsvMapping(headers: string[]): BulkCaptureMapping {
+  const used = new Set<BulkCaptureField>();
+
+  const mapping = headers.map((header) => {
+    const name = header.trim().toLowerCase().replace(/[_-]+/g, " ");
+    const match = (
+      Object.entries(CSV_HEADERS) as [BulkCaptureField, string[]][]
+    ).find(([field, names]) => !used.has(field) && names.includes(name));
+
+    if (!match) return "ignore";
+    used.add(match[0]);
+    return match[0];
+  });
+
+  if (!used.has("title") && mapping.length > 0 && mapping[0] === "ignore") {
+    mapping[0] = "title";
+  }
+  return mapping;
+}
+
+/**
+ * Whether the first row names columns rather than holding a task
+ */
+export function hasCsvHeader(rows: string[][]): boolean {
+  const headerNames = Object.values(CSV_HEADERS).flat();
+  return (
+    rows.length > 1 &&
+    rows[0].some((value) => headerNames.includes(value.trim().toLowerCase()))
+  );
+}
+
+/**
+ * Priority from values such as "p1", "2" or "high"
+ */
+export function parsePriorityValue(value: string): PriorityLevel | undefined {
+  return PRIORITY_WORDS[value.trim().toLowerCase()];
+}
+
+/**
+ * Labels from a list separated by commas, semicolons, pipes or spaces;
+ * a leading `@` is dropped
+ */
+export function parseLabelList(value: string): string[] {
+  return value
+    .split(/[,;|\s]+/)
+    .map((label) => label.trim().replace(/^@/, ""))
+    .filter(Boolean);
+}
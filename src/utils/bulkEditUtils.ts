@@ -0,0 +1,115 @@
+import { addDays } from "date-fns";
+import { BulkTaskEdit, Task } from "../types/task";
+
+/**
+ * Task fields a bulk edit reads; the store's tasks and domain tasks both fit
+ */
+export type BulkEditTask = Pick<
+  Task,
+  "id" | "title" | "completed" | "dueDate" | "labelIds"
+>;
+
+/**
+ * Changes a bulk edit makes, by task ID. Tasks the edit leaves as they are
+ * are left out, e.g. tasks that already have the label being added.
+ */
+export const getBulkEditUpdates = (
+  tasks: BulkEditTask[],
+  edit: BulkTaskEdit,
+  now: Date = new Date(),
+): Record<string, Partial<Task>> => {
+  const updates: Record<string, Partial<Task>> = {};
+
+  tasks.forEach((task) => {
+    const update = getTaskUpdate(task, edit, now);
+    if (update) updates[task.id] = update;
+  });
+
+  return updates;
+};
+
+const getTaskUpdate = (
+  task: BulkEditTask,
+  edit: BulkTaskEdit,
+  now: Date,
+): Partial<Task> | null => {
+  switch (edit.type) {
+    case "reschedule":
+      return { dueDate: edit.dueDate };
+    case "shiftDueDates":
+      return task.dueDate
+        ? { dueDate: addDays(new Date(task.dueDate), edit.days) }
+        : null;
+    case "priority":
+      return { priority: edit.priority };
+    case "addLabel": {
+      const labelIds = task.labelIds || [];
+      return labelIds.includes(edit.labelId)
+        ? null
+        : { labelIds: [...labelIds, edit.labelId] };
+    }
+    case "removeLabel": {
+      const labelIds = task.labelIds || [];
+      return labelIds.includes(edit.labelId)
+        ? { labelIds: labelIds.filter((id) => id !== edit.labelId) }
+        : null;
+    }
+    case "move":
+      return edit.sectionId === undefined
+        ? { projectId: edit.projectId, sectionId: null }
+        : { projectId: edit.projectId, sectionId: edit.sectionId };
+    case "assign":
+      return { assigneeId: edit.assigneeId };
+    case "complete":
+      return task.completed
+        ? null
+        : {
+            completed: true,
+            status: "completed" as Task["status"],
+            completedAt: now,
+          };
+  }
+};
+
+/**
+ * Label for a bulk edit in the undo history
+ */
+export const getBulkEditLabel = (edit: BulkTaskEdit, count: number): string => {
+  const tasks = `${count} task${count === 1 ? "" : "s"}`;
+
+  switch (edit.type) {
+    case "reschedule":
+    case "shiftDueDates":
+      return `Reschedule ${tasks}`;
+    case "priority":
+      return `Change priority of ${tasks}`;
+    case "addLabel":
+      return `Label ${tasks}`;
+    case "removeLabel":
+      return `Remove label from ${tasks}`;
+    case "move":
+      return `Move ${tasks}`;
+    case "assign":
+      return `Assign ${tasks}`;
+    case "complete":
+      return `Complete ${tasks}`;
+  }
+};
+
+/**
+ * Copies of tasks with new IDs, placed in the same project and section.
+ * Copies start open and without comments.
+ */
+export const duplicateTasks = <T extends BulkEditTask & { status?: string }>(
+  tasks: T[],
+  createId: () => string = () => Math.random().toString(36).substr(2, 9),
+): T[] =>
+  tasks.map((task) => ({
+    ...task,
+    id: createId(),
+    title: `${task.title} (copy)`,
+    completed: false,
+    completedAt: null,
+    status: task.status === "completed" ? "todo" : task.status,
+    commentIds: [],
+  }));
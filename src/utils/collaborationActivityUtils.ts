@@ -5,6 +5,7 @@ import {
   CollaborationEventType,
 } from "../types/collaboration";
 import { User } from "../types/user";
+import { REALTIME_PROTOCOL_VERSION, generateEventId } from "./realtimeUtils";
 
 /**
  * Collaboration Activity Utilities - Helper functions for collaboration activity features
@@ -59,6 +60,8 @@ export function createCollaborationEvent(eventData: {
   data: any;
 }): CollaborationEvent {
   return {
+    version: REALTIME_PROTOCOL_VERSION,
+    id: generateEventId(),
     type: eventData.type,
     timestamp: new Date(),
     data: eventData.data,
@@ -774,6 +777,8 @@ export function createEventFromActivity(
   activity: CollaborationActivity,
 ): CollaborationEvent {
   return {
+    version: REALTIME_PROTOCOL_VERSION,
+    id: generateEventId(),
     type: getActivityEventType(activity),
     timestamp: activity.timestamp,
     data: activity,
@@ -1,4 +1,11 @@
-import { Command } from "../types/command";
+import { addDays, isSameDay, startOfDay } from "date-fns";
+import {
+  Command,
+  CommandScope,
+  PaletteData,
+  PaletteOperator,
+  PaletteQuery,
+} from "../types/command";
 
 export const createCommand = (
   id: string,
@@ -89,3 +96,142 @@ export const getCommandSuggestions = (
     )
     .slice(0, limit);
 };
+
+const SCOPE_PREFIXES: Record<string, CommandScope> = {
+  ">": "commands",
+  "#": "projects",
+  "@": "labels",
+  "/": "filters",
+};
+
+const OPERATOR_PATTERN = /(^|\s)(is|due|in|label|p):(?:"([^"]*)"|(\S+))/gi;
+
+/**
+ * Split a palette query into its scope prefix, inline operators and the
+ * remaining free text. Operator values containing spaces can be quoted,
+ * e.g. `in:"Home Renovation"`.
+ */
+export const parsePaletteQuery = (query: string): PaletteQuery => {
+  let rest = (query || "").trimStart();
+  let scope: CommandScope = "all";
+
+  if (rest && SCOPE_PREFIXES[rest[0]]) {
+    scope = SCOPE_PREFIXES[rest[0]];
+    rest = rest.slice(1);
+  }
+
+  const operators: PaletteOperator[] = [];
+  const text = rest.replace(
+    OPERATOR_PATTERN,
+    (_match, leading: string, key: string, quoted?: string, bare?: string) => {
+      operators.push({
+        key: key.toLowerCase() as PaletteOperator["key"],
+        value: (quoted ?? bare ?? "").trim(),
+      });
+      return leading;
+    },
+  );
+
+  return { scope, text: text.replace(/\s+/g, " ").trim(), operators };
+};
+
+/**
+ * Score how well free text matches a title: every word must appear, and
+ * matches at the start of the title or of a word rank higher.
+ * Returns -1 when the text does not match.
+ */
+export const scorePaletteMatch = (text: string, title: string): number => {
+  const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+  const target = (title || "").toLowerCase();
+
+  if (words.length === 0) {
+    return 0;
+  }
+
+  let score = 0;
+  for (const word of words) {
+    const index = target.indexOf(word);
+    if (index === -1) {
+      return -1;
+    }
+    if (index === 0) {
+      score += 3;
+    } else if (/\W/.test(target[index - 1])) {
+      score += 2;
+    } else {
+      score += 1;
+    }
+  }
+
+  return score;
+};
+
+const PRIORITY_ALIASES: Record<string, string[]> = {
+  "1": ["p1", "critical"],
+  "2": ["p2", "high"],
+  "3": ["p3", "medium"],
+  "4": ["p4", "low"],
+};
+
+const toDate = (value: unknown): Date | null => {
+  if (!value) return null;
+  const date = value instanceof Date ? value : new Date(value as string);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const sameName = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+
+/**
+ * Check a task against every inline operator of a palette query
+ */
+export const matchesPaletteOperators = (
+  task: any,
+  operators: PaletteOperator[],
+  data: PaletteData,
+): boolean => {
+  const today = startOfDay(data.now || new Date());
+  const due = toDate(task.dueDate);
+  const isOverdue = !!due && due < today && !task.completed;
+
+  return operators.every(({ key, value }) => {
+    const lower = value.toLowerCase();
+
+    switch (key) {
+      case "is":
+        if (lower === "completed" || lower === "done") return !!task.completed;
+        if (lower === "active" || lower === "open") return !task.completed;
+        if (lower === "overdue") return isOverdue;
+        if (lower === "recurring") return !!task.recurringPattern;
+        return false;
+      case "due": {
+        if (lower === "none") return !due;
+        if (lower === "overdue") return isOverdue;
+        if (!due) return false;
+        if (lower === "today") return isSameDay(due, today);
+        if (lower === "tomorrow") return isSameDay(due, addDays(today, 1));
+        if (lower === "week") return due >= today && due < addDays(today, 7);
+        const date = /^\d{4}-\d{2}-\d{2}$/.test(lower)
+          ? new Date(`${lower}T00:00:00`)
+          : null;
+        return !!date && isSameDay(due, date);
+      }
+      case "in":
+        return data.projects.some(
+          (project) =>
+            project.id === task.projectId && sameName(project.name, value),
+        );
+      case "label":
+        return data.labels.some(
+          (label) =>
+            sameName(label.name, value) &&
+            (task.labelIds || []).includes(label.id),
+        );
+      case "p":
+        return (PRIORITY_ALIASES[lower.replace(/^p/, "")] || []).includes(
+          String(task.priority).toLowerCase(),
+        );
+      default:
+        return false;
+    }
+  });
+};
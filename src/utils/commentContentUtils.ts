@@ -0,0 +1,184 @@
+/**
+ * A user that can be mentioned in a comment
+ */
+export interface MentionCandidate {
+  userId: string;
+  name: string;
+}
+
+/**
+ * Mentions are stored in the content as `@[Name](userId)` so they survive
+ * renames and can be parsed back without a lookup
+ */
+const MENTION_PATTERN = /@\[([^\]\n]+)\]\(([\w-]+)\)/g;
+
+// URLs never take in a placeholder, or an earlier fragment's markup would
+// end up inside the generated href
+const LINK_PATTERN = /\[([^\]\n]+)\]\(([^)\s\uE000]+)\)/g;
+const URL_PATTERN = /https?:\/\/[^\s<\uE000]+/g;
+const SAFE_URL_PATTERN = /^(https?:\/\/|mailto:)/i;
+const PLACEHOLDER_PATTERN = /\uE000(\d+)\uE000/g;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+/**
+ * Mention token for a user. Brackets are dropped from the name so the
+ * token stays parseable.
+ */
+export const formatMention = ({ userId, name }: MentionCandidate): string =>
+  `@[${name.replace(/[[\]]/g, "")}](${userId})`;
+
+/**
+ * IDs of the users mentioned in the content, in order and without
+ * duplicates. Tokens naming someone who is not a candidate are ignored.
+ */
+export const parseMentions = (
+  content: string,
+  candidates: MentionCandidate[],
+): string[] => {
+  const known = new Set(candidates.map((candidate) => candidate.userId));
+  const mentioned = Array.from(
+    content.matchAll(MENTION_PATTERN),
+    (match) => match[2],
+  );
+
+  return Array.from(new Set(mentioned.filter((userId) => known.has(userId))));
+};
+
+/**
+ * The "@query" being typed just before the caret, or null when the caret
+ * is not in a mention
+ */
+export const getMentionQuery = (
+  content: string,
+  caret: number,
+): { query: string; start: number } | null => {
+  const match = /(^|\s)@([^\s@[\]()]*)$/.exec(content.slice(0, caret));
+  if (!match) return null;
+
+  return { query: match[2], start: caret - match[2].length - 1 };
+};
+
+/**
+ * Candidates whose name starts a word matching the query
+ */
+export const filterMentionCandidates = (
+  candidates: MentionCandidate[],
+  query: string,
+  limit = 5,
+): MentionCandidate[] => {
+  const normalized = query.toLowerCase();
+
+  return candidates
+    .filter((candidate) =>
+      candidate.name
+        .toLowerCase()
+        .split(/\s+/)
+        .some((word) => word.startsWith(normalized)),
+    )
+    .slice(0, limit);
+};
+
+/**
+ * Replaces the "@query" from `start` up to the caret with a mention token
+ */
+export const insertMention = (
+  content: string,
+  start: number,
+  caret: number,
+  candidate: MentionCandidate,
+): { content: string; caret: number } => {
+  const mention = `${formatMention(candidate)} `;
+
+  return {
+    content: content.slice(0, start) + mention + content.slice(caret),
+    caret: start + mention.length,
+  };
+};
+
+/**
+ * Renders Markdown-lite comment content as HTML. Everything is escaped
+ * before formatting is applied, so the only markup in the result is what
+ * this function generates. Supports **bold**, *italic*, ~~strikethrough~~,
+ * `code`, [links](https://…), bare URLs, mentions and line breaks. Links
+ * other than http(s) and mailto are rendered as plain text.
+ */
+export const renderCommentContent = (
+  content: string,
+  candidates: MentionCandidate[] = [],
+): string => {
+  const fragments: string[] = [];
+  const keep = (html: string) => `\uE000${fragments.push(html) - 1}\uE000`;
+  const names = new Map(
+    candidates.map((candidate) => [candidate.userId, candidate.name]),
+  );
+
+  let html = escapeHtml(content.replace(/\uE000/g, ""));
+
+  html = html.replace(/`([^`\n]+)`/g, (_, code) =>
+    keep(`<code>${code}</code>`),
+  );
+
+  html = html.replace(MENTION_PATTERN, (_, name, userId) => {
+    const label = names.has(userId) ? escapeHtml(names.get(userId)!) : name;
+    return keep(
+      `<span class="mention" data-user-id="${userId}">@${label}</span>`,
+    );
+  });
+
+  html = html.replace(LINK_PATTERN, (_, text, url) =>
+    SAFE_URL_PATTERN.test(url)
+      ? keep(
+          `<a href="${url}" target="_blank" rel="noopener noreferrer">${text}</a>`,
+        )
+      : text,
+  );
+
+  html = html.replace(URL_PATTERN, (match) => {
+    const url = match.replace(/[.,;:!?)]+$/, "");
+    return (
+      keep(
+        `<a href="${url}" target="_blank" rel="noopener noreferrer">${url}</a>`,
+      ) + match.slice(url.length)
+    );
+  });
+
+  html = html
+    .replace(/\*\*([^*\n]+)\*\*/g, "<strong>$1</strong>")
+    .replace(/(^|[^*])\*([^*\n]+)\*/g, "$1<em>$2</em>")
+    .replace(/~~([^~\n]+)~~/g, "<del>$1</del>")
+    .replace(/\n/g, "<br>");
+
+  // Fragments can contain other fragments, e.g. code inside a link
+  const restore = (text: string): string =>
+    text.replace(PLACEHOLDER_PATTERN, (_, index) => restore(fragments[index]));
+
+  return restore(html);
+};
+
+/**
+ * Content without markup, for previews and notifications
+ */
+export const getCommentPlainText = (
+  content: string,
+  candidates: MentionCandidate[] = [],
+): string => {
+  const names = new Map(
+    candidates.map((candidate) => [candidate.userId, candidate.name]),
+  );
+
+  return content
+    .replace(
+      MENTION_PATTERN,
+      (_, name, userId) => `@${names.get(userId) ?? name}`,
+    )
+    .replace(LINK_PATTERN, "$1")
+    .replace(/(\*\*|~~|`)/g, "")
+    .replace(/(^|[^*])\*([^*\n]+)\*/g, "$1$2");
+};
@@ -0,0 +1,117 @@
+/**
+ * Emoji offered in the reaction picker
+ */
+export const COMMENT_REACTIONS = ["👍", "🎉", "❤️", "😄", "👀", "🚀"];
+
+/**
+ * Users who reacted to a comment, keyed by emoji
+ */
+export type CommentReactions = Record<string, string[]>;
+
+export interface ThreadableComment {
+  id: string;
+  parentCommentId?: string | null;
+  timestamp: Date;
+}
+
+export interface CommentThread<T extends ThreadableComment> {
+  comment: T;
+  replies: CommentThread<T>[];
+}
+
+/**
+ * Nests replies under their parent comment. Top-level comments keep the
+ * order they are given in and replies read oldest first. Replies whose
+ * parent is missing, or that would form a cycle, are shown at the top
+ * level.
+ */
+export const buildCommentThreads = <T extends ThreadableComment>(
+  comments: T[],
+): CommentThread<T>[] => {
+  const threads = new Map<string, CommentThread<T>>(
+    comments.map((comment) => [comment.id, { comment, replies: [] }]),
+  );
+  const roots: CommentThread<T>[] = [];
+
+  // Malformed data could make a comment its own ancestor
+  const isAncestor = (ancestorId: string, comment: T | undefined): boolean => {
+    const seen = new Set<string>();
+    while (comment?.parentCommentId && !seen.has(comment.id)) {
+      if (comment.parentCommentId === ancestorId) return true;
+      seen.add(comment.id);
+      comment = threads.get(comment.parentCommentId)?.comment;
+    }
+    return false;
+  };
+
+  comments.forEach((comment) => {
+    const thread = threads.get(comment.id)!;
+    const parent = comment.parentCommentId
+      ? threads.get(comment.parentCommentId)
+      : undefined;
+
+    if (
+      parent &&
+      parent !== thread &&
+      !isAncestor(comment.id, parent.comment)
+    ) {
+      parent.replies.push(thread);
+    } else {
+      roots.push(thread);
+    }
+  });
+
+  threads.forEach((thread) =>
+    thread.replies.sort(
+      (a, b) =>
+        new Date(a.comment.timestamp).getTime() -
+        new Date(b.comment.timestamp).getTime(),
+    ),
+  );
+
+  return roots;
+};
+
+/**
+ * Number of replies in a thread at any depth
+ */
+export const countReplies = <T extends ThreadableComment>(
+  thread: CommentThread<T>,
+): number =>
+  thread.replies.reduce((count, reply) => count + 1 + countReplies(reply), 0);
+
+export const hasReacted = (
+  reactions: CommentReactions | undefined,
+  emoji: string,
+  userId: string,
+): boolean => !!reactions?.[emoji]?.includes(userId);
+
+/**
+ * Adds or removes the user's reaction. Emoji nobody reacted with are
+ * dropped.
+ */
+export const toggleReaction = (
+  reactions: CommentReactions | undefined,
+  emoji: string,
+  userId: string,
+): CommentReactions => {
+  const users = reactions?.[emoji] || [];
+  const next = { ...reactions };
+
+  if (users.includes(userId)) {
+    next[emoji] = users.filter((id) => id !== userId);
+    if (next[emoji].length === 0) delete next[emoji];
+  } else {
+    next[emoji] = [...users, userId];
+  }
+
+  return next;
+};
+
+export const getReactionCount = (
+  reactions: CommentReactions | undefined,
+): number =>
+  Object.values(reactions || {}).reduce(
+    (count, users) => count + users.length,
+    0,
+  );
@@ -1,6 +1,7 @@
 // @ts-nocheck
 import { Comment } from "../types/common";
 import { formatDistanceToNow, format } from "date-fns";
+import { MentionCandidate, renderCommentContent } from "./commentContentUtils";
 
 /**
  * Comment utility functions
@@ -13,6 +14,16 @@ export class CommentUtils {
     return formatDistanceToNow(timestamp, { addSuffix: true });
   }
 
+  /**
+   * Render comment content as sanitized HTML
+   */
+  static formatCommentContent(
+    content: string,
+    mentionCandidates: MentionCandidate[] = [],
+  ): string {
+    return renderCommentContent(content, mentionCandidates);
+  }
+
   /**
    * Sanitize comment content for security
    */
@@ -0,0 +1,181 @@
+/**
+ * Conflict Resolution Utilities
+ *
+ * This module provides the three-way merge used when an offline task edit
+ * is synced against a server copy that changed in the meantime.
+ */
+
+import {
+  ConflictResolutionChoice,
+  FieldConflict,
+  MergeableTaskField,
+  ThreeWayMergeResult,
+} from "../types/offlineTypes";
+
+/**
+ * Task fields merged individually during sync
+ */
+export const MERGEABLE_TASK_FIELDS: MergeableTaskField[] = [
+  "title",
+  "description",
+  "priority",
+  "dueDate",
+  "dueTime",
+  "labelIds",
+  "projectId",
+  "sectionId",
+  "assigneeId",
+  "completed",
+];
+
+/**
+ * Fields holding unordered sets, merged by combining additions and removals
+ * from both sides instead of being treated as a single value
+ */
+const SET_FIELDS: MergeableTaskField[] = ["labelIds"];
+
+/**
+ * Normalize a field value so that equivalent values compare equal
+ * (dates vs ISO strings, null vs undefined vs empty string)
+ */
+function normalizeValue(value: any): any {
+  if (value === undefined || value === null || value === "") {
+    return null;
+  }
+
+  if (value instanceof Date) {
+    return value.getTime();
+  }
+
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const time = Date.parse(value);
+    return isNaN(time) ? value : time;
+  }
+
+  if (Array.isArray(value)) {
+    return value.map(normalizeValue);
+  }
+
+  return value;
+}
+
+/**
+ * Check whether two field values are equivalent
+ */
+export function areFieldValuesEqual(a: any, b: any): boolean {
+  return (
+    JSON.stringify(normalizeValue(a)) === JSON.stringify(normalizeValue(b))
+  );
+}
+
+/**
+ * Merge two sets of IDs that were edited independently from the same base
+ */
+export function mergeIdSets(
+  base: string[] = [],
+  local: string[] = [],
+  remote: string[] = [],
+): string[] {
+  const removed = new Set([
+    ...base.filter((id) => !local.includes(id)),
+    ...base.filter((id) => !remote.includes(id)),
+  ]);
+  const result: string[] = [];
+
+  for (const id of [...base, ...local, ...remote]) {
+    if (!removed.has(id) && !result.includes(id)) {
+      result.push(id);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Three-way merge a task edited offline against the current server copy.
+ *
+ * A field changed on only one side takes that side's value. A field changed
+ * on both sides to the same value is not a conflict. Only fields changed on
+ * both sides to different values are reported as conflicts; for those the
+ * merged result keeps the remote value until the user picks.
+ */
+export function threeWayMergeTask(
+  base: Record<string, any>,
+  local: Record<string, any>,
+  remote: Record<string, any>,
+  fields: MergeableTaskField[] = MERGEABLE_TASK_FIELDS,
+): ThreeWayMergeResult {
+  const merged: Record<string, any> = { ...remote };
+  const conflicts: FieldConflict[] = [];
+
+  for (const field of fields) {
+    const baseValue = base[field];
+    const localValue = local[field];
+    const remoteValue = remote[field];
+
+    const localChanged = !areFieldValuesEqual(baseValue, localValue);
+    const remoteChanged = !areFieldValuesEqual(baseValue, remoteValue);
+
+    if (!localChanged) {
+      merged[field] = remoteValue;
+    } else if (!remoteChanged) {
+      merged[field] = localValue;
+    } else if (areFieldValuesEqual(localValue, remoteValue)) {
+      merged[field] = localValue;
+    } else if (SET_FIELDS.includes(field)) {
+      merged[field] = mergeIdSets(baseValue, localValue, remoteValue);
+    } else {
+      merged[field] = remoteValue;
+      conflicts.push({ field, baseValue, localValue, remoteValue });
+    }
+  }
+
+  return { merged, conflicts };
+}
+
+/**
+ * Apply the user's per-field choices to a merge result
+ */
+export function applyConflictChoices(
+  merged: Record<string, any>,
+  conflicts: FieldConflict[],
+  choices: Partial<Record<MergeableTaskField, ConflictResolutionChoice>>,
+): Record<string, any> {
+  const resolved = { ...merged };
+
+  for (const conflict of conflicts) {
+    const choice = choices[conflict.field] || "remote";
+    resolved[conflict.field] =
+      choice === "local" ? conflict.localValue : conflict.remoteValue;
+  }
+
+  return resolved;
+}
+
+/**
+ * Format a field value for display in the conflicts inbox
+ */
+export function formatConflictValue(value: any): string {
+  if (value === undefined || value === null || value === "") {
+    return "(empty)";
+  }
+
+  if (Array.isArray(value)) {
+    return value.length > 0 ? value.join(", ") : "(none)";
+  }
+
+  if (value instanceof Date) {
+    return value.toLocaleString();
+  }
+
+  if (typeof value === "string" && /^\d{4}-\d{2}-\d{2}T/.test(value)) {
+    const date = new Date(value);
+    return isNaN(date.getTime()) ? value : date.toLocaleString();
+  }
+
+  if (typeof value === "boolean") {
+    return value ? "Yes" : "No";
+  }
+
+  return String(value);
+}
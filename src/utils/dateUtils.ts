@@ -152,3 +152,110 @@ export const getMonthRange = (date: Date): { start: Date; end: Date } => {
 
   return { start, end };
 };
+
+/**
+ * Calendar date and wall-clock time, without a timezone
+ */
+export interface DateTimeParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+}
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = zonedFormatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+    });
+    zonedFormatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    getZonedFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Get the wall-clock date and time of an instant in an IANA timezone
+ */
+export const getZonedDateParts = (
+  date: Date,
+  timeZone: string,
+): DateTimeParts => {
+  const values: Record<string, number> = {};
+  getZonedFormatter(timeZone)
+    .formatToParts(date)
+    .forEach((part) => {
+      if (part.type !== "literal") {
+        values[part.type] = parseInt(part.value, 10);
+      }
+    });
+
+  return {
+    year: values.year,
+    month: values.month,
+    day: values.day,
+    hour: values.hour,
+    minute: values.minute,
+    second: values.second,
+  };
+};
+
+const partsToUtc = (parts: DateTimeParts): number =>
+  Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second,
+  );
+
+/**
+ * Convert a wall-clock time in an IANA timezone to an instant. Times that
+ * occur twice when clocks go back resolve to the first one; times skipped
+ * when clocks go forward are moved forward by the gap (RFC 5545 3.3.5).
+ */
+export const zonedDateTimeToUtc = (
+  parts: DateTimeParts,
+  timeZone: string,
+): Date => {
+  const wall = partsToUtc(parts);
+  const offsetAt = (time: number) => {
+    const instant = new Date(Math.floor(time / 1000) * 1000);
+    return partsToUtc(getZonedDateParts(instant, timeZone)) - instant.getTime();
+  };
+
+  // The offsets in effect a day either side cover any DST transition
+  const offsetBefore = offsetAt(wall - 86400000);
+  const offsetAfter = offsetAt(wall + 86400000);
+  const matches = [wall - offsetBefore, wall - offsetAfter].filter(
+    (time) => partsToUtc(getZonedDateParts(new Date(time), timeZone)) === wall,
+  );
+
+  return new Date(
+    matches.length > 0 ? Math.min(...matches) : wall - offsetBefore,
+  );
+};
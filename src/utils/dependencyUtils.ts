@@ -0,0 +1,366 @@
+/**
+ * Task dependency utilities
+ * Finish-to-start dependencies with lag: cycle detection, blocking state
+ * and the chains of tasks upstream and downstream of a task
+ */
+
+import { addDays, startOfDay } from "date-fns";
+import {
+  Task,
+  TaskDependencyChainEntry,
+  TaskDependencyStatus,
+} from "../types/task";
+
+/**
+ * Fields the dependency helpers read, so store tasks can be passed as well
+ */
+export type DependencyTask = Pick<
+  Task,
+  | "id"
+  | "title"
+  | "completed"
+  | "dependencies"
+  | "dependencyLags"
+  | "completedAt"
+  | "dueDate"
+> & { status?: string };
+
+/**
+ * Error raised when a dependency would make a task wait on itself
+ */
+export class DependencyCycleError extends Error {
+  /**
+   * Task IDs around the cycle; the first and last entries are the same
+   */
+  cycle: string[];
+
+  constructor(message: string, cycle: string[]) {
+    super(message);
+    this.name = "DependencyCycleError";
+    this.cycle = cycle;
+  }
+}
+
+/**
+ * Error raised when completing a task whose dependencies are still open
+ */
+export class TaskBlockedError extends Error {
+  blockers: DependencyTask[];
+
+  constructor(message: string, blockers: DependencyTask[]) {
+    super(message);
+    this.name = "TaskBlockedError";
+    this.blockers = blockers;
+  }
+}
+
+type DependencyFields = Pick<Task, "dependencies" | "dependencyLags">;
+
+const isDone = (task: DependencyTask): boolean =>
+  task.completed || task.status === "completed";
+
+const byId = <T extends DependencyTask>(tasks: T[]): Map<string, T> =>
+  new Map(tasks.map((task) => [task.id, task]));
+
+/**
+ * Dependency IDs of a task that refer to existing tasks
+ */
+const dependenciesOf = (
+  task: DependencyTask,
+  tasks: Map<string, DependencyTask>,
+): string[] =>
+  (task.dependencies || []).filter((id) => id !== task.id && tasks.has(id));
+
+const lagOf = (task: DependencyTask, dependencyId: string): number =>
+  task.dependencyLags?.[dependencyId] || 0;
+
+const describeCycle = (
+  cycle: string[],
+  tasks: Map<string, DependencyTask>,
+): string => cycle.map((id) => tasks.get(id)?.title || id).join(" → ");
+
+/**
+ * Path of dependency links from `fromId` to `toId`, if there is one
+ */
+const findPath = (
+  fromId: string,
+  toId: string,
+  tasks: Map<string, DependencyTask>,
+): string[] | null => {
+  const previous = new Map<string, string>();
+  const queue = [fromId];
+  const seen = new Set(queue);
+
+  while (queue.length > 0) {
+    const id = queue.shift() as string;
+    if (id === toId) {
+      const path = [id];
+      while (previous.has(path[0])) path.unshift(previous.get(path[0])!);
+      return path;
+    }
+    const task = tasks.get(id);
+    if (!task) continue;
+    dependenciesOf(task, tasks).forEach((dependencyId) => {
+      if (seen.has(dependencyId)) return;
+      seen.add(dependencyId);
+      previous.set(dependencyId, id);
+      queue.push(dependencyId);
+    });
+  }
+
+  return null;
+};
+
+/**
+ * The cycle that making `taskId` depend on `dependencyId` would close,
+ * as task IDs from `taskId` back to itself, or null if there is none
+ */
+export const findDependencyCycle = (
+  tasks: DependencyTask[],
+  taskId: string,
+  dependencyId: string,
+): string[] | null => {
+  if (taskId === dependencyId) return [taskId, taskId];
+  const path = findPath(dependencyId, taskId, byId(tasks));
+  return path ? [taskId, ...path] : null;
+};
+
+/**
+ * Cycles that already exist, e.g. in imported data; each cycle is
+ * reported once
+ */
+export const findDependencyCycles = (tasks: DependencyTask[]): string[][] => {
+  const lookup = byId(tasks);
+  const cycles: string[][] = [];
+  const state = new Map<string, "visiting" | "done">();
+  const stack: string[] = [];
+
+  const visit = (id: string) => {
+    state.set(id, "visiting");
+    stack.push(id);
+    dependenciesOf(lookup.get(id) as DependencyTask, lookup).forEach(
+      (dependencyId) => {
+        if (state.get(dependencyId) === "visiting") {
+          cycles.push([
+            ...stack.slice(stack.indexOf(dependencyId)),
+            dependencyId,
+          ]);
+        } else if (!state.has(dependencyId)) {
+          visit(dependencyId);
+        }
+      },
+    );
+    stack.pop();
+    state.set(id, "done");
+  };
+
+  tasks.forEach((task) => {
+    if (!state.has(task.id)) visit(task.id);
+  });
+
+  return cycles;
+};
+
+/**
+ * Dependency fields of `taskId` after it starts depending on
+ * `dependencyId`. Adding an existing dependency updates its lag.
+ */
+export const addDependency = (
+  tasks: DependencyTask[],
+  taskId: string,
+  dependencyId: string,
+  lagDays: number = 0,
+): DependencyFields => {
+  const lookup = byId(tasks);
+  const task = lookup.get(taskId);
+  if (!task || !lookup.has(dependencyId)) {
+    throw new Error("Task not found");
+  }
+  if (!Number.isInteger(lagDays) || lagDays < 0) {
+    throw new Error("Lag must be a whole number of days, zero or more");
+  }
+
+  const cycle = findDependencyCycle(tasks, taskId, dependencyId);
+  if (cycle) {
+    throw new DependencyCycleError(
+      taskId === dependencyId
+        ? "A task cannot depend on itself"
+        : `This dependency would create a cycle: ${describeCycle(cycle, lookup)}`,
+      cycle,
+    );
+  }
+
+  const dependencyLags = { ...(task.dependencyLags || {}) };
+  if (lagDays > 0) dependencyLags[dependencyId] = lagDays;
+  else delete dependencyLags[dependencyId];
+
+  return {
+    dependencies: Array.from(
+      new Set([...(task.dependencies || []), dependencyId]),
+    ),
+    dependencyLags,
+  };
+};
+
+/**
+ * Dependency fields of a task without `dependencyId`
+ */
+export const removeDependency = (
+  task: DependencyTask,
+  dependencyId: string,
+): DependencyFields => {
+  const { [dependencyId]: _removed, ...dependencyLags } =
+    task.dependencyLags || {};
+
+  return {
+    dependencies: (task.dependencies || []).filter((id) => id !== dependencyId),
+    dependencyLags,
+  };
+};
+
+/**
+ * Whether a task is blocked, and by what. Dependencies that no longer
+ * exist are ignored; a completed dependency with lag blocks until the lag
+ * has passed.
+ */
+export const getDependencyStatus = <T extends DependencyTask>(
+  task: DependencyTask,
+  tasks: T[],
+  now: Date = new Date(),
+): TaskDependencyStatus<T> => {
+  const lookup = byId(tasks);
+  const blockers: T[] = [];
+  let availableFrom: Date | null = null;
+
+  dependenciesOf(task, lookup).forEach((dependencyId) => {
+    const dependency = lookup.get(dependencyId) as T;
+    if (!isDone(dependency)) {
+      blockers.push(dependency);
+      return;
+    }
+
+    const lag = lagOf(task, dependencyId);
+    if (lag > 0 && dependency.completedAt) {
+      const from = startOfDay(addDays(new Date(dependency.completedAt), lag));
+      if (from > now && (!availableFrom || from > availableFrom)) {
+        availableFrom = from;
+      }
+    }
+  });
+
+  return {
+    blocked: blockers.length > 0 || availableFrom !== null,
+    blockers,
+    availableFrom,
+  };
+};
+
+/**
+ * Whether a task has open dependencies or is waiting out a lag
+ */
+export const isTaskBlocked = (
+  task: DependencyTask,
+  tasks: DependencyTask[],
+  now: Date = new Date(),
+): boolean => getDependencyStatus(task, tasks, now).blocked;
+
+/**
+ * The error completing `task` would raise, or null when it is free to
+ * complete
+ */
+export const getCompletionBlocker = (
+  task: DependencyTask,
+  tasks: DependencyTask[],
+  now: Date = new Date(),
+): TaskBlockedError | null => {
+  const { blocked, blockers } = getDependencyStatus(task, tasks, now);
+  if (!blocked) return null;
+
+  return new TaskBlockedError(
+    blockers.length > 0
+      ? `Complete ${blockers.map((blocker) => `"${blocker.title}"`).join(", ")} first`
+      : "This task is waiting for a dependency's lag to pass",
+    blockers,
+  );
+};
+
+const walkChain = <T extends DependencyTask>(
+  taskId: string,
+  tasks: T[],
+  next: (task: T, lookup: Map<string, T>) => [T, number][],
+): TaskDependencyChainEntry<T>[] => {
+  const lookup = byId(tasks);
+  const start = lookup.get(taskId);
+  if (!start) return [];
+
+  const entries: TaskDependencyChainEntry<T>[] = [];
+  const seen = new Set([taskId]);
+  let level: T[] = [start];
+
+  for (let depth = 1; level.length > 0; depth++) {
+    const nextLevel: T[] = [];
+    level.forEach((from) => {
+      next(from, lookup).forEach(([task, lagDays]) => {
+        if (seen.has(task.id)) return;
+        seen.add(task.id);
+        entries.push({ task, depth, viaTaskId: from.id, lagDays });
+        nextLevel.push(task);
+      });
+    });
+    level = nextLevel;
+  }
+
+  return entries;
+};
+
+/**
+ * Everything a task waits on, directly or indirectly, nearest first
+ */
+export const getUpstreamChain = <T extends DependencyTask>(
+  taskId: string,
+  tasks: T[],
+): TaskDependencyChainEntry<T>[] =>
+  walkChain(taskId, tasks, (task, lookup) =>
+    dependenciesOf(task, lookup).map((id) => [
+      lookup.get(id) as T,
+      lagOf(task, id),
+    ]),
+  );
+
+/**
+ * Everything that waits on a task, directly or indirectly, nearest first
+ */
+export const getDownstreamChain = <T extends DependencyTask>(
+  taskId: string,
+  tasks: T[],
+): TaskDependencyChainEntry<T>[] =>
+  walkChain(taskId, tasks, (task, lookup) =>
+    tasks
+      .filter((other) => dependenciesOf(other, lookup).includes(task.id))
+      .map((other) => [other, lagOf(other, task.id)]),
+  );
+
+/**
+ * Earliest day a task can start: the latest due date (or completion date)
+ * of its dependencies plus the lag. Null when no dependency has a date.
+ */
+export const getEarliestStart = (
+  task: DependencyTask,
+  tasks: DependencyTask[],
+): Date | null => {
+  const lookup = byId(tasks);
+  let earliest: Date | null = null;
+
+  dependenciesOf(task, lookup).forEach((dependencyId) => {
+    const dependency = lookup.get(dependencyId) as DependencyTask;
+    const finish = dependency.completedAt || dependency.dueDate;
+    if (!finish) return;
+
+    const start = startOfDay(
+      addDays(new Date(finish), lagOf(task, dependencyId)),
+    );
+    if (!earliest || start > earliest) earliest = start;
+  });
+
+  return earliest;
+};
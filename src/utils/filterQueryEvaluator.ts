@@ -0,0 +1,273 @@
+/**
+ * Filter Query Evaluator
+ * Evaluates parsed filter queries against tasks
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  isSameDay,
+  startOfDay,
+} from "date-fns";
+import { Task } from "../types/common";
+import { PriorityLevel, TaskStatus } from "../types/enums";
+import { Task as StoreTask } from "../types/store";
+import {
+  FilterQueryContext,
+  FilterQueryNode,
+  FilterTerm,
+  QueryDateValue,
+} from "../types/filterQuery";
+import { parseFilterQueryOrThrow } from "./filterQueryParser";
+
+const toDate = (value: Date | string | null | undefined): Date | null => {
+  if (!value) {
+    return null;
+  }
+  const date = value instanceof Date ? value : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const sameName = (a: string, b: string) =>
+  a.trim().toLowerCase() === b.trim().toLowerCase();
+
+/**
+ * Store priorities by the `p1`-`p4` level a query uses for them
+ */
+const PRIORITY_LEVELS: Record<string, PriorityLevel> = {
+  critical: PriorityLevel.P1,
+  high: PriorityLevel.P2,
+  medium: PriorityLevel.P3,
+  low: PriorityLevel.P4,
+};
+
+const TASK_STATUSES: Record<StoreTask["status"], TaskStatus> = {
+  todo: TaskStatus.ACTIVE,
+  "in-progress": TaskStatus.IN_PROGRESS,
+  completed: TaskStatus.COMPLETED,
+  archived: TaskStatus.ARCHIVED,
+};
+
+const toPriorityLevel = (priority: unknown): string => {
+  const value = String(priority).toLowerCase();
+  return PRIORITY_LEVELS[value] || value.toUpperCase();
+};
+
+/**
+ * Bring a task from the task store into the shape queries are evaluated
+ * against: `p1`-`p4` priorities, `todo` as active, and empty label and
+ * assignee fields where the store has none.
+ */
+export function toFilterTask(task: StoreTask): Task {
+  return {
+    order: 0,
+    ...task,
+    status: TASK_STATUSES[task.status] || TaskStatus.ACTIVE,
+    priority: toPriorityLevel(task.priority) as PriorityLevel,
+    labelIds: task.labelIds || [],
+    assigneeId: task.assigneeId ?? null,
+  };
+}
+
+/**
+ * Resolve a query date to the start of the day it refers to
+ */
+export function resolveQueryDate(value: QueryDateValue, now: Date): Date {
+  if (value.kind === "absolute") {
+    return startOfDay(value.date);
+  }
+
+  const today = startOfDay(now);
+  switch (value.unit) {
+    case "w":
+      return addWeeks(today, value.amount);
+    case "m":
+      return addMonths(today, value.amount);
+    case "y":
+      return addYears(today, value.amount);
+    default:
+      return addDays(today, value.amount);
+  }
+}
+
+/**
+ * Collect the IDs of the named project and, optionally, its descendants
+ */
+function resolveProjectIds(
+  name: string,
+  includeSubprojects: boolean,
+  context: FilterQueryContext,
+): Set<string> {
+  const projects = context.projects || [];
+  const ids = new Set(
+    projects.filter((p) => sameName(p.name, name)).map((p) => p.id),
+  );
+
+  if (includeSubprojects) {
+    let added = true;
+    while (added) {
+      added = false;
+      for (const project of projects) {
+        if (
+          project.parentProjectId &&
+          ids.has(project.parentProjectId) &&
+          !ids.has(project.id)
+        ) {
+          ids.add(project.id);
+          added = true;
+        }
+      }
+    }
+  }
+
+  return ids;
+}
+
+function matchesTerm(
+  term: FilterTerm,
+  task: Task,
+  context: FilterQueryContext,
+): boolean {
+  const now = context.now || new Date();
+  const today = startOfDay(now);
+  const due = toDate(task.dueDate);
+
+  switch (term.type) {
+    case "all":
+      return true;
+    case "today":
+      return !!due && isSameDay(due, today);
+    case "tomorrow":
+      return !!due && isSameDay(due, addDays(today, 1));
+    case "yesterday":
+      return !!due && isSameDay(due, addDays(today, -1));
+    case "overdue":
+      return !!due && due < today && !task.completed;
+    case "noDate":
+      return !due;
+    case "recurring":
+      return !!task.recurringPattern;
+    case "noLabels":
+      return !task.labelIds || task.labelIds.length === 0;
+    case "nextDays":
+      return !!due && due >= today && due < addDays(today, term.days);
+    case "priority":
+      return toPriorityLevel(task.priority) === term.priority;
+    case "project": {
+      if (!task.projectId) {
+        return false;
+      }
+      const ids = resolveProjectIds(
+        term.name,
+        term.includeSubprojects,
+        context,
+      );
+      return ids.has(task.projectId) || sameName(task.projectId, term.name);
+    }
+    case "label": {
+      const labelIds = task.labelIds || [];
+      const ids = (context.labels || [])
+        .filter((l) => sameName(l.name, term.name))
+        .map((l) => l.id);
+      return labelIds.some((id) => ids.includes(id) || sameName(id, term.name));
+    }
+    case "section": {
+      if (!task.sectionId) {
+        return false;
+      }
+      const ids = (context.sections || [])
+        .filter((s) => sameName(s.name, term.name))
+        .map((s) => s.id);
+      return (
+        ids.includes(task.sectionId) || sameName(task.sectionId, term.name)
+      );
+    }
+    case "date": {
+      const value = toDate(
+        term.field === "due" ? task.dueDate : task.createdAt,
+      );
+      if (!value) {
+        return false;
+      }
+      const day = resolveQueryDate(term.value, now);
+      switch (term.comparison) {
+        case "before":
+          return value < day;
+        case "after":
+          return value >= addDays(day, 1);
+        default:
+          return isSameDay(value, day);
+      }
+    }
+    case "assigned":
+      return !!task.assigneeId;
+    case "assignedTo": {
+      if (!task.assigneeId) {
+        return false;
+      }
+      if (term.who === "me") {
+        return task.assigneeId === context.currentUserId;
+      }
+      if (term.who === "others") {
+        return task.assigneeId !== context.currentUserId;
+      }
+      const ids = (context.users || [])
+        .filter((u) => sameName(u.name, term.who))
+        .map((u) => u.id);
+      return ids.includes(task.assigneeId) || task.assigneeId === term.who;
+    }
+    case "search": {
+      const text = term.text.toLowerCase();
+      return (
+        task.title.toLowerCase().includes(text) ||
+        (task.description || "").toLowerCase().includes(text)
+      );
+    }
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluate a parsed filter query against a single task
+ */
+export function evaluateFilterQuery(
+  node: FilterQueryNode,
+  task: Task,
+  context: FilterQueryContext = {},
+): boolean {
+  switch (node.type) {
+    case "and":
+      return (
+        evaluateFilterQuery(node.left, task, context) &&
+        evaluateFilterQuery(node.right, task, context)
+      );
+    case "or":
+      return (
+        evaluateFilterQuery(node.left, task, context) ||
+        evaluateFilterQuery(node.right, task, context)
+      );
+    case "not":
+      return !evaluateFilterQuery(node.operand, task, context);
+    case "term":
+      return matchesTerm(node.term, task, context);
+  }
+}
+
+/**
+ * Parse a query and return the tasks that match it.
+ * Throws FilterQueryError when the query is malformed.
+ */
+export function filterTasksByQuery(
+  tasks: Task[],
+  query: string,
+  context: FilterQueryContext = {},
+): Task[] {
+  const ast = parseFilterQueryOrThrow(query);
+  const resolvedContext = { ...context, now: context.now || new Date() };
+  return tasks.filter((task) =>
+    evaluateFilterQuery(ast, task, resolvedContext),
+  );
+}
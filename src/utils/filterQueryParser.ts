@@ -0,0 +1,432 @@
+/**
+ * Filter Query Parser
+ * Tokenizes and parses the saved filter query language into an AST.
+ *
+ * Grammar (lowest to highest precedence):
+ *   query   := or
+ *   or      := and ("|" and)*
+ *   and     := unary ("&" unary)*
+ *   unary   := "!" unary | primary
+ *   primary := "(" or ")" | term
+ */
+
+import { PriorityLevel } from "../types/enums";
+import {
+  FilterQueryNode,
+  FilterQueryParseResult,
+  FilterTerm,
+  QueryDateValue,
+  QuerySpan,
+} from "../types/filterQuery";
+
+/**
+ * Error raised for malformed queries, with the offending character range
+ */
+export class FilterQueryError extends Error {
+  start: number;
+  end: number;
+
+  constructor(message: string, start: number, end: number) {
+    super(message);
+    this.name = "FilterQueryError";
+    this.start = start;
+    this.end = end;
+  }
+}
+
+type TokenType = "and" | "or" | "not" | "lparen" | "rparen" | "term" | "eof";
+
+interface Token {
+  type: TokenType;
+  text: string;
+  start: number;
+  end: number;
+}
+
+const OPERATOR_CHARS: Record<string, TokenType> = {
+  "&": "and",
+  "|": "or",
+  "!": "not",
+  "(": "lparen",
+  ")": "rparen",
+};
+
+/**
+ * Split a query into operator and term tokens. Terms run until the next
+ * operator character, so multi-word terms such as `due before: +7d` or
+ * `#My Project` stay intact.
+ */
+export function tokenizeFilterQuery(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    const char = query[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (OPERATOR_CHARS[char]) {
+      tokens.push({
+        type: OPERATOR_CHARS[char],
+        text: char,
+        start: i,
+        end: i + 1,
+      });
+      i++;
+      continue;
+    }
+
+    let end = i;
+    while (end < query.length && !OPERATOR_CHARS[query[end]]) {
+      end++;
+    }
+
+    // Trim trailing whitespace so spans cover only the term text
+    let termEnd = end;
+    while (termEnd > i && /\s/.test(query[termEnd - 1])) {
+      termEnd--;
+    }
+
+    tokens.push({
+      type: "term",
+      text: query.slice(i, termEnd),
+      start: i,
+      end: termEnd,
+    });
+    i = end;
+  }
+
+  tokens.push({
+    type: "eof",
+    text: "",
+    start: query.length,
+    end: query.length,
+  });
+  return tokens;
+}
+
+/**
+ * Parse a date value such as `today`, `+7d`, `-2w` or `2024-03-01`
+ */
+function parseDateValue(text: string, start: number): QueryDateValue {
+  const value = text.trim().toLowerCase();
+
+  if (value === "today") {
+    return { kind: "relative", amount: 0, unit: "d" };
+  }
+  if (value === "tomorrow") {
+    return { kind: "relative", amount: 1, unit: "d" };
+  }
+  if (value === "yesterday") {
+    return { kind: "relative", amount: -1, unit: "d" };
+  }
+
+  const relative = value.match(/^([+-])\s*(\d+)\s*([dwmy])$/);
+  if (relative) {
+    const amount = parseInt(relative[2], 10);
+    return {
+      kind: "relative",
+      amount: relative[1] === "-" ? -amount : amount,
+      unit: relative[3] as "d" | "w" | "m" | "y",
+    };
+  }
+
+  const absolute = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (absolute) {
+    const date = new Date(
+      parseInt(absolute[1], 10),
+      parseInt(absolute[2], 10) - 1,
+      parseInt(absolute[3], 10),
+    );
+    if (!isNaN(date.getTime())) {
+      return { kind: "absolute", date };
+    }
+  }
+
+  throw new FilterQueryError(
+    `Invalid date "${text.trim()}"; use today, tomorrow, +7d, -2w or YYYY-MM-DD`,
+    start,
+    start + text.length,
+  );
+}
+
+/**
+ * Parse a single term token into a predicate
+ */
+function parseTerm(token: Token): FilterTerm {
+  const text = token.text;
+  const lower = text.toLowerCase();
+
+  if (lower === "*" || lower === "all") return { type: "all" };
+  if (lower === "today") return { type: "today" };
+  if (lower === "tomorrow") return { type: "tomorrow" };
+  if (lower === "yesterday") return { type: "yesterday" };
+  if (lower === "overdue" || lower === "od") return { type: "overdue" };
+  if (lower === "no date" || lower === "no due date") return { type: "noDate" };
+  if (lower === "recurring") return { type: "recurring" };
+  if (lower === "no labels") return { type: "noLabels" };
+  if (lower === "assigned") return { type: "assigned" };
+
+  const priority = lower.match(/^p([1-4])$/);
+  if (priority) {
+    return { type: "priority", priority: `P${priority[1]}` as PriorityLevel };
+  }
+
+  const nextDays = lower.match(/^(?:next\s+)?(\d+)\s+days?$/);
+  if (nextDays) {
+    return { type: "nextDays", days: parseInt(nextDays[1], 10) };
+  }
+
+  const requireName = (name: string, prefixLength: number, what: string) => {
+    if (!name.trim()) {
+      throw new FilterQueryError(
+        `Expected a ${what} name`,
+        token.start,
+        token.start + prefixLength,
+      );
+    }
+    return name.trim();
+  };
+
+  if (text.startsWith("##")) {
+    return {
+      type: "project",
+      name: requireName(text.slice(2), 2, "project"),
+      includeSubprojects: true,
+    };
+  }
+  if (text.startsWith("#")) {
+    return {
+      type: "project",
+      name: requireName(text.slice(1), 1, "project"),
+      includeSubprojects: false,
+    };
+  }
+  if (text.startsWith("@")) {
+    return { type: "label", name: requireName(text.slice(1), 1, "label") };
+  }
+  if (text.startsWith("/")) {
+    return { type: "section", name: requireName(text.slice(1), 1, "section") };
+  }
+
+  // Keyword terms of the form `keyword: value`
+  const keyword = text.match(/^([a-z ]+?)\s*:\s*/i);
+  if (keyword) {
+    const name = keyword[1].toLowerCase().replace(/\s+/g, " ");
+    const value = text.slice(keyword[0].length);
+    const valueStart = token.start + keyword[0].length;
+
+    if (!value.trim()) {
+      throw new FilterQueryError(
+        `Expected a value after "${keyword[1]}:"`,
+        token.start,
+        token.end,
+      );
+    }
+
+    const dateKeywords: Record<
+      string,
+      { field: "due" | "created"; comparison: "before" | "after" | "on" }
+    > = {
+      due: { field: "due", comparison: "on" },
+      date: { field: "due", comparison: "on" },
+      "due before": { field: "due", comparison: "before" },
+      "date before": { field: "due", comparison: "before" },
+      "due after": { field: "due", comparison: "after" },
+      "date after": { field: "due", comparison: "after" },
+      created: { field: "created", comparison: "on" },
+      "created before": { field: "created", comparison: "before" },
+      "created after": { field: "created", comparison: "after" },
+    };
+
+    if (dateKeywords[name]) {
+      return {
+        type: "date",
+        ...dateKeywords[name],
+        value: parseDateValue(value, valueStart),
+      };
+    }
+
+    if (name === "assigned to") {
+      const who = value.trim();
+      const lowerWho = who.toLowerCase();
+      return {
+        type: "assignedTo",
+        who: lowerWho === "me" || lowerWho === "others" ? lowerWho : who,
+      };
+    }
+
+    if (name === "search") {
+      return { type: "search", text: value.trim() };
+    }
+
+    throw new FilterQueryError(
+      `Unknown keyword "${keyword[1]}"`,
+      token.start,
+      token.start + keyword[1].length,
+    );
+  }
+
+  throw new FilterQueryError(
+    `Unknown filter term "${text}"`,
+    token.start,
+    token.end,
+  );
+}
+
+class FilterQueryParser {
+  private tokens: Token[];
+  private position = 0;
+
+  constructor(query: string) {
+    this.tokens = tokenizeFilterQuery(query);
+  }
+
+  parse(): FilterQueryNode {
+    if (this.peek().type === "eof") {
+      throw new FilterQueryError("Query is empty", 0, 0);
+    }
+
+    const node = this.parseOr();
+    const next = this.peek();
+
+    if (next.type !== "eof") {
+      throw new FilterQueryError(
+        next.type === "rparen"
+          ? 'Unmatched ")"'
+          : `Unexpected "${next.text}"; expected "&" or "|"`,
+        next.start,
+        next.end,
+      );
+    }
+
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.position];
+  }
+
+  private advance(): Token {
+    return this.tokens[this.position++];
+  }
+
+  private parseOr(): FilterQueryNode {
+    let left = this.parseAnd();
+
+    while (this.peek().type === "or") {
+      this.advance();
+      const right = this.parseAnd();
+      left = {
+        type: "or",
+        left,
+        right,
+        span: this.join(left.span, right.span),
+      };
+    }
+
+    return left;
+  }
+
+  private parseAnd(): FilterQueryNode {
+    let left = this.parseUnary();
+
+    while (this.peek().type === "and") {
+      this.advance();
+      const right = this.parseUnary();
+      left = {
+        type: "and",
+        left,
+        right,
+        span: this.join(left.span, right.span),
+      };
+    }
+
+    return left;
+  }
+
+  private parseUnary(): FilterQueryNode {
+    const token = this.peek();
+
+    if (token.type === "not") {
+      this.advance();
+      const operand = this.parseUnary();
+      return {
+        type: "not",
+        operand,
+        span: { start: token.start, end: operand.span.end },
+      };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): FilterQueryNode {
+    const token = this.advance();
+
+    switch (token.type) {
+      case "lparen": {
+        const inner = this.parseOr();
+        const closing = this.peek();
+        if (closing.type !== "rparen") {
+          throw new FilterQueryError(
+            'Missing closing ")"',
+            token.start,
+            closing.type === "eof" ? closing.end : closing.start,
+          );
+        }
+        this.advance();
+        return { ...inner, span: { start: token.start, end: closing.end } };
+      }
+      case "term":
+        return {
+          type: "term",
+          term: parseTerm(token),
+          span: { start: token.start, end: token.end },
+        };
+      case "eof":
+        throw new FilterQueryError(
+          "Unexpected end of query; expected a filter term",
+          token.start,
+          token.end,
+        );
+      default:
+        throw new FilterQueryError(
+          `Unexpected "${token.text}"; expected a filter term`,
+          token.start,
+          token.end,
+        );
+    }
+  }
+
+  private join(a: QuerySpan, b: QuerySpan): QuerySpan {
+    return { start: Math.min(a.start, b.start), end: Math.max(a.end, b.end) };
+  }
+}
+
+/**
+ * Parse a filter query, throwing FilterQueryError when it is malformed
+ */
+export function parseFilterQueryOrThrow(query: string): FilterQueryNode {
+  return new FilterQueryParser(query).parse();
+}
+
+/**
+ * Parse a filter query into an AST or a positioned error
+ */
+export function parseFilterQuery(query: string): FilterQueryParseResult {
+  try {
+    return { success: true, ast: parseFilterQueryOrThrow(query) };
+  } catch (error) {
+    if (error instanceof FilterQueryError) {
+      return {
+        success: false,
+        error: { message: error.message, start: error.start, end: error.end },
+      };
+    }
+    throw error;
+  }
+}
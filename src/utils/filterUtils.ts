@@ -1,5 +1,11 @@
 // @ts-nocheck
-import { Filter, Task } from "../types/models";
+import { Filter, Task } from "../types/common";
+import {
+  FilterQueryContext,
+  FilterQueryParseResult,
+} from "../types/filterQuery";
+import { FilterQueryError, parseFilterQuery } from "./filterQueryParser";
+import { filterTasksByQuery } from "./filterQueryEvaluator";
 
 /**
  * Filter Utilities
@@ -10,9 +16,18 @@ export class FilterUtils {
    * Apply filter to tasks
    * @param tasks - Array of tasks to filter
    * @param filter - Filter to apply
+   * @param context - Projects, labels and user used to resolve query names
    * @returns Filtered array of tasks
    */
-  static applyFilter(tasks: Task[], filter: Filter): Task[] {
+  static applyFilter<T extends Task>(
+    tasks: T[],
+    filter: Filter,
+    context: FilterQueryContext = {},
+  ): T[] {
+    if (filter?.query?.trim()) {
+      return this.applyQuery(tasks, filter.query, context).tasks;
+    }
+
     if (
       !filter ||
       !filter.criteria ||
@@ -60,6 +75,37 @@ export class FilterUtils {
     });
   }
 
+  /**
+   * Apply a filter query to tasks
+   * @param tasks - Array of tasks to filter
+   * @param query - Query such as `(today | overdue) & #work & p1`
+   * @param context - Projects, labels and user used to resolve query names
+   * @returns Matching tasks, or no tasks and the parse error
+   */
+  static applyQuery<T extends Task>(
+    tasks: T[],
+    query: string,
+    context: FilterQueryContext = {},
+  ): { tasks: T[]; error: FilterQueryError | null } {
+    try {
+      return { tasks: filterTasksByQuery(tasks, query, context), error: null };
+    } catch (error) {
+      if (error instanceof FilterQueryError) {
+        return { tasks: [], error };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Validate a filter query
+   * @param query - Query string to validate
+   * @returns Parsed AST, or an error with its character range
+   */
+  static validateQuery(query: string): FilterQueryParseResult {
+    return parseFilterQuery(query);
+  }
+
   /**
    * Create filter from search query
    * @param query - Search query string
@@ -186,7 +232,11 @@ export class FilterUtils {
    * @param filter - Filter to test against
    * @returns True if task matches filter
    */
-  static filterMatchesTask(task: Task, filter: Filter): boolean {
-    return this.applyFilter([task], filter).length > 0;
+  static filterMatchesTask(
+    task: Task,
+    filter: Filter,
+    context: FilterQueryContext = {},
+  ): boolean {
+    return this.applyFilter([task], filter, context).length > 0;
   }
 }
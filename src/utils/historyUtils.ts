@@ -0,0 +1,127 @@
+import {
+  HistoryEntity,
+  HistoryEntityChange,
+  HistoryEntityPatch,
+} from "../types/history";
+
+/**
+ * Records an action created, changed or deleted, and their order when the
+ * action reordered the list. Stores update records immutably, so unchanged
+ * records keep their identity.
+ */
+export const diffEntities = <T extends HistoryEntity>(
+  before: T[],
+  after: T[],
+): HistoryEntityPatch<T> => {
+  const beforeIndex = new Map(
+    before.map((entity, index) => [entity.id, index]),
+  );
+  const afterIndex = new Map(after.map((entity, index) => [entity.id, index]));
+  const changes: HistoryEntityChange<T>[] = [];
+
+  before.forEach((entity, index) => {
+    const nextIndex = afterIndex.get(entity.id);
+    const next = nextIndex === undefined ? undefined : after[nextIndex];
+    if (next !== entity) {
+      changes.push({
+        id: entity.id,
+        before: entity,
+        after: next,
+        beforeIndex: index,
+        afterIndex: nextIndex ?? -1,
+      });
+    }
+  });
+  after.forEach((entity, index) => {
+    if (!beforeIndex.has(entity.id)) {
+      changes.push({
+        id: entity.id,
+        after: entity,
+        beforeIndex: -1,
+        afterIndex: index,
+      });
+    }
+  });
+
+  const beforeOrder = before
+    .map(({ id }) => id)
+    .filter((id) => afterIndex.has(id));
+  const afterOrder = after
+    .map(({ id }) => id)
+    .filter((id) => beforeIndex.has(id));
+  const reordered = beforeOrder.some((id, index) => afterOrder[index] !== id);
+
+  return reordered
+    ? { changes, order: { before: beforeOrder, after: afterOrder } }
+    : { changes };
+};
+
+/**
+ * Whether a patch changes anything
+ */
+export const isEmptyPatch = (patch: HistoryEntityPatch): boolean =>
+  patch.changes.length === 0 && !patch.order;
+
+/**
+ * Apply a patch to the current records, backwards for undo and forwards for
+ * redo. Only the records the action touched are changed, so later edits to
+ * other records survive. Restored records that have an `updatedAt` get
+ * `restoredAt` instead of their old one, so other clients see them as the
+ * newest change.
+ */
+export const applyEntityPatch = <T extends HistoryEntity>(
+  current: T[],
+  patch: HistoryEntityPatch<T>,
+  direction: "undo" | "redo",
+  restoredAt?: Date,
+): T[] => {
+  const target = direction === "undo" ? "before" : "after";
+  const targetIndex = direction === "undo" ? "beforeIndex" : "afterIndex";
+  const changes = new Map(
+    patch.changes.map((change) => {
+      const restored = change[target];
+      return [
+        change.id,
+        restored && restoredAt && "updatedAt" in restored
+          ? { ...change, [target]: { ...restored, updatedAt: restoredAt } }
+          : change,
+      ];
+    }),
+  );
+
+  const result = current
+    .filter(
+      (entity) => !changes.has(entity.id) || changes.get(entity.id)![target],
+    )
+    .map((entity) => changes.get(entity.id)?.[target] || entity);
+
+  const present = new Set(result.map(({ id }) => id));
+  Array.from(changes.values())
+    .filter((change) => change[target] && !present.has(change.id))
+    .sort((a, b) => a[targetIndex] - b[targetIndex])
+    .forEach((change) => {
+      result.splice(
+        Math.min(change[targetIndex], result.length),
+        0,
+        change[target]!,
+      );
+    });
+
+  if (!patch.order) return result;
+
+  // Put the reordered records back in their order, using the slots they
+  // hold now so records added since stay where they are
+  const rank = new Map(patch.order[target].map((id, index) => [id, index]));
+  const slots: number[] = [];
+  result.forEach((entity, index) => {
+    if (rank.has(entity.id)) slots.push(index);
+  });
+  const ordered = slots
+    .map((index) => result[index])
+    .sort((a, b) => rank.get(a.id)! - rank.get(b.id)!);
+  slots.forEach((slot, index) => {
+    result[slot] = ordered[index];
+  });
+
+  return result;
+};
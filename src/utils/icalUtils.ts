@@ -0,0 +1,282 @@
+/**
+ * iCalendar Utilities
+ *
+ * Reading and writing RFC 5545 content: line folding, text escaping,
+ * date values and the component tree.
+ */
+
+import { ICalComponent, ICalProperty } from "../types/calendarTypes";
+import {
+  getZonedDateParts,
+  isValidTimeZone,
+  zonedDateTimeToUtc,
+} from "./dateUtils";
+
+/**
+ * Error raised for malformed iCalendar data
+ */
+export class ICalParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ICalParseError";
+  }
+}
+
+const MAX_LINE_OCTETS = 75;
+
+/**
+ * Escape a TEXT value (backslash, semicolon, comma and newlines)
+ */
+export const escapeICalText = (text: string): string =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+/**
+ * Reverse escapeICalText
+ */
+export const unescapeICalText = (text: string): string =>
+  text.replace(/\\([\\;,nN])/g, (_match, char: string) =>
+    char === "n" || char === "N" ? "\n" : char,
+  );
+
+/**
+ * Fold a content line so no physical line exceeds 75 octets.
+ * Continuation lines start with a single space.
+ */
+export const foldICalLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  if (encoder.encode(line).length <= MAX_LINE_OCTETS) {
+    return line;
+  }
+
+  const parts: string[] = [];
+  let current = "";
+  let currentOctets = 0;
+
+  for (const char of line) {
+    const octets = encoder.encode(char).length;
+    // Continuation lines lose one octet to the leading space
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (currentOctets + octets > limit) {
+      parts.push(current);
+      current = "";
+      currentOctets = 0;
+    }
+    current += char;
+    currentOctets += octets;
+  }
+  parts.push(current);
+
+  return parts.join("\r\n ");
+};
+
+/**
+ * Split iCalendar text into logical content lines, joining folded lines
+ */
+export const unfoldICalLines = (text: string): string[] =>
+  text
+    .replace(/\r\n/g, "\n")
+    .replace(/\n[ \t]/g, "")
+    .split("\n")
+    .filter((line) => line.trim() !== "");
+
+/**
+ * Parse one content line into name, parameters and value
+ */
+export const parseICalProperty = (line: string): ICalProperty => {
+  let inQuotes = false;
+  let valueStart = -1;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      inQuotes = !inQuotes;
+    } else if (char === ":" && !inQuotes) {
+      valueStart = i;
+      break;
+    }
+  }
+
+  if (valueStart === -1) {
+    throw new ICalParseError(`Invalid content line "${line}"`);
+  }
+
+  const [name, ...rawParams] = line
+    .slice(0, valueStart)
+    .match(/(?:[^;"]+|"[^"]*")+/g) || [""];
+  const params: Record<string, string> = {};
+
+  rawParams.forEach((param) => {
+    const separator = param.indexOf("=");
+    if (separator > 0) {
+      params[param.slice(0, separator).toUpperCase()] = param
+        .slice(separator + 1)
+        .replace(/^"|"$/g, "");
+    }
+  });
+
+  return {
+    name: name.toUpperCase(),
+    params,
+    value: line.slice(valueStart + 1),
+  };
+};
+
+/**
+ * Parse iCalendar text into its root component (normally VCALENDAR)
+ */
+export const parseICalendar = (text: string): ICalComponent => {
+  const stack: ICalComponent[] = [];
+  let root: ICalComponent | null = null;
+
+  for (const line of unfoldICalLines(text)) {
+    const property = parseICalProperty(line);
+
+    if (property.name === "BEGIN") {
+      const component: ICalComponent = {
+        type: property.value.toUpperCase(),
+        properties: [],
+        components: [],
+      };
+      if (stack.length > 0) {
+        stack[stack.length - 1].components.push(component);
+      } else if (root) {
+        throw new ICalParseError("Data after the end of the calendar");
+      }
+      stack.push(component);
+    } else if (property.name === "END") {
+      const component = stack.pop();
+      if (!component || component.type !== property.value.toUpperCase()) {
+        throw new ICalParseError(`Unexpected END:${property.value}`);
+      }
+      if (stack.length === 0) {
+        root = component;
+      }
+    } else if (stack.length > 0) {
+      stack[stack.length - 1].properties.push(property);
+    } else {
+      throw new ICalParseError(`Property ${property.name} outside BEGIN/END`);
+    }
+  }
+
+  if (stack.length > 0) {
+    throw new ICalParseError(`Missing END:${stack[stack.length - 1].type}`);
+  }
+  if (!root) {
+    throw new ICalParseError("No calendar data found");
+  }
+
+  return root;
+};
+
+/**
+ * Serialize a component tree, folding long lines and using CRLF endings
+ */
+export const serializeICalComponent = (component: ICalComponent): string => {
+  const lines: string[] = [];
+
+  const write = (node: ICalComponent) => {
+    lines.push(`BEGIN:${node.type}`);
+    node.properties.forEach((property) => {
+      const params = Object.entries(property.params)
+        .map(([key, value]) =>
+          /[;:,]/.test(value) ? `;${key}="${value}"` : `;${key}=${value}`,
+        )
+        .join("");
+      lines.push(foldICalLine(`${property.name}${params}:${property.value}`));
+    });
+    node.components.forEach(write);
+    lines.push(`END:${node.type}`);
+  };
+
+  write(component);
+  return lines.join("\r\n") + "\r\n";
+};
+
+/**
+ * First property with the given name
+ */
+export const getICalProperty = (
+  component: ICalComponent,
+  name: string,
+): ICalProperty | undefined =>
+  component.properties.find((property) => property.name === name);
+
+const pad = (value: number, length = 2) => String(value).padStart(length, "0");
+
+/**
+ * Format a DATE (`20240301`) from the local calendar day
+ */
+export const formatICalDate = (date: Date): string =>
+  `${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}`;
+
+/**
+ * Format a UTC DATE-TIME (`20240301T090000Z`)
+ */
+export const formatICalDateTime = (date: Date): string =>
+  `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(
+    date.getUTCDate(),
+  )}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(
+    date.getUTCSeconds(),
+  )}Z`;
+
+/**
+ * Format a DATE-TIME as wall-clock time in an IANA timezone
+ * (`20240301T090000`), to be written with a TZID parameter
+ */
+export const formatICalZonedDateTime = (
+  date: Date,
+  timeZone: string,
+): string => {
+  const parts = getZonedDateParts(date, timeZone);
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(
+    parts.hour,
+  )}${pad(parts.minute)}${pad(parts.second)}`;
+};
+
+/**
+ * Parse a DATE or DATE-TIME value. Values ending in `Z` are UTC, times
+ * with a known TZID are read in that timezone, and dates and other times
+ * are read as local time.
+ */
+export const parseICalDateValue = (
+  value: string,
+  timeZone?: string,
+): { date: Date; dateOnly: boolean } => {
+  const match = value
+    .trim()
+    .match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+
+  if (!match) {
+    throw new ICalParseError(`Invalid date value "${value}"`);
+  }
+
+  const [, year, month, day, hours, minutes, seconds, utc] = match;
+  const parts = [
+    parseInt(year, 10),
+    parseInt(month, 10) - 1,
+    parseInt(day, 10),
+    parseInt(hours || "0", 10),
+    parseInt(minutes || "0", 10),
+    parseInt(seconds || "0", 10),
+  ] as const;
+
+  const dateOnly = hours === undefined;
+  let date: Date;
+  if (utc) {
+    date = new Date(Date.UTC(...parts));
+  } else if (!dateOnly && timeZone && isValidTimeZone(timeZone)) {
+    const [year, month, day, hour, minute, second] = parts;
+    date = zonedDateTimeToUtc(
+      { year, month: month + 1, day, hour, minute, second },
+      timeZone,
+    );
+  } else {
+    date = new Date(...parts);
+  }
+
+  return { date, dateOnly };
+};
@@ -0,0 +1,256 @@
+/**
+ * NLP Locale Packs
+ * Vocabulary for the task text parser. English, German and Spanish are
+ * built in; more languages can be added with registerNlpLocale.
+ */
+
+import { NlpLocalePack } from "../types/nlp";
+
+export const englishLocale: NlpLocalePack = {
+  code: "en",
+  name: "English",
+  weekdays: [
+    ["sunday", "sundays", "sun"],
+    ["monday", "mondays", "mon"],
+    ["tuesday", "tuesdays", "tue", "tues"],
+    ["wednesday", "wednesdays", "wed"],
+    ["thursday", "thursdays", "thu", "thur", "thurs"],
+    ["friday", "fridays", "fri"],
+    ["saturday", "saturdays", "sat"],
+  ],
+  months: [
+    ["january", "jan"],
+    ["february", "feb"],
+    ["march", "mar"],
+    ["april", "apr"],
+    ["may"],
+    ["june", "jun"],
+    ["july", "jul"],
+    ["august", "aug"],
+    ["september", "sep", "sept"],
+    ["october", "oct"],
+    ["november", "nov"],
+    ["december", "dec"],
+  ],
+  relativeDays: {
+    today: 0,
+    tonight: 0,
+    tomorrow: 1,
+    tmr: 1,
+    "day after tomorrow": 2,
+    yesterday: -1,
+  },
+  units: {
+    minute: ["minute", "minutes", "min", "mins", "m"],
+    hour: ["hour", "hours", "hr", "hrs", "h"],
+    day: ["day", "days", "d"],
+    week: ["week", "weeks", "w", "wk", "wks"],
+    month: ["month", "months"],
+    year: ["year", "years", "y", "yr", "yrs"],
+  },
+  unitAdverbs: {
+    daily: "day",
+    weekly: "week",
+    monthly: "month",
+    yearly: "year",
+    annually: "year",
+  },
+  next: ["next"],
+  this: ["this", "this coming"],
+  in: ["in"],
+  every: ["every", "each"],
+  other: ["other"],
+  workdays: ["weekday", "weekdays", "workday", "workdays"],
+  endOf: ["end of", "end of the"],
+  datePrepositions: ["on", "by", "due", "due on", "due by"],
+  timePrepositions: ["at"],
+  durationPrepositions: ["for"],
+  and: ["and", "&"],
+  namedTimes: { noon: 12, midday: 12, midnight: 0 },
+  timeSuffixes: ["o'clock"],
+  meridiems: { am: ["am"], pm: ["pm"] },
+  dayMonthSeparators: ["of"],
+  numericDateOrder: "mdy",
+};
+
+export const germanLocale: NlpLocalePack = {
+  code: "de",
+  name: "Deutsch",
+  weekdays: [
+    ["sonntag", "sonntags"],
+    ["montag", "montags"],
+    ["dienstag", "dienstags"],
+    ["mittwoch", "mittwochs"],
+    ["donnerstag", "donnerstags"],
+    ["freitag", "freitags"],
+    ["samstag", "samstags", "sonnabend"],
+  ],
+  months: [
+    ["januar", "jänner", "jan"],
+    ["februar", "feb"],
+    ["märz", "mär", "maerz"],
+    ["april", "apr"],
+    ["mai"],
+    ["juni", "jun"],
+    ["juli", "jul"],
+    ["august", "aug"],
+    ["september", "sep", "sept"],
+    ["oktober", "okt"],
+    ["november", "nov"],
+    ["dezember", "dez"],
+  ],
+  relativeDays: {
+    heute: 0,
+    morgen: 1,
+    übermorgen: 2,
+    uebermorgen: 2,
+    gestern: -1,
+  },
+  units: {
+    minute: ["minute", "minuten", "min"],
+    hour: ["stunde", "stunden", "std", "h"],
+    day: ["tag", "tage", "tagen"],
+    week: ["woche", "wochen"],
+    month: ["monat", "monate", "monaten", "monats"],
+    year: ["jahr", "jahre", "jahren", "jahres"],
+  },
+  unitAdverbs: {
+    täglich: "day",
+    wöchentlich: "week",
+    monatlich: "month",
+    jährlich: "year",
+  },
+  next: [
+    "nächste",
+    "nächsten",
+    "nächster",
+    "nächstes",
+    "kommende",
+    "kommenden",
+  ],
+  this: ["diese", "diesen", "dieser", "dieses"],
+  in: ["in"],
+  every: ["jeden", "jede", "jedes", "alle"],
+  other: ["zweite", "zweiten"],
+  workdays: ["werktag", "werktags", "wochentag", "arbeitstag"],
+  endOf: ["ende", "ende des", "ende der", "ende dieses", "ende diesen"],
+  datePrepositions: ["am", "bis", "bis zum", "bis am", "fällig"],
+  timePrepositions: ["um"],
+  durationPrepositions: ["für"],
+  and: ["und", "&"],
+  namedTimes: { mittag: 12, mitternacht: 0 },
+  timeSuffixes: ["uhr"],
+  meridiems: { am: [], pm: [] },
+  dayMonthSeparators: [],
+  numericDateOrder: "dmy",
+};
+
+export const spanishLocale: NlpLocalePack = {
+  code: "es",
+  name: "Español",
+  weekdays: [
+    ["domingo", "domingos", "dom"],
+    ["lunes", "lun"],
+    ["martes"],
+    ["miércoles", "miercoles", "mié", "mie"],
+    ["jueves", "jue"],
+    ["viernes", "vie"],
+    ["sábado", "sabado", "sábados", "sabados", "sáb", "sab"],
+  ],
+  months: [
+    ["enero", "ene"],
+    ["febrero", "feb"],
+    ["marzo"],
+    ["abril", "abr"],
+    ["mayo", "may"],
+    ["junio", "jun"],
+    ["julio", "jul"],
+    ["agosto", "ago"],
+    ["septiembre", "setiembre", "sep", "sept"],
+    ["octubre", "oct"],
+    ["noviembre", "nov"],
+    ["diciembre", "dic"],
+  ],
+  relativeDays: {
+    hoy: 0,
+    mañana: 1,
+    manana: 1,
+    "pasado mañana": 2,
+    "pasado manana": 2,
+    ayer: -1,
+  },
+  units: {
+    minute: ["minuto", "minutos", "min"],
+    hour: ["hora", "horas", "h"],
+    day: ["día", "días", "dia", "dias"],
+    week: ["semana", "semanas"],
+    month: ["mes", "meses"],
+    year: ["año", "años", "ano", "anos"],
+  },
+  unitAdverbs: {
+    diario: "day",
+    diariamente: "day",
+    semanal: "week",
+    semanalmente: "week",
+    mensual: "month",
+    mensualmente: "month",
+    anual: "year",
+    anualmente: "year",
+  },
+  next: [
+    "próximo",
+    "próxima",
+    "proximo",
+    "proxima",
+    "el próximo",
+    "la próxima",
+    "el proximo",
+    "la proxima",
+  ],
+  this: ["este", "esta", "el", "la"],
+  in: ["en", "dentro de"],
+  every: ["cada", "todos los", "todas las"],
+  other: ["otro", "otra"],
+  workdays: ["día laborable", "días laborables", "dia laborable"],
+  endOf: ["fin de", "final de", "fin del", "final del"],
+  datePrepositions: ["el", "para el", "para", "antes del"],
+  timePrepositions: ["a las", "a la"],
+  durationPrepositions: ["durante", "por"],
+  and: ["y", "e", "&"],
+  namedTimes: { mediodía: 12, mediodia: 12, medianoche: 0 },
+  timeSuffixes: ["h", "horas"],
+  meridiems: {
+    am: ["am", "de la mañana", "de la manana", "de la madrugada"],
+    pm: ["pm", "de la tarde", "de la noche"],
+  },
+  dayMonthSeparators: ["de"],
+  numericDateOrder: "dmy",
+};
+
+const locales = new Map<string, NlpLocalePack>(
+  [englishLocale, germanLocale, spanishLocale].map((pack) => [pack.code, pack]),
+);
+
+/**
+ * Add or replace a locale pack
+ */
+export function registerNlpLocale(pack: NlpLocalePack): void {
+  locales.set(pack.code, pack);
+}
+
+/**
+ * Locale pack for a code such as "de" or "es-MX"; falls back to the
+ * base language and then to English
+ */
+export function getNlpLocale(code: string = "en"): NlpLocalePack {
+  const normalized = code.toLowerCase();
+  return (
+    locales.get(normalized) ||
+    locales.get(normalized.split(/[-_]/)[0]) ||
+    englishLocale
+  );
+}
+
+export function getNlpLocales(): NlpLocalePack[] {
+  return Array.from(locales.values());
+}
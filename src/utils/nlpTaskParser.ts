@@ -0,0 +1,801 @@
+/**
+ * NLP Task Parser
+ * Tokenizes a line of task text and parses dates, times, durations,
+ * recurrences, priorities, #projects, @labels, +assignees and /sections
+ * into entities
+ * with exact character ranges. Words come from the locale pack.
+ *
+ * Grammar (one entity per type, except labels):
+ *   tag        := "#" name | "@" name | "+" name | "/" name
+ *   priority   := "p1" | "p2" | "p3" | "p4"
+ *   recurrence := every ["!"] ([other] [n] unit | workdays | [other] weekdays)
+ *               | unit-adverb
+ *   duration   := duration-prep n unit [n unit]
+ *   date       := [date-prep] (relative-day | next (weekday | unit)
+ *               | [this] weekday | in n unit | end-of unit
+ *               | day [sep] month [year] | month day [year] | numeric-date)
+ *   time       := [time-prep] (hh:mm | h | named-time) [meridiem] [suffix]
+ */
+
+import {
+  addDays,
+  addHours,
+  addMinutes,
+  addMonths,
+  addWeeks,
+  addYears,
+  endOfMonth,
+  endOfWeek,
+  endOfYear,
+  format,
+  isBefore,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+  startOfYear,
+} from "date-fns";
+import { PriorityLevel, RecurringPattern } from "../types/enums";
+import {
+  NlpDurationUnit,
+  NlpEntity,
+  NlpLocalePack,
+  NlpParseOptions,
+  NlpParseResult,
+  NlpSpan,
+} from "../types/nlp";
+import { RecurringPatternConfig } from "../types/task";
+import { getNlpLocale } from "./nlpLocales";
+
+export type NlpTokenKind =
+  | "sigil"
+  | "numericDate"
+  | "clock"
+  | "number"
+  | "word"
+  | "punct";
+
+export interface NlpToken {
+  kind: NlpTokenKind;
+  text: string;
+  lower: string;
+  start: number;
+  end: number;
+}
+
+// Alternatives in the order of NlpTokenKind
+const TOKEN_PATTERN =
+  /((?<!\S)(?:[#@/][\p{L}\p{N}_-]+|\+\p{L}[\p{L}\p{N}_.-]*))|(\d{1,4}[./-]\d{1,2}(?:[./-]\d{2,4})?\.?)|(\d{1,2}:\d{2})|(\d+)|([\p{L}][\p{L}\p{M}\p{N}'’]*)|(\S)/gu;
+
+const TOKEN_KINDS: NlpTokenKind[] = [
+  "sigil",
+  "numericDate",
+  "clock",
+  "number",
+  "word",
+  "punct",
+];
+
+const ORDINAL_SUFFIXES = ["st", "nd", "rd", "th", ".", "º", "ª"];
+
+const TAG_TYPES: Record<string, "project" | "label" | "assignee" | "section"> =
+  {
+    "#": "project",
+    "@": "label",
+    "+": "assignee",
+    "/": "section",
+  };
+
+// Unabbreviated names only, so "sun" or "sat" in a title stay text
+const MIN_BARE_WEEKDAY_LENGTH = 4;
+
+const RECURRING_UNITS: Partial<
+  Record<
+    NlpDurationUnit,
+    {
+      pattern: RecurringPattern;
+      frequency: RecurringPatternConfig["frequency"];
+    }
+  >
+> = {
+  day: { pattern: RecurringPattern.DAILY, frequency: "daily" },
+  week: { pattern: RecurringPattern.WEEKLY, frequency: "weekly" },
+  month: { pattern: RecurringPattern.MONTHLY, frequency: "monthly" },
+  year: { pattern: RecurringPattern.YEARLY, frequency: "yearly" },
+};
+
+/**
+ * Split text into tokens with their character ranges. `#work`, `@home`,
+ * `+alex` and `/notes` at the start of a word are single sigil tokens; dates like
+ * `3.12.` or `2024-12-03` and clock times like `14:00` stay whole.
+ */
+export function tokenizeTaskText(text: string): NlpToken[] {
+  const tokens: NlpToken[] = [];
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const group = match.slice(1).findIndex((value) => value !== undefined);
+    const start = match.index ?? 0;
+    tokens.push({
+      kind: TOKEN_KINDS[group],
+      text: match[0],
+      lower: match[0].toLowerCase(),
+      start,
+      end: start + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+type Match<T> = { value: T; end: number } | null;
+
+type DateMatch = Match<{ date: Date; allDay: boolean }>;
+
+class TaskTextParser {
+  private tokens: NlpToken[];
+
+  constructor(
+    private text: string,
+    private locale: NlpLocalePack,
+    private now: Date,
+    private ignore: NlpSpan[] = [],
+  ) {
+    this.tokens = tokenizeTaskText(text);
+  }
+
+  private get today(): Date {
+    return startOfDay(this.now);
+  }
+
+  parse(): NlpEntity[] {
+    const entities: NlpEntity[] = [];
+    const found = new Set<NlpEntity["type"]>();
+    let i = 0;
+
+    while (i < this.tokens.length) {
+      const match = this.matchAt(i, found);
+      if (match && !this.ignored(match.value)) {
+        entities.push(match.value);
+        found.add(match.value.type);
+        i = match.end;
+      } else {
+        i++;
+      }
+    }
+
+    return entities;
+  }
+
+  private ignored(span: NlpSpan): boolean {
+    return this.ignore.some(
+      (range) => span.start < range.end && range.start < span.end,
+    );
+  }
+
+  private matchAt(i: number, found: Set<NlpEntity["type"]>): Match<NlpEntity> {
+    const tag = this.matchTag(i);
+    if (tag) {
+      return tag.value.type === "label" ||
+        tag.value.type === "assignee" ||
+        !found.has(tag.value.type)
+        ? tag
+        : null;
+    }
+
+    const rules: [NlpEntity["type"], (i: number) => Match<NlpEntity>][] = [
+      ["priority", (at) => this.matchPriority(at)],
+      ["recurrence", (at) => this.matchRecurrence(at)],
+      ["duration", (at) => this.matchDuration(at)],
+      ["date", (at) => this.matchDate(at)],
+      ["time", (at) => this.matchTime(at)],
+    ];
+
+    for (const [type, rule] of rules) {
+      if (found.has(type)) continue;
+      const match = rule(i);
+      if (match) return match;
+    }
+    return null;
+  }
+
+  private entity(
+    type: NlpEntity["type"],
+    from: number,
+    to: number,
+    value: unknown,
+    extra: Record<string, unknown> = {},
+  ): Match<NlpEntity> {
+    const start = this.tokens[from].start;
+    const end = this.tokens[to - 1].end;
+    return {
+      value: {
+        type,
+        value,
+        text: this.text.slice(start, end),
+        start,
+        end,
+        ...extra,
+      } as NlpEntity,
+      end: to,
+    };
+  }
+
+  // Token helpers
+
+  private phrase(i: number, phrases: string[]): Match<string> {
+    let best: Match<string> = null;
+
+    phrases.forEach((phrase) => {
+      const words = phrase.split(" ");
+      const matches = words.every(
+        (word, offset) => this.tokens[i + offset]?.lower === word,
+      );
+      if (matches && (!best || words.length > best.end - i)) {
+        best = { value: phrase, end: i + words.length };
+      }
+    });
+
+    return best;
+  }
+
+  private lookup(i: number, table: string[][], minLength = 0): Match<number> {
+    let best: Match<number> = null;
+
+    table.forEach((aliases, index) => {
+      const match = this.phrase(
+        i,
+        aliases.filter((alias) => alias.length >= minLength),
+      );
+      if (match && (!best || match.end > best.end)) {
+        best = { value: index, end: match.end };
+      }
+    });
+
+    return best;
+  }
+
+  private unit(i: number): Match<NlpDurationUnit> {
+    const units = Object.entries(this.locale.units) as [
+      NlpDurationUnit,
+      string[],
+    ][];
+    let best: Match<NlpDurationUnit> = null;
+
+    units.forEach(([unit, words]) => {
+      const match = this.phrase(i, words);
+      if (match && (!best || match.end > best.end)) {
+        best = { value: unit, end: match.end };
+      }
+    });
+
+    return best;
+  }
+
+  private number(i: number): Match<number> {
+    const token = this.tokens[i];
+    return token?.kind === "number"
+      ? { value: parseInt(token.text, 10), end: i + 1 }
+      : null;
+  }
+
+  private adjacent(i: number): boolean {
+    return i > 0 && this.tokens[i]?.start === this.tokens[i - 1].end;
+  }
+
+  // Rules
+
+  private matchTag(i: number): Match<NlpEntity> {
+    const token = this.tokens[i];
+    if (token.kind !== "sigil") return null;
+    return this.entity(TAG_TYPES[token.text[0]], i, i + 1, token.text.slice(1));
+  }
+
+  private matchPriority(i: number): Match<NlpEntity> {
+    const priority = this.tokens[i].lower.match(/^p([1-4])$/);
+    return priority
+      ? this.entity("priority", i, i + 1, `P${priority[1]}` as PriorityLevel)
+      : null;
+  }
+
+  private matchRecurrence(i: number): Match<NlpEntity> {
+    const adverb = this.locale.unitAdverbs[this.tokens[i].lower];
+    if (adverb && RECURRING_UNITS[adverb]) {
+      return this.entity(
+        "recurrence",
+        i,
+        i + 1,
+        this.recurrenceConfig(adverb, 1, "due"),
+      );
+    }
+
+    const every = this.phrase(i, this.locale.every);
+    if (!every) return null;
+
+    let j = every.end;
+    let repeatFrom: RecurringPatternConfig["repeatFrom"] = "due";
+    // "every!" repeats from completion
+    if (this.tokens[j]?.text === "!" && this.adjacent(j)) {
+      repeatFrom = "completion";
+      j++;
+    }
+
+    const other = this.phrase(j, this.locale.other);
+    const afterOther = other ? other.end : j;
+    const count = other ? null : this.number(afterOther);
+    const unit = this.unit(count ? count.end : afterOther);
+
+    if (unit && RECURRING_UNITS[unit.value]) {
+      const interval = other ? 2 : Math.max(count?.value ?? 1, 1);
+      return this.entity(
+        "recurrence",
+        i,
+        unit.end,
+        this.recurrenceConfig(unit.value, interval, repeatFrom),
+      );
+    }
+
+    const workdays = !other && this.phrase(j, this.locale.workdays);
+    if (workdays) {
+      return this.entity("recurrence", i, workdays.end, {
+        pattern: RecurringPattern.CUSTOM,
+        frequency: "weekdays",
+        endCondition: "never",
+        interval: 1,
+        repeatFrom,
+      });
+    }
+
+    const days = this.weekdayList(afterOther);
+    if (days) {
+      return this.entity("recurrence", i, days.end, {
+        pattern: RecurringPattern.CUSTOM,
+        frequency: "weekly",
+        endCondition: "never",
+        interval: other ? 2 : 1,
+        customDays: days.value,
+        repeatFrom,
+      });
+    }
+
+    return null;
+  }
+
+  private recurrenceConfig(
+    unit: NlpDurationUnit,
+    interval: number,
+    repeatFrom: RecurringPatternConfig["repeatFrom"],
+  ): RecurringPatternConfig {
+    return {
+      ...RECURRING_UNITS[unit]!,
+      endCondition: "never",
+      interval,
+      repeatFrom,
+    };
+  }
+
+  /**
+   * "monday", "monday and thursday", "mon, wed and fri"
+   */
+  private weekdayList(i: number): Match<number[]> {
+    const days = new Set<number>();
+    let end = i;
+
+    for (;;) {
+      const day = this.lookup(end, this.locale.weekdays);
+      if (!day) break;
+      days.add(day.value);
+      end = day.end;
+
+      const separator =
+        this.tokens[end]?.text === ","
+          ? { end: end + 1 }
+          : this.phrase(end, this.locale.and);
+      if (!separator || !this.lookup(separator.end, this.locale.weekdays)) {
+        break;
+      }
+      end = separator.end;
+    }
+
+    return days.size > 0
+      ? { value: Array.from(days).sort((a, b) => a - b), end }
+      : null;
+  }
+
+  private matchDuration(i: number): Match<NlpEntity> {
+    const preposition = this.phrase(i, this.locale.durationPrepositions);
+    if (!preposition) return null;
+
+    let minutes = 0;
+    let end = preposition.end;
+    for (;;) {
+      const amount = this.number(end);
+      const unit = amount && this.unit(amount.end);
+      if (!unit || (unit.value !== "minute" && unit.value !== "hour")) break;
+      minutes += unit.value === "hour" ? amount.value * 60 : amount.value;
+      end = unit.end;
+    }
+
+    return end > preposition.end
+      ? this.entity("duration", i, end, minutes)
+      : null;
+  }
+
+  private matchDate(i: number): Match<NlpEntity> {
+    const preposition = this.phrase(i, this.locale.datePrepositions);
+    // A preposition belongs to the date only when a date follows it
+    const match =
+      (preposition && this.dateExpression(preposition.end)) ||
+      this.dateExpression(i);
+    return match
+      ? this.entity("date", i, match.end, match.value.date, {
+          allDay: match.value.allDay,
+        })
+      : null;
+  }
+
+  private dateExpression(j: number): DateMatch {
+    if (j >= this.tokens.length) return null;
+    const day = (date: Date, end: number): DateMatch => ({
+      value: { date, allDay: true },
+      end,
+    });
+
+    const relative = this.phrase(j, Object.keys(this.locale.relativeDays));
+    if (relative) {
+      return day(
+        addDays(this.today, this.locale.relativeDays[relative.value]),
+        relative.end,
+      );
+    }
+
+    const next = this.phrase(j, this.locale.next);
+    if (next) {
+      const weekday = this.lookup(next.end, this.locale.weekdays);
+      if (weekday) {
+        return day(this.upcomingWeekday(weekday.value, true), weekday.end);
+      }
+      const unit = this.unit(next.end);
+      const starts: Partial<Record<NlpDurationUnit, () => Date>> = {
+        day: () => addDays(this.today, 1),
+        week: () => startOfWeek(addWeeks(this.today, 1), { weekStartsOn: 1 }),
+        month: () => startOfMonth(addMonths(this.today, 1)),
+        year: () => startOfYear(addYears(this.today, 1)),
+      };
+      if (unit && starts[unit.value]) {
+        return day(starts[unit.value]!(), unit.end);
+      }
+    }
+
+    const thisWord = this.phrase(j, this.locale.this);
+    const weekday = thisWord
+      ? this.lookup(thisWord.end, this.locale.weekdays)
+      : this.lookup(j, this.locale.weekdays, MIN_BARE_WEEKDAY_LENGTH);
+    if (weekday) {
+      return day(this.upcomingWeekday(weekday.value, false), weekday.end);
+    }
+
+    const offset = this.phrase(j, this.locale.in);
+    const amount = offset && this.number(offset.end);
+    const offsetUnit = amount && this.unit(amount.end);
+    if (amount && offsetUnit) {
+      const n = amount.value;
+      switch (offsetUnit.value) {
+        case "minute":
+          return {
+            value: { date: addMinutes(this.now, n), allDay: false },
+            end: offsetUnit.end,
+          };
+        case "hour":
+          return {
+            value: { date: addHours(this.now, n), allDay: false },
+            end: offsetUnit.end,
+          };
+        case "day":
+          return day(addDays(this.today, n), offsetUnit.end);
+        case "week":
+          return day(addWeeks(this.today, n), offsetUnit.end);
+        case "month":
+          return day(addMonths(this.today, n), offsetUnit.end);
+        case "year":
+          return day(addYears(this.today, n), offsetUnit.end);
+      }
+    }
+
+    const endOf = this.phrase(j, this.locale.endOf);
+    const endUnit = endOf && this.unit(endOf.end);
+    if (endUnit) {
+      const ends: Partial<Record<NlpDurationUnit, () => Date>> = {
+        week: () => endOfWeek(this.today, { weekStartsOn: 1 }),
+        month: () => endOfMonth(this.today),
+        year: () => endOfYear(this.today),
+      };
+      if (ends[endUnit.value]) {
+        return day(startOfDay(ends[endUnit.value]!()), endUnit.end);
+      }
+    }
+
+    return this.calendarDate(j);
+  }
+
+  /**
+   * "Dec 3rd", "December 3, 2025", "3rd of December", "3. Dezember",
+   * "3 de diciembre de 2025", "12/3", "3.12.2025" or "2025-12-03"
+   */
+  private calendarDate(j: number): DateMatch {
+    const token = this.tokens[j];
+
+    if (token.kind === "numericDate") {
+      const date = this.numericDate(token.text);
+      return date ? { value: { date, allDay: true }, end: j + 1 } : null;
+    }
+
+    const monthFirst = this.lookup(j, this.locale.months);
+    if (monthFirst) {
+      const dayOfMonth = this.dayOfMonth(monthFirst.end);
+      if (dayOfMonth) {
+        return this.monthDate(
+          monthFirst.value,
+          dayOfMonth.value,
+          dayOfMonth.end,
+        );
+      }
+      return null;
+    }
+
+    const dayOfMonth = this.dayOfMonth(j);
+    if (dayOfMonth) {
+      const separator = this.phrase(
+        dayOfMonth.end,
+        this.locale.dayMonthSeparators,
+      );
+      const month = this.lookup(
+        separator ? separator.end : dayOfMonth.end,
+        this.locale.months,
+      );
+      if (month) {
+        return this.monthDate(month.value, dayOfMonth.value, month.end);
+      }
+    }
+
+    return null;
+  }
+
+  private dayOfMonth(i: number): Match<number> {
+    const day = this.number(i);
+    if (!day || day.value < 1 || day.value > 31) return null;
+    const suffix = this.tokens[day.end];
+    return suffix &&
+      this.adjacent(day.end) &&
+      ORDINAL_SUFFIXES.includes(suffix.lower)
+      ? { value: day.value, end: day.end + 1 }
+      : day;
+  }
+
+  private monthDate(month: number, day: number, end: number): DateMatch {
+    // Optional year: "Dec 3, 2025", "3 de diciembre de 2025"
+    let yearEnd = this.tokens[end]?.text === "," ? end + 1 : end;
+    const separator = this.phrase(yearEnd, this.locale.dayMonthSeparators);
+    if (separator) yearEnd = separator.end;
+    const year = this.number(yearEnd);
+    const hasYear = !!year && year.value >= 1970 && year.value <= 2100;
+
+    const date = this.resolveDate(hasYear ? year.value : null, month, day);
+    return date
+      ? { value: { date, allDay: true }, end: hasYear ? year.end : end }
+      : null;
+  }
+
+  private numericDate(text: string): Date | null {
+    const iso = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+    if (iso) {
+      return this.resolveDate(
+        parseInt(iso[1], 10),
+        parseInt(iso[2], 10) - 1,
+        parseInt(iso[3], 10),
+      );
+    }
+
+    const parts = text.replace(/\.$/, "").split(/[./-]/);
+    if (parts.some((part) => part.length > 2) && parts.length < 3) {
+      return null;
+    }
+    const [first, second, year] = parts.map((part) => parseInt(part, 10));
+    // Dotted dates are always day first (German style)
+    const dayFirst =
+      text.includes(".") || this.locale.numericDateOrder === "dmy";
+    const day = dayFirst ? first : second;
+    const month = (dayFirst ? second : first) - 1;
+
+    return this.resolveDate(
+      year === undefined ? null : year < 100 ? 2000 + year : year,
+      month,
+      day,
+    );
+  }
+
+  /**
+   * A valid calendar date; without a year, the next one on or after today
+   */
+  private resolveDate(
+    year: number | null,
+    month: number,
+    day: number,
+  ): Date | null {
+    const build = (y: number) => {
+      const date = new Date(y, month, day);
+      return date.getMonth() === month && date.getDate() === day ? date : null;
+    };
+
+    if (year !== null) return build(year);
+    const thisYear = build(this.today.getFullYear());
+    return thisYear && isBefore(thisYear, this.today)
+      ? build(this.today.getFullYear() + 1)
+      : thisYear;
+  }
+
+  private upcomingWeekday(weekday: number, afterToday: boolean): Date {
+    const days = (weekday - this.today.getDay() + 7) % 7;
+    return addDays(this.today, days === 0 && afterToday ? 7 : days);
+  }
+
+  private matchTime(i: number): Match<NlpEntity> {
+    const preposition = this.phrase(i, this.locale.timePrepositions);
+    const j = preposition ? preposition.end : i;
+    const token = this.tokens[j];
+    if (!token) return null;
+
+    let hours: number;
+    let minutes = 0;
+    let end: number;
+
+    const named = this.phrase(j, Object.keys(this.locale.namedTimes));
+    if (named) {
+      return this.entity("time", i, named.end, {
+        hours: this.locale.namedTimes[named.value],
+        minutes: 0,
+      });
+    }
+
+    if (token.kind === "clock") {
+      [hours, minutes] = token.text
+        .split(":")
+        .map((part) => parseInt(part, 10));
+    } else if (token.kind === "number" && token.text.length <= 2) {
+      hours = parseInt(token.text, 10);
+    } else {
+      return null;
+    }
+    end = j + 1;
+
+    const meridiem =
+      this.phrase(end, this.locale.meridiems.am) ||
+      this.phrase(end, this.locale.meridiems.pm);
+    if (meridiem) {
+      if (hours < 1 || hours > 12) return null;
+      hours =
+        (hours % 12) +
+        (this.locale.meridiems.pm.includes(meridiem.value) ? 12 : 0);
+      end = meridiem.end;
+    }
+
+    const suffix = this.phrase(end, this.locale.timeSuffixes);
+    if (suffix) end = suffix.end;
+
+    // A bare number is a time only with "at", am/pm or a suffix like "Uhr"
+    // that cannot also be a unit ("2 horas" is a duration, not 2:00)
+    const isTime =
+      token.kind === "clock" ||
+      !!preposition ||
+      !!meridiem ||
+      (!!suffix && !this.unit(suffix.end - 1));
+    if (!isTime || hours > 23 || minutes > 59) return null;
+
+    return this.entity("time", i, end, { hours, minutes });
+  }
+}
+
+/**
+ * The text left once entity ranges are cut out
+ */
+function remainingText(text: string, entities: NlpEntity[]): string {
+  let result = "";
+  let position = 0;
+
+  [...entities]
+    .sort((a, b) => a.start - b.start)
+    .forEach((entity) => {
+      result += `${text.slice(position, entity.start)} `;
+      position = entity.end;
+    });
+  result += text.slice(position);
+
+  return result
+    .replace(/\s+/g, " ")
+    .replace(/\s+([,;:.!?])/g, "$1")
+    .replace(/^[\s,;:-]+|[\s,;:-]+$/g, "");
+}
+
+/**
+ * Parse a line of task text such as `Review PR next Friday at 3pm p1
+ * #Work @review`. Unknown locales fall back to English.
+ */
+export function parseTaskText(
+  text: string,
+  options: NlpParseOptions = {},
+): NlpParseResult {
+  const locale = getNlpLocale(options.locale);
+  const now = options.now || new Date();
+  const entities = new TaskTextParser(
+    text,
+    locale,
+    now,
+    options.ignore,
+  ).parse();
+
+  const result: NlpParseResult = {
+    text,
+    locale: locale.code,
+    title: remainingText(text, entities),
+    entities,
+    labels: [],
+    assignees: [],
+  };
+
+  let time: { hours: number; minutes: number } | undefined;
+
+  entities.forEach((entity) => {
+    switch (entity.type) {
+      case "date":
+        result.dueDate = entity.value;
+        if (!entity.allDay) {
+          time = {
+            hours: entity.value.getHours(),
+            minutes: entity.value.getMinutes(),
+          };
+        }
+        break;
+      case "time":
+        time = entity.value;
+        break;
+      case "duration":
+        result.duration = entity.value;
+        break;
+      case "recurrence":
+        result.recurrence = entity.value;
+        break;
+      case "priority":
+        result.priority = entity.value;
+        break;
+      case "project":
+        result.project = entity.value;
+        break;
+      case "label":
+        result.labels.push(entity.value);
+        break;
+      case "assignee":
+        result.assignees.push(entity.value);
+        break;
+      case "section":
+        result.section = entity.value;
+        break;
+    }
+  });
+
+  // A recurrence without a date starts at its first occurrence
+  if (!result.dueDate && result.recurrence) {
+    const days = result.recurrence.customDays || [];
+    const today = startOfDay(now);
+    const offset = days.length
+      ? Math.min(...days.map((day) => (day - today.getDay() + 7) % 7))
+      : 0;
+    result.dueDate = addDays(today, offset);
+  }
+
+  if (time) {
+    const date = new Date(result.dueDate || startOfDay(now));
+    date.setHours(time.hours, time.minutes, 0, 0);
+    result.dueDate = date;
+    result.dueTime = format(date, "HH:mm");
+  }
+
+  return result;
+}
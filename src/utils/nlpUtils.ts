@@ -1,4 +1,6 @@
 import { parse, isValid, format } from "date-fns";
+import { RecurringPatternConfig } from "../types/task";
+import { parseTaskText } from "./nlpTaskParser";
 
 /**
  * Extracts date information from text using various date patterns
@@ -154,6 +156,21 @@ export function extractProject(text: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Extracts a recurrence such as "every 3 days", "every other week",
+ * "every weekday", "every monday and thursday" or "daily". "every!"
+ * repeats from completion instead of from the due date, e.g.
+ * "water plants every! 3 days".
+ */
+export function extractRecurrence(
+  text: string,
+  locale?: string,
+): RecurringPatternConfig | undefined {
+  if (!text) return undefined;
+
+  return parseTaskText(text, { locale }).recurrence;
+}
+
 /**
  * Cleans and normalizes text for parsing
  */
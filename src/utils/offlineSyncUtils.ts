@@ -9,6 +9,7 @@
 import { OfflineQueueItem, OfflineSettings } from "../types/offlineTypes";
 import { offlineService } from "../services/offlineService";
 import { offlineSyncService } from "../services/offlineSyncService";
+import { conflictResolutionService } from "../services/conflictResolutionService";
 
 /**
  * Check if sync is needed based on current state
@@ -146,6 +147,21 @@ export async function handleSyncConflict(
   resolvedData: any;
   resolutionStrategy: string;
 }> {
+  // Task updates queued with their base version get a field-level
+  // three-way merge; only true conflicts are left to the strategy
+  if (localItem.type === "update" && localItem.data?.base) {
+    const resolvedData = conflictResolutionService.reconcileTaskUpdate(
+      localItem,
+      remoteData,
+      settings,
+    );
+
+    return {
+      resolvedData,
+      resolutionStrategy: resolvedData ? "three-way-merge" : "manual-required",
+    };
+  }
+
   const strategy = settings.conflictResolution;
 
   switch (strategy) {
@@ -0,0 +1,379 @@
+/**
+ * Project template utilities
+ * Captures a project with its sections and task tree as a template and
+ * rebuilds it with new IDs and shifted dates
+ */
+
+import { addDays, differenceInCalendarDays, startOfDay } from "date-fns";
+import { CreateSectionDto, Project, Section } from "../types/project";
+import { ViewType } from "../types/enums";
+import { Task } from "../types/task";
+import { parseOutline } from "./bulkCaptureUtils";
+import {
+  ProjectTemplateInstantiateOptions,
+  ProjectTemplateStructure,
+  ProjectTemplateTask,
+} from "../types/template";
+
+export const PROJECT_TEMPLATE_VERSION = 1;
+
+const DEFAULT_PRIORITY = "medium" as ProjectTemplateTask["priority"];
+const DEFAULT_PROJECT_COLOR = "#3b82f6";
+
+/**
+ * Details in the trailing parentheses of an outline item
+ */
+const OUTLINE_DETAIL = /^(?:day (-?\d+)|\+(.+)|repeats (\S+)|priority (\S+))$/;
+
+export interface ProjectTemplateCaptureOptions {
+  /**
+   * Date that due dates are counted from; defaults to the earliest due
+   * date in the project, or the project's creation date
+   */
+  startDate?: Date;
+
+  /**
+   * Role name for each assignee ID; others become "Assignee 1", "Assignee 2"…
+   */
+  roles?: Record<string, string>;
+}
+
+/**
+ * Generate a unique section ID
+ */
+export const generateSectionId = (): string => {
+  return `section-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`;
+};
+
+/**
+ * Generate a unique task ID
+ */
+export const generateTaskId = (): string => {
+  return `task-${Date.now()}-${Math.random().toString(36).substr(2, 4)}`;
+};
+
+const byOrder = (a: { order: number }, b: { order: number }) =>
+  a.order - b.order;
+
+/**
+ * Turn a project, its sections and its tasks into a template structure.
+ * Subtasks stay under their parent; tasks whose parent is not part of the
+ * project become top-level tasks.
+ */
+export const captureProjectTemplate = (
+  project: Pick<
+    Project,
+    "name" | "description" | "color" | "viewType" | "createdAt"
+  >,
+  sections: Section[],
+  tasks: Task[],
+  options: ProjectTemplateCaptureOptions = {},
+): ProjectTemplateStructure => {
+  const dueDates = tasks
+    .filter((task) => task.dueDate)
+    .map((task) => new Date(task.dueDate as Date).getTime());
+  const start = startOfDay(
+    options.startDate ||
+      (dueDates.length > 0
+        ? new Date(Math.min(...dueDates))
+        : new Date(project.createdAt)),
+  );
+
+  const roles: string[] = [];
+  const assigneeRoles = new Map<string, string>();
+  const roleFor = (assigneeId?: string | null): string | null => {
+    if (!assigneeId) return null;
+    if (!assigneeRoles.has(assigneeId)) {
+      const role =
+        options.roles?.[assigneeId] || `Assignee ${assigneeRoles.size + 1}`;
+      assigneeRoles.set(assigneeId, role);
+      if (!roles.includes(role)) roles.push(role);
+    }
+    return assigneeRoles.get(assigneeId) as string;
+  };
+
+  const taskIds = new Set(tasks.map((task) => task.id));
+  const children = new Map<string, Task[]>();
+  tasks.forEach((task) => {
+    if (task.parentTaskId && taskIds.has(task.parentTaskId)) {
+      const siblings = children.get(task.parentTaskId) || [];
+      siblings.push(task);
+      children.set(task.parentTaskId, siblings);
+    }
+  });
+
+  const toTemplateTask = (task: Task): ProjectTemplateTask => {
+    const config = task.customFields?.recurringConfig;
+    const { endDate, ...recurrence } = config || {};
+
+    return {
+      title: task.title,
+      description: task.description || undefined,
+      priority: task.priority,
+      dueOffset: task.dueDate
+        ? differenceInCalendarDays(new Date(task.dueDate), start)
+        : null,
+      dueTime: task.dueTime || null,
+      duration: task.duration || null,
+      labelIds: task.labelIds || [],
+      assigneeRole: roleFor(task.assigneeId),
+      recurringPattern: task.recurringPattern || null,
+      recurringConfig: config
+        ? {
+            ...recurrence,
+            endOffset: endDate
+              ? differenceInCalendarDays(new Date(endDate), start)
+              : null,
+          }
+        : null,
+      subtasks: (children.get(task.id) || []).sort(byOrder).map(toTemplateTask),
+    };
+  };
+
+  const roots = tasks
+    .filter((task) => !task.parentTaskId || !taskIds.has(task.parentTaskId))
+    .sort(byOrder);
+  const sectionIds = new Set(sections.map((section) => section.id));
+
+  return {
+    version: PROJECT_TEMPLATE_VERSION,
+    project: {
+      name: project.name,
+      description: project.description,
+      color: project.color,
+      viewType: project.viewType,
+    },
+    sections: [...sections].sort(byOrder).map((section) => ({
+      name: section.name,
+      tasks: roots
+        .filter((task) => task.sectionId === section.id)
+        .map(toTemplateTask),
+    })),
+    tasks: roots
+      .filter((task) => !task.sectionId || !sectionIds.has(task.sectionId))
+      .map(toTemplateTask),
+    roles,
+  };
+};
+
+/**
+ * Build the sections and tasks of a new project from a template. All IDs
+ * are new and due dates are counted from `options.startDate`.
+ */
+export const instantiateProjectTemplate = (
+  structure: ProjectTemplateStructure,
+  projectId: string,
+  options: ProjectTemplateInstantiateOptions,
+): {
+  sections: (CreateSectionDto & { id: string })[];
+  tasks: Omit<Task, "createdAt" | "updatedAt">[];
+} => {
+  const start = startOfDay(options.startDate);
+  const dateAt = (offset?: number | null) =>
+    offset === null || offset === undefined ? null : addDays(start, offset);
+  const tasks: Omit<Task, "createdAt" | "updatedAt">[] = [];
+
+  const addTasks = (
+    templateTasks: ProjectTemplateTask[],
+    sectionId: string | null,
+    parentTaskId: string | null,
+  ) => {
+    templateTasks.forEach((templateTask, index) => {
+      const id = generateTaskId();
+      const { endOffset, ...recurrence } = templateTask.recurringConfig || {};
+
+      tasks.push({
+        id,
+        title: templateTask.title,
+        description: templateTask.description || "",
+        status: "todo" as Task["status"],
+        completed: false,
+        priority: templateTask.priority,
+        dueDate: dateAt(templateTask.dueOffset),
+        dueTime: templateTask.dueTime || null,
+        duration: templateTask.duration || null,
+        parentTaskId,
+        projectId,
+        sectionId,
+        assigneeId:
+          (templateTask.assigneeRole &&
+            options.roleAssignments?.[templateTask.assigneeRole]) ||
+          null,
+        labelIds: templateTask.labelIds || [],
+        recurringPattern: templateTask.recurringPattern || null,
+        customFields: templateTask.recurringConfig
+          ? {
+              recurringConfig: { ...recurrence, endDate: dateAt(endOffset) },
+            }
+          : undefined,
+        order: index,
+        metadata: { source: "project-template" },
+      });
+      addTasks(templateTask.subtasks || [], sectionId, id);
+    });
+  };
+
+  const sections = structure.sections.map((section, order) => {
+    const id = generateSectionId();
+    addTasks(section.tasks, id, null);
+    return { id, name: section.name, projectId, order };
+  });
+  addTasks(structure.tasks, null, null);
+
+  return { sections, tasks };
+};
+
+/**
+ * Markdown outline of a project template, used as its readable content
+ */
+export const formatProjectTemplateOutline = (
+  structure: ProjectTemplateStructure,
+): string => {
+  const lines = [`# ${structure.project.name}`];
+
+  const addTasks = (templateTasks: ProjectTemplateTask[], depth: number) => {
+    templateTasks.forEach((task) => {
+      const details = [
+        task.dueOffset !== null && task.dueOffset !== undefined
+          ? `day ${task.dueOffset}`
+          : "",
+        task.assigneeRole ? `+${task.assigneeRole}` : "",
+        task.recurringPattern ? `repeats ${task.recurringPattern}` : "",
+        task.priority && task.priority !== DEFAULT_PRIORITY
+          ? `priority ${task.priority}`
+          : "",
+      ].filter(Boolean);
+      lines.push(
+        `${"  ".repeat(depth)}- ${task.title}${
+          details.length > 0 ? ` (${details.join(", ")})` : ""
+        }`,
+      );
+      addTasks(task.subtasks || [], depth + 1);
+    });
+  };
+
+  addTasks(structure.tasks, 0);
+  structure.sections.forEach((section) => {
+    lines.push("", `## ${section.name}`);
+    addTasks(section.tasks, 0);
+  });
+
+  return lines.join("\n");
+};
+
+const parseOutlineTask = (
+  text: string,
+  roles: string[],
+): ProjectTemplateTask => {
+  const task: ProjectTemplateTask = {
+    title: text,
+    priority: DEFAULT_PRIORITY,
+    dueOffset: null,
+    assigneeRole: null,
+    recurringPattern: null,
+    subtasks: [],
+  };
+
+  // Only a trailing group made entirely of known details is read
+  const match = text.match(/^(.*\S)\s+\(([^()]*)\)$/);
+  const details = match
+    ? match[2].split(",").map((part) => part.trim().match(OUTLINE_DETAIL))
+    : [];
+  if (!match || details.some((detail) => !detail)) return task;
+
+  task.title = match[1];
+  details.forEach((detail) => {
+    const [, day, role, pattern, priority] = detail as RegExpMatchArray;
+    if (day !== undefined) task.dueOffset = parseInt(day, 10);
+    if (role !== undefined) {
+      task.assigneeRole = role;
+      if (!roles.includes(role)) roles.push(role);
+    }
+    if (pattern !== undefined) {
+      task.recurringPattern =
+        pattern as ProjectTemplateTask["recurringPattern"];
+    }
+    if (priority !== undefined) {
+      task.priority = priority as ProjectTemplateTask["priority"];
+    }
+  });
+
+  return task;
+};
+
+/**
+ * Read an outline written by `formatProjectTemplateOutline` (or by hand)
+ * back into a structure: `#` names the project, `##` starts a section and
+ * nested list items become subtasks. Labels, times, durations and
+ * recurrence settings other than the pattern are not part of the outline.
+ */
+export const parseProjectTemplateOutline = (
+  text: string,
+): ProjectTemplateStructure => {
+  const structure: ProjectTemplateStructure = {
+    version: PROJECT_TEMPLATE_VERSION,
+    project: {
+      name: "",
+      color: DEFAULT_PROJECT_COLOR,
+      viewType: ViewType.LIST,
+    },
+    sections: [],
+    tasks: [],
+    roles: [],
+  };
+  let target = structure.tasks;
+  let block: string[] = [];
+
+  const flush = () => {
+    const items = parseOutline(block.join("\n"));
+    const parsed: ProjectTemplateTask[] = [];
+    items.forEach((item) => {
+      const task = parseOutlineTask(item.text, structure.roles);
+      parsed.push(task);
+      if (item.parentIndex === undefined) target.push(task);
+      else parsed[item.parentIndex].subtasks.push(task);
+    });
+    block = [];
+  };
+
+  text.split(/\r?\n/).forEach((line) => {
+    const heading = line.match(/^(#{1,2})\s+(.+)$/);
+    if (!heading) {
+      block.push(line);
+      return;
+    }
+
+    flush();
+    if (heading[1] === "#") {
+      structure.project.name = heading[2].trim();
+    } else {
+      const section = { name: heading[2].trim(), tasks: [] };
+      structure.sections.push(section);
+      target = section.tasks;
+    }
+  });
+  flush();
+
+  return structure;
+};
+
+/**
+ * Number of tasks, including subtasks, a template creates
+ */
+export const countProjectTemplateTasks = (
+  structure: ProjectTemplateStructure,
+): number => {
+  const count = (templateTasks: ProjectTemplateTask[]): number =>
+    templateTasks.reduce(
+      (total, task) => total + 1 + count(task.subtasks || []),
+      0,
+    );
+
+  return (
+    count(structure.tasks) +
+    structure.sections.reduce(
+      (total, section) => total + count(section.tasks),
+      0,
+    )
+  );
+};
@@ -0,0 +1,152 @@
+/**
+ * Quick Add Utilities
+ * Text helpers for the quick-add field: keeping dismissed token ranges in
+ * place while the user edits, and `#project`, `@label` and `+assignee`
+ * autocompletion.
+ */
+
+import { NlpSpan } from "../types/nlp";
+
+export type QuickAddTagType = "project" | "label" | "assignee";
+
+export const QUICK_ADD_SIGILS: Record<string, QuickAddTagType> = {
+  "#": "project",
+  "@": "label",
+  "+": "assignee",
+};
+
+export interface QuickAddTagQuery extends NlpSpan {
+  sigil: string;
+  type: QuickAddTagType;
+  /**
+   * What was typed after the sigil
+   */
+  query: string;
+}
+
+export interface QuickAddSuggestion {
+  id: string;
+  name: string;
+}
+
+/**
+ * Move ranges along with an edit from `previous` to `next`. Ranges the
+ * edit touched are dropped so their text is parsed again.
+ */
+export function shiftSpans(
+  spans: NlpSpan[],
+  previous: string,
+  next: string,
+): NlpSpan[] {
+  if (previous === next) return spans;
+
+  let prefix = 0;
+  const maxPrefix = Math.min(previous.length, next.length);
+  while (prefix < maxPrefix && previous[prefix] === next[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    previous[previous.length - 1 - suffix] === next[next.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const changeEnd = previous.length - suffix;
+  const delta = next.length - previous.length;
+
+  return spans.flatMap((span) => {
+    if (span.end <= prefix) return [span];
+    if (span.start >= changeEnd) {
+      return [{ start: span.start + delta, end: span.end + delta }];
+    }
+    return [];
+  });
+}
+
+/**
+ * The `#`, `@` or `+` word the caret is in, if any
+ */
+export function findTagQuery(
+  text: string,
+  caret: number,
+): QuickAddTagQuery | null {
+  let start = caret;
+  while (start > 0 && !/\s/.test(text[start - 1])) start--;
+
+  const sigil = text[start];
+  const type = QUICK_ADD_SIGILS[sigil];
+  if (!type) return null;
+
+  let end = caret;
+  while (end < text.length && !/\s/.test(text[end])) end++;
+
+  const query = text.slice(start + 1, caret);
+  if (/[^\p{L}\p{N}_.-]/u.test(query)) return null;
+
+  return { sigil, type, query, start, end };
+}
+
+/**
+ * Tag text for a name; whitespace becomes "-" so the tag stays one word
+ */
+export function toTagName(name: string): string {
+  return name.trim().replace(/\s+/g, "-");
+}
+
+const normalizeName = (name: string) =>
+  name.toLowerCase().replace(/[^\p{L}\p{N}]/gu, "");
+
+/**
+ * Items whose name starts with the query first, then those containing it
+ */
+export function matchSuggestions<T extends QuickAddSuggestion>(
+  items: T[],
+  query: string,
+  limit = 8,
+): T[] {
+  const needle = normalizeName(query);
+  const prefixed: T[] = [];
+  const containing: T[] = [];
+
+  items.forEach((item) => {
+    const name = normalizeName(item.name);
+    if (name.startsWith(needle)) prefixed.push(item);
+    else if (name.includes(needle)) containing.push(item);
+  });
+
+  return [...prefixed, ...containing].slice(0, limit);
+}
+
+/**
+ * The item a parsed tag refers to, ignoring case, spaces and punctuation
+ */
+export function resolveTag<T extends QuickAddSuggestion>(
+  items: T[],
+  tag: string,
+): T | undefined {
+  const needle = normalizeName(tag);
+  return items.find((item) => normalizeName(item.name) === needle);
+}
+
+/**
+ * Replace the word being completed with the chosen tag
+ */
+export function applySuggestion(
+  text: string,
+  tagQuery: QuickAddTagQuery,
+  name: string,
+): { text: string; caret: number } {
+  const before = text.slice(0, tagQuery.start);
+  const after = text.slice(tagQuery.end);
+  const tag = `${tagQuery.sigil}${toTagName(name)}`;
+  const spacer = after.startsWith(" ") ? "" : " ";
+
+  return {
+    text: `${before}${tag}${spacer}${after}`,
+    caret: before.length + tag.length + 1,
+  };
+}
@@ -0,0 +1,225 @@
+import {
+  CollaborationEvent,
+  CollaborationEventType,
+  PresenceView,
+  RealtimeEntityType,
+} from "../types/collaboration";
+import { OfflineQueueItem } from "../types/offlineTypes";
+import { PresenceEntry, TypingEntry } from "../types/realtime";
+import { threeWayMergeTask } from "./conflictUtils";
+
+/**
+ * Version of the realtime wire protocol. Bump it for changes older clients
+ * cannot read.
+ */
+export const REALTIME_PROTOCOL_VERSION = 1;
+
+export type RealtimeChangeAction = "created" | "updated" | "deleted";
+
+const EVENT_TYPE_PATTERN = /^(task|comment|project)_(created|updated|deleted)$/;
+const ISO_DATE_PATTERN =
+  /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})$/;
+
+/**
+ * Generate a unique event ID
+ */
+export function generateEventId(): string {
+  return `event_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+}
+
+/**
+ * Event type for a change to a record, e.g. "task_updated"
+ */
+export function getEntityEventType(
+  entityType: RealtimeEntityType,
+  action: RealtimeChangeAction,
+): CollaborationEventType {
+  return `${entityType}_${action}` as CollaborationEventType;
+}
+
+/**
+ * The record type and change of an entity event, or null for other events
+ */
+export function parseEntityEventType(
+  type: CollaborationEventType,
+): { entityType: RealtimeEntityType; action: RealtimeChangeAction } | null {
+  const match = EVENT_TYPE_PATTERN.exec(type);
+  return match
+    ? {
+        entityType: match[1] as RealtimeEntityType,
+        action: match[2] as RealtimeChangeAction,
+      }
+    : null;
+}
+
+export function encodeEvent(event: CollaborationEvent): string {
+  return JSON.stringify(event);
+}
+
+/**
+ * Turn ISO date strings back into dates, as records hold Date objects
+ */
+export function reviveDates<T>(value: T): T {
+  if (typeof value === "string") {
+    return (ISO_DATE_PATTERN.test(value) ? new Date(value) : value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => reviveDates(item)) as T;
+  }
+  if (value && typeof value === "object" && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, reviveDates(item)]),
+    ) as T;
+  }
+  return value;
+}
+
+/**
+ * Parse a received message. Returns null for malformed messages and for
+ * other protocol versions.
+ */
+export function decodeEvent(message: string): CollaborationEvent | null {
+  let parsed: any;
+  try {
+    parsed = JSON.parse(message);
+  } catch {
+    return null;
+  }
+
+  if (
+    !parsed ||
+    typeof parsed !== "object" ||
+    parsed.version !== REALTIME_PROTOCOL_VERSION ||
+    typeof parsed.id !== "string" ||
+    typeof parsed.type !== "string"
+  ) {
+    return null;
+  }
+
+  return reviveDates({
+    ...parsed,
+    timestamp: parsed.timestamp ?? new Date().toISOString(),
+  });
+}
+
+/**
+ * Offline queue items for a record that have not reached the server yet
+ */
+export function getPendingChanges(
+  items: OfflineQueueItem[],
+  entityId: string,
+): OfflineQueueItem[] {
+  return items.filter(
+    (item) =>
+      item.status !== "completed" &&
+      (item.data?.taskId ?? item.data?.id) === entityId,
+  );
+}
+
+/**
+ * Version of a record to keep when another client changed it, or null to
+ * leave the local copy alone.
+ *
+ * Records with offline changes still queued keep them: a task edit that
+ * carries its base version is three-way merged so fields only the other
+ * client changed come through, and conflicting fields keep the local value
+ * for the sync to resolve. Otherwise the newer copy wins.
+ */
+export function reconcileRemoteEntity<
+  T extends { id: string; updatedAt?: Date | string },
+>(local: T | undefined, remote: T, pending: OfflineQueueItem[]): T | null {
+  if (!local) return remote;
+
+  if (pending.length > 0) {
+    if (pending.some((item) => item.type === "delete")) return null;
+
+    const base = pending.find((item) => item.data?.base)?.data.base;
+    if (!base) return null;
+
+    const { merged, conflicts } = threeWayMergeTask(base, local, remote);
+    conflicts.forEach(({ field, localValue }) => {
+      merged[field] = localValue;
+    });
+    return { ...local, ...merged } as T;
+  }
+
+  if (
+    local.updatedAt &&
+    remote.updatedAt &&
+    new Date(remote.updatedAt).getTime() < new Date(local.updatedAt).getTime()
+  ) {
+    return null;
+  }
+
+  return remote;
+}
+
+/**
+ * Drop presence not refreshed within `timeout` milliseconds
+ */
+export function prunePresence(
+  entries: PresenceEntry[],
+  now: Date,
+  timeout: number,
+): PresenceEntry[] {
+  return entries.filter(
+    ({ lastSeen }) => now.getTime() - lastSeen.getTime() <= timeout,
+  );
+}
+
+/**
+ * Other users looking at a task, or at a project when no task is given,
+ * once per user however many tabs they have open
+ */
+export function getViewers(
+  entries: PresenceEntry[],
+  view: PresenceView,
+  currentUserId: string,
+): PresenceEntry[] {
+  const viewers = new Map<string, PresenceEntry>();
+
+  entries.forEach((entry) => {
+    const matches = view.taskId
+      ? entry.view.taskId === view.taskId
+      : Boolean(view.projectId) && entry.view.projectId === view.projectId;
+    if (matches && entry.userId !== currentUserId) {
+      viewers.set(entry.userId, entry);
+    }
+  });
+
+  return Array.from(viewers.values());
+}
+
+/**
+ * Names of other users typing a comment on a task
+ */
+export function getTypingUsers(
+  entries: TypingEntry[],
+  taskId: string,
+  currentUserId: string,
+  now: Date,
+): string[] {
+  const names = new Map<string, string>();
+
+  entries.forEach((entry) => {
+    if (
+      entry.taskId === taskId &&
+      entry.userId !== currentUserId &&
+      entry.expiresAt.getTime() > now.getTime()
+    ) {
+      names.set(entry.userId, entry.userName);
+    }
+  });
+
+  return Array.from(names.values());
+}
+
+/**
+ * E.g. "Ann is typing…" or "Ann and Ben are typing…"
+ */
+export function formatTypingMessage(names: string[]): string {
+  if (names.length === 0) return "";
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
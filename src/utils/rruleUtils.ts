@@ -0,0 +1,920 @@
+/**
+ * RRULE Utilities
+ *
+ * Parsing, formatting and expansion of RFC 5545 recurrence rules,
+ * conversion between RRULEs and the app's RecurringPatternConfig, and
+ * the series splits behind "this occurrence" and "this and following" edits.
+ */
+
+import { format } from "date-fns";
+import {
+  RecurrenceSet,
+  RRule,
+  RRuleExpandOptions,
+  RRuleFrequency,
+  RRuleWeekday,
+} from "../types/calendarTypes";
+import { RecurringPattern } from "../types/enums";
+import {
+  RecurringPatternConfig,
+  RecurringSeriesConfig,
+  RecurringTaskConfig,
+} from "../types/task";
+import { formatICalDateTime, parseICalDateValue } from "./icalUtils";
+import { getZonedDateParts, zonedDateTimeToUtc } from "./dateUtils";
+
+/**
+ * Error raised for recurrence rules that cannot be parsed
+ */
+export class RRuleParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RRuleParseError";
+  }
+}
+
+/**
+ * RRULE weekdays indexed like Date.getDay() (0 = Sunday)
+ */
+export const RRULE_WEEKDAYS: RRuleWeekday[] = [
+  "SU",
+  "MO",
+  "TU",
+  "WE",
+  "TH",
+  "FR",
+  "SA",
+];
+
+const FREQUENCIES: RRuleFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+const WEEKDAY_NAMES: Record<
+  RRuleWeekday,
+  NonNullable<RecurringPatternConfig["customMonthDay"]>
+> = {
+  MO: "monday",
+  TU: "tuesday",
+  WE: "wednesday",
+  TH: "thursday",
+  FR: "friday",
+  SA: "saturday",
+  SU: "sunday",
+};
+
+const MONTH_POSITIONS: Record<
+  number,
+  NonNullable<RecurringPatternConfig["customMonthPosition"]>
+> = {
+  1: "first",
+  2: "second",
+  3: "third",
+  4: "fourth",
+  [-1]: "last",
+};
+
+const WORKWEEK: RRuleWeekday[] = ["MO", "TU", "WE", "TH", "FR"];
+
+const parseNumberList = (value: string, part: string): number[] =>
+  value.split(",").map((item) => {
+    const number = parseInt(item, 10);
+    if (isNaN(number)) {
+      throw new RRuleParseError(`Invalid ${part} value "${item}"`);
+    }
+    return number;
+  });
+
+/**
+ * Parse an RRULE value such as `FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE`.
+ * A leading `RRULE:` is accepted.
+ */
+export const parseRRule = (text: string): RRule => {
+  const parts = text
+    .trim()
+    .replace(/^RRULE:/i, "")
+    .split(";");
+  const values: Record<string, string> = {};
+
+  parts.forEach((part) => {
+    const [key, value] = part.split("=");
+    if (key && value !== undefined) {
+      values[key.toUpperCase()] = value.toUpperCase();
+    }
+  });
+
+  const freq = values.FREQ as RRuleFrequency;
+  if (!FREQUENCIES.includes(freq)) {
+    throw new RRuleParseError(
+      values.FREQ
+        ? `Unsupported frequency "${values.FREQ}"`
+        : "RRULE is missing FREQ",
+    );
+  }
+
+  const rule: RRule = {
+    freq,
+    interval: values.INTERVAL ? parseInt(values.INTERVAL, 10) : 1,
+  };
+
+  if (isNaN(rule.interval) || rule.interval < 1) {
+    throw new RRuleParseError(`Invalid INTERVAL "${values.INTERVAL}"`);
+  }
+  if (values.COUNT) {
+    rule.count = parseInt(values.COUNT, 10);
+  }
+  if (values.UNTIL) {
+    try {
+      rule.until = parseICalDateValue(values.UNTIL).date;
+    } catch {
+      throw new RRuleParseError(`Invalid UNTIL "${values.UNTIL}"`);
+    }
+  }
+  if (values.BYDAY) {
+    rule.byDay = values.BYDAY.split(",").map((item) => {
+      const match = item.match(/^([+-]?\d{1,2})?(MO|TU|WE|TH|FR|SA|SU)$/);
+      if (!match) {
+        throw new RRuleParseError(`Invalid BYDAY value "${item}"`);
+      }
+      return match[1]
+        ? {
+            weekday: match[2] as RRuleWeekday,
+            ordinal: parseInt(match[1], 10),
+          }
+        : { weekday: match[2] as RRuleWeekday };
+    });
+  }
+  if (values.BYMONTHDAY) {
+    rule.byMonthDay = parseNumberList(values.BYMONTHDAY, "BYMONTHDAY");
+  }
+  if (values.BYMONTH) {
+    rule.byMonth = parseNumberList(values.BYMONTH, "BYMONTH");
+  }
+  if (values.BYSETPOS) {
+    rule.bySetPos = parseNumberList(values.BYSETPOS, "BYSETPOS");
+  }
+  if (values.WKST) {
+    rule.wkst = values.WKST as RRuleWeekday;
+  }
+
+  return rule;
+};
+
+/**
+ * Format a rule as an RRULE value (without the `RRULE:` prefix)
+ */
+export const formatRRule = (rule: RRule): string => {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${formatICalDateTime(rule.until)}`);
+  if (rule.byDay?.length) {
+    parts.push(
+      `BYDAY=${rule.byDay
+        .map((day) => `${day.ordinal ?? ""}${day.weekday}`)
+        .join(",")}`,
+    );
+  }
+  if (rule.byMonthDay?.length) {
+    parts.push(`BYMONTHDAY=${rule.byMonthDay.join(",")}`);
+  }
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(",")}`);
+  if (rule.bySetPos?.length) {
+    parts.push(`BYSETPOS=${rule.bySetPos.join(",")}`);
+  }
+  if (rule.wkst) parts.push(`WKST=${rule.wkst}`);
+
+  return parts.join(";");
+};
+
+const UNIT_FREQUENCIES: Record<
+  NonNullable<RecurringTaskConfig["customUnit"]>,
+  NonNullable<RecurringPatternConfig["frequency"]>
+> = {
+  days: "daily",
+  weeks: "weekly",
+  months: "monthly",
+  years: "yearly",
+};
+
+/**
+ * Convert a recurring pattern configuration into an RRULE
+ */
+export const recurringConfigToRRule = (
+  config: RecurringSeriesConfig,
+): RRule => {
+  if (config.rrule) {
+    return parseRRule(config.rrule);
+  }
+
+  const interval = config.interval || config.customInterval || 1;
+  const frequency =
+    config.pattern === "custom"
+      ? config.frequency ||
+        (config.customUnit ? UNIT_FREQUENCIES[config.customUnit] : undefined)
+      : config.frequency || config.pattern;
+  let rule: RRule;
+
+  switch (frequency) {
+    case "daily":
+      rule = { freq: "DAILY", interval };
+      break;
+    case "weekdays":
+      rule = {
+        freq: "WEEKLY",
+        interval,
+        byDay: WORKWEEK.map((weekday) => ({ weekday })),
+      };
+      break;
+    case "biweekly":
+      rule = { freq: "WEEKLY", interval: interval * 2 };
+      break;
+    case "quarterly":
+      rule = { freq: "MONTHLY", interval: interval * 3 };
+      break;
+    case "monthly":
+      rule = { freq: "MONTHLY", interval };
+      break;
+    case "yearly":
+      rule = { freq: "YEARLY", interval };
+      break;
+    default:
+      rule = { freq: "WEEKLY", interval };
+  }
+
+  if (rule.freq === "WEEKLY" && !rule.byDay && config.customDays?.length) {
+    rule.byDay = [...config.customDays]
+      .sort((a, b) => a - b)
+      .map((day) => ({ weekday: RRULE_WEEKDAYS[day] }));
+  }
+
+  if (rule.freq === "MONTHLY") {
+    if (config.customMonthPosition && config.customMonthDay) {
+      const ordinal = Number(
+        Object.keys(MONTH_POSITIONS).find(
+          (key) => MONTH_POSITIONS[Number(key)] === config.customMonthPosition,
+        ),
+      );
+      const weekday = (Object.keys(WEEKDAY_NAMES) as RRuleWeekday[]).find(
+        (key) => WEEKDAY_NAMES[key] === config.customMonthDay,
+      );
+      rule.byDay = [{ weekday, ordinal }];
+    } else if (config.customMonthDays?.length) {
+      rule.byMonthDay = [...config.customMonthDays];
+    }
+  }
+
+  // Configs without an end condition end at whichever limit they have
+  const endCondition =
+    config.endCondition ||
+    (config.maxOccurrences
+      ? "after_occurrences"
+      : config.endDate
+        ? "on_date"
+        : "never");
+
+  if (endCondition === "after_occurrences" && config.maxOccurrences) {
+    rule.count = config.maxOccurrences;
+  } else if (endCondition === "on_date" && config.endDate) {
+    rule.until = new Date(config.endDate);
+  }
+
+  return rule;
+};
+
+/**
+ * Convert an RRULE into the closest recurring pattern configuration.
+ * Parts the simple fields cannot express (BYSETPOS, BYMONTH, several
+ * ordinal weekdays) are kept in `rrule`.
+ */
+export const rRuleToRecurringConfig = (rule: RRule): RecurringPatternConfig => {
+  const config: RecurringPatternConfig = {
+    pattern: RecurringPattern.DAILY,
+    frequency: "daily",
+    interval: rule.interval || 1,
+    endCondition: "never",
+    endDate: null,
+    maxOccurrences: null,
+  };
+
+  switch (rule.freq) {
+    case "DAILY":
+      break;
+    case "WEEKLY": {
+      const days = (rule.byDay || []).filter((day) => !day.ordinal);
+      const isWorkweek =
+        days.length === WORKWEEK.length &&
+        WORKWEEK.every((weekday) => days.some((d) => d.weekday === weekday));
+
+      if (isWorkweek && config.interval === 1) {
+        config.pattern = RecurringPattern.CUSTOM;
+        config.frequency = "weekdays";
+      } else {
+        config.pattern = RecurringPattern.WEEKLY;
+        config.frequency = "weekly";
+        if (days.length > 0) {
+          config.customDays = days
+            .map((day) => RRULE_WEEKDAYS.indexOf(day.weekday))
+            .sort((a, b) => a - b);
+        }
+      }
+      break;
+    }
+    case "MONTHLY": {
+      config.pattern = RecurringPattern.MONTHLY;
+      config.frequency = "monthly";
+      const ordinalDay = (rule.byDay || []).find((day) => day.ordinal);
+      if (ordinalDay && MONTH_POSITIONS[ordinalDay.ordinal]) {
+        config.customMonthPosition = MONTH_POSITIONS[ordinalDay.ordinal];
+        config.customMonthDay = WEEKDAY_NAMES[ordinalDay.weekday];
+      } else if (rule.byMonthDay?.length) {
+        config.customMonthDays = [...rule.byMonthDay];
+      }
+      break;
+    }
+    case "YEARLY":
+      config.pattern = RecurringPattern.YEARLY;
+      config.frequency = "yearly";
+      break;
+  }
+
+  if (rule.count) {
+    config.endCondition = "after_occurrences";
+    config.maxOccurrences = rule.count;
+  } else if (rule.until) {
+    config.endCondition = "on_date";
+    config.endDate = rule.until;
+  }
+
+  if (formatRRule(recurringConfigToRRule(config)) !== formatRRule(rule)) {
+    config.rrule = formatRRule(rule);
+  }
+
+  return config;
+};
+
+const DAY_MS = 86400000;
+const DEFAULT_EXPAND_LIMIT = 1000;
+// Periods in a row without an occurrence before a rule is considered
+// exhausted (covers e.g. February 29th, which can skip 8 years)
+const MAX_EMPTY_PERIODS = 1500;
+
+/**
+ * Wall-clock time as a UTC timestamp, so day arithmetic ignores DST
+ */
+const toWallTime = (date: Date, timeZone?: string): number => {
+  if (timeZone) {
+    const parts = getZonedDateParts(date, timeZone);
+    return Date.UTC(
+      parts.year,
+      parts.month - 1,
+      parts.day,
+      parts.hour,
+      parts.minute,
+      parts.second,
+    );
+  }
+  return Date.UTC(
+    date.getFullYear(),
+    date.getMonth(),
+    date.getDate(),
+    date.getHours(),
+    date.getMinutes(),
+    date.getSeconds(),
+  );
+};
+
+const fromWallTime = (wall: number, timeZone?: string): Date => {
+  const date = new Date(wall);
+  const parts = {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  };
+
+  return timeZone
+    ? zonedDateTimeToUtc(parts, timeZone)
+    : new Date(
+        parts.year,
+        parts.month - 1,
+        parts.day,
+        parts.hour,
+        parts.minute,
+        parts.second,
+      );
+};
+
+const dayNumber = (year: number, month: number, day: number): number =>
+  Date.UTC(year, month, day) / DAY_MS;
+
+const daysInMonth = (year: number, month: number): number =>
+  new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+// Day 0 (1970-01-01) was a Thursday
+const weekdayOf = (day: number): number => (((day + 4) % 7) + 7) % 7;
+
+const pickPositions = <T>(items: T[], positions: number[]): T[] =>
+  positions
+    .map((position) =>
+      position > 0 ? items[position - 1] : items[items.length + position],
+    )
+    .filter((item) => item !== undefined);
+
+/**
+ * Days between `first` and `last` that match BYDAY. Ordinals such as
+ * `2TU` or `-1FR` count within that range.
+ */
+const byDayInRange = (
+  first: number,
+  last: number,
+  byDay: NonNullable<RRule["byDay"]>,
+): number[] =>
+  byDay.flatMap(({ weekday, ordinal }) => {
+    const target = RRULE_WEEKDAYS.indexOf(weekday);
+    const matches: number[] = [];
+    for (let day = first; day <= last; day++) {
+      if (weekdayOf(day) === target) {
+        matches.push(day);
+      }
+    }
+    return ordinal ? pickPositions(matches, [ordinal]) : matches;
+  });
+
+/**
+ * Resolve BYMONTHDAY values, where -1 is the last day of the month
+ */
+const monthDays = (year: number, month: number, byMonthDay: number[]) => {
+  const length = daysInMonth(year, month);
+  return byMonthDay
+    .map((day) => (day > 0 ? day : length + day + 1))
+    .filter((day) => day >= 1 && day <= length)
+    .map((day) => dayNumber(year, month, day));
+};
+
+/**
+ * Candidate days of one period (day, week, month or year) of a rule,
+ * before BYSETPOS
+ */
+const periodDays = (rule: RRule, period: number, startDay: number) => {
+  const start = new Date(startDay * DAY_MS);
+  const startYear = start.getUTCFullYear();
+  const startMonth = start.getUTCMonth();
+  const interval = rule.interval || 1;
+  const weekdays = rule.byDay?.map((day) =>
+    RRULE_WEEKDAYS.indexOf(day.weekday),
+  );
+  const inMonths = (day: number) =>
+    !rule.byMonth ||
+    rule.byMonth.includes(new Date(day * DAY_MS).getUTCMonth() + 1);
+
+  const daysOfMonth = (year: number, month: number): number[] => {
+    if (rule.byMonthDay?.length) {
+      return monthDays(year, month, rule.byMonthDay).filter(
+        (day) => !weekdays || weekdays.includes(weekdayOf(day)),
+      );
+    }
+    if (rule.byDay?.length) {
+      return byDayInRange(
+        dayNumber(year, month, 1),
+        dayNumber(year, month, daysInMonth(year, month)),
+        rule.byDay,
+      );
+    }
+    return start.getUTCDate() <= daysInMonth(year, month)
+      ? [dayNumber(year, month, start.getUTCDate())]
+      : [];
+  };
+
+  switch (rule.freq) {
+    case "DAILY": {
+      const day = startDay + period * interval;
+      const date = new Date(day * DAY_MS);
+      const matchesMonthDay =
+        !rule.byMonthDay?.length ||
+        monthDays(
+          date.getUTCFullYear(),
+          date.getUTCMonth(),
+          rule.byMonthDay,
+        ).includes(day);
+      return inMonths(day) &&
+        matchesMonthDay &&
+        (!weekdays || weekdays.includes(weekdayOf(day)))
+        ? [day]
+        : [];
+    }
+    case "WEEKLY": {
+      const weekStart = RRULE_WEEKDAYS.indexOf(rule.wkst || "MO");
+      const offset = (weekdayOf(startDay) - weekStart + 7) % 7;
+      const first = startDay - offset + period * interval * 7;
+      const days = weekdays
+        ? Array.from({ length: 7 }, (_, index) => first + index).filter((day) =>
+            weekdays.includes(weekdayOf(day)),
+          )
+        : [first + offset];
+      return days.filter(inMonths);
+    }
+    case "MONTHLY": {
+      const months = startYear * 12 + startMonth + period * interval;
+      const year = Math.floor(months / 12);
+      const month = months % 12;
+      return rule.byMonth && !rule.byMonth.includes(month + 1)
+        ? []
+        : daysOfMonth(year, month);
+    }
+    case "YEARLY": {
+      const year = startYear + period * interval;
+      if (rule.byDay?.length && !rule.byMonth && !rule.byMonthDay) {
+        // Ordinals count within the year, e.g. the 20th Monday
+        return byDayInRange(
+          dayNumber(year, 0, 1),
+          dayNumber(year, 11, 31),
+          rule.byDay,
+        );
+      }
+      const months = rule.byMonth
+        ? rule.byMonth.map((month) => month - 1)
+        : rule.byMonthDay?.length
+          ? Array.from({ length: 12 }, (_, index) => index)
+          : [startMonth];
+      return months.flatMap((month) => daysOfMonth(year, month));
+    }
+  }
+};
+
+/**
+ * Occurrences of a rule in order, starting with DTSTART itself
+ */
+function* iterateRRule(
+  rule: RRule,
+  dtstart: Date,
+  timeZone?: string,
+): Generator<Date> {
+  const startWall = toWallTime(dtstart, timeZone);
+  const startDay = Math.floor(startWall / DAY_MS);
+  const timeOfDay = startWall - startDay * DAY_MS;
+  const until = rule.until ? rule.until.getTime() : Infinity;
+  let emitted = 1;
+
+  yield new Date(dtstart);
+  if (rule.count && emitted >= rule.count) {
+    return;
+  }
+
+  for (let period = 0, empty = 0; empty < MAX_EMPTY_PERIODS; period++) {
+    let days = [...new Set(periodDays(rule, period, startDay))].sort(
+      (a, b) => a - b,
+    );
+    if (rule.bySetPos?.length) {
+      days = [...new Set(pickPositions(days, rule.bySetPos))].sort(
+        (a, b) => a - b,
+      );
+    }
+    days = days.filter((day) => day > startDay);
+    empty = days.length > 0 ? 0 : empty + 1;
+
+    for (const day of days) {
+      const date = fromWallTime(day * DAY_MS + timeOfDay, timeZone);
+      if (date.getTime() > until) {
+        return;
+      }
+      yield date;
+      emitted++;
+      if (rule.count && emitted >= rule.count) {
+        return;
+      }
+    }
+  }
+}
+
+/**
+ * Expand a recurrence set into occurrence dates. Occurrences keep their
+ * wall-clock time in `timeZone` across DST changes, RDATEs are merged in
+ * and EXDATEs removed (matched by calendar day).
+ */
+export const expandRecurrenceSet = (
+  set: RecurrenceSet,
+  options: RRuleExpandOptions = {},
+): Date[] => {
+  const limit = options.limit ?? DEFAULT_EXPAND_LIMIT;
+  const after = options.after ? options.after.getTime() : -Infinity;
+  const before = options.before ? options.before.getTime() : Infinity;
+  const dayKey = (date: Date) =>
+    Math.floor(toWallTime(date, set.timeZone) / DAY_MS);
+
+  const excluded = new Set((set.exdates || []).map(dayKey));
+  const extra = (set.rdates || [])
+    .map((date) => new Date(date))
+    .sort((a, b) => a.getTime() - b.getTime());
+  const ruleDates = set.rrule
+    ? iterateRRule(set.rrule, set.dtstart, set.timeZone)
+    : [new Date(set.dtstart)][Symbol.iterator]();
+
+  const result: Date[] = [];
+  const seen = new Set<number>();
+  let next = ruleDates.next();
+  let extraIndex = 0;
+
+  while (result.length < limit) {
+    const ruleDate = next.done ? undefined : next.value;
+    const extraDate = extra[extraIndex];
+    let date: Date;
+
+    if (ruleDate && (!extraDate || ruleDate <= extraDate)) {
+      date = ruleDate;
+      next = ruleDates.next();
+    } else if (extraDate) {
+      date = extraDate;
+      extraIndex++;
+    } else {
+      break;
+    }
+
+    if (date.getTime() > before) {
+      break;
+    }
+    const key = dayKey(date);
+    if (date.getTime() < after || excluded.has(key) || seen.has(key)) {
+      continue;
+    }
+    seen.add(key);
+    result.push(date);
+  }
+
+  return result;
+};
+
+/**
+ * Expand a single rule from DTSTART
+ */
+export const expandRRule = (
+  rule: RRule,
+  dtstart: Date,
+  options: RRuleExpandOptions & { timeZone?: string } = {},
+): Date[] =>
+  expandRecurrenceSet(
+    { dtstart, rrule: rule, timeZone: options.timeZone },
+    options,
+  );
+
+/**
+ * Build the recurrence set of a recurring task whose first occurrence is
+ * `dtstart`
+ */
+export const recurringConfigToRecurrenceSet = (
+  config: RecurringSeriesConfig,
+  dtstart: Date,
+): RecurrenceSet => ({
+  dtstart: new Date(dtstart),
+  rrule: recurringConfigToRRule(config),
+  rdates: (config.rDates || []).map((date) => new Date(date)),
+  exdates: (config.exDates || []).map((date) => new Date(date)),
+  timeZone: config.timeZone,
+});
+
+/**
+ * First occurrence of a series after `after`, or null once the series has
+ * ended
+ */
+export const getNextOccurrence = (
+  config: RecurringSeriesConfig,
+  dtstart: Date,
+  after: Date,
+): Date | null =>
+  expandRecurrenceSet(recurringConfigToRecurrenceSet(config, dtstart), {
+    after: new Date(new Date(after).getTime() + 1),
+    limit: 1,
+  })[0] || null;
+
+/**
+ * Remove one occurrence from a series ("this occurrence only")
+ */
+export const excludeOccurrence = (
+  config: RecurringPatternConfig,
+  occurrence: Date,
+): RecurringPatternConfig => ({
+  ...config,
+  exDates: [...(config.exDates || []), new Date(occurrence)],
+});
+
+/**
+ * Split a series at an occurrence ("this and following"). `head` ends
+ * just before the occurrence; `tail` starts at it and keeps the rest of
+ * the rule, including what is left of COUNT.
+ */
+export const splitRecurringConfig = (
+  config: RecurringPatternConfig,
+  dtstart: Date,
+  occurrence: Date,
+): { head: RecurringPatternConfig; tail: RecurringPatternConfig } => {
+  const set = recurringConfigToRecurrenceSet(config, dtstart);
+  const rule = set.rrule as RRule;
+  const at = new Date(occurrence).getTime();
+  const earlier = expandRRule(rule, set.dtstart, {
+    before: new Date(at - 1),
+    timeZone: set.timeZone,
+    limit: Infinity,
+  }).length;
+
+  const headRule: RRule = rule.count
+    ? { ...rule, count: earlier }
+    : { ...rule, until: new Date(at - 1000) };
+  const tailRule: RRule = {
+    ...rule,
+    count: rule.count ? Math.max(rule.count - earlier, 1) : undefined,
+  };
+
+  const withRule = (
+    part: RRule,
+    keep: (time: number) => boolean,
+  ): RecurringPatternConfig => ({
+    ...config,
+    rrule: formatRRule(part),
+    endCondition: part.count
+      ? "after_occurrences"
+      : part.until
+        ? "on_date"
+        : "never",
+    maxOccurrences: part.count || null,
+    endDate: part.count ? null : part.until || null,
+    exDates: (config.exDates || []).filter((date) =>
+      keep(new Date(date).getTime()),
+    ),
+    rDates: (config.rDates || []).filter((date) =>
+      keep(new Date(date).getTime()),
+    ),
+  });
+
+  return {
+    head: withRule(headRule, (time) => time < at),
+    tail: withRule(tailRule, (time) => time >= at),
+  };
+};
+
+/**
+ * Next occurrence of a series that repeats from completion: one interval
+ * after the day the previous occurrence was completed, at the time of day
+ * it was due. Weekly rules with weekdays move to the next listed day
+ * instead; other BY* parts, COUNT and UNTIL are left to the caller.
+ */
+export const nextOccurrenceAfterCompletion = (
+  config: RecurringPatternConfig,
+  dueDate: Date,
+  completedAt: Date,
+): Date => {
+  const rule = recurringConfigToRRule(config);
+  const interval = rule.interval || 1;
+  const due = new Date(toWallTime(new Date(dueDate), config.timeZone));
+  const done = new Date(toWallTime(new Date(completedAt), config.timeZone));
+  const weekdays = (rule.byDay || [])
+    .filter((byDay) => !byDay.ordinal)
+    .map((byDay) => RRULE_WEEKDAYS.indexOf(byDay.weekday));
+
+  let year = done.getUTCFullYear();
+  let month = done.getUTCMonth();
+  let day = done.getUTCDate();
+
+  switch (rule.freq) {
+    case "DAILY":
+      day += interval;
+      break;
+    case "WEEKLY":
+      // With weekdays: the first listed day after completion, then whole
+      // weeks for intervals above one
+      day += weekdays.length > 0 ? 1 + (interval - 1) * 7 : interval * 7;
+      break;
+    case "MONTHLY":
+      month += interval;
+      break;
+    case "YEARLY":
+      year += interval;
+      break;
+  }
+  if (rule.freq === "MONTHLY" || rule.freq === "YEARLY") {
+    // Completing on the 31st moves to the end of shorter months
+    day = Math.min(day, daysInMonth(year, month));
+  }
+
+  let next = dayNumber(year, month, day);
+  if (rule.freq === "WEEKLY" && weekdays.length > 0) {
+    while (!weekdays.includes(weekdayOf(next))) {
+      next++;
+    }
+  }
+
+  return fromWallTime(
+    next * DAY_MS +
+      Date.UTC(
+        1970,
+        0,
+        1,
+        due.getUTCHours(),
+        due.getUTCMinutes(),
+        due.getUTCSeconds(),
+      ),
+    config.timeZone,
+  );
+};
+
+const ordinalName = (position: number): string => {
+  if (position === -1) return "last";
+  if (position < 0) return `${ordinalName(-position)} to last`;
+  const suffix =
+    position % 100 >= 11 && position % 100 <= 13
+      ? "th"
+      : ["th", "st", "nd", "rd"][position % 10] || "th";
+  return `${position}${suffix}`;
+};
+
+const FREQUENCY_LABELS: Record<RRuleFrequency, string> = {
+  DAILY: "Daily",
+  WEEKLY: "Weekly",
+  MONTHLY: "Monthly",
+  YEARLY: "Yearly",
+};
+
+const FREQUENCY_UNITS: Record<RRuleFrequency, string> = {
+  DAILY: "day",
+  WEEKLY: "week",
+  MONTHLY: "month",
+  YEARLY: "year",
+};
+
+const WEEKDAY_LABELS: Record<RRuleWeekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+/**
+ * Describe a rule in words, e.g. "Monthly on the 2nd Tuesday" or
+ * "Monthly on the last weekday"
+ */
+export const describeRRule = (rule: RRule): string => {
+  const parts = [
+    rule.interval > 1
+      ? `Every ${rule.interval} ${FREQUENCY_UNITS[rule.freq]}s`
+      : FREQUENCY_LABELS[rule.freq],
+  ];
+
+  const weekdays = (rule.byDay || []).filter((day) => !day.ordinal);
+  const ordinalDays = (rule.byDay || []).filter((day) => day.ordinal);
+  const isWorkweek =
+    weekdays.length === WORKWEEK.length &&
+    WORKWEEK.every((weekday) => weekdays.some((d) => d.weekday === weekday));
+
+  if (rule.bySetPos?.length && weekdays.length > 0) {
+    const dayName = isWorkweek
+      ? "weekday"
+      : weekdays.length === 7
+        ? "day"
+        : weekdays.map((day) => WEEKDAY_LABELS[day.weekday]).join(" or ");
+    parts.push(
+      `on the ${rule.bySetPos.map(ordinalName).join(" and ")} ${dayName}`,
+    );
+  } else if (ordinalDays.length > 0) {
+    parts.push(
+      `on the ${ordinalDays
+        .map(
+          (day) => `${ordinalName(day.ordinal)} ${WEEKDAY_LABELS[day.weekday]}`,
+        )
+        .join(" and ")}`,
+    );
+  } else if (isWorkweek) {
+    parts.push("on weekdays");
+  } else if (weekdays.length > 0) {
+    parts.push(
+      `on ${weekdays.map((day) => WEEKDAY_LABELS[day.weekday].slice(0, 3)).join(", ")}`,
+    );
+  }
+
+  if (rule.byMonthDay?.length) {
+    parts.push(
+      rule.byMonthDay.length === 1 && rule.byMonthDay[0] === -1
+        ? "on the last day"
+        : `on day ${rule.byMonthDay
+            .map((day) => (day < 0 ? `${ordinalName(day)} day` : day))
+            .join(", ")}`,
+    );
+  }
+  if (rule.byMonth?.length) {
+    parts.push(
+      `in ${rule.byMonth
+        .map((month) => format(new Date(2000, month - 1, 1), "MMMM"))
+        .join(", ")}`,
+    );
+  }
+
+  let description = parts.join(" ");
+  if (rule.count) {
+    description += `, ${rule.count} times`;
+  } else if (rule.until) {
+    description += `, until ${format(rule.until, "PPP")}`;
+  }
+  return description;
+};
@@ -0,0 +1,381 @@
+/**
+ * Search Index Utilities
+ *
+ * An in-memory inverted index with BM25 ranking, prefix expansion and
+ * typo-tolerant matching. Documents can be added, replaced and removed one
+ * at a time, so callers only pay for what changed.
+ */
+
+import { SearchHighlight } from "../types/search";
+
+export interface SearchToken {
+  term: string;
+  start: number;
+  end: number;
+}
+
+export interface SearchIndexField {
+  name: string;
+  boost: number;
+}
+
+export interface SearchIndexDocument {
+  id: string;
+  fields: Record<string, string>;
+}
+
+export interface SearchIndexMatch {
+  id: string;
+  score: number;
+  highlights: Record<string, SearchHighlight[]>;
+}
+
+export interface SearchIndexQueryOptions {
+  prefix?: boolean;
+  fuzzy?: boolean;
+  limit?: number;
+}
+
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Score multipliers for terms that only approximately match a query token
+ */
+const PREFIX_WEIGHT = 0.7;
+const FUZZY_WEIGHT = 0.4;
+
+/**
+ * Split text into lowercase word tokens with their offsets in the original text
+ */
+export function tokenizeSearchText(text: string): SearchToken[] {
+  const tokens: SearchToken[] = [];
+  const pattern = /[\p{L}\p{N}]+/gu;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(text)) !== null) {
+    tokens.push({
+      term: match[0].toLowerCase(),
+      start: match.index,
+      end: match.index + match[0].length,
+    });
+  }
+
+  return tokens;
+}
+
+/**
+ * Number of typos tolerated for a query token of the given length
+ */
+export function maxTypos(length: number): number {
+  if (length >= 8) return 2;
+  if (length >= 4) return 1;
+  return 0;
+}
+
+/**
+ * Edit distance (insertions, deletions, substitutions and adjacent
+ * transpositions), giving up once it exceeds `max`
+ */
+export function boundedEditDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  let prevPrev: number[] = [];
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(prev[j] + 1, current[j - 1] + 1, prev[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, prevPrev[j - 2] + 1);
+      }
+      current[j] = value;
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > max) {
+      return max + 1;
+    }
+    prevPrev = prev;
+    prev = current;
+  }
+
+  return prev[b.length];
+}
+
+/**
+ * Sort and merge overlapping highlight ranges
+ */
+export function mergeHighlights(ranges: SearchHighlight[]): SearchHighlight[] {
+  const sorted = [...ranges].sort((a, b) => a.start - b.start);
+  const merged: SearchHighlight[] = [];
+
+  for (const range of sorted) {
+    const last = merged[merged.length - 1];
+    if (last && range.start <= last.end) {
+      last.end = Math.max(last.end, range.end);
+    } else {
+      merged.push({ ...range });
+    }
+  }
+
+  return merged;
+}
+
+/**
+ * Term postings for one document: field name -> token occurrences
+ */
+type DocumentPostings = Map<string, SearchToken[]>;
+
+export class SearchIndex {
+  private fields: SearchIndexField[];
+  private postings = new Map<string, Map<string, DocumentPostings>>();
+  private documentTerms = new Map<string, Set<string>>();
+  private fieldLengths = new Map<string, Record<string, number>>();
+  private totalFieldLengths: Record<string, number> = {};
+
+  constructor(fields: SearchIndexField[]) {
+    this.fields = fields;
+    for (const field of fields) {
+      this.totalFieldLengths[field.name] = 0;
+    }
+  }
+
+  get size(): number {
+    return this.documentTerms.size;
+  }
+
+  has(id: string): boolean {
+    return this.documentTerms.has(id);
+  }
+
+  /**
+   * Add a document, replacing any previous version with the same ID
+   */
+  add(document: SearchIndexDocument): void {
+    this.remove(document.id);
+
+    const terms = new Set<string>();
+    const lengths: Record<string, number> = {};
+
+    for (const field of this.fields) {
+      const tokens = tokenizeSearchText(document.fields[field.name] || "");
+      lengths[field.name] = tokens.length;
+      this.totalFieldLengths[field.name] += tokens.length;
+
+      for (const token of tokens) {
+        let docs = this.postings.get(token.term);
+        if (!docs) {
+          docs = new Map();
+          this.postings.set(token.term, docs);
+        }
+        let fieldPostings = docs.get(document.id);
+        if (!fieldPostings) {
+          fieldPostings = new Map();
+          docs.set(document.id, fieldPostings);
+        }
+        const occurrences = fieldPostings.get(field.name) || [];
+        occurrences.push(token);
+        fieldPostings.set(field.name, occurrences);
+        terms.add(token.term);
+      }
+    }
+
+    this.documentTerms.set(document.id, terms);
+    this.fieldLengths.set(document.id, lengths);
+  }
+
+  /**
+   * Remove a document from the index
+   */
+  remove(id: string): void {
+    const terms = this.documentTerms.get(id);
+    if (!terms) {
+      return;
+    }
+
+    for (const term of terms) {
+      const docs = this.postings.get(term);
+      if (docs) {
+        docs.delete(id);
+        if (docs.size === 0) {
+          this.postings.delete(term);
+        }
+      }
+    }
+
+    const lengths = this.fieldLengths.get(id) || {};
+    for (const [field, length] of Object.entries(lengths)) {
+      this.totalFieldLengths[field] -= length;
+    }
+
+    this.documentTerms.delete(id);
+    this.fieldLengths.delete(id);
+  }
+
+  clear(): void {
+    this.postings.clear();
+    this.documentTerms.clear();
+    this.fieldLengths.clear();
+    for (const field of this.fields) {
+      this.totalFieldLengths[field.name] = 0;
+    }
+  }
+
+  /**
+   * Find documents matching every token in the query, best match first
+   */
+  search(
+    query: string,
+    options: SearchIndexQueryOptions = {},
+  ): SearchIndexMatch[] {
+    const { prefix = true, fuzzy = true, limit } = options;
+    const queryTokens = tokenizeSearchText(query);
+
+    if (queryTokens.length === 0 || this.size === 0) {
+      return [];
+    }
+
+    let matches: Map<string, SearchIndexMatch> | null = null;
+
+    for (const queryToken of queryTokens) {
+      const tokenMatches = this.matchToken(queryToken.term, prefix, fuzzy);
+
+      if (matches === null) {
+        matches = tokenMatches;
+      } else {
+        // Every query token has to match somewhere in the document
+        const combined = new Map<string, SearchIndexMatch>();
+        for (const [id, match] of matches) {
+          const other = tokenMatches.get(id);
+          if (other) {
+            combined.set(id, this.combineMatches(match, other));
+          }
+        }
+        matches = combined;
+      }
+
+      if (matches.size === 0) {
+        return [];
+      }
+    }
+
+    const results = Array.from(matches.values()).map((match) => ({
+      ...match,
+      highlights: Object.fromEntries(
+        Object.entries(match.highlights).map(([field, ranges]) => [
+          field,
+          mergeHighlights(ranges),
+        ]),
+      ),
+    }));
+    results.sort((a, b) => b.score - a.score);
+
+    return limit ? results.slice(0, limit) : results;
+  }
+
+  /**
+   * Score all documents containing an index term that matches one query token
+   */
+  private matchToken(
+    queryTerm: string,
+    prefix: boolean,
+    fuzzy: boolean,
+  ): Map<string, SearchIndexMatch> {
+    const matches = new Map<string, SearchIndexMatch>();
+    const typos = fuzzy ? maxTypos(queryTerm.length) : 0;
+
+    for (const [term, docs] of this.postings) {
+      let weight = 0;
+      let highlightLength: number | null = null;
+
+      if (term === queryTerm) {
+        weight = 1;
+      } else if (prefix && term.startsWith(queryTerm)) {
+        weight = PREFIX_WEIGHT;
+        highlightLength = queryTerm.length;
+      } else if (
+        typos > 0 &&
+        boundedEditDistance(queryTerm, term, typos) <= typos
+      ) {
+        weight = FUZZY_WEIGHT;
+      } else {
+        continue;
+      }
+
+      const idf = this.inverseDocumentFrequency(docs.size);
+
+      for (const [id, fieldPostings] of docs) {
+        let match = matches.get(id);
+        if (!match) {
+          match = { id, score: 0, highlights: {} };
+          matches.set(id, match);
+        }
+
+        for (const field of this.fields) {
+          const occurrences = fieldPostings.get(field.name);
+          if (!occurrences) {
+            continue;
+          }
+
+          match.score +=
+            weight *
+            field.boost *
+            idf *
+            this.termFrequencyScore(occurrences.length, id, field.name);
+
+          const ranges = match.highlights[field.name] || [];
+          for (const occurrence of occurrences) {
+            ranges.push({
+              start: occurrence.start,
+              end:
+                highlightLength === null
+                  ? occurrence.end
+                  : occurrence.start + highlightLength,
+            });
+          }
+          match.highlights[field.name] = ranges;
+        }
+      }
+    }
+
+    return matches;
+  }
+
+  private combineMatches(
+    a: SearchIndexMatch,
+    b: SearchIndexMatch,
+  ): SearchIndexMatch {
+    const highlights = { ...a.highlights };
+    for (const [field, ranges] of Object.entries(b.highlights)) {
+      highlights[field] = [...(highlights[field] || []), ...ranges];
+    }
+    return { id: a.id, score: a.score + b.score, highlights };
+  }
+
+  private inverseDocumentFrequency(documentFrequency: number): number {
+    return Math.log(
+      1 + (this.size - documentFrequency + 0.5) / (documentFrequency + 0.5),
+    );
+  }
+
+  private termFrequencyScore(
+    frequency: number,
+    id: string,
+    field: string,
+  ): number {
+    const length = this.fieldLengths.get(id)?.[field] || 0;
+    const averageLength = this.totalFieldLengths[field] / this.size || 1;
+
+    return (
+      (frequency * (BM25_K1 + 1)) /
+      (frequency + BM25_K1 * (1 - BM25_B + (BM25_B * length) / averageLength))
+    );
+  }
+}
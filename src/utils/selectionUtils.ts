@@ -0,0 +1,119 @@
+/**
+ * Selection of items in a list. The anchor is where shift ranges start and
+ * the focus is the item keyboard selection moves from.
+ */
+export interface SelectionState {
+  selectedIds: string[];
+  anchorId: string | null;
+  focusedId: string | null;
+}
+
+export interface SelectionModifiers {
+  /**
+   * Shift: select the range from the anchor
+   */
+  range?: boolean;
+
+  /**
+   * Ctrl or Cmd: toggle one item and keep the rest
+   */
+  toggle?: boolean;
+}
+
+const getRange = (orderedIds: string[], fromId: string, toId: string) => {
+  const from = orderedIds.indexOf(fromId);
+  const to = orderedIds.indexOf(toId);
+  if (from === -1 || to === -1) return [toId];
+
+  return orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1);
+};
+
+const union = (a: string[], b: string[]) => Array.from(new Set([...a, ...b]));
+
+/**
+ * Selection after clicking an item with the given modifiers
+ */
+export const getClickSelection = (
+  orderedIds: string[],
+  state: SelectionState,
+  clickedId: string,
+  { range, toggle }: SelectionModifiers = {},
+): SelectionState => {
+  if (range && state.anchorId) {
+    const rangeIds = getRange(orderedIds, state.anchorId, clickedId);
+    return {
+      ...state,
+      selectedIds: toggle ? union(state.selectedIds, rangeIds) : rangeIds,
+      focusedId: clickedId,
+    };
+  }
+
+  if (toggle) {
+    return {
+      selectedIds: state.selectedIds.includes(clickedId)
+        ? state.selectedIds.filter((id) => id !== clickedId)
+        : [...state.selectedIds, clickedId],
+      anchorId: clickedId,
+      focusedId: clickedId,
+    };
+  }
+
+  return {
+    selectedIds: [clickedId],
+    anchorId: clickedId,
+    focusedId: clickedId,
+  };
+};
+
+/**
+ * Selection after a key press, or null when the key does not change it.
+ * Arrows move the focus and extend the selection with shift, space toggles
+ * the focused item, Ctrl+A selects everything and Escape clears.
+ */
+export const getKeyboardSelection = (
+  orderedIds: string[],
+  state: SelectionState,
+  key: string,
+  { range, toggle }: SelectionModifiers = {},
+): SelectionState | null => {
+  if (orderedIds.length === 0) return null;
+
+  switch (key) {
+    case "ArrowDown":
+    case "ArrowUp": {
+      const index = state.focusedId ? orderedIds.indexOf(state.focusedId) : -1;
+      const nextIndex =
+        index === -1
+          ? key === "ArrowDown"
+            ? 0
+            : orderedIds.length - 1
+          : Math.min(
+              orderedIds.length - 1,
+              Math.max(0, index + (key === "ArrowDown" ? 1 : -1)),
+            );
+      const focusedId = orderedIds[nextIndex];
+
+      if (!range) return { ...state, focusedId };
+      const anchorId = state.anchorId || state.focusedId || focusedId;
+      return {
+        selectedIds: getRange(orderedIds, anchorId, focusedId),
+        anchorId,
+        focusedId,
+      };
+    }
+    case " ":
+      return state.focusedId
+        ? getClickSelection(orderedIds, state, state.focusedId, {
+            toggle: true,
+          })
+        : null;
+    case "a":
+      return toggle ? { ...state, selectedIds: [...orderedIds] } : null;
+    case "Escape":
+      return state.selectedIds.length > 0
+        ? { ...state, selectedIds: [], anchorId: null }
+        : null;
+    default:
+      return null;
+  }
+};
@@ -0,0 +1,582 @@
+/**
+ * Template export utilities
+ * Versioned JSON and Markdown formats for sharing template libraries,
+ * with upgrades of older formats and content hashes for deduplication
+ */
+
+import {
+  ProjectTemplateStructure,
+  Template,
+  TemplateCategory,
+  TemplateExportCategory,
+  TemplateExportFile,
+  TemplateExportItem,
+  TemplateImportItemError,
+  TemplateVariableDefinition,
+  TemplateVariableType,
+} from "../types/template";
+import { validateTemplate } from "./templateUtils";
+import {
+  formatProjectTemplateOutline,
+  parseProjectTemplateOutline,
+} from "./projectTemplateUtils";
+
+export const TEMPLATE_EXPORT_FORMAT = "todone-templates";
+
+/**
+ * Version written to `metadata.version` of exported templates
+ */
+export const TEMPLATE_FORMAT_VERSION = 2;
+
+const VARIABLE_TYPES: TemplateVariableType[] = [
+  "text",
+  "date",
+  "user",
+  "project",
+  "select",
+];
+
+/**
+ * `name: type`, `name*: select(a|b) = a`; `*` marks a required variable
+ */
+const MARKDOWN_VARIABLE =
+  /^\s+([a-zA-Z][a-zA-Z0-9_]*)(\*)?:\s*([a-z]+)(?:\(([^)]*)\))?(?:\s*=\s*(.*))?$/;
+
+const FRONT_MATTER = /^---\r?\n([\s\S]*?)\r?\n---(?:\r?\n|$)/;
+
+type RawItem = Record<string, any>;
+
+/**
+ * Upgrade steps from each format version to the next. Version 1 named the
+ * category instead of referring to one, allowed tags as a comma-separated
+ * string and variables as a list of names.
+ */
+const TEMPLATE_MIGRATIONS: Record<
+  number,
+  (item: RawItem, categories: TemplateExportCategory[]) => RawItem
+> = {
+  1: (item, categories) => {
+    const { category, ...rest } = item;
+    let categoryKey = rest.categoryKey;
+
+    if (typeof category === "string" && category.trim()) {
+      const existing = categories.find(
+        (entry) => entry.name.toLowerCase() === category.trim().toLowerCase(),
+      );
+      categoryKey = existing?.key || toCategoryKey(category, categories);
+      if (!existing) {
+        categories.push({
+          key: categoryKey,
+          name: category.trim(),
+          order: categories.length,
+        });
+      }
+    }
+
+    return {
+      ...rest,
+      categoryKey,
+      tags:
+        typeof rest.tags === "string"
+          ? rest.tags
+              .split(",")
+              .map((tag: string) => tag.trim())
+              .filter(Boolean)
+          : rest.tags,
+      variables: Array.isArray(rest.variables)
+        ? Object.fromEntries(rest.variables.map((name: string) => [name, ""]))
+        : rest.variables,
+    };
+  },
+};
+
+const toCategoryKey = (
+  name: string,
+  categories: TemplateExportCategory[],
+): string => {
+  const base =
+    name
+      .trim()
+      .toLowerCase()
+      .replace(/[^a-z0-9]+/g, "-")
+      .replace(/^-|-$/g, "") || "category";
+  let key = base;
+  for (let i = 2; categories.some((category) => category.key === key); i++) {
+    key = `${base}-${i}`;
+  }
+  return key;
+};
+
+/**
+ * JSON with object keys sorted, so equal values give equal strings
+ */
+const stableStringify = (value: unknown): string => {
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (Array.isArray(value)) return `[${value.map(stableStringify).join(",")}]`;
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .filter((key) => (value as RawItem)[key] !== undefined)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as RawItem)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+};
+
+/**
+ * What a template produces: its content, variables and project structure.
+ * Names, categories and whitespace at line ends do not count.
+ */
+const getTemplateFingerprint = (
+  template: Pick<Template, "content" | "variables" | "project">,
+): string =>
+  stableStringify({
+    content: (template.content || "")
+      .replace(/\r\n/g, "\n")
+      .replace(/[ \t]+$/gm, "")
+      .trim(),
+    variables: template.variables || {},
+    project: template.project || null,
+  });
+
+/**
+ * Short hash of a template's fingerprint. Different templates can share a
+ * hash, so confirm a match with `isSameTemplate`.
+ */
+export const hashTemplate = (
+  template: Pick<Template, "content" | "variables" | "project">,
+): string => {
+  const text = getTemplateFingerprint(template);
+
+  // 32-bit FNV-1a
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+};
+
+/**
+ * Whether two templates produce the same content, variables and project
+ */
+export const isSameTemplate = (
+  a: Pick<Template, "content" | "variables" | "project">,
+  b: Pick<Template, "content" | "variables" | "project">,
+): boolean => getTemplateFingerprint(a) === getTemplateFingerprint(b);
+
+/**
+ * Build an export file from templates and the categories they use
+ */
+export const createTemplateExport = (
+  templates: Template[],
+  categories: TemplateCategory[],
+  now: Date = new Date(),
+): TemplateExportFile => {
+  const exportCategories: TemplateExportCategory[] = [];
+  const keys = new Map<string, string>();
+
+  [...categories]
+    .sort((a, b) => a.order - b.order)
+    .filter((category) =>
+      templates.some((template) => template.categoryId === category.id),
+    )
+    .forEach((category) => {
+      const key = toCategoryKey(category.name, exportCategories);
+      keys.set(category.id, key);
+      exportCategories.push({
+        key,
+        name: category.name,
+        description: category.description,
+        color: category.color,
+        icon: category.icon,
+        order: exportCategories.length,
+      });
+    });
+
+  return {
+    format: TEMPLATE_EXPORT_FORMAT,
+    version: TEMPLATE_FORMAT_VERSION,
+    exportedAt: now.toISOString(),
+    categories: exportCategories,
+    templates: templates.map((template) => ({
+      name: template.name,
+      description: template.description,
+      content: template.content,
+      categoryKey:
+        (template.categoryId && keys.get(template.categoryId)) || null,
+      tags: template.tags || [],
+      isPublic: template.isPublic || false,
+      variables: template.variables || {},
+      project: template.project || null,
+      hash: hashTemplate(template),
+      metadata: {
+        version: TEMPLATE_FORMAT_VERSION,
+        source: template.metadata?.source,
+      },
+    })),
+  };
+};
+
+const isStringArray = (value: unknown): value is string[] =>
+  Array.isArray(value) && value.every((entry) => typeof entry === "string");
+
+const validateProjectTasks = (
+  tasks: unknown,
+  path: string,
+  errors: string[],
+): void => {
+  if (!Array.isArray(tasks)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+  tasks.forEach((task, index) => {
+    if (!task || typeof task.title !== "string" || !task.title.trim()) {
+      errors.push(`${path}[${index}] needs a title`);
+      return;
+    }
+    if (
+      task.dueOffset !== undefined &&
+      task.dueOffset !== null &&
+      !Number.isInteger(task.dueOffset)
+    ) {
+      errors.push(`${path}[${index}].dueOffset must be a whole number`);
+    }
+    validateProjectTasks(
+      task.subtasks || [],
+      `${path}[${index}].subtasks`,
+      errors,
+    );
+  });
+};
+
+/**
+ * Check an upgraded item against the current schema
+ */
+export const validateTemplateExportItem = (
+  item: RawItem,
+  categories: TemplateExportCategory[],
+): string[] => {
+  const errors: string[] = [];
+
+  if (typeof item.name !== "string") errors.push("name must be a string");
+  if (typeof item.content !== "string") errors.push("content must be a string");
+  if (item.tags !== undefined && !isStringArray(item.tags)) {
+    errors.push("tags must be a list of strings");
+  }
+  if (
+    item.categoryKey &&
+    !categories.some((category) => category.key === item.categoryKey)
+  ) {
+    errors.push(`Unknown category "${item.categoryKey}"`);
+  }
+
+  if (item.variables !== undefined) {
+    if (!item.variables || typeof item.variables !== "object") {
+      errors.push("variables must be an object");
+    } else {
+      Object.entries(item.variables).forEach(([name, variable]) => {
+        if (typeof variable === "string") return;
+        const definition = variable as TemplateVariableDefinition;
+        if (!definition || !VARIABLE_TYPES.includes(definition.type)) {
+          errors.push(`Variable "${name}" has an unknown type`);
+        } else if (
+          definition.options !== undefined &&
+          !isStringArray(definition.options)
+        ) {
+          errors.push(`Options of "${name}" must be a list of strings`);
+        }
+      });
+    }
+  }
+
+  if (item.project) {
+    const project = item.project as ProjectTemplateStructure;
+    if (!project.project || typeof project.project.name !== "string") {
+      errors.push("project needs a name");
+    }
+    if (!Array.isArray(project.sections)) {
+      errors.push("project.sections must be a list");
+    } else {
+      project.sections.forEach((section, index) => {
+        if (typeof section?.name !== "string") {
+          errors.push(`project.sections[${index}] needs a name`);
+        }
+        validateProjectTasks(
+          section?.tasks,
+          `project.sections[${index}].tasks`,
+          errors,
+        );
+      });
+    }
+    validateProjectTasks(project.tasks, "project.tasks", errors);
+  }
+
+  if (errors.length === 0) {
+    errors.push(...validateTemplate(item).errors);
+  }
+
+  return errors;
+};
+
+/**
+ * Upgrade and validate parsed export data. Problems with the file as a
+ * whole are thrown; problems with single templates are returned per item.
+ */
+export const readTemplateExport = (
+  data: unknown,
+): {
+  categories: TemplateExportCategory[];
+  templates: { index: number; item: TemplateExportItem }[];
+  errors: TemplateImportItemError[];
+} => {
+  // Version 1 exports were a bare list of templates
+  const file: RawItem = Array.isArray(data)
+    ? { format: TEMPLATE_EXPORT_FORMAT, version: 1, templates: data }
+    : (data as RawItem);
+
+  if (!file || typeof file !== "object") {
+    throw new Error("Not a template export");
+  }
+  if (file.format !== undefined && file.format !== TEMPLATE_EXPORT_FORMAT) {
+    throw new Error(`Unsupported format "${file.format}"`);
+  }
+  if (!Array.isArray(file.templates)) {
+    throw new Error("Template export has no templates list");
+  }
+  const fileVersion = Number(file.version) || 1;
+  if (fileVersion > TEMPLATE_FORMAT_VERSION) {
+    throw new Error(
+      `Template export version ${fileVersion} is newer than supported version ${TEMPLATE_FORMAT_VERSION}`,
+    );
+  }
+
+  const categories: TemplateExportCategory[] = Array.isArray(file.categories)
+    ? file.categories.filter(
+        (category: RawItem) =>
+          typeof category?.key === "string" &&
+          typeof category?.name === "string",
+      )
+    : [];
+  const templates: { index: number; item: TemplateExportItem }[] = [];
+  const errors: TemplateImportItemError[] = [];
+
+  file.templates.forEach((raw: unknown, index: number) => {
+    const name =
+      raw && typeof (raw as RawItem).name === "string"
+        ? (raw as RawItem).name
+        : undefined;
+    if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+      errors.push({ index, errors: ["Template must be an object"] });
+      return;
+    }
+
+    let item = raw as RawItem;
+    let version = Number(item.metadata?.version) || fileVersion;
+    if (version > TEMPLATE_FORMAT_VERSION) {
+      errors.push({
+        index,
+        name,
+        errors: [`Template format version ${version} is not supported`],
+      });
+      return;
+    }
+    while (version < TEMPLATE_FORMAT_VERSION) {
+      const migrate = TEMPLATE_MIGRATIONS[version];
+      if (migrate) item = migrate(item, categories);
+      version++;
+    }
+
+    const itemErrors = validateTemplateExportItem(item, categories);
+    if (itemErrors.length > 0) {
+      errors.push({ index, name, errors: itemErrors });
+      return;
+    }
+
+    templates.push({
+      index,
+      item: {
+        ...(item as TemplateExportItem),
+        tags: item.tags || [],
+        variables: item.variables || {},
+        project: item.project || null,
+        // Recomputed, since files are often edited by hand
+        hash: hashTemplate(item as TemplateExportItem),
+        metadata: { ...item.metadata, version },
+      },
+    });
+  });
+
+  return { categories, templates, errors };
+};
+
+/**
+ * Parse and read a JSON export
+ */
+export const parseTemplateExport = (text: string) => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("Template export is not valid JSON");
+  }
+  return readTemplateExport(data);
+};
+
+const formatMarkdownVariable = (
+  name: string,
+  variable: string | TemplateVariableDefinition,
+): string => {
+  const definition: TemplateVariableDefinition =
+    typeof variable === "string"
+      ? { name, type: "text", defaultValue: variable }
+      : variable;
+  const options =
+    definition.type === "select"
+      ? `(${(definition.options || []).join("|")})`
+      : "";
+  const defaultValue = definition.defaultValue
+    ? ` = ${definition.defaultValue}`
+    : "";
+  return `  ${name}${definition.required ? "*" : ""}: ${definition.type}${options}${defaultValue}`;
+};
+
+/**
+ * Markdown with a front matter header, meant for editing by hand. The
+ * body is the template content, or the task outline of a project
+ * template. Variable labels, descriptions and patterns and the task
+ * details the outline leaves out only survive the JSON format.
+ */
+export const templateToMarkdown = (
+  template: Template,
+  categoryName?: string,
+): string => {
+  const header = [
+    `name: ${template.name}`,
+    template.description ? `description: ${template.description}` : "",
+    categoryName ? `category: ${categoryName}` : "",
+    template.tags?.length ? `tags: ${template.tags.join(", ")}` : "",
+    template.isPublic ? "public: true" : "",
+    template.project ? "type: project" : "",
+    template.project ? `color: ${template.project.project.color}` : "",
+    template.project ? `view: ${template.project.project.viewType}` : "",
+    `version: ${TEMPLATE_FORMAT_VERSION}`,
+  ].filter(Boolean);
+
+  const variables = Object.entries(template.variables || {});
+  if (variables.length > 0) {
+    header.push(
+      "variables:",
+      ...variables.map(([name, variable]) =>
+        formatMarkdownVariable(name, variable),
+      ),
+    );
+  }
+
+  const body = template.project
+    ? formatProjectTemplateOutline(template.project)
+    : template.content;
+
+  return `---\n${header.join("\n")}\n---\n\n${body.trim()}\n`;
+};
+
+/**
+ * Read a Markdown template. Without front matter the first heading is
+ * used as the name.
+ */
+export const parseTemplateMarkdown = (text: string) => {
+  const frontMatter = text.match(FRONT_MATTER);
+  const body = (frontMatter ? text.slice(frontMatter[0].length) : text).trim();
+  const fields: Record<string, string> = {};
+  const variables: Record<string, TemplateVariableDefinition> = {};
+  const lineErrors: string[] = [];
+  let inVariables = false;
+
+  (frontMatter?.[1] || "").split(/\r?\n/).forEach((line, index) => {
+    if (!line.trim() || line.trim().startsWith("#")) return;
+
+    if (inVariables && /^\s/.test(line)) {
+      const match = line.match(MARKDOWN_VARIABLE);
+      if (
+        !match ||
+        !VARIABLE_TYPES.includes(match[3] as TemplateVariableType)
+      ) {
+        lineErrors.push(`Invalid variable on header line ${index + 1}`);
+        return;
+      }
+      const [, name, required, type, options, defaultValue] = match;
+      variables[name] = {
+        name,
+        type: type as TemplateVariableType,
+        ...(required ? { required: true } : {}),
+        ...(options !== undefined
+          ? { options: options.split("|").map((option) => option.trim()) }
+          : {}),
+        ...(defaultValue ? { defaultValue: defaultValue.trim() } : {}),
+      };
+      return;
+    }
+
+    const field = line.match(/^([a-zA-Z]+):\s*(.*)$/);
+    if (!field) {
+      lineErrors.push(`Invalid header line ${index + 1}`);
+      return;
+    }
+    inVariables = field[1] === "variables";
+    if (!inVariables) fields[field[1]] = field[2].trim();
+  });
+
+  const project =
+    fields.type === "project" ? parseProjectTemplateOutline(body) : null;
+  if (project) {
+    project.project.name = project.project.name || fields.name || "";
+    if (fields.color) project.project.color = fields.color;
+    if (fields.view) {
+      project.project.viewType =
+        fields.view as ProjectTemplateStructure["project"]["viewType"];
+    }
+  }
+
+  const heading = body.match(/^#\s+(.+)$/m);
+  const item: RawItem = {
+    name: fields.name || heading?.[1].trim() || "",
+    description: fields.description || undefined,
+    content: project ? formatProjectTemplateOutline(project) : body,
+    category: fields.category,
+    tags: fields.tags,
+    isPublic: fields.public === "true",
+    // Plain text variables keep the short form
+    variables: Object.fromEntries(
+      Object.entries(variables).map(([name, definition]) => [
+        name,
+        definition.type === "text" && Object.keys(definition).length <= 3
+          ? definition.defaultValue || ""
+          : definition,
+      ]),
+    ),
+    project,
+    metadata: { version: 1, source: "markdown" },
+  };
+
+  // Front matter uses the version 1 shape (category name, tag string)
+  const result = readTemplateExport({
+    format: TEMPLATE_EXPORT_FORMAT,
+    version: Number(fields.version) || TEMPLATE_FORMAT_VERSION,
+    categories: [],
+    templates: [item],
+  });
+  if (lineErrors.length > 0) {
+    result.templates = [];
+    result.errors = [
+      {
+        index: 0,
+        name: item.name || undefined,
+        errors: [...lineErrors, ...(result.errors[0]?.errors || [])],
+      },
+    ];
+  }
+  return result;
+};
@@ -3,7 +3,90 @@
  * Template utility functions for Todone application
  */
 
-import { Template, TemplateCategory } from "../types/template";
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  format,
+  isValid,
+  parse,
+  startOfDay,
+} from "date-fns";
+import {
+  Template,
+  TemplateCategory,
+  TemplateGeneratedValue,
+  TemplateVariableDefinition,
+} from "../types/template";
+
+/**
+ * `{{name}}`, `{{name - 14d}}` or `{{name + 1w | MMM d}}`
+ */
+const TEMPLATE_PLACEHOLDER =
+  /{{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*(?:([+-])\s*(\d+)\s*([dwmy]))?\s*(?:\|\s*([^}]*?))?\s*}}/g;
+
+/**
+ * Date values: `yyyy-MM-dd` or `today`, optionally with an offset
+ */
+const TEMPLATE_DATE_VALUE =
+  /^(today|\d{4}-\d{2}-\d{2})(?:\s*([+-])\s*(\d+)\s*([dwmy]))?$/i;
+
+const TEMPLATE_DATE_FORMAT = "yyyy-MM-dd";
+
+/**
+ * Date variable that needs no prompt
+ */
+const TODAY_VARIABLE = "today";
+
+interface TemplatePlaceholder {
+  placeholder: string;
+  name: string;
+  offset?: { amount: number; unit: string };
+  format?: string;
+}
+
+interface TemplateRenderOptions {
+  definitions?: TemplateVariableDefinition[];
+  now?: Date;
+  /**
+   * Names shown for user and project IDs
+   */
+  users?: { id: string; name: string }[];
+  projects?: { id: string; name: string }[];
+}
+
+const addDateOffset = (date: Date, amount: number, unit: string): Date => {
+  switch (unit.toLowerCase()) {
+    case "w":
+      return addWeeks(date, amount);
+    case "m":
+      return addMonths(date, amount);
+    case "y":
+      return addYears(date, amount);
+    default:
+      return addDays(date, amount);
+  }
+};
+
+/**
+ * Compiled `pattern` rules of text variables; null when a rule is not a
+ * valid regular expression
+ */
+const compiledPatterns = new Map<string, RegExp | null>();
+
+const compileTemplatePattern = (pattern: string): RegExp | null => {
+  if (!compiledPatterns.has(pattern)) {
+    let regex: RegExp | null = null;
+    try {
+      regex = new RegExp(`^(?:${pattern})$`);
+    } catch {
+      regex = null;
+    }
+    compiledPatterns.set(pattern, regex);
+  }
+  return compiledPatterns.get(pattern) ?? null;
+};
 
 /**
  * Generate a unique template ID
@@ -47,6 +130,42 @@ export const validateTemplate = (
     errors.push("Template description cannot exceed 1000 characters");
   }
 
+  const definitions = getTemplateVariableDefinitions({
+    content: template.content || "",
+    variables: template.variables,
+  });
+  const types = new Map(
+    definitions.map((definition) => [definition.name, definition.type]),
+  );
+
+  definitions.forEach((definition) => {
+    if (definition.type === "select" && !definition.options?.length) {
+      errors.push(`Variable "${definition.name}" needs at least one option`);
+    }
+    if (
+      definition.type === "date" &&
+      definition.defaultValue &&
+      !resolveTemplateDate(definition.defaultValue)
+    ) {
+      errors.push(`Default of "${definition.name}" is not a valid date`);
+    }
+    if (definition.pattern && !compileTemplatePattern(definition.pattern)) {
+      errors.push(`Pattern of "${definition.name}" is not a valid expression`);
+    }
+  });
+
+  parseTemplatePlaceholders(template.content || "").forEach((placeholder) => {
+    const type =
+      placeholder.name === TODAY_VARIABLE
+        ? "date"
+        : types.get(placeholder.name);
+    if ((placeholder.offset || placeholder.format) && type !== "date") {
+      errors.push(
+        `${placeholder.placeholder} uses date arithmetic but "${placeholder.name}" is not a date variable`,
+      );
+    }
+  });
+
   return {
     isValid: errors.length === 0,
     errors,
@@ -79,36 +198,233 @@ export const validateTemplateCategory = (
   };
 };
 
+/**
+ * Find placeholders in template content
+ */
+export const parseTemplatePlaceholders = (
+  content: string,
+): TemplatePlaceholder[] => {
+  return Array.from(content.matchAll(TEMPLATE_PLACEHOLDER), (match) => ({
+    placeholder: match[0],
+    name: match[1],
+    offset: match[2]
+      ? {
+          amount: parseInt(match[3], 10) * (match[2] === "-" ? -1 : 1),
+          unit: match[4],
+        }
+      : undefined,
+    format: match[5] || undefined,
+  }));
+};
+
 /**
  * Extract variables from template content
  */
 export const extractTemplateVariables = (content: string): string[] => {
-  const variableRegex = /{{\s*([a-zA-Z][a-zA-Z0-9_]*)\s*}}/g;
-  const variables: string[] = [];
-  let match;
-
-  while ((match = variableRegex.exec(content)) !== null) {
-    variables.push(match[1]);
-  }
+  const variables = parseTemplatePlaceholders(content).map(
+    (placeholder) => placeholder.name,
+  );
 
   return Array.from(new Set(variables)); // Remove duplicates
 };
 
+/**
+ * Resolve a date value such as `2024-05-01`, `today` or `today + 7d`
+ */
+export const resolveTemplateDate = (
+  value: string,
+  now: Date = new Date(),
+): Date | null => {
+  const match = value.trim().match(TEMPLATE_DATE_VALUE);
+  if (!match) return null;
+
+  const base =
+    match[1].toLowerCase() === TODAY_VARIABLE
+      ? startOfDay(now)
+      : parse(match[1], TEMPLATE_DATE_FORMAT, now);
+  if (!isValid(base)) return null;
+
+  return match[2]
+    ? addDateOffset(
+        base,
+        parseInt(match[3], 10) * (match[2] === "-" ? -1 : 1),
+        match[4],
+      )
+    : base;
+};
+
+/**
+ * Typed definitions of all variables a template asks for. Plain string
+ * entries are text variables; names only found in the content are dates
+ * when used with an offset or format and text otherwise.
+ */
+export const getTemplateVariableDefinitions = (
+  template: Pick<Template, "content" | "variables">,
+): TemplateVariableDefinition[] => {
+  const definitions = Object.entries(template.variables || {}).map(
+    ([name, variable]): TemplateVariableDefinition =>
+      typeof variable === "string"
+        ? { name, type: "text", defaultValue: variable }
+        : { ...variable, name },
+  );
+  const defined = new Set(definitions.map((definition) => definition.name));
+
+  const placeholders = parseTemplatePlaceholders(template.content || "");
+  placeholders.forEach(({ name }) => {
+    if (defined.has(name) || name === TODAY_VARIABLE) return;
+    defined.add(name);
+    definitions.push({
+      name,
+      type: placeholders.some(
+        (other) => other.name === name && (other.offset || other.format),
+      )
+        ? "date"
+        : "text",
+    });
+  });
+
+  return definitions;
+};
+
+/**
+ * Initial form values; date defaults are resolved to `yyyy-MM-dd`
+ */
+export const getDefaultTemplateValues = (
+  definitions: TemplateVariableDefinition[],
+  now: Date = new Date(),
+): Record<string, string> => {
+  const values: Record<string, string> = {};
+
+  definitions.forEach((definition) => {
+    const value = definition.defaultValue || "";
+    if (definition.type === "date" && value) {
+      const date = resolveTemplateDate(value, now);
+      values[definition.name] = date ? format(date, TEMPLATE_DATE_FORMAT) : "";
+    } else {
+      values[definition.name] = value;
+    }
+  });
+
+  return values;
+};
+
+/**
+ * Check values against their definitions; returns errors by variable name
+ */
+export const validateTemplateVariables = (
+  definitions: TemplateVariableDefinition[],
+  values: Record<string, string>,
+): Record<string, string> => {
+  const errors: Record<string, string> = {};
+
+  definitions.forEach((definition) => {
+    const label = definition.label || definition.name;
+    const value = (values[definition.name] || "").trim();
+
+    if (!value) {
+      if (definition.required) errors[definition.name] = `${label} is required`;
+      return;
+    }
+
+    switch (definition.type) {
+      case "date":
+        if (!resolveTemplateDate(value)) {
+          errors[definition.name] = `${label} must be a date`;
+        }
+        break;
+      case "select":
+        if (!(definition.options || []).includes(value)) {
+          errors[definition.name] =
+            `${label} must be one of: ${(definition.options || []).join(", ")}`;
+        }
+        break;
+      case "text": {
+        const pattern = definition.pattern
+          ? compileTemplatePattern(definition.pattern)
+          : undefined;
+        if (definition.maxLength && value.length > definition.maxLength) {
+          errors[definition.name] =
+            `${label} cannot exceed ${definition.maxLength} characters`;
+        } else if (pattern === null) {
+          errors[definition.name] = `${label} has an invalid format rule`;
+        } else if (pattern && !pattern.test(value)) {
+          errors[definition.name] = `${label} has an invalid format`;
+        }
+        break;
+      }
+    }
+  });
+
+  return errors;
+};
+
+/**
+ * Fill in placeholders and report each one that was replaced. Variables
+ * without a value are left as they are.
+ */
+export const renderTemplate = (
+  content: string,
+  variables: Record<string, string>,
+  options: TemplateRenderOptions = {},
+): { result: string; generated: TemplateGeneratedValue[] } => {
+  const now = options.now || new Date();
+  const definitions = new Map(
+    (options.definitions || []).map((definition) => [
+      definition.name,
+      definition,
+    ]),
+  );
+  const generated: TemplateGeneratedValue[] = [];
+
+  const result = content.replace(TEMPLATE_PLACEHOLDER, (placeholder) => {
+    const [parsed] = parseTemplatePlaceholders(placeholder);
+    const definition = definitions.get(parsed.name);
+    const type =
+      definition?.type ||
+      (parsed.name === TODAY_VARIABLE || parsed.offset ? "date" : "text");
+    const raw =
+      variables[parsed.name] ??
+      (parsed.name === TODAY_VARIABLE ? TODAY_VARIABLE : undefined);
+    if (raw === undefined || raw === "") return placeholder;
+
+    let value = raw;
+    let date: Date | undefined;
+
+    if (type === "date") {
+      const resolved = resolveTemplateDate(raw, now);
+      if (!resolved) return placeholder;
+      date = parsed.offset
+        ? addDateOffset(resolved, parsed.offset.amount, parsed.offset.unit)
+        : resolved;
+      try {
+        value = format(date, parsed.format || TEMPLATE_DATE_FORMAT);
+      } catch {
+        value = format(date, TEMPLATE_DATE_FORMAT);
+      }
+    } else if (parsed.offset) {
+      // Offsets only make sense for dates
+      return placeholder;
+    } else if (type === "user" || type === "project") {
+      const items = type === "user" ? options.users : options.projects;
+      value = items?.find((item) => item.id === raw)?.name || raw;
+    }
+
+    generated.push({ placeholder, variable: parsed.name, type, value, date });
+    return value;
+  });
+
+  return { result, generated };
+};
+
 /**
  * Apply variables to template content
  */
 export const applyTemplateVariables = (
   content: string,
   variables: Record<string, string>,
+  options: TemplateRenderOptions = {},
 ): string => {
-  let result = content;
-
-  for (const [key, value] of Object.entries(variables)) {
-    const placeholder = `{{${key}}}`;
-    result = result.replace(new RegExp(placeholder, "g"), value);
-  }
-
-  return result;
+  return renderTemplate(content, variables, options).result;
 };
 
 /**
@@ -119,10 +435,15 @@ export const generateTemplatePreview = (
   variables?: Record<string, string>,
 ): string => {
   // If no variables provided, use template's default variables
-  const finalVariables = variables || template.variables || {};
+  const definitions = getTemplateVariableDefinitions(template);
+  const finalVariables = variables || getDefaultTemplateValues(definitions);
 
   // Apply variables to content
-  let previewContent = applyTemplateVariables(template.content, finalVariables);
+  let previewContent = applyTemplateVariables(
+    template.content,
+    finalVariables,
+    { definitions },
+  );
 
   // Truncate long content for preview
   if (previewContent.length > 500) {
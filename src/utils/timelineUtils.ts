@@ -0,0 +1,360 @@
+/**
+ * Timeline utilities
+ * Layout for the Gantt-style timeline: task bars from due dates and
+ * durations, zoom scales, dependency links, critical path and row
+ * virtualization
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  eachDayOfInterval,
+  eachMonthOfInterval,
+  eachQuarterOfInterval,
+  eachWeekOfInterval,
+  endOfMonth,
+  endOfQuarter,
+  endOfWeek,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  subDays,
+} from "date-fns";
+import { Task } from "../types/task";
+
+export type TimelineZoom = "day" | "week" | "month" | "quarter";
+
+export interface TimelineZoomLevel {
+  label: string;
+
+  /**
+   * Width of one day in pixels
+   */
+  dayWidth: number;
+
+  /**
+   * date-fns pattern for the header ticks
+   */
+  tickFormat: string;
+}
+
+export const TIMELINE_ZOOM_LEVELS: Record<TimelineZoom, TimelineZoomLevel> = {
+  day: { label: "Day", dayWidth: 40, tickFormat: "EEE d" },
+  week: { label: "Week", dayWidth: 16, tickFormat: "MMM d" },
+  month: { label: "Month", dayWidth: 4, tickFormat: "MMM yyyy" },
+  quarter: { label: "Quarter", dayWidth: 1.5, tickFormat: "QQQ yyyy" },
+};
+
+/**
+ * Minutes of work that fill one day on the timeline. Shorter tasks still
+ * take a whole day.
+ */
+export const TIMELINE_WORKDAY_MINUTES = 480;
+
+export interface TimelineBar {
+  task: Task;
+
+  /**
+   * First day of the bar
+   */
+  start: Date;
+
+  /**
+   * Day after the last day of the bar
+   */
+  end: Date;
+
+  days: number;
+}
+
+export interface TimelineRange {
+  start: Date;
+  end: Date;
+}
+
+export interface TimelineTick {
+  date: Date;
+  x: number;
+  label: string;
+}
+
+export interface TimelineLink {
+  fromId: string;
+  toId: string;
+  lagDays: number;
+}
+
+const WEEK_OPTIONS = { weekStartsOn: 1 as const };
+
+/**
+ * Whole days a task takes on the timeline
+ */
+export const getTaskDays = (task: Pick<Task, "duration">): number =>
+  Math.max(1, Math.ceil((task.duration || 0) / TIMELINE_WORKDAY_MINUTES));
+
+/**
+ * The bar of a task, ending on its due date, or null without a due date
+ */
+export const getTimelineBar = (task: Task): TimelineBar | null => {
+  if (!task.dueDate) return null;
+
+  const days = getTaskDays(task);
+  const end = addDays(startOfDay(new Date(task.dueDate)), 1);
+
+  return { task, start: subDays(end, days), end, days };
+};
+
+/**
+ * Bars of all scheduled tasks, by start date and then title
+ */
+export const getTimelineBars = (tasks: Task[]): TimelineBar[] =>
+  tasks
+    .map(getTimelineBar)
+    .filter((bar): bar is TimelineBar => bar !== null)
+    .sort(
+      (a, b) =>
+        a.start.getTime() - b.start.getTime() ||
+        a.task.title.localeCompare(b.task.title),
+    );
+
+const startOfTick = (date: Date, zoom: TimelineZoom): Date => {
+  switch (zoom) {
+    case "day":
+      return startOfDay(date);
+    case "week":
+      return startOfWeek(date, WEEK_OPTIONS);
+    case "month":
+      return startOfMonth(date);
+    case "quarter":
+      return startOfQuarter(date);
+  }
+};
+
+const endOfTick = (date: Date, zoom: TimelineZoom): Date => {
+  switch (zoom) {
+    case "day":
+      return addDays(startOfDay(date), 1);
+    case "week":
+      return addDays(startOfDay(endOfWeek(date, WEEK_OPTIONS)), 1);
+    case "month":
+      return addDays(startOfDay(endOfMonth(date)), 1);
+    case "quarter":
+      return addDays(startOfDay(endOfQuarter(date)), 1);
+  }
+};
+
+/**
+ * Visible dates: every bar and today, padded by a week on each side and
+ * rounded out to whole ticks
+ */
+export const getTimelineRange = (
+  bars: TimelineBar[],
+  zoom: TimelineZoom,
+  today: Date = new Date(),
+): TimelineRange => {
+  let start = startOfDay(today);
+  let end = addDays(start, 1);
+
+  bars.forEach((bar) => {
+    if (bar.start < start) start = bar.start;
+    if (bar.end > end) end = bar.end;
+  });
+
+  return {
+    start: startOfTick(subDays(start, 7), zoom),
+    end: endOfTick(addDays(end, 7), zoom),
+  };
+};
+
+/**
+ * Horizontal position of a date
+ */
+export const dateToX = (
+  date: Date,
+  range: TimelineRange,
+  zoom: TimelineZoom,
+): number =>
+  differenceInCalendarDays(date, range.start) *
+  TIMELINE_ZOOM_LEVELS[zoom].dayWidth;
+
+/**
+ * Whole days covered by a horizontal drag distance
+ */
+export const xToDays = (dx: number, zoom: TimelineZoom): number =>
+  Math.round(dx / TIMELINE_ZOOM_LEVELS[zoom].dayWidth);
+
+/**
+ * Total width of the timeline in pixels
+ */
+export const getTimelineWidth = (
+  range: TimelineRange,
+  zoom: TimelineZoom,
+): number => dateToX(range.end, range, zoom);
+
+/**
+ * Header ticks for the zoom level
+ */
+export const getTimelineTicks = (
+  range: TimelineRange,
+  zoom: TimelineZoom,
+): TimelineTick[] => {
+  const interval = { start: range.start, end: subDays(range.end, 1) };
+  const dates =
+    zoom === "day"
+      ? eachDayOfInterval(interval)
+      : zoom === "week"
+        ? eachWeekOfInterval(interval, WEEK_OPTIONS)
+        : zoom === "month"
+          ? eachMonthOfInterval(interval)
+          : eachQuarterOfInterval(interval);
+
+  return dates.map((date) => ({
+    date,
+    x: dateToX(date, range, zoom),
+    label: format(date, TIMELINE_ZOOM_LEVELS[zoom].tickFormat),
+  }));
+};
+
+/**
+ * Dependency arrows between scheduled tasks
+ */
+export const getTimelineLinks = (bars: TimelineBar[]): TimelineLink[] => {
+  const scheduled = new Set(bars.map((bar) => bar.task.id));
+
+  return bars.flatMap(({ task }) =>
+    (task.dependencies || [])
+      .filter((id) => id !== task.id && scheduled.has(id))
+      .map((id) => ({
+        fromId: id,
+        toId: task.id,
+        lagDays: task.dependencyLags?.[id] || 0,
+      })),
+  );
+};
+
+/**
+ * Tasks without slack. Each task starts no earlier than its bar and no
+ * earlier than its dependencies finish plus lag; a task is critical when
+ * delaying it would delay the last finish. Tasks in dependency cycles are
+ * left out.
+ */
+export const getCriticalPath = (bars: TimelineBar[]): Set<string> => {
+  const byId = new Map(bars.map((bar) => [bar.task.id, bar]));
+  const links = getTimelineLinks(bars);
+  const incoming = new Map<string, TimelineLink[]>();
+  const outgoing = new Map<string, TimelineLink[]>();
+  links.forEach((link) => {
+    if (!incoming.has(link.toId)) incoming.set(link.toId, []);
+    if (!outgoing.has(link.fromId)) outgoing.set(link.fromId, []);
+    incoming.get(link.toId)!.push(link);
+    outgoing.get(link.fromId)!.push(link);
+  });
+
+  // Topological order; tasks in cycles never reach zero remaining links
+  const remaining = new Map(
+    bars.map((bar) => [bar.task.id, incoming.get(bar.task.id)?.length || 0]),
+  );
+  const order = bars
+    .filter((bar) => remaining.get(bar.task.id) === 0)
+    .map((bar) => bar.task.id);
+  for (let i = 0; i < order.length; i++) {
+    (outgoing.get(order[i]) || []).forEach((link) => {
+      const left = (remaining.get(link.toId) as number) - 1;
+      remaining.set(link.toId, left);
+      if (left === 0) order.push(link.toId);
+    });
+  }
+  if (order.length === 0) return new Set();
+
+  const origin = byId.get(order[0])!.start;
+  const day = (date: Date) => differenceInCalendarDays(date, origin);
+  const earlyStart = new Map<string, number>();
+  const earlyFinish = new Map<string, number>();
+
+  order.forEach((id) => {
+    const bar = byId.get(id) as TimelineBar;
+    const start = (incoming.get(id) || []).reduce(
+      (latest, link) =>
+        earlyFinish.has(link.fromId)
+          ? Math.max(latest, earlyFinish.get(link.fromId)! + link.lagDays)
+          : latest,
+      day(bar.start),
+    );
+    earlyStart.set(id, start);
+    earlyFinish.set(id, start + bar.days);
+  });
+
+  const finish = Math.max(...earlyFinish.values());
+  const lateStart = new Map<string, number>();
+  const critical = new Set<string>();
+
+  [...order].reverse().forEach((id) => {
+    const bar = byId.get(id) as TimelineBar;
+    const lateFinish = (outgoing.get(id) || []).reduce(
+      (earliest, link) =>
+        lateStart.has(link.toId)
+          ? Math.min(earliest, lateStart.get(link.toId)! - link.lagDays)
+          : earliest,
+      finish,
+    );
+    lateStart.set(id, lateFinish - bar.days);
+    if (lateStart.get(id)! <= earlyStart.get(id)!) critical.add(id);
+  });
+
+  return critical;
+};
+
+/**
+ * Task changes after dragging a bar by whole days
+ */
+export const rescheduleTask = (
+  task: Task,
+  deltaDays: number,
+): Pick<Task, "dueDate"> => ({
+  dueDate: task.dueDate ? addDays(new Date(task.dueDate), deltaDays) : null,
+});
+
+/**
+ * Task changes after dragging one edge of a bar by whole days. Moving the
+ * end edge moves the due date; both edges change the duration. Bars keep
+ * at least one day.
+ */
+export const resizeTask = (
+  task: Task,
+  edge: "start" | "end",
+  deltaDays: number,
+): Pick<Task, "dueDate" | "duration"> => {
+  const days = getTaskDays(task);
+  const nextDays = Math.max(
+    1,
+    edge === "end" ? days + deltaDays : days - deltaDays,
+  );
+
+  return {
+    dueDate:
+      edge === "end" && task.dueDate
+        ? addDays(new Date(task.dueDate), nextDays - days)
+        : task.dueDate,
+    duration: nextDays * TIMELINE_WORKDAY_MINUTES,
+  };
+};
+
+/**
+ * Rows to render for a scroll position, with some rows of overscan above
+ * and below
+ */
+export const getVisibleRows = (
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  rowCount: number,
+  overscan: number = 5,
+): { start: number; end: number } => ({
+  start: Math.max(0, Math.floor(scrollTop / rowHeight) - overscan),
+  end: Math.min(
+    rowCount,
+    Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan,
+  ),
+});